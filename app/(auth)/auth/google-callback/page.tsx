@@ -118,10 +118,6 @@ function GoogleCallbackContent() {
               } 
             }));
           }
-          
-          // Merge guest cart after successful login
-          const { mergeGuestCartOnLogin } = await import('@/lib/utils/cartMerge');
-          await mergeGuestCartOnLogin();
 
           // Redirect to home page
           router.push("/");
@@ -8,7 +8,7 @@ import { PasswordInput } from "@/components/ui/PasswordInput";
 import { LuxuryButton } from "@/components/auth/LuxuryButton";
 import { LuxuryNavBar } from "@/components/layout/LuxuryNavBar";
 import { OtpInput } from "@/components/auth/OtpInput";
-import { clientApi } from "@/lib/api-client";
+import { forgotPasswordAction, resetPasswordAction } from "@/app/actions/auth";
 import { toast } from "sonner";
 import { ArrowLeft, Mail } from "lucide-react";
 import { useTranslation } from "react-i18next";
@@ -55,15 +55,10 @@ export default function ForgotPasswordPage() {
     }
 
     try {
-      const response = await clientApi.forgotPassword(email);
-      const anyResponse = response as any;
-
-      if (anyResponse?.error) {
-        toast.error(anyResponse.error.message || t("error.failedToSendOtp"));
-      } else if (anyResponse?.data?.error) {
-        toast.error(
-          anyResponse.data.error.message || t("error.failedToSendOtp"),
-        );
+      const result = await forgotPasswordAction(email);
+
+      if (!result.success) {
+        toast.error(result.error || t("error.failedToSendOtp"));
       } else {
         toast.success(t("success.otpSent"));
         setStep(2);
@@ -143,17 +138,10 @@ export default function ForgotPasswordPage() {
     }
 
     try {
-      const response = await clientApi.resetPassword(email, otp, newPassword);
-      const anyResponse = response as any;
-
-      if (anyResponse?.error) {
-        toast.error(
-          anyResponse.error.message || t("error.failedToResetPassword"),
-        );
-      } else if (anyResponse?.data?.error) {
-        toast.error(
-          anyResponse.data.error.message || t("error.failedToResetPassword"),
-        );
+      const result = await resetPasswordAction(email, otp, newPassword);
+
+      if (!result.success) {
+        toast.error(result.error || t("error.failedToResetPassword"));
       } else {
         toast.success(t("success.passwordReset"));
         setTimeout(() => {
@@ -173,15 +161,10 @@ export default function ForgotPasswordPage() {
 
     setIsLoading(true);
     try {
-      const response = await clientApi.forgotPassword(email);
-      const anyResponse = response as any;
-
-      if (anyResponse?.error) {
-        toast.error(anyResponse.error.message || t("error.failedToResendOtp"));
-      } else if (anyResponse?.data?.error) {
-        toast.error(
-          anyResponse.data.error.message || t("error.failedToResendOtp"),
-        );
+      const result = await forgotPasswordAction(email);
+
+      if (!result.success) {
+        toast.error(result.error || t("error.failedToResendOtp"));
       } else {
         toast.success(t("success.otpResent"));
         setResendCooldown(60);
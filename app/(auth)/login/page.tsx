@@ -99,9 +99,6 @@ export default function AuthPage() {
           );
         }
 
-        // Merge guest cart after successful login
-        const { mergeGuestCartOnLogin } = await import("@/lib/utils/cartMerge");
-        await mergeGuestCartOnLogin();
         router.push("/shop");
         router.refresh();
       } else {
@@ -186,11 +183,6 @@ export default function AuthPage() {
             );
           }
 
-          // Merge guest cart after successful OTP login
-          const { mergeGuestCartOnLogin } = await import(
-            "@/lib/utils/cartMerge"
-          );
-          await mergeGuestCartOnLogin();
           router.push("/shop");
           router.refresh();
           return;
@@ -267,9 +259,6 @@ export default function AuthPage() {
           );
         }
 
-        // Merge guest cart after successful registration
-        const { mergeGuestCartOnLogin } = await import("@/lib/utils/cartMerge");
-        await mergeGuestCartOnLogin();
         router.push("/shop");
         router.refresh();
       } else {
@@ -18,10 +18,15 @@ import {
   OrderPaymentInfo,
   OrderSummaryCard,
   OrderActions,
+  ReorderDialog,
 } from "@/components/shop/orders";
+import { useReorder } from "@/hooks/shop/useReorder";
+import { useRetryPayment } from "@/hooks/shop/useRetryPayment";
 
-import { myOrdersApi, OrderDetail, OrderItem } from "@/lib/api/my-orders";
+import { orderApi } from "@/lib/api/order";
+import { OrderDetail, OrderItem } from "@/lib/types/order";
 import { formatDate } from "@/lib/utils/order-formatters";
+import { canRetryPayment } from "@/lib/utils/payment-gateway";
 
 export default function OrderDetailPage() {
   const { t } = useTranslation();
@@ -32,6 +37,15 @@ export default function OrderDetailPage() {
   const [order, setOrder] = useState<OrderDetail | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isCancelling, setIsCancelling] = useState(false);
+  const {
+    plan: reorderPlan,
+    isAdding: isAddingReorder,
+    isReordering,
+    startReorder,
+    confirmPartialReorder,
+    dismissPlan,
+  } = useReorder(orderCode);
+  const { retryPayment, isRetrying: isRetryingPayment } = useRetryPayment();
 
   // Fetch order detail
   const fetchOrderDetail = useCallback(async () => {
@@ -39,7 +53,7 @@ export default function OrderDetailPage() {
 
     setIsLoading(true);
     try {
-      const result = await myOrdersApi.getMyOrderDetail(orderCode);
+      const result = await orderApi.getMyOrderDetail(orderCode);
 
       if (result.error) {
         toast.error(
@@ -51,9 +65,7 @@ export default function OrderDetailPage() {
         return;
       }
 
-      // Handle nested response structure
-      const orderData = (result.data as any)?.data || result.data;
-      setOrder(orderData);
+      setOrder(result.data ?? null);
     } catch (error) {
       console.error("Error fetching order:", error);
       toast.error(
@@ -77,8 +89,8 @@ export default function OrderDetailPage() {
     setIsCancelling(true);
     try {
       // TODO: Update API call to include reason
-      // const result = await myOrdersApi.cancelOrder(orderCode, { reason });
-      const result = await myOrdersApi.cancelOrder(orderCode);
+      // const result = await orderApi.cancelOrder(orderCode, { reason });
+      const result = await orderApi.cancelOrder(orderCode);
 
       // Log reason for now (will be sent to backend later)
       if (reason) {
@@ -113,15 +125,6 @@ export default function OrderDetailPage() {
     }
   };
 
-  // Handle re-order
-  const handleReorder = () => {
-    toast.info(
-      t("orders.messages.reorderComingSoon", {
-        defaultValue: "Re-order feature coming soon!",
-      }),
-    );
-  };
-
   return (
     <div className="space-y-12">
       {/* Back Navigation */}
@@ -282,13 +285,30 @@ export default function OrderDetailPage() {
               <OrderActions
                 status={order.status}
                 isCancelling={isCancelling}
+                isReordering={isReordering}
+                canRetryPayment={canRetryPayment(order)}
+                isRetryingPayment={isRetryingPayment}
                 onCancel={handleCancelOrder}
-                onReorder={handleReorder}
+                onReorder={startReorder}
+                onRetryPayment={() =>
+                  retryPayment({
+                    orderCode: order.orderCode,
+                    amount: order.finalAmount,
+                    paymentMethod: order.paymentMethod,
+                  })
+                }
               />
             </motion.div>
           </div>
         </>
       )}
+
+      <ReorderDialog
+        plan={reorderPlan}
+        isAdding={isAddingReorder}
+        onConfirm={confirmPartialReorder}
+        onClose={dismissPlan}
+      />
     </div>
   );
 }
@@ -15,13 +15,8 @@ import {
   EmptyOrdersState,
 } from "@/components/shop/orders";
 
-import {
-  myOrdersApi,
-  OrderSummary,
-  OrderStatus,
-  MyOrderSearchParams,
-  ApiResult,
-} from "@/lib/api/my-orders";
+import { orderApi, MyOrderSearchParams } from "@/lib/api/order";
+import { OrderSummary, OrderStatus } from "@/lib/types/order";
 
 const PAGE_SIZE = 10;
 
@@ -47,8 +42,7 @@ export default function MyOrdersPage() {
       }
 
       try {
-        const result: ApiResult<OrderSummary[]> =
-          await myOrdersApi.getMyOrders(params);
+        const result = await orderApi.getMyOrders(params);
 
         if (result.error) {
           toast.error(
@@ -60,7 +54,7 @@ export default function MyOrdersPage() {
           return;
         }
 
-        // Clean ApiResult format: { data: [...], meta: {...} }
+        // Parsed by the order schemas: { data: [...], meta: {...} }
         setOrders(result.data || []);
         setTotalPages(result.meta?.totalPages || 1);
         setTotalElements(
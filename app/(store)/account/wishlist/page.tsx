@@ -0,0 +1,149 @@
+"use client";
+
+import Link from "next/link";
+import { motion, AnimatePresence } from "framer-motion";
+import { toast } from "sonner";
+import { useTranslation } from "react-i18next";
+import { Heart, RefreshCw } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { WishlistItemCard } from "@/components/shop/account";
+import { useWishlist } from "@/components/providers/WishlistProvider";
+import { useAppSelector } from "@/lib/store/hooks";
+
+export default function WishlistPage() {
+  const { t } = useTranslation();
+  const isAuthenticated = useAppSelector((state) => state.auth.isAuthenticated);
+  const { items, loading, error, fetchWishlist, removeWishlistItem } = useWishlist();
+
+  const handleRemove = async (productId: string) => {
+    try {
+      await removeWishlistItem(productId);
+      toast.success(t("wishlist.removed"));
+    } catch (err: unknown) {
+      toast.error((err instanceof Error && err.message) || t("wishlist.updateFailed"));
+    }
+  };
+
+  return (
+    <div className="space-y-16">
+      {/* Luxury Page Header */}
+      <motion.header
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.8, ease: [0.22, 1, 0.36, 1] }}
+        className="relative"
+      >
+        <div className="w-12 h-px bg-accent/60 mb-6" />
+
+        <div className="flex items-end justify-between">
+          <div className="space-y-3">
+            <h1
+              className="text-3xl md:text-4xl font-light tracking-[0.02em] text-foreground"
+              style={{ fontFamily: "var(--font-serif), Georgia, serif" }}
+            >
+              {t("wishlist.title")}
+            </h1>
+            <p
+              className="text-sm tracking-[0.1em] uppercase text-muted-foreground/70 font-light"
+              style={{ fontFamily: "var(--font-sans), sans-serif" }}
+            >
+              {t("wishlist.subtitle", { count: items.length })}
+            </p>
+          </div>
+
+          {isAuthenticated && (
+            <button
+              onClick={() => fetchWishlist()}
+              disabled={loading}
+              className="group p-3 -m-3 text-muted-foreground/50 hover:text-accent transition-colors duration-500"
+              aria-label="Refresh"
+            >
+              <RefreshCw
+                className={`w-4 h-4 transition-transform duration-700 ${
+                  loading ? "animate-spin" : "group-hover:rotate-180"
+                }`}
+              />
+            </button>
+          )}
+        </div>
+      </motion.header>
+
+      {/* Guest notice - their list lives on this device until they sign in */}
+      {!isAuthenticated && (
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 px-6 py-5 border border-accent/20 bg-accent/[0.03]">
+          <p className="text-sm text-muted-foreground font-light">
+            {t("wishlist.guestNotice")}
+          </p>
+          <Link
+            href="/login"
+            className="text-[10px] tracking-[0.2em] uppercase text-accent hover:opacity-80 whitespace-nowrap"
+          >
+            {t("wishlist.signInToSync")}
+          </Link>
+        </div>
+      )}
+
+      {error && items.length > 0 && (
+        <p className="text-sm text-destructive/80 font-light">{error}</p>
+      )}
+
+      {loading && items.length === 0 ? (
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-x-6 gap-y-12">
+          {Array.from({ length: 6 }).map((_, i) => (
+            <div key={i} className="space-y-4">
+              <Skeleton className="aspect-[3/4] w-full" />
+              <Skeleton className="h-4 w-3/4" />
+              <Skeleton className="h-4 w-1/3" />
+            </div>
+          ))}
+        </div>
+      ) : items.length === 0 ? (
+        <motion.div
+          initial={{ opacity: 0, scale: 0.97 }}
+          animate={{ opacity: 1, scale: 1 }}
+          transition={{ duration: 0.5 }}
+          className="flex flex-col items-center justify-center py-20 text-center"
+        >
+          <div className="w-20 h-20 rounded-full border border-accent/20 flex items-center justify-center mb-8">
+            <Heart className="w-8 h-8 text-accent/60 stroke-[1.25]" />
+          </div>
+          <h2
+            className="text-xl font-light text-foreground mb-3"
+            style={{ fontFamily: "var(--font-serif), Georgia, serif" }}
+          >
+            {error ? t("wishlist.loadError") : t("wishlist.empty.title")}
+          </h2>
+          <p className="text-sm text-muted-foreground font-light max-w-sm mb-8">
+            {error ? error : t("wishlist.empty.description")}
+          </p>
+          {error ? (
+            <Button variant="outline" onClick={() => fetchWishlist()}>
+              {t("wishlist.retry")}
+            </Button>
+          ) : (
+            <Link href="/shop">
+              <Button className="rounded-none px-8 text-[11px] tracking-[0.2em] uppercase">
+                {t("wishlist.empty.browse")}
+              </Button>
+            </Link>
+          )}
+        </motion.div>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-x-6 gap-y-12">
+          <AnimatePresence>
+            {items.map((item, index) => (
+              <WishlistItemCard
+                key={item.productId}
+                item={item}
+                index={index}
+                onRemove={handleRemove}
+              />
+            ))}
+          </AnimatePresence>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -11,7 +11,7 @@ import { CartItem } from "@/components/shop/cart/CartItem";
 import { CartOrderSummary } from "@/components/shop/cart/CartOrderSummary";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
-import { ShoppingBag, Trash2, ArrowLeft, ShieldCheck } from "lucide-react";
+import { ShoppingBag, Trash2, ArrowLeft, ShieldCheck, CloudOff } from "lucide-react";
 import { toast } from "sonner";
 import { useTranslation } from "react-i18next";
 
@@ -33,6 +33,8 @@ export default function CartPage() {
     updateCartItem,
     removeCartItem,
     removeAllCartItems,
+    pendingChanges,
+    isOffline,
   } = useCart();
   const isAuthenticated = useAppSelector((state) => state.auth.isAuthenticated);
 
@@ -46,10 +48,8 @@ export default function CartPage() {
   const handleUpdateQuantity = async (itemId: number, newQuantity: number) => {
     if (newQuantity < 1) return;
     try {
+      // Applied optimistically; only a rejected change needs a message
       await updateCartItem(itemId, newQuantity);
-      toast.success(
-        t("cart.quantityUpdated", { defaultValue: "Quantity updated" })
-      );
     } catch (error: any) {
       toast.error(
         error?.message || t("cart.updateFailed", { defaultValue: "Failed to update quantity" })
@@ -142,6 +142,14 @@ export default function CartPage() {
                 {t("cart.cartSavedLocally")}
               </p>
             )}
+            {(isOffline || pendingChanges > 0) && (
+              <p className="mt-1 text-sm text-amber-600 dark:text-amber-400">
+                <CloudOff className="inline h-4 w-4 mr-1" />
+                {pendingChanges > 0
+                  ? t("cart.offline.pending", { count: pendingChanges })
+                  : t("cart.offline.notice")}
+              </p>
+            )}
           </div>
 
           {items.length === 0 ? (
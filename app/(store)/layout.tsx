@@ -1,21 +1,22 @@
-﻿'use client';
-
 import { StoreProvider } from '@/lib/context/StoreContext';
-import { aureaStore } from '@/config/stores/aurea';
 import { CartProvider } from '@/components/providers/CartProvider';
+import { WishlistProvider } from '@/components/providers/WishlistProvider';
+import { getStoreConfigServer } from '@/lib/api/settings-server';
 
-export default function AureaLayout({
+export default async function AureaLayout({
   children,
 }: {
   children: React.ReactNode;
 }) {
+  const store = await getStoreConfigServer();
+
   return (
-    <StoreProvider store={aureaStore}>
+    <StoreProvider store={store}>
       <CartProvider>
-        {children}
+        <WishlistProvider>
+          {children}
+        </WishlistProvider>
       </CartProvider>
     </StoreProvider>
   );
 }
-
-
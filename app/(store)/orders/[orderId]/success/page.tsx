@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useState, Suspense } from "react";
+import { useEffect, useRef, useState, Suspense } from "react";
 import { useRouter, useParams } from "next/navigation";
 import Link from "next/link";
 import { motion } from "framer-motion";
@@ -15,8 +15,16 @@ import {
 import { StorefrontNavBar } from "@/components/shop/layout/StorefrontNavBar";
 import { StorefrontFooter } from "@/components/shop/layout/StorefrontFooter";
 import { useTranslation } from "react-i18next";
-import { OrderCreationResponse, orderApi } from "@/lib/api/order";
-import Image from "next/image";
+import { toast } from "sonner";
+import { orderApi } from "@/lib/api/order";
+import {
+  OrderCreation,
+  PaymentInfo,
+  orderCreationSchema,
+} from "@/lib/types/order";
+import { paymentApi } from "@/lib/api/payment";
+import { BankTransferPanel } from "@/components/shop/orders";
+import { useBankTransferStatus } from "@/hooks/shop/useBankTransferStatus";
 
 /**
  * Format currency to VND
@@ -39,10 +47,20 @@ function OrderSuccessContent() {
   const params = useParams();
   const orderId = params?.orderId as string;
 
-  const [orderData, setOrderData] = useState<OrderCreationResponse | null>(
+  const [orderData, setOrderData] = useState<OrderCreation | null>(
     null,
   );
   const [isLoading, setIsLoading] = useState(true);
+  const [isRegenerating, setIsRegenerating] = useState(false);
+  const [isSwitching, setIsSwitching] = useState(false);
+
+  const {
+    paymentInfo,
+    secondsLeft,
+    isAwaiting,
+    isExpired,
+    updatePaymentInfo,
+  } = useBankTransferStatus(orderData?.orderCode, orderData?.paymentInfo);
 
   useEffect(() => {
     const fetchOrder = async () => {
@@ -52,10 +70,12 @@ function OrderSuccessContent() {
       const stored = sessionStorage.getItem(`order_${orderId}`);
       if (stored) {
         try {
-          const data = JSON.parse(stored) as OrderCreationResponse;
-          setOrderData(data);
-          setIsLoading(false);
-          return;
+          const parsed = orderCreationSchema.safeParse(JSON.parse(stored));
+          if (parsed.success) {
+            setOrderData(parsed.data);
+            setIsLoading(false);
+            return;
+          }
         } catch (error) {
           console.error("Failed to parse order data:", error);
         }
@@ -63,17 +83,20 @@ function OrderSuccessContent() {
 
       // 2. Fallback to API if not in storage
       try {
-        const result = await orderApi.getOrderDetails(orderId);
+        const result = await orderApi.getMyOrderDetail(orderId);
         if (result.data) {
           // Convert DetailResponse to CreationResponse structure as needed by existing UI
           const detail = result.data;
           setOrderData({
-            orderId: String(detail.id),
+            orderId: detail.id,
             orderCode: detail.orderCode,
             status: detail.status,
             totalAmount: detail.finalAmount,
             itemSummary: detail.items?.[0]?.productName || "Your Order",
-            paymentInfo: detail.paymentInfo,
+            paymentInfo: detail.paymentInfo ?? {
+              paymentMethod: detail.paymentMethod,
+              paymentStatus: detail.paymentStatus,
+            },
           });
         }
       } catch (error) {
@@ -86,6 +109,83 @@ function OrderSuccessContent() {
     fetchOrder();
   }, [orderId]);
 
+  // Keep the cached order in sync and announce the payment result in place
+  const previousStatusRef = useRef(paymentInfo?.paymentStatus);
+  useEffect(() => {
+    if (!orderData || !paymentInfo) return;
+
+    sessionStorage.setItem(
+      `order_${orderData.orderCode}`,
+      JSON.stringify({ ...orderData, paymentInfo }),
+    );
+
+    const previousStatus = previousStatusRef.current;
+    previousStatusRef.current = paymentInfo.paymentStatus;
+    if (!previousStatus || previousStatus === paymentInfo.paymentStatus) return;
+
+    if (paymentInfo.paymentStatus === "PAID") {
+      toast.success(t("checkout.bankTransfer.paid"));
+    } else if (paymentInfo.paymentStatus === "FAILED") {
+      toast.error(t("checkout.bankTransfer.failed"));
+    }
+  }, [orderData, paymentInfo, t]);
+
+  const applyPaymentChange = async (
+    request: () => Promise<{
+      data?: PaymentInfo;
+      error?: { message?: string };
+    }>,
+    successMessage: string,
+  ) => {
+    const result = await request();
+
+    if (result.error) {
+      toast.error(
+        result.error.message || t("checkout.bankTransfer.updateFailed"),
+      );
+      return;
+    }
+
+    if (result.data) {
+      updatePaymentInfo(result.data);
+      toast.success(successMessage);
+    }
+  };
+
+  const handleRegenerate = async () => {
+    if (!orderData) return;
+
+    setIsRegenerating(true);
+    try {
+      await applyPaymentChange(
+        () => paymentApi.retryPayment(orderData.orderCode),
+        t("checkout.bankTransfer.regenerated"),
+      );
+    } catch (error) {
+      console.error("Failed to regenerate QR code:", error);
+      toast.error(t("checkout.bankTransfer.updateFailed"));
+    } finally {
+      setIsRegenerating(false);
+    }
+  };
+
+  const handleSwitchToCod = async () => {
+    if (!orderData) return;
+
+    setIsSwitching(true);
+    try {
+      await applyPaymentChange(
+        () => paymentApi.changePaymentMethod(orderData.orderCode, "COD"),
+        t("checkout.bankTransfer.switchedToCod"),
+      );
+    } catch (error) {
+      console.error("Failed to switch payment method:", error);
+      toast.error(t("checkout.bankTransfer.updateFailed"));
+    } finally {
+      setIsSwitching(false);
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -129,7 +229,6 @@ function OrderSuccessContent() {
     status,
     totalAmount,
     itemSummary,
-    paymentInfo,
   } = orderData;
 
   return (
@@ -301,7 +400,11 @@ function OrderSuccessContent() {
                       ? t("checkout.cashOnDelivery")
                       : paymentInfo.paymentMethod === "BANK_TRANSFER"
                         ? t("checkout.bankingTransfer")
-                        : paymentInfo.paymentMethod}
+                        : paymentInfo.paymentMethod === "VN_PAY"
+                          ? t("checkout.vnPay")
+                          : paymentInfo.paymentMethod === "MOMO"
+                            ? t("checkout.momo")
+                            : paymentInfo.paymentMethod}
                   </p>
                 </div>
 
@@ -332,38 +435,25 @@ function OrderSuccessContent() {
                   </span>
                 </div>
 
-                {/* QR Code for BANK_TRANSFER */}
-                {paymentInfo.paymentMethod === "BANK_TRANSFER" &&
-                  paymentInfo.qrCodeUrl && (
-                    <div className="pt-4 border-t border-gray-200 dark:border-white/10">
-                      <p
-                        className="text-sm text-gray-600 dark:text-zinc-400 mb-3"
-                        style={{
-                          fontFamily: "var(--font-be-vietnam-pro), sans-serif",
-                        }}
-                      >
-                        {t("checkout.scanQRCode", {
-                          defaultValue: "Scan QR code to pay",
-                        })}
-                      </p>
-                      <div className="relative w-64 h-64 mx-auto bg-white p-4 rounded-lg">
-                        <Image
-                          src={paymentInfo.qrCodeUrl}
-                          alt="Payment QR Code"
-                          fill
-                          className="object-contain"
-                        />
-                      </div>
-                    </div>
-                  )}
-
-                {/* Payment URL for online payments */}
-                {paymentInfo.paymentUrl && (
+                {/* Bank transfer instructions, countdown and expiry actions */}
+                {isAwaiting && (
+                  <BankTransferPanel
+                    paymentInfo={paymentInfo}
+                    amount={totalAmount}
+                    secondsLeft={secondsLeft}
+                    isExpired={isExpired}
+                    isRegenerating={isRegenerating}
+                    isSwitching={isSwitching}
+                    onRegenerate={handleRegenerate}
+                    onSwitchToCod={handleSwitchToCod}
+                  />
+                )}
+
+                {/* Payment URL for online payments - the gateway returns to /payment/return */}
+                {paymentInfo.paymentUrl && paymentInfo.paymentStatus !== "PAID" && (
                   <div className="pt-4 border-t border-gray-200 dark:border-white/10">
                     <a
                       href={paymentInfo.paymentUrl}
-                      target="_blank"
-                      rel="noopener noreferrer"
                       className="inline-block w-full px-6 py-3 bg-[#181818] dark:bg-white text-white dark:text-black hover:scale-105 transition-all duration-300 rounded-lg text-center font-medium"
                       style={{
                         fontFamily: "var(--font-poppins), sans-serif",
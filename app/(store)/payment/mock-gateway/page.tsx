@@ -0,0 +1,156 @@
+"use client";
+
+import { Suspense } from "react";
+import { useSearchParams } from "next/navigation";
+import Link from "next/link";
+import { CheckCircle2, Clock, ShieldAlert, XCircle } from "lucide-react";
+import { useTranslation } from "react-i18next";
+import type { PaymentReturnOutcome } from "@/lib/api/payment";
+import {
+  isMockGatewayEnabled,
+  isOnlinePaymentMethod,
+} from "@/lib/utils/payment-gateway";
+import { getPaymentMethodLabel } from "@/lib/utils/order-formatters";
+
+const OUTCOME_ACTIONS: {
+  outcome: PaymentReturnOutcome;
+  icon: typeof CheckCircle2;
+  labelKey: string;
+  className: string;
+}[] = [
+  {
+    outcome: "SUCCESS",
+    icon: CheckCircle2,
+    labelKey: "payment.mock.pay",
+    className: "bg-emerald-600 hover:bg-emerald-700 text-white",
+  },
+  {
+    outcome: "PENDING",
+    icon: Clock,
+    labelKey: "payment.mock.pending",
+    className:
+      "bg-white dark:bg-zinc-800 border border-gray-300 dark:border-white/20 text-gray-900 dark:text-white",
+  },
+  {
+    outcome: "FAILED",
+    icon: XCircle,
+    labelKey: "payment.mock.fail",
+    className: "bg-red-600 hover:bg-red-700 text-white",
+  },
+];
+
+/**
+ * Format currency to VND
+ */
+function formatVND(amount: number): string {
+  return (
+    new Intl.NumberFormat("vi-VN", {
+      style: "decimal",
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    })
+      .format(amount)
+      .replace(/,/g, ".") + "₫"
+  );
+}
+
+/**
+ * Local stand-in for the VNPay / MoMo hosted payment page
+ * Each decision goes through /api/mock-gateway, which signs the callback
+ * and redirects to /payment/return like the real gateways do
+ */
+function MockGatewayContent() {
+  const { t } = useTranslation();
+  const searchParams = useSearchParams();
+
+  const orderCode = searchParams?.get("orderCode") || "";
+  const amount = searchParams?.get("amount") || "0";
+  const method = searchParams?.get("method");
+
+  if (!isMockGatewayEnabled() || !orderCode || !isOnlinePaymentMethod(method)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-[#09090b]">
+        <div className="text-center">
+          <ShieldAlert className="h-16 w-16 text-red-500 mx-auto mb-4" />
+          <p className="text-gray-600 dark:text-zinc-400 mb-6">
+            {t("payment.mock.unavailable")}
+          </p>
+          <Link href="/shop" className="underline">
+            {t("payment.continueShopping")}
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const decisionUrl = (outcome: PaymentReturnOutcome) =>
+    `/api/mock-gateway?${new URLSearchParams({
+      orderCode,
+      amount,
+      method,
+      outcome,
+    }).toString()}`;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-[#09090b] px-4">
+      <div className="w-full max-w-md bg-white dark:bg-zinc-900 border border-gray-200 dark:border-white/10 rounded-xl shadow-xl p-8 space-y-6">
+        <div className="text-center space-y-2">
+          <span className="inline-block px-3 py-1 rounded-full text-xs font-medium uppercase tracking-[0.15em] bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-400">
+            {t("payment.mock.badge")}
+          </span>
+          <h1
+            className="text-2xl font-bold text-gray-900 dark:text-white"
+            style={{ fontFamily: "var(--font-poppins), sans-serif" }}
+          >
+            {getPaymentMethodLabel(method)}
+          </h1>
+        </div>
+
+        <div className="space-y-3 text-sm">
+          <div className="flex items-center justify-between">
+            <span className="text-gray-600 dark:text-zinc-400">
+              {t("checkout.orderNumber")}
+            </span>
+            <span className="font-bold">{orderCode}</span>
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-gray-600 dark:text-zinc-400">
+              {t("checkout.total")}
+            </span>
+            <span className="font-bold text-[#d4b483]">
+              {formatVND(Number(amount))}
+            </span>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          {OUTCOME_ACTIONS.map(({ outcome, icon: Icon, labelKey, className }) => (
+            <a
+              key={outcome}
+              href={decisionUrl(outcome)}
+              className={`flex items-center justify-center gap-2 w-full px-6 py-3 rounded-lg font-medium transition-colors ${className}`}
+            >
+              <Icon className="h-5 w-5" />
+              {t(labelKey)}
+            </a>
+          ))}
+        </div>
+
+        <Link
+          href={`/account/orders/${orderCode}`}
+          className="block text-center text-sm text-gray-500 dark:text-zinc-500 hover:underline"
+        >
+          {t("payment.mock.cancel")}
+        </Link>
+      </div>
+    </div>
+  );
+}
+
+export default function MockGatewayPage() {
+  return (
+    <Suspense fallback={null}>
+      <MockGatewayContent />
+    </Suspense>
+  );
+}
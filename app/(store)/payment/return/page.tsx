@@ -0,0 +1,321 @@
+"use client";
+
+import { useEffect, useRef, useState, Suspense } from "react";
+import { useSearchParams } from "next/navigation";
+import Link from "next/link";
+import { motion } from "framer-motion";
+import {
+  CheckCircle2,
+  XCircle,
+  Clock,
+  Package,
+  ArrowLeft,
+  RefreshCcw,
+  CreditCard,
+  Loader2,
+} from "lucide-react";
+import { useTranslation } from "react-i18next";
+import { StorefrontNavBar } from "@/components/shop/layout/StorefrontNavBar";
+import { StorefrontFooter } from "@/components/shop/layout/StorefrontFooter";
+import { paymentApi, PaymentReturnResponse } from "@/lib/api/payment";
+import { orderApi } from "@/lib/api/order";
+import { useRetryPayment } from "@/hooks/shop/useRetryPayment";
+import { isOnlinePaymentMethod } from "@/lib/utils/payment-gateway";
+
+type ReturnState = "verifying" | "success" | "failed" | "pending" | "invalid";
+
+/**
+ * Format currency to VND
+ */
+function formatVND(amount: number): string {
+  return (
+    new Intl.NumberFormat("vi-VN", {
+      style: "decimal",
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    })
+      .format(amount)
+      .replace(/,/g, ".") + "₫"
+  );
+}
+
+const STATE_STYLES: Record<
+  Exclude<ReturnState, "verifying">,
+  { icon: typeof CheckCircle2; className: string }
+> = {
+  success: {
+    icon: CheckCircle2,
+    className:
+      "bg-emerald-100 dark:bg-emerald-900/30 text-emerald-600 dark:text-emerald-400",
+  },
+  failed: {
+    icon: XCircle,
+    className: "bg-red-100 dark:bg-red-900/30 text-red-600 dark:text-red-400",
+  },
+  pending: {
+    icon: Clock,
+    className:
+      "bg-yellow-100 dark:bg-yellow-900/30 text-yellow-600 dark:text-yellow-400",
+  },
+  invalid: {
+    icon: XCircle,
+    className: "bg-red-100 dark:bg-red-900/30 text-red-600 dark:text-red-400",
+  },
+};
+
+function PaymentReturnContent() {
+  const { t } = useTranslation();
+  const searchParams = useSearchParams();
+  const { retryPayment, isRetrying } = useRetryPayment();
+
+  const [state, setState] = useState<ReturnState>("verifying");
+  const [result, setResult] = useState<PaymentReturnResponse | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  // Gateway callbacks must only be verified once (StrictMode runs effects twice)
+  const verifiedRef = useRef(false);
+
+  useEffect(() => {
+    if (verifiedRef.current) return;
+    verifiedRef.current = true;
+
+    const verify = async () => {
+      const params = Object.fromEntries(searchParams?.entries() ?? []);
+
+      try {
+        const response = await paymentApi.verifyPaymentReturn(params);
+
+        if (response.error) {
+          setErrorMessage(response.error.message || null);
+          setState("invalid");
+          return;
+        }
+
+        const data = response.data;
+
+        if (!data) {
+          setState("invalid");
+          return;
+        }
+
+        setResult(data);
+        setState(
+          data.outcome === "SUCCESS"
+            ? "success"
+            : data.outcome === "PENDING"
+              ? "pending"
+              : "failed",
+        );
+
+        // Drop the cached creation response so the success page reloads fresh status
+        sessionStorage.removeItem(`order_${data.orderCode}`);
+      } catch (error) {
+        console.error("Failed to verify payment return:", error);
+        setState("invalid");
+      }
+    };
+
+    verify();
+  }, [searchParams]);
+
+  // Re-check the order when the gateway has not confirmed the payment yet
+  const handleCheckAgain = async () => {
+    if (!result) return;
+
+    setIsChecking(true);
+    try {
+      const response = await orderApi.getMyOrderDetail(result.orderCode);
+      const paymentStatus = response.data?.paymentStatus;
+
+      if (paymentStatus === "PAID") {
+        setState("success");
+      } else if (paymentStatus === "FAILED") {
+        setState("failed");
+      }
+    } catch (error) {
+      console.error("Failed to refresh payment status:", error);
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleRetry = () => {
+    if (!result || !isOnlinePaymentMethod(result.paymentMethod)) return;
+
+    retryPayment({
+      orderCode: result.orderCode,
+      amount: result.amount ?? 0,
+      paymentMethod: result.paymentMethod,
+    });
+  };
+
+  if (state === "verifying") {
+    return (
+      <div className="flex-1 flex items-center justify-center mt-20">
+        <div className="text-center">
+          <div className="h-8 w-8 border-4 border-[#d4b483] border-t-transparent rounded-full animate-spin mx-auto mb-4" />
+          <p className="text-gray-600 dark:text-zinc-400">
+            {t("payment.verifying")}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const { icon: StateIcon, className: iconClassName } = STATE_STYLES[state];
+
+  return (
+    <div className="flex-1 mt-20 relative z-10">
+      <div className="container mx-auto px-4 py-12 max-w-2xl">
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.6 }}
+          className="text-center mb-10"
+        >
+          <motion.div
+            initial={{ scale: 0 }}
+            animate={{ scale: 1 }}
+            transition={{ delay: 0.2, type: "spring", stiffness: 200 }}
+            className="inline-block mb-6"
+          >
+            <div
+              className={`h-24 w-24 rounded-full flex items-center justify-center mx-auto ${iconClassName}`}
+            >
+              <StateIcon className="h-12 w-12" />
+            </div>
+          </motion.div>
+          <h1
+            className="text-3xl md:text-4xl font-bold uppercase tracking-[0.2em] mb-4 text-gray-900 dark:text-white"
+            style={{ fontFamily: "var(--font-poppins), sans-serif" }}
+          >
+            {t(`payment.${state}.title`)}
+          </h1>
+          <p
+            className="text-gray-600 dark:text-zinc-400 text-lg"
+            style={{ fontFamily: "var(--font-be-vietnam-pro), sans-serif" }}
+          >
+            {state === "invalid" && errorMessage
+              ? errorMessage
+              : t(`payment.${state}.description`)}
+          </p>
+        </motion.div>
+
+        {result && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.6, delay: 0.3 }}
+            className="backdrop-blur-2xl bg-white/80 dark:bg-white/5 border border-gray-200 dark:border-white/10 rounded-xl p-8 space-y-4 shadow-xl dark:shadow-2xl mb-8"
+            style={{ fontFamily: "var(--font-be-vietnam-pro), sans-serif" }}
+          >
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-gray-600 dark:text-zinc-400">
+                {t("checkout.orderNumber")}
+              </p>
+              <p className="font-bold text-gray-900 dark:text-white">
+                {result.orderCode}
+              </p>
+            </div>
+            {result.amount !== undefined && (
+              <div className="flex items-center justify-between">
+                <p className="text-sm text-gray-600 dark:text-zinc-400">
+                  {t("checkout.total")}
+                </p>
+                <p className="font-bold text-[#d4b483]">
+                  {formatVND(result.amount)}
+                </p>
+              </div>
+            )}
+            {result.transactionId && (
+              <div className="flex items-center justify-between">
+                <p className="text-sm text-gray-600 dark:text-zinc-400">
+                  {t("payment.transactionId")}
+                </p>
+                <p className="font-mono text-sm text-gray-900 dark:text-white">
+                  {result.transactionId}
+                </p>
+              </div>
+            )}
+          </motion.div>
+        )}
+
+        {/* Action Buttons */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.6, delay: 0.4 }}
+          className="flex flex-col sm:flex-row flex-wrap gap-4 justify-center"
+          style={{ fontFamily: "var(--font-poppins), sans-serif" }}
+        >
+          {state === "failed" && result && (
+            <button
+              type="button"
+              onClick={handleRetry}
+              disabled={isRetrying}
+              className="inline-flex items-center justify-center gap-2 px-8 py-3 bg-[#181818] dark:bg-white text-white dark:text-black hover:scale-105 transition-all duration-300 rounded-lg font-medium disabled:opacity-60 disabled:hover:scale-100"
+            >
+              {isRetrying ? (
+                <Loader2 className="h-5 w-5 animate-spin" />
+              ) : (
+                <CreditCard className="h-5 w-5" />
+              )}
+              {isRetrying ? t("payment.redirecting") : t("payment.retry")}
+            </button>
+          )}
+
+          {state === "pending" && (
+            <button
+              type="button"
+              onClick={handleCheckAgain}
+              disabled={isChecking}
+              className="inline-flex items-center justify-center gap-2 px-8 py-3 bg-[#181818] dark:bg-white text-white dark:text-black hover:scale-105 transition-all duration-300 rounded-lg font-medium disabled:opacity-60 disabled:hover:scale-100"
+            >
+              <RefreshCcw
+                className={`h-5 w-5 ${isChecking ? "animate-spin" : ""}`}
+              />
+              {t("payment.checkAgain")}
+            </button>
+          )}
+
+          {result && (
+            <Link
+              href={`/account/orders/${result.orderCode}`}
+              className="inline-flex items-center justify-center gap-2 px-8 py-3 bg-white dark:bg-zinc-800 border border-gray-300 dark:border-white/20 text-gray-900 dark:text-white hover:scale-105 transition-all duration-300 rounded-lg font-medium"
+            >
+              <Package className="h-5 w-5" />
+              {t("payment.viewOrder")}
+            </Link>
+          )}
+
+          <Link
+            href="/shop"
+            className="inline-flex items-center justify-center gap-2 px-8 py-3 bg-white dark:bg-zinc-800 border border-gray-300 dark:border-white/20 text-gray-900 dark:text-white hover:scale-105 transition-all duration-300 rounded-lg font-medium"
+          >
+            <ArrowLeft className="h-5 w-5" />
+            {t("payment.continueShopping")}
+          </Link>
+        </motion.div>
+      </div>
+    </div>
+  );
+}
+
+export default function PaymentReturnPage() {
+  return (
+    <div className="min-h-screen flex flex-col bg-white dark:bg-[#09090b] text-gray-900 dark:text-white transition-colors duration-300">
+      <StorefrontNavBar />
+      <Suspense
+        fallback={
+          <div className="flex-1 flex items-center justify-center mt-20">
+            <div className="h-8 w-8 border-4 border-[#d4b483] border-t-transparent rounded-full animate-spin" />
+          </div>
+        }
+      >
+        <PaymentReturnContent />
+      </Suspense>
+      <StorefrontFooter />
+    </div>
+  );
+}
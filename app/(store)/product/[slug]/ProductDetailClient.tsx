@@ -13,7 +13,6 @@ import {
   Minus, 
   Plus,
   ZoomIn,
-  Star,
   Truck,
   RotateCcw,
   Shield,
@@ -26,8 +25,11 @@ import { ProductResponse, VariantResponse, ProductAsset } from '@/lib/types/prod
 import { Button } from '@/components/ui/button';
 import { useTranslation } from 'react-i18next';
 import { useCart } from '@/components/providers/CartProvider';
+import { toWishlistItem, useWishlist } from '@/components/providers/WishlistProvider';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
+import { ProductReviews, StarRating } from '@/components/shop/reviews';
+import { useReviewSummary } from '@/hooks/shop/useProductReviews';
 
 interface ProductDetailClientProps {
   product: ProductResponse;
@@ -89,6 +91,8 @@ function isSizeAvailableForColor(
 export function ProductDetailClient({ product }: ProductDetailClientProps) {
   const { t } = useTranslation();
   const { addItemToCart, loading: cartLoading } = useCart();
+  const { isWishlisted: isInWishlist, toggleWishlist } = useWishlist();
+  const { data: reviewSummary } = useReviewSummary(product.id);
   
   // Image Gallery State
   const [selectedImageIndex, setSelectedImageIndex] = useState(0);
@@ -101,8 +105,7 @@ export function ProductDetailClient({ product }: ProductDetailClientProps) {
   const [selectedSize, setSelectedSize] = useState<string | null>(null);
   const [quantity, setQuantity] = useState(1);
   
-  // Wishlist State (local for now)
-  const [isWishlisted, setIsWishlisted] = useState(false);
+  const isWishlisted = isInWishlist(product.id);
   const [isAddingToCart, setIsAddingToCart] = useState(false);
   const [isBuyingNow, setIsBuyingNow] = useState(false);
   
@@ -264,6 +267,14 @@ export function ProductDetailClient({ product }: ProductDetailClientProps) {
         productId: product.id,
         productVariantId: selectedVariant.id,
         quantity,
+        // Shown in the cart if the item has to be added offline
+        preview: {
+          productName: product.name,
+          price: currentPrice,
+          thumbnail: product.thumbnail,
+          sku: selectedVariant.sku,
+          availableStock: selectedVariant.quantity,
+        },
       });
 
       if (cart) {
@@ -310,6 +321,15 @@ export function ProductDetailClient({ product }: ProductDetailClientProps) {
     }
   };
   
+  const handleToggleWishlist = async () => {
+    try {
+      const added = await toggleWishlist(toWishlistItem(product));
+      toast.success(added ? t('wishlist.added') : t('wishlist.removed'));
+    } catch (error: unknown) {
+      toast.error((error instanceof Error && error.message) || t('wishlist.updateFailed'));
+    }
+  };
+
   const handleMouseMove = (e: React.MouseEvent<HTMLDivElement>) => {
     if (!isZoomed) return;
     const rect = e.currentTarget.getBoundingClientRect();
@@ -495,22 +515,15 @@ export function ProductDetailClient({ product }: ProductDetailClientProps) {
               )}
             </div>
             
-            {/* Rating - Hidden for MVP (uncomment when reviews API is available)
-            <div className="flex items-center gap-2">
-              <div className="flex">
-                {[1, 2, 3, 4, 5].map((star) => (
-                  <Star 
-                    key={star} 
-                    className={cn(
-                      "h-4 w-4",
-                      star <= 4 ? "fill-[#D4AF37] text-[#D4AF37]" : "text-zinc-300"
-                    )} 
-                  />
-                ))}
-              </div>
-              <span className="text-sm text-zinc-500">(0 reviews)</span>
-            </div>
-            */}
+            {/* Rating */}
+            {reviewSummary && reviewSummary.totalReviews > 0 && (
+              <a href="#reviews" className="flex items-center gap-2 w-fit group">
+                <StarRating value={reviewSummary.averageRating} />
+                <span className="text-sm text-zinc-500 group-hover:text-[#D4AF37] transition-colors">
+                  {reviewSummary.averageRating.toFixed(1)} ({t('reviews.count', { count: reviewSummary.totalReviews })})
+                </span>
+              </a>
+            )}
             
             {/* Short Description */}
             {product.description && (
@@ -667,11 +680,12 @@ export function ProductDetailClient({ product }: ProductDetailClientProps) {
             {/* Wishlist & Share */}
             <div className="flex items-center gap-4 pt-2">
               <button 
-                onClick={() => setIsWishlisted(!isWishlisted)}
+                onClick={handleToggleWishlist}
+                aria-pressed={isWishlisted}
                 className="flex items-center gap-2 text-sm text-zinc-600 dark:text-zinc-400 hover:text-[#D4AF37] transition-colors"
               >
                 <Heart className={cn("h-5 w-5", isWishlisted && "fill-[#D4AF37] text-[#D4AF37]")} />
-                {t('product.addToWishlist')}
+                {isWishlisted ? t('wishlist.saved') : t('product.addToWishlist')}
               </button>
               <button 
                 onClick={() => {
@@ -735,19 +749,8 @@ export function ProductDetailClient({ product }: ProductDetailClientProps) {
             </div>
           </section>
           
-          {/* Reviews - Placeholder with API Feedback */}
-          <section>
-            <h2 className="text-xl font-light text-zinc-900 dark:text-zinc-100 mb-6 uppercase tracking-widest">
-              {t('product.reviews')}
-            </h2>
-            <div className="bg-zinc-50 dark:bg-zinc-900 p-8 rounded-lg text-center">
-              <Star className="h-12 w-12 text-zinc-300 mx-auto mb-4" />
-              <p className="text-zinc-500">
-                {t('product.noReviewsYet')}
-              </p>
-              {/* API FEEDBACK: Need ReviewController for GET /api/v1/products/{id}/reviews */}
-            </div>
-          </section>
+          {/* Reviews */}
+          <ProductReviews productId={product.id} />
           
           {/* Related Products - Placeholder with API Feedback */}
           <section>
@@ -43,6 +43,7 @@ export function ShopClient({ categories }: ShopClientProps) {
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   const {
     products,
+    facets,
     isLoading,
     filters,
     setFilter,
@@ -57,11 +58,12 @@ export function ShopClient({ categories }: ShopClientProps) {
     filters.categorySlug,
     filters.priceRange[0],
     filters.priceRange[1],
-    filters.size,
-    filters.color,
-
     filters.inStock !== null,
-  ].filter(Boolean).length;
+  ].filter(Boolean).length + filters.sizes.length + filters.colors.length + filters.brands.length;
+
+  const facetTags = (['sizes', 'colors', 'brands'] as const).flatMap((key) =>
+    filters[key].map((value) => ({ key, value }))
+  );
 
   return (
     <div className="max-w-[1440px] mx-auto px-4 md:px-5 py-10">
@@ -95,7 +97,7 @@ export function ShopClient({ categories }: ShopClientProps) {
             <SheetTrigger asChild>
               <Button variant="outline" size="sm" className="lg:hidden border-zinc-200 dark:border-zinc-800">
                 <SlidersHorizontal className="h-4 w-4 mr-2" />
-                {t('shop.filters')}
+                {t('shop.filters.title')}
                 {activeFiltersCount > 0 && (
                   <Badge variant="secondary" className="ml-2 bg-[#D4AF37] text-white">
                     {activeFiltersCount}
@@ -113,6 +115,7 @@ export function ShopClient({ categories }: ShopClientProps) {
                   onFilterChange={setFilter} 
                   onReset={resetFilters}
                   categories={categories}
+                  facets={facets}
                 />
               </div>
             </SheetContent>
@@ -167,6 +170,7 @@ export function ShopClient({ categories }: ShopClientProps) {
               onFilterChange={setFilter} 
               onReset={resetFilters}
               categories={categories}
+              facets={facets}
             />
           </div>
         </aside>
@@ -200,12 +204,15 @@ export function ShopClient({ categories }: ShopClientProps) {
                   </Badge>
                 );
               })()}
-              {filters.color && (
-                <Badge variant="outline" className="pl-3 pr-1 py-1 rounded-full border-[#D4AF37]/30 bg-[#D4AF37]/5 text-[#D4AF37]">
-                  Color: {filters.color}
-                  <X className="ml-2 h-3 w-3 cursor-pointer" onClick={() => setFilter('color', null)} />
+              {facetTags.map(({ key, value }) => (
+                <Badge key={`${key}-${value}`} variant="outline" className="pl-3 pr-1 py-1 rounded-full border-[#D4AF37]/30 bg-[#D4AF37]/5 text-[#D4AF37]">
+                  {t(`shop.facets.tags.${key}`, { value })}
+                  <X
+                    className="ml-2 h-3 w-3 cursor-pointer hover:text-black"
+                    onClick={() => setFilter(key, filters[key].filter((selected) => selected !== value))}
+                  />
                 </Badge>
-              )}
+              ))}
               {/* Add more tag if needed */}
               <Button 
                 variant="ghost" 
@@ -1,40 +1,9 @@
 "use server";
 
 import { cookies } from "next/headers";
-import type {
-  ApiResultAuthResponse,
-  ApiResultVoid,
-  AuthResponse,
-  AuthStatus,
-} from "@/lib/types/auth";
-import { serverApi } from "@/lib/server-api";
-
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:8080";
-
-/**
- * Helper function to set auth cookies
- */
-async function setAuthCookies(accessToken: string, refreshToken?: string) {
-  const cookieStore = await cookies();
-
-  cookieStore.set("accessToken", accessToken, {
-    httpOnly: true,
-    secure: process.env.NODE_ENV === "production",
-    sameSite: "lax",
-    path: "/",
-    maxAge: 60 * 60 * 24 * 7, // 7 days
-  });
-
-  if (refreshToken) {
-    cookieStore.set("refresh_token", refreshToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "lax",
-      path: "/",
-      maxAge: 60 * 60 * 24 * 30, // 30 days
-    });
-  }
-}
+import apiClient from "@/lib/api-client";
+import type { AuthResponse, AuthStatus } from "@/lib/types/auth";
+import { getServerSession, setAuthCookies } from "@/lib/server-auth";
 
 /**
  * Server Action: Login with Password
@@ -44,24 +13,20 @@ export async function loginWithPasswordAction(
   password: string,
 ) {
   try {
-    const response = await fetch(`${API_BASE_URL}/api/v1/auth/login`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({ identifier, password }),
-    });
-
-    const data: ApiResultAuthResponse = await response.json();
+    const result = await apiClient.post<AuthResponse>(
+      "auth/login",
+      { identifier, password },
+      { skipAuthRefresh: true },
+    );
 
-    if (!response.ok || data.error) {
+    if (result.error) {
       return {
         success: false,
-        error: data.error?.message || "Login failed",
+        error: result.error.message || "Login failed",
       };
     }
 
-    const authData = data.data;
+    const authData = result.data;
     if (!authData || !authData.accessToken) {
       return {
         success: false,
@@ -96,44 +61,31 @@ export async function loginWithPasswordAction(
  */
 export async function loginWithGoogleAction(code: string, redirectUri: string) {
   try {
-    console.log(
-      "[Server Action] Google login - API URL:",
-      `${API_BASE_URL}/api/v1/auth/google-login`,
-    );
     console.log("[Server Action] Code present:", !!code);
     console.log("[Server Action] Redirect URI:", redirectUri);
 
-    const response = await fetch(`${API_BASE_URL}/api/v1/auth/google-login`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({ code, redirectUri }),
-    });
-
-    console.log(
-      "[Server Action] Response status:",
-      response.status,
-      response.statusText,
+    const result = await apiClient.post<AuthResponse>(
+      "auth/google-login",
+      { code, redirectUri },
+      { skipAuthRefresh: true },
     );
 
-    const data: ApiResultAuthResponse = await response.json();
     console.log("[Server Action] Response data:", {
-      success: !data.error,
-      error: data.error,
-      hasAccessToken: !!data.data?.accessToken,
+      success: !result.error,
+      error: result.error,
+      hasAccessToken: !!result.data?.accessToken,
     });
 
-    if (!response.ok || data.error) {
-      console.error("[Server Action] Google login failed:", data.error);
+    if (result.error) {
+      console.error("[Server Action] Google login failed:", result.error);
       return {
         success: false,
         error:
-          data.error?.message || `Google login failed (${response.status})`,
+          result.error.message || `Google login failed (${result.error.code})`,
       };
     }
 
-    const authData = data.data;
+    const authData = result.data;
     if (!authData || !authData.accessToken) {
       return {
         success: false,
@@ -181,24 +133,20 @@ export async function finishRegistrationAction(
       };
     }
 
-    const response = await fetch(`${API_BASE_URL}/api/v1/auth/register`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({ email, password, fullName, registerToken }),
-    });
-
-    const data: ApiResultAuthResponse = await response.json();
+    const result = await apiClient.post<AuthResponse>(
+      "auth/register",
+      { email, password, fullName, registerToken },
+      { skipAuthRefresh: true },
+    );
 
-    if (!response.ok || data.error) {
+    if (result.error) {
       return {
         success: false,
-        error: data.error?.message || "Registration failed",
+        error: result.error.message || "Registration failed",
       };
     }
 
-    const authData = data.data;
+    const authData = result.data;
     if (!authData || !authData.accessToken) {
       return {
         success: false,
@@ -235,22 +183,16 @@ export async function finishRegistrationAction(
 export async function logoutAction() {
   const cookieStore = await cookies();
 
-  // Call backend logout endpoint
-  try {
-    const accessToken = cookieStore.get("accessToken")?.value;
-
-    if (accessToken) {
-      await fetch(`${API_BASE_URL}/api/v1/auth/logout`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${accessToken}`,
-        },
-      });
+  // Call backend logout endpoint; cookies are cleared even if it fails
+  const session = await getServerSession();
+  if (session.accessToken) {
+    const result = await apiClient.post<void>("auth/logout", undefined, {
+      session,
+      skipAuthRefresh: true,
+    });
+    if (result.error) {
+      console.error("Logout API call failed:", result.error);
     }
-  } catch (error) {
-    // Continue with cookie deletion even if backend call fails
-    console.error("Logout API call failed:", error);
   }
 
   // Clear cookies
@@ -264,20 +206,16 @@ export async function logoutAction() {
  */
 export async function requestOtpAction(email: string) {
   try {
-    const response = await fetch(`${API_BASE_URL}/api/v1/auth/otp/request`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({ email }),
-    });
-
-    const data: ApiResultVoid = await response.json();
+    const result = await apiClient.post<void>(
+      "auth/otp/request",
+      { email },
+      { skipAuthRefresh: true },
+    );
 
-    if (!response.ok || data.error) {
+    if (result.error) {
       return {
         success: false,
-        error: data.error?.message || "Failed to send OTP",
+        error: result.error.message || "Failed to send OTP",
       };
     }
 
@@ -300,24 +238,20 @@ export async function requestOtpAction(email: string) {
  */
 export async function verifyOtpAction(email: string, code: string) {
   try {
-    const response = await fetch(`${API_BASE_URL}/api/v1/auth/otp/verify`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({ email, code }),
-    });
-
-    const data: ApiResultAuthResponse = await response.json();
+    const result = await apiClient.post<AuthResponse>(
+      "auth/otp/verify",
+      { email, code },
+      { skipAuthRefresh: true },
+    );
 
-    if (!response.ok || data.error) {
+    if (result.error) {
       return {
         success: false,
-        error: data.error?.message || "OTP verification failed",
+        error: result.error.message || "OTP verification failed",
       };
     }
 
-    const authData = data.data;
+    const authData = result.data;
     if (!authData) {
       return {
         success: false,
@@ -379,23 +313,16 @@ export async function verifyOtpAction(email: string, code: string) {
  */
 export async function forgotPasswordAction(email: string) {
   try {
-    const response = await fetch(
-      `${API_BASE_URL}/api/v1/auth/forgot-password`,
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ email }),
-      },
+    const result = await apiClient.post<void>(
+      "auth/forgot-password",
+      { email },
+      { skipAuthRefresh: true },
     );
 
-    const data: ApiResultVoid = await response.json();
-
-    if (!response.ok || data.error) {
+    if (result.error) {
       return {
         success: false,
-        error: data.error?.message || "Failed to send password reset OTP",
+        error: result.error.message || "Failed to send password reset OTP",
       };
     }
 
@@ -419,20 +346,16 @@ export async function resetPasswordAction(
   newPassword: string,
 ) {
   try {
-    const response = await fetch(`${API_BASE_URL}/api/v1/auth/reset-password`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({ email, otp, newPassword }),
-    });
-
-    const data: ApiResultVoid = await response.json();
+    const result = await apiClient.post<void>(
+      "auth/reset-password",
+      { email, otp, newPassword },
+      { skipAuthRefresh: true },
+    );
 
-    if (!response.ok || data.error) {
+    if (result.error) {
       return {
         success: false,
-        error: data.error?.message || "Failed to reset password",
+        error: result.error.message || "Failed to reset password",
       };
     }
 
@@ -464,14 +387,13 @@ export async function checkAuthAction() {
  * This is used to get roles on page refresh since UserProfileResponse doesn't contain roles
  * Roles come from AuthResponse in the refresh endpoint
  *
- * Uses serverApi which handles token refresh properly and ensures cookies are managed correctly
+ * The refresh token cookie is sent through the server session
  */
 export async function getRolesFromRefreshAction() {
   try {
-    const cookieStore = await cookies();
-    const refreshToken = cookieStore.get("refresh_token")?.value;
+    const session = await getServerSession();
 
-    if (!refreshToken) {
+    if (!session.refreshToken) {
       return {
         success: false,
         error: "No refresh token found",
@@ -480,13 +402,11 @@ export async function getRolesFromRefreshAction() {
       };
     }
 
-    // Use serverApi to call refresh endpoint
-    // serverApi handles the refresh token correctly and will automatically retry on 401
-    // The backend expects refresh_token cookie, serverApi sets it correctly
-    const result = await serverApi.post<AuthResponse>(
-      "/api/v1/auth/refresh",
+    // The backend reads the refresh_token cookie the session sends
+    const result = await apiClient.post<AuthResponse>(
+      "auth/refresh",
       {},
-      { withCredentials: true },
+      { session, skipAuthRefresh: true },
     );
 
     console.log(
@@ -514,7 +434,6 @@ export async function getRolesFromRefreshAction() {
     }
 
     // Update access token if new one is provided
-    // serverApi already updates cookies in its interceptor, but we ensure it here too
     if (authData.accessToken) {
       await setAuthCookies(authData.accessToken, authData.refreshToken);
     }
@@ -544,32 +463,28 @@ export async function getRolesFromRefreshAction() {
  * The UserController uses @AuthenticationPrincipal SecurityUserDetails which extracts
  * user data from the Auth Module's JWT token, making this effectively part of the Auth Module flow.
  *
- * Uses serverApi which automatically handles token refresh on 401 errors.
+ * Token errors are refreshed through the server session and retried once.
  * This is the single source of truth for user data after authentication.
  */
 export async function fetchUserProfileAction() {
   try {
-    const cookieStore = await cookies();
-    const accessToken = cookieStore.get("accessToken")?.value;
+    const session = await getServerSession();
 
-    if (!accessToken) {
+    if (!session.accessToken) {
       return {
         success: false,
         error: "No access token found",
       };
     }
 
-    // Use serverApi which automatically handles token refresh on 401 errors
-    // The interceptor will refresh the token and retry if needed
+    // A token error refreshes the session and retries once
     // Note: userId is string (TSID/Long) to prevent precision loss in JavaScript
-    const result = await serverApi.get<{
+    const result = await apiClient.get<{
       email?: string;
       fullName?: string;
       avatarUrl?: string;
       userId?: string; // TSID type (Long in Java) - must be string in TypeScript to prevent precision loss
-    }>("/api/v1/users/me", {
-      withCredentials: true,
-    });
+    }>("users/me", { session });
 
     // Handle error cases
     if (result.error) {
@@ -591,12 +506,12 @@ export async function fetchUserProfileAction() {
         // Note: This endpoint requires ADMIN role, so it may not work for regular users
         // But we try it as a fallback - if it fails, we handle gracefully
         try {
-          const createResult = await serverApi.post<{
+          const createResult = await apiClient.post<{
             email?: string;
             fullName?: string;
             avatarUrl?: string;
             userId?: string;
-          }>("/api/v1/users/profiles", {});
+          }>("users/profiles", {}, { session });
 
           if (createResult.data && !createResult.error) {
             console.log(
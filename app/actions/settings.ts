@@ -0,0 +1,12 @@
+"use server";
+
+import { revalidateTag } from "next/cache";
+import { STORE_SETTINGS_TAG } from "@/lib/api/settings-server";
+
+/**
+ * Server Action: Refresh the cached storefront identity
+ * Called after general or branding settings are saved in the admin panel
+ */
+export async function revalidateStoreSettingsAction(): Promise<void> {
+  revalidateTag(STORE_SETTINGS_TAG, "max");
+}
@@ -34,16 +34,31 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import { ColumnMappingPanel } from "@/components/admin/imports/ColumnMappingPanel";
+import { ImportValidationPanel } from "@/components/admin/imports/ImportValidationPanel";
+import { ImportJobDrawer } from "@/components/admin/imports/ImportJobDrawer";
 import { importApi } from "@/lib/api/import";
+import { useJobProgress } from "@/lib/hooks/useJobProgress";
+import { useProductImportWorker } from "@/lib/hooks/useProductImportWorker";
+import {
+  PRODUCT_IMPORT_COLUMNS,
+  autoMapImportColumns,
+  getImportMappingIssues,
+  type ProductImportColumnKey,
+  type ProductImportMapping,
+} from "@/lib/validations/product";
 import type {
   ImportJob,
   ImportStatus,
   ImportJobListParams,
   PagedImportJobs,
+  ParsedImportFile,
+  ImportValidationReport,
 } from "@/lib/types/import";
 import {
   isJobFinished,
   canCancelJob,
+  getJobProgress,
   getStatusColor,
   formatStatus,
 } from "@/lib/types/import";
@@ -54,19 +69,27 @@ import { toast } from "sonner";
 // Steps for the wizard
 type Step = 'upload' | 'review' | 'import';
 
+// Matches the limit announced in the upload area
+const MAX_IMPORT_FILE_SIZE = 10 * 1024 * 1024;
+
 export default function ImportPage() {
   const { t } = useTranslation();
   const [currentStep, setCurrentStep] = useState<Step>('upload');
   
-  // File state
+  // File state - parsing and validation run in a Web Worker
+  const importWorker = useProductImportWorker();
   const [file, setFile] = useState<File | null>(null);
-  const [previewData, setPreviewData] = useState<string[][]>([]);
-  const [headers, setHeaders] = useState<string[]>([]);
+  const [parsedFile, setParsedFile] = useState<ParsedImportFile | null>(null);
+  const [parseProgress, setParseProgress] = useState<number | null>(null);
+  const [mapping, setMapping] = useState<ProductImportMapping | null>(null);
+  const [report, setReport] = useState<ImportValidationReport | null>(null);
+  const [isValidating, setIsValidating] = useState(false);
+  const [skipInvalidRows, setSkipInvalidRows] = useState(false);
+  const validationRunRef = useRef(0);
   
   // Process state
   const [uploading, setUploading] = useState(false);
   const [activeJobId, setActiveJobId] = useState<number | null>(null);
-  const [activeJob, setActiveJob] = useState<ImportJob | null>(null);
   
   // History state
   const [jobs, setJobs] = useState<PagedImportJobs | null>(null);
@@ -75,8 +98,6 @@ export default function ImportPage() {
   const [statusFilter, setStatusFilter] = useState<ImportStatus | "">("");
   const [sort, setSort] = useState("createdAt,desc");
   
-  const [pollingJobs, setPollingJobs] = useState<Set<number>>(new Set());
-  const [jobDetails, setJobDetails] = useState<Map<number, ImportJob>>(new Map());
   const [pageError, setPageError] = useState<{ title: string; description?: string; items?: any[] } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -101,129 +122,134 @@ export default function ImportPage() {
 
       if (result.data?.data) {
         setJobs(result.data.data);
-        
-        // Polling logic for history jobs (background)
-        const activeJobs = result.data.data.content.filter(
-          (job) => !isJobFinished(job.status) && job.id !== activeJobId
-        );
-        activeJobs.forEach((job) => {
-          if (!pollingJobs.has(job.id)) {
-            startPolling(job.id);
-          }
-        });
       }
     } catch (error) {
       console.error("Error fetching jobs:", error);
     } finally {
       setLoading(false);
     }
-  }, [page, statusFilter, sort, activeJobId]);
-
-  const startPolling = useCallback((jobId: number, isActive = false) => {
-    if (pollingJobs.has(jobId)) return;
-
-    setPollingJobs((prev) => new Set(prev).add(jobId));
-
-    const poll = async () => {
-      try {
-        const result = await importApi.getImportJob(jobId);
-        
-        if (result.data?.data) {
-          const job = result.data.data;
-          
-          if (isActive) {
-            setActiveJob(job);
-          }
-
-          setJobDetails((prev) => {
-            const updated = new Map(prev);
-            updated.set(jobId, job);
-            return updated;
-          });
-
-          if (isJobFinished(job.status)) {
-            setPollingJobs((prev) => {
-              const updated = new Set(prev);
-              updated.delete(jobId);
-              return updated;
-            });
-            fetchJobs();
-          }
-        }
-      } catch (error) {
-        console.error(`Error polling job ${jobId}:`, error);
-        setPollingJobs((prev) => {
-          const updated = new Set(prev);
-          updated.delete(jobId);
-          return updated;
-        });
-      }
-    };
-
-    poll();
-    const interval = setInterval(poll, 2000);
+  }, [page, statusFilter, sort]);
 
-    return () => clearInterval(interval);
-  }, [pollingJobs, fetchJobs]);
+  // Live job updates come from the shared import stream
+  const { getJob } = useJobProgress({ onJobFinished: () => fetchJobs() });
 
   useEffect(() => {
     fetchJobs();
   }, [fetchJobs]);
 
-  // Handle file selection and local preview
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFile = e.target.files?.[0];
-    if (selectedFile) {
-      if (!selectedFile.name.endsWith(".csv")) {
+  // Validate the whole file against the current mapping
+  // Only the latest run may update the report
+  const runValidation = async (nextMapping: ProductImportMapping) => {
+    const run = ++validationRunRef.current;
+    setReport(null);
+    if (getImportMappingIssues(nextMapping).length > 0) {
+      setIsValidating(false);
+      return;
+    }
+
+    setIsValidating(true);
+    try {
+      const nextReport = await importWorker.validate(nextMapping);
+      if (run === validationRunRef.current) setReport(nextReport);
+    } catch (error) {
+      if (run === validationRunRef.current) {
         setPageError({
-           title: "Invalid File Format",
-           description: "Our curation engine only accepts standard .csv files for bulk operations.",
-           items: [{ message: `The file "${selectedFile.name}" is not a valid CSV.` }]
+          title: t("admin.imports.errors.validationFailed"),
+          items: [{ message: (error as Error).message || t("admin.imports.errors.generic") }]
         });
-        return;
       }
-      
-      setPageError(null);
-      setFile(selectedFile);
-      
-      // Parse a few rows for preview
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        const text = event.target?.result as string;
-        const lines = text.split('\n').filter(line => line.trim());
-        const rows = lines.slice(0, 6).map(line => {
-          // Simple CSV parse (handles basic commas)
-          return line.split(',').map(cell => cell.trim().replace(/^"|"$/g, ''));
-        });
-        
-        if (rows.length > 0) {
-          setHeaders(rows[0]);
-          setPreviewData(rows.slice(1));
-          setCurrentStep('review');
-        }
-      };
-      reader.readAsText(selectedFile);
+    } finally {
+      if (run === validationRunRef.current) setIsValidating(false);
+    }
+  };
+
+  const handleMappingChange = (column: ProductImportColumnKey, headerIndex: number | null) => {
+    if (!mapping) return;
+    const nextMapping = { ...mapping, [column]: headerIndex };
+    setMapping(nextMapping);
+    runValidation(nextMapping);
+  };
+
+  // Handle file selection: parse in the worker, auto-map columns, validate
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFile = e.target.files?.[0];
+    if (!selectedFile) return;
+
+    if (!selectedFile.name.toLowerCase().endsWith(".csv")) {
+      setPageError({
+         title: t("admin.imports.errors.invalidFormat.title"),
+         description: t("admin.imports.errors.invalidFormat.description"),
+         items: [{ message: t("admin.imports.errors.invalidFormat.message", { name: selectedFile.name }) }]
+      });
+      return;
+    }
+
+    if (selectedFile.size > MAX_IMPORT_FILE_SIZE) {
+      setPageError({
+         title: t("admin.imports.errors.tooLarge.title"),
+         items: [{ message: t("admin.imports.errors.tooLarge.message", { name: selectedFile.name }) }]
+      });
+      return;
+    }
+
+    setPageError(null);
+    setFile(selectedFile);
+    setParseProgress(0);
+
+    try {
+      const parsed = await importWorker.parseFile(selectedFile, setParseProgress);
+      const initialMapping = autoMapImportColumns(parsed.headers);
+
+      setParsedFile(parsed);
+      setMapping(initialMapping);
+      setSkipInvalidRows(false);
+      setCurrentStep('review');
+      runValidation(initialMapping);
+    } catch (error) {
+      setPageError({
+        title: t("admin.imports.errors.parseFailed"),
+        items: [{ message: (error as Error).message || t("admin.imports.errors.generic") }]
+      });
+      setFile(null);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    } finally {
+      setParseProgress(null);
     }
   };
 
   const [viewingJobId, setViewingJobId] = useState<number | null>(null);
+  const [drawerJobId, setDrawerJobId] = useState<number | null>(null);
 
   const resetUpload = () => {
+    validationRunRef.current++;
     setFile(null);
-    setPreviewData([]);
-    setHeaders([]);
+    setParsedFile(null);
+    setMapping(null);
+    setReport(null);
+    setIsValidating(false);
+    setSkipInvalidRows(false);
     setCurrentStep('upload');
     if (fileInputRef.current) fileInputRef.current.value = "";
   };
 
+  const mappingIssues = mapping ? getImportMappingIssues(mapping) : [];
+  const canStartImport =
+    !!report &&
+    !isValidating &&
+    mappingIssues.length === 0 &&
+    (report.invalidRowCount === 0 || (skipInvalidRows && report.validRowCount > 0));
+
   const handleUploadAndImport = async () => {
-    if (!file) return;
+    if (!file || !mapping || !canStartImport) return;
 
     setUploading(true);
     setCurrentStep('import');
 
     try {
-      const result = await importApi.uploadProductCSV(file);
+      // Upload the validated rows with canonical headers, not the raw file
+      const csv = await importWorker.buildUploadCsv(mapping, skipInvalidRows);
+      const uploadFile = new File([csv], file.name, { type: "text/csv" });
+      const result = await importApi.uploadProductCSV(uploadFile);
       
       if (result.error) {
         setPageError({
@@ -241,7 +267,7 @@ export default function ImportPage() {
       if (result.data?.data) {
         const jobId = result.data.data;
         setActiveJobId(jobId);
-        startPolling(jobId, true);
+        fetchJobs();
         toast.success(t("admin.imports.uploadStarted", { jobId }));
       }
     } catch (error: any) {
@@ -285,7 +311,18 @@ export default function ImportPage() {
   };
 
   const getJobDetails = (jobId: number): ImportJob | undefined => {
-    return jobDetails.get(jobId) || jobs?.content.find((j) => j.id === jobId);
+    return getJob(jobId) || jobs?.content.find((j) => j.id === jobId);
+  };
+
+  const activeJob = activeJobId === null ? null : getJobDetails(activeJobId) || null;
+  const drawerJob = drawerJobId === null ? null : getJobDetails(drawerJobId) || null;
+
+  const handleReimported = (jobId: number) => {
+    setDrawerJobId(null);
+    resetUpload();
+    setCurrentStep('import');
+    setActiveJobId(jobId);
+    fetchJobs();
   };
 
   // --- Animations ---
@@ -394,6 +431,7 @@ export default function ImportPage() {
                   type="file"
                   accept=".csv"
                   onChange={handleFileChange}
+                  disabled={parseProgress !== null}
                   className="hidden"
                   id="csv-upload"
                   ref={fileInputRef}
@@ -410,6 +448,20 @@ export default function ImportPage() {
                 <p className="mt-8 text-xs text-slate-400 uppercase tracking-widest font-medium">
                   {t("admin.imports.uploadArea.hint")}
                 </p>
+
+                {parseProgress !== null && (
+                  <div className="mt-6 max-w-sm mx-auto space-y-2" role="status" aria-live="polite">
+                    <div className="h-1 bg-slate-100 dark:bg-white/10 rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-[#D4AF37] transition-all duration-300"
+                        style={{ width: `${Math.round(parseProgress * 100)}%` }}
+                      />
+                    </div>
+                    <p className="text-xs text-slate-500 font-light">
+                      {t("admin.imports.parsing", { percent: Math.round(parseProgress * 100) })}
+                    </p>
+                  </div>
+                )}
               </div>
             </div>
 
@@ -464,7 +516,7 @@ export default function ImportPage() {
                       {t("admin.imports.preview.title")}
                     </h3>
                     <p className="text-xs text-slate-500 dark:text-slate-400 uppercase tracking-widest font-medium">
-                      {file?.name} • {(file!.size / 1024).toFixed(1)} KB
+                      {file?.name} • {(file!.size / 1024).toFixed(1)} KB • {t("admin.imports.preview.rowCount", { count: parsedFile?.rowCount || 0 })}
                     </p>
                   </div>
                 </div>
@@ -478,7 +530,7 @@ export default function ImportPage() {
                   </Button>
                   <Button 
                     onClick={handleUploadAndImport}
-                    disabled={uploading}
+                    disabled={uploading || !canStartImport}
                     className="bg-slate-900 dark:bg-[#D4AF37] text-white px-8 py-5 rounded-xl font-light"
                   >
                     {uploading ? <Loader2 className="animate-spin mr-2 h-4 w-4" /> : <Play className="mr-2 h-4 w-4" />}
@@ -491,21 +543,24 @@ export default function ImportPage() {
                 <Table>
                   <TableHeader>
                     <TableRow className="bg-slate-50 dark:bg-white/5 border-none">
-                      {headers.map((h, i) => (
-                        <TableHead key={i} className="text-[10px] font-bold uppercase tracking-widest text-slate-400 dark:text-slate-500 py-4">
-                          {h}
+                      {PRODUCT_IMPORT_COLUMNS.map((column) => (
+                        <TableHead key={column.key} className="text-[10px] font-bold uppercase tracking-widest text-slate-400 dark:text-slate-500 py-4">
+                          {column.key}
                         </TableHead>
                       ))}
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {previewData.map((row, idx) => (
+                    {parsedFile?.sampleRows.map((row, idx) => (
                       <TableRow key={idx} className="border-slate-100 dark:border-slate-900 group">
-                        {row.map((cell, i) => (
-                          <TableCell key={i} className="py-4 text-sm text-slate-600 dark:text-slate-300 font-light whitespace-nowrap">
-                            {cell}
-                          </TableCell>
-                        ))}
+                        {PRODUCT_IMPORT_COLUMNS.map((column) => {
+                          const headerIndex = mapping?.[column.key] ?? null;
+                          return (
+                            <TableCell key={column.key} className="py-4 text-sm text-slate-600 dark:text-slate-300 font-light whitespace-nowrap">
+                              {headerIndex === null ? "" : row[headerIndex]}
+                            </TableCell>
+                          );
+                        })}
                       </TableRow>
                     ))}
                   </TableBody>
@@ -517,6 +572,25 @@ export default function ImportPage() {
                 </p>
               </div>
             </div>
+
+            {parsedFile && mapping && (
+              <ColumnMappingPanel
+                headers={parsedFile.headers}
+                sampleRows={parsedFile.sampleRows}
+                mapping={mapping}
+                issues={mappingIssues}
+                disabled={uploading}
+                onChange={handleMappingChange}
+              />
+            )}
+
+            <ImportValidationPanel
+              fileName={file?.name || "import.csv"}
+              report={report}
+              isValidating={isValidating}
+              skipInvalidRows={skipInvalidRows}
+              onSkipInvalidRowsChange={setSkipInvalidRows}
+            />
           </motion.div>
         )}
 
@@ -549,7 +623,7 @@ export default function ImportPage() {
                     <div className="relative mb-6">
                       <div className="h-32 w-32 rounded-full border-4 border-slate-100 dark:border-slate-800 flex items-center justify-center">
                         <span className="text-2xl font-light text-[#D4AF37]">
-                          {activeJob.totalRecords ? Math.round(((activeJob.successCount || 0) + (activeJob.errorCount || 0)) / activeJob.totalRecords * 100) : 0}%
+                          {getJobProgress(activeJob)}%
                         </span>
                       </div>
                       <svg className="absolute top-0 left-0 w-32 h-32 -rotate-90">
@@ -562,7 +636,7 @@ export default function ImportPage() {
                           strokeWidth="4"
                           className="text-[#D4AF37]"
                           strokeDasharray={377}
-                          strokeDashoffset={377 - (377 * (activeJob.totalRecords ? ((activeJob.successCount || 0) + (activeJob.errorCount || 0)) / activeJob.totalRecords : 0))}
+                          strokeDashoffset={377 - (377 * getJobProgress(activeJob)) / 100}
                           style={{ transition: 'stroke-dashoffset 0.8s ease' }}
                         />
                       </svg>
@@ -611,7 +685,6 @@ export default function ImportPage() {
                       <Button 
                         onClick={() => {
                           resetUpload();
-                          setActiveJob(null);
                           setActiveJobId(null);
                         }}
                         className="bg-slate-900 dark:bg-[#D4AF37] text-white px-10 py-6 rounded-xl font-light"
@@ -630,7 +703,7 @@ export default function ImportPage() {
                           items={activeJob.message.split('\n').map(msg => ({ message: msg }))}
                           onDownloadReport={() => {
                              if (activeJob.errorLogUrl) {
-                               window.open(activeJob.errorLogUrl, '_blank');
+                               setDrawerJobId(activeJob.id);
                              } else {
                                 toast.info(t("admin.imports.errors.noLog"));
                              }
@@ -717,8 +790,8 @@ export default function ImportPage() {
                 ) : (
                   jobs?.content.map((job) => {
                     const details = getJobDetails(job.id);
-                    const isPolling = pollingJobs.has(job.id);
                     const displayJob = details || job;
+                    const isLive = !isJobFinished(displayJob.status);
 
                     return (
                       <React.Fragment key={job.id}>
@@ -735,6 +808,11 @@ export default function ImportPage() {
                                 <p className="text-[9px] text-slate-400 uppercase tracking-tighter">
                                   ID: {displayJob.id} • TYPE: {displayJob.type}
                                 </p>
+                                {displayJob.sourceJobId && (
+                                  <p className="text-[9px] text-[#B8962D] font-medium">
+                                    {t("admin.imports.drawer.reimportOf", { id: displayJob.sourceJobId })}
+                                  </p>
+                                )}
                               </div>
                             </div>
                           </TableCell>
@@ -754,7 +832,7 @@ export default function ImportPage() {
                               )}>
                                 {formatStatus(displayJob.status)}
                               </span>
-                               {isPolling && <Loader2 className="h-3 w-3 animate-spin ml-1 text-slate-400" />}
+                               {isLive && <Loader2 className="h-3 w-3 animate-spin ml-1 text-slate-400" />}
                             </div>
                           </TableCell>
                           <TableCell className="py-5">
@@ -816,6 +894,8 @@ export default function ImportPage() {
                                 variant="ghost" 
                                 size="icon" 
                                 className="h-8 w-8 rounded-lg opacity-0 group-hover:opacity-100 transition-opacity"
+                                title={t("admin.imports.actions.viewDetails")}
+                                onClick={() => setDrawerJobId(displayJob.id)}
                                >
                                   <ArrowRight className="h-4 w-4 text-[#D4AF37]" />
                                </Button>
@@ -841,7 +921,7 @@ export default function ImportPage() {
                                         onClose={() => setViewingJobId(null)}
                                         onDownloadReport={() => {
                                            if (displayJob.errorLogUrl) {
-                                             window.open(displayJob.errorLogUrl, '_blank');
+                                             setDrawerJobId(displayJob.id);
                                            } else {
                                               toast.info(t("admin.imports.errors.noLog"));
                                            }
@@ -899,6 +979,14 @@ export default function ImportPage() {
           )}
         </div>
       </div>
+
+      <ImportJobDrawer
+        key={drawerJobId ?? "closed"}
+        open={!!drawerJob}
+        onOpenChange={(open) => !open && setDrawerJobId(null)}
+        job={drawerJob}
+        onReimported={handleReimported}
+      />
     </div>
   );
 }
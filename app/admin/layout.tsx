@@ -18,16 +18,21 @@ import {
   UserCircle2,
   LayoutGrid,
   Warehouse,
+  ShoppingCart,
+  KeyRound,
+  MessageSquare,
+  ClipboardList,
+  Truck,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useAppSelector, useAppDispatch } from "@/lib/store/hooks";
 import { logoutAction } from "@/app/actions/auth";
 import { clearAuth } from "@/lib/store/authSlice";
-import { useCartStore } from "@/lib/store/cartStore";
 import { cn, clearCartData } from "@/lib/utils";
 import { AuthGuard } from "@/components/providers/AuthGuard";
 import { useTranslation } from "react-i18next";
 import { SettingsButton } from "@/components/ui/SettingsButton";
+import { ImportJobsTray } from "@/components/admin/imports/ImportJobsTray";
 import { usePermission } from "@/lib/hooks/usePermission";
 import { PERMISSIONS } from "@/lib/constants/permissions";
 
@@ -59,12 +64,36 @@ const navItems: NavItem[] = [
     icon: LayoutGrid,
     requiredPermission: PERMISSIONS.SHOP_CATEGORY_VIEW,
   },
+  {
+    label: "Orders",
+    href: "/admin/orders",
+    icon: ShoppingCart,
+    requiredPermission: PERMISSIONS.SHOP_ORDER_VIEW,
+  },
+  {
+    label: "Reviews",
+    href: "/admin/reviews",
+    icon: MessageSquare,
+    requiredPermission: PERMISSIONS.SHOP_REVIEW_MODERATE,
+  },
   {
     label: "Inventory",
     href: "/admin/inventory",
     icon: Warehouse,
     requiredPermission: PERMISSIONS.INVENTORY_STOCK_VIEW,
   },
+  {
+    label: "Receipts",
+    href: "/admin/receipts",
+    icon: ClipboardList,
+    requiredPermission: PERMISSIONS.INVENTORY_RECEIPT_VIEW,
+  },
+  {
+    label: "Suppliers",
+    href: "/admin/suppliers",
+    icon: Truck,
+    requiredPermission: PERMISSIONS.INVENTORY_SUPPLIER_VIEW,
+  },
   {
     label: "Import",
     href: "/admin/imports",
@@ -77,6 +106,12 @@ const navItems: NavItem[] = [
     icon: Users,
     requiredPermission: PERMISSIONS.IAM_USER_VIEW,
   },
+  {
+    label: "Roles",
+    href: "/admin/roles",
+    icon: KeyRound,
+    requiredPermission: PERMISSIONS.IAM_ROLE_VIEW,
+  },
   {
     label: "Settings",
     href: "/admin/settings",
@@ -90,9 +125,14 @@ function getNavLabel(key: string): string {
     Dashboard: "admin.layout.dashboard",
     Products: "admin.layout.products",
     Categories: "admin.layout.categories",
+    Orders: "admin.layout.orders",
+    Reviews: "admin.layout.reviews",
     Inventory: "admin.layout.inventory",
+    Receipts: "admin.layout.receipts",
+    Suppliers: "admin.layout.suppliers",
     Import: "admin.layout.import",
     Users: "admin.layout.users",
+    Roles: "admin.layout.roles",
     Settings: "admin.layout.settings",
   };
   return labels[key] || key;
@@ -119,12 +159,7 @@ export default function AdminLayout({ children }: { children: ReactNode }) {
   }, [can]);
 
   const handleLogout = async () => {
-    // Clear cart state before logout to prevent data leakage to next user
-    const cartStore = useCartStore.getState();
-    cartStore.clearCart();
-    cartStore.setAuthenticated(false);
-
-    // Clear all cart-related localStorage data
+    // Clear all cart-related localStorage data (CartProvider resets its state on logout)
     clearCartData();
 
     // Clear auth state
@@ -475,6 +510,9 @@ export default function AdminLayout({ children }: { children: ReactNode }) {
 
               {/* Right side - Theme Toggle and User Avatar */}
               <div className="flex items-center gap-2 sm:gap-4">
+                {/* Live import progress */}
+                {can(PERMISSIONS.FILE_UPLOAD) && <ImportJobsTray />}
+
                 {/* Settings Button (Language & Theme) */}
                 <SettingsButton />
 
@@ -0,0 +1,233 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { useTranslation } from "react-i18next";
+import { ArrowLeft, Loader2, ShoppingBag, User } from "lucide-react";
+
+import {
+  OrderStatusBadge,
+  OrderProgressStepper,
+  OrderItemCard,
+  OrderShippingInfo,
+  OrderPaymentInfo,
+  OrderSummaryCard,
+} from "@/components/shop/orders";
+import { OrderFulfilmentPanel } from "@/components/admin/orders/OrderFulfilmentPanel";
+import { AdminErrorDisplay } from "@/components/admin/AdminErrorDisplay";
+import { ForbiddenPage } from "@/components/errors/Forbidden";
+import { useAdminOrderDetail } from "@/lib/hooks/useAdminData";
+import { usePermission } from "@/lib/hooks/usePermission";
+import { PERMISSIONS } from "@/lib/constants/permissions";
+import { adminOrdersApi } from "@/lib/api/admin-orders";
+import { OrderStatus } from "@/lib/types/order";
+import { formatDate } from "@/lib/utils/order-formatters";
+
+export default function AdminOrderDetailPage() {
+  const { t } = useTranslation();
+  const params = useParams();
+  const orderCode = params.code as string;
+  const queryClient = useQueryClient();
+  const { can } = usePermission();
+
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  const {
+    data: order,
+    isLoading,
+    isError,
+    error,
+    refetch,
+  } = useAdminOrderDetail(orderCode);
+
+  const invalidateOrders = () =>
+    queryClient.invalidateQueries({ queryKey: ["admin", "orders"] });
+
+  const handleAdvance = async (nextStatus: OrderStatus) => {
+    setIsUpdating(true);
+    try {
+      const result = await adminOrdersApi.updateOrderStatus(orderCode, {
+        status: nextStatus,
+      });
+      if (result.error) {
+        toast.error(
+          result.error.message ||
+            t("admin.orders.updateFailed", {
+              defaultValue: "Failed to update order status",
+            }),
+        );
+        return;
+      }
+      toast.success(
+        t("admin.orders.statusUpdated", {
+          status: t(`admin.orders.statuses.${nextStatus}`, {
+            defaultValue: nextStatus,
+          }),
+          defaultValue: `Order moved to ${nextStatus}`,
+        }),
+      );
+      await invalidateOrders();
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleCancel = async (reason?: string) => {
+    setIsUpdating(true);
+    try {
+      const result = await adminOrdersApi.cancelOrder(orderCode, { reason });
+      if (result.error) {
+        toast.error(
+          result.error.message ||
+            t("admin.orders.cancelFailed", {
+              defaultValue: "Failed to cancel order",
+            }),
+        );
+        return;
+      }
+      toast.success(
+        t("admin.orders.cancelled", {
+          defaultValue: "Order cancelled",
+        }),
+      );
+      await invalidateOrders();
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  if (!can(PERMISSIONS.SHOP_ORDER_VIEW)) {
+    return <ForbiddenPage />;
+  }
+
+  return (
+    <div className="space-y-8 animate-in fade-in duration-500">
+      <Link
+        href="/admin/orders"
+        className="inline-flex items-center gap-2 text-sm text-slate-500 hover:text-[#D4AF37] no-underline transition-colors"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        {t("admin.orders.backToOrders", { defaultValue: "Back to Orders" })}
+      </Link>
+
+      {isLoading ? (
+        <div className="flex flex-col items-center justify-center py-20 gap-4">
+          <Loader2 className="h-8 w-8 animate-spin text-[#D4AF37]" />
+        </div>
+      ) : isError || !order ? (
+        <AdminErrorDisplay
+          title={t("admin.orders.detailErrorTitle", {
+            defaultValue: "Order Unavailable",
+          })}
+          items={[
+            { label: orderCode, message: (error as Error)?.message || "" },
+          ]}
+          onRetry={() => refetch()}
+        />
+      ) : (
+        <>
+          {/* Header */}
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div className="space-y-1">
+              <div className="flex items-center gap-3">
+                <h1 className="text-3xl font-bold font-mono text-slate-900 dark:text-slate-100 tracking-tight">
+                  {order.orderCode}
+                </h1>
+                <OrderStatusBadge status={order.status} size="lg" />
+              </div>
+              <p className="text-sm text-slate-500">
+                {t("admin.orders.placedOn", {
+                  date: formatDate(order.createdAt),
+                  defaultValue: `Placed on ${formatDate(order.createdAt)}`,
+                })}
+              </p>
+            </div>
+          </div>
+
+          <OrderProgressStepper status={order.status} />
+
+          {order.status === "CANCELLED" && order.cancelReason && (
+            <AdminErrorDisplay
+              variant="warning"
+              title={t("admin.orders.cancelReason", { defaultValue: "Reason" })}
+              description={order.cancelReason}
+            />
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+            {/* Left Column - Items, Customer & Address */}
+            <div className="lg:col-span-2 space-y-8">
+              <section className="p-6 rounded-xl bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 space-y-6">
+                <div className="flex items-center gap-3">
+                  <ShoppingBag className="w-4 h-4 text-[#D4AF37]" />
+                  <h2 className="text-[10px] font-bold uppercase tracking-widest text-slate-400">
+                    {t("admin.orders.items", { defaultValue: "Items" })} (
+                    {order.items?.length || 0})
+                  </h2>
+                </div>
+                <div className="divide-y divide-slate-100 dark:divide-slate-800">
+                  {order.items?.map((item, index) => (
+                    <OrderItemCard key={item.id || index} item={item} />
+                  ))}
+                </div>
+              </section>
+
+              <section className="p-6 rounded-xl bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 space-y-8">
+                {(order.customerName || order.customerEmail) && (
+                  <div className="space-y-3">
+                    <div className="flex items-center gap-3">
+                      <User className="w-4 h-4 text-[#D4AF37]" />
+                      <h2 className="text-[10px] font-bold uppercase tracking-widest text-slate-400">
+                        {t("admin.orders.customer", {
+                          defaultValue: "Customer",
+                        })}
+                      </h2>
+                    </div>
+                    <div className="pl-7 text-sm">
+                      <p className="font-medium text-slate-900 dark:text-slate-100">
+                        {order.customerName}
+                      </p>
+                      <p className="text-slate-500">{order.customerEmail}</p>
+                    </div>
+                  </div>
+                )}
+                {order.shippingAddress && (
+                  <OrderShippingInfo
+                    address={order.shippingAddress}
+                    contactEmail={order.contactEmail}
+                  />
+                )}
+              </section>
+            </div>
+
+            {/* Right Column - Actions, Payment & Summary */}
+            <div className="space-y-6">
+              <OrderFulfilmentPanel
+                status={order.status}
+                canProcess={can(PERMISSIONS.SHOP_ORDER_PROCESS)}
+                canCancel={can(PERMISSIONS.SHOP_ORDER_CANCEL)}
+                isUpdating={isUpdating}
+                onAdvance={handleAdvance}
+                onCancel={handleCancel}
+              />
+              <OrderPaymentInfo
+                paymentMethod={order.paymentMethod}
+                paymentStatus={order.paymentStatus}
+              />
+              <OrderSummaryCard
+                subTotal={order.subTotal}
+                shippingFee={order.shippingFee}
+                discountAmount={order.discountAmount}
+                finalAmount={order.finalAmount}
+                note={order.note}
+              />
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,474 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { motion, AnimatePresence } from "framer-motion";
+import { useTranslation } from "react-i18next";
+import {
+  Search,
+  Loader2,
+  ShoppingCart,
+  ChevronLeft,
+  ChevronRight,
+  RefreshCw,
+  X,
+} from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AdminErrorDisplay } from "@/components/admin/AdminErrorDisplay";
+import { ForbiddenPage } from "@/components/errors/Forbidden";
+import { OrderStatusBadge } from "@/components/shop/orders";
+import { useAdminOrders } from "@/lib/hooks/useAdminData";
+import { usePermission } from "@/lib/hooks/usePermission";
+import { PERMISSIONS } from "@/lib/constants/permissions";
+import { AdminOrderSearchParams } from "@/lib/api/admin-orders";
+import { OrderStatus, PaymentStatus } from "@/lib/types/order";
+import {
+  formatVND,
+  formatDate,
+  getPaymentMethodLabel,
+  getPaymentStatusStyle,
+} from "@/lib/utils/order-formatters";
+import { cn } from "@/lib/utils";
+
+const ORDER_STATUSES: OrderStatus[] = [
+  "PENDING",
+  "CONFIRMED",
+  "SHIPPING",
+  "COMPLETED",
+  "CANCELLED",
+  "RETURNED",
+];
+
+const PAYMENT_STATUSES: PaymentStatus[] = [
+  "UNPAID",
+  "PENDING",
+  "PAID",
+  "FAILED",
+  "REFUNDED",
+];
+
+const DEFAULT_PARAMS: AdminOrderSearchParams = {
+  page: 0,
+  size: 20,
+  sort: "newest",
+  status: "ALL",
+  paymentStatus: "ALL",
+};
+
+export default function AdminOrdersPage() {
+  const { t } = useTranslation();
+  const router = useRouter();
+  const { can } = usePermission();
+
+  const [searchKeyword, setSearchKeyword] = useState("");
+  const [searchParams, setSearchParams] =
+    useState<AdminOrderSearchParams>(DEFAULT_PARAMS);
+
+  const {
+    data: result,
+    isLoading,
+    isFetching,
+    isError,
+    error,
+    refetch,
+  } = useAdminOrders(searchParams);
+
+  const orders = result?.data || [];
+  const totalItems = result?.meta?.totalElements || 0;
+  const totalPages = result?.meta?.totalPages || 0;
+  const currentPage = searchParams.page || 0;
+  const pageSize = searchParams.size || 20;
+
+  const hasActiveFilters =
+    !!searchParams.keyword ||
+    searchParams.status !== "ALL" ||
+    searchParams.paymentStatus !== "ALL" ||
+    !!searchParams.fromDate ||
+    !!searchParams.toDate;
+
+  const updateFilters = (patch: Partial<AdminOrderSearchParams>) => {
+    setSearchParams((prev) => ({ ...prev, ...patch, page: 0 }));
+  };
+
+  const handleSearch = () => {
+    updateFilters({ keyword: searchKeyword.trim() || undefined });
+  };
+
+  const handleClearFilters = () => {
+    setSearchKeyword("");
+    setSearchParams(DEFAULT_PARAMS);
+  };
+
+  const handlePageChange = (page: number) => {
+    setSearchParams((prev) => ({ ...prev, page }));
+  };
+
+  if (!can(PERMISSIONS.SHOP_ORDER_VIEW)) {
+    return <ForbiddenPage />;
+  }
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      {/* Page Header */}
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-slate-900 dark:text-slate-100 tracking-tight">
+            {t("admin.orders.title", { defaultValue: "Orders" })}
+          </h1>
+          <p className="text-slate-500 dark:text-slate-400 mt-1 max-w-2xl">
+            {t("admin.orders.subtitle", {
+              defaultValue:
+                "Review, confirm and fulfil customer orders across the boutique.",
+            })}
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => refetch()}
+          disabled={isFetching}
+          className="h-10 gap-2"
+        >
+          <RefreshCw className={cn("h-4 w-4", isFetching && "animate-spin")} />
+          {t("common.refresh")}
+        </Button>
+      </div>
+
+      {/* Error */}
+      <AnimatePresence>
+        {isError && (
+          <motion.div
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: "auto" }}
+            exit={{ opacity: 0, height: 0 }}
+            className="overflow-hidden"
+          >
+            <AdminErrorDisplay
+              title={t("admin.orders.loadErrorTitle", {
+                defaultValue: "Failed to Load Orders",
+              })}
+              items={[
+                {
+                  message:
+                    (error as Error)?.message ||
+                    t("admin.orders.unexpectedError", {
+                      defaultValue: "An unexpected error occurred.",
+                    }),
+                },
+              ]}
+              onRetry={() => refetch()}
+            />
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Filter Bar */}
+      <div className="p-4 rounded-xl bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 shadow-sm space-y-4">
+        <div className="flex flex-col lg:flex-row gap-4">
+          <div className="flex-1 relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400" />
+            <Input
+              placeholder={t("admin.orders.searchPlaceholder", {
+                defaultValue: "Search by order code, customer name or email...",
+              })}
+              value={searchKeyword}
+              onChange={(e) => setSearchKeyword(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleSearch()}
+              className="pl-10 h-10 bg-slate-50 dark:bg-slate-800/50 border-transparent focus:bg-white dark:focus:bg-slate-800"
+            />
+          </div>
+          <Button
+            onClick={handleSearch}
+            className="h-10 px-6 bg-slate-900 dark:bg-slate-100 text-white dark:text-slate-900 hover:bg-slate-800 dark:hover:bg-slate-200"
+          >
+            {t("admin.orders.filter", { defaultValue: "Filter" })}
+          </Button>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-3">
+          {/* Order Status */}
+          <div className="space-y-1">
+            <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+              {t("admin.orders.orderStatus", { defaultValue: "Order Status" })}
+            </span>
+            <Select
+              value={searchParams.status || "ALL"}
+              onValueChange={(value) =>
+                updateFilters({ status: value as OrderStatus | "ALL" })
+              }
+            >
+              <SelectTrigger className="w-[170px] h-10 bg-slate-50 dark:bg-slate-800/50 border-transparent">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="ALL">
+                  {t("admin.orders.allStatuses", {
+                    defaultValue: "All Statuses",
+                  })}
+                </SelectItem>
+                {ORDER_STATUSES.map((status) => (
+                  <SelectItem key={status} value={status}>
+                    {t(`admin.orders.statuses.${status}`, {
+                      defaultValue: status,
+                    })}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Payment Status */}
+          <div className="space-y-1">
+            <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+              {t("admin.orders.paymentStatus", {
+                defaultValue: "Payment Status",
+              })}
+            </span>
+            <Select
+              value={searchParams.paymentStatus || "ALL"}
+              onValueChange={(value) =>
+                updateFilters({
+                  paymentStatus: value as PaymentStatus | "ALL",
+                })
+              }
+            >
+              <SelectTrigger className="w-[170px] h-10 bg-slate-50 dark:bg-slate-800/50 border-transparent">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="ALL">
+                  {t("admin.orders.allPayments", {
+                    defaultValue: "All Payments",
+                  })}
+                </SelectItem>
+                {PAYMENT_STATUSES.map((status) => (
+                  <SelectItem key={status} value={status}>
+                    {getPaymentStatusStyle(status).label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Date Range */}
+          <div className="space-y-1">
+            <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+              {t("admin.orders.fromDate", { defaultValue: "From" })}
+            </span>
+            <Input
+              type="date"
+              value={searchParams.fromDate || ""}
+              max={searchParams.toDate}
+              onChange={(e) =>
+                updateFilters({ fromDate: e.target.value || undefined })
+              }
+              className="h-10 w-[160px] bg-slate-50 dark:bg-slate-800/50 border-transparent"
+            />
+          </div>
+          <div className="space-y-1">
+            <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+              {t("admin.orders.toDate", { defaultValue: "To" })}
+            </span>
+            <Input
+              type="date"
+              value={searchParams.toDate || ""}
+              min={searchParams.fromDate}
+              onChange={(e) =>
+                updateFilters({ toDate: e.target.value || undefined })
+              }
+              className="h-10 w-[160px] bg-slate-50 dark:bg-slate-800/50 border-transparent"
+            />
+          </div>
+
+          {hasActiveFilters && (
+            <Button
+              variant="ghost"
+              onClick={handleClearFilters}
+              className="h-10 gap-1 text-slate-500 hover:text-slate-900 dark:hover:text-slate-100"
+            >
+              <X className="h-4 w-4" />
+              {t("admin.orders.clearFilters", {
+                defaultValue: "Clear Filters",
+              })}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Orders Table */}
+      <div className="bg-white dark:bg-[#0B0F1A] rounded-xl shadow-sm border border-slate-200 dark:border-slate-800 overflow-hidden">
+        {isLoading ? (
+          <div className="flex flex-col items-center justify-center py-20 gap-4">
+            <Loader2 className="h-8 w-8 animate-spin text-[#D4AF37]" />
+            <p className="text-sm text-slate-500 font-medium">
+              {t("admin.orders.fetchingOrders", {
+                defaultValue: "Fetching orders...",
+              })}
+            </p>
+          </div>
+        ) : orders.length === 0 ? (
+          <div className="text-center py-20">
+            <div className="h-16 w-16 bg-slate-50 dark:bg-slate-800/50 rounded-full flex items-center justify-center mx-auto mb-4 text-slate-400">
+              <ShoppingCart className="h-8 w-8" />
+            </div>
+            <p className="text-slate-900 dark:text-slate-100 font-semibold">
+              {t("admin.orders.noResultsFound", {
+                defaultValue: "No orders found",
+              })}
+            </p>
+            <p className="text-sm text-slate-500 mt-1">
+              {t("admin.orders.noResultsDescription", {
+                defaultValue: "Try adjusting your filters or date range.",
+              })}
+            </p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-left border-collapse">
+              <thead>
+                <tr className="border-b border-slate-100 dark:border-slate-800 bg-slate-50/50 dark:bg-slate-800/20">
+                  <th className="px-6 py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                    {t("admin.orders.orderCode", { defaultValue: "Order" })}
+                  </th>
+                  <th className="px-6 py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                    {t("admin.orders.customer", { defaultValue: "Customer" })}
+                  </th>
+                  <th className="px-6 py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                    {t("admin.orders.placedAt", { defaultValue: "Placed" })}
+                  </th>
+                  <th className="px-6 py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest text-right">
+                    {t("admin.orders.total", { defaultValue: "Total" })}
+                  </th>
+                  <th className="px-6 py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                    {t("admin.orders.payment", { defaultValue: "Payment" })}
+                  </th>
+                  <th className="px-6 py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest text-center">
+                    {t("admin.orders.status", { defaultValue: "Status" })}
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+                {orders.map((order) => {
+                  const paymentStyle = getPaymentStatusStyle(
+                    order.paymentStatus,
+                  );
+                  return (
+                    <tr
+                      key={order.id}
+                      onClick={() =>
+                        router.push(`/admin/orders/${order.code}`)
+                      }
+                      className="group cursor-pointer hover:bg-slate-50/50 dark:hover:bg-slate-800/30 transition-colors"
+                    >
+                      <td className="px-6 py-4">
+                        <div className="flex flex-col">
+                          <span className="text-sm font-bold font-mono text-slate-900 dark:text-slate-100 group-hover:text-[#D4AF37] transition-colors">
+                            {order.code}
+                          </span>
+                          <span className="text-xs text-slate-400 font-medium">
+                            {t("admin.orders.itemCount", {
+                              count: order.totalItems,
+                              defaultValue: `${order.totalItems} item(s)`,
+                            })}
+                          </span>
+                        </div>
+                      </td>
+                      <td className="px-6 py-4">
+                        <div className="flex flex-col">
+                          <span className="text-sm font-medium text-slate-700 dark:text-slate-300">
+                            {order.customerName || "—"}
+                          </span>
+                          {order.customerEmail && (
+                            <span className="text-xs text-slate-400">
+                              {order.customerEmail}
+                            </span>
+                          )}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 text-xs text-slate-500">
+                        {formatDate(order.createdAt)}
+                      </td>
+                      <td className="px-6 py-4 text-right">
+                        <span className="text-sm font-bold text-slate-900 dark:text-slate-100 tabular-nums">
+                          {formatVND(order.finalAmount)}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4">
+                        <div className="flex flex-col">
+                          <span className="text-xs text-slate-600 dark:text-slate-400">
+                            {getPaymentMethodLabel(order.paymentMethod)}
+                          </span>
+                          <span
+                            className={cn(
+                              "text-[10px] font-bold uppercase tracking-wider",
+                              paymentStyle.className,
+                            )}
+                          >
+                            {paymentStyle.label}
+                          </span>
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 text-center">
+                        <OrderStatusBadge status={order.status} size="sm" />
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Pagination */}
+      {!isLoading && totalItems > 0 && (
+        <div className="flex flex-col sm:flex-row items-center justify-between gap-4 px-6 py-4 bg-white dark:bg-[#0B0F1A] rounded-xl border border-slate-200 dark:border-slate-800 shadow-sm">
+          <span className="text-sm text-slate-500 font-medium">
+            {t("admin.orders.showingXToYOfZ", {
+              start: currentPage * pageSize + 1,
+              end: Math.min((currentPage + 1) * pageSize, totalItems),
+              total: totalItems,
+              defaultValue: `Showing ${currentPage * pageSize + 1} to ${Math.min((currentPage + 1) * pageSize, totalItems)} of ${totalItems} orders`,
+            })}
+          </span>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handlePageChange(currentPage - 1)}
+              disabled={currentPage <= 0 || isFetching}
+              className="h-9 px-4"
+            >
+              <ChevronLeft className="h-4 w-4 mr-1" />
+              {t("common.previous")}
+            </Button>
+            <span className="text-sm font-medium text-slate-700 dark:text-slate-300 min-w-[80px] text-center">
+              {t("common.pagination.page", {
+                current: currentPage + 1,
+                total: totalPages || 1,
+              })}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handlePageChange(currentPage + 1)}
+              disabled={currentPage + 1 >= totalPages || isFetching}
+              className="h-9 px-4"
+            >
+              {t("common.next")}
+              <ChevronRight className="h-4 w-4 ml-1" />
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
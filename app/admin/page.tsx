@@ -1,12 +1,29 @@
 'use client';
 
-import { Package, Users, ShoppingCart, TrendingUp } from "lucide-react";
+import { Package, Users, ShoppingCart, TrendingUp, Activity } from "lucide-react";
 import Link from "next/link";
-import { cn } from "@/lib/utils";
+import { cn, formatRelativeTime } from "@/lib/utils";
 import { useTranslation } from "react-i18next";
 import { AdminErrorDisplay } from "@/components/admin/AdminErrorDisplay";
-import { motion, AnimatePresence } from "framer-motion";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AnimatePresence } from "framer-motion";
 import { useState, useMemo } from "react";
+import { useAppSelector } from "@/lib/store/hooks";
+import { usePermission } from "@/lib/hooks/usePermission";
+import { PERMISSIONS } from "@/lib/constants/permissions";
+import {
+  useDashboardSummary,
+  useDashboardActivities,
+  useLowStockAlerts,
+} from "@/lib/hooks/useAdminData";
+import {
+  DashboardActivity,
+  DashboardPeriod,
+  MetricSummary,
+  getActivityHref,
+  getActivitySeverity,
+} from "@/lib/api/dashboard";
+import { formatVND } from "@/lib/utils/order-formatters";
 
 interface StatCard {
   label: string;
@@ -18,108 +35,145 @@ interface StatCard {
   href: string;
 }
 
+const PERIODS: DashboardPeriod[] = ["7d", "30d", "90d"];
+
+function formatChange(metric: MetricSummary): Pick<StatCard, "change" | "trend"> {
+  if (metric.changePercent === null || metric.changePercent === undefined) {
+    return { change: "—", trend: "up" };
+  }
+  const rounded = Math.round(metric.changePercent * 10) / 10;
+  return {
+    change: `${rounded > 0 ? "+" : ""}${rounded}%`,
+    trend: rounded >= 0 ? "up" : "down",
+  };
+}
+
+const ACTIVITY_MESSAGE_KEYS: Record<DashboardActivity["type"], string> = {
+  ORDER_PLACED: "admin.dashboard.recentActivities.newOrder",
+  ORDER_CONFIRMED: "admin.dashboard.recentActivities.orderConfirmed",
+  ORDER_COMPLETED: "admin.dashboard.recentActivities.orderCompleted",
+  ORDER_CANCELLED: "admin.dashboard.recentActivities.orderCancelled",
+  PRODUCT_CREATED: "admin.dashboard.recentActivities.productCreated",
+  PRODUCT_UPDATED: "admin.dashboard.recentActivities.productUpdated",
+  INVENTORY_IMPORT: "admin.dashboard.recentActivities.stockImported",
+  INVENTORY_ADJUST: "admin.dashboard.recentActivities.stockAdjusted",
+};
+
 export default function AdminDashboardPage() {
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
+  const user = useAppSelector((state) => state.auth.user);
+  const { can } = usePermission();
+  const canViewRevenue = can(PERMISSIONS.SHOP_REVENUE_VIEW);
+  const canViewStock = can(PERMISSIONS.INVENTORY_STOCK_VIEW);
 
-  const stats: StatCard[] = useMemo(() => [
-    {
-      label: t("admin.dashboard.totalProducts"),
-      value: "248",
-      change: "+12%",
-      trend: "up",
-      icon: Package,
-      color: "bg-blue-500",
-      href: "/admin/products",
-    },
-    {
-      label: t("admin.dashboard.totalUsers"),
-      value: "1,234",
-      change: "+8%",
-      trend: "up",
-      icon: Users,
-      color: "bg-green-500",
-      href: "/admin/users",
-    },
-    {
-      label: t("admin.dashboard.totalOrders"),
-      value: "567",
-      change: "-3%",
-      trend: "down",
-      icon: ShoppingCart,
-      color: "bg-purple-500",
-      href: "/admin/orders",
-    },
-    {
-      label: t("admin.dashboard.revenue"),
-      value: "$45,678",
-      change: "+15%",
-      trend: "up",
-      icon: TrendingUp,
-      color: "bg-[#D4AF37]",
-      href: "/admin/revenue",
-    },
-  ], [t]);
+  const [period, setPeriod] = useState<DashboardPeriod>("30d");
+  const [acknowledgedAlerts, setAcknowledgedAlerts] = useState<string[]>([]);
 
-  const recentActivities = useMemo(() => [
-    {
-      id: 1,
-      type: "order",
-      message: t("admin.dashboard.recentActivities.newOrder", { id: "12345" }),
-      time: "5 minutes ago",
-      status: "success",
-    },
-    {
-      id: 2,
-      type: "product",
-      message: t("admin.dashboard.recentActivities.productUpdated", { name: "Luxury Handbag" }),
-      time: "1 hour ago",
-      status: "info",
-    },
-    {
-      id: 3,
-      type: "user",
-      message: t("admin.dashboard.recentActivities.newUser"),
-      time: "2 hours ago",
-      status: "success",
-    },
-    {
-      id: 4,
-      type: "alert",
-      message: t("admin.dashboard.recentActivities.lowStock", { name: "Designer Watch" }),
-      time: "3 hours ago",
-      status: "warning",
-    },
-    {
-      id: 5,
-      type: "order",
-      message: t("admin.dashboard.recentActivities.orderCancelled", { id: "12340" }),
-      time: "5 hours ago",
-      status: "error",
-    },
-  ], [t]);
+  const {
+    data: summary,
+    isLoading: isSummaryLoading,
+    isError: isSummaryError,
+    error: summaryError,
+    refetch: refetchSummary,
+  } = useDashboardSummary(period);
+  const {
+    data: activities = [],
+    isLoading: isActivitiesLoading,
+  } = useDashboardActivities(10);
+  const {
+    data: lowStockItems = [],
+    refetch: refetchLowStock,
+  } = useLowStockAlerts(canViewStock);
 
-  const [activeAlerts, setActiveAlerts] = useState([
-    {
-       id: 'api-sync-01',
-       title: t("admin.dashboard.operationalAlerts.curationThrottled"),
-       description: t("admin.dashboard.operationalAlerts.curationThrottledDesc"),
-       items: [
-         { label: t("admin.dashboard.operationalAlerts.latency"), message: t("admin.dashboard.operationalAlerts.latencyMsg") },
-         { label: t("admin.dashboard.operationalAlerts.affectedService"), message: t("admin.dashboard.operationalAlerts.affectedServiceMsg") }
-       ],
-       variant: 'warning' as const
-    },
-    {
-       id: 'stock-error-01',
-       title: t("admin.dashboard.operationalAlerts.inventoryConflict"),
-       description: t("admin.dashboard.operationalAlerts.inventoryConflictDesc"),
-       items: [
-         { label: 'SKU: AUR-772', message: t("admin.dashboard.operationalAlerts.stockLevels") },
-         { label: t("admin.dashboard.operationalAlerts.actionTaken"), message: t("admin.dashboard.operationalAlerts.actionTakenMsg") }
-       ],
-       variant: 'error' as const
+  const stats: StatCard[] = useMemo(() => {
+    if (!summary) return [];
+
+    const cards: StatCard[] = [
+      {
+        label: t("admin.dashboard.totalProducts"),
+        value: summary.products.total.toLocaleString(i18n.language),
+        ...formatChange(summary.products),
+        icon: Package,
+        color: "bg-blue-500",
+        href: "/admin/products",
+      },
+      {
+        label: t("admin.dashboard.totalUsers"),
+        value: summary.users.total.toLocaleString(i18n.language),
+        ...formatChange(summary.users),
+        icon: Users,
+        color: "bg-green-500",
+        href: "/admin/users",
+      },
+      {
+        label: t("admin.dashboard.totalOrders"),
+        value: summary.orders.total.toLocaleString(i18n.language),
+        ...formatChange(summary.orders),
+        icon: ShoppingCart,
+        color: "bg-purple-500",
+        href: "/admin/orders",
+      },
+    ];
+
+    if (canViewRevenue && summary.revenue) {
+      cards.push({
+        label: t("admin.dashboard.revenue"),
+        value: formatVND(summary.revenue.total),
+        ...formatChange(summary.revenue),
+        icon: TrendingUp,
+        color: "bg-[#D4AF37]",
+        href: "/admin/orders",
+      });
     }
-  ]);
+
+    return cards;
+  }, [summary, canViewRevenue, t, i18n.language]);
+
+  const activeAlerts = useMemo(() => {
+    const visible = lowStockItems.filter(
+      (item) => !acknowledgedAlerts.includes(item.variantId),
+    );
+    const outOfStock = visible.filter((item) => item.availableStock <= 0);
+    const lowStock = visible.filter((item) => item.availableStock > 0);
+
+    const toAlertItems = (items: typeof visible) =>
+      items.map((item) => ({
+        id: item.variantId,
+        label: item.sku,
+        message: t("admin.dashboard.stockAlerts.itemMessage", {
+          name: item.productName || item.sku,
+          available: item.availableStock,
+          reorderLevel: item.reorderLevel,
+        }),
+      }));
+
+    return [
+      outOfStock.length > 0 && {
+        id: "out-of-stock",
+        title: t("admin.dashboard.stockAlerts.outOfStock", {
+          count: outOfStock.length,
+        }),
+        description: t("admin.dashboard.stockAlerts.outOfStockDesc"),
+        items: toAlertItems(outOfStock),
+        variantIds: outOfStock.map((item) => item.variantId),
+        variant: 'error' as const,
+      },
+      lowStock.length > 0 && {
+        id: "low-stock",
+        title: t("admin.dashboard.stockAlerts.lowStock", {
+          count: lowStock.length,
+        }),
+        description: t("admin.dashboard.stockAlerts.lowStockDesc"),
+        items: toAlertItems(lowStock),
+        variantIds: lowStock.map((item) => item.variantId),
+        variant: 'warning' as const,
+      },
+    ].filter((alert) => !!alert);
+  }, [lowStockItems, acknowledgedAlerts, t]);
+
+  const acknowledge = (variantIds: string[]) => {
+    setAcknowledgedAlerts((prev) => [...prev, ...variantIds]);
+  };
 
   return (
     <div className="space-y-10 pb-20">
@@ -130,18 +184,28 @@ export default function AdminDashboardPage() {
             {t("admin.dashboard.title")}
           </h1>
           <p className="text-slate-500 dark:text-slate-400 font-light text-lg">
-            {t("admin.dashboard.welcome", { name: "Administrator" })}
+            {t("admin.dashboard.welcome", { name: user?.fullName || t("admin.layout.admin") })}
           </p>
         </div>
-        <div className="hidden md:flex items-center gap-2 bg-slate-100 dark:bg-white/5 px-4 py-2 rounded-full border border-slate-200 dark:border-white/10">
-           <div className="h-2 w-2 rounded-full bg-green-500 animate-pulse" />
-           <span className="text-[10px] font-bold uppercase tracking-widest text-slate-500">
-             {t("admin.dashboard.systemsOperational")}
-           </span>
+        <div className="flex items-center gap-1 bg-slate-100 dark:bg-white/5 p-1 rounded-full border border-slate-200 dark:border-white/10">
+          {PERIODS.map((p) => (
+            <button
+              key={p}
+              onClick={() => setPeriod(p)}
+              className={cn(
+                "px-4 py-1.5 rounded-full text-[10px] font-bold uppercase tracking-widest transition-colors",
+                period === p
+                  ? "bg-white dark:bg-slate-800 text-[#D4AF37] shadow-sm"
+                  : "text-slate-500 hover:text-slate-700 dark:hover:text-slate-200"
+              )}
+            >
+              {t(`admin.dashboard.periods.${p}`)}
+            </button>
+          ))}
         </div>
       </div>
 
-      {/* Operational Alerts */}
+      {/* Stock Alerts */}
       <AnimatePresence>
         {activeAlerts.length > 0 && (
           <div className="space-y-4">
@@ -149,8 +213,8 @@ export default function AdminDashboardPage() {
                <h2 className="text-xs font-bold uppercase tracking-widest text-[#D4AF37]">
                  {t("admin.dashboard.operationalIntegrity")}
                </h2>
-               <button 
-                onClick={() => setActiveAlerts([])}
+               <button
+                onClick={() => acknowledge(activeAlerts.flatMap((a) => a.variantIds))}
                 className="text-[10px] font-bold uppercase tracking-widest text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 transition-colors"
                >
                  {t("admin.dashboard.acknowledgeAll")}
@@ -164,8 +228,8 @@ export default function AdminDashboardPage() {
                     variant={alert.variant}
                     description={alert.description}
                     items={alert.items}
-                    onClose={() => setActiveAlerts(prev => prev.filter(a => a.id !== alert.id))}
-                    onRetry={() => console.log('Retrying sync...')}
+                    onClose={() => acknowledge(alert.variantIds)}
+                    onRetry={() => refetchLowStock()}
                     className="shadow-xl shadow-slate-200/50 dark:shadow-none"
                   />
                 ))}
@@ -174,8 +238,23 @@ export default function AdminDashboardPage() {
         )}
       </AnimatePresence>
 
+      {isSummaryError && (
+        <AdminErrorDisplay
+          title={t("admin.dashboard.metricsError")}
+          items={[{ message: (summaryError as Error)?.message || "" }]}
+          onRetry={() => refetchSummary()}
+        />
+      )}
+
       {/* Stats Grid */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+      <div className={cn(
+        "grid grid-cols-1 md:grid-cols-2 gap-6",
+        canViewRevenue ? "lg:grid-cols-4" : "lg:grid-cols-3"
+      )}>
+        {isSummaryLoading &&
+          Array.from({ length: canViewRevenue ? 4 : 3 }).map((_, index) => (
+            <Skeleton key={index} className="h-[196px] rounded-3xl" />
+          ))}
         {stats.map((stat) => {
           const Icon = stat.icon;
           return (
@@ -186,7 +265,7 @@ export default function AdminDashboardPage() {
             >
               <div className="bg-white dark:bg-[#111] border border-slate-200 dark:border-slate-800 rounded-3xl p-8 hover:shadow-2xl transition-all duration-500 hover:border-[#D4AF37]/50 relative overflow-hidden">
                 <div className="absolute top-0 right-0 w-24 h-24 bg-[#D4AF37]/5 blur-3xl rounded-full translate-x-1/2 -translate-y-1/2 group-hover:bg-[#D4AF37]/10 transition-colors" />
-                
+
                 <div className="flex items-start justify-between mb-6">
                   <div className={cn(
                     "h-14 w-14 rounded-2xl flex items-center justify-center transition-transform duration-500 group-hover:scale-110 shadow-lg shadow-slate-200/50 dark:shadow-none",
@@ -194,12 +273,15 @@ export default function AdminDashboardPage() {
                   )}>
                     <Icon className="h-7 w-7 text-white" />
                   </div>
-                  <div className={cn(
-                    "px-3 py-1.5 rounded-full text-[10px] font-bold uppercase tracking-widest shadow-sm",
-                    stat.trend === 'up'
-                      ? "bg-green-50 dark:bg-green-900/20 text-green-600"
-                      : "bg-red-50 dark:bg-red-900/20 text-red-600"
-                  )}>
+                  <div
+                    title={t("admin.dashboard.vsPreviousPeriod")}
+                    className={cn(
+                      "px-3 py-1.5 rounded-full text-[10px] font-bold uppercase tracking-widest shadow-sm",
+                      stat.trend === 'up'
+                        ? "bg-green-50 dark:bg-green-900/20 text-green-600"
+                        : "bg-red-50 dark:bg-red-900/20 text-red-600"
+                    )}
+                  >
                     {stat.change}
                   </div>
                 </div>
@@ -225,34 +307,60 @@ export default function AdminDashboardPage() {
           </h2>
         </div>
         <div className="space-y-4">
-          {recentActivities.map((activity) => (
-            <div
-              key={activity.id}
-              className="p-4 rounded-2xl border border-slate-100 dark:border-white/5 hover:bg-slate-50 dark:hover:bg-white/5 transition-all duration-200"
-            >
+          {isActivitiesLoading &&
+            Array.from({ length: 5 }).map((_, index) => (
+              <Skeleton key={index} className="h-[74px] rounded-2xl" />
+            ))}
+          {!isActivitiesLoading && activities.length === 0 && (
+            <div className="flex flex-col items-center gap-2 py-10 text-slate-400">
+              <Activity className="h-8 w-8" />
+              <p className="text-sm">{t("admin.dashboard.noActivity")}</p>
+            </div>
+          )}
+          {activities.map((activity) => {
+            const status = getActivitySeverity(activity.type);
+            const href = getActivityHref(activity);
+            const content = (
               <div className="flex items-start justify-between">
                 <div className="flex-1">
                   <p className="text-sm text-slate-900 dark:text-slate-100 mb-1">
-                    {activity.message}
+                    {t(ACTIVITY_MESSAGE_KEYS[activity.type], {
+                      id: activity.subject,
+                      name: activity.subject,
+                      count: Math.abs(activity.quantityDelta ?? 0),
+                    })}
                   </p>
                   <p className="text-[10px] font-bold uppercase tracking-widest text-slate-400">
-                    {activity.time}
+                    {formatRelativeTime(activity.occurredAt, i18n.language)}
+                    {activity.actor && ` · ${activity.actor}`}
                   </p>
                 </div>
                 <div>
                   <span className={cn(
                     "px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-widest",
-                    activity.status === 'success' && "bg-green-50 dark:bg-green-900/20 text-green-600",
-                    activity.status === 'info' && "bg-blue-50 dark:bg-blue-900/20 text-blue-600",
-                    activity.status === 'warning' && "bg-amber-50 dark:bg-amber-900/20 text-amber-600",
-                    activity.status === 'error' && "bg-red-50 dark:bg-red-900/20 text-red-600"
+                    status === 'success' && "bg-green-50 dark:bg-green-900/20 text-green-600",
+                    status === 'info' && "bg-blue-50 dark:bg-blue-900/20 text-blue-600",
+                    status === 'warning' && "bg-amber-50 dark:bg-amber-900/20 text-amber-600",
+                    status === 'error' && "bg-red-50 dark:bg-red-900/20 text-red-600"
                   )}>
-                    {activity.status}
+                    {t(`admin.dashboard.activityStatus.${status}`)}
                   </span>
                 </div>
               </div>
-            </div>
-          ))}
+            );
+
+            const className = "block p-4 rounded-2xl border border-slate-100 dark:border-white/5 hover:bg-slate-50 dark:hover:bg-white/5 transition-all duration-200 no-underline";
+
+            return href ? (
+              <Link key={activity.id} href={href} className={className}>
+                {content}
+              </Link>
+            ) : (
+              <div key={activity.id} className={className}>
+                {content}
+              </div>
+            );
+          })}
         </div>
       </div>
 
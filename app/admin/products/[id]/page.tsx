@@ -10,9 +10,9 @@ import { GeneralTab } from "@/components/admin/product-detail/GeneralTab";
 import { MediaTab } from "@/components/admin/product-detail/MediaTab";
 import { VariantsTab } from "@/components/admin/product-detail/VariantsTab";
 import { SettingsTab } from "@/components/admin/product-detail/SettingsTab";
-import { clientApi } from "@/lib/api-client";
 import { ProductResponse, ApiResult, ProductAsset } from "@/lib/types/product";
 import { productApi } from "@/lib/api/product";
+import { buildVariantUpdatePayload } from "@/lib/utils/variant-matrix";
 import { useTranslation, Trans } from "react-i18next";
 import { AdminErrorDisplay } from "@/components/admin/AdminErrorDisplay";
 import { motion, AnimatePresence } from "framer-motion";
@@ -74,7 +74,7 @@ export default function ProductDetailPage() {
     const fetchProduct = async () => {
       setIsLoading(true);
       try {
-        const response = await clientApi.getProductById(productId);
+        const response = await productApi.getProductById(productId);
 
         if (response.error) {
           const errorMsg = response.error.message || t("admin.productDetail.loadProductError");
@@ -84,8 +84,7 @@ export default function ProductDetailPage() {
              items: [{ label: "Product ID", message: productId }, { label: "Error", message: errorMsg }]
           });
         } else {
-          const result = response.data as ApiResult<ProductResponse>;
-          const product = result?.data;
+          const product = response.data;
 
           if (product) {
             const assets: ProductAsset[] = product.assets
@@ -245,7 +244,7 @@ export default function ProductDetailPage() {
     setIsSaving(true);
     setErrors({});
     try {
-      let response: any;
+      let response: ApiResult<ProductResponse> | undefined;
       const changeType = detectChanges();
 
       if (changeType.type === "none") {
@@ -269,23 +268,14 @@ export default function ProductDetailPage() {
           variantId: asset.variantId || null,
         }));
 
-        const variantsToSend = (productData.variants || [])
-          .map((variant: any) => {
-            const variantPayload: any = {
-              id: variant.id,
-              attributes: variant.attributes || {},
-              sellingPrice: variant.sellingPrice || variant.price,
-              originalPrice: variant.originalPrice || 0,
-              costPrice: variant.costPrice || 0,
-              isActive: variant.isActive !== false,
-            };
-            
-            if (!variant.id && (variant.quantity !== undefined && variant.quantity !== null)) {
-              variantPayload.quantity = variant.quantity;
-            }
-            
-            return variantPayload;
-          });
+        // Only new and changed variants - the backend keeps variants missing from the list
+        const variantsToSend = buildVariantUpdatePayload(
+          originalData?.variants || [],
+          (productData.variants || []).map((variant: any) => ({
+            ...variant,
+            sellingPrice: variant.sellingPrice || variant.price,
+          })),
+        );
 
         const updatePayload = {
           name: productData.name,
@@ -331,8 +321,7 @@ export default function ProductDetailPage() {
         toast.success(t("admin.productDetail.saveProductSuccess", { type: t(`admin.productDetail.updateType.${changeType.type}`) }));
         setHasChanges(false);
 
-        const result = response?.data as ApiResult<ProductResponse>;
-        const updatedProduct = result?.data;
+        const updatedProduct = response?.data;
 
         if (updatedProduct) {
           const assets: ProductAsset[] = updatedProduct.assets
@@ -1,6 +1,7 @@
 ﻿"use client";
 
 import { useState, useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { useRouter } from "next/navigation";
 import { ProductTable } from "@/components/admin/ProductTable";
 import { CreateProductDialog } from "@/components/admin/CreateProductDialog";
@@ -21,12 +22,23 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { clientApi } from "@/lib/api-client";
-import { useAdminProducts } from "@/lib/hooks/useAdminData";
+import { productApi } from "@/lib/api/product";
+import { useAdminProducts, useCategories } from "@/lib/hooks/useAdminData";
+import {
+  productBulkApi,
+  type ProductBulkAction,
+  type ProductBulkFailure,
+  type ProductBulkProgress,
+} from "@/lib/api/product-bulk";
+import { downloadCsv } from "@/lib/utils/csv";
+import { usePermission } from "@/lib/hooks/usePermission";
+import { PERMISSIONS } from "@/lib/constants/permissions";
 import { toast } from "sonner";
-import { Plus, Loader2, Search, UserCircle2, AlertTriangle, Pencil, Trash2, Package, ChevronLeft, ChevronRight, XCircle, RefreshCcw } from "lucide-react";
+import { Plus, Loader2, Search, UserCircle2, AlertTriangle, Pencil, Trash2, Package, ChevronLeft, ChevronRight, XCircle, RefreshCcw, Download } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { AdminErrorDisplay } from "@/components/admin/AdminErrorDisplay";
+import { ProductBulkActionBar } from "@/components/admin/ProductBulkActionBar";
+import { Checkbox } from "@/components/ui/checkbox";
 import { motion, AnimatePresence } from "framer-motion";
 import {
   ProductResponse,
@@ -39,7 +51,11 @@ import { Trans, useTranslation } from "react-i18next";
 export default function AdminProductsPage() {
   const { t } = useTranslation();
   const router = useRouter();
-  
+  const queryClient = useQueryClient();
+  const { can } = usePermission();
+  const canBulkUpdate = can(PERMISSIONS.SHOP_PRODUCT_UPDATE);
+  const canExport = can(PERMISSIONS.SHOP_REPORT_EXPORT);
+
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [selectedProduct, setSelectedProduct] =
@@ -65,12 +81,28 @@ export default function AdminProductsPage() {
 
   const [deleteError, setDeleteError] = useState<{ title: string; items: any[] } | null>(null);
 
+  // Selection survives paging and filtering, keyed by product id
+  const [selectedProducts, setSelectedProducts] = useState<Map<string, ProductResponseAdmin>>(
+    () => new Map()
+  );
+  const [bulkProgress, setBulkProgress] = useState<ProductBulkProgress | null>(null);
+  const [bulkFailures, setBulkFailures] = useState<{
+    action: ProductBulkAction;
+    failures: ProductBulkFailure[];
+  } | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const { data: categories = [] } = useCategories();
+
   const products = result?.data || [];
   const totalItems = result?.meta?.totalElements || 0;
   const totalPages = result?.meta?.totalPages || 0;
   const currentPage = result?.meta?.page || 1;
   const pageSize = result?.meta?.size || 10;
 
+  const isPageSelected =
+    products.length > 0 && products.every((product) => selectedProducts.has(product.id));
+
 
 
   // Handle search
@@ -94,7 +126,7 @@ export default function AdminProductsPage() {
 
     setIsDeleting(true);
     try {
-      const response = await clientApi.deleteProduct(selectedProduct.id);
+      const response = await productApi.deleteProduct(selectedProduct.id);
 
       if (response.error) {
         setDeleteError({
@@ -115,6 +147,91 @@ export default function AdminProductsPage() {
     }
   };
 
+  // Selection handlers
+  const toggleProduct = (product: ProductResponseAdmin, checked: boolean) => {
+    setSelectedProducts((prev) => {
+      const next = new Map(prev);
+      if (checked) {
+        next.set(product.id, product);
+      } else {
+        next.delete(product.id);
+      }
+      return next;
+    });
+  };
+
+  const togglePage = (checked: boolean) => {
+    setSelectedProducts((prev) => {
+      const next = new Map(prev);
+      for (const product of products) {
+        if (checked) {
+          next.set(product.id, product);
+        } else {
+          next.delete(product.id);
+        }
+      }
+      return next;
+    });
+  };
+
+  // Bulk actions - failed rows stay selected so they can be retried
+  // Prices are computed from the selection snapshot, so a retry never compounds
+  const handleBulkAction = async (
+    action: ProductBulkAction,
+    targets: ProductResponseAdmin[] = Array.from(selectedProducts.values())
+  ) => {
+    if (targets.length === 0) return;
+
+    setBulkFailures(null);
+    setBulkProgress({ done: 0, total: targets.length });
+    try {
+      const { succeededIds, failures } = await productBulkApi.runProductBulkAction(
+        targets,
+        action,
+        setBulkProgress
+      );
+
+      setSelectedProducts((prev) => {
+        const next = new Map(prev);
+        succeededIds.forEach((id) => next.delete(id));
+        return next;
+      });
+
+      if (succeededIds.length > 0) {
+        toast.success(t("admin.products.bulk.success", { count: succeededIds.length }));
+        queryClient.invalidateQueries({ queryKey: ["admin", "products"] });
+      }
+      if (failures.length > 0) {
+        setBulkFailures({ action, failures });
+      }
+    } finally {
+      setBulkProgress(null);
+    }
+  };
+
+  const handleRetryFailures = () => {
+    if (!bulkFailures) return;
+    const targets = bulkFailures.failures
+      .map((failure) => selectedProducts.get(failure.id))
+      .filter((product): product is ProductResponseAdmin => !!product);
+    handleBulkAction(bulkFailures.action, targets);
+  };
+
+  // Export every product matching the applied filters (not just this page)
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const { csv, productCount } = await productBulkApi.exportProductsCsv(searchParams);
+      const date = new Date().toISOString().slice(0, 10);
+      downloadCsv(`products-${date}.csv`, csv);
+      toast.success(t("admin.products.export.success", { count: productCount }));
+    } catch (err) {
+      toast.error((err as Error)?.message || t("admin.products.export.failed"));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   const handleEdit = (product: ProductResponseAdmin) => {
     // Navigate to admin detail page using ID
     router.push(`/admin/products/${product.id}`);
@@ -182,13 +299,30 @@ export default function AdminProductsPage() {
             {t("admin.products.subtitle")}
           </p>
         </div>
-        <Button
-          onClick={() => setIsCreateDialogOpen(true)}
-          className="bg-[#D4AF37] hover:bg-[#B8962D] text-white shadow-lg shadow-[#D4AF37]/20 border-0 h-11 px-6 font-semibold"
-        >
-          <Plus className="h-5 w-5 mr-2" />
-          {t("admin.products.newProduct")}
-        </Button>
+        <div className="flex items-center gap-3">
+          {canExport && (
+            <Button
+              variant="outline"
+              onClick={handleExport}
+              disabled={isExporting}
+              className="h-11 px-5 font-semibold border-slate-200 dark:border-slate-800"
+            >
+              {isExporting ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Download className="h-4 w-4 mr-2" />
+              )}
+              {isExporting ? t("admin.products.export.exporting") : t("admin.products.export.button")}
+            </Button>
+          )}
+          <Button
+            onClick={() => setIsCreateDialogOpen(true)}
+            className="bg-[#D4AF37] hover:bg-[#B8962D] text-white shadow-lg shadow-[#D4AF37]/20 border-0 h-11 px-6 font-semibold"
+          >
+            <Plus className="h-5 w-5 mr-2" />
+            {t("admin.products.newProduct")}
+          </Button>
+        </div>
       </div>
 
       {/* Global Alerts Center */}
@@ -216,6 +350,23 @@ export default function AdminProductsPage() {
             />
           </motion.div>
         )}
+
+        {bulkFailures && (
+          <motion.div initial={{ opacity: 0, height: 0 }} animate={{ opacity: 1, height: 'auto' }} exit={{ opacity: 0, height: 0 }} className="mb-6 overflow-hidden">
+            <AdminErrorDisplay
+              title={t("admin.products.bulk.failedTitle", { count: bulkFailures.failures.length })}
+              description={t("admin.products.bulk.failedDescription")}
+              items={bulkFailures.failures.map((failure) => ({
+                id: failure.id,
+                label: failure.name,
+                message: failure.message,
+              }))}
+              onRetry={bulkProgress ? undefined : handleRetryFailures}
+              onClose={() => setBulkFailures(null)}
+              className="shadow-lg shadow-red-500/5"
+            />
+          </motion.div>
+        )}
       </AnimatePresence>
 
       {/* Stats/Quick Actions (Optional, but adds to Pro Max feel) */}
@@ -257,7 +408,7 @@ export default function AdminProductsPage() {
                 <SelectItem value="all">{t("admin.products.allStatus")}</SelectItem>
                 <SelectItem value="ACTIVE">{t("admin.products.active")}</SelectItem>
                 <SelectItem value="DRAFT">{t("admin.products.draft")}</SelectItem>
-                <SelectItem value="INACTIVE">{t("admin.products.hidden")}</SelectItem>
+                <SelectItem value="HIDDEN">{t("admin.products.hidden")}</SelectItem>
                 <SelectItem value="ARCHIVED">{t("admin.products.archived")}</SelectItem>
               </SelectContent>
             </Select>
@@ -302,6 +453,17 @@ export default function AdminProductsPage() {
         </p>
       </div>
 
+      {/* Bulk Actions */}
+      {canBulkUpdate && (selectedProducts.size > 0 || bulkProgress) && (
+        <ProductBulkActionBar
+          selectedCount={selectedProducts.size}
+          categories={categories}
+          progress={bulkProgress}
+          onRun={(action) => handleBulkAction(action)}
+          onClearSelection={() => setSelectedProducts(new Map())}
+        />
+      )}
+
       {/* Products Table */}
       <div className="bg-white dark:bg-[#0B0F1A] rounded-xl shadow-sm border border-slate-200 dark:border-slate-800 overflow-hidden">
         {isLoading ? (
@@ -322,6 +484,16 @@ export default function AdminProductsPage() {
             <table className="w-full text-left border-collapse">
               <thead>
                 <tr className="border-b border-slate-100 dark:border-slate-800 bg-slate-50/50 dark:bg-slate-800/20">
+                  {canBulkUpdate && (
+                    <th className="pl-6 py-4 w-10">
+                      <Checkbox
+                        checked={isPageSelected}
+                        onCheckedChange={(checked) => togglePage(checked === true)}
+                        disabled={!!bulkProgress}
+                        aria-label={t("admin.products.bulk.selectPage")}
+                      />
+                    </th>
+                  )}
                   <th className="px-6 py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest">
                     {t("admin.products.id")}
                   </th>
@@ -349,8 +521,21 @@ export default function AdminProductsPage() {
                 {products.map((product) => (
                   <tr
                     key={product.id}
-                    className="group hover:bg-slate-50/50 dark:hover:bg-slate-800/30 transition-colors"
+                    className={cn(
+                      "group hover:bg-slate-50/50 dark:hover:bg-slate-800/30 transition-colors",
+                      selectedProducts.has(product.id) && "bg-[#D4AF37]/5"
+                    )}
                   >
+                    {canBulkUpdate && (
+                      <td className="pl-6 py-4 w-10">
+                        <Checkbox
+                          checked={selectedProducts.has(product.id)}
+                          onCheckedChange={(checked) => toggleProduct(product, checked === true)}
+                          disabled={!!bulkProgress}
+                          aria-label={t("admin.products.bulk.selectProduct", { name: product.name })}
+                        />
+                      </td>
+                    )}
                     <td className="px-6 py-4">
                       <span className="text-xs font-mono font-bold text-slate-400 bg-slate-100 dark:bg-slate-800 px-2 py-1 rounded">
                         #{product.id.toString().slice(-4)}
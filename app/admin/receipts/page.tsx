@@ -0,0 +1,398 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useTranslation } from "react-i18next";
+import { useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  Search,
+  Loader2,
+  ClipboardList,
+  ChevronLeft,
+  ChevronRight,
+  Plus,
+  RefreshCw,
+  Truck,
+  X,
+  ArrowRight,
+} from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AdminErrorDisplay } from "@/components/admin/AdminErrorDisplay";
+import { GoodsReceiptDrawer } from "@/components/admin/inventory/GoodsReceiptDrawer";
+import { ForbiddenPage } from "@/components/errors/Forbidden";
+import { useGoodsReceipts } from "@/lib/hooks/useAdminData";
+import { usePermission } from "@/lib/hooks/usePermission";
+import { PERMISSIONS } from "@/lib/constants/permissions";
+import {
+  goodsReceiptsApi,
+  type GoodsReceiptSearchParams,
+} from "@/lib/api/goods-receipts";
+import {
+  GOODS_RECEIPT_STATUSES,
+  type GoodsReceipt,
+  type GoodsReceiptStatus,
+} from "@/lib/types/goods-receipt";
+import { formatDate } from "@/lib/utils/order-formatters";
+import { cn } from "@/lib/utils";
+
+const STATUS_STYLES: Record<GoodsReceiptStatus, string> = {
+  DRAFT:
+    "bg-slate-50 text-slate-600 border-slate-200 dark:bg-slate-500/10 dark:text-slate-400 dark:border-slate-500/20",
+  SUBMITTED:
+    "bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-500/10 dark:text-amber-400 dark:border-amber-500/20",
+  APPROVED:
+    "bg-emerald-50 text-emerald-700 border-emerald-200 dark:bg-emerald-500/10 dark:text-emerald-400 dark:border-emerald-500/20",
+};
+
+const DEFAULT_PARAMS: GoodsReceiptSearchParams = {
+  page: 0,
+  size: 20,
+  status: "ALL",
+};
+
+interface DrawerSession {
+  key: number;
+  receipt: GoodsReceipt | null;
+}
+
+// Helper to format currency for display
+const formatCurrency = (value: number): string => {
+  return new Intl.NumberFormat("vi-VN", {
+    style: "decimal",
+    maximumFractionDigits: 0,
+  }).format(value);
+};
+
+export default function AdminGoodsReceiptsPage() {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const { can } = usePermission();
+
+  const [searchKeyword, setSearchKeyword] = useState("");
+  const [searchParams, setSearchParams] =
+    useState<GoodsReceiptSearchParams>(DEFAULT_PARAMS);
+  const [drawerSession, setDrawerSession] = useState<DrawerSession | null>(null);
+  const [drawerOpen, setDrawerOpen] = useState(false);
+  const [openingId, setOpeningId] = useState<string | null>(null);
+
+  const {
+    data: result,
+    isLoading,
+    isFetching,
+    isError,
+    error,
+    refetch,
+  } = useGoodsReceipts(searchParams);
+
+  const receipts = result?.data || [];
+  const totalItems = result?.meta?.totalElements || 0;
+  const totalPages = result?.meta?.totalPages || 0;
+  const currentPage = searchParams.page || 0;
+  const pageSize = searchParams.size || 20;
+
+  const hasActiveFilters =
+    !!searchParams.keyword || searchParams.status !== DEFAULT_PARAMS.status;
+
+  const updateFilters = (patch: Partial<GoodsReceiptSearchParams>) => {
+    setSearchParams((prev) => ({ ...prev, ...patch, page: 0 }));
+  };
+
+  const handleSearch = () => {
+    updateFilters({ keyword: searchKeyword.trim() || undefined });
+  };
+
+  const handleClearFilters = () => {
+    setSearchKeyword("");
+    setSearchParams(DEFAULT_PARAMS);
+  };
+
+  const handlePageChange = (page: number) => {
+    setSearchParams((prev) => ({ ...prev, page }));
+  };
+
+  const openDrawer = (receipt: GoodsReceipt | null) => {
+    setDrawerSession({ key: Date.now(), receipt });
+    setDrawerOpen(true);
+  };
+
+  // The list carries summaries; load the lines before opening
+  const handleOpenReceipt = async (receipt: GoodsReceipt) => {
+    setOpeningId(receipt.id);
+    try {
+      const response = await goodsReceiptsApi.getGoodsReceipt(receipt.id);
+      if (response.error || !response.data) {
+        toast.error(response.error?.message || t("admin.receipts.loadFailed"));
+        return;
+      }
+      openDrawer(response.data);
+    } finally {
+      setOpeningId(null);
+    }
+  };
+
+  // Approval changes stock levels, so refresh inventory views as well
+  const handleChanged = () =>
+    Promise.all([
+      queryClient.invalidateQueries({ queryKey: ["admin", "receipts"] }),
+      queryClient.invalidateQueries({ queryKey: ["admin", "inventory"] }),
+    ]);
+
+  if (!can(PERMISSIONS.INVENTORY_RECEIPT_VIEW)) {
+    return <ForbiddenPage />;
+  }
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      {/* Page Header */}
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-slate-900 dark:text-slate-100 tracking-tight">
+            {t("admin.receipts.title")}
+          </h1>
+          <p className="text-slate-500 dark:text-slate-400 mt-1 max-w-2xl">
+            {t("admin.receipts.subtitle")}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            onClick={() => refetch()}
+            disabled={isFetching}
+            className="h-10 gap-2"
+          >
+            <RefreshCw className={cn("h-4 w-4", isFetching && "animate-spin")} />
+            {t("common.refresh")}
+          </Button>
+          {can(PERMISSIONS.INVENTORY_SUPPLIER_VIEW) && (
+            <Button asChild variant="outline" className="h-10 gap-2">
+              <Link href="/admin/suppliers" className="no-underline">
+                <Truck className="h-4 w-4" />
+                {t("admin.suppliers.title")}
+              </Link>
+            </Button>
+          )}
+          {can(PERMISSIONS.INVENTORY_RECEIPT_CREATE) && (
+            <Button
+              onClick={() => openDrawer(null)}
+              className="h-10 gap-2 bg-slate-900 dark:bg-slate-100 text-white dark:text-slate-900 hover:bg-slate-800 dark:hover:bg-slate-200"
+            >
+              <Plus className="h-4 w-4" />
+              {t("admin.receipts.newTitle")}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {isError && (
+        <AdminErrorDisplay
+          title={t("admin.receipts.loadErrorTitle")}
+          items={[{ message: (error as Error)?.message || "" }]}
+          onRetry={() => refetch()}
+        />
+      )}
+
+      {/* Filter Bar */}
+      <div className="p-4 rounded-xl bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 shadow-sm">
+        <div className="flex flex-col lg:flex-row gap-4">
+          <div className="flex-1 relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400" />
+            <Input
+              placeholder={t("admin.receipts.searchPlaceholder")}
+              value={searchKeyword}
+              onChange={(e) => setSearchKeyword(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleSearch()}
+              className="pl-10 h-10 bg-slate-50 dark:bg-slate-800/50 border-transparent focus:bg-white dark:focus:bg-slate-800"
+            />
+          </div>
+          <Select
+            value={searchParams.status || "ALL"}
+            onValueChange={(value) =>
+              updateFilters({ status: value as GoodsReceiptStatus | "ALL" })
+            }
+          >
+            <SelectTrigger className="w-full lg:w-[180px] h-10 bg-slate-50 dark:bg-slate-800/50 border-transparent">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="ALL">{t("admin.receipts.allStatuses")}</SelectItem>
+              {GOODS_RECEIPT_STATUSES.map((status) => (
+                <SelectItem key={status} value={status}>
+                  {t(`admin.receipts.statuses.${status}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            onClick={handleSearch}
+            className="h-10 px-6 bg-slate-900 dark:bg-slate-100 text-white dark:text-slate-900 hover:bg-slate-800 dark:hover:bg-slate-200"
+          >
+            {t("common.search")}
+          </Button>
+          {hasActiveFilters && (
+            <Button
+              variant="ghost"
+              onClick={handleClearFilters}
+              className="h-10 gap-1 text-slate-500 hover:text-slate-900 dark:hover:text-slate-100"
+            >
+              <X className="h-4 w-4" />
+              {t("common.clear")}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Receipts Table */}
+      <div className="bg-white dark:bg-[#0B0F1A] rounded-xl shadow-sm border border-slate-200 dark:border-slate-800 overflow-hidden">
+        {isLoading ? (
+          <div className="flex justify-center py-20">
+            <Loader2 className="h-8 w-8 animate-spin text-[#D4AF37]" />
+          </div>
+        ) : receipts.length === 0 ? (
+          <div className="text-center py-20">
+            <div className="h-16 w-16 bg-slate-50 dark:bg-slate-800/50 rounded-full flex items-center justify-center mx-auto mb-4 text-slate-400">
+              <ClipboardList className="h-8 w-8" />
+            </div>
+            <p className="text-slate-900 dark:text-slate-100 font-semibold">
+              {t("admin.receipts.noResults")}
+            </p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-left border-collapse">
+              <thead>
+                <tr className="border-b border-slate-100 dark:border-slate-800 bg-slate-50/50 dark:bg-slate-800/20">
+                  <th className="px-6 py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                    {t("admin.receipts.code")}
+                  </th>
+                  <th className="px-6 py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                    {t("admin.receipts.supplier")}
+                  </th>
+                  <th className="px-6 py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest text-right">
+                    {t("admin.receipts.quantity")}
+                  </th>
+                  <th className="px-6 py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest text-right">
+                    {t("admin.receipts.totalCost")}
+                  </th>
+                  <th className="px-6 py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest text-center">
+                    {t("admin.receipts.status")}
+                  </th>
+                  <th className="px-6 py-4 w-[60px]" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+                {receipts.map((receipt) => (
+                  <tr
+                    key={receipt.id}
+                    onClick={() => !openingId && handleOpenReceipt(receipt)}
+                    className="cursor-pointer hover:bg-slate-50/50 dark:hover:bg-slate-800/30 transition-colors"
+                  >
+                    <td className="px-6 py-4">
+                      <p className="text-sm font-mono font-medium text-slate-900 dark:text-slate-100">
+                        {receipt.code}
+                      </p>
+                      <p className="text-xs text-slate-400">
+                        {formatDate(receipt.createdAt)}
+                      </p>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-slate-700 dark:text-slate-300">
+                      {receipt.supplierName}
+                    </td>
+                    <td className="px-6 py-4 text-right tabular-nums text-sm text-slate-700 dark:text-slate-300">
+                      {receipt.totalQuantity}
+                    </td>
+                    <td className="px-6 py-4 text-right tabular-nums text-sm font-medium text-slate-900 dark:text-slate-100">
+                      {formatCurrency(receipt.totalCost)} ₫
+                    </td>
+                    <td className="px-6 py-4 text-center">
+                      <span
+                        className={cn(
+                          "inline-flex px-2 py-0.5 rounded-full border text-[10px] font-bold uppercase tracking-wider",
+                          STATUS_STYLES[receipt.status],
+                        )}
+                      >
+                        {t(`admin.receipts.statuses.${receipt.status}`)}
+                      </span>
+                      {receipt.status === "DRAFT" && receipt.rejectionReason && (
+                        <p className="mt-1 text-[10px] text-amber-600">
+                          {t("admin.receipts.returned")}
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-right">
+                      {openingId === receipt.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin text-slate-400 ml-auto" />
+                      ) : (
+                        <ArrowRight className="h-4 w-4 text-slate-400 ml-auto" />
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Pagination */}
+      {!isLoading && totalPages > 1 && (
+        <div className="flex flex-col sm:flex-row items-center justify-between gap-4 px-6 py-4 bg-white dark:bg-[#0B0F1A] rounded-xl border border-slate-200 dark:border-slate-800 shadow-sm">
+          <span className="text-sm text-slate-500 font-medium">
+            {t("admin.receipts.showingXToYOfZ", {
+              start: currentPage * pageSize + 1,
+              end: Math.min((currentPage + 1) * pageSize, totalItems),
+              total: totalItems,
+            })}
+          </span>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handlePageChange(currentPage - 1)}
+              disabled={currentPage <= 0 || isFetching}
+              className="h-9 px-4"
+            >
+              <ChevronLeft className="h-4 w-4 mr-1" />
+              {t("common.previous")}
+            </Button>
+            <span className="text-sm font-medium text-slate-700 dark:text-slate-300 min-w-[80px] text-center">
+              {t("common.pagination.page", {
+                current: currentPage + 1,
+                total: totalPages,
+              })}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handlePageChange(currentPage + 1)}
+              disabled={currentPage + 1 >= totalPages || isFetching}
+              className="h-9 px-4"
+            >
+              {t("common.next")}
+              <ChevronRight className="h-4 w-4 ml-1" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {drawerSession && (
+        <GoodsReceiptDrawer
+          key={drawerSession.key}
+          open={drawerOpen}
+          onOpenChange={setDrawerOpen}
+          receipt={drawerSession.receipt}
+          onChanged={handleChanged}
+        />
+      )}
+    </div>
+  );
+}
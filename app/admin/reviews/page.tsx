@@ -0,0 +1,702 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import Link from "next/link";
+import { motion, AnimatePresence } from "framer-motion";
+import { useTranslation } from "react-i18next";
+import { useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  Search,
+  Loader2,
+  MessageSquare,
+  ChevronLeft,
+  ChevronRight,
+  RefreshCw,
+  X,
+  Check,
+  Ban,
+  Trash2,
+  BadgeCheck,
+} from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { AdminErrorDisplay } from "@/components/admin/AdminErrorDisplay";
+import { ForbiddenPage } from "@/components/errors/Forbidden";
+import { StarRating } from "@/components/shop/reviews";
+import { useAdminReviews } from "@/lib/hooks/useAdminData";
+import { usePermission } from "@/lib/hooks/usePermission";
+import { PERMISSIONS } from "@/lib/constants/permissions";
+import {
+  adminReviewsApi,
+  type AdminReviewSearchParams,
+} from "@/lib/api/admin-reviews";
+import {
+  REVIEW_RATINGS,
+  REVIEW_STATUSES,
+  type AdminReview,
+  type ReviewStatus,
+} from "@/lib/types/review";
+import {
+  formatDate,
+  formatVariantAttributes,
+} from "@/lib/utils/order-formatters";
+import { cn } from "@/lib/utils";
+import type { ApiResult } from "@/lib/api-client";
+
+const STATUS_STYLES: Record<ReviewStatus, string> = {
+  PENDING:
+    "bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-500/10 dark:text-amber-400 dark:border-amber-500/20",
+  APPROVED:
+    "bg-emerald-50 text-emerald-700 border-emerald-200 dark:bg-emerald-500/10 dark:text-emerald-400 dark:border-emerald-500/20",
+  REJECTED:
+    "bg-red-50 text-red-700 border-red-200 dark:bg-red-500/10 dark:text-red-400 dark:border-red-500/20",
+};
+
+const DEFAULT_PARAMS: AdminReviewSearchParams = {
+  page: 0,
+  size: 20,
+  status: "PENDING",
+};
+
+export default function AdminReviewsPage() {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const { can } = usePermission();
+
+  const [searchKeyword, setSearchKeyword] = useState("");
+  const [searchParams, setSearchParams] =
+    useState<AdminReviewSearchParams>(DEFAULT_PARAMS);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const [rejectTarget, setRejectTarget] = useState<AdminReview | null>(null);
+  const [rejectReason, setRejectReason] = useState("");
+  const [deleteTarget, setDeleteTarget] = useState<AdminReview | null>(null);
+
+  const {
+    data: result,
+    isLoading,
+    isFetching,
+    isError,
+    error,
+    refetch,
+  } = useAdminReviews(searchParams);
+
+  const reviews = result?.data || [];
+  const totalItems = result?.meta?.totalElements || 0;
+  const totalPages = result?.meta?.totalPages || 0;
+  const currentPage = searchParams.page || 0;
+  const pageSize = searchParams.size || 20;
+
+  const hasActiveFilters =
+    !!searchParams.keyword ||
+    searchParams.status !== DEFAULT_PARAMS.status ||
+    searchParams.rating !== undefined;
+
+  const updateFilters = (patch: Partial<AdminReviewSearchParams>) => {
+    setSearchParams((prev) => ({ ...prev, ...patch, page: 0 }));
+  };
+
+  const handleSearch = () => {
+    updateFilters({ keyword: searchKeyword.trim() || undefined });
+  };
+
+  const handleClearFilters = () => {
+    setSearchKeyword("");
+    setSearchParams(DEFAULT_PARAMS);
+  };
+
+  const handlePageChange = (page: number) => {
+    setSearchParams((prev) => ({ ...prev, page }));
+  };
+
+  // Moderation changes what the storefront shows, so refresh both caches
+  const invalidateReviews = () =>
+    Promise.all([
+      queryClient.invalidateQueries({ queryKey: ["admin", "reviews"] }),
+      queryClient.invalidateQueries({ queryKey: ["reviews"] }),
+    ]);
+
+  const runModeration = async (
+    reviewId: string,
+    action: () => Promise<ApiResult<unknown>>,
+    successMessage: string,
+    failureMessage: string,
+  ) => {
+    setProcessingId(reviewId);
+    try {
+      const response = await action();
+      if (response.error) {
+        toast.error(response.error.message || failureMessage);
+        return false;
+      }
+      toast.success(successMessage);
+      await invalidateReviews();
+      return true;
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handleApprove = (review: AdminReview) =>
+    runModeration(
+      review.id,
+      () => adminReviewsApi.approveReview(review.id),
+      t("admin.reviews.approved", { defaultValue: "Review approved" }),
+      t("admin.reviews.approveFailed", {
+        defaultValue: "Failed to approve review",
+      }),
+    );
+
+  const handleReject = async () => {
+    const reason = rejectReason.trim();
+    if (!rejectTarget || !reason) return;
+
+    const done = await runModeration(
+      rejectTarget.id,
+      () =>
+        adminReviewsApi.rejectReview({ reviewId: rejectTarget.id, reason }),
+      t("admin.reviews.rejected", { defaultValue: "Review rejected" }),
+      t("admin.reviews.rejectFailed", {
+        defaultValue: "Failed to reject review",
+      }),
+    );
+    if (done) {
+      setRejectTarget(null);
+      setRejectReason("");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+    const target = deleteTarget;
+    setDeleteTarget(null);
+    await runModeration(
+      target.id,
+      () => adminReviewsApi.deleteReview(target.id),
+      t("admin.reviews.deleted", { defaultValue: "Review deleted" }),
+      t("admin.reviews.deleteFailed", {
+        defaultValue: "Failed to delete review",
+      }),
+    );
+  };
+
+  if (!can(PERMISSIONS.SHOP_REVIEW_MODERATE)) {
+    return <ForbiddenPage />;
+  }
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      {/* Page Header */}
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-slate-900 dark:text-slate-100 tracking-tight">
+            {t("admin.reviews.title", { defaultValue: "Reviews" })}
+          </h1>
+          <p className="text-slate-500 dark:text-slate-400 mt-1 max-w-2xl">
+            {t("admin.reviews.subtitle", {
+              defaultValue:
+                "Moderate customer reviews before they appear on the storefront.",
+            })}
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => refetch()}
+          disabled={isFetching}
+          className="h-10 gap-2"
+        >
+          <RefreshCw className={cn("h-4 w-4", isFetching && "animate-spin")} />
+          {t("common.refresh")}
+        </Button>
+      </div>
+
+      {/* Error */}
+      <AnimatePresence>
+        {isError && (
+          <motion.div
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: "auto" }}
+            exit={{ opacity: 0, height: 0 }}
+            className="overflow-hidden"
+          >
+            <AdminErrorDisplay
+              title={t("admin.reviews.loadErrorTitle", {
+                defaultValue: "Failed to Load Reviews",
+              })}
+              items={[
+                {
+                  message:
+                    (error as Error)?.message ||
+                    t("admin.reviews.unexpectedError", {
+                      defaultValue: "An unexpected error occurred.",
+                    }),
+                },
+              ]}
+              onRetry={() => refetch()}
+            />
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Filter Bar */}
+      <div className="p-4 rounded-xl bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 shadow-sm space-y-4">
+        <div className="flex flex-col lg:flex-row gap-4">
+          <div className="flex-1 relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400" />
+            <Input
+              placeholder={t("admin.reviews.searchPlaceholder", {
+                defaultValue: "Search by product, customer or review text...",
+              })}
+              value={searchKeyword}
+              onChange={(e) => setSearchKeyword(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleSearch()}
+              className="pl-10 h-10 bg-slate-50 dark:bg-slate-800/50 border-transparent focus:bg-white dark:focus:bg-slate-800"
+            />
+          </div>
+          <Button
+            onClick={handleSearch}
+            className="h-10 px-6 bg-slate-900 dark:bg-slate-100 text-white dark:text-slate-900 hover:bg-slate-800 dark:hover:bg-slate-200"
+          >
+            {t("admin.reviews.filter", { defaultValue: "Filter" })}
+          </Button>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-3">
+          {/* Status */}
+          <div className="space-y-1">
+            <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+              {t("admin.reviews.status", { defaultValue: "Status" })}
+            </span>
+            <Select
+              value={searchParams.status || "ALL"}
+              onValueChange={(value) =>
+                updateFilters({ status: value as ReviewStatus | "ALL" })
+              }
+            >
+              <SelectTrigger className="w-[170px] h-10 bg-slate-50 dark:bg-slate-800/50 border-transparent">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="ALL">
+                  {t("admin.reviews.allStatuses", {
+                    defaultValue: "All Statuses",
+                  })}
+                </SelectItem>
+                {REVIEW_STATUSES.map((status) => (
+                  <SelectItem key={status} value={status}>
+                    {t(`admin.reviews.statuses.${status}`, {
+                      defaultValue: status,
+                    })}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Rating */}
+          <div className="space-y-1">
+            <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+              {t("admin.reviews.rating", { defaultValue: "Rating" })}
+            </span>
+            <Select
+              value={searchParams.rating?.toString() || "ALL"}
+              onValueChange={(value) =>
+                updateFilters({
+                  rating: value === "ALL" ? undefined : Number(value),
+                })
+              }
+            >
+              <SelectTrigger className="w-[150px] h-10 bg-slate-50 dark:bg-slate-800/50 border-transparent">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="ALL">
+                  {t("admin.reviews.allRatings", {
+                    defaultValue: "All Ratings",
+                  })}
+                </SelectItem>
+                {REVIEW_RATINGS.map((rating) => (
+                  <SelectItem key={rating} value={rating.toString()}>
+                    {t("reviews.stars", { count: rating })}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {hasActiveFilters && (
+            <Button
+              variant="ghost"
+              onClick={handleClearFilters}
+              className="h-10 gap-1 text-slate-500 hover:text-slate-900 dark:hover:text-slate-100"
+            >
+              <X className="h-4 w-4" />
+              {t("admin.reviews.clearFilters", {
+                defaultValue: "Clear Filters",
+              })}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Reviews Table */}
+      <div className="bg-white dark:bg-[#0B0F1A] rounded-xl shadow-sm border border-slate-200 dark:border-slate-800 overflow-hidden">
+        {isLoading ? (
+          <div className="flex flex-col items-center justify-center py-20 gap-4">
+            <Loader2 className="h-8 w-8 animate-spin text-[#D4AF37]" />
+            <p className="text-sm text-slate-500 font-medium">
+              {t("admin.reviews.fetchingReviews", {
+                defaultValue: "Fetching reviews...",
+              })}
+            </p>
+          </div>
+        ) : reviews.length === 0 ? (
+          <div className="text-center py-20">
+            <div className="h-16 w-16 bg-slate-50 dark:bg-slate-800/50 rounded-full flex items-center justify-center mx-auto mb-4 text-slate-400">
+              <MessageSquare className="h-8 w-8" />
+            </div>
+            <p className="text-slate-900 dark:text-slate-100 font-semibold">
+              {t("admin.reviews.noResultsFound", {
+                defaultValue: "No reviews found",
+              })}
+            </p>
+            <p className="text-sm text-slate-500 mt-1">
+              {t("admin.reviews.noResultsDescription", {
+                defaultValue: "The moderation queue is clear.",
+              })}
+            </p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-left border-collapse">
+              <thead>
+                <tr className="border-b border-slate-100 dark:border-slate-800 bg-slate-50/50 dark:bg-slate-800/20">
+                  <th className="px-6 py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                    {t("admin.reviews.product", { defaultValue: "Product" })}
+                  </th>
+                  <th className="px-6 py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                    {t("admin.reviews.author", { defaultValue: "Customer" })}
+                  </th>
+                  <th className="px-6 py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                    {t("admin.reviews.review", { defaultValue: "Review" })}
+                  </th>
+                  <th className="px-6 py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest text-center">
+                    {t("admin.reviews.status", { defaultValue: "Status" })}
+                  </th>
+                  <th className="px-6 py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest text-right">
+                    {t("admin.reviews.actions", { defaultValue: "Actions" })}
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+                {reviews.map((review) => {
+                  const variantLabel = formatVariantAttributes(
+                    review.variantAttributes,
+                  );
+                  const isProcessing = processingId === review.id;
+
+                  return (
+                    <tr
+                      key={review.id}
+                      className="align-top hover:bg-slate-50/50 dark:hover:bg-slate-800/30 transition-colors"
+                    >
+                      <td className="px-6 py-4 max-w-[220px]">
+                        <div className="flex flex-col">
+                          {review.productSlug ? (
+                            <Link
+                              href={`/product/${review.productSlug}`}
+                              target="_blank"
+                              className="text-sm font-medium text-slate-900 dark:text-slate-100 hover:text-[#D4AF37] no-underline transition-colors"
+                            >
+                              {review.productName}
+                            </Link>
+                          ) : (
+                            <span className="text-sm font-medium text-slate-900 dark:text-slate-100">
+                              {review.productName}
+                            </span>
+                          )}
+                          {variantLabel && (
+                            <span className="text-xs text-slate-400">
+                              {variantLabel}
+                            </span>
+                          )}
+                          {review.orderCode && (
+                            <Link
+                              href={`/admin/orders/${review.orderCode}`}
+                              className="text-xs font-mono text-slate-400 hover:text-[#D4AF37] no-underline"
+                            >
+                              {review.orderCode}
+                            </Link>
+                          )}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4">
+                        <div className="flex flex-col">
+                          <span className="text-sm font-medium text-slate-700 dark:text-slate-300">
+                            {review.authorName}
+                          </span>
+                          {review.authorEmail && (
+                            <span className="text-xs text-slate-400">
+                              {review.authorEmail}
+                            </span>
+                          )}
+                          {review.verifiedPurchase && (
+                            <span className="mt-1 flex items-center gap-1 text-[10px] font-bold uppercase tracking-wider text-emerald-600 dark:text-emerald-400">
+                              <BadgeCheck className="h-3 w-3" />
+                              {t("reviews.verifiedPurchase")}
+                            </span>
+                          )}
+                          <span className="mt-1 text-xs text-slate-400">
+                            {formatDate(review.createdAt)}
+                          </span>
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 min-w-[280px] max-w-md">
+                        <StarRating value={review.rating} size="sm" />
+                        {review.title && (
+                          <p className="mt-2 text-sm font-semibold text-slate-900 dark:text-slate-100">
+                            {review.title}
+                          </p>
+                        )}
+                        <p className="mt-1 text-sm text-slate-600 dark:text-slate-400 whitespace-pre-wrap line-clamp-4">
+                          {review.content}
+                        </p>
+                        {review.images.length > 0 && (
+                          <div className="mt-2 flex flex-wrap gap-1.5">
+                            {review.images.map((image) => (
+                              <a
+                                key={image}
+                                href={image}
+                                target="_blank"
+                                rel="noreferrer"
+                                className="relative h-12 w-12 rounded overflow-hidden bg-slate-100 dark:bg-slate-800"
+                              >
+                                <Image
+                                  src={image}
+                                  alt=""
+                                  fill
+                                  sizes="48px"
+                                  className="object-cover"
+                                />
+                              </a>
+                            ))}
+                          </div>
+                        )}
+                        {review.status === "REJECTED" &&
+                          review.rejectionReason && (
+                            <p className="mt-2 text-xs text-red-600 dark:text-red-400">
+                              {t("admin.reviews.rejectionReason", {
+                                reason: review.rejectionReason,
+                                defaultValue: `Rejected: ${review.rejectionReason}`,
+                              })}
+                            </p>
+                          )}
+                      </td>
+                      <td className="px-6 py-4 text-center">
+                        <span
+                          className={cn(
+                            "inline-flex px-2 py-0.5 rounded-full border text-[10px] font-bold uppercase tracking-wider",
+                            STATUS_STYLES[review.status],
+                          )}
+                        >
+                          {t(`admin.reviews.statuses.${review.status}`, {
+                            defaultValue: review.status,
+                          })}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4">
+                        <div className="flex items-center justify-end gap-1">
+                          {isProcessing ? (
+                            <Loader2 className="h-4 w-4 animate-spin text-slate-400" />
+                          ) : (
+                            <>
+                              {review.status !== "APPROVED" && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => handleApprove(review)}
+                                  disabled={!!processingId}
+                                  title={t("admin.reviews.approve", {
+                                    defaultValue: "Approve",
+                                  })}
+                                  className="h-8 w-8 p-0 text-emerald-600 hover:text-emerald-700 hover:bg-emerald-50 dark:hover:bg-emerald-500/10"
+                                >
+                                  <Check className="h-4 w-4" />
+                                </Button>
+                              )}
+                              {review.status !== "REJECTED" && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => setRejectTarget(review)}
+                                  disabled={!!processingId}
+                                  title={t("admin.reviews.reject", {
+                                    defaultValue: "Reject",
+                                  })}
+                                  className="h-8 w-8 p-0 text-amber-600 hover:text-amber-700 hover:bg-amber-50 dark:hover:bg-amber-500/10"
+                                >
+                                  <Ban className="h-4 w-4" />
+                                </Button>
+                              )}
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setDeleteTarget(review)}
+                                disabled={!!processingId}
+                                title={t("admin.reviews.delete", {
+                                  defaultValue: "Delete",
+                                })}
+                                className="h-8 w-8 p-0 text-red-600 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-500/10"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Pagination */}
+      {!isLoading && totalItems > 0 && (
+        <div className="flex flex-col sm:flex-row items-center justify-between gap-4 px-6 py-4 bg-white dark:bg-[#0B0F1A] rounded-xl border border-slate-200 dark:border-slate-800 shadow-sm">
+          <span className="text-sm text-slate-500 font-medium">
+            {t("admin.reviews.showingXToYOfZ", {
+              start: currentPage * pageSize + 1,
+              end: Math.min((currentPage + 1) * pageSize, totalItems),
+              total: totalItems,
+              defaultValue: `Showing ${currentPage * pageSize + 1} to ${Math.min((currentPage + 1) * pageSize, totalItems)} of ${totalItems} reviews`,
+            })}
+          </span>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handlePageChange(currentPage - 1)}
+              disabled={currentPage <= 0 || isFetching}
+              className="h-9 px-4"
+            >
+              <ChevronLeft className="h-4 w-4 mr-1" />
+              {t("common.previous")}
+            </Button>
+            <span className="text-sm font-medium text-slate-700 dark:text-slate-300 min-w-[80px] text-center">
+              {t("common.pagination.page", {
+                current: currentPage + 1,
+                total: totalPages || 1,
+              })}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handlePageChange(currentPage + 1)}
+              disabled={currentPage + 1 >= totalPages || isFetching}
+              className="h-9 px-4"
+            >
+              {t("common.next")}
+              <ChevronRight className="h-4 w-4 ml-1" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Reject Dialog */}
+      <Dialog
+        open={!!rejectTarget}
+        onOpenChange={(open) => {
+          if (processingId) return;
+          if (!open) {
+            setRejectTarget(null);
+            setRejectReason("");
+          }
+        }}
+      >
+        <DialogContent className="bg-white dark:bg-slate-900 border border-gray-200 dark:border-slate-800">
+          <DialogHeader>
+            <DialogTitle>
+              {t("admin.reviews.rejectTitle", {
+                defaultValue: "Reject review",
+              })}
+            </DialogTitle>
+            <DialogDescription>
+              {t("admin.reviews.rejectDescription", {
+                defaultValue:
+                  "The customer will see this reason. The review stays hidden from the storefront.",
+              })}
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={rejectReason}
+            onChange={(e) => setRejectReason(e.target.value)}
+            rows={4}
+            maxLength={500}
+            placeholder={t("admin.reviews.rejectReasonPlaceholder", {
+              defaultValue: "e.g. Contains personal information",
+            })}
+          />
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => {
+                setRejectTarget(null);
+                setRejectReason("");
+              }}
+              disabled={!!processingId}
+            >
+              {t("common.cancel")}
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleReject}
+              disabled={!rejectReason.trim() || !!processingId}
+            >
+              {processingId && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {t("admin.reviews.reject", { defaultValue: "Reject" })}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <ConfirmDialog
+        open={!!deleteTarget}
+        onOpenChange={(open) => !open && setDeleteTarget(null)}
+        title={t("admin.reviews.deleteTitle", {
+          defaultValue: "Delete review?",
+        })}
+        description={t("admin.reviews.deleteDescription", {
+          defaultValue:
+            "This permanently removes the review and its photos. This cannot be undone.",
+        })}
+        confirmText={t("admin.reviews.delete", { defaultValue: "Delete" })}
+        cancelText={t("common.cancel")}
+        onConfirm={handleDelete}
+        variant="destructive"
+      />
+    </div>
+  );
+}
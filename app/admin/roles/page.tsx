@@ -0,0 +1,229 @@
+'use client';
+
+import { useState } from "react";
+import Link from "next/link";
+import { useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { toast } from "sonner";
+import {
+  ArrowLeft,
+  KeyRound,
+  Loader2,
+  Lock,
+  Pencil,
+  Plus,
+  Trash2,
+  Users,
+} from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { AdminErrorDisplay } from "@/components/admin/AdminErrorDisplay";
+import { RoleEditorDialog } from "@/components/admin/users/RoleEditorDialog";
+import { ForbiddenPage } from "@/components/errors/Forbidden";
+import { useAdminRoles } from "@/lib/hooks/useAdminData";
+import { usePermission } from "@/lib/hooks/usePermission";
+import { PERMISSIONS } from "@/lib/constants/permissions";
+import { isWildcardPermission } from "@/lib/utils/permissions";
+import { adminUsersApi, Role } from "@/lib/api/admin-users";
+import { cn } from "@/lib/utils";
+
+export default function AdminRolesPage() {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const { can } = usePermission();
+
+  const canCreate = can(PERMISSIONS.IAM_ROLE_CREATE);
+  const canUpdate = can(PERMISSIONS.IAM_ROLE_UPDATE);
+  const canDelete = can(PERMISSIONS.IAM_ROLE_DELETE);
+
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editingRole, setEditingRole] = useState<Role | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<Role | null>(null);
+
+  const {
+    data: roles = [],
+    isLoading,
+    isError,
+    error,
+    refetch,
+  } = useAdminRoles();
+
+  const invalidateRoles = () =>
+    queryClient.invalidateQueries({ queryKey: ["admin", "roles"] });
+
+  const openEditor = (role: Role | null) => {
+    setEditingRole(role);
+    setEditorOpen(true);
+  };
+
+  const handleSaved = async () => {
+    toast.success(
+      editingRole ? t("admin.roles.updated") : t("admin.roles.created"),
+    );
+    await invalidateRoles();
+  };
+
+  const handleDelete = async (role: Role) => {
+    const result = await adminUsersApi.deleteRole(role.id);
+    if (result.error) {
+      toast.error(result.error.message || t("admin.roles.deleteFailed"));
+      return;
+    }
+    toast.success(t("admin.roles.deleted", { name: role.name }));
+    await invalidateRoles();
+  };
+
+  if (!can(PERMISSIONS.IAM_ROLE_VIEW)) {
+    return <ForbiddenPage />;
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto space-y-10 pb-20 px-4">
+      <Link
+        href="/admin/users"
+        className="inline-flex items-center gap-2 pt-6 text-sm text-slate-500 hover:text-[#D4AF37] no-underline transition-colors"
+      >
+        <ArrowLeft className="h-4 w-4" />
+        {t("admin.roles.backToUsers")}
+      </Link>
+
+      {/* Page Header */}
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-6">
+        <div>
+          <h1 className="text-4xl font-light tracking-tight text-slate-900 dark:text-slate-100 mb-2">
+            {t("admin.roles.title")}
+          </h1>
+          <p className="text-slate-500 dark:text-slate-400 max-w-2xl font-light">
+            {t("admin.roles.subtitle")}
+          </p>
+        </div>
+        {canCreate && (
+          <Button
+            onClick={() => openEditor(null)}
+            className="bg-slate-900 dark:bg-[#D4AF37] text-white hover:opacity-90 px-8 h-14 rounded-2xl text-lg font-light transition-all shadow-xl shadow-slate-900/10 dark:shadow-[#D4AF37]/5"
+          >
+            <Plus className="h-5 w-5 mr-2" />
+            {t("admin.roles.createTitle")}
+          </Button>
+        )}
+      </div>
+
+      {isError && (
+        <AdminErrorDisplay
+          title={t("admin.roles.loadErrorTitle")}
+          items={[{ message: (error as Error)?.message || "" }]}
+          onRetry={() => refetch()}
+        />
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-20">
+          <Loader2 className="h-8 w-8 animate-spin text-[#D4AF37] opacity-60" />
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+          {roles.map((role) => (
+            <div
+              key={role.id}
+              className="bg-white dark:bg-[#111] border border-slate-200 dark:border-slate-800 rounded-3xl p-6 shadow-sm flex flex-col gap-4"
+            >
+              <div className="flex items-start justify-between gap-3">
+                <div className="flex items-center gap-3 min-w-0">
+                  <div className="h-12 w-12 rounded-2xl bg-[#D4AF37]/10 text-[#D4AF37] flex items-center justify-center shrink-0">
+                    <KeyRound className="h-5 w-5" />
+                  </div>
+                  <div className="min-w-0">
+                    <p className="text-lg font-light text-slate-900 dark:text-slate-100 truncate flex items-center gap-2">
+                      {role.name}
+                      {role.system && (
+                        <Lock
+                          className="h-3.5 w-3.5 text-slate-400"
+                          aria-label={t("admin.roles.systemRole")}
+                        />
+                      )}
+                    </p>
+                    <p className="text-[10px] font-mono text-slate-400">
+                      {role.code}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-1">
+                  {canUpdate && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title={t("common.edit")}
+                      onClick={() => openEditor(role)}
+                      className="h-9 w-9 rounded-xl"
+                    >
+                      <Pencil className="h-4 w-4 text-slate-400" />
+                    </Button>
+                  )}
+                  {canDelete && !role.system && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title={t("common.delete")}
+                      onClick={() => setDeleteTarget(role)}
+                      className="h-9 w-9 rounded-xl"
+                    >
+                      <Trash2 className="h-4 w-4 text-red-400" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              {role.description && (
+                <p className="text-xs text-slate-500 font-light">
+                  {role.description}
+                </p>
+              )}
+
+              <div className="flex flex-wrap gap-1.5">
+                {role.permissions.map((permission) => (
+                  <span
+                    key={permission}
+                    className={cn(
+                      "px-2 py-1 rounded-lg text-[10px] font-mono",
+                      isWildcardPermission(permission)
+                        ? "bg-[#D4AF37]/10 text-[#D4AF37] border border-[#D4AF37]/20"
+                        : "bg-slate-100 dark:bg-white/5 text-slate-500",
+                    )}
+                  >
+                    {permission}
+                  </span>
+                ))}
+              </div>
+
+              {role.userCount !== undefined && (
+                <p className="mt-auto text-[10px] font-bold uppercase tracking-widest text-slate-400 flex items-center gap-1.5">
+                  <Users className="h-3 w-3" />
+                  {t("admin.roles.userCount", { count: role.userCount })}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <RoleEditorDialog
+        open={editorOpen}
+        onOpenChange={setEditorOpen}
+        role={editingRole}
+        onSuccess={handleSaved}
+      />
+
+      <ConfirmDialog
+        open={!!deleteTarget}
+        onOpenChange={(open) => !open && setDeleteTarget(null)}
+        title={t("admin.roles.confirmDelete", { name: deleteTarget?.name })}
+        description={t("admin.roles.confirmDeleteDesc")}
+        confirmText={t("common.delete")}
+        cancelText={t("common.cancel")}
+        variant="destructive"
+        onConfirm={() => deleteTarget && handleDelete(deleteTarget)}
+      />
+    </div>
+  );
+}
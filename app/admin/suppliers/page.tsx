@@ -0,0 +1,348 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useTranslation } from "react-i18next";
+import { useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  Search,
+  Loader2,
+  Truck,
+  ChevronLeft,
+  ChevronRight,
+  Plus,
+  Pencil,
+  Trash2,
+  ClipboardList,
+} from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { AdminErrorDisplay } from "@/components/admin/AdminErrorDisplay";
+import { SupplierEditorDialog } from "@/components/admin/inventory/SupplierEditorDialog";
+import { ForbiddenPage } from "@/components/errors/Forbidden";
+import { useSuppliers } from "@/lib/hooks/useAdminData";
+import { usePermission } from "@/lib/hooks/usePermission";
+import { PERMISSIONS } from "@/lib/constants/permissions";
+import {
+  suppliersApi,
+  type SupplierSearchParams,
+} from "@/lib/api/suppliers";
+import type { Supplier } from "@/lib/types/goods-receipt";
+import { cn } from "@/lib/utils";
+
+const DEFAULT_PARAMS: SupplierSearchParams = { page: 0, size: 20 };
+
+export default function AdminSuppliersPage() {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const { can } = usePermission();
+
+  const canManage = can(PERMISSIONS.INVENTORY_SUPPLIER_MANAGE);
+
+  const [searchKeyword, setSearchKeyword] = useState("");
+  const [searchParams, setSearchParams] =
+    useState<SupplierSearchParams>(DEFAULT_PARAMS);
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<Supplier | null>(null);
+
+  const {
+    data: result,
+    isLoading,
+    isFetching,
+    isError,
+    error,
+    refetch,
+  } = useSuppliers(searchParams);
+
+  const suppliers = result?.data || [];
+  const totalItems = result?.meta?.totalElements || 0;
+  const totalPages = result?.meta?.totalPages || 0;
+  const currentPage = searchParams.page || 0;
+  const pageSize = searchParams.size || 20;
+
+  const invalidateSuppliers = () =>
+    queryClient.invalidateQueries({ queryKey: ["admin", "suppliers"] });
+
+  const handleSearch = () => {
+    setSearchParams((prev) => ({
+      ...prev,
+      keyword: searchKeyword.trim() || undefined,
+      page: 0,
+    }));
+  };
+
+  const handlePageChange = (page: number) => {
+    setSearchParams((prev) => ({ ...prev, page }));
+  };
+
+  const openEditor = (supplier: Supplier | null) => {
+    setEditingSupplier(supplier);
+    setEditorOpen(true);
+  };
+
+  const handleSaved = async () => {
+    toast.success(
+      editingSupplier
+        ? t("admin.suppliers.updated")
+        : t("admin.suppliers.created"),
+    );
+    await invalidateSuppliers();
+  };
+
+  const handleDelete = async (supplier: Supplier) => {
+    const response = await suppliersApi.deleteSupplier(supplier.id);
+    if (response.error) {
+      toast.error(response.error.message || t("admin.suppliers.deleteFailed"));
+      return;
+    }
+    toast.success(t("admin.suppliers.deleted", { name: supplier.name }));
+    await invalidateSuppliers();
+  };
+
+  if (!can(PERMISSIONS.INVENTORY_SUPPLIER_VIEW)) {
+    return <ForbiddenPage />;
+  }
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      {/* Page Header */}
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-slate-900 dark:text-slate-100 tracking-tight">
+            {t("admin.suppliers.title")}
+          </h1>
+          <p className="text-slate-500 dark:text-slate-400 mt-1 max-w-2xl">
+            {t("admin.suppliers.subtitle")}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {can(PERMISSIONS.INVENTORY_RECEIPT_VIEW) && (
+            <Button asChild variant="outline" className="h-10 gap-2">
+              <Link href="/admin/receipts" className="no-underline">
+                <ClipboardList className="h-4 w-4" />
+                {t("admin.receipts.title")}
+              </Link>
+            </Button>
+          )}
+          {canManage && (
+            <Button
+              onClick={() => openEditor(null)}
+              className="h-10 gap-2 bg-slate-900 dark:bg-slate-100 text-white dark:text-slate-900 hover:bg-slate-800 dark:hover:bg-slate-200"
+            >
+              <Plus className="h-4 w-4" />
+              {t("admin.suppliers.createTitle")}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {isError && (
+        <AdminErrorDisplay
+          title={t("admin.suppliers.loadErrorTitle")}
+          items={[{ message: (error as Error)?.message || "" }]}
+          onRetry={() => refetch()}
+        />
+      )}
+
+      {/* Search */}
+      <div className="p-4 rounded-xl bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 shadow-sm">
+        <div className="flex flex-col lg:flex-row gap-4">
+          <div className="flex-1 relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400" />
+            <Input
+              placeholder={t("admin.suppliers.searchPlaceholder")}
+              value={searchKeyword}
+              onChange={(e) => setSearchKeyword(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleSearch()}
+              className="pl-10 h-10 bg-slate-50 dark:bg-slate-800/50 border-transparent focus:bg-white dark:focus:bg-slate-800"
+            />
+          </div>
+          <Button
+            onClick={handleSearch}
+            className="h-10 px-6 bg-slate-900 dark:bg-slate-100 text-white dark:text-slate-900 hover:bg-slate-800 dark:hover:bg-slate-200"
+          >
+            {t("common.search")}
+          </Button>
+        </div>
+      </div>
+
+      {/* Suppliers Table */}
+      <div className="bg-white dark:bg-[#0B0F1A] rounded-xl shadow-sm border border-slate-200 dark:border-slate-800 overflow-hidden">
+        {isLoading ? (
+          <div className="flex justify-center py-20">
+            <Loader2 className="h-8 w-8 animate-spin text-[#D4AF37]" />
+          </div>
+        ) : suppliers.length === 0 ? (
+          <div className="text-center py-20">
+            <div className="h-16 w-16 bg-slate-50 dark:bg-slate-800/50 rounded-full flex items-center justify-center mx-auto mb-4 text-slate-400">
+              <Truck className="h-8 w-8" />
+            </div>
+            <p className="text-slate-900 dark:text-slate-100 font-semibold">
+              {t("admin.suppliers.noResults")}
+            </p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-left border-collapse">
+              <thead>
+                <tr className="border-b border-slate-100 dark:border-slate-800 bg-slate-50/50 dark:bg-slate-800/20">
+                  <th className="px-6 py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                    {t("admin.suppliers.name")}
+                  </th>
+                  <th className="px-6 py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                    {t("admin.suppliers.contact")}
+                  </th>
+                  <th className="px-6 py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                    {t("admin.suppliers.taxCode")}
+                  </th>
+                  <th className="px-6 py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest text-center">
+                    {t("admin.suppliers.status")}
+                  </th>
+                  {canManage && (
+                    <th className="px-6 py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest text-right">
+                      {t("admin.suppliers.actions")}
+                    </th>
+                  )}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+                {suppliers.map((supplier) => (
+                  <tr
+                    key={supplier.id}
+                    className="align-top hover:bg-slate-50/50 dark:hover:bg-slate-800/30 transition-colors"
+                  >
+                    <td className="px-6 py-4 max-w-[280px]">
+                      <p className="text-sm font-medium text-slate-900 dark:text-slate-100">
+                        {supplier.name}
+                      </p>
+                      {supplier.address && (
+                        <p className="text-xs text-slate-400 truncate">
+                          {supplier.address}
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="flex flex-col text-sm text-slate-600 dark:text-slate-300">
+                        {supplier.contactName && <span>{supplier.contactName}</span>}
+                        {supplier.email && (
+                          <span className="text-xs text-slate-400">{supplier.email}</span>
+                        )}
+                        {supplier.phone && (
+                          <span className="text-xs text-slate-400">{supplier.phone}</span>
+                        )}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 text-xs font-mono text-slate-500">
+                      {supplier.taxCode || "—"}
+                    </td>
+                    <td className="px-6 py-4 text-center">
+                      <span
+                        className={cn(
+                          "inline-flex px-2 py-0.5 rounded-full border text-[10px] font-bold uppercase tracking-wider",
+                          supplier.active
+                            ? "bg-emerald-50 text-emerald-700 border-emerald-200 dark:bg-emerald-500/10 dark:text-emerald-400 dark:border-emerald-500/20"
+                            : "bg-slate-50 text-slate-500 border-slate-200 dark:bg-slate-500/10 dark:text-slate-400 dark:border-slate-500/20",
+                        )}
+                      >
+                        {supplier.active
+                          ? t("admin.suppliers.activeStatus")
+                          : t("admin.suppliers.inactiveStatus")}
+                      </span>
+                    </td>
+                    {canManage && (
+                      <td className="px-6 py-4">
+                        <div className="flex items-center justify-end gap-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => openEditor(supplier)}
+                            title={t("common.edit")}
+                            className="h-8 w-8 p-0"
+                          >
+                            <Pencil className="h-4 w-4 text-slate-400" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setDeleteTarget(supplier)}
+                            title={t("common.delete")}
+                            className="h-8 w-8 p-0 text-red-600 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-500/10"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Pagination */}
+      {!isLoading && totalPages > 1 && (
+        <div className="flex flex-col sm:flex-row items-center justify-between gap-4 px-6 py-4 bg-white dark:bg-[#0B0F1A] rounded-xl border border-slate-200 dark:border-slate-800 shadow-sm">
+          <span className="text-sm text-slate-500 font-medium">
+            {t("admin.suppliers.showingXToYOfZ", {
+              start: currentPage * pageSize + 1,
+              end: Math.min((currentPage + 1) * pageSize, totalItems),
+              total: totalItems,
+            })}
+          </span>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handlePageChange(currentPage - 1)}
+              disabled={currentPage <= 0 || isFetching}
+              className="h-9 px-4"
+            >
+              <ChevronLeft className="h-4 w-4 mr-1" />
+              {t("common.previous")}
+            </Button>
+            <span className="text-sm font-medium text-slate-700 dark:text-slate-300 min-w-[80px] text-center">
+              {t("common.pagination.page", {
+                current: currentPage + 1,
+                total: totalPages,
+              })}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handlePageChange(currentPage + 1)}
+              disabled={currentPage + 1 >= totalPages || isFetching}
+              className="h-9 px-4"
+            >
+              {t("common.next")}
+              <ChevronRight className="h-4 w-4 ml-1" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <SupplierEditorDialog
+        open={editorOpen}
+        onOpenChange={setEditorOpen}
+        supplier={editingSupplier}
+        onSuccess={handleSaved}
+      />
+
+      <ConfirmDialog
+        open={!!deleteTarget}
+        onOpenChange={(open) => !open && setDeleteTarget(null)}
+        title={t("admin.suppliers.confirmDelete", { name: deleteTarget?.name })}
+        description={t("admin.suppliers.confirmDeleteDesc")}
+        confirmText={t("common.delete")}
+        cancelText={t("common.cancel")}
+        variant="destructive"
+        onConfirm={() => deleteTarget && handleDelete(deleteTarget)}
+      />
+    </div>
+  );
+}
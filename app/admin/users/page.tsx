@@ -1,171 +1,285 @@
 'use client';
 
 import { useState } from "react";
-import { 
-  Search, 
-  UserPlus, 
-  MoreVertical, 
-  Shield, 
-  Mail, 
-  Calendar, 
-  MoreHorizontal,
-  Plus,
-  Filter,
-  ArrowUpDown,
+import Link from "next/link";
+import { useQueryClient } from "@tanstack/react-query";
+import {
+  Search,
+  Shield,
+  Mail,
+  Calendar,
   UserCheck,
   UserMinus,
   Loader2,
   Clock,
-  CheckCircle
+  ChevronLeft,
+  ChevronRight,
+  RefreshCw,
+  X,
+  KeyRound,
 } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AdminErrorDisplay } from "@/components/admin/AdminErrorDisplay";
+import { AssignRolesDialog } from "@/components/admin/users/AssignRolesDialog";
+import { LockUserDialog } from "@/components/admin/users/LockUserDialog";
+import { ForbiddenPage } from "@/components/errors/Forbidden";
 import { cn } from "@/lib/utils";
+import { formatDate } from "@/lib/utils/order-formatters";
 import { useTranslation } from "react-i18next";
 import { toast } from "sonner";
+import { useAppSelector } from "@/lib/store/hooks";
+import { usePermission } from "@/lib/hooks/usePermission";
+import { PERMISSIONS } from "@/lib/constants/permissions";
+import { useAdminUsers, useAdminRoles } from "@/lib/hooks/useAdminData";
+import {
+  adminUsersApi,
+  AdminUser,
+  AdminUserSearchParams,
+  UserAccountStatus,
+} from "@/lib/api/admin-users";
 
-interface User {
-  id: string;
-  name: string;
-  email: string;
-  role: 'ADMIN' | 'MANAGER' | 'STAFF';
-  status: 'active' | 'inactive';
-  joinedDate: string;
-  lastActive: string;
-  avatar?: string;
-}
+const ACCOUNT_STATUSES: UserAccountStatus[] = ["ACTIVE", "LOCKED", "PENDING"];
 
-const mockUsers: User[] = [
-  {
-    id: "1",
-    name: "Alexander Vance",
-    email: "alexander.v@aurea.luxury",
-    role: "ADMIN",
-    status: "active",
-    joinedDate: "2024-01-15",
-    lastActive: "2 minutes ago"
-  },
-  {
-    id: "2",
-    name: "Isabella Moretti",
-    email: "isabella.m@aurea.luxury",
-    role: "MANAGER",
-    status: "active",
-    joinedDate: "2024-02-20",
-    lastActive: "1 hour ago"
-  },
-  {
-    id: "3",
-    name: "Julian Thorne",
-    email: "julian.t@aurea.luxury",
-    role: "STAFF",
-    status: "inactive",
-    joinedDate: "2024-03-10",
-    lastActive: "Dec 12, 2023"
-  },
-  {
-    id: "4",
-    name: "Sienna Calloway",
-    email: "sienna.c@aurea.luxury",
-    role: "STAFF",
-    status: "active",
-    joinedDate: "2024-04-05",
-    lastActive: "Just now"
-  },
-];
+const DEFAULT_PARAMS: AdminUserSearchParams = {
+  page: 0,
+  size: 20,
+  sort: "newest",
+  status: "ALL",
+  role: "ALL",
+};
 
 export default function AdminUsersPage() {
   const { t } = useTranslation();
-  const [searchQuery, setSearchQuery] = useState("");
-  const [users] = useState<User[]>(mockUsers);
-  const [isLoading, setIsLoading] = useState(false);
+  const queryClient = useQueryClient();
+  const { can } = usePermission();
+  const currentUser = useAppSelector((state) => state.auth.user);
 
-  const filteredUsers = users.filter((user) =>
-    user.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    user.email.toLowerCase().includes(searchQuery.toLowerCase())
-  );
+  const canUpdateUsers = can(PERMISSIONS.IAM_USER_UPDATE);
+  const canAssignRoles = can(PERMISSIONS.IAM_ROLE_ASSIGN);
+  const canViewRoles = can(PERMISSIONS.IAM_ROLE_VIEW);
+
+  const [searchKeyword, setSearchKeyword] = useState("");
+  const [searchParams, setSearchParams] =
+    useState<AdminUserSearchParams>(DEFAULT_PARAMS);
+  const [lockTarget, setLockTarget] = useState<AdminUser | null>(null);
+  const [roleTarget, setRoleTarget] = useState<AdminUser | null>(null);
+  const [isSavingRoles, setIsSavingRoles] = useState(false);
+
+  const {
+    data: result,
+    isLoading,
+    isFetching,
+    isError,
+    error,
+    refetch,
+  } = useAdminUsers(searchParams);
+  const { data: roles = [] } = useAdminRoles(canViewRoles || canAssignRoles);
+
+  const users = result?.data || [];
+  const totalItems = result?.meta?.totalElements || 0;
+  const totalPages = result?.meta?.totalPages || 0;
+  const currentPage = searchParams.page || 0;
+  const pageSize = searchParams.size || 20;
+
+  const hasActiveFilters =
+    !!searchParams.keyword ||
+    searchParams.status !== "ALL" ||
+    searchParams.role !== "ALL";
 
-  const getRoleLabel = (role: string) => {
-    switch (role) {
-      case 'ADMIN': return t("admin.users.roles.admin");
-      case 'MANAGER': return t("admin.users.roles.manager");
-      default: return t("admin.users.roles.staff");
+  const updateFilters = (patch: Partial<AdminUserSearchParams>) => {
+    setSearchParams((prev) => ({ ...prev, ...patch, page: 0 }));
+  };
+
+  const handleSearch = () => {
+    updateFilters({ keyword: searchKeyword.trim() || undefined });
+  };
+
+  const handleClearFilters = () => {
+    setSearchKeyword("");
+    setSearchParams(DEFAULT_PARAMS);
+  };
+
+  const handlePageChange = (page: number) => {
+    setSearchParams((prev) => ({ ...prev, page }));
+  };
+
+  const invalidateUsers = () =>
+    queryClient.invalidateQueries({ queryKey: ["admin", "users"] });
+
+  const getRoleName = (code: string) =>
+    roles.find((role) => role.code === code)?.name || code;
+
+  const handleLock = async (user: AdminUser, reason?: string) => {
+    const response = await adminUsersApi.lockUser(user.id, { reason });
+    if (response.error) {
+      toast.error(response.error.message || t("admin.users.lockFailed"));
+      return;
     }
+    toast.success(t("admin.users.locked", { name: user.fullName }));
+    await invalidateUsers();
   };
 
-  const getRoleIcon = (role: string) => {
-    switch (role) {
-      case 'ADMIN': return <Shield className="h-3.5 w-3.5" />;
-      case 'MANAGER': return <UserCheck className="h-3.5 w-3.5" />;
-      default: return <UserPlus className="h-3.5 w-3.5" />;
+  const handleUnlock = async (user: AdminUser) => {
+    const response = await adminUsersApi.unlockUser(user.id);
+    if (response.error) {
+      toast.error(response.error.message || t("admin.users.unlockFailed"));
+      return;
     }
+    toast.success(t("admin.users.unlocked", { name: user.fullName }));
+    await invalidateUsers();
   };
 
+  const handleAssignRoles = async (roleCodes: string[]) => {
+    if (!roleTarget) return;
+    setIsSavingRoles(true);
+    try {
+      const response = await adminUsersApi.assignRoles(roleTarget.id, {
+        roles: roleCodes,
+      });
+      if (response.error) {
+        toast.error(
+          response.error.message || t("admin.users.assignRolesFailed"),
+        );
+        return;
+      }
+      toast.success(
+        t("admin.users.rolesUpdated", { name: roleTarget.fullName }),
+      );
+      setRoleTarget(null);
+      await invalidateUsers();
+    } finally {
+      setIsSavingRoles(false);
+    }
+  };
+
+  if (!can(PERMISSIONS.IAM_USER_VIEW)) {
+    return <ForbiddenPage />;
+  }
+
   return (
     <div className="max-w-7xl mx-auto space-y-10 pb-20 px-4">
       {/* Page Header */}
       <div className="flex flex-col md:flex-row md:items-end justify-between gap-6 pt-6">
         <div>
           <h1 className="text-4xl font-light tracking-tight text-slate-900 dark:text-slate-100 mb-2">
-            Staff Directory
+            {t("admin.users.title")}
           </h1>
           <p className="text-slate-500 dark:text-slate-400 max-w-2xl font-light">
-            Manage your elite team of administrators and curators. Control access levels 
-            to preserve store integrity.
+            {t("admin.users.subtitle")}
           </p>
         </div>
-        
+
         <div className="flex items-center gap-3">
-            <Button variant="outline" className="rounded-2xl border-slate-200 dark:border-slate-800 h-14 px-6 border-2 font-light">
-                <Mail className="h-4 w-4 mr-2" />
-                Audit Logs
-            </Button>
-            <Button className="bg-slate-900 dark:bg-[#D4AF37] text-white hover:opacity-90 px-8 h-14 rounded-2xl text-lg font-light transition-all shadow-xl shadow-slate-900/10 dark:shadow-[#D4AF37]/5">
-                <Plus className="h-5 w-5 mr-2" />
-                Invite Member
+          <Button
+            variant="outline"
+            onClick={() => refetch()}
+            disabled={isFetching}
+            className="rounded-2xl border-slate-200 dark:border-slate-800 h-14 px-6 border-2 font-light"
+          >
+            <RefreshCw className={cn("h-4 w-4 mr-2", isFetching && "animate-spin")} />
+            {t("common.refresh")}
+          </Button>
+          {canViewRoles && (
+            <Button
+              asChild
+              className="bg-slate-900 dark:bg-[#D4AF37] text-white hover:opacity-90 px-8 h-14 rounded-2xl text-lg font-light transition-all shadow-xl shadow-slate-900/10 dark:shadow-[#D4AF37]/5"
+            >
+              <Link href="/admin/roles" className="no-underline">
+                <KeyRound className="h-5 w-5 mr-2" />
+                {t("admin.users.manageRoles")}
+              </Link>
             </Button>
+          )}
         </div>
       </div>
 
-      {/* Stats Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-        {[
-            { label: "Active Curators", value: users.filter(u => u.status === 'active').length, icon: UserCheck, color: "text-green-600 bg-green-500/10" },
-            { label: "Privileged Admins", value: users.filter(u => u.role === 'ADMIN').length, icon: Shield, color: "text-[#D4AF37] bg-[#D4AF37]/10" },
-            { label: "Pending Invites", value: 2, icon: Mail, color: "text-blue-600 bg-blue-500/10" },
-        ].map((stat, idx) => (
-            <div key={idx} className="bg-white dark:bg-[#111] border border-slate-200 dark:border-white/5 rounded-3xl p-6 flex items-center justify-between shadow-sm">
-                <div>
-                    <p className="text-2xl font-light text-slate-900 dark:text-slate-100">{stat.value}</p>
-                    <p className="text-[10px] uppercase tracking-widest font-bold text-slate-400">{stat.label}</p>
-                </div>
-                <div className={cn("h-12 w-12 rounded-2xl flex items-center justify-center", stat.color)}>
-                    <stat.icon className="h-6 w-6" />
-                </div>
-            </div>
-        ))}
-      </div>
+      {/* Error */}
+      <AnimatePresence>
+        {isError && (
+          <motion.div
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: "auto" }}
+            exit={{ opacity: 0, height: 0 }}
+            className="overflow-hidden"
+          >
+            <AdminErrorDisplay
+              title={t("admin.users.loadErrorTitle")}
+              items={[{ message: (error as Error)?.message || "" }]}
+              onRetry={() => refetch()}
+            />
+          </motion.div>
+        )}
+      </AnimatePresence>
 
       {/* Control Bar */}
-      <div className="flex flex-col md:flex-row gap-4 items-center justify-between">
-          <div className="relative w-full md:w-96">
-            <Search className="absolute left-4 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400" />
-            <Input 
-                placeholder="Search by name, email or role..." 
-                className="pl-12 rounded-2xl border-slate-200 dark:border-slate-800 bg-white dark:bg-[#111] h-12 text-sm font-light focus:ring-[#D4AF37]"
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-            />
-          </div>
-          <div className="flex items-center gap-2">
-              <Button variant="outline" size="icon" className="h-12 w-12 rounded-2xl border-slate-200 dark:border-slate-800">
-                <Filter className="h-4 w-4 text-slate-500" />
-              </Button>
-              <Button variant="outline" size="icon" className="h-12 w-12 rounded-2xl border-slate-200 dark:border-slate-800">
-                <ArrowUpDown className="h-4 w-4 text-slate-500" />
-              </Button>
-          </div>
+      <div className="flex flex-col lg:flex-row gap-4 lg:items-center justify-between">
+        <div className="relative w-full lg:w-96">
+          <Search className="absolute left-4 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400" />
+          <Input
+            placeholder={t("admin.users.searchPlaceholder")}
+            className="pl-12 rounded-2xl border-slate-200 dark:border-slate-800 bg-white dark:bg-[#111] h-12 text-sm font-light focus:ring-[#D4AF37]"
+            value={searchKeyword}
+            onChange={(e) => setSearchKeyword(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleSearch()}
+          />
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Select
+            value={searchParams.status || "ALL"}
+            onValueChange={(value) =>
+              updateFilters({ status: value as UserAccountStatus | "ALL" })
+            }
+          >
+            <SelectTrigger className="w-[160px] h-12 rounded-2xl border-slate-200 dark:border-slate-800">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="ALL">{t("admin.users.allStatuses")}</SelectItem>
+              {ACCOUNT_STATUSES.map((status) => (
+                <SelectItem key={status} value={status}>
+                  {t(`admin.users.statuses.${status}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {roles.length > 0 && (
+            <Select
+              value={searchParams.role || "ALL"}
+              onValueChange={(value) => updateFilters({ role: value })}
+            >
+              <SelectTrigger className="w-[180px] h-12 rounded-2xl border-slate-200 dark:border-slate-800">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="ALL">{t("admin.users.allRoles")}</SelectItem>
+                {roles.map((role) => (
+                  <SelectItem key={role.id} value={role.code}>
+                    {role.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {hasActiveFilters && (
+            <Button
+              variant="ghost"
+              onClick={handleClearFilters}
+              className="h-12 gap-1 rounded-2xl text-slate-500 hover:text-slate-900 dark:hover:text-slate-100"
+            >
+              <X className="h-4 w-4" />
+              {t("common.clear")}
+            </Button>
+          )}
+        </div>
       </div>
 
       {/* Users List */}
@@ -174,11 +288,11 @@ export default function AdminUsersPage() {
           <table className="w-full">
             <thead>
               <tr className="bg-slate-50 dark:bg-white/5 border-b border-slate-100 dark:border-slate-800">
-                <th className="px-8 py-5 text-left text-[10px] font-bold text-slate-400 uppercase tracking-widest">Team Member</th>
-                <th className="px-8 py-5 text-left text-[10px] font-bold text-slate-400 uppercase tracking-widest">Role / Designation</th>
-                <th className="px-8 py-5 text-left text-[10px] font-bold text-slate-400 uppercase tracking-widest">Activity Status</th>
-                <th className="px-8 py-5 text-left text-[10px] font-bold text-slate-400 uppercase tracking-widest">Curation Since</th>
-                <th className="px-8 py-5 text-right text-[10px] font-bold text-slate-400 uppercase tracking-widest">Actions</th>
+                <th className="px-8 py-5 text-left text-[10px] font-bold text-slate-400 uppercase tracking-widest">{t("admin.users.user")}</th>
+                <th className="px-8 py-5 text-left text-[10px] font-bold text-slate-400 uppercase tracking-widest">{t("admin.users.role")}</th>
+                <th className="px-8 py-5 text-left text-[10px] font-bold text-slate-400 uppercase tracking-widest">{t("admin.users.status")}</th>
+                <th className="px-8 py-5 text-left text-[10px] font-bold text-slate-400 uppercase tracking-widest">{t("admin.users.joinedDate")}</th>
+                <th className="px-8 py-5 text-right text-[10px] font-bold text-slate-400 uppercase tracking-widest">{t("admin.users.actions")}</th>
               </tr>
             </thead>
             <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
@@ -189,9 +303,9 @@ export default function AdminUsersPage() {
                           <Loader2 className="h-8 w-8 animate-spin mx-auto text-[#D4AF37] opacity-60" />
                       </td>
                   </tr>
-              ) : filteredUsers.length === 0 ? (
-                <motion.tr 
-                    initial={{ opacity: 0 }} 
+              ) : users.length === 0 ? (
+                <motion.tr
+                    initial={{ opacity: 0 }}
                     animate={{ opacity: 1 }}
                     className="group hover:bg-slate-50 transition-colors"
                 >
@@ -200,7 +314,7 @@ export default function AdminUsersPage() {
                         <div className="h-16 w-16 bg-slate-100 dark:bg-white/5 rounded-full flex items-center justify-center mx-auto mb-4">
                             <Search className="h-8 w-8 text-slate-300" />
                         </div>
-                        <h4 className="text-lg font-light text-slate-900 dark:text-slate-100 mb-1">No Members Found</h4>
+                        <h4 className="text-lg font-light text-slate-900 dark:text-slate-100 mb-1">{t("admin.users.noUsersFound")}</h4>
                         <p className="text-xs text-slate-500 font-light leading-relaxed">
                             {t("admin.users.noResultsDesc")}
                         </p>
@@ -208,26 +322,30 @@ export default function AdminUsersPage() {
                   </td>
                 </motion.tr>
               ) : (
-                filteredUsers.map((user, idx) => (
-                  <motion.tr 
-                    key={user.id} 
+                users.map((user, idx) => {
+                  const isSelf = !!currentUser?.email && currentUser.email === user.email;
+                  const isLocked = user.status === "LOCKED";
+
+                  return (
+                  <motion.tr
+                    key={user.id}
                     layout
                     initial={{ opacity: 0, y: 10 }}
                     animate={{ opacity: 1, y: 0, transition: { delay: idx * 0.05 } }}
-                    className="group hover:bg-slate-50/50 dark:hover:bg-white/2 transition-colors cursor-pointer"
+                    className="group hover:bg-slate-50/50 dark:hover:bg-white/2 transition-colors"
                   >
                     <td className="px-8 py-6">
                       <div className="flex items-center gap-4">
                         <div className="h-12 w-12 rounded-2xl bg-slate-100 dark:bg-[#D4AF37]/20 flex items-center justify-center text-[#D4AF37] font-medium border border-slate-200 dark:border-[#D4AF37]/10 overflow-hidden relative">
-                           {user.avatar ? <img src={user.avatar} className="object-cover h-full w-full" /> : user.name.charAt(0)}
+                           {user.avatarUrl ? <img src={user.avatarUrl} alt={user.fullName} className="object-cover h-full w-full" /> : user.fullName?.charAt(0).toUpperCase()}
                            <div className={cn(
                                "absolute bottom-1 right-1 h-3 w-3 rounded-full border-2 border-white dark:border-[#111]",
-                               user.status === 'active' ? "bg-green-500" : "bg-slate-300"
+                               user.status === 'ACTIVE' ? "bg-green-500" : isLocked ? "bg-red-400" : "bg-slate-300"
                            )} />
                         </div>
                         <div className="min-w-0">
                           <p className="text-sm font-semibold text-slate-900 dark:text-slate-100 truncate">
-                            {user.name}
+                            {user.fullName}
                           </p>
                           <p className="text-[10px] text-slate-500 dark:text-slate-400 font-light flex items-center gap-1.5 uppercase tracking-tighter">
                             <Mail className="h-3 w-3" />
@@ -237,71 +355,149 @@ export default function AdminUsersPage() {
                       </div>
                     </td>
                     <td className="px-8 py-6">
-                      <div className={cn(
-                          "inline-flex items-center gap-2 px-3 py-1.5 rounded-full text-[10px] font-bold uppercase tracking-widest",
-                          user.role === 'ADMIN' ? "bg-[#D4AF37]/10 text-[#D4AF37] border border-[#D4AF37]/20" : 
-                          user.role === 'MANAGER' ? "bg-blue-500/10 text-blue-500 border border-blue-500/20" : 
-                          "bg-slate-100 dark:bg-white/5 text-slate-500 border border-slate-200 dark:border-white/10"
-                      )}>
-                        {getRoleIcon(user.role)}
-                        {getRoleLabel(user.role)}
+                      <div className="flex flex-wrap gap-1.5">
+                        {user.roles.length === 0 ? (
+                          <span className="text-xs text-slate-400">—</span>
+                        ) : (
+                          user.roles.map((code) => (
+                            <span
+                              key={code}
+                              className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-[10px] font-bold uppercase tracking-widest bg-[#D4AF37]/10 text-[#D4AF37] border border-[#D4AF37]/20"
+                            >
+                              <Shield className="h-3 w-3" />
+                              {getRoleName(code)}
+                            </span>
+                          ))
+                        )}
                       </div>
                     </td>
                     <td className="px-8 py-6">
                         <div className="space-y-1">
-                            <p className="text-xs font-medium text-slate-900 dark:text-slate-100">
-                                {user.status === 'active' ? "Active Member" : "Suspended"}
-                            </p>
-                            <p className="text-[10px] text-slate-400 font-light flex items-center gap-1">
-                                <Clock className="h-2.5 w-2.5" />
-                                {user.lastActive}
+                            <p className={cn(
+                              "text-xs font-medium",
+                              isLocked ? "text-red-500" : "text-slate-900 dark:text-slate-100"
+                            )}>
+                                {t(`admin.users.statuses.${user.status}`)}
                             </p>
+                            {user.lastLoginAt && (
+                              <p className="text-[10px] text-slate-400 font-light flex items-center gap-1">
+                                  <Clock className="h-2.5 w-2.5" />
+                                  {formatDate(user.lastLoginAt)}
+                              </p>
+                            )}
                         </div>
                     </td>
                     <td className="px-8 py-6">
                       <div className="flex items-center gap-2 text-xs text-slate-500 dark:text-slate-400 font-light">
                         <Calendar className="h-3.5 w-3.5 text-slate-300" />
-                        {user.joinedDate}
+                        {formatDate(user.createdAt)}
                       </div>
                     </td>
                     <td className="px-8 py-6 text-right">
-                      <div className="flex items-center justify-end gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
-                        <Button variant="ghost" size="icon" className="h-10 w-10 rounded-xl hover:bg-slate-100 dark:hover:bg-white/5">
-                          <Mail className="h-4 w-4 text-slate-400" />
-                        </Button>
-                        <Button variant="ghost" size="icon" className="h-10 w-10 rounded-xl hover:bg-slate-100 dark:hover:bg-white/5">
-                          <UserMinus className="h-4 w-4 text-red-400" />
-                        </Button>
-                        <Button variant="ghost" size="icon" className="h-10 w-10 rounded-xl hover:bg-slate-100 dark:hover:bg-white/5">
-                          <MoreHorizontal className="h-4 w-4 text-slate-400" />
-                        </Button>
+                      <div className="flex items-center justify-end gap-2">
+                        {canAssignRoles && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title={t("admin.users.assignRoles")}
+                            onClick={() => setRoleTarget(user)}
+                            className="h-10 w-10 rounded-xl hover:bg-slate-100 dark:hover:bg-white/5"
+                          >
+                            <Shield className="h-4 w-4 text-slate-400" />
+                          </Button>
+                        )}
+                        {canUpdateUsers && !isSelf && (
+                          isLocked ? (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title={t("admin.users.unlock")}
+                              onClick={() => handleUnlock(user)}
+                              className="h-10 w-10 rounded-xl hover:bg-slate-100 dark:hover:bg-white/5"
+                            >
+                              <UserCheck className="h-4 w-4 text-green-500" />
+                            </Button>
+                          ) : (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title={t("admin.users.lock")}
+                              onClick={() => setLockTarget(user)}
+                              className="h-10 w-10 rounded-xl hover:bg-slate-100 dark:hover:bg-white/5"
+                            >
+                              <UserMinus className="h-4 w-4 text-red-400" />
+                            </Button>
+                          )
+                        )}
                       </div>
                     </td>
                   </motion.tr>
-                ))
+                  );
+                })
               )}
               </AnimatePresence>
             </tbody>
           </table>
         </div>
-        
-        {/* Pagination/Status Footer */}
-        <div className="p-6 bg-slate-50/50 dark:bg-white/5 border-t border-slate-100 dark:border-slate-800 flex items-center justify-between">
+
+        {/* Pagination */}
+        {!isLoading && totalItems > 0 && (
+          <div className="p-6 bg-slate-50/50 dark:bg-white/5 border-t border-slate-100 dark:border-slate-800 flex flex-col sm:flex-row items-center justify-between gap-4">
             <span className="text-[10px] font-bold uppercase tracking-widest text-slate-400">
-                AUREA INTERNAL STAFF INFRASTRUCTURE
+              {t("admin.users.showingXToYOfZ", {
+                start: currentPage * pageSize + 1,
+                end: Math.min((currentPage + 1) * pageSize, totalItems),
+                total: totalItems,
+              })}
             </span>
-            <div className="flex items-center gap-6">
-                <div className="flex items-center gap-2">
-                    <span className="h-1.5 w-1.5 rounded-full bg-green-500 shadow-[0_0_8px_rgba(34,197,94,0.4)]" />
-                    <span className="text-[10px] font-bold uppercase tracking-widest text-slate-500">Security: Stable</span>
-                </div>
-                <div className="flex items-center gap-2">
-                    <CheckCircle className="h-3 w-3 text-blue-500" />
-                    <span className="text-[10px] font-bold uppercase tracking-widest text-slate-500">Sync Configured</span>
-                </div>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handlePageChange(currentPage - 1)}
+                disabled={currentPage <= 0 || isFetching}
+                className="h-9 px-4 rounded-xl"
+              >
+                <ChevronLeft className="h-4 w-4 mr-1" />
+                {t("common.previous")}
+              </Button>
+              <span className="text-sm font-medium text-slate-700 dark:text-slate-300 min-w-[80px] text-center">
+                {t("common.pagination.page", {
+                  current: currentPage + 1,
+                  total: totalPages || 1,
+                })}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handlePageChange(currentPage + 1)}
+                disabled={currentPage + 1 >= totalPages || isFetching}
+                className="h-9 px-4 rounded-xl"
+              >
+                {t("common.next")}
+                <ChevronRight className="h-4 w-4 ml-1" />
+              </Button>
             </div>
-        </div>
+          </div>
+        )}
       </div>
+
+      <LockUserDialog
+        open={!!lockTarget}
+        onOpenChange={(open) => !open && setLockTarget(null)}
+        user={lockTarget}
+        onConfirm={(reason) => lockTarget && handleLock(lockTarget, reason)}
+      />
+
+      <AssignRolesDialog
+        key={roleTarget?.id}
+        open={!!roleTarget}
+        onOpenChange={(open) => !open && setRoleTarget(null)}
+        user={roleTarget}
+        roles={roles}
+        isSaving={isSavingRoles}
+        onSubmit={handleAssignRoles}
+      />
     </div>
   );
 }
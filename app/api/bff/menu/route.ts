@@ -0,0 +1,148 @@
+import { NextResponse } from "next/server";
+import type { CategoryResponse, ProductListingDto } from "@/lib/types/product";
+
+const API_BASE_URL =
+  process.env.NEXT_PUBLIC_API_URL || "http://localhost:8080";
+
+/** Columns shown per top item; deeper/extra categories stay reachable from /shop */
+const MAX_COLUMNS = 4;
+const MAX_LINKS_PER_COLUMN = 6;
+
+export interface MegaMenuLink {
+  label: string;
+  href: string;
+}
+
+export interface MegaMenuColumn {
+  title: string;
+  href: string;
+  links: MegaMenuLink[];
+  /** Newest product of the column's category, if it has one with an image */
+  featured: { name: string; href: string; image: string } | null;
+}
+
+export interface MegaMenuItem {
+  label: string;
+  href: string;
+  columns: MegaMenuColumn[];
+}
+
+export interface MegaMenuData {
+  items: MegaMenuItem[];
+}
+
+const categoryHref = (category: CategoryResponse) =>
+  `/shop?category=${encodeURIComponent(category.slug)}`;
+
+const activeChildren = (category: CategoryResponse) =>
+  (category.children || []).filter((child) => child.isActive !== false);
+
+async function fetchFeaturedProduct(category: CategoryResponse) {
+  const params = new URLSearchParams({
+    page: "1",
+    size: "1",
+    sort: "newest",
+    categoryId: category.id,
+  });
+  const response = await fetch(
+    `${API_BASE_URL}/api/v1/products?${params.toString()}`,
+    {
+      headers: { "Content-Type": "application/json" },
+      next: {
+        revalidate: 300, // Same lifetime as the category tree it belongs to
+        tags: ["categories", "products"],
+      },
+    }
+  );
+  if (!response.ok) return null;
+
+  const data = await response.json();
+  const product: ProductListingDto | undefined = data?.data?.[0];
+  if (!product?.thumbnail) return null;
+
+  return {
+    name: product.name,
+    href: `/product/${product.slug}-i.${product.id}`,
+    image: product.thumbnail,
+  };
+}
+
+/**
+ * BFF Endpoint: Navbar Mega Menu
+ *
+ * Builds the storefront menu from the live category tree:
+ * - Active root categories become top items
+ * - Their active children become columns, listing the grandchildren as links
+ * - Each column shows the newest product of its category as a featured image
+ *
+ * Every backend fetch is tagged "categories", so
+ * POST /api/revalidate?tag=categories rebuilds the menu.
+ */
+export async function GET() {
+  try {
+    const categoriesResponse = await fetch(
+      `${API_BASE_URL}/api/v1/categories`,
+      {
+        headers: { "Content-Type": "application/json" },
+        next: {
+          revalidate: 300, // 5 minutes
+          tags: ["categories"],
+        },
+      }
+    );
+
+    const categoriesData = await categoriesResponse.json();
+    if (!categoriesResponse.ok) {
+      console.error("[BFF Menu] Categories fetch failed:", categoriesData.error);
+      return NextResponse.json<MegaMenuData>(
+        { items: [] },
+        { status: categoriesResponse.status }
+      );
+    }
+
+    const categories: CategoryResponse[] =
+      categoriesData?.data?.data || categoriesData?.data || [];
+    const roots = categories.filter((category) => category.isActive !== false);
+
+    // Featured images for every column in parallel (no waterfall)
+    const items = await Promise.all(
+      roots.map(async (root): Promise<MegaMenuItem> => ({
+        label: root.name,
+        href: categoryHref(root),
+        columns: await Promise.all(
+          activeChildren(root)
+            .slice(0, MAX_COLUMNS)
+            .map(async (child) => ({
+              title: child.name,
+              href: categoryHref(child),
+              links: activeChildren(child)
+                .slice(0, MAX_LINKS_PER_COLUMN)
+                .map((grandchild) => ({
+                  label: grandchild.name,
+                  href: categoryHref(grandchild),
+                })),
+              // A missing image must not take the whole menu down
+              featured: await fetchFeaturedProduct(child).catch(() => null),
+            }))
+        ),
+      }))
+    );
+
+    return NextResponse.json<MegaMenuData>(
+      { items },
+      {
+        status: 200,
+        headers: {
+          // Kept short so a tag revalidation reaches the CDN copy quickly too
+          "Cache-Control": "public, s-maxage=30, stale-while-revalidate=120",
+        },
+      }
+    );
+  } catch (error) {
+    console.error("[BFF Menu] Error:", error);
+    return NextResponse.json(
+      { error: { message: (error as Error).message || "Failed to build menu" }, items: [] },
+      { status: 500 }
+    );
+  }
+}
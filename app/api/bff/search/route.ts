@@ -0,0 +1,188 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { CategoryResponse, ProductListingDto } from "@/lib/types/product";
+import { foldSearchText, scoreSearchMatch } from "@/lib/utils/search";
+
+const API_BASE_URL =
+  process.env.NEXT_PUBLIC_API_URL || "http://localhost:8080";
+
+const MAX_PRODUCT_HITS = 6;
+const MAX_CATEGORY_HITS = 4;
+/**
+ * Recent products matched locally when the backend keyword search misses accents
+ * Older products are only found through the backend keyword queries
+ */
+const CATALOG_WINDOW_SIZE = 100;
+
+export type SearchProductHit = Pick<
+  ProductListingDto,
+  "id" | "name" | "slug" | "thumbnail" | "price" | "minPrice" | "discountPrice" | "categoryName"
+>;
+
+export interface SearchCategoryHit {
+  id: string;
+  name: string;
+  slug: string;
+  /** Ancestor names, root first */
+  path: string[];
+}
+
+export interface SearchSuggestions {
+  query: string;
+  products: SearchProductHit[];
+  categories: SearchCategoryHit[];
+}
+
+async function fetchJson(url: string, next: NextFetchRequestConfig) {
+  const response = await fetch(url, {
+    headers: { "Content-Type": "application/json" },
+    next,
+  });
+  if (!response.ok) return null;
+  return response.json();
+}
+
+function matchCategories(
+  categories: CategoryResponse[],
+  foldedQuery: string,
+  path: string[] = []
+): { hit: SearchCategoryHit; score: number }[] {
+  return categories.flatMap((category) => {
+    if (category.isActive === false) return [];
+    const score = scoreSearchMatch(category.name, foldedQuery);
+    const own = score
+      ? [{ hit: { id: category.id, name: category.name, slug: category.slug, path }, score }]
+      : [];
+    return [
+      ...own,
+      ...matchCategories(category.children || [], foldedQuery, [...path, category.name]),
+    ];
+  });
+}
+
+const toProductHit = (product: ProductListingDto): SearchProductHit => ({
+  id: product.id,
+  name: product.name,
+  slug: product.slug,
+  thumbnail: product.thumbnail,
+  price: product.price,
+  minPrice: product.minPrice,
+  discountPrice: product.discountPrice,
+  categoryName: product.categoryName,
+});
+
+/**
+ * BFF Endpoint: Instant Search Suggestions
+ *
+ * Powers the navbar typeahead:
+ * 1. Product hits from the backend keyword search (short cache), run for the
+ *    query as typed and, when it has accents, for its folded form as well
+ * 2. Plus accent-insensitive matches from a cached window of recent products,
+ *    so "ao thun" still finds "Áo thun" when the backend match is exact
+ * 3. Category hits from the cached category tree
+ *
+ * Unaccented queries only reach accented names within the recent-products window;
+ * matching the whole catalog that way needs accent folding in the backend search
+ *
+ * Query params supported:
+ * - q (required, at least 2 characters)
+ */
+export async function GET(request: NextRequest) {
+  const query = (request.nextUrl.searchParams.get("q") || "").trim();
+  const foldedQuery = foldSearchText(query);
+
+  if (foldedQuery.length < 2) {
+    return NextResponse.json<SearchSuggestions>({ query, products: [], categories: [] });
+  }
+
+  try {
+    const keywordUrl = (keyword: string) =>
+      `${API_BASE_URL}/api/v1/products?${new URLSearchParams({
+        page: "1",
+        size: String(MAX_PRODUCT_HITS),
+        sort: "newest",
+        keyword,
+      }).toString()}`;
+    // Only worth a second request when folding changed more than letter case
+    const hasAccents = foldedQuery !== query.toLowerCase().replace(/\s+/g, " ");
+
+    const [categoriesData, keywordData, foldedKeywordData, catalogData] = await Promise.all([
+      fetchJson(`${API_BASE_URL}/api/v1/categories`, {
+        revalidate: 300, // 5 minutes
+        tags: ["categories"],
+      }),
+      fetchJson(keywordUrl(query), {
+        revalidate: 30,
+        tags: ["products"],
+      }),
+      hasAccents
+        ? fetchJson(keywordUrl(foldedQuery), {
+            revalidate: 30,
+            tags: ["products"],
+          })
+        : null,
+      fetchJson(
+        `${API_BASE_URL}/api/v1/products?page=1&size=${CATALOG_WINDOW_SIZE}&sort=newest`,
+        {
+          revalidate: 300,
+          tags: ["products"],
+        }
+      ),
+    ]);
+
+    const categories: CategoryResponse[] =
+      categoriesData?.data?.data || categoriesData?.data || [];
+    const catalogProducts: ProductListingDto[] = catalogData?.data || [];
+
+    // Backend hits keep their order; local matches fill the rest by relevance
+    const seen = new Set<string>();
+    const keywordProducts = [
+      ...((keywordData?.data || []) as ProductListingDto[]),
+      ...((foldedKeywordData?.data || []) as ProductListingDto[]),
+    ].filter((product) => {
+      if (seen.has(product.id)) return false;
+      seen.add(product.id);
+      return true;
+    });
+    const localMatches = catalogProducts
+      .filter((product) => !seen.has(product.id))
+      .map((product) => ({
+        product,
+        score: Math.max(
+          scoreSearchMatch(product.name, foldedQuery),
+          scoreSearchMatch(product.categoryName, foldedQuery) && 1
+        ),
+      }))
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score)
+      .map(({ product }) => product);
+
+    const suggestions: SearchSuggestions = {
+      query,
+      products: [...keywordProducts, ...localMatches]
+        .slice(0, MAX_PRODUCT_HITS)
+        .map(toProductHit),
+      categories: matchCategories(categories, foldedQuery)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, MAX_CATEGORY_HITS)
+        .map(({ hit }) => hit),
+    };
+
+    return NextResponse.json(suggestions, {
+      status: 200,
+      headers: {
+        "Cache-Control": "public, s-maxage=30, stale-while-revalidate=120",
+      },
+    });
+  } catch (error) {
+    console.error("[BFF Search] Error:", error);
+    return NextResponse.json(
+      {
+        error: { message: (error as Error).message || "Failed to search" },
+        query,
+        products: [],
+        categories: [],
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,27 @@
 import { NextRequest, NextResponse } from "next/server";
+import type { ProductListingDto } from "@/lib/types/product";
+import {
+  buildShopFacets,
+  EMPTY_SHOP_FACETS,
+  pruneFacetSelection,
+  type FacetSelection,
+  type ShopFacets,
+} from "@/lib/utils/shop-facets";
 
 const API_BASE_URL =
   process.env.NEXT_PUBLIC_API_URL || "http://localhost:8080";
 
+/** Products in scope (keyword + category) used to count facets */
+const FACET_WINDOW_SIZE = 100;
+
+const parseList = (value: string | null) =>
+  (value || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+const parsePrice = (value: string) => (value && !isNaN(Number(value)) ? Number(value) : null);
+
 export interface ShopPageData {
   products: any[];
   categories: any[];
@@ -12,6 +31,7 @@ export interface ShopPageData {
     totalElements: number;
     totalPages: number;
   };
+  facets: ShopFacets;
 }
 
 /**
@@ -22,9 +42,13 @@ export interface ShopPageData {
  * 2. Resolves categorySlug → categoryId server-side (eliminates client waterfall)
  * 3. Caches categories for 5 minutes (rarely change)
  * 4. Products cached for 30 seconds with stale-while-revalidate
+ * 5. Facet counts (sizes, colors, brands, price histogram, in stock) computed
+ *    from a cached window of the keyword/category scope; selected values that
+ *    no product in scope has are dropped before querying products
  *
  * Query params supported:
  * - page, size, sort, keyword, category (slug), minPrice, maxPrice
+ * - sizes, colors, brands (comma-separated), inStock
  */
 export async function GET(request: NextRequest) {
   try {
@@ -38,6 +62,13 @@ export async function GET(request: NextRequest) {
     const categorySlug = url.searchParams.get("category") || "";
     const minPrice = url.searchParams.get("minPrice") || "";
     const maxPrice = url.searchParams.get("maxPrice") || "";
+    const requestedSelection: FacetSelection = {
+      sizes: parseList(url.searchParams.get("sizes")),
+      colors: parseList(url.searchParams.get("colors")),
+      brands: parseList(url.searchParams.get("brands")),
+      priceRange: [parsePrice(minPrice), parsePrice(maxPrice)],
+      inStock: url.searchParams.get("inStock") === "true",
+    };
 
     // First, fetch categories (cached for 5 min) - we need this to resolve slug
     const categoriesResponse = await fetch(
@@ -76,6 +107,36 @@ export async function GET(request: NextRequest) {
       }
     }
 
+    // Facet window: the keyword/category scope without the facet filters
+    const scopeParams = new URLSearchParams();
+    scopeParams.set("page", "1");
+    scopeParams.set("size", String(FACET_WINDOW_SIZE));
+    scopeParams.set("sort", "newest");
+    if (keyword) scopeParams.set("keyword", keyword);
+    if (categoryId) scopeParams.set("categoryId", categoryId);
+
+    const scopeResponse = await fetch(
+      `${API_BASE_URL}/api/v1/products?${scopeParams.toString()}`,
+      {
+        headers: { "Content-Type": "application/json" },
+        next: {
+          revalidate: 60,
+          tags: ["products"],
+        },
+      }
+    );
+    const scopeData = scopeResponse.ok ? await scopeResponse.json() : null;
+    const scopeProducts: ProductListingDto[] = scopeData?.data || [];
+    const sampled = (scopeData?.meta?.totalElements ?? 0) > scopeProducts.length;
+
+    // With the whole scope loaded, values no product has can only empty the result
+    const selection = sampled
+      ? requestedSelection
+      : pruneFacetSelection(scopeProducts, requestedSelection);
+    const facets = scopeData
+      ? buildShopFacets(scopeProducts, selection, sampled)
+      : EMPTY_SHOP_FACETS;
+
     // Build products query
     const productParams = new URLSearchParams();
     productParams.set("page", page);
@@ -85,6 +146,11 @@ export async function GET(request: NextRequest) {
     if (categoryId) productParams.set("categoryId", categoryId);
     if (minPrice) productParams.set("minPrice", minPrice);
     if (maxPrice) productParams.set("maxPrice", maxPrice);
+    // "size" is the page size, so the size facet goes as sizeFilter
+    if (selection.sizes.length) productParams.set("sizeFilter", selection.sizes.join(","));
+    if (selection.colors.length) productParams.set("color", selection.colors.join(","));
+    if (selection.brands.length) productParams.set("brand", selection.brands.join(","));
+    if (selection.inStock) productParams.set("inStock", "true");
 
     // Fetch products with short cache (30s) for dynamic content
     const productsResponse = await fetch(
@@ -110,6 +176,7 @@ export async function GET(request: NextRequest) {
         totalElements: 0,
         totalPages: 0,
       },
+      facets,
     };
 
     return NextResponse.json(aggregatedData, {
@@ -126,6 +193,7 @@ export async function GET(request: NextRequest) {
         products: [],
         categories: [],
         meta: { page: 1, size: 12, totalElements: 0, totalPages: 0 },
+        facets: EMPTY_SHOP_FACETS,
       },
       { status: 500 }
     );
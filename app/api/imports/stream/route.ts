@@ -0,0 +1,179 @@
+import { NextRequest } from "next/server";
+import { cookies } from "next/headers";
+import { isJobFinished } from "@/lib/types/import";
+import type {
+  ImportApiResponse,
+  ImportJob,
+  PagedImportJobs,
+} from "@/lib/types/import";
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:8080";
+
+const POLL_INTERVAL = 2000;
+const HEARTBEAT_INTERVAL = 15000;
+/** Most recent jobs checked on every poll */
+const RECENT_JOBS_SIZE = 20;
+
+export const dynamic = "force-dynamic";
+
+interface Subscriber {
+  send: (event: string, data: unknown) => void;
+  close: () => void;
+}
+
+interface JobFeed {
+  subscribers: Set<Subscriber>;
+  /** Last known state of the recent jobs, replayed to new subscribers */
+  jobs: Map<number, ImportJob>;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+// One backend poller per access token, shared by every open tab of that admin
+const feeds = new Map<string, JobFeed>();
+
+async function poll(token: string, feed: JobFeed) {
+  feed.timer = null;
+
+  try {
+    const response = await fetch(
+      `${API_BASE_URL}/api/v1/admin/imports?page=0&size=${RECENT_JOBS_SIZE}&sort=createdAt,desc`,
+      {
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        cache: "no-store",
+      }
+    );
+
+    // Token refresh happens through the API proxy; the client reconnects afterwards
+    if (response.status === 401 || response.status === 403) {
+      feed.subscribers.forEach((subscriber) => {
+        subscriber.send("unauthorized", { status: response.status });
+        subscriber.close();
+      });
+      return;
+    }
+
+    const data: ImportApiResponse<PagedImportJobs> = await response.json();
+    if (!response.ok) {
+      console.error("[Import Stream] Backend error:", response.status, data);
+    } else {
+      const latest = new Map<number, ImportJob>();
+      for (const job of data.data?.content || []) {
+        const previous = feed.jobs.get(job.id);
+        // Finished jobs are only sent when they change, so clients see the transition
+        const changed = previous
+          ? JSON.stringify(previous) !== JSON.stringify(job)
+          : !isJobFinished(job.status);
+        if (changed) {
+          feed.subscribers.forEach((subscriber) => subscriber.send("job", job));
+        }
+        latest.set(job.id, job);
+      }
+      feed.jobs = latest;
+    }
+  } catch (error) {
+    console.error("[Import Stream] Poll failed:", error);
+  }
+
+  if (feed.subscribers.size > 0) {
+    feed.timer = setTimeout(() => poll(token, feed), POLL_INTERVAL);
+  }
+}
+
+function subscribe(token: string, subscriber: Subscriber) {
+  let feed = feeds.get(token);
+  if (!feed) {
+    feed = { subscribers: new Set(), jobs: new Map(), timer: null };
+    feeds.set(token, feed);
+  }
+
+  const isFirst = feed.subscribers.size === 0;
+  feed.subscribers.add(subscriber);
+
+  if (isFirst) {
+    feed.jobs.clear();
+    poll(token, feed);
+  } else {
+    feed.jobs.forEach((job) => {
+      if (!isJobFinished(job.status)) subscriber.send("job", job);
+    });
+  }
+
+  return () => {
+    const current = feeds.get(token);
+    if (!current) return;
+    current.subscribers.delete(subscriber);
+    if (current.subscribers.size === 0) {
+      if (current.timer) clearTimeout(current.timer);
+      feeds.delete(token);
+    }
+  };
+}
+
+/**
+ * Import Job Stream (Server-Sent Events)
+ *
+ * Polls the backend once per signed-in admin and relays job changes:
+ * - `job`: a running job, or a job that changed since the last poll
+ * - `unauthorized`: the access token was rejected; the stream is closed
+ */
+export async function GET(request: NextRequest) {
+  const cookieStore = await cookies();
+  const accessToken = cookieStore.get("accessToken")?.value;
+
+  const encoder = new TextEncoder();
+  // Stops the heartbeat and leaves the feed; only a server-side close also
+  // closes the controller (a cancelled stream throws on close())
+  let cleanup: (closeStream: boolean) => void = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      const write = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+
+      const subscriber: Subscriber = {
+        send: (event, data) => write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`),
+        close: () => cleanup(true),
+      };
+
+      // Comment lines keep proxies from closing an idle connection
+      const heartbeat = setInterval(() => write(": ping\n\n"), HEARTBEAT_INTERVAL);
+      let unsubscribe = () => {};
+
+      cleanup = (closeStream) => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        if (closeStream) controller.close();
+      };
+      // The client went away; cancel() follows and needs no close()
+      request.signal.addEventListener("abort", () => cleanup(false));
+
+      if (!accessToken) {
+        subscriber.send("unauthorized", { status: 401 });
+        cleanup(true);
+        return;
+      }
+
+      write("retry: 5000\n\n");
+      unsubscribe = subscribe(accessToken, subscriber);
+    },
+    cancel() {
+      cleanup(false);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  MOCK_OUTCOMES,
+  buildMockReturnParams,
+} from "@/lib/mock-payment-gateway";
+import {
+  isMockGatewayEnabled,
+  isOnlinePaymentMethod,
+} from "@/lib/utils/payment-gateway";
+import type { PaymentReturnOutcome } from "@/lib/api/payment";
+
+/**
+ * Mock Payment Gateway - Checkout Decision
+ *
+ * GET /api/mock-gateway?orderCode=ORD-1&amount=150000&method=VN_PAY&outcome=SUCCESS
+ *
+ * Redirects to /payment/return with signed callback params, mirroring how
+ * VNPay / MoMo hand the shopper back after payment.
+ * Only available when NEXT_PUBLIC_PAYMENT_GATEWAY_MOCK=true
+ */
+export async function GET(request: NextRequest) {
+  if (!isMockGatewayEnabled()) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const url = new URL(request.url);
+  const orderCode = url.searchParams.get("orderCode");
+  const amount = url.searchParams.get("amount") || "0";
+  const method = url.searchParams.get("method");
+  const outcome = url.searchParams.get("outcome") as PaymentReturnOutcome | null;
+
+  if (!orderCode || !isOnlinePaymentMethod(method) || !outcome || !MOCK_OUTCOMES.includes(outcome)) {
+    return NextResponse.json(
+      { error: "Missing or invalid orderCode, method or outcome" },
+      { status: 400 }
+    );
+  }
+
+  const returnParams = buildMockReturnParams({ orderCode, amount, method, outcome });
+  const returnUrl = new URL("/payment/return", url.origin);
+  Object.entries(returnParams).forEach(([key, value]) => {
+    returnUrl.searchParams.set(key, value);
+  });
+
+  return NextResponse.redirect(returnUrl, 303);
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { verifyMockSignature } from "@/lib/mock-payment-gateway";
+import { isMockGatewayEnabled } from "@/lib/utils/payment-gateway";
+import type { PaymentReturnOutcome, PaymentReturnResponse } from "@/lib/api/payment";
+import type { PaymentMethod, PaymentStatus } from "@/lib/types/order";
+
+const OUTCOME_PAYMENT_STATUS: Record<PaymentReturnOutcome, PaymentStatus> = {
+  SUCCESS: "PAID",
+  FAILED: "FAILED",
+  PENDING: "PENDING",
+};
+
+/**
+ * Mock Payment Gateway - Callback Verification
+ *
+ * GET /api/mock-gateway/verify?gateway=MOCK&...&signature=...
+ *
+ * Stands in for the backend's gateway return endpoint and responds with the
+ * same { data } / { error } envelope, so the return page needs no mock branches.
+ */
+export async function GET(request: NextRequest) {
+  if (!isMockGatewayEnabled()) {
+    return NextResponse.json(
+      { error: { code: "NOT_FOUND", message: "Mock gateway is disabled" } },
+      { status: 404 }
+    );
+  }
+
+  const params = Object.fromEntries(new URL(request.url).searchParams.entries());
+
+  if (!verifyMockSignature(params)) {
+    return NextResponse.json(
+      { error: { code: "PAYMENT_SIGNATURE_INVALID", message: "Invalid payment signature" } },
+      { status: 400 }
+    );
+  }
+
+  const outcome = params.outcome as PaymentReturnOutcome;
+  const data: PaymentReturnResponse = {
+    orderCode: params.orderCode,
+    paymentMethod: params.method as PaymentMethod,
+    paymentStatus: OUTCOME_PAYMENT_STATUS[outcome] ?? "FAILED",
+    outcome: outcome in OUTCOME_PAYMENT_STATUS ? outcome : "FAILED",
+    amount: Number(params.amount) || undefined,
+    transactionId: params.transactionId,
+  };
+
+  return NextResponse.json({ data });
+}
@@ -10,7 +10,6 @@ import { SettingsButton } from '@/components/ui/SettingsButton';
 import { logoutAction } from '@/app/actions/auth';
 import { clearAuth } from '@/lib/store/authSlice';
 import { cn, clearCartData } from '@/lib/utils';
-import { useCartStore } from '@/lib/store/cartStore';
 import { useTranslation } from 'react-i18next';
 import { useEffect, useState } from 'react';
 
@@ -30,12 +29,7 @@ export function NavBar() {
 
 
   const handleLogout = async () => {
-    // Clear cart state before logout to prevent data leakage to next user
-    const cartStore = useCartStore.getState();
-    cartStore.clearCart();
-    cartStore.setAuthenticated(false);
-    
-    // Clear all cart-related localStorage data
+    // Clear all cart-related localStorage data (CartProvider resets its state on logout)
     clearCartData();
     
     // Clear auth state
@@ -17,8 +17,9 @@ import { CurrencyInput } from "@/components/ui/CurrencyInput";
 import { cn } from "@/lib/utils";
 import { Loader2 } from "lucide-react";
 import { toast } from "sonner";
-import { clientApi } from "@/lib/api-client";
-import { CategoryResponse, ApiResult } from "@/lib/types/product";
+import { categoryApi } from "@/lib/api/category";
+import { productApi } from "@/lib/api/product";
+import { CategoryResponse } from "@/lib/types/product";
 import { useTranslation } from "react-i18next";
 import { useForm, Controller } from "react-hook-form";
 import { FormField } from "./FormField";
@@ -66,7 +67,7 @@ export function CreateProductDialog({
   const fetchCategories = async () => {
     setIsLoadingCategories(true);
     try {
-      const response = await clientApi.getCategories();
+      const response = await categoryApi.getAllCategories();
 
       if (response.error) {
         toast.error(
@@ -74,8 +75,7 @@ export function CreateProductDialog({
         );
         setCategories([]);
       } else {
-        const result = response.data as ApiResult<CategoryResponse[]>;
-        setCategories(result?.data || []);
+        setCategories(response.data || []);
       }
     } catch {
       toast.error(t("admin.products.fetchCategoriesError"));
@@ -97,7 +97,7 @@ export function CreateProductDialog({
         minPrice: data.minPrice,
       };
 
-      const response = await clientApi.createDraftProduct(draftProduct);
+      const response = await productApi.createDraftProduct(draftProduct);
 
       if (response.error) {
         // Map backend errors if they exist in a structured way
@@ -115,8 +115,7 @@ export function CreateProductDialog({
         return;
       }
 
-      const responseData = response.data as any;
-      const productId = responseData?.data?.id || responseData?.id;
+      const productId = response.data?.id;
 
       if (!productId) {
         toast.error(t("admin.productDetail.createDialog.errorProductId"));
@@ -0,0 +1,223 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Archive, Loader2, Percent, X } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CategoryCombobox } from "@/components/admin/categories/CategoryCombobox";
+import { categoryApi } from "@/lib/api/category";
+import {
+  PRICE_ADJUSTMENT_LIMITS,
+  type ProductBulkAction,
+  type ProductBulkProgress,
+  type ProductStatus,
+} from "@/lib/api/product-bulk";
+import type { CategoryResponse } from "@/lib/types/product";
+
+const STATUSES: ProductStatus[] = ["ACTIVE", "DRAFT", "HIDDEN", "ARCHIVED"];
+
+interface ProductBulkActionBarProps {
+  selectedCount: number;
+  categories: CategoryResponse[];
+  /** Non-null while a bulk action is running */
+  progress: ProductBulkProgress | null;
+  onRun: (action: ProductBulkAction) => void;
+  onClearSelection: () => void;
+}
+
+/**
+ * Action bar for the products selected across pages
+ * Every action goes through a confirmation naming the affected count
+ */
+export function ProductBulkActionBar({
+  selectedCount,
+  categories,
+  progress,
+  onRun,
+  onClearSelection,
+}: ProductBulkActionBarProps) {
+  const { t } = useTranslation();
+  const [pendingAction, setPendingAction] = useState<ProductBulkAction | null>(null);
+  const [percent, setPercent] = useState("");
+
+  const isRunning = progress !== null;
+  const percentValue = Number(percent);
+  const isPercentValid =
+    percent.trim() !== "" &&
+    Number.isFinite(percentValue) &&
+    percentValue !== 0 &&
+    percentValue >= PRICE_ADJUSTMENT_LIMITS.min &&
+    percentValue <= PRICE_ADJUSTMENT_LIMITS.max;
+
+  const describeAction = (action: ProductBulkAction) => {
+    switch (action.type) {
+      case "status":
+        return t("admin.products.bulk.confirmStatus", {
+          count: selectedCount,
+          status: t(`admin.products.${action.status.toLowerCase()}`),
+        });
+      case "category":
+        return t("admin.products.bulk.confirmCategory", {
+          count: selectedCount,
+          category:
+            categoryApi.findCategory(categories, (cat) => cat.id === action.categoryId)
+              ?.name || "",
+        });
+      case "price":
+        return t(
+          action.percent > 0
+            ? "admin.products.bulk.confirmPriceIncrease"
+            : "admin.products.bulk.confirmPriceDecrease",
+          { count: selectedCount, percent: Math.abs(action.percent) },
+        );
+      case "archive":
+        return t("admin.products.bulk.confirmArchive", { count: selectedCount });
+    }
+  };
+
+  const handleConfirm = () => {
+    if (!pendingAction) return;
+    onRun(pendingAction);
+    if (pendingAction.type === "price") setPercent("");
+    setPendingAction(null);
+  };
+
+  return (
+    <div className="flex flex-col gap-3 p-4 rounded-xl bg-[#D4AF37]/5 border border-[#D4AF37]/30 shadow-sm">
+      <div className="flex flex-col xl:flex-row xl:items-center gap-3">
+        <div className="flex items-center gap-2 shrink-0">
+          <span className="text-sm font-bold text-slate-900 dark:text-slate-100">
+            {t("admin.products.bulk.selected", { count: selectedCount })}
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onClearSelection}
+            disabled={isRunning}
+            className="h-8 px-2 text-slate-500 hover:text-slate-900 dark:hover:text-slate-100"
+          >
+            <X className="h-4 w-4 mr-1" />
+            {t("admin.products.bulk.clearSelection")}
+          </Button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 xl:ml-auto">
+          {/* Status */}
+          <Select
+            value=""
+            onValueChange={(value: string) =>
+              setPendingAction({ type: "status", status: value as ProductStatus })
+            }
+            disabled={isRunning}
+          >
+            <SelectTrigger className="w-[170px] h-10 bg-white dark:bg-slate-900">
+              <SelectValue placeholder={t("admin.products.bulk.changeStatus")} />
+            </SelectTrigger>
+            <SelectContent>
+              {STATUSES.map((status) => (
+                <SelectItem key={status} value={status}>
+                  {t(`admin.products.${status.toLowerCase()}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {/* Category */}
+          <div className="w-[220px]">
+            <CategoryCombobox
+              categories={categories}
+              value={null}
+              onValueChange={(categoryId) =>
+                categoryId && setPendingAction({ type: "category", categoryId })
+              }
+              placeholder={t("admin.products.bulk.moveToCategory")}
+              disabled={isRunning}
+            />
+          </div>
+
+          {/* Price adjustment */}
+          <div className="flex items-center gap-2">
+            <div className="relative w-[120px]">
+              <Input
+                type="number"
+                inputMode="decimal"
+                step="0.1"
+                min={PRICE_ADJUSTMENT_LIMITS.min}
+                max={PRICE_ADJUSTMENT_LIMITS.max}
+                value={percent}
+                onChange={(e) => setPercent(e.target.value)}
+                placeholder={t("admin.products.bulk.percentPlaceholder")}
+                aria-label={t("admin.products.bulk.adjustPrices")}
+                disabled={isRunning}
+                className="h-10 pr-8 bg-white dark:bg-slate-900"
+              />
+              <Percent className="absolute right-3 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-slate-400" />
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => setPendingAction({ type: "price", percent: percentValue })}
+              disabled={isRunning || !isPercentValid}
+              className="h-10"
+            >
+              {t("admin.products.bulk.adjustPrices")}
+            </Button>
+          </div>
+
+          {/* Archive */}
+          <Button
+            variant="outline"
+            onClick={() => setPendingAction({ type: "archive" })}
+            disabled={isRunning}
+            className="h-10 text-rose-600 border-rose-200 hover:bg-rose-50 dark:border-rose-900/40 dark:hover:bg-rose-500/10"
+          >
+            <Archive className="h-4 w-4 mr-2" />
+            {t("admin.products.bulk.archive")}
+          </Button>
+        </div>
+      </div>
+
+      {percent.trim() !== "" && !isPercentValid && (
+        <p className="text-xs text-rose-600">
+          {t("admin.products.bulk.percentRange", PRICE_ADJUSTMENT_LIMITS)}
+        </p>
+      )}
+
+      {/* Progress */}
+      {progress && (
+        <div className="flex items-center gap-3" role="status" aria-live="polite">
+          <Loader2 className="h-4 w-4 animate-spin text-[#D4AF37] shrink-0" />
+          <div className="flex-1 h-1.5 rounded-full bg-slate-200 dark:bg-slate-800 overflow-hidden">
+            <div
+              className="h-full bg-[#D4AF37] transition-all duration-300"
+              style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+            />
+          </div>
+          <span className="text-xs font-bold text-slate-500 tabular-nums">
+            {t("admin.products.bulk.progress", { done: progress.done, total: progress.total })}
+          </span>
+        </div>
+      )}
+
+      <ConfirmDialog
+        open={pendingAction !== null}
+        onOpenChange={(open) => !open && setPendingAction(null)}
+        title={t("admin.products.bulk.confirmTitle")}
+        description={pendingAction ? describeAction(pendingAction) : undefined}
+        confirmText={t("common.confirm")}
+        cancelText={t("common.cancel")}
+        onConfirm={handleConfirm}
+        variant={pendingAction?.type === "archive" ? "destructive" : "default"}
+      />
+    </div>
+  );
+}
@@ -15,10 +15,9 @@ import {
   ArrowDown,
   Eye,
   EyeOff,
-  Package
+  Package,
+  GripVertical
 } from 'lucide-react';
-import { categoryApi } from '@/lib/api/category';
-import { toast } from 'sonner';
 import { motion, AnimatePresence } from 'framer-motion';
 import { cn } from '@/lib/utils';
 import { CategoryResponse } from '@/lib/types/product';
@@ -32,6 +31,7 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { Badge } from '@/components/ui/badge';
 import { useTranslation } from 'react-i18next';
+import type { CategoryDragDrop } from '@/lib/hooks/useCategoryDragDrop';
 
 interface CategoryNodeProps {
   category: CategoryResponse;
@@ -47,9 +47,9 @@ interface CategoryNodeProps {
   // Reorder props
   isFirst?: boolean;
   isLast?: boolean;
-  onMoveUp?: () => void;
-  onMoveDown?: () => void;
-  onRefresh?: () => void;
+  /** Move one step among siblings; omitted while reordering is unavailable */
+  onShift?: (category: CategoryResponse, offset: -1 | 1) => void;
+  dragDrop?: CategoryDragDrop;
 }
 
 export function CategoryNode({
@@ -65,57 +65,59 @@ export function CategoryNode({
 
   isFirst,
   isLast,
-  onMoveUp,
-  onMoveDown,
-  onRefresh
+  onShift,
+  dragDrop
 }: CategoryNodeProps) {
   const { t } = useTranslation();
 
-  const handleReorderChildren = async (childIndex: number, direction: number) => {
-    try {
-      if (!category.children) return;
-      
-      const items = [...category.children];
-      const targetIndex = childIndex + direction;
-      
-      if (targetIndex < 0 || targetIndex >= items.length) return;
-      
-      const temp = items[childIndex];
-      items[childIndex] = items[targetIndex];
-      items[targetIndex] = temp;
-      
-      const payload = items.map((item, idx) => ({
-        id: item.id,
-        position: idx
-      }));
-      
-      const result = await categoryApi.reorderCategories(payload);
-      
-      if (result.error) {
-        toast.error(result.error.message);
-        return;
-      }
-      
-      toast.success(t('common.success'));
-      if (onRefresh) onRefresh();
-    } catch (error) {
-      toast.error(t('common.error'));
-    }
-  };
   const hasChildren = category.children && category.children.length > 0;
   const isLeaf = !hasChildren;
   const isExpanded = expandedNodes.has(category.id);
 
+  const isDragging = dragDrop?.activeId === category.id;
+  const isLifted = isDragging && dragDrop?.isKeyboardDragging;
+  const dropPosition =
+    dragDrop?.dropTarget?.id === category.id ? dragDrop.dropTarget.position : null;
+
   return (
     <div className="group">
       <div 
+        {...dragDrop?.getRowProps(category)}
         className={cn(
-          "flex items-center gap-3 p-3 rounded-2xl transition-all duration-200 border border-transparent",
+          "relative flex items-center gap-3 p-3 rounded-2xl transition-all duration-200 border border-transparent",
           "hover:bg-white dark:hover:bg-white/5 hover:border-slate-100 dark:hover:border-white/10 hover:shadow-sm",
-          !category.isActive && "opacity-60"
+          !category.isActive && "opacity-60",
+          isDragging && !isLifted && "opacity-40",
+          isLifted && "bg-[#D4AF37]/5 border-[#D4AF37] shadow-lg",
+          dropPosition === 'inside' && "bg-[#D4AF37]/10 border-[#D4AF37] border-dashed"
         )}
         style={{ paddingLeft: `${(level * 24) + 12}px` }}
       >
+        {/* Drop indicator */}
+        {(dropPosition === 'before' || dropPosition === 'after') && (
+          <div
+            className={cn(
+              "absolute right-3 h-0.5 rounded-full bg-[#D4AF37] pointer-events-none",
+              dropPosition === 'before' ? "-top-px" : "-bottom-px"
+            )}
+            style={{ left: `${(level * 24) + 12}px` }}
+          />
+        )}
+
+        {/* Drag Handle */}
+        {dragDrop?.enabled && (
+          <button
+            {...dragDrop.getHandleProps(category)}
+            className={cn(
+              "-ml-1 p-1 rounded-md text-slate-300 hover:text-slate-600 dark:hover:text-slate-200 cursor-grab active:cursor-grabbing",
+              "focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-[#D4AF37]",
+              isLifted && "text-[#D4AF37]"
+            )}
+          >
+            <GripVertical className="h-4 w-4" />
+          </button>
+        )}
+
         {/* Expand/Collapse Toggle */}
         <div className="w-6 h-6 flex items-center justify-center">
           {hasChildren ? (
@@ -202,11 +204,11 @@ export function CategoryNode({
                   </DropdownMenuItem>
                   
                   {/* Reorder Actions */}
-                  {(onMoveUp || onMoveDown) && (
+                  {onShift && (
                      <>
                         <DropdownMenuSeparator className="bg-slate-100 dark:bg-white/5 my-1" />
                         <DropdownMenuItem 
-                          onClick={(e) => { e.stopPropagation(); onMoveUp?.(); }} 
+                          onClick={(e) => { e.stopPropagation(); onShift(category, -1); }} 
                           disabled={isFirst}
                           className="rounded-xl gap-2 cursor-pointer focus:bg-slate-100 dark:focus:bg-white/10 transition-all duration-200 group disabled:opacity-50"
                         >
@@ -214,7 +216,7 @@ export function CategoryNode({
                           <span>{t("admin.categories.moveUp")}</span>
                         </DropdownMenuItem>
                         <DropdownMenuItem 
-                          onClick={(e) => { e.stopPropagation(); onMoveDown?.(); }}
+                          onClick={(e) => { e.stopPropagation(); onShift(category, 1); }}
                           disabled={isLast} 
                           className="rounded-xl gap-2 cursor-pointer focus:bg-slate-100 dark:focus:bg-white/10 transition-all duration-200 group disabled:opacity-50"
                         >
@@ -274,9 +276,8 @@ export function CategoryNode({
                 // Recursive props
                 isFirst={index === 0}
                 isLast={index === (category.children?.length || 0) - 1}
-                onMoveUp={() => handleReorderChildren(index, -1)}
-                onMoveDown={() => handleReorderChildren(index, 1)}
-                onRefresh={onRefresh}
+                onShift={onShift}
+                dragDrop={dragDrop}
               />
             ))}
           </motion.div>
@@ -16,7 +16,17 @@ import { CategoryNode } from './CategoryNode';
 import { CategoryDialog } from './CategoryDialog';
 import { ConfirmDialog } from '@/components/ui/confirm-dialog';
 import { CategoryResponse } from '@/lib/types/product';
-import { categoryApi } from '@/lib/api/category';
+import {
+  categoryApi,
+  buildReorderPayload,
+  getCategoryPlacement,
+  moveCategoryInTree,
+  type CategoryPlacement,
+} from '@/lib/api/category';
+import {
+  useCategoryDragDrop,
+  CATEGORY_DND_INSTRUCTIONS_ID,
+} from '@/lib/hooks/useCategoryDragDrop';
 import { toast } from 'sonner';
 import { Skeleton } from '@/components/ui/skeleton';
 import { cn } from '@/lib/utils';
@@ -41,6 +51,9 @@ export default function CategoryTree() {
   const [isDeleteConfirmOpen, setIsDeleteConfirmOpen] = useState(false);
   const [categoryToDelete, setCategoryToDelete] = useState<CategoryResponse | null>(null);
 
+  // Reorder State
+  const [isMoving, setIsMoving] = useState(false);
+
   const fetchCategories = useCallback(async () => {
     setLoading(true);
     try {
@@ -196,38 +209,57 @@ export default function CategoryTree() {
     }
   }, [searchQuery, filteredCategories]);
 
-  const handleReorderRoot = async (index: number, direction: number) => {
+  const expandNode = useCallback((id: string) => {
+    setExpandedNodes(prev => (prev.has(id) ? prev : new Set(prev).add(id)));
+  }, []);
+
+  // Optimistic move: apply locally, send every touched sibling list in one batch, roll back on failure
+  const moveCategory = async (id: string, placement: CategoryPlacement) => {
+    const origin = getCategoryPlacement(categories, id);
+    if (!origin) return;
+
+    const snapshot = categories;
+    const next = moveCategoryInTree(categories, id, placement);
+    const moved = categoryApi.findCategory(categories, c => c.id === id);
+
+    setCategories(next);
+    if (placement.parentId) expandNode(placement.parentId);
+    setIsMoving(true);
+
     try {
-      if (searchQuery) return;
-      
-      const items = [...categories];
-      const targetIndex = index + direction;
-      
-      if (targetIndex < 0 || targetIndex >= items.length) return;
-      
-      const temp = items[index];
-      items[index] = items[targetIndex];
-      items[targetIndex] = temp;
-      
-      const payload = items.map((item, idx) => ({
-        id: item.id,
-        position: idx
-      }));
-      
-      const result = await categoryApi.reorderCategories(payload);
-      
-      if (result.error) {
-        toast.error(result.error.message);
-        return;
-      }
-      
-      toast.success(t('common.success'));
-      fetchCategories();
-    } catch (error) {
-      toast.error(t('common.error'));
+      const result = await categoryApi.reorderCategories(
+        buildReorderPayload(next, [origin.parentId, placement.parentId])
+      );
+      if (result.error) throw new Error(result.error.message);
+
+      toast.success(t('admin.categories.dnd.moved', { name: moved?.name }));
+    } catch (err: unknown) {
+      setCategories(snapshot);
+      const error = err as { message?: string };
+      toast.error(error?.message || t('admin.categories.dnd.moveFailed'));
+    } finally {
+      setIsMoving(false);
     }
   };
 
+  const handleShift = (category: CategoryResponse, offset: -1 | 1) => {
+    const placement = getCategoryPlacement(categories, category.id);
+    if (!placement) return;
+    moveCategory(category.id, { ...placement, index: placement.index + offset });
+  };
+
+  const canReorder = !searchQuery && !isMoving;
+
+  const dragDrop = useCategoryDragDrop({
+    categories,
+    enabled: canReorder,
+    expandedNodes,
+    onExpand: expandNode,
+    onMove: moveCategory,
+  });
+
+  const visibleCategories = searchQuery ? filteredCategories : dragDrop.tree;
+
   return (
     <div className="space-y-6">
       {/* Search and Global Actions */}
@@ -268,7 +300,7 @@ export default function CategoryTree() {
           <div className="space-y-4">
              {[1, 2, 3, 4, 5].map(i => <Skeleton key={i} className="h-16 w-full rounded-2xl" />)}
           </div>
-        ) : filteredCategories.length === 0 ? (
+        ) : visibleCategories.length === 0 ? (
           <div className="flex flex-col items-center justify-center py-20 text-center">
              <div className="h-20 w-20 rounded-full bg-slate-50 dark:bg-white/5 flex items-center justify-center mb-4">
                 <LayoutGrid className="h-10 w-10 text-slate-200" />
@@ -277,7 +309,7 @@ export default function CategoryTree() {
           </div>
         ) : (
           <div className="space-y-1">
-            {filteredCategories.map((category, index) => (
+            {visibleCategories.map((category, index) => (
               <CategoryNode
                 key={category.id}
                 category={category}
@@ -290,17 +322,24 @@ export default function CategoryTree() {
                 expandedNodes={expandedNodes}
                 onToggleExpand={toggleExpand}
                 
-                isFirst={!searchQuery && index === 0}
-                isLast={!searchQuery && index === filteredCategories.length - 1}
-                onMoveUp={!searchQuery ? () => handleReorderRoot(index, -1) : undefined}
-                onMoveDown={!searchQuery ? () => handleReorderRoot(index, 1) : undefined}
-                onRefresh={fetchCategories}
+                isFirst={index === 0}
+                isLast={index === visibleCategories.length - 1}
+                onShift={canReorder ? handleShift : undefined}
+                dragDrop={searchQuery ? undefined : dragDrop}
               />
             ))}
           </div>
         )}
       </div>
 
+      {/* Screen reader guidance for keyboard reordering */}
+      <p id={CATEGORY_DND_INSTRUCTIONS_ID} className="sr-only">
+        {t('admin.categories.dnd.instructions')}
+      </p>
+      <div aria-live="assertive" className="sr-only">
+        {dragDrop.announcement}
+      </div>
+
       <CategoryDialog
         open={isDialogOpen}
         onOpenChange={setIsDialogOpen}
@@ -0,0 +1,145 @@
+"use client";
+
+import { useTranslation } from "react-i18next";
+import { ArrowRight, Columns3 } from "lucide-react";
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import {
+  PRODUCT_IMPORT_COLUMNS,
+  type ProductImportColumnKey,
+  type ProductImportMapping,
+  type ProductImportMappingIssue,
+} from "@/lib/validations/product";
+
+const NOT_MAPPED = "none";
+
+interface ColumnMappingPanelProps {
+  headers: string[];
+  sampleRows: string[][];
+  mapping: ProductImportMapping;
+  issues: ProductImportMappingIssue[];
+  disabled?: boolean;
+  onChange: (column: ProductImportColumnKey, headerIndex: number | null) => void;
+}
+
+/**
+ * Maps the file's headers onto the import schema columns
+ * Shows the first sample value so admins can confirm each match
+ */
+export function ColumnMappingPanel({
+  headers,
+  sampleRows,
+  mapping,
+  issues,
+  disabled = false,
+  onChange,
+}: ColumnMappingPanelProps) {
+  const { t } = useTranslation();
+
+  return (
+    <div className="bg-white dark:bg-[#111] border border-slate-200 dark:border-slate-800 rounded-3xl overflow-hidden shadow-xl shadow-slate-200/50 dark:shadow-none">
+      <div className="p-8 border-b border-slate-100 dark:border-slate-800 flex items-center gap-4">
+        <div className="h-12 w-12 rounded-xl bg-[#D4AF37]/10 flex items-center justify-center shrink-0">
+          <Columns3 className="h-6 w-6 text-[#D4AF37]" />
+        </div>
+        <div>
+          <h3 className="text-xl font-light text-slate-900 dark:text-slate-100">
+            {t("admin.imports.mapping.title")}
+          </h3>
+          <p className="text-xs text-slate-500 dark:text-slate-400 font-light">
+            {t("admin.imports.mapping.description")}
+          </p>
+        </div>
+      </div>
+
+      <div className="divide-y divide-slate-100 dark:divide-slate-900">
+        {PRODUCT_IMPORT_COLUMNS.map((column) => {
+          const headerIndex = mapping[column.key];
+          const issue = issues.find((item) => item.column === column.key);
+          const sample = headerIndex === null ? undefined : sampleRows[0]?.[headerIndex];
+
+          return (
+            <div
+              key={column.key}
+              className="grid grid-cols-1 md:grid-cols-12 items-center gap-3 px-8 py-4"
+            >
+              <div className="md:col-span-4">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-semibold text-slate-900 dark:text-slate-100">
+                    {t(`admin.imports.mapping.columns.${column.key}`)}
+                  </span>
+                  <span
+                    className={cn(
+                      "text-[9px] font-bold uppercase tracking-widest px-1.5 py-0.5 rounded",
+                      column.required
+                        ? "bg-[#D4AF37]/10 text-[#B8962D]"
+                        : "bg-slate-100 dark:bg-white/5 text-slate-400"
+                    )}
+                  >
+                    {column.required
+                      ? t("admin.imports.mapping.required")
+                      : t("admin.imports.mapping.optional")}
+                  </span>
+                </div>
+                <p className="text-[10px] font-mono text-slate-400 mt-0.5">{column.key}</p>
+              </div>
+
+              <ArrowRight className="hidden md:block h-4 w-4 text-slate-300 md:col-span-1 mx-auto rotate-180" />
+
+              <div className="md:col-span-4">
+                <Select
+                  value={headerIndex === null ? NOT_MAPPED : String(headerIndex)}
+                  onValueChange={(value) =>
+                    onChange(column.key, value === NOT_MAPPED ? null : Number(value))
+                  }
+                  disabled={disabled}
+                >
+                  <SelectTrigger
+                    className={cn(
+                      "h-10 rounded-xl",
+                      issue && "border-red-300 dark:border-red-900/50"
+                    )}
+                    aria-label={t(`admin.imports.mapping.columns.${column.key}`)}
+                  >
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NOT_MAPPED}>
+                      {t("admin.imports.mapping.notMapped")}
+                    </SelectItem>
+                    {headers.map((header, index) => (
+                      <SelectItem key={index} value={String(index)}>
+                        {header || t("admin.imports.mapping.unnamedColumn", { index: index + 1 })}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {issue && (
+                  <p className="text-[11px] text-red-500 mt-1">
+                    {t(`admin.imports.mapping.${issue.issue}`)}
+                  </p>
+                )}
+              </div>
+
+              <div className="md:col-span-3 min-w-0">
+                <p className="text-[9px] font-bold uppercase tracking-widest text-slate-400">
+                  {t("admin.imports.mapping.sample")}
+                </p>
+                <p className="text-xs text-slate-600 dark:text-slate-300 font-light truncate">
+                  {sample || "—"}
+                </p>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
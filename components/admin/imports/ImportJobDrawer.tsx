@@ -0,0 +1,458 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { toast } from "sonner";
+import {
+  FileDown,
+  FileText,
+  Link2,
+  Loader2,
+  Pencil,
+  RotateCcw,
+  Search,
+  Trash2,
+  Wrench,
+} from "lucide-react";
+
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AdminErrorDisplay } from "@/components/admin/AdminErrorDisplay";
+import { importApi } from "@/lib/api/import";
+import { useImportErrorLog } from "@/lib/hooks/useAdminData";
+import { downloadCsv } from "@/lib/utils/csv";
+import { buildAnnotatedCsv, buildReimportCsv } from "@/lib/utils/import-error-log";
+import {
+  PRODUCT_IMPORT_COLUMNS,
+  autoMapImportColumns,
+  getImportMappingIssues,
+  normalizeImportHeader,
+  validateProductImportRows,
+  type ProductImportRow,
+} from "@/lib/validations/product";
+import { formatStatus, getStatusColor, type ImportJob } from "@/lib/types/import";
+import { cn } from "@/lib/utils";
+
+const ALL_FIELDS = "all";
+
+interface ImportJobDrawerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  job: ImportJob | null;
+  /** Called with the new job id after failed rows were re-imported */
+  onReimported: (jobId: number) => void;
+}
+
+/**
+ * Import job details with its error log
+ *
+ * Errors are listed in a filterable table; failed rows can be corrected
+ * inline and submitted as a new job linked to this one.
+ */
+export function ImportJobDrawer({ open, onOpenChange, job, onReimported }: ImportJobDrawerProps) {
+  const { t } = useTranslation();
+
+  const hasErrors =
+    !!job && (job.status === "FAILED" || job.status === "PARTIAL_SUCCESS" || (job.errorCount || 0) > 0);
+  const { data: log, isLoading, error, refetch } = useImportErrorLog(hasErrors ? job : null);
+
+  const [search, setSearch] = useState("");
+  const [fieldFilter, setFieldFilter] = useState(ALL_FIELDS);
+  // Rows being corrected, keyed by their line number in the original file
+  const [drafts, setDrafts] = useState<Map<number, Record<string, string>>>(() => new Map());
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  if (!job) return null;
+
+  const fields = Array.from(
+    new Set((log?.entries || []).map((entry) => entry.field).filter((field): field is string => !!field))
+  );
+  const keyword = search.trim().toLowerCase();
+  const filteredEntries = (log?.entries || []).filter(
+    (entry) =>
+      (fieldFilter === ALL_FIELDS || entry.field === fieldFilter) &&
+      (!keyword ||
+        String(entry.row).includes(keyword) ||
+        entry.message.toLowerCase().includes(keyword) ||
+        entry.field?.toLowerCase().includes(keyword))
+  );
+
+  const canEditRows = !!log && log.columns.length > 0;
+  const failedByRow = new Map((log?.failedRows || []).map((row) => [row.row, row]));
+
+  // Re-validate corrected rows when the file follows the import schema
+  const mapping = log ? autoMapImportColumns(log.columns) : null;
+  const draftEntries = Array.from(drafts.entries());
+  const draftErrors =
+    mapping && getImportMappingIssues(mapping).length === 0
+      ? validateProductImportRows(
+          draftEntries.map(([, values]) => {
+            const record = {} as ProductImportRow;
+            for (const column of PRODUCT_IMPORT_COLUMNS) {
+              const index = mapping[column.key];
+              record[column.key] = index === null ? "" : (values[log!.columns[index]] ?? "").trim();
+            }
+            return record;
+          }),
+          draftEntries.map(([row]) => row)
+        )
+      : [];
+
+  const startEditing = (rows: number[]) => {
+    setDrafts((prev) => {
+      const next = new Map(prev);
+      for (const row of rows) {
+        const failedRow = failedByRow.get(row);
+        if (failedRow && !next.has(row)) next.set(row, { ...failedRow.values });
+      }
+      return next;
+    });
+  };
+
+  const updateDraft = (row: number, column: string, value: string) => {
+    setDrafts((prev) => new Map(prev).set(row, { ...prev.get(row), [column]: value }));
+  };
+
+  const removeDraft = (row: number) => {
+    setDrafts((prev) => {
+      const next = new Map(prev);
+      next.delete(row);
+      return next;
+    });
+  };
+
+  const isErrorField = (row: number, column: string) =>
+    !!failedByRow
+      .get(row)
+      ?.errors.some(
+        (entry) => entry.field && normalizeImportHeader(entry.field) === normalizeImportHeader(column)
+      );
+
+  const handleDownloadAnnotated = () => {
+    if (!log) return;
+    downloadCsv(`import-${job.id}-annotated.csv`, buildAnnotatedCsv(log));
+  };
+
+  const handleReimport = async () => {
+    if (!log || drafts.size === 0) return;
+
+    setIsSubmitting(true);
+    setSubmitError(null);
+    try {
+      const csv = buildReimportCsv(log.columns, Array.from(drafts.values()));
+      const file = new File([csv], `import-${job.id}-reimport.csv`, { type: "text/csv" });
+      const result = await importApi.uploadProductCSV(file, { sourceJobId: job.id });
+
+      if (result.error || !result.data?.data) {
+        setSubmitError(result.error?.message || t("admin.imports.errors.generic"));
+        return;
+      }
+
+      toast.success(t("admin.imports.drawer.reimportStarted", { count: drafts.size, jobId: result.data.data }));
+      setDrafts(new Map());
+      onReimported(result.data.data);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent
+        side="right"
+        className="w-full sm:w-[80vw] sm:max-w-[1100px] p-0 gap-0 overflow-y-auto bg-white dark:bg-slate-950 border-l border-slate-200 dark:border-slate-800"
+      >
+        {/* Header */}
+        <SheetHeader className="px-8 pt-8 pb-6 border-b border-slate-200 dark:border-slate-800">
+          <div className="flex items-center gap-4">
+            <div className="h-14 w-14 rounded-xl bg-slate-100 dark:bg-white/5 flex items-center justify-center shrink-0">
+              <FileText className="h-7 w-7 text-slate-500" />
+            </div>
+            <div className="min-w-0">
+              <SheetTitle className="text-2xl font-light text-slate-900 dark:text-slate-100 truncate">
+                {job.fileUrl?.split("/").pop() || t("admin.imports.drawer.title", { id: job.id })}
+              </SheetTitle>
+              <SheetDescription className="flex flex-wrap items-center gap-2 mt-1">
+                <span className={cn("text-[10px] font-bold uppercase tracking-widest px-2 py-0.5 rounded", getStatusColor(job.status))}>
+                  {formatStatus(job.status)}
+                </span>
+                <span className="text-xs text-slate-500">
+                  {t("admin.imports.drawer.summary", {
+                    id: job.id,
+                    success: job.successCount || 0,
+                    errors: job.errorCount || 0,
+                    total: job.totalRecords || 0,
+                  })}
+                </span>
+                {job.sourceJobId && (
+                  <span className="inline-flex items-center gap-1 text-xs text-[#B8962D]">
+                    <Link2 className="h-3 w-3" />
+                    {t("admin.imports.drawer.reimportOf", { id: job.sourceJobId })}
+                  </span>
+                )}
+              </SheetDescription>
+            </div>
+            {log && (job.errorCount || 0) > 0 && (
+              <Button
+                variant="outline"
+                onClick={handleDownloadAnnotated}
+                className="ml-auto rounded-xl font-light shrink-0"
+              >
+                <FileDown className="h-4 w-4 mr-2" />
+                {t("admin.imports.drawer.downloadAnnotated")}
+              </Button>
+            )}
+          </div>
+        </SheetHeader>
+
+        <div className="p-8 space-y-8">
+          {!hasErrors ? (
+            <p className="text-sm text-slate-500 font-light">{t("admin.imports.drawer.noErrors")}</p>
+          ) : !job.errorLogUrl ? (
+            <AdminErrorDisplay
+              title={t("admin.imports.errors.processingIssues.title")}
+              variant={job.status === "FAILED" ? "error" : "warning"}
+              description={t("admin.imports.errors.noLog")}
+              items={(job.message || "").split("\n").filter(Boolean).map((message) => ({ message }))}
+            />
+          ) : isLoading ? (
+            <div className="flex items-center justify-center gap-3 py-16 text-slate-500">
+              <Loader2 className="h-5 w-5 animate-spin text-[#D4AF37]" />
+              <span className="text-sm font-light">{t("admin.imports.drawer.loadingLog")}</span>
+            </div>
+          ) : error || !log ? (
+            <AdminErrorDisplay
+              title={t("admin.imports.drawer.logFailed")}
+              items={[{ message: (error as Error)?.message || t("admin.imports.errors.generic") }]}
+              onRetry={() => refetch()}
+              onDownloadReport={() => window.open(job.errorLogUrl!, "_blank")}
+            />
+          ) : (
+            <>
+              {/* Error log */}
+              <section className="space-y-4">
+                <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+                  <h3 className="text-sm font-bold uppercase tracking-widest text-slate-500">
+                    {t("admin.imports.drawer.errorLog", { count: log.entries.length })}
+                  </h3>
+                  <div className="flex items-center gap-2">
+                    <div className="relative">
+                      <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-slate-400" />
+                      <Input
+                        value={search}
+                        onChange={(e) => setSearch(e.target.value)}
+                        placeholder={t("admin.imports.drawer.searchPlaceholder")}
+                        className="h-9 pl-9 w-56 rounded-lg"
+                      />
+                    </div>
+                    {fields.length > 0 && (
+                      <Select value={fieldFilter} onValueChange={setFieldFilter}>
+                        <SelectTrigger className="h-9 w-40 rounded-lg">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={ALL_FIELDS}>{t("admin.imports.drawer.allFields")}</SelectItem>
+                          {fields.map((field) => (
+                            <SelectItem key={field} value={field}>
+                              {field}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                    {canEditRows && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => startEditing(log.failedRows.map((row) => row.row))}
+                        className="h-9 rounded-lg"
+                      >
+                        <Wrench className="h-3.5 w-3.5 mr-2" />
+                        {t("admin.imports.drawer.fixAll")}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                <div className="max-h-80 overflow-y-auto rounded-2xl border border-slate-200 dark:border-slate-800">
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="bg-slate-50 dark:bg-white/5">
+                        <TableHead className="text-[10px] font-bold uppercase tracking-widest text-slate-400 w-20 px-6">
+                          {t("admin.imports.validation.row")}
+                        </TableHead>
+                        <TableHead className="text-[10px] font-bold uppercase tracking-widest text-slate-400 w-40">
+                          {t("admin.imports.drawer.field")}
+                        </TableHead>
+                        <TableHead className="text-[10px] font-bold uppercase tracking-widest text-slate-400">
+                          {t("admin.imports.validation.message")}
+                        </TableHead>
+                        <TableHead className="w-16" />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {filteredEntries.length === 0 ? (
+                        <TableRow>
+                          <TableCell colSpan={4} className="text-center py-10 text-sm text-slate-400 font-light italic">
+                            {t("admin.imports.drawer.noMatches")}
+                          </TableCell>
+                        </TableRow>
+                      ) : (
+                        filteredEntries.map((entry, index) => (
+                          <TableRow key={index} className="border-slate-100 dark:border-slate-900">
+                            <TableCell className="px-6 py-3 text-xs font-mono text-slate-500">{entry.row}</TableCell>
+                            <TableCell className="py-3 text-xs font-mono text-slate-600 dark:text-slate-300">
+                              {entry.field || "—"}
+                            </TableCell>
+                            <TableCell className="py-3 text-xs text-red-600 dark:text-red-400">{entry.message}</TableCell>
+                            <TableCell className="py-3 text-right pr-4">
+                              {canEditRows && !drafts.has(entry.row) && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => startEditing([entry.row])}
+                                  title={t("admin.imports.drawer.fixRow")}
+                                  className="h-7 w-7 rounded-lg"
+                                >
+                                  <Pencil className="h-3.5 w-3.5 text-[#D4AF37]" />
+                                </Button>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        ))
+                      )}
+                    </TableBody>
+                  </Table>
+                </div>
+
+                {!canEditRows && (
+                  <p className="text-xs text-slate-500 font-light">{t("admin.imports.drawer.noRowData")}</p>
+                )}
+              </section>
+
+              {/* Inline fixes */}
+              {drafts.size > 0 && (
+                <section className="space-y-4">
+                  <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+                    <div>
+                      <h3 className="text-sm font-bold uppercase tracking-widest text-slate-500">
+                        {t("admin.imports.drawer.fixTitle", { count: drafts.size })}
+                      </h3>
+                      <p className="text-xs text-slate-500 font-light mt-1">
+                        {t("admin.imports.drawer.fixDescription", { id: job.id })}
+                      </p>
+                    </div>
+                    <Button
+                      onClick={handleReimport}
+                      disabled={isSubmitting || draftErrors.length > 0}
+                      className="bg-slate-900 dark:bg-[#D4AF37] text-white px-6 rounded-xl font-light"
+                    >
+                      {isSubmitting ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <RotateCcw className="h-4 w-4 mr-2" />
+                      )}
+                      {t("admin.imports.drawer.reimport", { count: drafts.size })}
+                    </Button>
+                  </div>
+
+                  {submitError && (
+                    <AdminErrorDisplay
+                      title={t("admin.imports.drawer.reimportFailed")}
+                      items={[{ message: submitError }]}
+                      onClose={() => setSubmitError(null)}
+                    />
+                  )}
+
+                  <div className="overflow-x-auto rounded-2xl border border-slate-200 dark:border-slate-800">
+                    <Table>
+                      <TableHeader>
+                        <TableRow className="bg-slate-50 dark:bg-white/5">
+                          <TableHead className="text-[10px] font-bold uppercase tracking-widest text-slate-400 px-6">
+                            {t("admin.imports.validation.row")}
+                          </TableHead>
+                          {log.columns.map((column) => (
+                            <TableHead key={column} className="text-[10px] font-bold uppercase tracking-widest text-slate-400 whitespace-nowrap">
+                              {column}
+                            </TableHead>
+                          ))}
+                          <TableHead />
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {draftEntries.map(([row, values]) => {
+                          const rowErrors = draftErrors.filter((draftError) => draftError.row === row);
+                          return (
+                            <TableRow key={row} className="border-slate-100 dark:border-slate-900 align-top">
+                              <TableCell className="px-6 py-3 text-xs font-mono text-slate-500">
+                                {row}
+                                {rowErrors.length > 0 && (
+                                  <ul className="mt-2 space-y-1 font-sans text-[10px] text-red-500 min-w-[160px]">
+                                    {rowErrors.map((rowError, index) => (
+                                      <li key={index}>{rowError.message}</li>
+                                    ))}
+                                  </ul>
+                                )}
+                              </TableCell>
+                              {log.columns.map((column) => (
+                                <TableCell key={column} className="py-3">
+                                  <Input
+                                    value={values[column] ?? ""}
+                                    onChange={(e) => updateDraft(row, column, e.target.value)}
+                                    aria-label={`${column} (${row})`}
+                                    className={cn(
+                                      "h-8 min-w-[120px] text-xs rounded-lg",
+                                      isErrorField(row, column) && "border-red-300 dark:border-red-900/50 bg-red-50/50 dark:bg-red-900/10"
+                                    )}
+                                  />
+                                </TableCell>
+                              ))}
+                              <TableCell className="py-3 pr-4">
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => removeDraft(row)}
+                                  title={t("admin.imports.drawer.removeRow")}
+                                  className="h-8 w-8 rounded-lg text-slate-400 hover:text-red-600"
+                                >
+                                  <Trash2 className="h-3.5 w-3.5" />
+                                </Button>
+                              </TableCell>
+                            </TableRow>
+                          );
+                        })}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </section>
+              )}
+            </>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
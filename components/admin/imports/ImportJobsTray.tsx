@@ -0,0 +1,119 @@
+"use client";
+
+import Link from "next/link";
+import { useTranslation } from "react-i18next";
+import { CheckCircle, Loader2, Upload, XCircle } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useJobProgress } from "@/lib/hooks/useJobProgress";
+import {
+  formatStatus,
+  getJobProgress,
+  isJobFinished,
+  type ImportJob,
+} from "@/lib/types/import";
+import { cn } from "@/lib/utils";
+
+/** Jobs listed in the tray, newest first */
+const MAX_TRAY_JOBS = 5;
+
+function JobStatusIcon({ job }: { job: ImportJob }) {
+  if (!isJobFinished(job.status)) {
+    return <Loader2 className="h-4 w-4 text-[#D4AF37] animate-spin" />;
+  }
+  if (job.status === "COMPLETED") {
+    return <CheckCircle className="h-4 w-4 text-green-500" />;
+  }
+  return <XCircle className={cn("h-4 w-4", job.status === "FAILED" ? "text-red-500" : "text-orange-500")} />;
+}
+
+/**
+ * Header tray with live progress of import jobs
+ * Lists jobs running or finished since the admin opened the panel
+ */
+export function ImportJobsTray() {
+  const { t } = useTranslation();
+  const { jobs, activeJobs } = useJobProgress();
+  const trayJobs = jobs.slice(0, MAX_TRAY_JOBS);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative text-slate-500 hover:text-slate-900 dark:hover:text-slate-200"
+          aria-label={t("admin.imports.tray.title")}
+        >
+          <Upload className="h-5 w-5" />
+          {activeJobs.length > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 h-4 min-w-4 px-1 rounded-full bg-[#D4AF37] text-white text-[10px] font-bold flex items-center justify-center">
+              {activeJobs.length}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0 rounded-xl">
+        <div className="px-4 py-3 border-b border-slate-100 dark:border-slate-800">
+          <p className="text-sm font-semibold text-slate-900 dark:text-slate-100">
+            {t("admin.imports.tray.title")}
+          </p>
+          <p className="text-[11px] text-slate-500">
+            {t("admin.imports.tray.running", { count: activeJobs.length })}
+          </p>
+        </div>
+
+        {trayJobs.length === 0 ? (
+          <p className="px-4 py-6 text-center text-xs text-slate-400 font-light">
+            {t("admin.imports.tray.empty")}
+          </p>
+        ) : (
+          <ul className="divide-y divide-slate-100 dark:divide-slate-800">
+            {trayJobs.map((job) => {
+              const progress = getJobProgress(job);
+              return (
+                <li key={job.id} className="px-4 py-3 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <JobStatusIcon job={job} />
+                    <span className="flex-1 min-w-0 truncate text-xs font-medium text-slate-700 dark:text-slate-200">
+                      {job.fileUrl?.split("/").pop() || `Import #${job.id}`}
+                    </span>
+                    <span className="text-[10px] font-bold uppercase tracking-widest text-slate-400">
+                      {isJobFinished(job.status) ? formatStatus(job.status) : `${progress}%`}
+                    </span>
+                  </div>
+                  <div className="h-1 w-full bg-slate-100 dark:bg-white/10 rounded-full overflow-hidden">
+                    <div
+                      className={cn(
+                        "h-full rounded-full transition-all duration-700",
+                        job.status === "FAILED" ? "bg-red-500" : "bg-[#D4AF37]"
+                      )}
+                      style={{ width: `${isJobFinished(job.status) ? 100 : progress}%` }}
+                    />
+                  </div>
+                  <p className="text-[10px] text-slate-400">
+                    {t("admin.imports.tray.counts", {
+                      success: job.successCount || 0,
+                      errors: job.errorCount || 0,
+                      total: job.totalRecords || 0,
+                    })}
+                  </p>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <div className="px-4 py-2 border-t border-slate-100 dark:border-slate-800 text-right">
+          <Link
+            href="/admin/imports"
+            className="text-xs font-medium text-[#D4AF37] hover:text-[#B8962D] no-underline"
+          >
+            {t("admin.imports.tray.viewAll")}
+          </Link>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,183 @@
+"use client";
+
+import { useTranslation } from "react-i18next";
+import { CheckCircle, FileDown, Loader2, ShieldCheck, XCircle } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { downloadCsv, toCsv } from "@/lib/utils/csv";
+import type { ImportRowError, ImportValidationReport } from "@/lib/types/import";
+
+interface ImportValidationPanelProps {
+  fileName: string;
+  report: ImportValidationReport | null;
+  isValidating: boolean;
+  skipInvalidRows: boolean;
+  onSkipInvalidRowsChange: (skip: boolean) => void;
+}
+
+/**
+ * Per-row validation results for the mapped file
+ * Invalid rows block the upload unless the admin chooses to skip them
+ */
+export function ImportValidationPanel({
+  fileName,
+  report,
+  isValidating,
+  skipInvalidRows,
+  onSkipInvalidRowsChange,
+}: ImportValidationPanelProps) {
+  const { t } = useTranslation();
+
+  const handleDownloadReport = () => {
+    if (!report) return;
+    const csv = toCsv<ImportRowError>(report.errors, [
+      { header: "row", value: (error) => error.row },
+      { header: "column", value: (error) => error.column },
+      { header: "value", value: (error) => error.value },
+      { header: "message", value: (error) => error.message },
+    ]);
+    downloadCsv(`${fileName.replace(/\.csv$/i, "")}-errors.csv`, csv);
+  };
+
+  return (
+    <div className="bg-white dark:bg-[#111] border border-slate-200 dark:border-slate-800 rounded-3xl overflow-hidden shadow-xl shadow-slate-200/50 dark:shadow-none">
+      <div className="p-8 border-b border-slate-100 dark:border-slate-800 flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <div className="h-12 w-12 rounded-xl bg-[#D4AF37]/10 flex items-center justify-center shrink-0">
+            {isValidating ? (
+              <Loader2 className="h-6 w-6 text-[#D4AF37] animate-spin" />
+            ) : (
+              <ShieldCheck className="h-6 w-6 text-[#D4AF37]" />
+            )}
+          </div>
+          <div>
+            <h3 className="text-xl font-light text-slate-900 dark:text-slate-100">
+              {t("admin.imports.validation.title")}
+            </h3>
+            <p className="text-xs text-slate-500 dark:text-slate-400 font-light">
+              {isValidating
+                ? t("admin.imports.validation.validating")
+                : report
+                  ? t("admin.imports.validation.description")
+                  : t("admin.imports.validation.waitingForMapping")}
+            </p>
+          </div>
+        </div>
+
+        {report && report.errorCount > 0 && (
+          <Button
+            variant="outline"
+            onClick={handleDownloadReport}
+            className="rounded-xl px-5 border-slate-200 dark:border-slate-800 font-light"
+          >
+            <FileDown className="h-4 w-4 mr-2" />
+            {t("admin.imports.validation.downloadReport")}
+          </Button>
+        )}
+      </div>
+
+      {report && (
+        <>
+          <div className="grid grid-cols-3 gap-4 p-8">
+            <div className="p-4 bg-slate-50 dark:bg-white/5 rounded-2xl border border-slate-100 dark:border-slate-800 text-center">
+              <p className="text-sm font-semibold text-slate-700 dark:text-slate-200">{report.totalRows}</p>
+              <p className="text-[10px] font-bold uppercase tracking-widest text-slate-400">
+                {t("admin.imports.validation.totalRows")}
+              </p>
+            </div>
+            <div className="p-4 bg-slate-50 dark:bg-white/5 rounded-2xl border border-slate-100 dark:border-slate-800 text-center">
+              <div className="flex items-center justify-center gap-2 text-green-600 dark:text-green-500">
+                <CheckCircle className="h-4 w-4" />
+                <span className="text-sm font-semibold">{report.validRowCount}</span>
+              </div>
+              <p className="text-[10px] font-bold uppercase tracking-widest text-slate-400">
+                {t("admin.imports.validation.validRows")}
+              </p>
+            </div>
+            <div className="p-4 bg-slate-50 dark:bg-white/5 rounded-2xl border border-slate-100 dark:border-slate-800 text-center">
+              <div className="flex items-center justify-center gap-2 text-red-600 dark:text-red-500">
+                <XCircle className="h-4 w-4" />
+                <span className="text-sm font-semibold">{report.invalidRowCount}</span>
+              </div>
+              <p className="text-[10px] font-bold uppercase tracking-widest text-slate-400">
+                {t("admin.imports.validation.invalidRows")}
+              </p>
+            </div>
+          </div>
+
+          {report.errorCount === 0 ? (
+            <p className="px-8 pb-8 text-sm text-green-600 dark:text-green-500 font-light">
+              {t("admin.imports.validation.noErrors")}
+            </p>
+          ) : (
+            <>
+              <div className="max-h-96 overflow-y-auto border-t border-slate-100 dark:border-slate-900">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="bg-slate-50 dark:bg-white/5 border-none">
+                      <TableHead className="text-[10px] font-bold uppercase tracking-widest text-slate-400 py-3 px-8 w-20">
+                        {t("admin.imports.validation.row")}
+                      </TableHead>
+                      <TableHead className="text-[10px] font-bold uppercase tracking-widest text-slate-400 py-3">
+                        {t("admin.imports.validation.column")}
+                      </TableHead>
+                      <TableHead className="text-[10px] font-bold uppercase tracking-widest text-slate-400 py-3">
+                        {t("admin.imports.validation.value")}
+                      </TableHead>
+                      <TableHead className="text-[10px] font-bold uppercase tracking-widest text-slate-400 py-3">
+                        {t("admin.imports.validation.message")}
+                      </TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.errors.map((error, index) => (
+                      <TableRow key={index} className="border-slate-100 dark:border-slate-900">
+                        <TableCell className="px-8 py-3 text-xs font-mono text-slate-500">{error.row}</TableCell>
+                        <TableCell className="py-3 text-xs font-mono text-slate-600 dark:text-slate-300">
+                          {error.column || "—"}
+                        </TableCell>
+                        <TableCell className="py-3 text-xs text-slate-600 dark:text-slate-300 max-w-[200px] truncate">
+                          {error.value || "—"}
+                        </TableCell>
+                        <TableCell className="py-3 text-xs text-red-600 dark:text-red-400">{error.message}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              <div className="p-6 bg-slate-50/50 dark:bg-white/5 border-t border-slate-100 dark:border-slate-800 flex flex-col md:flex-row md:items-center justify-between gap-4">
+                <p className="text-xs text-slate-500 font-light">
+                  {report.errors.length < report.errorCount
+                    ? t("admin.imports.validation.showingFirst", {
+                        shown: report.errors.length,
+                        total: report.errorCount,
+                      })
+                    : t("admin.imports.validation.errorCount", { count: report.errorCount })}
+                </p>
+                {report.validRowCount > 0 && (
+                  <label className="flex items-center gap-2 text-xs text-slate-600 dark:text-slate-300 cursor-pointer">
+                    <Checkbox
+                      checked={skipInvalidRows}
+                      onCheckedChange={(checked) => onSkipInvalidRowsChange(checked === true)}
+                    />
+                    {t("admin.imports.validation.skipInvalid", { count: report.validRowCount })}
+                  </label>
+                )}
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
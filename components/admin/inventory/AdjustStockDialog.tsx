@@ -16,7 +16,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Separator } from "@/components/ui/separator";
 import { ArrowRight, Loader2, AlertTriangle, Plus, Minus } from "lucide-react";
 import { toast } from "sonner";
-import { clientApi } from "@/lib/api-client";
+import { inventoryApi } from "@/lib/api/inventory";
 import { useTranslation } from "react-i18next";
 import { cn } from "@/lib/utils";
 
@@ -76,7 +76,7 @@ export function AdjustStockDialog({
 
     setIsSubmitting(true);
     try {
-      const response = await clientApi.adjustStock({
+      const response = await inventoryApi.adjustStock({
         variantId,
         quantityDelta: delta,
         reason,
@@ -25,7 +25,7 @@ import {
   Info,
 } from "lucide-react";
 import { toast } from "sonner";
-import { clientApi } from "@/lib/api-client";
+import { inventoryApi } from "@/lib/api/inventory";
 import { useTranslation } from "react-i18next";
 import { cn } from "@/lib/utils";
 import { ProductImagePlaceholder } from "./ProductImagePlaceholder";
@@ -104,7 +104,7 @@ export function AdjustStockDrawer({
 
     setIsSubmitting(true);
     try {
-      const response = await clientApi.adjustStock({
+      const response = await inventoryApi.adjustStock({
         variantId,
         quantityDelta: delta,
         reason,
@@ -0,0 +1,691 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { CurrencyInput } from "@/components/ui/CurrencyInput";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import {
+  PackagePlus,
+  Loader2,
+  ScanLine,
+  Trash2,
+  Save,
+  Send,
+  CheckCircle2,
+  Ban,
+  AlertTriangle,
+} from "lucide-react";
+import { toast } from "sonner";
+import { useTranslation } from "react-i18next";
+import { AdminErrorDisplay } from "@/components/admin/AdminErrorDisplay";
+import { inventoryApi } from "@/lib/api/inventory";
+import { goodsReceiptsApi } from "@/lib/api/goods-receipts";
+import { useSuppliers } from "@/lib/hooks/useAdminData";
+import { usePermission } from "@/lib/hooks/usePermission";
+import { PERMISSIONS } from "@/lib/constants/permissions";
+import {
+  getGoodsReceiptTotal,
+  type GoodsReceipt,
+  type GoodsReceiptLine,
+  type GoodsReceiptRequest,
+} from "@/lib/types/goods-receipt";
+import type { ApiResult } from "@/lib/types/product";
+import { formatDate, formatVariantAttributes } from "@/lib/utils/order-formatters";
+import { cn } from "@/lib/utils";
+
+interface GoodsReceiptDrawerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Null starts a new draft */
+  receipt: GoodsReceipt | null;
+  onChanged: () => void;
+}
+
+type ReceiptAction = "save" | "submit" | "approve" | "reject" | "delete";
+
+const SUPPLIER_OPTIONS_PARAMS = { active: true, page: 0, size: 100 };
+
+// Helper to format currency for display
+const formatCurrency = (value: number): string => {
+  return new Intl.NumberFormat("vi-VN", {
+    style: "decimal",
+    maximumFractionDigits: 0,
+  }).format(value);
+};
+
+const isValidLine = (line: GoodsReceiptLine) =>
+  Number.isInteger(line.quantity) && line.quantity > 0 && line.unitCost > 0;
+
+/**
+ * Goods receipt editor
+ *
+ * Drafts are edited line by line (SKUs typed or scanned) and submitted for
+ * approval; approvers receive the stock or send the receipt back to draft.
+ * Mount with a fresh key per receipt; the form is seeded on mount.
+ */
+export function GoodsReceiptDrawer({
+  open,
+  onOpenChange,
+  receipt: initialReceipt,
+  onChanged,
+}: GoodsReceiptDrawerProps) {
+  const { t } = useTranslation();
+  const { can } = usePermission();
+  const canCreate = can(PERMISSIONS.INVENTORY_RECEIPT_CREATE);
+  const canApprove = can(PERMISSIONS.INVENTORY_RECEIPT_APPROVE);
+
+  const { data: supplierResult } = useSuppliers(SUPPLIER_OPTIONS_PARAMS, open);
+  const activeSuppliers = supplierResult?.data || [];
+
+  const [receipt, setReceipt] = useState<GoodsReceipt | null>(initialReceipt);
+  const [supplierId, setSupplierId] = useState(initialReceipt?.supplierId || "");
+  const [note, setNote] = useState(initialReceipt?.note || "");
+  const [lines, setLines] = useState<GoodsReceiptLine[]>(initialReceipt?.lines || []);
+  const [skuValue, setSkuValue] = useState("");
+  const [isLookingUp, setIsLookingUp] = useState(false);
+
+  const [pendingAction, setPendingAction] = useState<ReceiptAction | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [approveOpen, setApproveOpen] = useState(false);
+  const [deleteOpen, setDeleteOpen] = useState(false);
+  const [rejectOpen, setRejectOpen] = useState(false);
+  const [rejectReason, setRejectReason] = useState("");
+
+  const status = receipt?.status ?? "DRAFT";
+  const isEditable = canCreate && status === "DRAFT";
+  const isBusy = pendingAction !== null;
+  const totalQuantity = lines.reduce((sum, line) => sum + line.quantity, 0);
+  const totalCost = getGoodsReceiptTotal(lines);
+  const canSave = !!supplierId && lines.length > 0 && lines.every(isValidLine);
+
+  // The current supplier stays selectable on drafts even after it was deactivated
+  const supplierOptions =
+    receipt && !activeSuppliers.some((supplier) => supplier.id === receipt.supplierId)
+      ? [{ id: receipt.supplierId, name: receipt.supplierName }, ...activeSuppliers]
+      : activeSuppliers;
+
+  const updateLine = (variantId: string, changes: Partial<GoodsReceiptLine>) => {
+    setLines((prev) =>
+      prev.map((line) => (line.variantId === variantId ? { ...line, ...changes } : line))
+    );
+  };
+
+  const removeLine = (variantId: string) => {
+    setLines((prev) => prev.filter((line) => line.variantId !== variantId));
+  };
+
+  // Scanning a SKU already on the receipt adds one unit to its line
+  const handleAddSku = async () => {
+    const sku = skuValue.trim();
+    if (!sku) return;
+    setSkuValue("");
+
+    const existing = lines.find((line) => line.sku.toLowerCase() === sku.toLowerCase());
+    if (existing) {
+      updateLine(existing.variantId, { quantity: existing.quantity + 1 });
+      return;
+    }
+
+    setIsLookingUp(true);
+    try {
+      const result = await inventoryApi.getInventories({ skus: [sku], size: 1 });
+      const item = result.data?.find((entry) => entry.sku.toLowerCase() === sku.toLowerCase());
+      if (!item) {
+        toast.error(t("admin.receipts.skuNotFound", { sku }));
+        return;
+      }
+
+      setLines((prev) =>
+        prev.some((line) => line.variantId === item.variantId)
+          ? prev
+          : [
+              ...prev,
+              {
+                variantId: item.variantId,
+                sku: item.sku,
+                productName: item.productName,
+                attributes: item.attributes,
+                quantity: 1,
+                unitCost: item.costPrice || 0,
+              },
+            ]
+      );
+    } finally {
+      setIsLookingUp(false);
+    }
+  };
+
+  const runAction = async <T,>(
+    action: ReceiptAction,
+    request: () => Promise<ApiResult<T>>,
+  ): Promise<ApiResult<T> | null> => {
+    setPendingAction(action);
+    setActionError(null);
+    try {
+      const result = await request();
+      if (result.error) {
+        setActionError(result.error.message || t(`admin.receipts.errors.${action}`));
+        return null;
+      }
+      return result;
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const saveDraft = async (action: ReceiptAction) => {
+    const request: GoodsReceiptRequest = {
+      supplierId,
+      note: note.trim() || undefined,
+      lines: lines.map(({ variantId, quantity, unitCost }) => ({ variantId, quantity, unitCost })),
+    };
+    const result = await runAction(action, () =>
+      receipt
+        ? goodsReceiptsApi.updateGoodsReceipt({ receiptId: receipt.id, request })
+        : goodsReceiptsApi.createGoodsReceipt(request)
+    );
+    if (result?.data) setReceipt(result.data);
+    return result?.data ?? null;
+  };
+
+  const handleSave = async () => {
+    const saved = await saveDraft("save");
+    if (!saved) return;
+    toast.success(t("admin.receipts.saved", { code: saved.code }));
+    onChanged();
+  };
+
+  // Submitting always saves first so the approver sees what is on screen
+  const handleSubmit = async () => {
+    const saved = await saveDraft("submit");
+    if (!saved) return;
+
+    const result = await runAction("submit", () => goodsReceiptsApi.submitGoodsReceipt(saved.id));
+    onChanged();
+    if (!result?.data) return;
+
+    setReceipt(result.data);
+    toast.success(t("admin.receipts.submitted", { code: result.data.code }));
+    onOpenChange(false);
+  };
+
+  const handleApprove = async () => {
+    setApproveOpen(false);
+    if (!receipt) return;
+
+    const result = await runAction("approve", () => goodsReceiptsApi.approveGoodsReceipt(receipt.id));
+    if (!result?.data) return;
+
+    setReceipt(result.data);
+    toast.success(
+      t("admin.receipts.approved", { code: result.data.code, count: result.data.lines.length })
+    );
+    onChanged();
+    onOpenChange(false);
+  };
+
+  const handleReject = async () => {
+    const reason = rejectReason.trim();
+    if (!receipt || !reason) return;
+
+    const result = await runAction("reject", () =>
+      goodsReceiptsApi.rejectGoodsReceipt({ receiptId: receipt.id, reason })
+    );
+    setRejectOpen(false);
+    if (!result?.data) return;
+
+    setRejectReason("");
+    setReceipt(result.data);
+    toast.success(t("admin.receipts.rejected", { code: result.data.code }));
+    onChanged();
+    onOpenChange(false);
+  };
+
+  const handleDelete = async () => {
+    setDeleteOpen(false);
+    if (!receipt) return;
+
+    const result = await runAction("delete", () => goodsReceiptsApi.deleteGoodsReceipt(receipt.id));
+    if (!result) return;
+
+    toast.success(t("admin.receipts.deleted", { code: receipt.code }));
+    onChanged();
+    onOpenChange(false);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent
+        side="right"
+        className="w-full sm:w-[85vw] sm:max-w-[1100px] p-0 gap-0 overflow-y-auto bg-white dark:bg-slate-950 border-l border-slate-200 dark:border-slate-800"
+      >
+        {/* Header */}
+        <SheetHeader className="px-8 pt-8 pb-6 bg-gradient-to-br from-emerald-50 to-teal-50 dark:from-emerald-950/30 dark:to-teal-950/30 border-b border-slate-200 dark:border-slate-800">
+          <div className="flex items-center gap-4">
+            <div className="h-14 w-14 rounded-xl bg-emerald-100 dark:bg-emerald-900/50 flex items-center justify-center shadow-sm">
+              <PackagePlus className="h-7 w-7 text-emerald-600 dark:text-emerald-400" />
+            </div>
+            <div>
+              <SheetTitle className="text-2xl font-bold text-slate-900 dark:text-slate-100">
+                {receipt ? t("admin.receipts.receiptTitle", { code: receipt.code }) : t("admin.receipts.newTitle")}
+              </SheetTitle>
+              <SheetDescription className="text-base mt-1 text-slate-600 dark:text-slate-400">
+                {t(`admin.receipts.statusHints.${status}`)}
+              </SheetDescription>
+            </div>
+            <span className="ml-auto text-xs font-bold uppercase tracking-wider text-slate-600 dark:text-slate-400 bg-white/70 dark:bg-slate-900 px-2 py-1 rounded border border-slate-200 dark:border-slate-800">
+              {t(`admin.receipts.statuses.${status}`)}
+            </span>
+          </div>
+        </SheetHeader>
+
+        <div className="p-8 space-y-8">
+          {status === "DRAFT" && receipt?.rejectionReason && (
+            <div className="flex gap-3 rounded-xl border border-amber-200 bg-amber-50 dark:border-amber-500/20 dark:bg-amber-500/10 p-4 text-sm text-amber-800 dark:text-amber-300">
+              <AlertTriangle className="h-5 w-5 shrink-0" />
+              <p>{t("admin.receipts.rejectionReason", { reason: receipt.rejectionReason })}</p>
+            </div>
+          )}
+
+          {/* Supplier & note */}
+          <section className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="space-y-2">
+              <Label className="text-sm font-semibold text-slate-700 dark:text-slate-300">
+                {t("admin.receipts.supplier")} <span className="text-rose-500">*</span>
+              </Label>
+              <Select value={supplierId} onValueChange={setSupplierId} disabled={!isEditable || isBusy}>
+                <SelectTrigger className="h-11 rounded-xl">
+                  <SelectValue placeholder={t("admin.receipts.selectSupplier")} />
+                </SelectTrigger>
+                <SelectContent>
+                  {supplierOptions.map((supplier) => (
+                    <SelectItem key={supplier.id} value={supplier.id}>
+                      {supplier.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {isEditable && supplierOptions.length === 0 && (
+                <p className="text-xs text-amber-600">{t("admin.receipts.noSuppliers")}</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="receipt-note" className="text-sm font-semibold text-slate-700 dark:text-slate-300">
+                {t("admin.receipts.note")}
+              </Label>
+              <Textarea
+                id="receipt-note"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder={t("admin.receipts.notePlaceholder")}
+                className="rounded-xl resize-none min-h-[44px]"
+                rows={1}
+                disabled={!isEditable || isBusy}
+              />
+            </div>
+          </section>
+
+          {/* Lines */}
+          <section className="space-y-4">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+              <h3 className="text-sm font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider">
+                {t("admin.receipts.lines")}
+              </h3>
+              {isEditable && (
+                <div className="relative sm:w-[320px]">
+                  <ScanLine className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400" />
+                  <Input
+                    value={skuValue}
+                    onChange={(e) => setSkuValue(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") {
+                        e.preventDefault();
+                        handleAddSku();
+                      }
+                    }}
+                    placeholder={t("admin.receipts.skuPlaceholder")}
+                    className="pl-9 h-10 font-mono rounded-xl"
+                    autoComplete="off"
+                    disabled={isBusy}
+                  />
+                  {isLookingUp && (
+                    <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 animate-spin text-slate-400" />
+                  )}
+                </div>
+              )}
+            </div>
+
+            <div className="rounded-xl border border-slate-200 dark:border-slate-800 overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-slate-50 dark:bg-slate-900/50 hover:bg-slate-50">
+                    <TableHead className="font-semibold text-slate-700 dark:text-slate-300">
+                      {t("admin.inventory.product")}
+                    </TableHead>
+                    <TableHead className="text-right w-[120px] font-semibold text-slate-700 dark:text-slate-300">
+                      {t("admin.receipts.quantity")}
+                    </TableHead>
+                    <TableHead className="text-right w-[170px] font-semibold text-slate-700 dark:text-slate-300">
+                      {t("admin.receipts.unitCost")}
+                    </TableHead>
+                    <TableHead className="text-right w-[150px] font-semibold text-slate-700 dark:text-slate-300">
+                      {t("admin.receipts.lineTotal")}
+                    </TableHead>
+                    {isEditable && <TableHead className="w-[50px]" />}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lines.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="h-28 text-center text-sm text-slate-500">
+                        {t("admin.receipts.emptyLines")}
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    lines.map((line) => {
+                      const variantLabel = formatVariantAttributes(line.attributes);
+                      return (
+                        <TableRow key={line.variantId} className="border-slate-100 dark:border-slate-800/50">
+                          <TableCell>
+                            <p className="font-medium text-sm text-slate-900 dark:text-slate-100 truncate max-w-[320px]">
+                              {line.productName || t("admin.inventory.unknownProduct")}
+                            </p>
+                            <code className="text-xs font-mono text-slate-500">{line.sku}</code>
+                            {variantLabel && (
+                              <span className="ml-2 text-xs text-slate-400">{variantLabel}</span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right tabular-nums">
+                            {isEditable ? (
+                              <Input
+                                type="number"
+                                min="1"
+                                value={line.quantity || ""}
+                                onChange={(e) =>
+                                  updateLine(line.variantId, {
+                                    quantity: Math.max(0, parseInt(e.target.value) || 0),
+                                  })
+                                }
+                                aria-label={t("admin.receipts.quantityFor", { sku: line.sku })}
+                                className={cn(
+                                  "h-9 text-right tabular-nums rounded-lg",
+                                  line.quantity <= 0 && "border-rose-300"
+                                )}
+                              />
+                            ) : (
+                              line.quantity
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right tabular-nums">
+                            {isEditable ? (
+                              <CurrencyInput
+                                value={line.unitCost || undefined}
+                                onChange={(value) => updateLine(line.variantId, { unitCost: value ?? 0 })}
+                                aria-label={t("admin.receipts.unitCostFor", { sku: line.sku })}
+                                error={line.unitCost <= 0}
+                                className="h-9 text-right rounded-lg"
+                              />
+                            ) : (
+                              `${formatCurrency(line.unitCost)} ₫`
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right tabular-nums font-medium text-slate-900 dark:text-slate-100">
+                            {formatCurrency(line.quantity * line.unitCost)} ₫
+                          </TableCell>
+                          {isEditable && (
+                            <TableCell>
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => removeLine(line.variantId)}
+                                className="h-8 w-8 text-slate-400 hover:text-rose-600"
+                                title={t("common.remove")}
+                                disabled={isBusy}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </TableCell>
+                          )}
+                        </TableRow>
+                      );
+                    })
+                  )}
+                </TableBody>
+                {lines.length > 0 && (
+                  <TableFooter>
+                    <TableRow className="bg-slate-50 dark:bg-slate-900/50">
+                      <TableCell className="font-semibold text-slate-700 dark:text-slate-300">
+                        {t("admin.receipts.totals", { count: lines.length })}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums font-semibold">{totalQuantity}</TableCell>
+                      <TableCell />
+                      <TableCell className="text-right tabular-nums font-bold text-emerald-700 dark:text-emerald-400">
+                        {formatCurrency(totalCost)} ₫
+                      </TableCell>
+                      {isEditable && <TableCell />}
+                    </TableRow>
+                  </TableFooter>
+                )}
+              </Table>
+            </div>
+          </section>
+
+          {/* Audit trail */}
+          {receipt && (
+            <section className="grid grid-cols-1 sm:grid-cols-3 gap-3 text-xs">
+              <div className="rounded-lg bg-slate-50 dark:bg-slate-900 p-3">
+                <p className="uppercase tracking-wide text-slate-400">{t("admin.receipts.createdAt")}</p>
+                <p className="mt-1 text-slate-700 dark:text-slate-300">
+                  {formatDate(receipt.createdAt)}
+                  {receipt.createdBy?.username && ` · ${receipt.createdBy.username}`}
+                </p>
+              </div>
+              <div className="rounded-lg bg-slate-50 dark:bg-slate-900 p-3">
+                <p className="uppercase tracking-wide text-slate-400">{t("admin.receipts.submittedAt")}</p>
+                <p className="mt-1 text-slate-700 dark:text-slate-300">
+                  {receipt.submittedAt ? formatDate(receipt.submittedAt) : "—"}
+                </p>
+              </div>
+              <div className="rounded-lg bg-slate-50 dark:bg-slate-900 p-3">
+                <p className="uppercase tracking-wide text-slate-400">{t("admin.receipts.approvedAt")}</p>
+                <p className="mt-1 text-slate-700 dark:text-slate-300">
+                  {receipt.approvedAt ? formatDate(receipt.approvedAt) : "—"}
+                  {receipt.approvedBy?.username && ` · ${receipt.approvedBy.username}`}
+                </p>
+              </div>
+            </section>
+          )}
+
+          {actionError && (
+            <AdminErrorDisplay
+              title={t("admin.receipts.actionFailed")}
+              items={[{ message: actionError }]}
+              onClose={() => setActionError(null)}
+            />
+          )}
+
+          {/* Actions */}
+          <div className="flex flex-wrap items-center justify-end gap-3 pt-4 border-t border-slate-200 dark:border-slate-800">
+            {isEditable && receipt && (
+              <Button
+                type="button"
+                variant="ghost"
+                onClick={() => setDeleteOpen(true)}
+                disabled={isBusy}
+                className="mr-auto h-12 rounded-xl text-rose-600 hover:text-rose-700 hover:bg-rose-50 dark:hover:bg-rose-500/10"
+              >
+                {pendingAction === "delete" ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Trash2 className="mr-2 h-4 w-4" />
+                )}
+                {t("admin.receipts.deleteDraft")}
+              </Button>
+            )}
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isBusy}
+              className="px-6 h-12 rounded-xl"
+            >
+              {t("common.close")}
+            </Button>
+
+            {isEditable && (
+              <>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={handleSave}
+                  disabled={isBusy || !canSave}
+                  className="px-6 h-12 rounded-xl"
+                >
+                  {pendingAction === "save" ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Save className="mr-2 h-4 w-4" />
+                  )}
+                  {t("admin.receipts.saveDraft")}
+                </Button>
+                <Button
+                  type="button"
+                  onClick={handleSubmit}
+                  disabled={isBusy || !canSave}
+                  className="px-8 h-12 rounded-xl font-semibold bg-emerald-600 hover:bg-emerald-700 text-white"
+                >
+                  {pendingAction === "submit" ? (
+                    <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                  ) : (
+                    <Send className="mr-2 h-5 w-5" />
+                  )}
+                  {t("admin.receipts.submit")}
+                </Button>
+              </>
+            )}
+
+            {status === "SUBMITTED" && canApprove && (
+              <>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setRejectOpen(true)}
+                  disabled={isBusy}
+                  className="px-6 h-12 rounded-xl text-amber-700 border-amber-200 hover:bg-amber-50 dark:text-amber-400 dark:border-amber-500/30 dark:hover:bg-amber-500/10"
+                >
+                  {pendingAction === "reject" ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Ban className="mr-2 h-4 w-4" />
+                  )}
+                  {t("admin.receipts.reject")}
+                </Button>
+                <Button
+                  type="button"
+                  onClick={() => setApproveOpen(true)}
+                  disabled={isBusy}
+                  className="px-8 h-12 rounded-xl font-semibold bg-emerald-600 hover:bg-emerald-700 text-white"
+                >
+                  {pendingAction === "approve" ? (
+                    <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                  ) : (
+                    <CheckCircle2 className="mr-2 h-5 w-5" />
+                  )}
+                  {t("admin.receipts.approve")}
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+
+        <ConfirmDialog
+          open={approveOpen}
+          onOpenChange={setApproveOpen}
+          title={t("admin.receipts.confirmApprove", { code: receipt?.code })}
+          description={t("admin.receipts.confirmApproveDesc", {
+            count: lines.length,
+            quantity: totalQuantity,
+          })}
+          confirmText={t("admin.receipts.approve")}
+          cancelText={t("common.cancel")}
+          onConfirm={handleApprove}
+        />
+
+        <ConfirmDialog
+          open={deleteOpen}
+          onOpenChange={setDeleteOpen}
+          title={t("admin.receipts.confirmDelete", { code: receipt?.code })}
+          description={t("admin.receipts.confirmDeleteDesc")}
+          confirmText={t("common.delete")}
+          cancelText={t("common.cancel")}
+          variant="destructive"
+          onConfirm={handleDelete}
+        />
+
+        <Dialog open={rejectOpen} onOpenChange={(next) => !isBusy && setRejectOpen(next)}>
+          <DialogContent className="bg-white dark:bg-slate-900 border border-gray-200 dark:border-slate-800">
+            <DialogHeader>
+              <DialogTitle>{t("admin.receipts.rejectTitle", { code: receipt?.code })}</DialogTitle>
+              <DialogDescription>{t("admin.receipts.rejectDescription")}</DialogDescription>
+            </DialogHeader>
+            <Textarea
+              value={rejectReason}
+              onChange={(e) => setRejectReason(e.target.value)}
+              placeholder={t("admin.receipts.rejectPlaceholder")}
+              className="min-h-[100px] resize-none"
+              autoFocus
+            />
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setRejectOpen(false)} disabled={isBusy}>
+                {t("common.cancel")}
+              </Button>
+              <Button
+                onClick={handleReject}
+                disabled={isBusy || !rejectReason.trim()}
+                className="bg-amber-600 hover:bg-amber-700 text-white"
+              >
+                {pendingAction === "reject" && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {t("admin.receipts.reject")}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useMemo } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import Image from "next/image";
 import {
   Sheet,
@@ -24,12 +24,14 @@ import {
   AlertTriangle,
   CheckCircle2,
   Info,
+  FileUp,
 } from "lucide-react";
 import { toast } from "sonner";
-import { clientApi } from "@/lib/api-client";
+import { inventoryApi } from "@/lib/api/inventory";
 import { useTranslation } from "react-i18next";
 import { ProductImagePlaceholder } from "./ProductImagePlaceholder";
 import { cn } from "@/lib/utils";
+import { parseReorderSuggestionsCsv, type ReorderPrefill } from "@/lib/utils/reorder";
 
 interface ImportStockDrawerProps {
   open: boolean;
@@ -40,6 +42,8 @@ interface ImportStockDrawerProps {
   currentStock: number;
   thumbnailUrl?: string;
   currentCostPrice?: number;
+  /** Initial quantity (and price) from a reorder suggestion */
+  prefill?: ReorderPrefill | null;
   onSuccess: () => void;
 }
 
@@ -60,6 +64,7 @@ export function ImportStockDrawer({
   currentStock,
   thumbnailUrl,
   currentCostPrice = 0,
+  prefill,
   onSuccess,
 }: ImportStockDrawerProps) {
   const { t } = useTranslation();
@@ -68,6 +73,7 @@ export function ImportStockDrawer({
   const [note, setNote] = useState<string>("");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [imageError, setImageError] = useState(false);
+  const suggestionsInputRef = useRef<HTMLInputElement>(null);
 
   // Calculate values
   const afterImport = currentStock + (quantity || 0);
@@ -89,12 +95,35 @@ export function ImportStockDrawer({
   // Reset form when drawer opens
   useEffect(() => {
     if (open) {
-      setQuantity(1);
-      setImportPrice(currentCostPrice || undefined);
-      setNote("");
+      setQuantity(prefill?.quantity || 1);
+      setImportPrice(prefill?.importPrice || currentCostPrice || undefined);
+      setNote(prefill ? t("admin.inventory.import.reorderNote") : "");
       setImageError(false);
     }
-  }, [open, currentCostPrice]);
+  }, [open, currentCostPrice, prefill, t]);
+
+  // Pre-fill from an exported reorder suggestions file
+  const handleSuggestionsFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      const suggestion = parseReorderSuggestionsCsv(await file.text()).get(variantSku.toLowerCase());
+      if (!suggestion) {
+        toast.error(t("admin.inventory.import.suggestionNotFound", { sku: variantSku }));
+        return;
+      }
+      setQuantity(suggestion.quantity);
+      if (suggestion.importPrice) setImportPrice(suggestion.importPrice);
+      setNote(t("admin.inventory.import.reorderNote"));
+      toast.success(t("admin.inventory.import.suggestionApplied", { quantity: suggestion.quantity }));
+    } catch (error) {
+      // Parser messages are English; the admin always gets the translated text
+      console.error("Error reading reorder suggestions:", error);
+      toast.error(t("admin.inventory.import.suggestionInvalid"));
+    }
+  };
 
   const handleClose = () => {
     onOpenChange(false);
@@ -120,7 +149,7 @@ export function ImportStockDrawer({
 
     setIsSubmitting(true);
     try {
-      const response = await clientApi.importStock({
+      const response = await inventoryApi.importStock({
         variantId,
         quantity,
         importPrice,
@@ -247,9 +276,28 @@ export function ImportStockDrawer({
 
           {/* Right Section - Input Form */}
           <div className="lg:w-3/5 p-8 flex flex-col">
-            <h3 className="text-sm font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-6">
-              {t("admin.inventory.import.inputSection")}
-            </h3>
+            <div className="flex items-center justify-between mb-6">
+              <h3 className="text-sm font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider">
+                {t("admin.inventory.import.inputSection")}
+              </h3>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => suggestionsInputRef.current?.click()}
+                className="gap-1.5 h-8 text-xs text-slate-500 hover:text-slate-900 dark:hover:text-slate-200"
+              >
+                <FileUp className="h-3.5 w-3.5" />
+                {t("admin.inventory.import.loadSuggestions")}
+              </Button>
+              <input
+                ref={suggestionsInputRef}
+                type="file"
+                accept=".csv,text/csv"
+                onChange={handleSuggestionsFile}
+                className="hidden"
+              />
+            </div>
 
             <form onSubmit={handleSubmit} className="flex-1 flex flex-col">
               <div className="space-y-6 flex-1">
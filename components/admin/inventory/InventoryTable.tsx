@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useCallback } from "react";
 import Image from "next/image";
+import Link from "next/link";
 import {
   Table,
   TableBody,
@@ -22,13 +23,22 @@ import {
   RefreshCw, 
   Loader2,
   AlertTriangle,
-  CheckCircle2
+  CheckCircle2,
+  ClipboardCheck,
+  ClipboardList,
+  BellRing,
+  Pencil,
+  Filter
 } from "lucide-react";
-import { clientApi } from "@/lib/api-client";
+import { toast } from "sonner";
+import { inventoryApi } from "@/lib/api/inventory";
+import { isAbortedResult } from "@/lib/api-client";
 import { useTranslation } from "react-i18next";
 import { ImportStockDrawer } from "./ImportStockDrawer";
 import { AdjustStockDrawer } from "./AdjustStockDrawer";
 import { TransactionHistoryDrawer } from "./TransactionHistoryDrawer";
+import { StockTakeDrawer } from "./StockTakeDrawer";
+import { ReorderAlertsDrawer } from "./ReorderAlertsDrawer";
 import {
   Tooltip,
   TooltipContent,
@@ -36,6 +46,11 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { ProductImagePlaceholder } from "./ProductImagePlaceholder";
+import { InventoryItem, isBelowReorderLevel } from "@/lib/types/inventory";
+import { usePermission } from "@/lib/hooks/usePermission";
+import { PERMISSIONS } from "@/lib/constants/permissions";
+import type { ReorderPrefill, ReorderSuggestion } from "@/lib/utils/reorder";
+import { cn } from "@/lib/utils";
 
 // Inline component to handle image errors in table
 function ProductThumbnail({ src, alt }: { src?: string; alt: string }) {
@@ -59,13 +74,6 @@ function ProductThumbnail({ src, alt }: { src?: string; alt: string }) {
   );
 }
 
-interface InventoryApiResponse {
-  data: InventoryItem[];
-  meta?: {
-    totalElements?: number;
-  };
-}
-
 interface AuditorResponse {
   username?: string;
   email?: string;
@@ -73,27 +81,98 @@ interface AuditorResponse {
   avatarUrl?: string;
 }
 
-interface InventoryItem {
-  id: string;
-  variantId: string;
-  productId: string;
-  sku: string;
-  quantity: number;
-  reservedQuantity: number;
-  availableStock: number;
-  reorderLevel?: number;
-  productName?: string;
-  categoryName?: string;
-  thumbnailUrl?: string;
-  attributes?: Record<string, string>;
-  price?: number;
-  costPrice?: number;
-}
+// Inline editor for a variant's reorder level; empty clears it
+function ReorderLevelCell({
+  item,
+  editable,
+  onSaved,
+}: {
+  item: InventoryItem;
+  editable: boolean;
+  onSaved: (item: InventoryItem) => void;
+}) {
+  const { t } = useTranslation();
+  const [isEditing, setIsEditing] = useState(false);
+  const [value, setValue] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const startEditing = () => {
+    setValue(item.reorderLevel === undefined || item.reorderLevel === null ? "" : String(item.reorderLevel));
+    setIsEditing(true);
+  };
+
+  const save = async () => {
+    const reorderLevel = value.trim() === "" ? null : Math.max(0, parseInt(value) || 0);
+    if (reorderLevel === (item.reorderLevel ?? null)) {
+      setIsEditing(false);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const result = await inventoryApi.updateReorderLevel({ variantId: item.variantId, reorderLevel });
+      if (result.error) {
+        toast.error(result.error.message || t("admin.inventory.reorderLevel.error"));
+        return;
+      }
+      onSaved({ ...item, ...result.data, reorderLevel: reorderLevel ?? undefined });
+      setIsEditing(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isEditing) {
+    return (
+      <div className="flex items-center justify-end gap-1" onClick={(e) => e.stopPropagation()}>
+        <Input
+          type="number"
+          min="0"
+          autoFocus
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          onBlur={save}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") save();
+            if (e.key === "Escape") setIsEditing(false);
+          }}
+          disabled={isSaving}
+          placeholder="—"
+          aria-label={t("admin.inventory.reorderLevel.label")}
+          className="h-8 w-20 text-right tabular-nums"
+        />
+        {isSaving && <Loader2 className="h-3.5 w-3.5 animate-spin text-slate-400" />}
+      </div>
+    );
+  }
 
-const LOW_STOCK_THRESHOLD = 10;
+  return (
+    <div className="flex items-center justify-end gap-1 group/reorder">
+      <span className="text-sm tabular-nums text-slate-500">
+        {item.reorderLevel ?? "—"}
+      </span>
+      {editable && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 opacity-0 group-hover/reorder:opacity-100 text-slate-400 hover:text-slate-700"
+          onClick={(e) => {
+            e.stopPropagation();
+            startEditing();
+          }}
+          title={t("admin.inventory.reorderLevel.edit")}
+        >
+          <Pencil className="h-3 w-3" />
+        </Button>
+      )}
+    </div>
+  );
+}
 
 export function InventoryTable() {
   const { t } = useTranslation();
+  const { can } = usePermission();
+  const canManageAlerts = can(PERMISSIONS.INVENTORY_STOCK_ALERT);
   const [searchTerm, setSearchTerm] = useState("");
   const [items, setItems] = useState<InventoryItem[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -108,6 +187,15 @@ export function InventoryTable() {
   const [adjustDialogOpen, setAdjustDialogOpen] = useState(false);
   const [historyDialogOpen, setHistoryDialogOpen] = useState(false);
   const [selectedItem, setSelectedItem] = useState<InventoryItem | null>(null);
+  const [stockTakeOpen, setStockTakeOpen] = useState(false);
+  // Bumped per session so each stock take starts empty with a new reference
+  const [stockTakeSession, setStockTakeSession] = useState(0);
+  const [alertsOpen, setAlertsOpen] = useState(false);
+  const [importPrefill, setImportPrefill] = useState<ReorderPrefill | null>(null);
+
+  // Reorder filter and alert count
+  const [needsReorder, setNeedsReorder] = useState(false);
+  const [alertCount, setAlertCount] = useState(0);
 
   // Debounced search term
   const [debouncedTerm, setDebouncedTerm] = useState(searchTerm);
@@ -120,39 +208,58 @@ export function InventoryTable() {
     return () => clearTimeout(timer);
   }, [searchTerm]);
 
-  // Reset page when search term changes
+  // Reset page when search term or filter changes
   useEffect(() => {
     setCurrentPage(0);
-  }, [debouncedTerm]);
+  }, [debouncedTerm, needsReorder]);
 
-  const fetchData = useCallback(async () => {
+  const fetchData = useCallback(async (signal?: AbortSignal) => {
     setIsLoading(true);
     try {
-      const response = await clientApi.getInventories({ 
-        page: currentPage,
-        size: pageSize,
-        keyword: debouncedTerm 
-      });
+      const result = await inventoryApi.getInventories(
+        {
+          page: currentPage,
+          size: pageSize,
+          keyword: debouncedTerm,
+          needsReorder,
+        },
+        { signal },
+      );
 
-      if (response.data) {
-        const inventoryData = response.data as InventoryApiResponse;
-        setItems(inventoryData.data || []);
-        setTotalElements(inventoryData.meta?.totalElements || 0);
+      // A newer search superseded this request
+      if (isAbortedResult(result)) return;
+
+      if (result.error) {
+        console.error("Failed to fetch inventory data", result.error);
+      } else {
+        setItems(result.data || []);
+        setTotalElements(result.meta?.totalElements || 0);
       }
-    } catch (error) {
-      console.error("Failed to fetch inventory data", error);
     } finally {
-      setIsLoading(false);
+      if (!signal?.aborted) setIsLoading(false);
     }
-  }, [currentPage, pageSize, debouncedTerm]);
+  }, [currentPage, pageSize, debouncedTerm, needsReorder]);
+
+  const fetchAlertCount = useCallback(async () => {
+    if (!canManageAlerts) return;
+    const result = await inventoryApi.getInventories({ needsReorder: true, page: 0, size: 1 });
+    if (!result.error) setAlertCount(result.meta?.totalElements || 0);
+  }, [canManageAlerts]);
+
+  useEffect(() => {
+    fetchAlertCount();
+  }, [fetchAlertCount]);
 
   // Fetch when page or debounced term changes
   useEffect(() => {
-      fetchData();
+      const controller = new AbortController();
+      fetchData(controller.signal);
+      return () => controller.abort();
   }, [fetchData]);
 
   const handleAction = (action: 'import' | 'adjust' | 'history', item: InventoryItem) => {
       setSelectedItem(item);
+      setImportPrefill(null);
       if (action === 'import') setImportDialogOpen(true);
       if (action === 'adjust') setAdjustDialogOpen(true);
       if (action === 'history') setHistoryDialogOpen(true);
@@ -160,12 +267,27 @@ export function InventoryTable() {
 
   const handleRefresh = () => {
       fetchData();
+      fetchAlertCount();
+  };
+
+  const handleReceiveSuggestion = (suggestion: ReorderSuggestion) => {
+      setAlertsOpen(false);
+      setSelectedItem(suggestion.item);
+      setImportPrefill({
+        quantity: suggestion.suggestedQuantity,
+        importPrice: suggestion.item.costPrice,
+      });
+      setImportDialogOpen(true);
+  };
+
+  const handleReorderLevelSaved = (updated: InventoryItem) => {
+      setItems((prev) => prev.map((item) => (item.id === updated.id ? updated : item)));
+      fetchAlertCount();
   };
 
   const getStockStatus = (item: InventoryItem) => {
-    const threshold = item.reorderLevel ?? LOW_STOCK_THRESHOLD;
     if (item.availableStock <= 0) return 'out';
-    if (item.availableStock <= threshold) return 'low';
+    if (isBelowReorderLevel(item)) return 'low';
     return 'ok';
   };
 
@@ -228,16 +350,67 @@ export function InventoryTable() {
             className="pl-9 bg-white dark:bg-slate-950 border-slate-200 dark:border-slate-800 h-9"
           />
         </div>
-        <Button 
-          variant="outline" 
-          size="sm" 
-          onClick={handleRefresh} 
-          className="gap-2 h-9"
-          disabled={isLoading}
-        >
-          <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
-          {t("common.refresh")}
-        </Button>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setNeedsReorder((value) => !value)}
+            className={cn(
+              "gap-2 h-9",
+              needsReorder && "border-amber-300 bg-amber-50 text-amber-700 hover:bg-amber-100 dark:bg-amber-900/20 dark:text-amber-400"
+            )}
+            aria-pressed={needsReorder}
+          >
+            <Filter className="h-4 w-4" />
+            {t("admin.inventory.reorderLevel.needsReorder")}
+          </Button>
+          {canManageAlerts && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setAlertsOpen(true)}
+              className="gap-2 h-9"
+            >
+              <BellRing className="h-4 w-4" />
+              {t("admin.inventory.alerts.open")}
+              {alertCount > 0 && (
+                <span className="ml-0.5 px-1.5 rounded-full bg-amber-500 text-white text-[10px] font-bold">
+                  {alertCount}
+                </span>
+              )}
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              setStockTakeSession((session) => session + 1);
+              setStockTakeOpen(true);
+            }}
+            className="gap-2 h-9"
+          >
+            <ClipboardCheck className="h-4 w-4" />
+            {t("admin.inventory.stockTake.open")}
+          </Button>
+          {can(PERMISSIONS.INVENTORY_RECEIPT_VIEW) && (
+            <Button asChild variant="outline" size="sm" className="gap-2 h-9">
+              <Link href="/admin/receipts" className="no-underline">
+                <ClipboardList className="h-4 w-4" />
+                {t("admin.inventory.receipts")}
+              </Link>
+            </Button>
+          )}
+          <Button 
+            variant="outline" 
+            size="sm" 
+            onClick={handleRefresh} 
+            className="gap-2 h-9"
+            disabled={isLoading}
+          >
+            <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+            {t("common.refresh")}
+          </Button>
+        </div>
       </div>
 
       {/* Table */}
@@ -257,6 +430,9 @@ export function InventoryTable() {
               <TableHead className="text-right w-[100px] font-semibold text-slate-700 dark:text-slate-300">
                 {t("admin.inventory.reserved")}
               </TableHead>
+              <TableHead className="text-right w-[110px] font-semibold text-slate-700 dark:text-slate-300">
+                {t("admin.inventory.reorderLevel.label")}
+              </TableHead>
               <TableHead className="w-[110px] font-semibold text-slate-700 dark:text-slate-300">
                 {t("admin.inventory.status.label")}
               </TableHead>
@@ -268,7 +444,7 @@ export function InventoryTable() {
           <TableBody>
             {isLoading && items.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={6} className="h-32 text-center">
+                <TableCell colSpan={7} className="h-32 text-center">
                   <div className="flex flex-col items-center justify-center gap-2">
                     <Loader2 className="h-6 w-6 animate-spin text-slate-400" />
                     <span className="text-sm text-slate-500">{t("common.loading")}</span>
@@ -277,7 +453,7 @@ export function InventoryTable() {
               </TableRow>
             ) : items.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={6} className="h-32 text-center">
+                <TableCell colSpan={7} className="h-32 text-center">
                   <div className="flex flex-col items-center justify-center gap-2">
                     <Package className="h-10 w-10 text-slate-300" />
                     <span className="text-sm text-slate-500">{t("admin.inventory.noResults")}</span>
@@ -322,9 +498,9 @@ export function InventoryTable() {
                   {/* Available (Highlighted) */}
                   <TableCell className="text-right">
                     <span className={`text-lg font-bold tabular-nums ${
-                      item.availableStock <= 0 
+                      getStockStatus(item) === 'out'
                         ? 'text-rose-600 dark:text-rose-500' 
-                        : item.availableStock <= (item.reorderLevel ?? LOW_STOCK_THRESHOLD)
+                        : getStockStatus(item) === 'low'
                           ? 'text-amber-600 dark:text-amber-500'
                           : 'text-slate-900 dark:text-slate-100'
                     }`}>
@@ -339,6 +515,15 @@ export function InventoryTable() {
                     </span>
                   </TableCell>
 
+                  {/* Reorder Level */}
+                  <TableCell className="text-right">
+                    <ReorderLevelCell
+                      item={item}
+                      editable={canManageAlerts}
+                      onSaved={handleReorderLevelSaved}
+                    />
+                  </TableCell>
+
                   {/* Status Badge */}
                   <TableCell>
                     {renderStockBadge(item)}
@@ -436,6 +621,19 @@ export function InventoryTable() {
       </div>
 
       {/* Dialogs */}
+      {canManageAlerts && (
+        <ReorderAlertsDrawer
+          open={alertsOpen}
+          onOpenChange={setAlertsOpen}
+          onReceive={handleReceiveSuggestion}
+        />
+      )}
+      <StockTakeDrawer
+        key={stockTakeSession}
+        open={stockTakeOpen}
+        onOpenChange={setStockTakeOpen}
+        onSuccess={handleRefresh}
+      />
       {selectedItem && (
         <>
           <ImportStockDrawer 
@@ -447,6 +645,7 @@ export function InventoryTable() {
             currentStock={selectedItem.availableStock}
             thumbnailUrl={selectedItem.thumbnailUrl}
             currentCostPrice={selectedItem.costPrice}
+            prefill={importPrefill}
             onSuccess={handleRefresh}
           />
           <AdjustStockDrawer 
@@ -0,0 +1,377 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  BellRing,
+  FileDown,
+  Loader2,
+  ArrowDownToLine,
+  RefreshCw,
+  PackageCheck,
+  AlertTriangle,
+} from "lucide-react";
+import { useTranslation } from "react-i18next";
+import { AdminErrorDisplay } from "@/components/admin/AdminErrorDisplay";
+import { inventoryApi } from "@/lib/api/inventory";
+import { downloadCsv } from "@/lib/utils/csv";
+import {
+  REORDER_COVER_DAYS,
+  SALES_VELOCITY_WINDOW_DAYS,
+  buildReorderSuggestion,
+  toReorderSuggestionsCsv,
+  type ReorderSuggestion,
+} from "@/lib/utils/reorder";
+import type { InventoryItem } from "@/lib/types/inventory";
+import { cn } from "@/lib/utils";
+
+/** Velocity requests in flight at once */
+const VELOCITY_CONCURRENCY = 3;
+
+interface ReorderAlertsDrawerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Open the import drawer pre-filled with a suggestion */
+  onReceive: (suggestion: ReorderSuggestion) => void;
+}
+
+/**
+ * Variants at or below their reorder level, with suggested reorder quantities
+ * Velocity is measured per variant after the list loads, so rows fill in progressively
+ * Variants whose velocity request fails stay unmeasured until retried
+ */
+export function ReorderAlertsDrawer({ open, onOpenChange, onReceive }: ReorderAlertsDrawerProps) {
+  const { t } = useTranslation();
+  const [items, setItems] = useState<InventoryItem[]>([]);
+  const [velocities, setVelocities] = useState<Map<string, number>>(new Map());
+  const [failedIds, setFailedIds] = useState<Set<string>>(new Set());
+  const [quantities, setQuantities] = useState<Map<string, number>>(new Map());
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const measureVelocities = useCallback(async (variantIds: string[], signal: AbortSignal) => {
+    // Small worker pool so large alert lists don't flood the backend
+    const queue = [...variantIds];
+    const worker = async () => {
+      for (let next = queue.shift(); next; next = queue.shift()) {
+        const variantId = next;
+        const velocity = await inventoryApi.getVariantSalesVelocity(variantId, { signal });
+        if (signal.aborted) return;
+        if (velocity.error) {
+          setFailedIds((prev) => new Set(prev).add(variantId));
+        } else {
+          setVelocities((prev) => new Map(prev).set(variantId, velocity.data ?? 0));
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: VELOCITY_CONCURRENCY }, worker));
+  }, []);
+
+  useEffect(() => {
+    if (!open) return;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    const load = async () => {
+      setIsLoading(true);
+      setError(null);
+      setVelocities(new Map());
+      setFailedIds(new Set());
+      setQuantities(new Map());
+      setSelectedIds(new Set());
+
+      const result = await inventoryApi.getAllInventories({ needsReorder: true });
+      if (controller.signal.aborted) return;
+      if (result.error) {
+        setError(result.error.message || t("admin.inventory.alerts.loadError"));
+        setIsLoading(false);
+        return;
+      }
+
+      const alertItems = result.data || [];
+      setItems(alertItems);
+      setIsLoading(false);
+
+      await measureVelocities(
+        alertItems.map((item) => item.variantId),
+        controller.signal,
+      );
+    };
+
+    load();
+    return () => controller.abort();
+  }, [open, reloadKey, t, measureVelocities]);
+
+  const handleRetryFailed = () => {
+    const signal = controllerRef.current?.signal;
+    if (!signal || signal.aborted) return;
+    const variantIds = [...failedIds];
+    setFailedIds(new Set());
+    measureVelocities(variantIds, signal);
+  };
+
+  const suggestions = items.map((item) => {
+    const velocity = velocities.get(item.variantId);
+    const suggestion = buildReorderSuggestion(item, velocity ?? 0);
+    const override = quantities.get(item.variantId);
+    return {
+      suggestion: override === undefined ? suggestion : { ...suggestion, suggestedQuantity: override },
+      isMeasured: velocity !== undefined,
+      isFailed: failedIds.has(item.variantId),
+    };
+  });
+  const measuredCount = suggestions.filter((entry) => entry.isMeasured).length;
+  const isMeasuring = measuredCount + failedIds.size < items.length;
+
+  const toggleSelected = (variantId: string, checked: boolean) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(variantId);
+      else next.delete(variantId);
+      return next;
+    });
+  };
+
+  const handleExport = () => {
+    // Unmeasured variants have no real suggestion to export
+    const rows = suggestions
+      .filter((entry) => entry.isMeasured)
+      .map((entry) => entry.suggestion)
+      .filter((suggestion) => selectedIds.size === 0 || selectedIds.has(suggestion.item.variantId));
+    const date = new Date().toISOString().slice(0, 10);
+    downloadCsv(`reorder-suggestions-${date}.csv`, toReorderSuggestionsCsv(rows));
+  };
+
+  const allSelected = items.length > 0 && selectedIds.size === items.length;
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent
+        side="right"
+        className="w-full sm:w-[80vw] sm:max-w-[1100px] p-0 gap-0 overflow-y-auto bg-white dark:bg-slate-950 border-l border-slate-200 dark:border-slate-800"
+      >
+        {/* Header */}
+        <SheetHeader className="px-8 pt-8 pb-6 bg-gradient-to-br from-amber-50 to-rose-50 dark:from-amber-950/30 dark:to-rose-950/30 border-b border-slate-200 dark:border-slate-800">
+          <div className="flex items-center gap-4">
+            <div className="h-14 w-14 rounded-xl bg-amber-100 dark:bg-amber-900/50 flex items-center justify-center shadow-sm">
+              <BellRing className="h-7 w-7 text-amber-600 dark:text-amber-400" />
+            </div>
+            <div>
+              <SheetTitle className="text-2xl font-bold text-slate-900 dark:text-slate-100">
+                {t("admin.inventory.alerts.title")}
+              </SheetTitle>
+              <SheetDescription className="text-base mt-1 text-slate-600 dark:text-slate-400">
+                {t("admin.inventory.alerts.description", {
+                  window: SALES_VELOCITY_WINDOW_DAYS,
+                  cover: REORDER_COVER_DAYS,
+                })}
+              </SheetDescription>
+            </div>
+          </div>
+        </SheetHeader>
+
+        <div className="p-8 space-y-6">
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm text-slate-500">
+              {isLoading
+                ? t("common.loading")
+                : isMeasuring
+                  ? t("admin.inventory.alerts.measuring", { done: measuredCount, total: items.length })
+                  : t("admin.inventory.alerts.count", { count: items.length })}
+            </p>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setReloadKey((key) => key + 1)}
+                disabled={isLoading}
+                className="gap-2 h-9"
+              >
+                <RefreshCw className={cn("h-4 w-4", isLoading && "animate-spin")} />
+                {t("common.refresh")}
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleExport}
+                disabled={measuredCount === 0 || isMeasuring}
+                className="gap-2 h-9"
+              >
+                <FileDown className="h-4 w-4" />
+                {selectedIds.size > 0
+                  ? t("admin.inventory.alerts.exportSelected", { count: selectedIds.size })
+                  : t("admin.inventory.alerts.exportAll")}
+              </Button>
+            </div>
+          </div>
+
+          {error && (
+            <AdminErrorDisplay
+              title={t("admin.inventory.alerts.loadError")}
+              items={[{ message: error }]}
+              onRetry={() => setReloadKey((key) => key + 1)}
+            />
+          )}
+
+          {!isMeasuring && failedIds.size > 0 && (
+            <AdminErrorDisplay
+              variant="warning"
+              title={t("admin.inventory.alerts.velocityError", { count: failedIds.size })}
+              description={t("admin.inventory.alerts.velocityErrorDesc")}
+              onRetry={handleRetryFailed}
+            />
+          )}
+
+          <div className="rounded-xl border border-slate-200 dark:border-slate-800 overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-slate-50 dark:bg-slate-900/50 hover:bg-slate-50">
+                  <TableHead className="w-[40px]">
+                    <Checkbox
+                      checked={allSelected}
+                      onCheckedChange={(checked) =>
+                        setSelectedIds(checked === true ? new Set(items.map((item) => item.variantId)) : new Set())
+                      }
+                      aria-label={t("admin.inventory.alerts.selectAll")}
+                    />
+                  </TableHead>
+                  <TableHead className="font-semibold text-slate-700 dark:text-slate-300">
+                    {t("admin.inventory.product")}
+                  </TableHead>
+                  <TableHead className="text-right font-semibold text-slate-700 dark:text-slate-300">
+                    {t("admin.inventory.available")}
+                  </TableHead>
+                  <TableHead className="text-right font-semibold text-slate-700 dark:text-slate-300">
+                    {t("admin.inventory.reorderLevel.label")}
+                  </TableHead>
+                  <TableHead className="text-right font-semibold text-slate-700 dark:text-slate-300">
+                    {t("admin.inventory.alerts.velocity")}
+                  </TableHead>
+                  <TableHead className="text-right font-semibold text-slate-700 dark:text-slate-300">
+                    {t("admin.inventory.alerts.daysOfCover")}
+                  </TableHead>
+                  <TableHead className="w-[120px] font-semibold text-slate-700 dark:text-slate-300">
+                    {t("admin.inventory.alerts.suggested")}
+                  </TableHead>
+                  <TableHead className="w-[60px]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="h-32 text-center">
+                      <Loader2 className="h-6 w-6 animate-spin text-slate-400 mx-auto" />
+                    </TableCell>
+                  </TableRow>
+                ) : items.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="h-32 text-center">
+                      <div className="flex flex-col items-center gap-2 text-slate-500">
+                        <PackageCheck className="h-10 w-10 text-emerald-400" />
+                        <span className="text-sm">{t("admin.inventory.alerts.empty")}</span>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  suggestions.map(({ suggestion, isMeasured, isFailed }) => {
+                    const { item } = suggestion;
+                    return (
+                      <TableRow key={item.variantId} className="border-slate-100 dark:border-slate-800/50">
+                        <TableCell>
+                          <Checkbox
+                            checked={selectedIds.has(item.variantId)}
+                            onCheckedChange={(checked) => toggleSelected(item.variantId, checked === true)}
+                            aria-label={item.sku}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <p className="font-medium text-sm text-slate-900 dark:text-slate-100 truncate max-w-[280px]">
+                            {item.productName || t("admin.inventory.unknownProduct")}
+                          </p>
+                          <code className="text-xs font-mono text-slate-500">{item.sku}</code>
+                        </TableCell>
+                        <TableCell
+                          className={cn(
+                            "text-right font-bold tabular-nums",
+                            item.availableStock <= 0 ? "text-rose-600" : "text-amber-600"
+                          )}
+                        >
+                          {item.availableStock}
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums text-slate-600 dark:text-slate-400">
+                          {item.reorderLevel}
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums text-slate-600 dark:text-slate-400">
+                          {isMeasured ? (
+                            suggestion.dailyVelocity.toFixed(1)
+                          ) : isFailed ? (
+                            <AlertTriangle
+                              className="h-3.5 w-3.5 text-amber-500 ml-auto"
+                              aria-label={t("admin.inventory.alerts.velocityFailed")}
+                            />
+                          ) : (
+                            <Loader2 className="h-3.5 w-3.5 animate-spin text-slate-300 ml-auto" />
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums text-slate-600 dark:text-slate-400">
+                          {isMeasured ? suggestion.daysOfCover ?? "—" : ""}
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min="0"
+                            value={suggestion.suggestedQuantity}
+                            onChange={(e) => {
+                              const variantId = item.variantId;
+                              const value = Math.max(0, parseInt(e.target.value) || 0);
+                              setQuantities((prev) => new Map(prev).set(variantId, value));
+                            }}
+                            disabled={!isMeasured}
+                            aria-label={t("admin.inventory.alerts.suggestedFor", { sku: item.sku })}
+                            className="h-9 text-right tabular-nums rounded-lg"
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => onReceive(suggestion)}
+                            disabled={!isMeasured || suggestion.suggestedQuantity <= 0}
+                            className="h-8 w-8 text-emerald-600 hover:text-emerald-700 hover:bg-emerald-50 dark:hover:bg-emerald-900/20"
+                            title={t("admin.inventory.alerts.receive")}
+                          >
+                            <ArrowDownToLine className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,611 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import {
+  ClipboardCheck,
+  Loader2,
+  ScanLine,
+  Trash2,
+  CheckCircle2,
+  AlertTriangle,
+  ListPlus,
+} from "lucide-react";
+import { toast } from "sonner";
+import { useTranslation } from "react-i18next";
+import { CategoryCombobox } from "@/components/admin/categories/CategoryCombobox";
+import { AdminErrorDisplay } from "@/components/admin/AdminErrorDisplay";
+import { inventoryApi } from "@/lib/api/inventory";
+import { useCategories } from "@/lib/hooks/useAdminData";
+import {
+  createStockTakeReference,
+  type BatchAdjustStockItem,
+  type InventoryItem,
+  type StockTakeAdjustmentType,
+} from "@/lib/types/inventory";
+import { cn } from "@/lib/utils";
+
+interface StockTakeDrawerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: () => void;
+}
+
+interface StockTakeLine {
+  item: InventoryItem;
+  /** Null until the variant has been counted */
+  counted: number | null;
+  /** Transaction type used when the count is below the recorded quantity */
+  shortfallType: StockTakeAdjustmentType;
+}
+
+type ScopeMode = "category" | "skus";
+
+const parseSkuList = (text: string) =>
+  Array.from(new Set(text.split(/[\s,;]+/).map((sku) => sku.trim()).filter(Boolean)));
+
+const getVariance = (line: StockTakeLine) =>
+  line.counted === null ? 0 : line.counted - line.item.quantity;
+
+/**
+ * Stock take (cycle count)
+ *
+ * Loads a category or a list of SKUs, takes counted quantities typed in or
+ * scanned, and posts every variance as one batch sharing a reference.
+ * Mount with a fresh key per session; the reference is fixed on mount.
+ */
+export function StockTakeDrawer({ open, onOpenChange, onSuccess }: StockTakeDrawerProps) {
+  const { t } = useTranslation();
+  const { data: categories = [] } = useCategories();
+
+  const [reference] = useState(() => createStockTakeReference());
+  const [scopeMode, setScopeMode] = useState<ScopeMode>("category");
+  const [categoryId, setCategoryId] = useState<string | null>(null);
+  const [skuText, setSkuText] = useState("");
+  const [isLoadingScope, setIsLoadingScope] = useState(false);
+  const [missingSkus, setMissingSkus] = useState<string[]>([]);
+
+  const [lines, setLines] = useState<StockTakeLine[]>([]);
+  const [scanValue, setScanValue] = useState("");
+  const [lastScannedId, setLastScannedId] = useState<string | null>(null);
+  const [onlyVariances, setOnlyVariances] = useState(false);
+  const [note, setNote] = useState("");
+
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [isCommitting, setIsCommitting] = useState(false);
+  const [commitError, setCommitError] = useState<string | null>(null);
+
+  // Keeps counts already entered for variants that are loaded again
+  const addItems = (items: InventoryItem[]) => {
+    setLines((prev) => {
+      const existing = new Set(prev.map((line) => line.item.variantId));
+      const added = items
+        .filter((item) => !existing.has(item.variantId))
+        .map((item): StockTakeLine => ({ item, counted: null, shortfallType: "ADJUST" }));
+      return [...prev, ...added];
+    });
+  };
+
+  const updateLine = (variantId: string, changes: Partial<StockTakeLine>) => {
+    setLines((prev) =>
+      prev.map((line) => (line.item.variantId === variantId ? { ...line, ...changes } : line))
+    );
+  };
+
+  const removeLine = (variantId: string) => {
+    setLines((prev) => prev.filter((line) => line.item.variantId !== variantId));
+  };
+
+  const handleLoadScope = async () => {
+    const skus = parseSkuList(skuText);
+    if (scopeMode === "category" ? !categoryId : skus.length === 0) return;
+
+    setIsLoadingScope(true);
+    setMissingSkus([]);
+    try {
+      const result = await inventoryApi.getAllInventories(
+        scopeMode === "category" ? { categoryId: categoryId! } : { skus }
+      );
+      if (result.error) {
+        toast.error(result.error.message || t("admin.inventory.stockTake.loadError"));
+        return;
+      }
+
+      const items = result.data || [];
+      addItems(items);
+      if (scopeMode === "skus") {
+        const found = new Set(items.map((item) => item.sku.toLowerCase()));
+        setMissingSkus(skus.filter((sku) => !found.has(sku.toLowerCase())));
+      }
+      toast.success(t("admin.inventory.stockTake.loaded", { count: items.length }));
+    } finally {
+      setIsLoadingScope(false);
+    }
+  };
+
+  // Barcode scanners type the SKU and press Enter; each scan counts one unit
+  const handleScan = async () => {
+    const sku = scanValue.trim();
+    if (!sku) return;
+    setScanValue("");
+
+    const line = lines.find((entry) => entry.item.sku.toLowerCase() === sku.toLowerCase());
+    if (line) {
+      updateLine(line.item.variantId, { counted: (line.counted ?? 0) + 1 });
+      setLastScannedId(line.item.variantId);
+      return;
+    }
+
+    const result = await inventoryApi.getInventories({ skus: [sku], size: 1 });
+    const item = result.data?.find((entry) => entry.sku.toLowerCase() === sku.toLowerCase());
+    if (!item) {
+      toast.error(t("admin.inventory.stockTake.skuNotFound", { sku }));
+      return;
+    }
+
+    setLines((prev) =>
+      prev.some((entry) => entry.item.variantId === item.variantId)
+        ? prev.map((entry) =>
+            entry.item.variantId === item.variantId
+              ? { ...entry, counted: (entry.counted ?? 0) + 1 }
+              : entry
+          )
+        : [{ item, counted: 1, shortfallType: "ADJUST" }, ...prev]
+    );
+    setLastScannedId(item.variantId);
+  };
+
+  const countedLines = lines.filter((line) => line.counted !== null);
+  const varianceLines = countedLines.filter((line) => getVariance(line) !== 0);
+  const netVariance = varianceLines.reduce((sum, line) => sum + getVariance(line), 0);
+  const visibleLines = onlyVariances ? varianceLines : lines;
+
+  const handleCommit = async () => {
+    setConfirmOpen(false);
+    if (varianceLines.length === 0) return;
+
+    const items: BatchAdjustStockItem[] = varianceLines.map((line) => {
+      const variance = getVariance(line);
+      return {
+        variantId: line.item.variantId,
+        quantityDelta: variance,
+        type: variance < 0 ? line.shortfallType : "ADJUST",
+        reason:
+          note.trim() ||
+          t("admin.inventory.stockTake.defaultReason", {
+            counted: line.counted ?? 0,
+            recorded: line.item.quantity,
+          }),
+      };
+    });
+
+    setIsCommitting(true);
+    setCommitError(null);
+    try {
+      const result = await inventoryApi.adjustStockBatch({
+        reference,
+        note: note.trim() || undefined,
+        items,
+      });
+
+      if (result.error) {
+        setCommitError(result.error.message || t("admin.inventory.stockTake.commitError"));
+        return;
+      }
+
+      toast.success(t("admin.inventory.stockTake.committed", { count: items.length, reference }));
+      onSuccess();
+      onOpenChange(false);
+    } finally {
+      setIsCommitting(false);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent
+        side="right"
+        className="w-full sm:w-[85vw] sm:max-w-[1200px] p-0 gap-0 overflow-y-auto bg-white dark:bg-slate-950 border-l border-slate-200 dark:border-slate-800"
+      >
+        {/* Header */}
+        <SheetHeader className="px-8 pt-8 pb-6 bg-gradient-to-br from-sky-50 to-indigo-50 dark:from-sky-950/30 dark:to-indigo-950/30 border-b border-slate-200 dark:border-slate-800">
+          <div className="flex items-center gap-4">
+            <div className="h-14 w-14 rounded-xl bg-sky-100 dark:bg-sky-900/50 flex items-center justify-center shadow-sm">
+              <ClipboardCheck className="h-7 w-7 text-sky-600 dark:text-sky-400" />
+            </div>
+            <div>
+              <SheetTitle className="text-2xl font-bold text-slate-900 dark:text-slate-100">
+                {t("admin.inventory.stockTake.title")}
+              </SheetTitle>
+              <SheetDescription className="text-base mt-1 text-slate-600 dark:text-slate-400">
+                {t("admin.inventory.stockTake.description")}
+              </SheetDescription>
+            </div>
+            <code className="ml-auto text-xs font-mono text-slate-600 dark:text-slate-400 bg-white/70 dark:bg-slate-900 px-2 py-1 rounded border border-slate-200 dark:border-slate-800">
+              {reference}
+            </code>
+          </div>
+        </SheetHeader>
+
+        <div className="p-8 space-y-8">
+          {/* Scope */}
+          <section className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="rounded-xl border border-slate-200 dark:border-slate-800 p-6 space-y-4">
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider">
+                  {t("admin.inventory.stockTake.scope")}
+                </h3>
+                <div className="flex rounded-lg border border-slate-200 dark:border-slate-800 p-0.5">
+                  {(["category", "skus"] as const).map((mode) => (
+                    <button
+                      key={mode}
+                      type="button"
+                      onClick={() => setScopeMode(mode)}
+                      className={cn(
+                        "px-3 py-1 text-xs font-medium rounded-md transition-colors",
+                        scopeMode === mode
+                          ? "bg-slate-900 text-white dark:bg-slate-100 dark:text-slate-900"
+                          : "text-slate-500 hover:text-slate-900 dark:hover:text-slate-200"
+                      )}
+                    >
+                      {t(`admin.inventory.stockTake.scopeModes.${mode}`)}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {scopeMode === "category" ? (
+                <CategoryCombobox
+                  categories={categories}
+                  value={categoryId}
+                  onValueChange={setCategoryId}
+                  placeholder={t("admin.inventory.stockTake.selectCategory")}
+                  disabled={isLoadingScope}
+                />
+              ) : (
+                <Textarea
+                  value={skuText}
+                  onChange={(e) => setSkuText(e.target.value)}
+                  placeholder={t("admin.inventory.stockTake.skuPlaceholder")}
+                  className="min-h-[88px] font-mono text-sm rounded-xl resize-none"
+                  disabled={isLoadingScope}
+                />
+              )}
+
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleLoadScope}
+                disabled={
+                  isLoadingScope ||
+                  (scopeMode === "category" ? !categoryId : parseSkuList(skuText).length === 0)
+                }
+                className="w-full gap-2 rounded-xl"
+              >
+                {isLoadingScope ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <ListPlus className="h-4 w-4" />
+                )}
+                {t("admin.inventory.stockTake.loadItems")}
+              </Button>
+
+              {missingSkus.length > 0 && (
+                <p className="text-xs text-amber-600 dark:text-amber-500">
+                  {t("admin.inventory.stockTake.missingSkus", { skus: missingSkus.join(", ") })}
+                </p>
+              )}
+            </div>
+
+            <div className="rounded-xl border border-slate-200 dark:border-slate-800 p-6 space-y-4">
+              <h3 className="text-sm font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider">
+                {t("admin.inventory.stockTake.scan")}
+              </h3>
+              <div className="relative">
+                <ScanLine className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400" />
+                <Input
+                  value={scanValue}
+                  onChange={(e) => setScanValue(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") {
+                      e.preventDefault();
+                      handleScan();
+                    }
+                  }}
+                  placeholder={t("admin.inventory.stockTake.scanPlaceholder")}
+                  className="pl-9 h-11 font-mono rounded-xl"
+                  autoComplete="off"
+                />
+              </div>
+              <p className="text-xs text-slate-500">{t("admin.inventory.stockTake.scanHint")}</p>
+
+              <div className="grid grid-cols-3 gap-3 pt-2">
+                <div className="rounded-lg bg-slate-50 dark:bg-slate-900 p-3 text-center">
+                  <p className="text-lg font-bold tabular-nums text-slate-900 dark:text-slate-100">
+                    {countedLines.length}/{lines.length}
+                  </p>
+                  <p className="text-[10px] uppercase tracking-wide text-slate-400">
+                    {t("admin.inventory.stockTake.counted")}
+                  </p>
+                </div>
+                <div className="rounded-lg bg-slate-50 dark:bg-slate-900 p-3 text-center">
+                  <p className="text-lg font-bold tabular-nums text-amber-600">{varianceLines.length}</p>
+                  <p className="text-[10px] uppercase tracking-wide text-slate-400">
+                    {t("admin.inventory.stockTake.withVariance")}
+                  </p>
+                </div>
+                <div className="rounded-lg bg-slate-50 dark:bg-slate-900 p-3 text-center">
+                  <p
+                    className={cn(
+                      "text-lg font-bold tabular-nums",
+                      netVariance > 0 ? "text-emerald-600" : netVariance < 0 ? "text-rose-600" : "text-slate-500"
+                    )}
+                  >
+                    {netVariance > 0 ? `+${netVariance}` : netVariance}
+                  </p>
+                  <p className="text-[10px] uppercase tracking-wide text-slate-400">
+                    {t("admin.inventory.stockTake.netVariance")}
+                  </p>
+                </div>
+              </div>
+            </div>
+          </section>
+
+          {/* Count sheet */}
+          <section className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wider">
+                {t("admin.inventory.stockTake.countSheet")}
+              </h3>
+              <label className="flex items-center gap-2 text-xs text-slate-600 dark:text-slate-300 cursor-pointer">
+                <Checkbox
+                  checked={onlyVariances}
+                  onCheckedChange={(checked) => setOnlyVariances(checked === true)}
+                />
+                {t("admin.inventory.stockTake.onlyVariances")}
+              </label>
+            </div>
+
+            <div className="rounded-xl border border-slate-200 dark:border-slate-800 overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-slate-50 dark:bg-slate-900/50 hover:bg-slate-50">
+                    <TableHead className="font-semibold text-slate-700 dark:text-slate-300">
+                      {t("admin.inventory.product")}
+                    </TableHead>
+                    <TableHead className="text-right w-[110px] font-semibold text-slate-700 dark:text-slate-300">
+                      {t("admin.inventory.stockTake.recorded")}
+                    </TableHead>
+                    <TableHead className="w-[130px] font-semibold text-slate-700 dark:text-slate-300">
+                      {t("admin.inventory.stockTake.countedQty")}
+                    </TableHead>
+                    <TableHead className="text-right w-[100px] font-semibold text-slate-700 dark:text-slate-300">
+                      {t("admin.inventory.stockTake.variance")}
+                    </TableHead>
+                    <TableHead className="w-[160px] font-semibold text-slate-700 dark:text-slate-300">
+                      {t("admin.inventory.stockTake.transactionType")}
+                    </TableHead>
+                    <TableHead className="w-[50px]" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleLines.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="h-28 text-center text-sm text-slate-500">
+                        {t("admin.inventory.stockTake.empty")}
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    visibleLines.map((line) => {
+                      const variance = getVariance(line);
+                      return (
+                        <TableRow
+                          key={line.item.variantId}
+                          className={cn(
+                            "border-slate-100 dark:border-slate-800/50",
+                            lastScannedId === line.item.variantId && "bg-sky-50/70 dark:bg-sky-950/20"
+                          )}
+                        >
+                          <TableCell>
+                            <p className="font-medium text-sm text-slate-900 dark:text-slate-100 truncate max-w-[320px]">
+                              {line.item.productName || t("admin.inventory.unknownProduct")}
+                            </p>
+                            <code className="text-xs font-mono text-slate-500">{line.item.sku}</code>
+                          </TableCell>
+                          <TableCell className="text-right tabular-nums text-slate-600 dark:text-slate-400">
+                            {line.item.quantity}
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min="0"
+                              value={line.counted ?? ""}
+                              onChange={(e) =>
+                                updateLine(line.item.variantId, {
+                                  counted:
+                                    e.target.value === ""
+                                      ? null
+                                      : Math.max(0, parseInt(e.target.value) || 0),
+                                })
+                              }
+                              aria-label={t("admin.inventory.stockTake.countedFor", { sku: line.item.sku })}
+                              className="h-9 text-right tabular-nums rounded-lg"
+                            />
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {line.counted === null ? (
+                              <span className="text-slate-300">—</span>
+                            ) : (
+                              <div className="flex flex-col items-end">
+                                <span
+                                  className={cn(
+                                    "font-semibold tabular-nums",
+                                    variance > 0
+                                      ? "text-emerald-600"
+                                      : variance < 0
+                                        ? "text-rose-600"
+                                        : "text-slate-400"
+                                  )}
+                                >
+                                  {variance > 0 ? `+${variance}` : variance}
+                                </span>
+                                {line.counted < line.item.reservedQuantity && (
+                                  <span
+                                    className="flex items-center gap-1 text-[10px] text-amber-600"
+                                    title={t("admin.inventory.stockTake.belowReservedHint")}
+                                  >
+                                    <AlertTriangle className="h-3 w-3" />
+                                    {t("admin.inventory.stockTake.belowReserved", {
+                                      reserved: line.item.reservedQuantity,
+                                    })}
+                                  </span>
+                                )}
+                              </div>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {variance < 0 ? (
+                              <Select
+                                value={line.shortfallType}
+                                onValueChange={(value) =>
+                                  updateLine(line.item.variantId, {
+                                    shortfallType: value as StockTakeAdjustmentType,
+                                  })
+                                }
+                              >
+                                <SelectTrigger className="h-9 rounded-lg">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="ADJUST">
+                                    {t("admin.inventory.history.types.ADJUST.label", { defaultValue: "ADJUST" })}
+                                  </SelectItem>
+                                  <SelectItem value="DAMAGED">
+                                    {t("admin.inventory.history.types.DAMAGED.label", { defaultValue: "DAMAGED" })}
+                                  </SelectItem>
+                                </SelectContent>
+                              </Select>
+                            ) : variance > 0 ? (
+                              <span className="text-xs text-slate-500">
+                                {t("admin.inventory.history.types.ADJUST.label", { defaultValue: "ADJUST" })}
+                              </span>
+                            ) : (
+                              <span className="text-slate-300">—</span>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => removeLine(line.item.variantId)}
+                              className="h-8 w-8 text-slate-400 hover:text-rose-600"
+                              title={t("admin.inventory.stockTake.remove")}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </section>
+
+          {/* Commit */}
+          <section className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="stock-take-note" className="text-sm font-semibold text-slate-700 dark:text-slate-300">
+                {t("admin.inventory.stockTake.note")}
+              </Label>
+              <Textarea
+                id="stock-take-note"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder={t("admin.inventory.stockTake.notePlaceholder")}
+                className="rounded-xl resize-none min-h-[72px]"
+                rows={2}
+              />
+            </div>
+
+            {commitError && (
+              <AdminErrorDisplay
+                title={t("admin.inventory.stockTake.commitError")}
+                items={[{ message: commitError }]}
+                onRetry={() => setConfirmOpen(true)}
+                onClose={() => setCommitError(null)}
+              />
+            )}
+
+            <div className="flex items-center justify-end gap-4 pt-4 border-t border-slate-200 dark:border-slate-800">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={isCommitting}
+                className="px-6 h-12 rounded-xl"
+              >
+                {t("common.cancel")}
+              </Button>
+              <Button
+                type="button"
+                onClick={() => setConfirmOpen(true)}
+                disabled={isCommitting || varianceLines.length === 0}
+                className="px-8 h-12 rounded-xl font-semibold bg-sky-600 hover:bg-sky-700 text-white"
+              >
+                {isCommitting ? (
+                  <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                ) : (
+                  <CheckCircle2 className="mr-2 h-5 w-5" />
+                )}
+                {t("admin.inventory.stockTake.commit", { count: varianceLines.length })}
+              </Button>
+            </div>
+          </section>
+        </div>
+
+        <ConfirmDialog
+          open={confirmOpen}
+          onOpenChange={setConfirmOpen}
+          title={t("admin.inventory.stockTake.confirmTitle")}
+          description={t("admin.inventory.stockTake.confirmDescription", {
+            count: varianceLines.length,
+            reference,
+          })}
+          confirmText={t("common.confirm")}
+          cancelText={t("common.cancel")}
+          onConfirm={handleCommit}
+        />
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,266 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+  FormDescription,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Loader2, AlertCircle } from 'lucide-react';
+import { suppliersApi } from '@/lib/api/suppliers';
+import type { Supplier } from '@/lib/types/goods-receipt';
+
+const formSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  contactName: z.string().optional(),
+  email: z.email('Invalid email address').optional().or(z.literal('')),
+  phone: z.string().optional(),
+  taxCode: z.string().optional(),
+  address: z.string().optional(),
+  note: z.string().optional(),
+  active: z.boolean(),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+const TEXT_FIELDS = ['contactName', 'email', 'phone', 'taxCode'] as const;
+
+interface SupplierEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  supplier?: Supplier | null;
+  onSuccess: () => void;
+}
+
+export function SupplierEditorDialog({
+  open,
+  onOpenChange,
+  supplier,
+  onSuccess,
+}: SupplierEditorDialogProps) {
+  const { t } = useTranslation();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: '',
+      contactName: '',
+      email: '',
+      phone: '',
+      taxCode: '',
+      address: '',
+      note: '',
+      active: true,
+    },
+  });
+
+  useEffect(() => {
+    if (open) {
+      setError(null);
+      form.reset({
+        name: supplier?.name || '',
+        contactName: supplier?.contactName || '',
+        email: supplier?.email || '',
+        phone: supplier?.phone || '',
+        taxCode: supplier?.taxCode || '',
+        address: supplier?.address || '',
+        note: supplier?.note || '',
+        active: supplier?.active ?? true,
+      });
+    }
+  }, [supplier, form, open]);
+
+  const onSubmit = async (values: FormValues) => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const request = {
+        name: values.name,
+        contactName: values.contactName || undefined,
+        email: values.email || undefined,
+        phone: values.phone || undefined,
+        taxCode: values.taxCode || undefined,
+        address: values.address || undefined,
+        note: values.note || undefined,
+        active: values.active,
+      };
+      const result = supplier
+        ? await suppliersApi.updateSupplier({ supplierId: supplier.id, request })
+        : await suppliersApi.createSupplier(request);
+      if (result.error) throw new Error(result.error.message);
+
+      onSuccess();
+      onOpenChange(false);
+    } catch (err: unknown) {
+      setError((err as Error)?.message || t('admin.suppliers.saveFailed'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] rounded-[2rem] border-slate-200 dark:border-slate-800 shadow-2xl p-0 overflow-hidden bg-white dark:bg-[#0A0A0A] flex flex-col">
+        <DialogHeader className="p-8 pb-4 bg-slate-50/50 dark:bg-white/5 border-b border-slate-100 dark:border-white/10">
+          <DialogTitle className="text-2xl font-light italic">
+            {supplier ? t('admin.suppliers.editTitle') : t('admin.suppliers.createTitle')}
+          </DialogTitle>
+          <DialogDescription className="font-light text-slate-500">
+            {t('admin.suppliers.editorDesc')}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(onSubmit)}
+            className="flex-1 overflow-y-auto p-8 space-y-6"
+          >
+            {error && (
+              <Alert variant="destructive" className="rounded-2xl border-red-200 bg-red-50 dark:bg-red-900/10">
+                <AlertCircle className="h-4 w-4 text-red-500" />
+                <AlertDescription className="text-red-600 font-medium">{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-[10px] uppercase tracking-widest font-bold text-slate-400">
+                    {t('admin.suppliers.name')}
+                  </FormLabel>
+                  <FormControl>
+                    <Input
+                      className="rounded-2xl border-slate-200 dark:border-slate-800 bg-slate-50/50 dark:bg-white/5 py-6 px-4"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage className="text-[10px] uppercase font-bold text-red-400" />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+              {TEXT_FIELDS.map((name) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-[10px] uppercase tracking-widest font-bold text-slate-400">
+                        {t(`admin.suppliers.${name}`)}
+                      </FormLabel>
+                      <FormControl>
+                        <Input
+                          type={name === 'email' ? 'email' : 'text'}
+                          className="rounded-2xl border-slate-200 dark:border-slate-800 bg-slate-50/50 dark:bg-white/5 py-6 px-4"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage className="text-[10px] uppercase font-bold text-red-400" />
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+
+            <FormField
+              control={form.control}
+              name="address"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-[10px] uppercase tracking-widest font-bold text-slate-400">
+                    {t('admin.suppliers.address')}
+                  </FormLabel>
+                  <FormControl>
+                    <Input
+                      className="rounded-2xl border-slate-200 dark:border-slate-800 bg-slate-50/50 dark:bg-white/5 py-6 px-4"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage className="text-[10px] uppercase font-bold text-red-400" />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="note"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-[10px] uppercase tracking-widest font-bold text-slate-400">
+                    {t('admin.suppliers.note')}
+                  </FormLabel>
+                  <FormControl>
+                    <Textarea
+                      className="rounded-2xl border-slate-200 dark:border-slate-800 bg-slate-50/50 dark:bg-white/5 min-h-[80px] p-4"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage className="text-[10px] uppercase font-bold text-red-400" />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="active"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between gap-4 rounded-2xl border border-slate-200 dark:border-slate-800 p-4">
+                  <div>
+                    <FormLabel className="text-sm font-medium">{t('admin.suppliers.active')}</FormLabel>
+                    <FormDescription className="text-xs text-slate-400">
+                      {t('admin.suppliers.activeHint')}
+                    </FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter className="pt-6 border-t border-slate-100 dark:border-white/10 gap-3">
+              <Button type="button" variant="ghost" onClick={() => onOpenChange(false)} className="rounded-2xl font-light h-12 px-6">
+                {t('common.cancel')}
+              </Button>
+              <Button
+                type="submit"
+                disabled={isSubmitting}
+                className="rounded-2xl bg-slate-900 dark:bg-[#D4AF37] text-white px-10 h-12 font-light shadow-xl shadow-slate-900/10 dark:shadow-[#D4AF37]/20 hover:opacity-90 transition-all"
+              >
+                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {t('common.save')}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -31,34 +31,10 @@ import {
   Clock,
   Boxes
 } from "lucide-react";
-import { clientApi } from "@/lib/api-client";
+import { inventoryApi } from "@/lib/api/inventory";
+import { InventoryTransaction } from "@/lib/types/inventory";
 import { useTranslation } from "react-i18next";
 
-interface TransactionApiResponse {
-  data: InventoryTransaction[];
-  meta?: {
-    totalElements?: number;
-  };
-}
-
-/**
- * Interface matching InventoryTransactionResponse from backend
- */
-interface InventoryTransaction {
-  id: string;
-  variantId: string;
-  type: 'IMPORT' | 'ADJUST' | 'DAMAGED' | 'RETURN' | 'RESERVE' | 'RELEASE' | 'CONFIRM' | 'OPENING_BALANCE';
-  quantityDelta: number;
-  beforeQuantity: number;
-  afterQuantity: number;
-  beforeReserved?: number;
-  afterReserved?: number;
-  reference: string;
-  note: string;
-  performedBy: string;
-  createdAt: string;
-}
-
 interface TransactionHistoryDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -159,10 +135,13 @@ export function TransactionHistoryDialog({
   const fetchHistory = useCallback(async () => {
     setIsLoading(true);
     try {
-      const response = await clientApi.getInventoryTransactions(variantId, page, pageSize);
-      if (response.data) {
-        const result = response.data as TransactionApiResponse;
-        setData(result.data || []);
+      const result = await inventoryApi.getInventoryTransactions({
+        variantId,
+        page,
+        size: pageSize,
+      });
+      if (result.data) {
+        setData(result.data);
         setTotalElements(result.meta?.totalElements || 0);
       }
     } catch (err) {
@@ -443,8 +422,8 @@ export function TransactionHistoryDialog({
 
                       {/* Performed By */}
                       <TableCell className="py-3">
-                        <span className="text-xs text-slate-500 font-medium truncate block max-w-[100px]" title={tx.performedBy}>
-                          {tx.performedBy || t("admin.inventory.history.system")}
+                        <span className="text-xs text-slate-500 font-medium truncate block max-w-[100px]" title={tx.performedBy?.username || tx.performedBy?.email}>
+                          {tx.performedBy?.username || tx.performedBy?.email || t("admin.inventory.history.system")}
                         </span>
                       </TableCell>
                     </TableRow>
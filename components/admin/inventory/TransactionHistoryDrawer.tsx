@@ -33,46 +33,13 @@ import {
   Clock,
   Boxes,
   RefreshCw,
+  ClipboardCheck,
 } from "lucide-react";
-import { clientApi } from "@/lib/api-client";
+import { inventoryApi } from "@/lib/api/inventory";
+import { InventoryTransaction, isStockTakeReference } from "@/lib/types/inventory";
 import { useTranslation } from "react-i18next";
 import { ProductImagePlaceholder } from "./ProductImagePlaceholder";
 
-interface TransactionApiResponse {
-  data: InventoryTransaction[];
-  meta?: {
-    totalElements?: number;
-  };
-}
-
-interface InventoryTransaction {
-  id: string;
-  variantId: string;
-  type:
-    | "IMPORT"
-    | "ADJUST"
-    | "DAMAGED"
-    | "RETURN"
-    | "RESERVE"
-    | "RELEASE"
-    | "CONFIRM"
-    | "OPENING_BALANCE";
-  quantityDelta: number;
-  beforeQuantity: number;
-  afterQuantity: number;
-  beforeReserved?: number;
-  afterReserved?: number;
-  reference: string;
-  note: string;
-  performedBy: {
-    username?: string;
-    email?: string;
-    id?: number;
-    avatarUrl?: string;
-  };
-  createdAt: string;
-}
-
 interface TransactionHistoryDrawerProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -160,14 +127,13 @@ export function TransactionHistoryDrawer({
   const fetchHistory = useCallback(async () => {
     setIsLoading(true);
     try {
-      const response = await clientApi.getInventoryTransactions(
+      const result = await inventoryApi.getInventoryTransactions({
         variantId,
         page,
-        pageSize
-      );
-      if (response.data) {
-        const result = response.data as TransactionApiResponse;
-        setData(result.data || []);
+        size: pageSize,
+      });
+      if (result.data) {
+        setData(result.data);
         setTotalElements(result.meta?.totalElements || 0);
       }
     } catch (err) {
@@ -514,9 +480,21 @@ export function TransactionHistoryDrawer({
                       {/* Reference & Note */}
                       <TableCell className="py-4 max-w-[250px]">
                         {tx.reference && (
-                          <code className="text-xs font-mono text-slate-600 dark:text-slate-400 bg-slate-100 dark:bg-slate-800 px-2 py-1 rounded">
-                            {tx.reference}
-                          </code>
+                          <div className="flex flex-wrap items-center gap-1.5">
+                            {isStockTakeReference(tx.reference) && (
+                              <Badge
+                                variant="outline"
+                                className="gap-1 text-[10px] font-semibold uppercase tracking-wide border-0 text-sky-600 bg-sky-50 dark:bg-sky-900/20"
+                                title={t("admin.inventory.history.stockTakeHint")}
+                              >
+                                <ClipboardCheck className="h-3 w-3" />
+                                {t("admin.inventory.history.stockTake")}
+                              </Badge>
+                            )}
+                            <code className="text-xs font-mono text-slate-600 dark:text-slate-400 bg-slate-100 dark:bg-slate-800 px-2 py-1 rounded">
+                              {tx.reference}
+                            </code>
+                          </div>
                         )}
                         {tx.note && (
                           <p
@@ -0,0 +1,172 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { ArrowRight, Loader2, Lock, X } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { OrderStatus } from "@/lib/types/order";
+import { canCancelOrder, getNextOrderStatus } from "@/lib/api/admin-orders";
+
+interface OrderFulfilmentPanelProps {
+  status: OrderStatus;
+  canProcess: boolean;
+  canCancel: boolean;
+  isUpdating?: boolean;
+  onAdvance: (nextStatus: OrderStatus) => void;
+  onCancel: (reason?: string) => void;
+}
+
+/**
+ * Staff actions for moving an order through the fulfilment flow.
+ * Each action is rendered disabled with a lock hint when the user lacks the permission.
+ */
+export function OrderFulfilmentPanel({
+  status,
+  canProcess,
+  canCancel,
+  isUpdating = false,
+  onAdvance,
+  onCancel,
+}: OrderFulfilmentPanelProps) {
+  const { t } = useTranslation();
+  const [cancelDialogOpen, setCancelDialogOpen] = useState(false);
+  const [cancelReason, setCancelReason] = useState("");
+
+  const nextStatus = getNextOrderStatus(status);
+  const isCancellable = canCancelOrder(status);
+
+  const handleCancelSubmit = () => {
+    onCancel(cancelReason.trim() || undefined);
+    setCancelDialogOpen(false);
+    setCancelReason("");
+  };
+
+  if (!nextStatus && !isCancellable) {
+    return (
+      <section className="p-5 rounded-xl border border-slate-200 dark:border-slate-800 bg-slate-50/50 dark:bg-slate-900/50">
+        <p className="text-xs text-slate-500">
+          {t("admin.orders.noActions", {
+            defaultValue: "No further actions are available for this order.",
+          })}
+        </p>
+      </section>
+    );
+  }
+
+  return (
+    <section className="p-5 rounded-xl border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-900 space-y-3">
+      <h2 className="text-[10px] font-bold uppercase tracking-widest text-slate-400">
+        {t("admin.orders.fulfilment", { defaultValue: "Fulfilment" })}
+      </h2>
+
+      {nextStatus && (
+        <Button
+          onClick={() => onAdvance(nextStatus)}
+          disabled={!canProcess || isUpdating}
+          title={
+            canProcess
+              ? undefined
+              : t("admin.orders.missingPermission", {
+                  defaultValue: "You don't have permission for this action",
+                })
+          }
+          className="w-full h-10 bg-[#D4AF37] hover:bg-[#B8962D] text-white font-semibold"
+        >
+          {isUpdating ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : canProcess ? (
+            <ArrowRight className="h-4 w-4 mr-2" />
+          ) : (
+            <Lock className="h-4 w-4 mr-2" />
+          )}
+          {t(`admin.orders.advance.${nextStatus}`, {
+            defaultValue: `Mark as ${nextStatus}`,
+          })}
+        </Button>
+      )}
+
+      {isCancellable && (
+        <Button
+          variant="outline"
+          onClick={() => setCancelDialogOpen(true)}
+          disabled={!canCancel || isUpdating}
+          title={
+            canCancel
+              ? undefined
+              : t("admin.orders.missingPermission", {
+                  defaultValue: "You don't have permission for this action",
+                })
+          }
+          className="w-full h-10 text-rose-600 border-rose-200 hover:bg-rose-50 dark:border-rose-900/40 dark:hover:bg-rose-500/10"
+        >
+          {canCancel ? (
+            <X className="h-4 w-4 mr-2" />
+          ) : (
+            <Lock className="h-4 w-4 mr-2" />
+          )}
+          {t("admin.orders.cancelOrder", { defaultValue: "Cancel Order" })}
+        </Button>
+      )}
+
+      <Dialog
+        open={cancelDialogOpen}
+        onOpenChange={(open) => {
+          setCancelDialogOpen(open);
+          if (!open) setCancelReason("");
+        }}
+      >
+        <DialogContent className="bg-white dark:bg-slate-900 border border-gray-200 dark:border-slate-800">
+          <DialogHeader>
+            <DialogTitle>
+              {t("admin.orders.confirmCancel", {
+                defaultValue: "Cancel this order?",
+              })}
+            </DialogTitle>
+            <DialogDescription>
+              {t("admin.orders.confirmCancelDesc", {
+                defaultValue:
+                  "Reserved stock will be released and the customer will be notified.",
+              })}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="admin-cancel-reason">
+              {t("admin.orders.cancelReason", { defaultValue: "Reason" })}
+            </Label>
+            <Textarea
+              id="admin-cancel-reason"
+              value={cancelReason}
+              onChange={(e) => setCancelReason(e.target.value)}
+              placeholder={t("admin.orders.cancelReasonPlaceholder", {
+                defaultValue: "e.g. Customer requested cancellation by phone",
+              })}
+              maxLength={500}
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setCancelDialogOpen(false)}
+            >
+              {t("common.cancel")}
+            </Button>
+            <Button variant="destructive" onClick={handleCancelSubmit}>
+              {t("admin.orders.yesCancel", { defaultValue: "Cancel Order" })}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </section>
+  );
+}
@@ -78,7 +78,7 @@ export function MediaTab({ data, onChange }: MediaTabProps) {
         formData.append("file", file);
 
         toast.loading(t("admin.productDetail.messages.uploadingThumbnail"));
-        const response = await apiClient.post<{ data: string }>(
+        const response = await apiClient.post<string>(
           "files",
           formData
         );
@@ -88,7 +88,7 @@ export function MediaTab({ data, onChange }: MediaTabProps) {
         if (response.error) {
           toast.error(t("admin.productDetail.messages.uploadThumbnailFail"));
         } else {
-          const cloudinaryUrl = response.data?.data || "";
+          const cloudinaryUrl = response.data || "";
           toast.success(t("admin.productDetail.messages.uploadThumbnailSuccess"));
 
           // Create asset and set as thumbnail (unset others)
@@ -143,7 +143,7 @@ export function MediaTab({ data, onChange }: MediaTabProps) {
       const toastId = toast.loading(
         t("admin.productDetail.messages.uploadingImages", { count: validFiles.length })
       );
-      const response = await apiClient.post<{ data: string[] }>(
+      const response = await apiClient.post<string[]>(
         "files/upload-multiple",
         formData
       );
@@ -154,7 +154,7 @@ export function MediaTab({ data, onChange }: MediaTabProps) {
         toast.error(t("admin.productDetail.messages.uploadImagesFail"));
         console.error("Upload error:", response.error);
       } else {
-        const cloudinaryUrls = response.data?.data || [];
+        const cloudinaryUrls = response.data || [];
         toast.success(t("admin.productDetail.messages.uploadImagesSuccess", { count: cloudinaryUrls.length }));
 
         // Create assets from URLs
@@ -0,0 +1,281 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Plus, Trash2, X, Wand2 } from "lucide-react";
+
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { CurrencyInput } from "@/components/ui/CurrencyInput";
+import { FormField } from "../FormField";
+import { cn } from "@/lib/utils";
+import {
+  MAX_MATRIX_COMBINATIONS,
+  applyVariantMatrix,
+  countCombinations,
+  deriveOptionAxes,
+  toAttributeKey,
+  type MatrixPrices,
+  type MatrixVariant,
+  type VariantOptionAxis,
+} from "@/lib/utils/variant-matrix";
+
+interface VariantMatrixBuilderProps<T extends MatrixVariant> {
+  variants: T[];
+  /** Prefix for generated SKUs */
+  defaultBaseSku: string;
+  createVariant: (variant: MatrixVariant) => T;
+  onApply: (variants: T[]) => void;
+  onClose: () => void;
+}
+
+const DEFAULT_AXES: VariantOptionAxis[] = [
+  { name: "size", values: [] },
+  { name: "color", values: [] },
+];
+
+const inputClassName =
+  "h-10 bg-white dark:bg-slate-950 border-slate-200 dark:border-slate-800 focus:ring-[#D4AF37] focus:border-[#D4AF37]";
+
+/**
+ * Option-axis builder for the variants matrix
+ * Admins define attributes and their values; the Cartesian product is merged
+ * into the current variants (existing combinations are matched, not duplicated)
+ */
+export function VariantMatrixBuilder<T extends MatrixVariant>({
+  variants,
+  defaultBaseSku,
+  createVariant,
+  onApply,
+  onClose,
+}: VariantMatrixBuilderProps<T>) {
+  const { t } = useTranslation();
+
+  const [axes, setAxes] = useState<VariantOptionAxis[]>(() => {
+    const derived = deriveOptionAxes(variants);
+    return derived.length > 0 ? derived : DEFAULT_AXES;
+  });
+  const [valueDrafts, setValueDrafts] = useState<Record<number, string>>({});
+  const [baseSku, setBaseSku] = useState(defaultBaseSku);
+  const [prices, setPrices] = useState<MatrixPrices>({
+    sellingPrice: variants[0]?.sellingPrice || 0,
+    originalPrice: variants[0]?.originalPrice || 0,
+    costPrice: variants[0]?.costPrice || 0,
+  });
+  const [overwriteExistingPrices, setOverwriteExistingPrices] = useState(false);
+
+  const combinationCount = countCombinations(axes);
+  const isTooLarge = combinationCount > MAX_MATRIX_COMBINATIONS;
+  const attributeKeys = axes.map((axis) => toAttributeKey(axis.name)).filter(Boolean);
+  const hasDuplicateAxes = new Set(attributeKeys).size !== attributeKeys.length;
+
+  const preview = useMemo(
+    () =>
+      isTooLarge || hasDuplicateAxes
+        ? null
+        : applyVariantMatrix(variants, axes, {
+            baseSku,
+            prices,
+            overwriteExistingPrices,
+            createVariant,
+          }),
+    [variants, axes, baseSku, prices, overwriteExistingPrices, createVariant, isTooLarge, hasDuplicateAxes],
+  );
+
+  const updateAxis = (index: number, patch: Partial<VariantOptionAxis>) => {
+    setAxes((prev) => prev.map((axis, i) => (i === index ? { ...axis, ...patch } : axis)));
+  };
+
+  const addValues = (index: number) => {
+    const draft = valueDrafts[index] || "";
+    const axis = axes[index];
+    const values = [...axis.values];
+
+    // Accept comma-separated input ("S, M, L")
+    for (const raw of draft.split(",")) {
+      const value = raw.trim();
+      if (value && !values.some((v) => v.toLowerCase() === value.toLowerCase())) {
+        values.push(value);
+      }
+    }
+
+    updateAxis(index, { values });
+    setValueDrafts((prev) => ({ ...prev, [index]: "" }));
+  };
+
+  const removeValue = (index: number, value: string) => {
+    updateAxis(index, { values: axes[index].values.filter((v) => v !== value) });
+  };
+
+  const removeAxis = (index: number) => {
+    setAxes((prev) => prev.filter((_, i) => i !== index));
+    setValueDrafts({});
+  };
+
+  const handleApply = () => {
+    if (!preview) return;
+    onApply(preview.variants);
+    onClose();
+  };
+
+  return (
+    <div className="flex flex-col gap-6 p-6 rounded-2xl border border-[#D4AF37]/30 bg-[#D4AF37]/5">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h4 className="text-sm font-bold text-slate-900 dark:text-slate-100 uppercase tracking-widest">
+            {t("admin.productDetail.matrix.title")}
+          </h4>
+          <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+            {t("admin.productDetail.matrix.description")}
+          </p>
+        </div>
+        <Button variant="ghost" size="icon" onClick={onClose} className="h-8 w-8 text-slate-400">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {/* Option axes */}
+      <div className="flex flex-col gap-3">
+        {axes.map((axis, index) => (
+          <div
+            key={index}
+            className="grid grid-cols-1 md:grid-cols-12 gap-3 p-4 rounded-xl bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800"
+          >
+            <Input
+              value={axis.name}
+              onChange={(e) => updateAxis(index, { name: e.target.value })}
+              placeholder={t("admin.productDetail.matrix.optionNamePlaceholder")}
+              aria-label={t("admin.productDetail.matrix.optionName")}
+              className={cn(inputClassName, "md:col-span-3 font-bold")}
+            />
+            <div className="md:col-span-8 flex flex-wrap items-center gap-2 min-h-10 px-2 py-1 rounded-md border border-slate-200 dark:border-slate-800 bg-white dark:bg-slate-950 focus-within:border-[#D4AF37]">
+              {axis.values.map((value) => (
+                <span
+                  key={value}
+                  className="inline-flex items-center gap-1 px-2 py-0.5 rounded-md bg-slate-100 dark:bg-slate-800 text-xs font-bold text-slate-700 dark:text-slate-200"
+                >
+                  {value}
+                  <button
+                    type="button"
+                    onClick={() => removeValue(index, value)}
+                    aria-label={t("admin.productDetail.matrix.removeValue", { value })}
+                    className="text-slate-400 hover:text-rose-600"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </span>
+              ))}
+              <input
+                value={valueDrafts[index] || ""}
+                onChange={(e) => setValueDrafts((prev) => ({ ...prev, [index]: e.target.value }))}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" || e.key === ",") {
+                    e.preventDefault();
+                    addValues(index);
+                  } else if (e.key === "Backspace" && !valueDrafts[index] && axis.values.length) {
+                    removeValue(index, axis.values[axis.values.length - 1]);
+                  }
+                }}
+                onBlur={() => valueDrafts[index] && addValues(index)}
+                placeholder={t("admin.productDetail.matrix.valuesPlaceholder")}
+                aria-label={t("admin.productDetail.matrix.values")}
+                className="flex-1 min-w-[140px] h-8 bg-transparent text-sm outline-none"
+              />
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => removeAxis(index)}
+              aria-label={t("admin.productDetail.matrix.removeOption")}
+              className="md:col-span-1 h-10 w-10 text-slate-400 hover:text-rose-600 hover:bg-rose-50 dark:hover:bg-rose-500/10"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setAxes((prev) => [...prev, { name: "", values: [] }])}
+          className="self-start h-9 rounded-lg"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          {t("admin.productDetail.matrix.addOption")}
+        </Button>
+      </div>
+
+      {/* SKU and bulk prices */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <FormField label={t("admin.productDetail.matrix.baseSku")}>
+          <Input
+            value={baseSku}
+            onChange={(e) => setBaseSku(e.target.value)}
+            placeholder="PROD-LXX"
+            className={cn(inputClassName, "font-mono")}
+          />
+        </FormField>
+        {(["sellingPrice", "originalPrice", "costPrice"] as const).map((field) => (
+          <FormField key={field} label={t(`admin.products.${field}`)}>
+            <CurrencyInput
+              value={prices[field]}
+              onChange={(value) => setPrices((prev) => ({ ...prev, [field]: value || 0 }))}
+              className={cn(inputClassName, "text-right font-mono")}
+            />
+          </FormField>
+        ))}
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-400 cursor-pointer">
+        <Checkbox
+          checked={overwriteExistingPrices}
+          onCheckedChange={(checked) => setOverwriteExistingPrices(checked === true)}
+        />
+        {t("admin.productDetail.matrix.overwritePrices")}
+      </label>
+
+      {/* Preview */}
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 pt-4 border-t border-[#D4AF37]/20">
+        <div className="text-sm">
+          {hasDuplicateAxes ? (
+            <p className="text-rose-600">{t("admin.productDetail.matrix.duplicateOption")}</p>
+          ) : isTooLarge ? (
+            <p className="text-rose-600">
+              {t("admin.productDetail.matrix.tooMany", {
+                count: combinationCount,
+                max: MAX_MATRIX_COMBINATIONS,
+              })}
+            </p>
+          ) : (
+            preview && (
+              <div className="flex flex-wrap gap-x-4 gap-y-1 text-slate-600 dark:text-slate-400">
+                <span className="font-bold text-slate-900 dark:text-slate-100">
+                  {t("admin.productDetail.matrix.combinations", { count: combinationCount })}
+                </span>
+                <span className="text-emerald-600">
+                  {t("admin.productDetail.matrix.toCreate", { count: preview.created })}
+                </span>
+                <span className="text-amber-600">
+                  {t("admin.productDetail.matrix.toUpdate", { count: preview.updated })}
+                </span>
+                <span>{t("admin.productDetail.matrix.unchanged", { count: preview.unchanged })}</span>
+                {preview.outsideMatrix > 0 && (
+                  <span>{t("admin.productDetail.matrix.outsideMatrix", { count: preview.outsideMatrix })}</span>
+                )}
+              </div>
+            )
+          )}
+        </div>
+        <Button
+          onClick={handleApply}
+          disabled={!preview || (preview.created === 0 && preview.updated === 0)}
+          className="bg-[#D4AF37] text-white h-10 px-6 font-bold rounded-xl shadow-lg shadow-[#D4AF37]/20 hover:bg-[#C4A030]"
+        >
+          <Wand2 className="h-4 w-4 mr-2" />
+          {t("admin.productDetail.matrix.generate")}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -5,9 +5,10 @@ import Image from "next/image";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { CurrencyInput } from "@/components/ui/CurrencyInput";
-import { Plus, Trash2, Save } from "lucide-react";
+import { Plus, Trash2, Save, Wand2 } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { clientApi } from "@/lib/api-client";
+import { productApi } from "@/lib/api/product";
+import { VariantMatrixBuilder } from "./VariantMatrixBuilder";
 import { toast } from "sonner";
 import { useTranslation } from "react-i18next";
 
@@ -27,6 +28,7 @@ interface VariantsTabProps {
     id: string;
     minPrice: number;
     sku?: string;
+    slug?: string;
     variants?: Variant[];
   };
   onChange: (updates: { variants?: Variant[]; minPrice?: number; sku?: string }, skipChangeTracking?: boolean) => void;
@@ -35,6 +37,15 @@ interface VariantsTabProps {
 
 import { FormField } from "../FormField";
 
+/**
+ * Attribute columns in first-seen order; size/color are the defaults for a fresh matrix
+ */
+const getAttributeKeys = (variants: Variant[]) => {
+  const keys = new Set<string>();
+  variants.forEach((variant) => Object.keys(variant.attributes || {}).forEach((key) => keys.add(key)));
+  return keys.size > 0 ? Array.from(keys) : ["size", "color"];
+};
+
 export function VariantsTab({ data, onChange, errors = {} }: VariantsTabProps) {
   const { t } = useTranslation();
   const [hasVariants, setHasVariants] = useState(
@@ -42,7 +53,17 @@ export function VariantsTab({ data, onChange, errors = {} }: VariantsTabProps) {
   );
   const [variants, setVariants] = useState<Variant[]>(data.variants || []);
   const [isSaving, setIsSaving] = useState(false);
+  const [showBuilder, setShowBuilder] = useState(false);
+
+  const attributeKeys = getAttributeKeys(variants);
 
+  const getAttributeLabel = (key: string) => {
+    if (key === "size") return t("admin.productDetail.attributeSize");
+    if (key === "color") return t("admin.productDetail.attributeColor");
+    return t("admin.productDetail.matrix.attributeLabel", {
+      name: key.charAt(0).toUpperCase() + key.slice(1),
+    });
+  };
 
   const handleToggleVariants = () => {
     if (hasVariants) {
@@ -53,25 +74,21 @@ export function VariantsTab({ data, onChange, errors = {} }: VariantsTabProps) {
         onChange({ variants: [] });
       }
     } else {
-      // Switching to product with variants
+      // Switching to product with variants - start from the option builder
       setHasVariants(true);
-      const defaultVariant: Variant = {
-        id: null,
-        attributes: { size: "M", color: "Black" },
-        sellingPrice: 0,
-        originalPrice: 0,
-        costPrice: 0,
-        isActive: true,
-      };
-      setVariants([defaultVariant]);
-      onChange({ variants: [defaultVariant] });
+      setShowBuilder(true);
     }
   };
 
+  const applyMatrix = (generated: Variant[]) => {
+    setVariants(generated);
+    onChange({ variants: generated });
+  };
+
   const addVariant = () => {
     const newVariant: Variant = {
       id: null,
-      attributes: { size: "", color: "" },
+      attributes: Object.fromEntries(attributeKeys.map((key) => [key, ""])),
       sellingPrice: 0,
       originalPrice: 0,
       costPrice: 0,
@@ -95,6 +112,8 @@ export function VariantsTab({ data, onChange, errors = {} }: VariantsTabProps) {
         ...updated[index].attributes,
         [attrKey]: String(value), // Ensure attribute values are strings
       };
+    } else if (field === "sku") {
+      updated[index].sku = String(value);
     } else if (field === "sellingPrice") {
       updated[index].sellingPrice = Number(value);
     } else if (field === "originalPrice") {
@@ -121,7 +140,8 @@ export function VariantsTab({ data, onChange, errors = {} }: VariantsTabProps) {
         // Update existing variant
         console.log("Updating existing variant:", variantId);
 
-        const variantResponse = await clientApi.updateVariant(variantId, {
+        const variantResponse = await productApi.updateVariant(variantId, {
+          attributes: variant.attributes || {},
           sellingPrice: variant.sellingPrice,
           originalPrice: variant.originalPrice,
           costPrice: variant.costPrice,
@@ -139,8 +159,7 @@ export function VariantsTab({ data, onChange, errors = {} }: VariantsTabProps) {
         toast.success(t("admin.productDetail.messages.variantUpdateSuccess"));
 
         // Update local state with backend response
-        const result = variantResponse.data as { data?: Variant };
-        const updatedVariant = result?.data;
+        const updatedVariant = variantResponse.data;
         if (updatedVariant) {
           const updated = [...variants];
           updated[index] = { ...updatedVariant };
@@ -149,7 +168,8 @@ export function VariantsTab({ data, onChange, errors = {} }: VariantsTabProps) {
       } else {
         // Create new variant
         console.log("Creating new variant for product:", data.id);
-        const response = await clientApi.createVariant(data.id, {
+        const response = await productApi.addVariant(data.id, {
+          sku: variant.sku || undefined,
           sellingPrice: variant.sellingPrice || 0,
           originalPrice: variant.originalPrice || 0,
           costPrice: variant.costPrice || 0,
@@ -162,8 +182,7 @@ export function VariantsTab({ data, onChange, errors = {} }: VariantsTabProps) {
           toast.error(response.error.message || t("admin.productDetail.messages.variantCreateFail"));
         } else {
           toast.success(t("admin.productDetail.messages.variantCreateSuccess"));
-          const result = response.data as { data?: Variant };
-          const newVariant = result?.data;
+          const newVariant = response.data;
           console.log("Created variant data:", newVariant);
           if (newVariant) {
             const updated = [...variants];
@@ -190,7 +209,7 @@ export function VariantsTab({ data, onChange, errors = {} }: VariantsTabProps) {
       // Delete from backend if it has an ID
       setIsSaving(true);
       try {
-        const response = await clientApi.deleteVariant(variant.id);
+        const response = await productApi.deleteVariant(variant.id);
 
         if (response.error) {
           toast.error(response.error.message || t("admin.productDetail.messages.variantDeleteFail"));
@@ -226,7 +245,7 @@ export function VariantsTab({ data, onChange, errors = {} }: VariantsTabProps) {
 
     setIsSaving(true);
     try {
-      const response = await clientApi.updateVariantStatus(variant.id, {
+      const response = await productApi.updateVariantStatus(variant.id, {
         isActive: newStatus,
       });
 
@@ -329,24 +348,48 @@ export function VariantsTab({ data, onChange, errors = {} }: VariantsTabProps) {
           <div className="flex flex-col gap-4">
             <div className="flex items-center justify-between">
               <h4 className="text-sm font-bold text-slate-900 dark:text-slate-100 uppercase tracking-widest">{t("admin.productDetail.variantsMatrix")}</h4>
-              <Button
-                onClick={addVariant}
-                size="sm"
-                className="bg-slate-900 text-white dark:bg-slate-100 dark:text-slate-900 hover:bg-slate-800 dark:hover:bg-slate-200 h-9 px-4 font-bold rounded-lg"
-              >
-                <Plus className="h-4 w-4 mr-2" />
-                {t("admin.productDetail.addVariant")}
-              </Button>
+              <div className="flex gap-2">
+                <Button
+                  onClick={() => setShowBuilder(true)}
+                  variant="outline"
+                  size="sm"
+                  disabled={showBuilder}
+                  className="h-9 px-4 font-bold rounded-lg border-[#D4AF37]/40 text-[#D4AF37] hover:bg-[#D4AF37]/10"
+                >
+                  <Wand2 className="h-4 w-4 mr-2" />
+                  {t("admin.productDetail.matrix.open")}
+                </Button>
+                <Button
+                  onClick={addVariant}
+                  size="sm"
+                  className="bg-slate-900 text-white dark:bg-slate-100 dark:text-slate-900 hover:bg-slate-800 dark:hover:bg-slate-200 h-9 px-4 font-bold rounded-lg"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  {t("admin.productDetail.addVariant")}
+                </Button>
+              </div>
             </div>
 
+            {showBuilder && (
+              <VariantMatrixBuilder
+                variants={variants}
+                defaultBaseSku={data.sku || data.slug || ""}
+                createVariant={(variant) => variant}
+                onApply={applyMatrix}
+                onClose={() => setShowBuilder(false)}
+              />
+            )}
+
             <div className="bg-white dark:bg-[#0B0F1A] rounded-2xl border border-slate-200 dark:border-slate-800 overflow-hidden shadow-sm">
               <div className="overflow-x-auto">
                 <table className="w-full text-left border-collapse">
                   <thead>
                     <tr className="border-b border-slate-100 dark:border-slate-800 bg-slate-50/50 dark:bg-slate-800/20">
                       <th className="px-6 py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest">{t("admin.productDetail.image")}</th>
-                      <th className="px-6 py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest">{t("admin.productDetail.attributeSize")}</th>
-                      <th className="px-6 py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest">{t("admin.productDetail.attributeColor")}</th>
+                      <th className="px-6 py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest">{t("admin.productDetail.matrix.sku")}</th>
+                      {attributeKeys.map((key) => (
+                        <th key={key} className="px-6 py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest">{getAttributeLabel(key)}</th>
+                      ))}
                       <th className="px-6 py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest text-right">{t("admin.products.sellingPrice")}</th>
                       <th className="px-6 py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest text-right">{t("admin.products.originalPrice")}</th>
                       <th className="px-6 py-4 text-[10px] font-bold text-slate-400 uppercase tracking-widest text-right">{t("admin.products.costPrice")}</th>
@@ -372,22 +415,23 @@ export function VariantsTab({ data, onChange, errors = {} }: VariantsTabProps) {
                         </td>
                         <td className="px-6 py-4">
                           <Input
-                            value={variant.attributes?.size || ""}
-                            onChange={(e) => updateVariant(index, "attributes.size", e.target.value)}
-                            placeholder="M"
-                            className="h-9 w-24 bg-transparent border-transparent group-hover:border-slate-200 dark:group-hover:border-slate-700 focus:bg-white dark:focus:bg-slate-900 focus:border-[#D4AF37] transition-all font-bold text-slate-900 dark:text-slate-100"
-                            disabled={Boolean(variant.id)}
-                          />
-                        </td>
-                        <td className="px-6 py-4">
-                          <Input
-                            value={variant.attributes?.color || ""}
-                            onChange={(e) => updateVariant(index, "attributes.color", e.target.value)}
-                            placeholder="Black"
-                            className="h-9 w-32 bg-transparent border-transparent group-hover:border-slate-200 dark:group-hover:border-slate-700 focus:bg-white dark:focus:bg-slate-900 focus:border-[#D4AF37] transition-all font-bold text-slate-900 dark:text-slate-100"
+                            value={variant.sku || ""}
+                            onChange={(e) => updateVariant(index, "sku", e.target.value)}
+                            placeholder={t("admin.productDetail.matrix.skuAuto")}
+                            className="h-9 w-40 bg-transparent border-transparent group-hover:border-slate-200 dark:group-hover:border-slate-700 focus:bg-white dark:focus:bg-slate-900 focus:border-[#D4AF37] transition-all font-mono text-xs text-slate-600 dark:text-slate-300"
                             disabled={Boolean(variant.id)}
                           />
                         </td>
+                        {attributeKeys.map((key) => (
+                          <td key={key} className="px-6 py-4">
+                            <Input
+                              value={variant.attributes?.[key] || ""}
+                              onChange={(e) => updateVariant(index, `attributes.${key}`, e.target.value)}
+                              className="h-9 w-28 bg-transparent border-transparent group-hover:border-slate-200 dark:group-hover:border-slate-700 focus:bg-white dark:focus:bg-slate-900 focus:border-[#D4AF37] transition-all font-bold text-slate-900 dark:text-slate-100"
+                              disabled={Boolean(variant.id)}
+                            />
+                          </td>
+                        ))}
                         <td className="px-6 py-4 text-right">
                           <CurrencyInput
                             value={variant.sellingPrice || 0}
@@ -454,10 +498,10 @@ export function VariantsTab({ data, onChange, errors = {} }: VariantsTabProps) {
           </div>
         )}
 
-        {variants.length === 0 && hasVariants && (
+        {variants.length === 0 && hasVariants && !showBuilder && (
           <div className="flex flex-col items-center justify-center py-16 bg-slate-50 dark:bg-slate-900 rounded-2xl border border-dashed border-slate-200 dark:border-slate-800">
             <p className="text-slate-400 font-medium mb-4">{t("admin.productDetail.noVariantsDefined")}</p>
-            <Button onClick={addVariant} className="bg-[#D4AF37] text-white h-10 px-6 font-bold rounded-xl shadow-lg shadow-[#D4AF37]/20">
+            <Button onClick={() => setShowBuilder(true)} className="bg-[#D4AF37] text-white h-10 px-6 font-bold rounded-xl shadow-lg shadow-[#D4AF37]/20">
               <Plus className="h-4 w-4 mr-2" />
               {t("admin.productDetail.initializeVariants")}
             </Button>
@@ -0,0 +1,76 @@
+"use client";
+
+import { Check, Monitor, Moon, Smartphone, Sun } from "lucide-react";
+import { useTranslation } from "react-i18next";
+
+import { Form, FormField } from "@/components/ui/form";
+import { cn } from "@/lib/utils";
+import {
+  SettingsTabProps,
+  useSettingsSection,
+} from "@/lib/hooks/useSettingsSection";
+import { appearanceSettingsSchema } from "@/lib/validations/settings";
+import type { PanelTheme } from "@/lib/types/settings";
+import { SettingsCard } from "./SettingsCard";
+
+const THEME_OPTIONS: { id: PanelTheme; icon: React.ElementType }[] = [
+  { id: "light", icon: Sun },
+  { id: "dark", icon: Moon },
+  { id: "system", icon: Monitor },
+];
+
+export function AppearanceSettingsTab({
+  values,
+  ...options
+}: SettingsTabProps<"appearance">) {
+  const { t } = useTranslation();
+  const { form, formId, onSubmit } = useSettingsSection(
+    "appearance",
+    appearanceSettingsSchema,
+    values,
+    options,
+  );
+
+  return (
+    <Form {...form}>
+      <form id={formId} onSubmit={onSubmit} className="space-y-8">
+        <SettingsCard icon={Smartphone} title={t("admin.settings.appearance.title")}>
+          <p className="text-xs text-slate-500 font-light mb-6">
+            {t("admin.settings.appearance.panelThemeHint")}
+          </p>
+          <FormField
+            control={form.control}
+            name="panelTheme"
+            render={({ field }) => (
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                {THEME_OPTIONS.map((option) => {
+                  const Icon = option.icon;
+                  const isSelected = field.value === option.id;
+                  return (
+                    <button
+                      key={option.id}
+                      type="button"
+                      onClick={() => field.onChange(option.id)}
+                      className={cn(
+                        "p-5 rounded-2xl border text-left flex items-center justify-between transition-colors",
+                        isSelected
+                          ? "border-[#D4AF37]/40 bg-[#D4AF37]/5"
+                          : "border-slate-100 dark:border-slate-800 hover:bg-slate-50 dark:hover:bg-white/5"
+                      )}
+                    >
+                      <span className="flex items-center gap-3 text-sm font-medium text-slate-900 dark:text-slate-100">
+                        <Icon className="h-4 w-4 text-[#D4AF37]" />
+                        {t(`admin.settings.appearance.themes.${option.id}`)}
+                      </span>
+                      {isSelected && <Check className="h-4 w-4 text-[#D4AF37]" />}
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+          />
+        </SettingsCard>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,188 @@
+"use client";
+
+import Image from "next/image";
+import { Check, ImageIcon, Palette, Type } from "lucide-react";
+import { useTranslation } from "react-i18next";
+
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import {
+  SettingsTabProps,
+  useSettingsSection,
+} from "@/lib/hooks/useSettingsSection";
+import { brandingSettingsSchema } from "@/lib/validations/settings";
+import type { TypographyPreset } from "@/lib/types/settings";
+import {
+  SettingsCard,
+  settingsErrorClass,
+  settingsHintClass,
+  settingsInputClass,
+  settingsLabelClass,
+} from "./SettingsCard";
+
+export function BrandingSettingsTab({
+  values,
+  ...options
+}: SettingsTabProps<"branding">) {
+  const { t } = useTranslation();
+  const { form, formId, onSubmit } = useSettingsSection(
+    "branding",
+    brandingSettingsSchema,
+    values,
+    options,
+  );
+
+  const logoUrl = form.watch("logoUrl");
+  const primaryColor = form.watch("primaryColor");
+
+  const typographyOptions: {
+    id: TypographyPreset;
+    label: string;
+    sample: string;
+    desc: string;
+    className: string;
+  }[] = [
+    {
+      id: "serif",
+      label: t("admin.settings.branding.typography.serif"),
+      sample: "Cormorant Garamond",
+      desc: t("admin.settings.branding.typography.serifDesc"),
+      className: "font-serif",
+    },
+    {
+      id: "sans",
+      label: t("admin.settings.branding.typography.sans"),
+      sample: "Inter / Outfit",
+      desc: t("admin.settings.branding.typography.sansDesc"),
+      className: "font-sans",
+    },
+  ];
+
+  return (
+    <Form {...form}>
+      <form id={formId} onSubmit={onSubmit} className="space-y-8">
+        <SettingsCard icon={Palette} title={t("admin.settings.branding.title")}>
+          <div className="flex flex-col md:flex-row gap-10">
+            <div className="space-y-4">
+              <p className={settingsLabelClass}>
+                {t("admin.settings.branding.logo")}
+              </p>
+              <div className="h-40 w-64 border-2 border-dashed border-slate-100 dark:border-slate-800 rounded-2xl flex items-center justify-center bg-slate-50/50 dark:bg-white/5 overflow-hidden relative">
+                {logoUrl ? (
+                  <Image
+                    src={logoUrl}
+                    alt={t("admin.settings.branding.logo")}
+                    fill
+                    className="object-contain p-4"
+                    unoptimized
+                  />
+                ) : (
+                  <ImageIcon className="h-6 w-6 text-slate-300" />
+                )}
+              </div>
+            </div>
+            <div className="flex-1 space-y-6">
+              <FormField
+                control={form.control}
+                name="logoUrl"
+                render={({ field }) => (
+                  <FormItem className="space-y-3">
+                    <FormLabel className={settingsLabelClass}>
+                      {t("admin.settings.branding.logoUrl")}
+                    </FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="https://"
+                        className={settingsInputClass}
+                        {...field}
+                        value={field.value ?? ""}
+                      />
+                    </FormControl>
+                    <FormMessage className={settingsErrorClass} />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="primaryColor"
+                render={({ field }) => (
+                  <FormItem className="space-y-3">
+                    <FormLabel className={settingsLabelClass}>
+                      {t("admin.settings.branding.palette")}
+                    </FormLabel>
+                    <div className="flex items-center gap-4">
+                      <input
+                        type="color"
+                        aria-label={t("admin.settings.branding.palette")}
+                        value={/^#[0-9A-Fa-f]{6}$/.test(primaryColor) ? primaryColor : "#000000"}
+                        onChange={(e) => field.onChange(e.target.value.toUpperCase())}
+                        className="h-12 w-12 rounded-xl cursor-pointer border border-white/20 bg-transparent"
+                      />
+                      <FormControl>
+                        <Input className="w-32 rounded-lg font-mono" {...field} />
+                      </FormControl>
+                    </div>
+                    <FormDescription className={`${settingsHintClass} italic`}>
+                      {t("admin.settings.branding.paletteHint")}
+                    </FormDescription>
+                    <FormMessage className={settingsErrorClass} />
+                  </FormItem>
+                )}
+              />
+            </div>
+          </div>
+        </SettingsCard>
+
+        <SettingsCard icon={Type} title={t("admin.settings.branding.typography.title")}>
+          <FormField
+            control={form.control}
+            name="typography"
+            render={({ field }) => (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {typographyOptions.map((option) => {
+                  const isSelected = field.value === option.id;
+                  return (
+                    <button
+                      key={option.id}
+                      type="button"
+                      onClick={() => field.onChange(option.id)}
+                      className={cn(
+                        "p-6 border rounded-2xl text-left transition-colors",
+                        isSelected
+                          ? "border-[#D4AF37]/40 bg-[#D4AF37]/5"
+                          : "border-slate-100 dark:border-slate-800 hover:bg-slate-50 dark:hover:bg-white/5"
+                      )}
+                    >
+                      <div className="flex items-center justify-between mb-4">
+                        <p className={cn(
+                          "text-xs uppercase tracking-widest font-bold",
+                          isSelected ? "text-[#D4AF37]" : "text-slate-400"
+                        )}>
+                          {option.label}
+                        </p>
+                        {isSelected && <Check className="h-4 w-4 text-[#D4AF37]" />}
+                      </div>
+                      <p className={cn("text-3xl text-slate-900 dark:text-slate-100 mb-2", option.className)}>
+                        {option.sample}
+                      </p>
+                      <p className="text-xs text-slate-500">{option.desc}</p>
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+          />
+        </SettingsCard>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,147 @@
+"use client";
+
+import { Globe, Mail, Store } from "lucide-react";
+import { useTranslation } from "react-i18next";
+
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  SettingsTabProps,
+  useSettingsSection,
+} from "@/lib/hooks/useSettingsSection";
+import { generalSettingsSchema } from "@/lib/validations/settings";
+import {
+  SettingsCard,
+  settingsErrorClass,
+  settingsHintClass,
+  settingsInputClass,
+  settingsLabelClass,
+} from "./SettingsCard";
+
+export function GeneralSettingsTab({
+  values,
+  ...options
+}: SettingsTabProps<"general">) {
+  const { t } = useTranslation();
+  const { form, formId, onSubmit } = useSettingsSection(
+    "general",
+    generalSettingsSchema,
+    values,
+    options,
+  );
+
+  return (
+    <Form {...form}>
+      <form id={formId} onSubmit={onSubmit} className="space-y-8">
+        <SettingsCard icon={Store} title={t("admin.settings.general.title")}>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+            <FormField
+              control={form.control}
+              name="storeName"
+              render={({ field }) => (
+                <FormItem className="space-y-3">
+                  <FormLabel className={settingsLabelClass}>
+                    {t("admin.settings.general.storeName")}
+                  </FormLabel>
+                  <FormControl>
+                    <Input className={settingsInputClass} {...field} />
+                  </FormControl>
+                  <FormDescription className={settingsHintClass}>
+                    {t("admin.settings.general.storeNameHint")}
+                  </FormDescription>
+                  <FormMessage className={settingsErrorClass} />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="publicUrl"
+              render={({ field }) => (
+                <FormItem className="space-y-3">
+                  <FormLabel className={settingsLabelClass}>
+                    {t("admin.settings.general.publicUrl")}
+                  </FormLabel>
+                  <div className="relative">
+                    <FormControl>
+                      <Input className={`${settingsInputClass} pl-10`} {...field} />
+                    </FormControl>
+                    <Globe className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-slate-400" />
+                  </div>
+                  <FormDescription className={settingsHintClass}>
+                    {t("admin.settings.general.publicUrlHint")}
+                  </FormDescription>
+                  <FormMessage className={settingsErrorClass} />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="mission"
+              render={({ field }) => (
+                <FormItem className="col-span-full space-y-3">
+                  <FormLabel className={settingsLabelClass}>
+                    {t("admin.settings.general.mission")}
+                  </FormLabel>
+                  <FormControl>
+                    <Textarea
+                      className="rounded-xl border-slate-200 dark:border-slate-800 bg-slate-50/50 dark:bg-white/5 min-h-[120px]"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormDescription className={settingsHintClass}>
+                    {t("admin.settings.general.missionHint")}
+                  </FormDescription>
+                  <FormMessage className={settingsErrorClass} />
+                </FormItem>
+              )}
+            />
+          </div>
+        </SettingsCard>
+
+        <SettingsCard icon={Mail} title={t("admin.settings.general.contacts")}>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+            <FormField
+              control={form.control}
+              name="inquiryEmail"
+              render={({ field }) => (
+                <FormItem className="space-y-3">
+                  <FormLabel className={settingsLabelClass}>
+                    {t("admin.settings.general.inquiryEmail")}
+                  </FormLabel>
+                  <FormControl>
+                    <Input type="email" className={settingsInputClass} {...field} />
+                  </FormControl>
+                  <FormMessage className={settingsErrorClass} />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="orderAlertEmail"
+              render={({ field }) => (
+                <FormItem className="space-y-3">
+                  <FormLabel className={settingsLabelClass}>
+                    {t("admin.settings.general.orderAlerts")}
+                  </FormLabel>
+                  <FormControl>
+                    <Input type="email" className={settingsInputClass} {...field} />
+                  </FormControl>
+                  <FormMessage className={settingsErrorClass} />
+                </FormItem>
+              )}
+            />
+          </div>
+        </SettingsCard>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,62 @@
+"use client";
+
+import { Bell } from "lucide-react";
+import { useTranslation } from "react-i18next";
+
+import { Form, FormField } from "@/components/ui/form";
+import {
+  SettingsTabProps,
+  useSettingsSection,
+} from "@/lib/hooks/useSettingsSection";
+import { notificationSettingsSchema } from "@/lib/validations/settings";
+import type { NotificationSettings } from "@/lib/types/settings";
+import { SettingsCard, SettingsToggleRow } from "./SettingsCard";
+
+const NOTIFICATION_ITEMS: {
+  name: keyof NotificationSettings;
+  key: string;
+}[] = [
+  { name: "newOrder", key: "orders" },
+  { name: "vipRegistration", key: "vip" },
+  { name: "inventoryDepleted", key: "inventory" },
+  { name: "reviewVerification", key: "reviews" },
+];
+
+export function NotificationSettingsTab({
+  values,
+  ...options
+}: SettingsTabProps<"notifications">) {
+  const { t } = useTranslation();
+  const { form, formId, onSubmit } = useSettingsSection(
+    "notifications",
+    notificationSettingsSchema,
+    values,
+    options,
+  );
+
+  return (
+    <Form {...form}>
+      <form id={formId} onSubmit={onSubmit} className="space-y-6">
+        <SettingsCard icon={Bell} title={t("admin.settings.notifications.title")}>
+          <div className="space-y-4">
+            {NOTIFICATION_ITEMS.map((item) => (
+              <FormField
+                key={item.name}
+                control={form.control}
+                name={item.name}
+                render={({ field }) => (
+                  <SettingsToggleRow
+                    title={t(`admin.settings.notifications.items.${item.key}.title`)}
+                    description={t(`admin.settings.notifications.items.${item.key}.desc`)}
+                    checked={field.value}
+                    onCheckedChange={field.onChange}
+                  />
+                )}
+              />
+            ))}
+          </div>
+        </SettingsCard>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,135 @@
+"use client";
+
+import { CreditCard, Landmark } from "lucide-react";
+import { useTranslation } from "react-i18next";
+
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  SettingsTabProps,
+  useSettingsSection,
+} from "@/lib/hooks/useSettingsSection";
+import { paymentSettingsSchema } from "@/lib/validations/settings";
+import {
+  SettingsCard,
+  SettingsToggleRow,
+  settingsErrorClass,
+  settingsInputClass,
+  settingsLabelClass,
+} from "./SettingsCard";
+
+export function PaymentSettingsTab({
+  values,
+  ...options
+}: SettingsTabProps<"payments">) {
+  const { t } = useTranslation();
+  const { form, formId, onSubmit } = useSettingsSection(
+    "payments",
+    paymentSettingsSchema,
+    values,
+    options,
+  );
+
+  const bankTransferEnabled = form.watch("bankTransferEnabled");
+
+  return (
+    <Form {...form}>
+      <form id={formId} onSubmit={onSubmit} className="space-y-8">
+        <SettingsCard icon={CreditCard} title={t("admin.settings.payments.title")}>
+          <div className="space-y-4">
+            <FormField
+              control={form.control}
+              name="codEnabled"
+              render={({ field }) => (
+                <FormItem>
+                  <SettingsToggleRow
+                    title={t("admin.settings.payments.cod")}
+                    description={t("admin.settings.payments.codDesc")}
+                    checked={field.value}
+                    onCheckedChange={field.onChange}
+                  />
+                  <FormMessage className={settingsErrorClass} />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="bankTransferEnabled"
+              render={({ field }) => (
+                <SettingsToggleRow
+                  title={t("admin.settings.payments.bankTransfer")}
+                  description={t("admin.settings.payments.bankTransferDesc")}
+                  checked={field.value}
+                  onCheckedChange={field.onChange}
+                />
+              )}
+            />
+          </div>
+        </SettingsCard>
+
+        {bankTransferEnabled && (
+          <SettingsCard icon={Landmark} title={t("admin.settings.payments.bankAccount")}>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+              <FormField
+                control={form.control}
+                name="bankName"
+                render={({ field }) => (
+                  <FormItem className="space-y-3">
+                    <FormLabel className={settingsLabelClass}>
+                      {t("admin.settings.payments.bankName")}
+                    </FormLabel>
+                    <FormControl>
+                      <Input className={settingsInputClass} {...field} />
+                    </FormControl>
+                    <FormMessage className={settingsErrorClass} />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="bankAccountNumber"
+                render={({ field }) => (
+                  <FormItem className="space-y-3">
+                    <FormLabel className={settingsLabelClass}>
+                      {t("admin.settings.payments.accountNumber")}
+                    </FormLabel>
+                    <FormControl>
+                      <Input inputMode="numeric" className={`${settingsInputClass} font-mono`} {...field} />
+                    </FormControl>
+                    <FormMessage className={settingsErrorClass} />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="bankAccountHolder"
+                render={({ field }) => (
+                  <FormItem className="col-span-full space-y-3">
+                    <FormLabel className={settingsLabelClass}>
+                      {t("admin.settings.payments.accountHolder")}
+                    </FormLabel>
+                    <FormControl>
+                      <Input
+                        className={`${settingsInputClass} uppercase`}
+                        {...field}
+                        onChange={(e) => field.onChange(e.target.value.toUpperCase())}
+                      />
+                    </FormControl>
+                    <FormMessage className={settingsErrorClass} />
+                  </FormItem>
+                )}
+              />
+            </div>
+          </SettingsCard>
+        )}
+      </form>
+    </Form>
+  );
+}
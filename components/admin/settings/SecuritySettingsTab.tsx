@@ -0,0 +1,112 @@
+"use client";
+
+import { Shield } from "lucide-react";
+import { useTranslation } from "react-i18next";
+
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  SettingsTabProps,
+  useSettingsSection,
+} from "@/lib/hooks/useSettingsSection";
+import { securitySettingsSchema } from "@/lib/validations/settings";
+import {
+  SettingsCard,
+  SettingsToggleRow,
+  settingsErrorClass,
+  settingsHintClass,
+  settingsInputClass,
+  settingsLabelClass,
+} from "./SettingsCard";
+
+export function SecuritySettingsTab({
+  values,
+  ...options
+}: SettingsTabProps<"security">) {
+  const { t } = useTranslation();
+  const { form, formId, onSubmit } = useSettingsSection(
+    "security",
+    securitySettingsSchema,
+    values,
+    options,
+  );
+
+  return (
+    <Form {...form}>
+      <form id={formId} onSubmit={onSubmit} className="space-y-8">
+        <SettingsCard icon={Shield} title={t("admin.settings.security.title")}>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-8 mb-8">
+            <FormField
+              control={form.control}
+              name="sessionTimeoutMinutes"
+              render={({ field }) => (
+                <FormItem className="space-y-3">
+                  <FormLabel className={settingsLabelClass}>
+                    {t("admin.settings.security.sessionTimeout")}
+                  </FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={5}
+                      className={settingsInputClass}
+                      {...field}
+                      onChange={(e) => field.onChange(e.target.valueAsNumber || 0)}
+                    />
+                  </FormControl>
+                  <FormDescription className={settingsHintClass}>
+                    {t("admin.settings.security.sessionTimeoutHint")}
+                  </FormDescription>
+                  <FormMessage className={settingsErrorClass} />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="maxLoginAttempts"
+              render={({ field }) => (
+                <FormItem className="space-y-3">
+                  <FormLabel className={settingsLabelClass}>
+                    {t("admin.settings.security.maxLoginAttempts")}
+                  </FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={3}
+                      className={settingsInputClass}
+                      {...field}
+                      onChange={(e) => field.onChange(e.target.valueAsNumber || 0)}
+                    />
+                  </FormControl>
+                  <FormDescription className={settingsHintClass}>
+                    {t("admin.settings.security.maxLoginAttemptsHint")}
+                  </FormDescription>
+                  <FormMessage className={settingsErrorClass} />
+                </FormItem>
+              )}
+            />
+          </div>
+          <FormField
+            control={form.control}
+            name="requireStrongPasswords"
+            render={({ field }) => (
+              <SettingsToggleRow
+                title={t("admin.settings.security.strongPasswords")}
+                description={t("admin.settings.security.strongPasswordsDesc")}
+                checked={field.value}
+                onCheckedChange={field.onChange}
+              />
+            )}
+          />
+        </SettingsCard>
+      </form>
+    </Form>
+  );
+}
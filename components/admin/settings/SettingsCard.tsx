@@ -0,0 +1,74 @@
+"use client";
+
+import { ReactNode } from "react";
+import { Switch } from "@/components/ui/switch";
+import { cn } from "@/lib/utils";
+
+export const settingsLabelClass =
+  "text-xs uppercase tracking-widest font-bold text-slate-400";
+export const settingsInputClass =
+  "rounded-xl border-slate-200 dark:border-slate-800 bg-slate-50/50 dark:bg-white/5 py-6";
+export const settingsHintClass = "text-[10px] text-slate-500 font-light";
+export const settingsErrorClass = "text-[10px] uppercase font-bold text-red-400";
+
+interface SettingsCardProps {
+  icon: React.ElementType;
+  title: string;
+  children: ReactNode;
+  className?: string;
+}
+
+export function SettingsCard({
+  icon: Icon,
+  title,
+  children,
+  className,
+}: SettingsCardProps) {
+  return (
+    <div
+      className={cn(
+        "bg-white dark:bg-[#111] border border-slate-200 dark:border-slate-800 rounded-3xl p-8 shadow-sm",
+        className,
+      )}
+    >
+      <h2 className="text-2xl font-light text-slate-900 dark:text-slate-100 mb-6 flex items-center gap-3">
+        <Icon className="h-6 w-6 text-[#D4AF37]" />
+        {title}
+      </h2>
+      {children}
+    </div>
+  );
+}
+
+interface SettingsToggleRowProps {
+  title: string;
+  description?: string;
+  checked: boolean;
+  onCheckedChange: (checked: boolean) => void;
+  disabled?: boolean;
+}
+
+export function SettingsToggleRow({
+  title,
+  description,
+  checked,
+  onCheckedChange,
+  disabled,
+}: SettingsToggleRowProps) {
+  return (
+    <div className="flex items-center justify-between gap-6 p-6 border border-slate-50 dark:border-slate-900 rounded-2xl hover:bg-slate-50/50 dark:hover:bg-white/5 transition-colors">
+      <div className="space-y-0.5">
+        <p className="font-medium text-slate-900 dark:text-slate-100">{title}</p>
+        {description && (
+          <p className="text-xs text-slate-500 font-light">{description}</p>
+        )}
+      </div>
+      <Switch
+        checked={checked}
+        onCheckedChange={onCheckedChange}
+        disabled={disabled}
+        className="data-[state=checked]:bg-[#D4AF37]"
+      />
+    </div>
+  );
+}
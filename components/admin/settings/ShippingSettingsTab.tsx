@@ -0,0 +1,116 @@
+"use client";
+
+import { Truck } from "lucide-react";
+import { useTranslation } from "react-i18next";
+
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { CurrencyInput } from "@/components/ui/CurrencyInput";
+import {
+  SettingsTabProps,
+  useSettingsSection,
+} from "@/lib/hooks/useSettingsSection";
+import { shippingSettingsSchema } from "@/lib/validations/settings";
+import {
+  SettingsCard,
+  settingsErrorClass,
+  settingsHintClass,
+  settingsInputClass,
+  settingsLabelClass,
+} from "./SettingsCard";
+
+export function ShippingSettingsTab({
+  values,
+  ...options
+}: SettingsTabProps<"shipping">) {
+  const { t } = useTranslation();
+  const { form, formId, onSubmit } = useSettingsSection(
+    "shipping",
+    shippingSettingsSchema,
+    values,
+    options,
+  );
+
+  return (
+    <Form {...form}>
+      <form id={formId} onSubmit={onSubmit} className="space-y-8">
+        <SettingsCard icon={Truck} title={t("admin.settings.shipping.title")}>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+            <FormField
+              control={form.control}
+              name="flatRate"
+              render={({ field }) => (
+                <FormItem className="space-y-3">
+                  <FormLabel className={settingsLabelClass}>
+                    {t("admin.settings.shipping.flatRate")}
+                  </FormLabel>
+                  <FormControl>
+                    <CurrencyInput
+                      className={settingsInputClass}
+                      value={field.value}
+                      onChange={(value) => field.onChange(value ?? 0)}
+                      onBlur={field.onBlur}
+                    />
+                  </FormControl>
+                  <FormMessage className={settingsErrorClass} />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="freeShippingThreshold"
+              render={({ field }) => (
+                <FormItem className="space-y-3">
+                  <FormLabel className={settingsLabelClass}>
+                    {t("admin.settings.shipping.freeShippingThreshold")}
+                  </FormLabel>
+                  <FormControl>
+                    <CurrencyInput
+                      className={settingsInputClass}
+                      value={field.value}
+                      onChange={(value) => field.onChange(value ?? 0)}
+                      onBlur={field.onBlur}
+                    />
+                  </FormControl>
+                  <FormDescription className={settingsHintClass}>
+                    {t("admin.settings.shipping.freeShippingHint")}
+                  </FormDescription>
+                  <FormMessage className={settingsErrorClass} />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="processingDays"
+              render={({ field }) => (
+                <FormItem className="space-y-3">
+                  <FormLabel className={settingsLabelClass}>
+                    {t("admin.settings.shipping.processingDays")}
+                  </FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={0}
+                      className={settingsInputClass}
+                      {...field}
+                      onChange={(e) => field.onChange(e.target.valueAsNumber || 0)}
+                    />
+                  </FormControl>
+                  <FormMessage className={settingsErrorClass} />
+                </FormItem>
+              )}
+            />
+          </div>
+        </SettingsCard>
+      </form>
+    </Form>
+  );
+}
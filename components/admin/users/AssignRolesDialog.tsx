@@ -0,0 +1,106 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Loader2, Shield } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { AdminUser, Role } from "@/lib/api/admin-users";
+
+interface AssignRolesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  user: AdminUser | null;
+  roles: Role[];
+  isSaving?: boolean;
+  onSubmit: (roleCodes: string[]) => void;
+}
+
+/**
+ * Pick the full set of roles for a user; submitting replaces the current assignment.
+ * Render with `key={user.id}` so the selection resets when the target changes.
+ */
+export function AssignRolesDialog({
+  open,
+  onOpenChange,
+  user,
+  roles,
+  isSaving = false,
+  onSubmit,
+}: AssignRolesDialogProps) {
+  const { t } = useTranslation();
+  const [selected, setSelected] = useState<string[]>(user?.roles ?? []);
+
+  const toggle = (code: string, checked: boolean) => {
+    setSelected((prev) =>
+      checked ? [...prev, code] : prev.filter((c) => c !== code),
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-white dark:bg-slate-900 border border-gray-200 dark:border-slate-800">
+        <DialogHeader>
+          <DialogTitle>{t("admin.users.assignRoles")}</DialogTitle>
+          <DialogDescription>
+            {t("admin.users.assignRolesDesc", { name: user?.fullName })}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-[50vh] overflow-y-auto">
+          {roles.map((role) => (
+            <label
+              key={role.id}
+              className="flex items-start gap-3 p-3 rounded-xl border border-slate-100 dark:border-slate-800 hover:bg-slate-50 dark:hover:bg-white/5 cursor-pointer"
+            >
+              <Checkbox
+                className="mt-0.5"
+                checked={selected.includes(role.code)}
+                onCheckedChange={(checked) =>
+                  toggle(role.code, checked === true)
+                }
+              />
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-slate-900 dark:text-slate-100 flex items-center gap-2">
+                  <Shield className="h-3.5 w-3.5 text-[#D4AF37]" />
+                  {role.name}
+                  <span className="text-[10px] font-mono text-slate-400">
+                    {role.code}
+                  </span>
+                </p>
+                {role.description && (
+                  <p className="text-xs text-slate-500 mt-0.5">
+                    {role.description}
+                  </p>
+                )}
+              </div>
+            </label>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t("common.cancel")}
+          </Button>
+          <Button
+            onClick={() => onSubmit(selected)}
+            disabled={isSaving}
+            className="bg-[#D4AF37] hover:bg-[#B8962D] text-white"
+          >
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {t("common.save")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
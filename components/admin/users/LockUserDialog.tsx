@@ -0,0 +1,77 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { AdminUser } from "@/lib/api/admin-users";
+
+interface LockUserDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  user: AdminUser | null;
+  onConfirm: (reason?: string) => void;
+}
+
+export function LockUserDialog({
+  open,
+  onOpenChange,
+  user,
+  onConfirm,
+}: LockUserDialogProps) {
+  const { t } = useTranslation();
+  const [reason, setReason] = useState("");
+
+  const handleOpenChange = (next: boolean) => {
+    onOpenChange(next);
+    if (!next) setReason("");
+  };
+
+  const handleConfirm = () => {
+    onConfirm(reason.trim() || undefined);
+    handleOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="bg-white dark:bg-slate-900 border border-gray-200 dark:border-slate-800">
+        <DialogHeader>
+          <DialogTitle>
+            {t("admin.users.lockTitle", { name: user?.fullName })}
+          </DialogTitle>
+          <DialogDescription>{t("admin.users.lockDesc")}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="admin-lock-reason">
+            {t("admin.users.lockReason")}
+          </Label>
+          <Textarea
+            id="admin-lock-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder={t("admin.users.lockReasonPlaceholder")}
+            maxLength={500}
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            {t("common.cancel")}
+          </Button>
+          <Button variant="destructive" onClick={handleConfirm}>
+            {t("admin.users.lock")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
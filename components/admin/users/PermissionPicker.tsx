@@ -0,0 +1,164 @@
+"use client";
+
+import { useTranslation } from "react-i18next";
+import { Asterisk } from "lucide-react";
+
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  PERMISSION_CATALOGUE,
+  PERMISSION_DOMAINS,
+} from "@/lib/constants/permissions";
+import {
+  findGrantingPermission,
+  normalizePermissionSet,
+} from "@/lib/utils/permissions";
+import { cn } from "@/lib/utils";
+
+interface PermissionPickerProps {
+  value: string[];
+  onChange: (permissions: string[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Builds a role's permission set from the PERMISSIONS catalogue.
+ * Supports full access ("*") and per-domain wildcard grants ("shop.*");
+ * permissions covered by a wildcard are shown checked and locked.
+ */
+export function PermissionPicker({
+  value,
+  onChange,
+  disabled = false,
+}: PermissionPickerProps) {
+  const { t } = useTranslation();
+
+  const grant = (permission: string) =>
+    onChange(normalizePermissionSet([...value, permission]));
+
+  const revoke = (permission: string) =>
+    onChange(value.filter((p) => p !== permission));
+
+  const toggle = (permission: string, checked: boolean) =>
+    checked ? grant(permission) : revoke(permission);
+
+  const hasFullAccess = value.includes("*");
+
+  return (
+    <div className="space-y-4">
+      <label
+        className={cn(
+          "flex items-center justify-between gap-4 p-4 rounded-2xl border border-slate-100 dark:border-white/10 bg-slate-50/30 dark:bg-white/2",
+          !disabled && "cursor-pointer",
+        )}
+      >
+        <div className="flex items-center gap-3">
+          <div className="h-8 w-8 rounded-xl bg-[#D4AF37]/10 text-[#D4AF37] flex items-center justify-center">
+            <Asterisk className="h-4 w-4" />
+          </div>
+          <div>
+            <p className="text-sm font-medium text-slate-900 dark:text-slate-100">
+              {t("admin.roles.fullAccess")}
+            </p>
+            <p className="text-[10px] text-slate-400">
+              {t("admin.roles.fullAccessDesc")}
+            </p>
+          </div>
+        </div>
+        <Checkbox
+          checked={hasFullAccess}
+          disabled={disabled}
+          onCheckedChange={(checked) => onChange(checked === true ? ["*"] : [])}
+        />
+      </label>
+
+      {PERMISSION_DOMAINS.map((domain) => {
+        const wildcard = `${domain}.*`;
+        const domainGrant = findGrantingPermission(value, wildcard);
+        const groups = PERMISSION_CATALOGUE.filter(
+          (group) => group.domain === domain,
+        );
+
+        return (
+          <div
+            key={domain}
+            className="rounded-2xl border border-slate-100 dark:border-white/10 overflow-hidden"
+          >
+            <label
+              className={cn(
+                "flex items-center justify-between gap-4 px-4 py-3 bg-slate-50/50 dark:bg-white/5",
+                !disabled && !hasFullAccess && "cursor-pointer",
+              )}
+            >
+              <div>
+                <p className="text-xs font-bold uppercase tracking-widest text-slate-600 dark:text-slate-300">
+                  {t(`admin.roles.domains.${domain}`, { defaultValue: domain })}
+                </p>
+                <p className="text-[10px] font-mono text-slate-400">
+                  {wildcard}
+                </p>
+              </div>
+              <Checkbox
+                checked={!!domainGrant}
+                disabled={disabled || (!!domainGrant && domainGrant !== wildcard)}
+                onCheckedChange={(checked) => toggle(wildcard, checked === true)}
+              />
+            </label>
+
+            <div className="divide-y divide-slate-100 dark:divide-white/5">
+              {groups.map((group) => (
+                <div
+                  key={`${group.domain}.${group.resource}`}
+                  className="px-4 py-3 space-y-2"
+                >
+                  <p className="text-[10px] font-bold uppercase tracking-widest text-slate-400">
+                    {t(`admin.roles.resources.${group.resource}`, {
+                      defaultValue: group.resource,
+                    })}
+                  </p>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    {group.permissions.map((permission) => {
+                      const grantedBy = findGrantingPermission(
+                        value,
+                        permission,
+                      );
+                      const isInherited =
+                        !!grantedBy && grantedBy !== permission;
+
+                      return (
+                        <label
+                          key={permission}
+                          className={cn(
+                            "flex items-center gap-2 text-xs",
+                            !disabled && !isInherited && "cursor-pointer",
+                          )}
+                        >
+                          <Checkbox
+                            checked={!!grantedBy}
+                            disabled={disabled || isInherited}
+                            onCheckedChange={(checked) =>
+                              toggle(permission, checked === true)
+                            }
+                          />
+                          <span className="font-mono text-slate-700 dark:text-slate-300">
+                            {permission}
+                          </span>
+                          {isInherited && (
+                            <span className="text-[10px] text-[#D4AF37]">
+                              {t("admin.roles.grantedVia", {
+                                grant: grantedBy,
+                              })}
+                            </span>
+                          )}
+                        </label>
+                      );
+                    })}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
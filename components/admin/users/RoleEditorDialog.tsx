@@ -0,0 +1,235 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+  FormDescription,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Loader2, AlertCircle } from 'lucide-react';
+import { adminUsersApi, Role } from '@/lib/api/admin-users';
+import { PermissionPicker } from './PermissionPicker';
+
+const formSchema = z.object({
+  code: z
+    .string()
+    .min(2, 'Code is required')
+    .regex(/^[A-Z][A-Z0-9_]*$/, 'Use uppercase letters, digits and underscores'),
+  name: z.string().min(1, 'Name is required'),
+  description: z.string().optional().or(z.literal('')),
+  permissions: z.array(z.string()).min(1, 'Select at least one permission'),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+interface RoleEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  role?: Role | null;
+  onSuccess: () => void;
+}
+
+export function RoleEditorDialog({
+  open,
+  onOpenChange,
+  role,
+  onSuccess,
+}: RoleEditorDialogProps) {
+  const { t } = useTranslation();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      code: '',
+      name: '',
+      description: '',
+      permissions: [],
+    },
+  });
+
+  useEffect(() => {
+    if (open) {
+      setError(null);
+      form.reset({
+        code: role?.code || '',
+        name: role?.name || '',
+        description: role?.description || '',
+        permissions: role?.permissions || [],
+      });
+    }
+  }, [role, form, open]);
+
+  const onSubmit = async (values: FormValues) => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const payload = {
+        code: values.code,
+        name: values.name,
+        description: values.description || undefined,
+        permissions: values.permissions,
+      };
+      const result = role
+        ? await adminUsersApi.updateRole(role.id, payload)
+        : await adminUsersApi.createRole(payload);
+      if (result.error) throw new Error(result.error.message);
+
+      onSuccess();
+      onOpenChange(false);
+    } catch (err: unknown) {
+      setError((err as Error)?.message || t('admin.roles.saveFailed'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[680px] max-h-[90vh] rounded-[2rem] border-slate-200 dark:border-slate-800 shadow-2xl p-0 overflow-hidden bg-white dark:bg-[#0A0A0A] flex flex-col">
+        <DialogHeader className="p-8 pb-4 bg-slate-50/50 dark:bg-white/5 border-b border-slate-100 dark:border-white/10">
+          <DialogTitle className="text-2xl font-light italic">
+            {role ? t('admin.roles.editTitle') : t('admin.roles.createTitle')}
+          </DialogTitle>
+          <DialogDescription className="font-light text-slate-500">
+            {t('admin.roles.editorDesc')}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(onSubmit)}
+            className="flex-1 overflow-y-auto p-8 space-y-6"
+          >
+            {error && (
+              <Alert variant="destructive" className="rounded-2xl border-red-200 bg-red-50 dark:bg-red-900/10">
+                <AlertCircle className="h-4 w-4 text-red-500" />
+                <AlertDescription className="text-red-600 font-medium">{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+              <FormField
+                control={form.control}
+                name="code"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-[10px] uppercase tracking-widest font-bold text-slate-400">
+                      {t('admin.roles.code')}
+                    </FormLabel>
+                    <FormControl>
+                      <Input
+                        disabled={!!role}
+                        placeholder="STORE_MANAGER"
+                        className="rounded-2xl border-slate-200 dark:border-slate-800 bg-slate-50/50 dark:bg-white/5 py-6 px-4 font-mono text-xs"
+                        {...field}
+                        onChange={(e) => field.onChange(e.target.value.toUpperCase())}
+                      />
+                    </FormControl>
+                    <FormMessage className="text-[10px] uppercase font-bold text-red-400" />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-[10px] uppercase tracking-widest font-bold text-slate-400">
+                      {t('admin.roles.name')}
+                    </FormLabel>
+                    <FormControl>
+                      <Input
+                        disabled={!!role?.system}
+                        className="rounded-2xl border-slate-200 dark:border-slate-800 bg-slate-50/50 dark:bg-white/5 py-6 px-4"
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage className="text-[10px] uppercase font-bold text-red-400" />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-[10px] uppercase tracking-widest font-bold text-slate-400">
+                    {t('admin.roles.description')}
+                  </FormLabel>
+                  <FormControl>
+                    <Textarea
+                      className="rounded-2xl border-slate-200 dark:border-slate-800 bg-slate-50/50 dark:bg-white/5 min-h-[80px] p-4"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage className="text-[10px] uppercase font-bold text-red-400" />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="permissions"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-[10px] uppercase tracking-widest font-bold text-slate-400">
+                    {t('admin.roles.permissions')}
+                  </FormLabel>
+                  <FormDescription className="text-[9px] font-medium tracking-tight text-slate-400">
+                    {t('admin.roles.permissionsHint')}
+                  </FormDescription>
+                  <FormControl>
+                    <PermissionPicker
+                      value={field.value}
+                      onChange={field.onChange}
+                    />
+                  </FormControl>
+                  <FormMessage className="text-[10px] uppercase font-bold text-red-400" />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter className="pt-6 border-t border-slate-100 dark:border-white/10 gap-3">
+              <Button type="button" variant="ghost" onClick={() => onOpenChange(false)} className="rounded-2xl font-light h-12 px-6">
+                {t('common.cancel')}
+              </Button>
+              <Button
+                type="submit"
+                disabled={isSubmitting}
+                className="rounded-2xl bg-slate-900 dark:bg-[#D4AF37] text-white px-10 h-12 font-light shadow-xl shadow-slate-900/10 dark:shadow-[#D4AF37]/20 hover:opacity-90 transition-all"
+              >
+                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {t('common.save')}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -13,35 +13,8 @@ import { useTranslation } from 'react-i18next';
 import { motion, AnimatePresence, useScroll, useTransform } from 'framer-motion';
 import { cn } from '@/lib/utils';
 import { useCartOptional } from '@/components/providers/CartProvider';
-
-const checkNavItems = [
-  {
-    label: 'navbar.shop',
-    href: '/shop',
-    children: [
-      {
-        title: 'shop.men',
-        links: [
-          { label: 'shop.allCollections', href: '/shop' },
-          { label: 'shop.newArrivals', href: '/shop?sort=newest' },
-          { label: 'shop.essentials', href: '/shop?category=essentials' },
-        ]
-      },
-      {
-        title: 'shop.categories',
-        links: [
-          { label: 'shop.jewelry', href: '/shop?category=jewelry' },
-          { label: 'shop.apparel', href: '/shop?category=apparel' },
-          { label: 'shop.lifestyle', href: '/shop?category=lifestyle' },
-        ]
-      }
-    ]
-  },
-  {
-    label: 'navbar.about',
-    href: '/about',
-  },
-];
+import { useMegaMenu } from '@/hooks/shop/useMegaMenu';
+import type { MegaMenuItem } from '@/app/api/bff/menu/route';
 
 export function LuxuryNavBar() {
   const { t } = useTranslation();
@@ -50,6 +23,15 @@ export function LuxuryNavBar() {
   const user = useAppSelector((state) => state.auth.user);
   const cartContext = useCartOptional();
   const cartItems = cartContext?.items ?? [];
+  const { items: categoryItems } = useMegaMenu();
+
+  // Root categories lead the menu; a plain Shop link stands in until they load
+  const navItems: MegaMenuItem[] = [
+    ...(categoryItems.length > 0
+      ? categoryItems
+      : [{ label: t('navbar.shop'), href: '/shop', columns: [] }]),
+    { label: t('navbar.about'), href: '/about', columns: [] },
+  ];
   
   // Track mounted state for animations
   const [mounted, setMounted] = useState(false);
@@ -90,7 +72,7 @@ export function LuxuryNavBar() {
       <div className="max-w-[1440px] w-full mx-auto px-6 md:px-12 flex items-center justify-between relative">
         {/* Left: Navigation Menu */}
         <div className="hidden lg:flex items-center gap-10">
-          <MegaMenu items={checkNavItems} activePath={pathname} />
+          <MegaMenu items={navItems} activePath={pathname} />
         </div>
 
         {/* Center: Brand Identity */}
@@ -191,9 +173,9 @@ export function LuxuryNavBar() {
             className="fixed inset-0 top-[4.5rem] bg-white dark:bg-[#111111] z-[40] lg:hidden flex flex-col p-8 space-y-12"
           >
             <div className="flex flex-col space-y-8">
-              {checkNavItems.map((item, idx) => (
+              {navItems.map((item, idx) => (
                 <Link
-                  key={idx}
+                  key={item.href}
                   href={item.href}
                   className="text-3xl font-light tracking-[0.1em] text-[#1A1A1A] dark:text-zinc-200 no-underline border-b border-zinc-100 dark:border-zinc-800 pb-4"
                 >
@@ -203,7 +185,7 @@ export function LuxuryNavBar() {
                     transition={{ delay: 0.1 * idx }}
                     className="flex items-center justify-between"
                   >
-                    {t(item.label)}
+                    {item.label}
                     <ChevronDown className="h-5 w-5 -rotate-90 text-[#D4AF37]" />
                   </motion.div>
                 </Link>
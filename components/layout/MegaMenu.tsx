@@ -2,22 +2,17 @@
 
 import { useState } from 'react';
 import Link from 'next/link';
+import Image from 'next/image';
 import { motion, AnimatePresence } from 'framer-motion';
 import { ChevronDown } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useTranslation } from 'react-i18next';
 
-interface MenuItem {
-  label: string;
-  href: string;
-  children?: {
-    title: string;
-    links: { label: string; href: string }[];
-  }[];
-}
+import type { MegaMenuItem } from '@/app/api/bff/menu/route';
 
 interface MegaMenuProps {
-  items: MenuItem[];
+  /** Labels are shown as given (category names or already translated) */
+  items: MegaMenuItem[];
   activePath?: string;
 }
 
@@ -30,14 +25,14 @@ export function MegaMenu({ items, activePath }: MegaMenuProps) {
       <ul className="flex items-center gap-1 md:gap-4 lg:gap-8 m-0 p-0 list-none">
         {items.map((item) => {
           const isActive = activePath === item.href;
-          const isHovered = hoveredItem === item.label;
-          const hasChildren = item.children && item.children.length > 0;
+          const isHovered = hoveredItem === item.href;
+          const hasChildren = item.columns.length > 0;
 
           return (
             <li
-              key={item.label}
+              key={item.href}
               className="relative py-2"
-              onMouseEnter={() => setHoveredItem(item.label)}
+              onMouseEnter={() => setHoveredItem(item.href)}
               onMouseLeave={() => setHoveredItem(null)}
             >
               <Link
@@ -51,7 +46,7 @@ export function MegaMenu({ items, activePath }: MegaMenuProps) {
                       : 'text-[#1A1A1A] dark:text-[#F5F5F3] hover:text-[#D4AF37]'
                 )}
               >
-                {t(item.label)}
+                {item.label}
                 {hasChildren && (
                   <ChevronDown
                     className={cn(
@@ -81,36 +76,52 @@ export function MegaMenu({ items, activePath }: MegaMenuProps) {
                     }}
                     className="absolute top-full left-0 pt-4 z-[100]"
                   >
-                    <div className="w-[640px] bg-white/98 dark:bg-[#161616]/98 backdrop-blur-3xl border border-[#D4AF37]/20 dark:border-white/5 rounded-2xl shadow-[0_30px_60px_-15px_rgba(0,0,0,0.15)] p-10 flex overflow-hidden">
-                      {/* Side Decoration/Highlight Section */}
-                      <div className="hidden sm:block w-1/3 pr-10 border-r border-[#D4AF37]/10">
-                        <p className="text-[10px] text-[#B8A072] font-semibold tracking-widest uppercase mb-4">{t('megaMenu.featured.badge')}</p>
-                        <h4 className="text-xl font-light text-[#1A1A1A] dark:text-[#F5F5F3] leading-tight mb-4">{t('megaMenu.featured.title')}</h4>
-                        <p className="text-xs text-zinc-400 font-light leading-relaxed mb-6">{t('megaMenu.featured.description')}</p>
+                    <div className="w-max max-w-[calc(100vw-6rem)] bg-white/98 dark:bg-[#161616]/98 backdrop-blur-3xl border border-[#D4AF37]/20 dark:border-white/5 rounded-2xl shadow-[0_30px_60px_-15px_rgba(0,0,0,0.15)] p-10 overflow-hidden">
+                      <div className="flex items-baseline justify-between gap-10 mb-8 pb-4 border-b border-[#D4AF37]/10">
+                        <h4 className="text-xl font-light text-[#1A1A1A] dark:text-[#F5F5F3] leading-tight">{item.label}</h4>
                         <Link href={item.href} className="text-[10px] text-[#D4AF37] font-bold tracking-[0.2em] uppercase hover:underline">
-                          {t('megaMenu.featured.cta')}
+                          {t('megaMenu.viewAll')}
                         </Link>
                       </div>
 
-                      {/* Links Grid */}
-                      <div className="flex-1 pl-10 grid grid-cols-2 gap-x-12 gap-y-10">
-                        {item.children?.map((column, colIndex) => (
-                          <div key={colIndex} className="space-y-6">
-                            <h3 className="text-xs font-bold tracking-[0.2em] uppercase text-[#D4AF37]">
-                              {t(column.title)}
-                            </h3>
-                            <ul className="space-y-4 m-0 p-0 list-none">
-                              {column.links.map((link) => (
-                                <li key={link.href}>
-                                  <Link
-                                    href={link.href}
-                                    className="text-sm font-light text-zinc-500 hover:text-[#D4AF37] dark:text-zinc-400 dark:hover:text-[#F5F5F3] transition-all duration-300 no-underline block hover:translate-x-1"
-                                  >
-                                    {t(link.label)}
-                                  </Link>
-                                </li>
-                              ))}
-                            </ul>
+                      {/* One column per child category */}
+                      <div className="flex gap-12">
+                        {item.columns.map((column) => (
+                          <div key={column.href} className="w-40 space-y-5">
+                            {column.featured && (
+                              <Link href={column.featured.href} className="block group/featured" title={column.featured.name}>
+                                <div className="relative aspect-[3/4] overflow-hidden rounded-lg bg-[#F3EFE8] dark:bg-[#1A1A1A]">
+                                  <Image
+                                    src={column.featured.image}
+                                    alt={column.featured.name}
+                                    fill
+                                    sizes="160px"
+                                    className="object-cover transition-transform duration-700 group-hover/featured:scale-105"
+                                    unoptimized
+                                  />
+                                </div>
+                              </Link>
+                            )}
+                            <Link
+                              href={column.href}
+                              className="block text-xs font-bold tracking-[0.2em] uppercase text-[#D4AF37] no-underline hover:underline"
+                            >
+                              {column.title}
+                            </Link>
+                            {column.links.length > 0 && (
+                              <ul className="space-y-3 m-0 p-0 list-none">
+                                {column.links.map((link) => (
+                                  <li key={link.href}>
+                                    <Link
+                                      href={link.href}
+                                      className="text-sm font-light text-zinc-500 hover:text-[#D4AF37] dark:text-zinc-400 dark:hover:text-[#F5F5F3] transition-all duration-300 no-underline block hover:translate-x-1"
+                                    >
+                                      {link.label}
+                                    </Link>
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
                           </div>
                         ))}
                       </div>
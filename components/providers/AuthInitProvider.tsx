@@ -1,13 +1,11 @@
 "use client";
 
-import { useEffect, useRef, useState } from "react";
+import { useEffect, useState } from "react";
 import { useAuthInit } from "@/hooks/useAuthInit";
-import { useCartStore } from "@/lib/store/cartStore";
 import { useTranslation } from "react-i18next";
 
 export function AuthInitProvider({ children }: { children: React.ReactNode }) {
-  const { isAuthenticated, isInitializing } = useAuthInit();
-  const hasMergedRef = useRef(false);
+  const { isInitializing } = useAuthInit();
   const { t } = useTranslation();
   const [mounted, setMounted] = useState(false);
 
@@ -15,35 +13,6 @@ export function AuthInitProvider({ children }: { children: React.ReactNode }) {
     setMounted(true);
   }, []);
 
-  // Sync cart state with auth state
-  useEffect(() => {
-    if (isInitializing) return;
-
-    const cartStore = useCartStore.getState();
-
-    if (isAuthenticated && !cartStore.isAuthenticated) {
-      if (!hasMergedRef.current) {
-        const guestItems = [...cartStore.items];
-        cartStore.setAuthenticated(true);
-
-        if (guestItems.length > 0) {
-          cartStore.mergeGuestCart(guestItems);
-          console.log("[Cart Sync] Merged guest cart on login:", guestItems);
-        }
-        hasMergedRef.current = true;
-      }
-    } else if (!isAuthenticated && cartStore.isAuthenticated) {
-      cartStore.setAuthenticated(false);
-      hasMergedRef.current = false;
-      console.log("[Cart Sync] User logged out - cart saved as guest cart");
-    } else if (isAuthenticated) {
-      cartStore.setAuthenticated(true);
-      hasMergedRef.current = true;
-    } else {
-      hasMergedRef.current = false;
-    }
-  }, [isAuthenticated, isInitializing]);
-
   if (mounted && isInitializing) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
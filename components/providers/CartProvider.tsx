@@ -12,8 +12,22 @@ import {
   CartItemResponse,
   PromotionSummary,
 } from "@/lib/api/cart";
+import { API_CLIENT_ERRORS, ApiResult } from "@/lib/api-client";
 import { useAppSelector } from "@/lib/store/hooks";
+import {
+  applyCartMutation,
+  CartItemPreview,
+  findCartItemByVariant,
+  isLocalCartItem,
+  PendingCartMutation,
+  queueCartMutation,
+  readCartMirror,
+  readPendingCartMutations,
+  writeCartMirror,
+  writePendingCartMutations,
+} from "@/lib/utils/offlineCart";
 import { useTranslation } from "react-i18next";
+import { toast } from "sonner";
 
 /**
  * Cart state interface
@@ -36,6 +50,9 @@ interface CartState {
   cartId: number | null;
   userId: string | null;
   sessionId: string | null;
+  /** Changes made offline that have not reached the server yet */
+  pendingChanges: number;
+  isOffline: boolean;
 }
 
 /**
@@ -48,6 +65,8 @@ interface CartContextType extends CartState {
     productId: number | string;
     productVariantId: number | string;
     quantity: number;
+    /** Shown for the item if it has to be added offline */
+    preview?: CartItemPreview;
   }) => Promise<CartResponse | null>;
   updateCartItem: (cartItemId: number, quantity: number) => Promise<void>;
   removeCartItem: (cartItemId: number) => Promise<void>;
@@ -75,31 +94,132 @@ function sortCartItems(items: CartItemResponse[]): CartItemResponse[] {
   });
 }
 
+const EMPTY_CART_STATE: CartState = {
+  items: [],
+  subTotal: 0,
+  shippingFee: 0,
+  discount: 0,
+  finalTotalPrice: 0,
+  promotion: undefined,
+  promotionNote: undefined,
+  promotionCode: undefined,
+  totalAmount: 0,
+  loading: false,
+  error: null,
+  cartId: null,
+  userId: null,
+  sessionId: null,
+  pendingChanges: 0,
+  isOffline: false,
+};
+
+/**
+ * Map a backend cart onto provider state (all calculations done by backend)
+ */
+function toCartState(
+  cart: CartResponse,
+  promotionCode: string | undefined,
+  pendingChanges: number,
+  isOffline: boolean
+): CartState {
+  return {
+    items: sortCartItems(cart.items || []),
+    subTotal: cart.subTotal ?? 0,
+    shippingFee: cart.shippingFee ?? 0,
+    discount: cart.discount ?? 0,
+    finalTotalPrice: cart.finalTotalPrice ?? cart.totalAmount ?? 0,
+    promotion: cart.promotion,
+    promotionNote: cart.promotion?.message?.trim() || undefined,
+    promotionCode,
+    totalAmount: cart.finalTotalPrice ?? cart.totalAmount ?? 0, // For backward compatibility
+    loading: false,
+    error: null,
+    cartId: cart.id,
+    userId: cart.userId || null,
+    sessionId: cart.sessionId || null,
+    pendingChanges,
+    isOffline,
+  };
+}
+
+const isNetworkError = (result: ApiResult<unknown>) =>
+  result.error?.code === API_CLIENT_ERRORS.NETWORK_ERROR;
+
+/** Quick stepper clicks on one item within this window become one request */
+const QUANTITY_DEBOUNCE_MS = 400;
+
+/**
+ * Quantity changes for one cart item waiting to be sent
+ */
+interface QuantityBatch {
+  productVariantId: string;
+  quantity: number;
+  timer?: ReturnType<typeof setTimeout>;
+  waiters: { resolve: () => void; reject: (error: Error) => void }[];
+}
+
+const toCartError = (error: { message?: string; code?: string }, fallback: string) => {
+  const cartError = new Error(error.message || fallback) as Error & { code?: string };
+  if (error.code) cartError.code = error.code;
+  return cartError;
+};
+
+const isBrowserOffline = () =>
+  typeof navigator !== "undefined" && navigator.onLine === false;
+
+/**
+ * Send one queued change, resolving its target item by variant in the latest
+ * server cart (item IDs may have changed, e.g. after a guest cart merge)
+ * @returns The API result, or null when there was nothing to send
+ */
+async function sendPendingMutation(
+  cart: CartResponse,
+  mutation: PendingCartMutation
+): Promise<ApiResult<CartResponse> | null> {
+  const target = findCartItemByVariant(cart, mutation.productVariantId);
+
+  switch (mutation.type) {
+    case "add":
+      return addToCart({
+        productId: mutation.productId,
+        productVariantId: mutation.productVariantId,
+        quantity: mutation.quantity,
+      });
+    case "update":
+      if (!target) {
+        return { error: { code: "CART_ITEM_NOT_FOUND", message: "Cart item no longer exists" } };
+      }
+      return target.quantity === mutation.quantity ? null : updateItem(target.id, mutation.quantity);
+    case "remove":
+      return target ? removeItem(target.id) : null;
+  }
+}
+
 /**
  * Cart Provider Component
  * Provides shared cart state to all child components
  */
 export function CartProvider({ children }: { children: React.ReactNode }) {
   const isAuthenticated = useAppSelector((state) => state.auth.isAuthenticated);
-  const { i18n } = useTranslation();
+  const { t, i18n } = useTranslation();
   const [mounted, setMounted] = useState(false);
   const prevAuthenticatedRef = React.useRef<boolean | null>(null);
-  const [state, setState] = useState<CartState>({
-    items: [],
-    subTotal: 0,
-    shippingFee: 0,
-    discount: 0,
-    finalTotalPrice: 0,
-    promotion: undefined,
-    promotionNote: undefined,
-    promotionCode: undefined,
-    totalAmount: 0,
-    loading: false,
-    error: null,
-    cartId: null,
-    userId: null,
-    sessionId: null,
-  });
+  // Last cart shown to the user: the server cart plus any pending offline changes
+  const localCartRef = React.useRef<CartResponse | null>(null);
+  // Last cart confirmed by the server, restored when an optimistic change fails
+  const serverCartRef = React.useRef<CartResponse | null>(null);
+  const promotionCodeRef = React.useRef<string | undefined>(undefined);
+  // Variants with unconfirmed optimistic changes -> number of outstanding requests
+  const optimisticVariantsRef = React.useRef(new Map<string, number>());
+  const quantityBatchesRef = React.useRef(new Map<number, QuantityBatch>());
+  // Requests per cart item are sent one after another
+  const itemRequestsRef = React.useRef(new Map<number, Promise<void>>());
+  const syncingRef = React.useRef(false);
+  // Leading entries of the stored queue that the running replay is sending
+  const replayingCountRef = React.useRef(0);
+  // Bumped by clearCart; responses to requests from an older cart are ignored
+  const generationRef = React.useRef(0);
+  const [state, setState] = useState<CartState>(EMPTY_CART_STATE);
 
   // Set mounted flag after component mounts (client-side only)
   useEffect(() => {
@@ -108,14 +228,176 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
     prevAuthenticatedRef.current = isAuthenticated;
   }, []);
 
+  /**
+   * Show a server cart and remember it as the local mirror
+   * Items with unconfirmed optimistic changes keep their local version, and
+   * pending offline changes are re-applied on top
+   */
+  const commitCart = useCallback(
+    (cart: CartResponse, promotionCode: string | undefined, isOffline = false) => {
+      serverCartRef.current = cart;
+      promotionCodeRef.current = promotionCode;
+
+      const optimistic = optimisticVariantsRef.current;
+      const isOptimistic = (item: CartItemResponse) => optimistic.has(String(item.productVariantId));
+      const withOptimistic: CartResponse =
+        optimistic.size > 0 && localCartRef.current
+          ? {
+              ...cart,
+              items: [
+                ...cart.items.filter((item) => !isOptimistic(item)),
+                ...localCartRef.current.items.filter(isOptimistic),
+              ],
+            }
+          : cart;
+
+      const pending = readPendingCartMutations();
+      const shown = pending.reduce((local, mutation) => applyCartMutation(local, mutation), withOptimistic);
+      localCartRef.current = shown;
+      writeCartMirror(shown);
+      setState(toCartState(shown, promotionCode, pending.length, isOffline));
+    },
+    []
+  );
+
+  /**
+   * Apply a change to the shown items before the server confirms it
+   * Pricing fields stay as they are until the backend response refreshes them
+   */
+  const applyOptimistic = useCallback((mutation: PendingCartMutation, preview?: CartItemPreview) => {
+    const variantId = mutation.productVariantId;
+    const optimistic = optimisticVariantsRef.current;
+    optimistic.set(variantId, (optimistic.get(variantId) ?? 0) + 1);
+
+    const cart = applyCartMutation(localCartRef.current ?? { id: 0, items: [] }, mutation, preview);
+    localCartRef.current = cart;
+    setState((prev) => ({ ...prev, items: sortCartItems(cart.items), error: null }));
+  }, []);
+
+  /**
+   * Mark one optimistic change as answered by the server
+   */
+  const settleOptimistic = useCallback((productVariantId: string) => {
+    const optimistic = optimisticVariantsRef.current;
+    const remaining = (optimistic.get(productVariantId) ?? 1) - 1;
+    if (remaining > 0) optimistic.set(productVariantId, remaining);
+    else optimistic.delete(productVariantId);
+  }, []);
+
+  /**
+   * Show the last server version of every item without outstanding changes
+   */
+  const rollbackOptimistic = useCallback(() => {
+    commitCart(serverCartRef.current ?? { id: 0, items: [] }, promotionCodeRef.current);
+  }, [commitCart]);
+
+  /**
+   * Queue a change made while the backend is unreachable and apply it locally
+   */
+  const queueOfflineChange = useCallback(
+    (mutation: PendingCartMutation, preview?: CartItemPreview): CartResponse => {
+      const base: CartResponse = localCartRef.current ?? { id: 0, items: [] };
+      const target = findCartItemByVariant(base, mutation.productVariantId);
+
+      // Entries being replayed are already on their way: queue behind them
+      const stored = readPendingCartMutations();
+      const replaying = stored.slice(0, replayingCountRef.current);
+      const waiting = stored.slice(replaying.length);
+      const addedOffline =
+        !!target &&
+        isLocalCartItem(target) &&
+        !replaying.some((queued) => queued.productVariantId === mutation.productVariantId);
+      const queue = [...replaying, ...queueCartMutation(waiting, mutation, addedOffline)];
+      writePendingCartMutations(queue);
+
+      const cart = applyCartMutation(base, mutation, preview);
+      localCartRef.current = cart;
+      writeCartMirror(cart);
+      setState((prev) => toCartState(cart, prev.promotionCode, queue.length, true));
+      return cart;
+    },
+    []
+  );
+
+  /**
+   * Replay queued offline changes, then reconcile with the server cart
+   * Changes the server rejects (e.g. stock limits) are dropped; a network
+   * failure stops the replay and keeps the rest queued. Each change stays in
+   * storage until the server has answered it, so closing the tab mid-replay
+   * loses nothing.
+   */
+  const syncPendingChanges = useCallback(async () => {
+    if (syncingRef.current) return;
+    const queue = readPendingCartMutations();
+    if (queue.length === 0) return;
+
+    syncingRef.current = true;
+    const generation = generationRef.current;
+    try {
+      const current = await getMyCart();
+      if (generation !== generationRef.current) return;
+      if (current.error || !current.data) {
+        setState((prev) => ({ ...prev, loading: false, isOffline: isNetworkError(current) }));
+        return;
+      }
+
+      // Changes made while replaying queue up behind the ones being sent
+      replayingCountRef.current = queue.length;
+      let cart = current.data;
+      let rejected = 0;
+
+      while (replayingCountRef.current > 0) {
+        const [mutation] = readPendingCartMutations();
+        if (!mutation) break;
+
+        const response = await sendPendingMutation(cart, mutation);
+        if (generation !== generationRef.current) return;
+        if (response && isNetworkError(response)) break;
+        if (response?.error) rejected += 1;
+        else if (response?.data) cart = response.data;
+
+        writePendingCartMutations(readPendingCartMutations().slice(1));
+        replayingCountRef.current -= 1;
+      }
+
+      commitCart(cart, cart.promotion?.promoCode || undefined, replayingCountRef.current > 0);
+
+      if (rejected > 0) {
+        toast.warning(t("cart.offline.rejected", { count: rejected }));
+      }
+    } finally {
+      syncingRef.current = false;
+      replayingCountRef.current = 0;
+    }
+  }, [commitCart, t]);
+
   /**
    * Fetch cart from backend
    */
   const fetchCart = useCallback(async () => {
+    if (readPendingCartMutations().length > 0 && !isBrowserOffline()) {
+      await syncPendingChanges();
+      return;
+    }
+
     setState((prev) => ({ ...prev, loading: true, error: null }));
+    const generation = generationRef.current;
 
     try {
       const response = await getMyCart();
+      if (generation !== generationRef.current) return;
+
+      if (isNetworkError(response)) {
+        // Keep showing the last known cart until the connection is back
+        const mirror = localCartRef.current ?? readCartMirror();
+        if (mirror) {
+          localCartRef.current = mirror;
+          setState((prev) =>
+            toCartState(mirror, prev.promotionCode, readPendingCartMutations().length, true)
+          );
+          return;
+        }
+      }
 
       if (response.error) {
         setState((prev) => ({
@@ -127,7 +409,7 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
       }
 
       if (response.data) {
-        // fetch-client already unwraps ApiResult<T>.data
+        // apiClient already unwraps ApiResult<T>.data
         const cart = response.data as CartResponse;
 
         if (!cart) {
@@ -139,28 +421,10 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
           return;
         }
 
-          // Use backend-provided values (all calculations done by backend)
-          const promotion = cart.promotion;
-          const normalizedPromotionNote = promotion?.message?.trim() || undefined;
-          // Preserve promotionCode if applied or if metadata exists (e.g. for expired codes)
-          const appliedCode = promotion?.applied ? promotion.promoCode : (promotion?.promoCode || undefined);
-        
-          setState((prev) => ({
-          items: sortCartItems(cart.items || []),
-          subTotal: cart.subTotal ?? 0,
-          shippingFee: cart.shippingFee ?? 0,
-          discount: cart.discount ?? 0,
-          finalTotalPrice: cart.finalTotalPrice ?? cart.totalAmount ?? 0,
-          promotion: promotion,
-          promotionNote: normalizedPromotionNote,
-          promotionCode: appliedCode,
-          totalAmount: cart.finalTotalPrice ?? cart.totalAmount ?? 0, // For backward compatibility
-          loading: false,
-          error: null,
-          cartId: cart.id,
-          userId: cart.userId || null,
-          sessionId: cart.sessionId || null,
-        }));
+        const promotion = cart.promotion;
+        // Preserve promotionCode if applied or if metadata exists (e.g. for expired codes)
+        const appliedCode = promotion?.applied ? promotion.promoCode : (promotion?.promoCode || undefined);
+        commitCart(cart, appliedCode);
       }
     } catch (error: any) {
       setState((prev) => ({
@@ -169,7 +433,7 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
         error: error.message || "Failed to fetch cart",
       }));
     }
-  }, []);
+  }, [commitCart, syncPendingChanges]);
 
   /**
    * Sync cart after login
@@ -186,223 +450,231 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
       productId: number | string;
       productVariantId: number | string;
       quantity: number;
+      preview?: CartItemPreview;
     }) => {
-      setState((prev) => ({ ...prev, loading: true, error: null }));
-
-      try {
-        const response = await addToCart({
-          productId: String(data.productId),
-          productVariantId: String(data.productVariantId),
-          quantity: data.quantity,
-        });
-
-        if (response.error) {
-          const errorMessage = response.error?.message || "Failed to add item to cart";
-          // Keep the state error simple for now, or use the full message
-          setState((prev) => ({
-            ...prev,
-            loading: false,
-            error: errorMessage,
-          }));
-          
-          // Throw error with code so UI can handle i18n
-          const error = new Error(errorMessage) as Error & { code?: string };
-          if (response.error.code) {
-             error.code = response.error.code;
-          }
-          throw error;
-        }
-
-        if (response.data) {
-          const cart = response.data as CartResponse;
-          if (!cart) {
-            const errorMessage = "Invalid cart response format";
-            setState((prev) => ({
-              ...prev,
-              loading: false,
-              error: errorMessage,
-            }));
-            throw new Error(errorMessage);
-          }
+      const mutation: PendingCartMutation = {
+        type: "add",
+        productId: String(data.productId),
+        productVariantId: String(data.productVariantId),
+        quantity: data.quantity,
+      };
+      // Keep queued changes in order: while any are pending, new ones queue too
+      if (isBrowserOffline() || readPendingCartMutations().length > 0) {
+        return queueOfflineChange(mutation, data.preview);
+      }
 
-          // Use backend-provided values (all calculations done by backend)
-          const promotion = cart.promotion;
-          const normalizedPromotionNote = promotion?.message?.trim() || undefined;
-          const appliedCode = promotion?.applied ? promotion.promoCode : undefined;
-          
-          setState((prev) => ({
-            items: sortCartItems(cart.items || []),
-            subTotal: cart.subTotal ?? 0,
-            shippingFee: cart.shippingFee ?? 0,
-            discount: cart.discount ?? 0,
-            finalTotalPrice: cart.finalTotalPrice ?? cart.totalAmount ?? 0,
-            promotion: promotion,
-            promotionNote: normalizedPromotionNote,
-            // Preserve promotionCode if applied or if metadata exists
-            promotionCode: appliedCode,
-            totalAmount: cart.finalTotalPrice ?? cart.totalAmount ?? 0, // For backward compatibility
-            loading: false,
-            error: null,
-            cartId: cart.id,
-            userId: cart.userId || null,
-            sessionId: cart.sessionId || null,
-          }));
+      applyOptimistic(mutation, data.preview);
+      const generation = generationRef.current;
+      const response = await addToCart({
+        productId: mutation.productId,
+        productVariantId: mutation.productVariantId,
+        quantity: mutation.quantity,
+      });
+      if (generation !== generationRef.current) {
+        return localCartRef.current ?? { id: 0, items: [] };
+      }
+      settleOptimistic(mutation.productVariantId);
 
-          return cart;
-        }
+      if (isNetworkError(response)) {
+        rollbackOptimistic();
+        return queueOfflineChange(mutation, data.preview);
+      }
 
-        throw new Error("No data received from server");
-      } catch (error: any) {
-        setState((prev) => ({
-          ...prev,
-          loading: false,
-          error: error.message || "Failed to add item to cart",
-        }));
+      if (response.error || !response.data) {
+        rollbackOptimistic();
+        // Throw error with code so UI can handle i18n
+        const error = toCartError(response.error ?? {}, "Failed to add item to cart");
+        setState((prev) => ({ ...prev, error: error.message }));
         throw error;
       }
+
+      const cart = response.data;
+      const appliedCode = cart.promotion?.applied ? cart.promotion.promoCode : undefined;
+      commitCart(cart, appliedCode);
+
+      return cart;
     },
-    []
+    [applyOptimistic, commitCart, queueOfflineChange, rollbackOptimistic, settleOptimistic]
   );
 
   /**
-   * Update cart item quantity
+   * Send the latest quantity of a batch once the previous request for the
+   * item has finished; a failure rolls the item back to its server quantity
    */
-  const updateCartItem = useCallback(
-    async (cartItemId: number, quantity: number) => {
-      setState((prev) => ({ ...prev, loading: true, error: null }));
+  const sendQuantityBatch = useCallback(
+    (cartItemId: number, batch: QuantityBatch) => {
+      const previous = itemRequestsRef.current.get(cartItemId) ?? Promise.resolve();
+      const generation = generationRef.current;
+      const request = previous.then(async () => {
+        if (generation !== generationRef.current) return;
+        const response = await updateItem(cartItemId, batch.quantity);
+        if (generation !== generationRef.current) {
+          batch.waiters.forEach((waiter) => waiter.resolve());
+          return;
+        }
+        settleOptimistic(batch.productVariantId);
 
-      try {
-        const response = await updateItem(cartItemId, quantity);
+        if (isNetworkError(response)) {
+          queueOfflineChange({
+            type: "update",
+            productVariantId: batch.productVariantId,
+            quantity: batch.quantity,
+          });
+          batch.waiters.forEach((waiter) => waiter.resolve());
+          return;
+        }
 
-        if (response.error) {
-          const errorMessage = response.error?.message || "Failed to update cart item";
-          setState((prev) => ({
-            ...prev,
-            loading: false,
-            error: errorMessage,
-          }));
-          const error = new Error(errorMessage) as Error & { code?: string };
-          if (response.error.code) error.code = response.error.code;
-          throw error;
+        if (response.error || !response.data) {
+          rollbackOptimistic();
+          const error = toCartError(response.error ?? {}, "Failed to update cart item");
+          setState((prev) => ({ ...prev, error: error.message }));
+          batch.waiters.forEach((waiter) => waiter.reject(error));
+          return;
         }
 
-        if (response.data) {
-          const cart = response.data as CartResponse;
-          if (!cart) {
-            setState((prev) => ({
-              ...prev,
-              loading: false,
-              error: "Invalid cart response format",
-            }));
-            return;
-          }
+        const cart = response.data;
+        commitCart(cart, cart.promotion?.applied ? cart.promotion.promoCode : undefined);
+        batch.waiters.forEach((waiter) => waiter.resolve());
+      });
 
-          // Use backend-provided values (all calculations done by backend)
-          const promotion = cart.promotion;
-          const normalizedPromotionNote = promotion?.message?.trim() || undefined;
-          const appliedCode = promotion?.applied ? promotion.promoCode : undefined;
-          
-          setState((prev) => ({
-            items: sortCartItems(cart.items || []),
-            subTotal: cart.subTotal ?? 0,
-            shippingFee: cart.shippingFee ?? 0,
-            discount: cart.discount ?? 0,
-            finalTotalPrice: cart.finalTotalPrice ?? cart.totalAmount ?? 0,
-            promotion: promotion,
-            promotionNote: normalizedPromotionNote,
-            // Preserve promotionCode if applied or if metadata exists
-            promotionCode: appliedCode,
-            totalAmount: cart.finalTotalPrice ?? cart.totalAmount ?? 0, // For backward compatibility
-            loading: false,
-            error: null,
-            cartId: cart.id,
-            userId: cart.userId || null,
-            sessionId: cart.sessionId || null,
-          }));
+      itemRequestsRef.current.set(cartItemId, request);
+      request.finally(() => {
+        if (itemRequestsRef.current.get(cartItemId) === request) {
+          itemRequestsRef.current.delete(cartItemId);
         }
-      } catch (error: any) {
-        setState((prev) => ({
-          ...prev,
-          loading: false,
-          error: error.message || "Failed to update cart item",
-        }));
+      });
+    },
+    [commitCart, queueOfflineChange, rollbackOptimistic, settleOptimistic]
+  );
+
+  /**
+   * Update cart item quantity
+   * Applied right away; quick successive calls for an item are coalesced into
+   * one request, and every caller's promise settles with that request
+   */
+  const updateCartItem = useCallback(
+    async (cartItemId: number, quantity: number) => {
+      const item = localCartRef.current?.items.find((entry) => entry.id === cartItemId);
+      if (!item) return;
+
+      const mutation: PendingCartMutation = {
+        type: "update",
+        productVariantId: String(item.productVariantId),
+        quantity,
+      };
+      if (isBrowserOffline() || readPendingCartMutations().length > 0 || isLocalCartItem(item)) {
+        queueOfflineChange(mutation);
+        return;
       }
+
+      const batches = quantityBatchesRef.current;
+      let batch = batches.get(cartItemId);
+      if (batch) {
+        clearTimeout(batch.timer);
+        // The batch already counts as one outstanding change for the variant
+        const cart = applyCartMutation(localCartRef.current!, mutation);
+        localCartRef.current = cart;
+        setState((prev) => ({ ...prev, items: sortCartItems(cart.items), error: null }));
+      } else {
+        applyOptimistic(mutation);
+        batch = { productVariantId: mutation.productVariantId, quantity, waiters: [] };
+        batches.set(cartItemId, batch);
+      }
+
+      const current = batch;
+      current.quantity = quantity;
+      return new Promise<void>((resolve, reject) => {
+        current.waiters.push({ resolve, reject });
+        current.timer = setTimeout(() => {
+          batches.delete(cartItemId);
+          sendQuantityBatch(cartItemId, current);
+        }, QUANTITY_DEBOUNCE_MS);
+      });
     },
-    []
+    [applyOptimistic, queueOfflineChange, sendQuantityBatch]
   );
 
   /**
    * Remove item from cart
+   * The item disappears right away and comes back if the request fails
    */
-  const removeCartItem = useCallback(async (cartItemId: number) => {
-    setState((prev) => ({ ...prev, loading: true, error: null }));
+  const removeCartItem = useCallback(
+    async (cartItemId: number) => {
+      const item = localCartRef.current?.items.find((entry) => entry.id === cartItemId);
+      if (!item) return;
+
+      const mutation: PendingCartMutation = {
+        type: "remove",
+        productVariantId: String(item.productVariantId),
+      };
+      if (isBrowserOffline() || readPendingCartMutations().length > 0 || isLocalCartItem(item)) {
+        queueOfflineChange(mutation);
+        return;
+      }
 
-    try {
+      // A quantity change still waiting to be sent is superseded by the removal
+      const batch = quantityBatchesRef.current.get(cartItemId);
+      if (batch) {
+        clearTimeout(batch.timer);
+        quantityBatchesRef.current.delete(cartItemId);
+        settleOptimistic(batch.productVariantId);
+        batch.waiters.forEach((waiter) => waiter.resolve());
+      }
+
+      applyOptimistic(mutation);
+      const generation = generationRef.current;
+      await itemRequestsRef.current.get(cartItemId);
+      if (generation !== generationRef.current) return;
       const response = await removeItem(cartItemId);
+      if (generation !== generationRef.current) return;
+      settleOptimistic(mutation.productVariantId);
 
-      if (response.error) {
-        const errorMessage = response.error?.message || "Failed to remove item from cart";
-        setState((prev) => ({
-          ...prev,
-          loading: false,
-          error: errorMessage,
-        }));
-        const error = new Error(errorMessage) as Error & { code?: string };
-        if (response.error.code) error.code = response.error.code;
-        throw error;
+      if (isNetworkError(response)) {
+        queueOfflineChange(mutation);
+        return;
       }
 
-      if (response.data) {
-        const cart = response.data as CartResponse;
-        if (!cart) {
-          setState((prev) => ({
-            ...prev,
-            loading: false,
-            error: "Invalid cart response format",
-          }));
-          return;
-        }
-
-        // Use backend-provided values (all calculations done by backend)
-        const promotion = cart.promotion;
-        const normalizedPromotionNote = promotion?.message?.trim() || undefined;
-        // Preserve promotionCode if applied or if metadata exists
-        const appliedCode = promotion?.applied ? promotion.promoCode : (promotion?.promoCode || undefined);
-        
-        setState((prev) => ({
-          items: sortCartItems(cart.items || []),
-          subTotal: cart.subTotal ?? 0,
-          shippingFee: cart.shippingFee ?? 0,
-          discount: cart.discount ?? 0,
-          finalTotalPrice: cart.finalTotalPrice ?? cart.totalAmount ?? 0,
-          promotion: promotion,
-          promotionNote: normalizedPromotionNote,
-          promotionCode: appliedCode,
-          totalAmount: cart.finalTotalPrice ?? cart.totalAmount ?? 0, // For backward compatibility
-          loading: false,
-          error: null,  
-          cartId: cart.id,
-          userId: cart.userId || null,
-          sessionId: cart.sessionId || null,
-        }));
+      if (response.error || !response.data) {
+        rollbackOptimistic();
+        const error = toCartError(response.error ?? {}, "Failed to remove item from cart");
+        setState((prev) => ({ ...prev, error: error.message }));
+        throw error;
       }
-    } catch (error: any) {
-      setState((prev) => ({
-        ...prev,
-        loading: false,
-        error: error.message || "Failed to remove item from cart",
-      }));
-    }
-  }, []);
+
+      const cart = response.data;
+      const promotion = cart.promotion;
+      // Preserve promotionCode if applied or if metadata exists
+      const appliedCode = promotion?.applied ? promotion.promoCode : (promotion?.promoCode || undefined);
+      commitCart(cart, appliedCode);
+    },
+    [applyOptimistic, commitCart, queueOfflineChange, rollbackOptimistic, settleOptimistic]
+  );
 
   /**
    * Remove all items from cart
    */
   const removeAllCartItems = useCallback(async () => {
+    const removeEachOffline = () => {
+      for (const item of localCartRef.current?.items ?? []) {
+        queueOfflineChange({ type: "remove", productVariantId: String(item.productVariantId) });
+      }
+    };
+    if (isBrowserOffline() || readPendingCartMutations().length > 0) {
+      removeEachOffline();
+      return;
+    }
+
     setState((prev) => ({ ...prev, loading: true, error: null }));
+    const generation = generationRef.current;
 
     try {
       const response = await removeAllItems();
+      if (generation !== generationRef.current) return;
+
+      if (isNetworkError(response)) {
+        removeEachOffline();
+        return;
+      }
 
       if (response.error) {
         const errorMessage = response.error?.message || "Failed to remove all items from cart";
@@ -427,28 +699,10 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
           return;
         }
 
-        // Use backend-provided values (all calculations done by backend)
         const promotion = cart.promotion;
-        const normalizedPromotionNote = promotion?.message?.trim() || undefined;
         // Preserve promotionCode if applied or if metadata exists
         const appliedCode = promotion?.applied ? promotion.promoCode : (promotion?.promoCode || undefined);
-        
-        setState((prev) => ({
-          items: sortCartItems(cart.items || []),
-          subTotal: cart.subTotal ?? 0,
-          shippingFee: cart.shippingFee ?? 0,
-          discount: cart.discount ?? 0,
-          finalTotalPrice: cart.finalTotalPrice ?? cart.totalAmount ?? 0,
-          promotion: promotion,
-          promotionNote: normalizedPromotionNote,
-          promotionCode: appliedCode,
-          totalAmount: cart.finalTotalPrice ?? cart.totalAmount ?? 0, // For backward compatibility
-          loading: false,
-          error: null,
-          cartId: cart.id,
-          userId: cart.userId || null,
-          sessionId: cart.sessionId || null,
-        }));
+        commitCart(cart, appliedCode);
       }
     } catch (error: any) {
       setState((prev) => ({
@@ -457,7 +711,7 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
         error: error.message || "Failed to remove all items from cart",
       }));
     }
-  }, []);
+  }, [commitCart, queueOfflineChange]);
 
   /**
    * Apply promotion code to cart
@@ -465,9 +719,11 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
   const applyPromotionCodeToCart = useCallback(
     async (code: string): Promise<CartResponse | null> => {
       setState((prev) => ({ ...prev, loading: true, error: null }));
+      const generation = generationRef.current;
 
       try {
         const response = await applyPromotionCode(code);
+        if (generation !== generationRef.current) return null;
 
         if (response.error) {
           const errorMessage = response.error?.message || "Failed to apply promotion code";
@@ -495,27 +751,8 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
             return null;
           }
 
-          // Use backend-provided values (all calculations done by backend)
-          const promotion = cart.promotion;
-          const normalizedPromotionNote = promotion?.message?.trim() || undefined;
-          const appliedCode = promotion?.promoCode || undefined;
-
-          setState({
-            items: sortCartItems(cart.items || []),
-            subTotal: cart.subTotal ?? 0,
-            shippingFee: cart.shippingFee ?? 0,
-            discount: cart.discount ?? 0,
-            finalTotalPrice: cart.finalTotalPrice ?? cart.totalAmount ?? 0,
-            promotion: promotion,
-            promotionNote: normalizedPromotionNote,
-            promotionCode: appliedCode, // Only set if applied successfully
-            totalAmount: cart.finalTotalPrice ?? cart.totalAmount ?? 0, // For backward compatibility
-            loading: false,
-            error: null,
-            cartId: cart.id,
-            userId: cart.userId || null,
-            sessionId: cart.sessionId || null,
-          });
+          // Only set if applied successfully
+          commitCart(cart, cart.promotion?.promoCode || undefined);
 
           return cart;
         }
@@ -529,7 +766,7 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
         throw error;
       }
     },
-    []
+    [commitCart]
   );
 
   /**
@@ -544,22 +781,21 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
    * Used when user logs out to prevent cart data from persisting to next user
    */
   const clearCart = useCallback(() => {
-    setState({
-      items: [],
-      subTotal: 0,
-      shippingFee: 0,
-      discount: 0,
-      finalTotalPrice: 0,
-      promotion: undefined,
-      promotionNote: undefined,
-      promotionCode: undefined,
-      totalAmount: 0,
-      loading: false,
-      error: null,
-      cartId: null,
-      userId: null,
-      sessionId: null,
+    generationRef.current += 1;
+
+    // Quantity changes not yet sent belong to the previous cart
+    quantityBatchesRef.current.forEach((batch) => {
+      clearTimeout(batch.timer);
+      batch.waiters.forEach((waiter) => waiter.resolve());
     });
+    quantityBatchesRef.current.clear();
+    itemRequestsRef.current.clear();
+    optimisticVariantsRef.current.clear();
+
+    localCartRef.current = null;
+    serverCartRef.current = null;
+    promotionCodeRef.current = undefined;
+    setState(EMPTY_CART_STATE);
   }, []);
 
   // Clear cart when user logs out (transitioning from authenticated to unauthenticated)
@@ -577,6 +813,39 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
     prevAuthenticatedRef.current = isAuthenticated;
   }, [isAuthenticated, mounted, clearCart]);
 
+  // Show the mirrored cart right away; the fetch below replaces it
+  useEffect(() => {
+    if (!mounted) return;
+    const mirror = readCartMirror();
+    if (mirror && !localCartRef.current) {
+      localCartRef.current = mirror;
+      serverCartRef.current = mirror;
+      setState((prev) =>
+        toCartState(mirror, prev.promotionCode, readPendingCartMutations().length, isBrowserOffline())
+      );
+    }
+  }, [mounted]);
+
+  // Replay offline changes once the connection is back
+  useEffect(() => {
+    if (!mounted) return;
+
+    const handleOnline = () => {
+      setState((prev) => ({ ...prev, isOffline: false }));
+      syncPendingChanges();
+    };
+    const handleOffline = () => setState((prev) => ({ ...prev, isOffline: true }));
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    if (!isBrowserOffline()) syncPendingChanges();
+
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, [mounted, syncPendingChanges]);
+
   // Fetch cart on mount and when auth state changes (only after mounted to avoid hydration issues)
   useEffect(() => {
     if (mounted && isAuthenticated) {
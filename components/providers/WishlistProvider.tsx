@@ -0,0 +1,322 @@
+"use client";
+
+import React, { createContext, useContext, useState, useCallback, useEffect } from "react";
+import {
+  getMyWishlist,
+  addToWishlist,
+  removeFromWishlist,
+  mergeWishlist,
+  WishlistResponse,
+  WishlistItemResponse,
+} from "@/lib/api/wishlist";
+import {
+  readGuestWishlist,
+  writeGuestWishlist,
+  clearGuestWishlist,
+} from "@/lib/utils/guestWishlist";
+import { ProductListingDto, ProductResponse } from "@/lib/types/product";
+import { useAppSelector } from "@/lib/store/hooks";
+
+/**
+ * Wishlist state interface
+ * Authenticated users are backed by the API, guests by localStorage
+ */
+interface WishlistState {
+  items: WishlistItemResponse[];
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Wishlist context interface
+ */
+interface WishlistContextType extends WishlistState {
+  fetchWishlist: () => Promise<void>;
+  isWishlisted: (productId: string) => boolean;
+  addItemToWishlist: (item: WishlistItemResponse) => Promise<void>;
+  removeWishlistItem: (productId: string) => Promise<void>;
+  /** Adds or removes the product, resolving to whether it is now wishlisted */
+  toggleWishlist: (item: WishlistItemResponse) => Promise<boolean>;
+  clearWishlist: () => void;
+}
+
+const WishlistContext = createContext<WishlistContextType | undefined>(undefined);
+
+/**
+ * Build a wishlist snapshot from any product shape the storefront renders
+ * The snapshot lets guest wishlists render without another product lookup
+ */
+export function toWishlistItem(
+  product: ProductListingDto | ProductResponse,
+): WishlistItemResponse {
+  const thumbnail =
+    "assets" in product && product.assets?.length
+      ? product.assets.find((a) => a.isThumbnail)?.url || product.assets[0]?.url
+      : product.thumbnail;
+
+  return {
+    productId: String(product.id),
+    productName: product.name,
+    slug: product.slug,
+    thumbnail: thumbnail || product.thumbnail,
+    minPrice: product.minPrice ?? ("price" in product ? product.price : undefined),
+    maxPrice: product.maxPrice,
+    inStock: product.inStock,
+  };
+}
+
+/**
+ * Newest first, matching how the wishlist page lists saved products
+ */
+function sortWishlistItems(items: WishlistItemResponse[]): WishlistItemResponse[] {
+  return [...items].sort((a, b) => {
+    if (a.addedAt && b.addedAt) {
+      return new Date(b.addedAt).getTime() - new Date(a.addedAt).getTime();
+    }
+    return 0;
+  });
+}
+
+/**
+ * Wishlist Provider Component
+ * Provides shared wishlist state to all child components
+ */
+export function WishlistProvider({ children }: { children: React.ReactNode }) {
+  const isAuthenticated = useAppSelector((state) => state.auth.isAuthenticated);
+  const [mounted, setMounted] = useState(false);
+  const [state, setState] = useState<WishlistState>({
+    items: [],
+    loading: false,
+    error: null,
+  });
+
+  // Set mounted flag after component mounts (client-side only)
+  useEffect(() => {
+    setMounted(true);
+  }, []);
+
+  const applyWishlist = useCallback((wishlist: WishlistResponse) => {
+    setState({
+      items: sortWishlistItems(wishlist.items || []),
+      loading: false,
+      error: null,
+    });
+  }, []);
+
+  /**
+   * Fetch wishlist from backend (authenticated) or localStorage (guest)
+   */
+  const fetchWishlist = useCallback(async () => {
+    if (!isAuthenticated) {
+      setState({ items: sortWishlistItems(readGuestWishlist()), loading: false, error: null });
+      return;
+    }
+
+    setState((prev) => ({ ...prev, loading: true, error: null }));
+
+    try {
+      const response = await getMyWishlist();
+
+      if (response.error || !response.data) {
+        setState((prev) => ({
+          ...prev,
+          loading: false,
+          error: response.error?.message || "Failed to fetch wishlist",
+        }));
+        return;
+      }
+
+      applyWishlist(response.data);
+    } catch (error: unknown) {
+      setState((prev) => ({
+        ...prev,
+        loading: false,
+        error: (error instanceof Error && error.message) || "Failed to fetch wishlist",
+      }));
+    }
+  }, [isAuthenticated, applyWishlist]);
+
+  /**
+   * Merge the guest wishlist into the account after login
+   * Guest items are only cleared once the backend has accepted them
+   */
+  const syncWishlistAfterLogin = useCallback(async () => {
+    const guestItems = readGuestWishlist();
+    if (guestItems.length === 0) {
+      await fetchWishlist();
+      return;
+    }
+
+    setState((prev) => ({ ...prev, loading: true, error: null }));
+
+    try {
+      const response = await mergeWishlist(guestItems.map((item) => item.productId));
+
+      if (response.error || !response.data) {
+        await fetchWishlist();
+        return;
+      }
+
+      clearGuestWishlist();
+      applyWishlist(response.data);
+    } catch {
+      await fetchWishlist();
+    }
+  }, [fetchWishlist, applyWishlist]);
+
+  const isWishlisted = useCallback(
+    (productId: string) => state.items.some((item) => item.productId === String(productId)),
+    [state.items]
+  );
+
+  /**
+   * Add product to wishlist
+   * Updates optimistically and rolls back if the backend rejects the change
+   */
+  const addItemToWishlist = useCallback(
+    async (item: WishlistItemResponse) => {
+      const entry: WishlistItemResponse = { ...item, addedAt: new Date().toISOString() };
+
+      if (!isAuthenticated) {
+        const next = [entry, ...readGuestWishlist().filter((i) => i.productId !== item.productId)];
+        writeGuestWishlist(next);
+        setState((prev) => ({ ...prev, items: next, error: null }));
+        return;
+      }
+
+      setState((prev) => ({
+        ...prev,
+        items: [entry, ...prev.items.filter((i) => i.productId !== item.productId)],
+        error: null,
+      }));
+
+      try {
+        const response = await addToWishlist(item.productId);
+
+        if (response.error) {
+          const error = new Error(response.error.message || "Failed to add to wishlist") as Error & { code?: string };
+          if (response.error.code) error.code = response.error.code;
+          throw error;
+        }
+
+        if (response.data) applyWishlist(response.data);
+      } catch (error: unknown) {
+        setState((prev) => ({
+          ...prev,
+          items: prev.items.filter((i) => i.productId !== item.productId),
+          error: (error instanceof Error && error.message) || "Failed to add to wishlist",
+        }));
+        throw error;
+      }
+    },
+    [isAuthenticated, applyWishlist]
+  );
+
+  /**
+   * Remove product from wishlist
+   * Updates optimistically and restores the item if the backend rejects the change
+   */
+  const removeWishlistItem = useCallback(
+    async (productId: string) => {
+      const id = String(productId);
+
+      if (!isAuthenticated) {
+        const next = readGuestWishlist().filter((i) => i.productId !== id);
+        writeGuestWishlist(next);
+        setState((prev) => ({ ...prev, items: next, error: null }));
+        return;
+      }
+
+      const removed = state.items.find((i) => i.productId === id);
+      setState((prev) => ({
+        ...prev,
+        items: prev.items.filter((i) => i.productId !== id),
+        error: null,
+      }));
+
+      try {
+        const response = await removeFromWishlist(id);
+
+        if (response.error) {
+          const error = new Error(response.error.message || "Failed to remove from wishlist") as Error & { code?: string };
+          if (response.error.code) error.code = response.error.code;
+          throw error;
+        }
+
+        if (response.data) applyWishlist(response.data);
+      } catch (error: unknown) {
+        setState((prev) => ({
+          ...prev,
+          items: removed ? sortWishlistItems([...prev.items, removed]) : prev.items,
+          error: (error instanceof Error && error.message) || "Failed to remove from wishlist",
+        }));
+        throw error;
+      }
+    },
+    [isAuthenticated, state.items, applyWishlist]
+  );
+
+  const toggleWishlist = useCallback(
+    async (item: WishlistItemResponse) => {
+      if (isWishlisted(item.productId)) {
+        await removeWishlistItem(item.productId);
+        return false;
+      }
+      await addItemToWishlist(item);
+      return true;
+    },
+    [isWishlisted, addItemToWishlist, removeWishlistItem]
+  );
+
+  /**
+   * Clear wishlist state
+   * Used when user logs out so the next visitor starts from their own guest list
+   */
+  const clearWishlist = useCallback(() => {
+    setState({ items: [], loading: false, error: null });
+  }, []);
+
+  // Load the wishlist for the current identity; logging in merges the guest list first
+  useEffect(() => {
+    if (!mounted) return;
+
+    if (isAuthenticated) {
+      syncWishlistAfterLogin();
+    } else {
+      fetchWishlist();
+    }
+  }, [mounted, isAuthenticated, syncWishlistAfterLogin, fetchWishlist]);
+
+  const value: WishlistContextType = {
+    ...state,
+    fetchWishlist,
+    isWishlisted,
+    addItemToWishlist,
+    removeWishlistItem,
+    toggleWishlist,
+    clearWishlist,
+  };
+
+  return <WishlistContext.Provider value={value}>{children}</WishlistContext.Provider>;
+}
+
+/**
+ * useWishlist Hook
+ * Provides access to shared wishlist state and operations
+ */
+export function useWishlist() {
+  const context = useContext(WishlistContext);
+  if (context === undefined) {
+    throw new Error("useWishlist must be used within a WishlistProvider");
+  }
+  return context;
+}
+
+/**
+ * useWishlistOptional Hook
+ * Same as useWishlist but returns null when used outside WishlistProvider
+ * Useful for product cards that are also rendered outside the storefront
+ */
+export function useWishlistOptional() {
+  return useContext(WishlistContext) ?? null;
+}
@@ -8,7 +8,6 @@ import { cn } from "@/lib/utils";
 import { useAppDispatch } from "@/lib/store/hooks";
 import { clearAuth } from "@/lib/store/authSlice";
 import { logoutAction } from "@/app/actions/auth";
-import { useCartStore } from "@/lib/store/cartStore";
 import { clearCartData } from "@/lib/utils";
 
 export function AccountSidebar() {
@@ -31,7 +30,7 @@ export function AccountSidebar() {
       icon: ShoppingBag,
     },
     {
-      href: "/wishlist",
+      href: "/account/wishlist",
       label: "navbar.wishlist",
       defaultLabel: "Wishlist",
       icon: Heart,
@@ -39,9 +38,6 @@ export function AccountSidebar() {
   ];
 
   const handleLogout = async () => {
-    const cartStore = useCartStore.getState();
-    cartStore.clearCart();
-    cartStore.setAuthenticated(false);
     clearCartData();
     dispatch(clearAuth());
     await logoutAction();
@@ -0,0 +1,109 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import Link from "next/link";
+import { motion } from "framer-motion";
+import { useTranslation } from "react-i18next";
+import { Heart, ShoppingBag, X } from "lucide-react";
+import type { WishlistItemResponse } from "@/lib/api/wishlist";
+
+interface WishlistItemCardProps {
+  item: WishlistItemResponse;
+  index?: number;
+  onRemove: (productId: string) => void;
+}
+
+function formatVND(amount: number): string {
+  return (
+    new Intl.NumberFormat("vi-VN", {
+      style: "decimal",
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    })
+      .format(amount)
+      .replace(/,/g, ".") + "đ"
+  );
+}
+
+export function WishlistItemCard({
+  item,
+  index = 0,
+  onRemove,
+}: WishlistItemCardProps) {
+  const { t } = useTranslation();
+  const [imageError, setImageError] = useState(false);
+  const href = `/product/${item.slug}-i.${item.productId}`;
+  const hasRange =
+    typeof item.minPrice === "number" &&
+    typeof item.maxPrice === "number" &&
+    item.minPrice !== item.maxPrice;
+
+  return (
+    <motion.article
+      layout
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, scale: 0.96 }}
+      transition={{ duration: 0.5, delay: index * 0.05, ease: [0.22, 1, 0.36, 1] }}
+      className="group relative flex flex-col"
+    >
+      <div className="relative aspect-[3/4] overflow-hidden bg-muted/30">
+        <Link href={href} className="absolute inset-0" aria-label={item.productName}>
+          {item.thumbnail && !imageError ? (
+            <Image
+              src={item.thumbnail}
+              alt={item.productName}
+              fill
+              className="object-cover transition-transform duration-1000 group-hover:scale-105"
+              sizes="(max-width: 768px) 50vw, 25vw"
+              onError={() => setImageError(true)}
+              unoptimized
+            />
+          ) : (
+            <div className="absolute inset-0 flex items-center justify-center">
+              <ShoppingBag className="w-10 h-10 text-accent/30 stroke-[1.25]" />
+            </div>
+          )}
+        </Link>
+
+        {item.inStock === false && (
+          <span className="absolute bottom-3 left-3 px-3 py-1 text-[9px] tracking-[0.2em] uppercase bg-background/90 text-muted-foreground pointer-events-none">
+            {t("wishlist.soldOut")}
+          </span>
+        )}
+
+        <button
+          type="button"
+          onClick={() => onRemove(item.productId)}
+          className="absolute top-3 right-3 w-8 h-8 rounded-full flex items-center justify-center bg-background/80 backdrop-blur-sm text-muted-foreground hover:text-foreground transition-colors duration-300"
+          aria-label={t("wishlist.remove")}
+        >
+          <X className="w-4 h-4 stroke-[1.5]" />
+        </button>
+      </div>
+
+      <div className="pt-4 space-y-1.5">
+        <h3 className="text-sm font-light leading-snug text-foreground line-clamp-2">
+          <Link href={href} className="hover:text-accent transition-colors duration-300">
+            {item.productName}
+          </Link>
+        </h3>
+        {typeof item.minPrice === "number" && (
+          <p className="text-sm text-muted-foreground font-light">
+            {hasRange
+              ? `${formatVND(item.minPrice)} - ${formatVND(item.maxPrice as number)}`
+              : formatVND(item.minPrice)}
+          </p>
+        )}
+        <Link
+          href={href}
+          className="inline-flex items-center gap-2 pt-2 text-[10px] tracking-[0.2em] uppercase text-accent hover:opacity-80 transition-opacity"
+        >
+          <Heart className="w-3 h-3 fill-current" />
+          {t("wishlist.viewProduct")}
+        </Link>
+      </div>
+    </motion.article>
+  );
+}
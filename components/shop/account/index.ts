@@ -2,5 +2,6 @@
 export { ProfileInfoCard } from "./ProfileInfoCard";
 export { AddressCard } from "./AddressCard";
 export { AddressDialog } from "./AddressDialog";
+export { WishlistItemCard } from "./WishlistItemCard";
 
 export { AureaFeaturesCard } from "./AureaFeaturesCard";
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { CategoryResponse } from "@/lib/types/product";
 import {
   Accordion,
@@ -9,11 +9,11 @@ import {
   AccordionTrigger,
 } from "@/components/ui/accordion";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
 import { ProductFilters } from "@/hooks/shop/useProductStorefront";
-import { X, Check, Circle } from "lucide-react";
+import type { FacetValue, ShopFacets } from "@/lib/utils/shop-facets";
+import { PriceRangeFacet } from "./PriceRangeFacet";
+import { Check } from "lucide-react";
 import { useTranslation } from "react-i18next";
 import { cn } from "@/lib/utils";
 
@@ -26,20 +26,15 @@ interface FilterSidebarProps {
   onReset: () => void;
   categories?: CategoryResponse[];
   categoriesLoading?: boolean;
+  /** Facets of the current result set; sections without values are hidden */
+  facets: ShopFacets;
 }
 
-const LUXURY_COLORS = [
-  { name: "Gold", hex: "#D4AF37" },
-  { name: "Silver", hex: "#C0C0C0" },
-  { name: "Rose Gold", hex: "#B76E79" },
-  { name: "Midnight", hex: "#121212" },
-  { name: "Ivory", hex: "#FFFFF0" },
-  { name: "Emerald", hex: "#50C878" },
-  { name: "Ruby", hex: "#E0115F" },
-  { name: "Royal", hex: "#002366" },
-];
+type MultiSelectKey = "sizes" | "colors" | "brands";
 
-const LUXURY_SIZES = ["XS", "S", "M", "L", "XL", "XXL", "One Size"];
+const FacetCount = ({ count }: { count: number }) => (
+  <span className="text-[9px] text-zinc-400 tabular-nums">{count}</span>
+);
 
 function CategoryTreeItem({
   category,
@@ -138,7 +133,7 @@ function CategoryTreeItem({
   );
 }
 
-import { ChevronRight, ChevronDown } from "lucide-react";
+import { ChevronDown } from "lucide-react";
 
 export function FilterSidebar({
   filters,
@@ -146,29 +141,29 @@ export function FilterSidebar({
   onReset,
   categories = [],
   categoriesLoading = false,
+  facets,
 }: FilterSidebarProps) {
   const { t } = useTranslation();
-  const [minPrice, setMinPrice] = useState<string>(
-    filters.priceRange[0]?.toString() || "",
-  );
-  const [maxPrice, setMaxPrice] = useState<string>(
-    filters.priceRange[1]?.toString() || "",
-  );
   const [expandedCategories, setExpandedCategories] = useState<Set<string>>(
     new Set(),
   );
 
-  useEffect(() => {
-    setMinPrice(filters.priceRange[0]?.toString() || "");
-    setMaxPrice(filters.priceRange[1]?.toString() || "");
-  }, [filters.priceRange]);
+  const isSelected = (key: MultiSelectKey, value: string) =>
+    filters[key].includes(value);
 
-  const handlePriceChange = () => {
-    const min = minPrice ? Number(minPrice) : null;
-    const max = maxPrice ? Number(maxPrice) : null;
-    onFilterChange("priceRange", [min, max]);
+  const toggleValue = (key: MultiSelectKey, value: string) => {
+    onFilterChange(
+      key,
+      isSelected(key, value)
+        ? filters[key].filter((selected) => selected !== value)
+        : [...filters[key], value],
+    );
   };
 
+  // A value with no matches stays clickable only while selected (to untick it)
+  const isDisabled = (key: MultiSelectKey, facet: FacetValue) =>
+    facet.count === 0 && !isSelected(key, facet.value);
+
   const handleCategorySelect = (categorySlug: string) => {
     if (filters.categorySlug === categorySlug) {
       onFilterChange("categorySlug", null);
@@ -193,16 +188,19 @@ export function FilterSidebar({
     filters.categorySlug !== null ||
     filters.priceRange[0] !== null ||
     filters.priceRange[1] !== null ||
-    filters.size !== null ||
-    filters.color !== null ||
+    filters.sizes.length > 0 ||
+    filters.colors.length > 0 ||
+    filters.brands.length > 0 ||
     filters.inStock !== null;
 
+  const showInStock = facets.inStockCount > 0 || filters.inStock === true;
+
   return (
     <div className="space-y-8 pb-10">
       {/* Header */}
       <div className="flex items-center justify-between border-b border-[#D4AF37]/10 pb-4">
         <h2 className="text-sm font-bold tracking-[0.2em] uppercase text-[#1A1A1A] dark:text-[#F5F5F3]">
-          {t("shop.filters")}
+          {t("shop.filters.title")}
         </h2>
         {hasActiveFilters && (
           <Button
@@ -218,7 +216,7 @@ export function FilterSidebar({
 
       <Accordion
         type="multiple"
-        defaultValue={["categories", "price", "size", "color"]}
+        defaultValue={["categories", "price", "size", "color", "brand"]}
         className="w-full"
       >
         {/* Categories */}
@@ -254,147 +252,163 @@ export function FilterSidebar({
         </AccordionItem>
 
         {/* Price */}
-        <AccordionItem
-          value="price"
-          className="border-zinc-100 dark:border-zinc-900"
-        >
-          <AccordionTrigger className="text-[11px] font-bold uppercase tracking-[0.15em] hover:no-underline py-4">
-            {t("shop.filters.priceRange", { defaultValue: "Price Range" })}
-          </AccordionTrigger>
-          <AccordionContent>
-            <div className="space-y-4 pt-2">
-              <div className="flex items-center gap-2">
-                <div className="relative flex-1">
-                  <span className="absolute left-3 top-1/2 -translate-y-1/2 text-[10px] text-zinc-400">
-                    ₫
-                  </span>
-                  <Input
-                    placeholder="Min"
-                    type="number"
-                    value={minPrice}
-                    onChange={(e) => setMinPrice(e.target.value)}
-                    className="pl-8 h-10 text-xs border-zinc-100 dark:border-zinc-900 rounded-none focus-visible:ring-[#D4AF37]"
-                  />
-                </div>
-                <div className="h-px w-3 bg-zinc-200" />
-                <div className="relative flex-1">
-                  <span className="absolute left-3 top-1/2 -translate-y-1/2 text-[10px] text-zinc-400">
-                    ₫
-                  </span>
-                  <Input
-                    placeholder="Max"
-                    type="number"
-                    value={maxPrice}
-                    onChange={(e) => setMaxPrice(e.target.value)}
-                    className="pl-8 h-10 text-xs border-zinc-100 dark:border-zinc-900 rounded-none focus-visible:ring-[#D4AF37]"
-                  />
-                </div>
-              </div>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={handlePriceChange}
-                className="w-full text-[10px] uppercase tracking-widest border-[#D4AF37]/30 hover:bg-[#D4AF37] hover:text-white transition-all"
-              >
-                Apply Range
-              </Button>
-            </div>
-          </AccordionContent>
-        </AccordionItem>
+        {facets.price && (
+          <AccordionItem
+            value="price"
+            className="border-zinc-100 dark:border-zinc-900"
+          >
+            <AccordionTrigger className="text-[11px] font-bold uppercase tracking-[0.15em] hover:no-underline py-4">
+              {t("shop.facets.price")}
+            </AccordionTrigger>
+            <AccordionContent>
+              <PriceRangeFacet
+                histogram={facets.price}
+                value={filters.priceRange}
+                onChange={(range) => onFilterChange("priceRange", range)}
+              />
+            </AccordionContent>
+          </AccordionItem>
+        )}
 
         {/* Size */}
-        <AccordionItem
-          value="size"
-          className="border-zinc-100 dark:border-zinc-900"
-        >
-          <AccordionTrigger className="text-[11px] font-bold uppercase tracking-[0.15em] hover:no-underline py-4">
-            Size
-          </AccordionTrigger>
-          <AccordionContent>
-            <div className="grid grid-cols-4 gap-2 pt-2">
-              {LUXURY_SIZES.map((size) => (
-                <button
-                  key={size}
-                  onClick={() =>
-                    onFilterChange("size", filters.size === size ? null : size)
-                  }
-                  className={cn(
-                    "h-10 text-[10px] font-medium border transition-all duration-300",
-                    filters.size === size
-                      ? "bg-[#D4AF37] border-[#D4AF37] text-white"
-                      : "border-zinc-100 dark:border-zinc-900 text-zinc-600 dark:text-zinc-400 hover:border-[#D4AF37]/50",
-                  )}
-                >
-                  {size}
-                </button>
-              ))}
-            </div>
-          </AccordionContent>
-        </AccordionItem>
-
-        {/* Color */}
-        <AccordionItem
-          value="color"
-          className="border-zinc-100 dark:border-zinc-900"
-        >
-          <AccordionTrigger className="text-[11px] font-bold uppercase tracking-[0.15em] hover:no-underline py-4">
-            Color
-          </AccordionTrigger>
-          <AccordionContent>
-            <div className="grid grid-cols-4 gap-4 pt-2">
-              {LUXURY_COLORS.map((color) => (
-                <button
-                  key={color.name}
-                  onClick={() =>
-                    onFilterChange(
-                      "color",
-                      filters.color === color.name ? null : color.name,
-                    )
-                  }
-                  className="group flex flex-col items-center gap-2"
-                  title={color.name}
-                >
-                  <div
+        {facets.sizes.length > 0 && (
+          <AccordionItem
+            value="size"
+            className="border-zinc-100 dark:border-zinc-900"
+          >
+            <AccordionTrigger className="text-[11px] font-bold uppercase tracking-[0.15em] hover:no-underline py-4">
+              {t("shop.facets.size")}
+            </AccordionTrigger>
+            <AccordionContent>
+              <div className="grid grid-cols-4 gap-2 pt-2">
+                {facets.sizes.map((size) => (
+                  <button
+                    key={size.value}
+                    type="button"
+                    aria-pressed={isSelected("sizes", size.value)}
+                    disabled={isDisabled("sizes", size)}
+                    onClick={() => toggleValue("sizes", size.value)}
                     className={cn(
-                      "w-8 h-8 rounded-full border-2 p-0.5 transition-all duration-300",
-                      filters.color === color.name
-                        ? "border-[#D4AF37] scale-110"
-                        : "border-transparent group-hover:border-zinc-200",
+                      "h-10 flex flex-col items-center justify-center text-[10px] font-medium border transition-all duration-300 disabled:opacity-40 disabled:cursor-not-allowed",
+                      isSelected("sizes", size.value)
+                        ? "bg-[#D4AF37] border-[#D4AF37] text-white [&>span]:text-white/80"
+                        : "border-zinc-100 dark:border-zinc-900 text-zinc-600 dark:text-zinc-400 hover:border-[#D4AF37]/50",
                     )}
+                  >
+                    {size.value}
+                    <FacetCount count={size.count} />
+                  </button>
+                ))}
+              </div>
+            </AccordionContent>
+          </AccordionItem>
+        )}
+
+        {/* Color */}
+        {facets.colors.length > 0 && (
+          <AccordionItem
+            value="color"
+            className="border-zinc-100 dark:border-zinc-900"
+          >
+            <AccordionTrigger className="text-[11px] font-bold uppercase tracking-[0.15em] hover:no-underline py-4">
+              {t("shop.facets.color")}
+            </AccordionTrigger>
+            <AccordionContent>
+              <div className="grid grid-cols-4 gap-4 pt-2">
+                {facets.colors.map((color) => (
+                  <button
+                    key={color.value}
+                    type="button"
+                    aria-pressed={isSelected("colors", color.value)}
+                    disabled={isDisabled("colors", color)}
+                    onClick={() => toggleValue("colors", color.value)}
+                    className="group flex flex-col items-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed"
+                    title={color.value}
                   >
                     <div
-                      className="w-full h-full rounded-full shadow-inner"
-                      style={{ backgroundColor: color.hex }}
-                    />
-                  </div>
-                  <span className="text-[8px] uppercase tracking-tighter text-zinc-400">
-                    {color.name}
-                  </span>
-                </button>
-              ))}
-            </div>
-          </AccordionContent>
-        </AccordionItem>
+                      className={cn(
+                        "w-8 h-8 rounded-full border-2 p-0.5 transition-all duration-300",
+                        isSelected("colors", color.value)
+                          ? "border-[#D4AF37] scale-110"
+                          : "border-transparent group-hover:border-zinc-200",
+                      )}
+                    >
+                      {/* Colors are stored as hex codes or CSS color names */}
+                      <div
+                        className="w-full h-full rounded-full shadow-inner border border-zinc-200 dark:border-zinc-800"
+                        style={{ backgroundColor: color.value }}
+                      />
+                    </div>
+                    <span className="text-[8px] uppercase tracking-tighter text-zinc-400">
+                      {color.value} ({color.count})
+                    </span>
+                  </button>
+                ))}
+              </div>
+            </AccordionContent>
+          </AccordionItem>
+        )}
 
         {/* Brand */}
+        {facets.brands.length > 0 && (
+          <AccordionItem
+            value="brand"
+            className="border-zinc-100 dark:border-zinc-900"
+          >
+            <AccordionTrigger className="text-[11px] font-bold uppercase tracking-[0.15em] hover:no-underline py-4">
+              {t("shop.facets.brand")}
+            </AccordionTrigger>
+            <AccordionContent>
+              <div className="space-y-3 pt-2">
+                {facets.brands.map((brand) => (
+                  <label
+                    key={brand.value}
+                    className={cn(
+                      "flex items-center gap-3 cursor-pointer group",
+                      isDisabled("brands", brand) && "opacity-40 cursor-not-allowed",
+                    )}
+                  >
+                    <Checkbox
+                      checked={isSelected("brands", brand.value)}
+                      disabled={isDisabled("brands", brand)}
+                      onCheckedChange={() => toggleValue("brands", brand.value)}
+                      className="border-zinc-300 data-[state=checked]:bg-[#D4AF37] data-[state=checked]:border-[#D4AF37]"
+                    />
+                    <span className="flex-1 text-xs uppercase tracking-[0.1em] text-zinc-600 dark:text-zinc-400 group-hover:text-[#D4AF37] transition-colors">
+                      {brand.value}
+                    </span>
+                    <FacetCount count={brand.count} />
+                  </label>
+                ))}
+              </div>
+            </AccordionContent>
+          </AccordionItem>
+        )}
       </Accordion>
 
       {/* Toggles */}
-      <div className="pt-4 space-y-4">
-        <label className="flex items-center gap-3 cursor-pointer group">
-          <Checkbox
-            id="in-stock"
-            checked={filters.inStock === true}
-            onCheckedChange={(checked: boolean | "indeterminate") =>
-              onFilterChange("inStock", checked === true ? true : null)
-            }
-            className="border-zinc-300 data-[state=checked]:bg-[#D4AF37] data-[state=checked]:border-[#D4AF37]"
-          />
-          <span className="text-xs uppercase tracking-[0.1em] text-zinc-600 dark:text-zinc-400 group-hover:text-[#D4AF37] transition-colors">
-            In Stock Only
-          </span>
-        </label>
-      </div>
+      {showInStock && (
+        <div className="pt-4 space-y-4">
+          <label className="flex items-center gap-3 cursor-pointer group">
+            <Checkbox
+              id="in-stock"
+              checked={filters.inStock === true}
+              onCheckedChange={(checked: boolean | "indeterminate") =>
+                onFilterChange("inStock", checked === true ? true : null)
+              }
+              className="border-zinc-300 data-[state=checked]:bg-[#D4AF37] data-[state=checked]:border-[#D4AF37]"
+            />
+            <span className="flex-1 text-xs uppercase tracking-[0.1em] text-zinc-600 dark:text-zinc-400 group-hover:text-[#D4AF37] transition-colors">
+              {t("shop.facets.inStockOnly")}
+            </span>
+            <FacetCount count={facets.inStockCount} />
+          </label>
+        </div>
+      )}
+
+      {facets.sampled && (
+        <p className="text-[10px] text-zinc-400">{t("shop.facets.sampled")}</p>
+      )}
     </div>
   );
 }
@@ -0,0 +1,119 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import type { PriceHistogram } from "@/lib/utils/shop-facets";
+import { formatVND } from "@/lib/utils/order-formatters";
+import { cn } from "@/lib/utils";
+
+interface PriceRangeFacetProps {
+  histogram: PriceHistogram;
+  value: [number | null, number | null];
+  onChange: (value: [number | null, number | null]) => void;
+}
+
+const THUMB_CLASSES =
+  "pointer-events-none absolute inset-x-0 top-1/2 -translate-y-1/2 h-1 w-full appearance-none bg-transparent " +
+  "[&::-webkit-slider-thumb]:pointer-events-auto [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:w-4 " +
+  "[&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-white [&::-webkit-slider-thumb]:border-2 [&::-webkit-slider-thumb]:border-[#D4AF37] [&::-webkit-slider-thumb]:cursor-pointer " +
+  "[&::-moz-range-thumb]:pointer-events-auto [&::-moz-range-thumb]:h-4 [&::-moz-range-thumb]:w-4 [&::-moz-range-thumb]:rounded-full " +
+  "[&::-moz-range-thumb]:bg-white [&::-moz-range-thumb]:border-2 [&::-moz-range-thumb]:border-[#D4AF37] [&::-moz-range-thumb]:cursor-pointer " +
+  "focus-visible:outline-none [&:focus-visible::-webkit-slider-thumb]:ring-2 [&:focus-visible::-webkit-slider-thumb]:ring-[#D4AF37]/40";
+
+/**
+ * Price slider drawn over the histogram of prices in scope
+ *
+ * Dragging only moves the handles locally; the range is applied when a
+ * handle is released. A handle left at the end of the scale clears that bound.
+ */
+export function PriceRangeFacet({ histogram, value, onChange }: PriceRangeFacetProps) {
+  const { t } = useTranslation();
+  const { min, max, buckets } = histogram;
+  const step = Math.max(1, Math.round((max - min) / 100));
+
+  const clamp = (price: number | null, fallback: number) =>
+    price === null ? fallback : Math.min(max, Math.max(min, price));
+
+  const [draft, setDraft] = useState<[number, number] | null>(null);
+  const [low, high] = draft ?? [clamp(value[0], min), clamp(value[1], max)];
+
+  const percent = (price: number) => (max === min ? 0 : ((price - min) / (max - min)) * 100);
+  const tallest = Math.max(...buckets.map((bucket) => bucket.count), 1);
+
+  const commit = () => {
+    if (!draft) return;
+    setDraft(null);
+    onChange([draft[0] <= min ? null : draft[0], draft[1] >= max ? null : draft[1]]);
+  };
+
+  if (min === max) {
+    return (
+      <p className="pt-2 text-xs text-zinc-500">
+        {t("shop.facets.singlePrice", { price: formatVND(min) })}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3 pt-2">
+      <div className="flex h-12 items-end gap-px" aria-hidden="true">
+        {buckets.map((bucket) => (
+          <div
+            key={bucket.from}
+            className={cn(
+              "flex-1 rounded-t-sm transition-colors",
+              bucket.to >= low && bucket.from <= high ? "bg-[#D4AF37]/60" : "bg-zinc-200 dark:bg-zinc-800"
+            )}
+            style={{ height: `${Math.max(4, (bucket.count / tallest) * 100)}%` }}
+            title={t("shop.facets.bucket", {
+              from: formatVND(bucket.from),
+              to: formatVND(bucket.to),
+              count: bucket.count,
+            })}
+          />
+        ))}
+      </div>
+
+      <div className="relative h-4">
+        <div className="absolute inset-x-0 top-1/2 h-1 -translate-y-1/2 rounded-full bg-zinc-200 dark:bg-zinc-800" />
+        <div
+          className="absolute top-1/2 h-1 -translate-y-1/2 rounded-full bg-[#D4AF37]"
+          style={{ left: `${percent(low)}%`, right: `${100 - percent(high)}%` }}
+        />
+        <input
+          type="range"
+          min={min}
+          max={max}
+          step={step}
+          value={low}
+          aria-label={t("shop.facets.minPrice")}
+          aria-valuetext={formatVND(low)}
+          onChange={(e) => setDraft([Math.min(Number(e.target.value), high), high])}
+          onPointerUp={commit}
+          onKeyUp={commit}
+          onBlur={commit}
+          className={THUMB_CLASSES}
+        />
+        <input
+          type="range"
+          min={min}
+          max={max}
+          step={step}
+          value={high}
+          aria-label={t("shop.facets.maxPrice")}
+          aria-valuetext={formatVND(high)}
+          onChange={(e) => setDraft([low, Math.max(Number(e.target.value), low)])}
+          onPointerUp={commit}
+          onKeyUp={commit}
+          onBlur={commit}
+          className={THUMB_CLASSES}
+        />
+      </div>
+
+      <div className="flex justify-between text-[10px] uppercase tracking-widest text-zinc-500">
+        <span>{formatVND(low)}</span>
+        <span>{formatVND(high)}</span>
+      </div>
+    </div>
+  );
+}
@@ -3,9 +3,12 @@
 import Image from 'next/image';
 import Link from 'next/link';
 import { useState, useMemo, useEffect } from 'react';
-import { Eye, ShoppingBag } from 'lucide-react';
+import { Eye, Heart, ShoppingBag } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'sonner';
 import { ProductResponse, ProductListingDto } from '@/lib/types/product';
 import { Button } from '@/components/ui/button';
+import { toWishlistItem, useWishlistOptional } from '@/components/providers/WishlistProvider';
 import { ProductQuickViewModal } from './ProductQuickViewModal';
 
 interface ProductCardProps {
@@ -120,6 +123,9 @@ export function ProductCard({
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [mounted, setMounted] = useState(false);
   const [imageError, setImageError] = useState(false);
+  const { t } = useTranslation();
+  const wishlist = useWishlistOptional();
+  const isWishlisted = wishlist?.isWishlisted(product.id) ?? false;
   
   // Set mounted flag after component mounts (client-side only)
   useEffect(() => {
@@ -173,6 +179,19 @@ export function ProductCard({
     }
   };
 
+  const handleWishlistClick = async (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (!wishlist) return;
+
+    try {
+      const added = await wishlist.toggleWishlist(toWishlistItem(product));
+      toast.success(t(added ? 'wishlist.added' : 'wishlist.removed'));
+    } catch {
+      toast.error(t('wishlist.updateFailed'));
+    }
+  };
+
   // Luxury placeholder component
   const LuxuryPlaceholder = () => (
     <div className="absolute inset-0 flex flex-col items-center justify-center bg-gradient-to-br from-zinc-50 via-zinc-100 to-zinc-50 dark:from-zinc-900 dark:via-zinc-800 dark:to-zinc-900">
@@ -273,6 +292,23 @@ export function ProductCard({
             )}
           </div>
 
+          {/* Wishlist Toggle - above the link and sold out overlay */}
+          {wishlist && (
+            <button
+              type="button"
+              onClick={handleWishlistClick}
+              aria-pressed={isWishlisted}
+              aria-label={t(isWishlisted ? 'wishlist.remove' : 'product.addToWishlist')}
+              className={`absolute top-3 right-3 z-40 h-8 w-8 rounded-full flex items-center justify-center backdrop-blur-sm shadow-sm transition-colors duration-200 ${
+                isWishlisted
+                  ? 'bg-[#D4AF37] text-white'
+                  : 'bg-white/70 text-zinc-900 hover:bg-white dark:bg-zinc-900/70 dark:text-white'
+              }`}
+            >
+              <Heart className={`h-4 w-4 ${isWishlisted ? 'fill-current' : ''}`} />
+            </button>
+          )}
+
           {soldOut && (
             <div className="absolute inset-0 bg-black/60 flex items-center justify-center z-20 pointer-events-none">
               <span className="px-4 py-2 text-sm font-bold uppercase tracking-wider bg-destructive text-destructive-foreground rounded-md shadow-lg">
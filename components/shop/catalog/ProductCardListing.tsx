@@ -9,6 +9,8 @@ import { Button } from "@/components/ui/button";
 import { useTranslation } from "react-i18next";
 import { ProductQuickViewModal } from "./ProductQuickViewModal";
 import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+import { toWishlistItem, useWishlistOptional } from "@/components/providers/WishlistProvider";
 
 interface ProductCardListingProps {
   product: ProductListingDto;
@@ -63,13 +65,14 @@ export function ProductCardListing({
 }: ProductCardListingProps) {
   const [isHovered, setIsHovered] = useState(false);
   const [isModalOpen, setIsModalOpen] = useState(false);
-  const [isWishlisted, setIsWishlisted] = useState(false);
   const [imageError, setImageError] = useState(false);
   const { t } = useTranslation();
+  const wishlist = useWishlistOptional();
+  const isWishlisted = wishlist?.isWishlisted(product.id) ?? false;
   
   const isInStock = product.inStock !== undefined ? product.inStock : true;
-  const rating = product.rating || 4.5;
-  const reviewCount = product.reviewCount || 12;
+  const rating = product.rating ?? 0;
+  const reviewCount = product.reviewCount ?? 0;
   const colors = product.availableColors || ["#D4AF37", "#121212", "#E5E5E5"];
 
   const handleQuickViewClick = (e: React.MouseEvent) => {
@@ -84,10 +87,17 @@ export function ProductCardListing({
     setIsModalOpen(true);
   };
 
-  const toggleWishlist = (e: React.MouseEvent) => {
+  const toggleWishlist = async (e: React.MouseEvent) => {
     e.preventDefault();
     e.stopPropagation();
-    setIsWishlisted(!isWishlisted);
+    if (!wishlist) return;
+
+    try {
+      const added = await wishlist.toggleWishlist(toWishlistItem(product));
+      toast.success(t(added ? "wishlist.added" : "wishlist.removed"));
+    } catch {
+      toast.error(t("wishlist.updateFailed"));
+    }
   };
 
   return (
@@ -148,17 +158,21 @@ export function ProductCardListing({
           </div>
 
           {/* Wishlist Button - outside Link with higher z-index */}
-          <button
-            onClick={toggleWishlist}
-            className={cn(
-               "absolute top-4 right-4 z-30 w-8 h-8 rounded-full flex items-center justify-center transition-all duration-300 backdrop-blur-md",
-               isWishlisted 
-                ? "bg-[#D4AF37] text-white" 
-                : "bg-white/50 text-black hover:bg-white"
-            )}
-          >
-            <Heart className={cn("h-4 w-4", isWishlisted && "fill-current")} />
-          </button>
+          {wishlist && (
+            <button
+              onClick={toggleWishlist}
+              aria-pressed={isWishlisted}
+              aria-label={t(isWishlisted ? "wishlist.remove" : "product.addToWishlist")}
+              className={cn(
+                 "absolute top-4 right-4 z-30 w-8 h-8 rounded-full flex items-center justify-center transition-all duration-300 backdrop-blur-md",
+                 isWishlisted 
+                  ? "bg-[#D4AF37] text-white" 
+                  : "bg-white/50 text-black hover:bg-white"
+              )}
+            >
+              <Heart className={cn("h-4 w-4", isWishlisted && "fill-current")} />
+            </button>
+          )}
 
           {/* Action Overlay - outside Link with higher z-index, pointer-events-none on wrapper */}
           <div className={cn(
@@ -237,21 +251,23 @@ export function ProductCardListing({
             </div>
           </div>
 
-          {/* Rating */}
-          <div className="flex items-center gap-1">
-            <div className="flex">
-              {[1, 2, 3, 4, 5].map((s) => (
-                <Star 
-                  key={s} 
-                  className={cn(
-                    "h-2.5 w-2.5", 
-                    s <= Math.floor(rating) ? "fill-[#D4AF37] text-[#D4AF37]" : "text-zinc-300"
-                  )} 
-                />
-              ))}
+          {/* Rating - only once the product has reviews */}
+          {reviewCount > 0 && (
+            <div className="flex items-center gap-1">
+              <div className="flex">
+                {[1, 2, 3, 4, 5].map((s) => (
+                  <Star 
+                    key={s} 
+                    className={cn(
+                      "h-2.5 w-2.5", 
+                      s <= Math.floor(rating) ? "fill-[#D4AF37] text-[#D4AF37]" : "text-zinc-300"
+                    )} 
+                  />
+                ))}
+              </div>
+              <span className="text-[9px] text-zinc-400 font-light">({reviewCount})</span>
             </div>
-            <span className="text-[9px] text-zinc-400 font-light">({reviewCount})</span>
-          </div>
+          )}
 
           {/* Color Swatches */}
           <div className="flex items-center gap-1.5 pt-1">
@@ -12,10 +12,12 @@ import { Button } from "@/components/ui/button";
 import { VariantSelector } from "./VariantSelector";
 import { ProductListingDto, ProductResponse, VariantResponse } from "@/lib/types/product";
 import { useCart } from "@/components/providers/CartProvider";
+import { toWishlistItem, useWishlistOptional } from "@/components/providers/WishlistProvider";
 import { toast } from "sonner";
 import { useTranslation } from "react-i18next";
 import { productApi } from "@/lib/api/product";
-import { ShoppingBag, Plus, Check, Loader2 } from "lucide-react";
+import { ShoppingBag, Plus, Check, Loader2, Heart } from "lucide-react";
+import { cn } from "@/lib/utils";
 
 interface ProductQuickViewModalProps {
   product: ProductListingDto | ProductResponse | null;
@@ -48,6 +50,7 @@ export function ProductQuickViewModal({
 }: ProductQuickViewModalProps) {
   const { t } = useTranslation();
   const { addItemToCart } = useCart();
+  const wishlist = useWishlistOptional();
   const [fullProduct, setFullProduct] = useState<ProductResponse | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [selectedVariant, setSelectedVariant] = useState<VariantResponse | null>(null);
@@ -245,8 +248,21 @@ export function ProductQuickViewModal({
       });
   };
 
+  const handleToggleWishlist = async () => {
+    if (!wishlist || !product) return;
+
+    try {
+      const added = await wishlist.toggleWishlist(toWishlistItem(fullProduct ?? product));
+      toast.success(t(added ? "wishlist.added" : "wishlist.removed"));
+    } catch {
+      toast.error(t("wishlist.updateFailed"));
+    }
+  };
+
   if (!product) return null;
 
+  const isWishlisted = wishlist?.isWishlisted(product.id) ?? false;
+
   // IMPORTANT: ProductListingDto is ONLY for listings (shop/home page)
   // ProductResponse is the full product details with variants
   // Modal MUST use ProductResponse - if we only have ProductListingDto, we fetch ProductResponse
@@ -443,39 +459,53 @@ export function ProductQuickViewModal({
                 />
               )}
 
-              {/* Add to Cart Button */}
-              <Button
-                onClick={handleAddToCart}
-                disabled={
-                  isAdding ||
-                  justAdded ||
-                  (hasVariants && !selectedVariant) ||
-                  (hasVariants &&
-                    selectedVariant &&
-                    (!selectedVariant.isActive || selectedVariant.quantity <= 0)) ||
-                  (!hasVariants && "inStock" in displayProduct && !displayProduct.inStock)
-                }
-                className="w-full bg-[#D4AF37] hover:bg-[#B8941F] text-white h-12 text-base font-medium"
-              >
-                {isAdding ? (
-                  <>
-                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                    {t("cart.adding", { defaultValue: "Adding..." })}
-                  </>
-                ) : justAdded ? (
-                  <>
-                    <Check className="h-4 w-4 mr-2" />
-                    {t("cart.addToCartSuccess", { defaultValue: "Added to Cart" })}
-                  </>
-                ) : hasVariants && !selectedVariant ? (
-                  t("cart.selectVariantFirst", { defaultValue: "Select a variant" })
-                ) : (
-                  <>
-                    <Plus className="h-4 w-4 mr-2" />
-                    {t("cart.addToCart")}
-                  </>
+              {/* Add to Cart & Wishlist */}
+              <div className="flex gap-3">
+                <Button
+                  onClick={handleAddToCart}
+                  disabled={
+                    isAdding ||
+                    justAdded ||
+                    (hasVariants && !selectedVariant) ||
+                    (hasVariants &&
+                      selectedVariant &&
+                      (!selectedVariant.isActive || selectedVariant.quantity <= 0)) ||
+                    (!hasVariants && "inStock" in displayProduct && !displayProduct.inStock)
+                  }
+                  className="flex-1 bg-[#D4AF37] hover:bg-[#B8941F] text-white h-12 text-base font-medium"
+                >
+                  {isAdding ? (
+                    <>
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      {t("cart.adding", { defaultValue: "Adding..." })}
+                    </>
+                  ) : justAdded ? (
+                    <>
+                      <Check className="h-4 w-4 mr-2" />
+                      {t("cart.addToCartSuccess", { defaultValue: "Added to Cart" })}
+                    </>
+                  ) : hasVariants && !selectedVariant ? (
+                    t("cart.selectVariantFirst", { defaultValue: "Select a variant" })
+                  ) : (
+                    <>
+                      <Plus className="h-4 w-4 mr-2" />
+                      {t("cart.addToCart")}
+                    </>
+                  )}
+                </Button>
+                {wishlist && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={handleToggleWishlist}
+                    aria-pressed={isWishlisted}
+                    aria-label={t(isWishlisted ? "wishlist.remove" : "product.addToWishlist")}
+                    className="h-12 w-12 shrink-0 border-[#D4AF37]/40 hover:border-[#D4AF37] hover:bg-[#D4AF37]/5"
+                  >
+                    <Heart className={cn("h-5 w-5 text-[#D4AF37]", isWishlisted && "fill-[#D4AF37]")} />
+                  </Button>
                 )}
-              </Button>
+              </div>
             </div>
           </div>
       </DialogContent>
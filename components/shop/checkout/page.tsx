@@ -4,7 +4,7 @@ import { useState, useMemo, useEffect, useCallback } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { CreditCard, Wallet } from "lucide-react";
+import { CreditCard, QrCode, Smartphone, Wallet } from "lucide-react";
 import { motion } from "framer-motion";
 import { useRouter } from "next/navigation";
 import { toast } from "sonner";
@@ -22,11 +22,15 @@ import { AddressForm } from "./AddressForm";
 import { OrderSummary } from "./OrderSummary";
 import { profileApi } from "@/lib/api/profile";
 import type { UserAddress } from "@/lib/types/profile";
+import { orderApi } from "@/lib/api/order";
 import {
-  orderApi,
-  type PaymentMethod,
-  type OrderCreationResponse,
-} from "@/lib/api/order";
+  SELECTABLE_PAYMENT_METHODS,
+  type SelectablePaymentMethod,
+} from "@/lib/types/order";
+import {
+  isOnlinePaymentMethod,
+  resolvePaymentUrl,
+} from "@/lib/utils/payment-gateway";
 
 /**
  * Format currency to VND with luxury styling
@@ -54,7 +58,7 @@ type CheckoutFormData = {
   wardName: string;
   districtName: string;
   detailAddress: string;
-  paymentMethod: "COD" | "BANK_TRANSFER";
+  paymentMethod: SelectablePaymentMethod;
   note?: string;
   savedAddressId?: string;
 };
@@ -111,7 +115,8 @@ export default function CheckoutPage() {
               "Vui lòng nhập địa chỉ chi tiết",
           )
           .max(255, t("checkout.validation.streetMaxLength")),
-        paymentMethod: z.enum(["COD", "BANK_TRANSFER"], {
+        // VN_PAY and MOMO redirect to the gateway once the order is created
+        paymentMethod: z.enum(SELECTABLE_PAYMENT_METHODS, {
           message: t("checkout.validation.paymentMethodRequired"),
         }),
         note: z
@@ -280,7 +285,7 @@ export default function CheckoutPage() {
           districtName: data.districtName,
           detailAddress: data.detailAddress,
         },
-        paymentMethod: data.paymentMethod as PaymentMethod,
+        paymentMethod: data.paymentMethod,
         note: data.note || undefined,
       };
 
@@ -312,11 +317,7 @@ export default function CheckoutPage() {
         return;
       }
 
-      // Extract the actual order data from the nested response structure
-      // API returns { data: { data: OrderCreationResponse, meta: {...} } }
-      const orderData = (result.data as any)?.data as
-        | OrderCreationResponse
-        | undefined;
+      const orderData = result.data;
 
       if (orderData?.orderId) {
         // Order created successfully
@@ -331,6 +332,22 @@ export default function CheckoutPage() {
           );
         }
 
+        // Online payments continue on the gateway, which returns to /payment/return
+        if (isOnlinePaymentMethod(data.paymentMethod)) {
+          const paymentUrl = resolvePaymentUrl({
+            orderCode: orderData.orderCode,
+            amount: orderData.totalAmount,
+            method: data.paymentMethod,
+            paymentUrl: orderData.paymentInfo?.paymentUrl,
+          });
+
+          if (paymentUrl) {
+            toast.info(t("payment.redirecting"));
+            window.location.assign(paymentUrl);
+            return;
+          }
+        }
+
         // Redirect to order success page with order code
         router.push(`/orders/${orderData.orderCode}/success`);
       } else {
@@ -539,6 +556,20 @@ export default function CheckoutPage() {
                         setValue("paymentMethod", "BANK_TRANSFER")
                       }
                     />
+                    <PaymentMethodCard
+                      icon={QrCode}
+                      title={t("checkout.vnPay")}
+                      description={t("checkout.vnPayDesc")}
+                      isSelected={paymentMethod === "VN_PAY"}
+                      onSelect={() => setValue("paymentMethod", "VN_PAY")}
+                    />
+                    <PaymentMethodCard
+                      icon={Smartphone}
+                      title={t("checkout.momo")}
+                      description={t("checkout.momoDesc")}
+                      isSelected={paymentMethod === "MOMO"}
+                      onSelect={() => setValue("paymentMethod", "MOMO")}
+                    />
                   </div>
                   {errors.paymentMethod && (
                     <p className="text-xs text-red-600 dark:text-red-400">
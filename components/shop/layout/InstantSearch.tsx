@@ -0,0 +1,258 @@
+'use client';
+
+import { useId, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Image from 'next/image';
+import { useTranslation } from 'react-i18next';
+import { Clock, FolderOpen, Loader2, Search, X, ArrowRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useInstantSearch } from '@/hooks/shop/useInstantSearch';
+import type { SearchCategoryHit, SearchProductHit } from '@/app/api/bff/search/route';
+import { addRecentSearch, readRecentSearches, removeRecentSearch } from '@/lib/utils/recentSearches';
+import { formatVND } from '@/lib/utils/order-formatters';
+import { cn } from '@/lib/utils';
+
+type SearchOption =
+  | { kind: 'recent'; query: string }
+  | { kind: 'category'; category: SearchCategoryHit }
+  | { kind: 'product'; product: SearchProductHit }
+  | { kind: 'all'; query: string };
+
+interface InstantSearchProps {
+  /** Called after navigating to a result */
+  onNavigate: () => void;
+  accentColor?: string;
+}
+
+const getProductPrice = (product: SearchProductHit) =>
+  product.discountPrice ?? product.minPrice ?? product.price;
+
+/**
+ * Navbar search with typeahead suggestions
+ *
+ * Shows recent searches for an empty query, otherwise matching categories and
+ * products. Arrow keys move through the options, Enter opens the highlighted
+ * one (or the full results page), Escape closes the overlay.
+ */
+export function InstantSearch({ onNavigate, accentColor = '#1A1A1A' }: InstantSearchProps) {
+  const { t } = useTranslation();
+  const router = useRouter();
+  const listboxId = useId();
+
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [recentSearches, setRecentSearches] = useState<string[]>(() => readRecentSearches());
+
+  const trimmedQuery = query.trim();
+  const { suggestions, isSearching, isError } = useInstantSearch(query);
+
+  const options: SearchOption[] = trimmedQuery
+    ? [
+        ...(suggestions?.categories || []).map((category): SearchOption => ({ kind: 'category', category })),
+        ...(suggestions?.products || []).map((product): SearchOption => ({ kind: 'product', product })),
+        { kind: 'all', query: trimmedQuery },
+      ]
+    : recentSearches.map((recent): SearchOption => ({ kind: 'recent', query: recent }));
+
+  const currentIndex = activeIndex < options.length ? activeIndex : -1;
+  const optionId = (index: number) => `${listboxId}-option-${index}`;
+
+  const go = (href: string, searched: string) => {
+    if (searched) setRecentSearches(addRecentSearch(searched));
+    router.push(href);
+    onNavigate();
+  };
+
+  const selectOption = (option: SearchOption) => {
+    switch (option.kind) {
+      case 'recent':
+      case 'all':
+        go(`/shop?keyword=${encodeURIComponent(option.query)}`, option.query);
+        break;
+      case 'category':
+        go(`/shop?category=${encodeURIComponent(option.category.slug)}`, trimmedQuery);
+        break;
+      case 'product':
+        go(`/product/${option.product.slug}-i.${option.product.id}`, trimmedQuery);
+        break;
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (currentIndex >= 0) {
+      selectOption(options[currentIndex]);
+    } else if (trimmedQuery) {
+      selectOption({ kind: 'all', query: trimmedQuery });
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      if (options.length === 0) return;
+      // Cycles through the options and back to the input (-1)
+      const next = currentIndex + (e.key === 'ArrowDown' ? 1 : -1);
+      setActiveIndex(next >= options.length ? -1 : next < -1 ? options.length - 1 : next);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onNavigate();
+    }
+  };
+
+  const renderOption = (option: SearchOption, index: number) => {
+    const isActive = index === currentIndex;
+    const common = {
+      id: optionId(index),
+      role: 'option' as const,
+      'aria-selected': isActive,
+      onMouseEnter: () => setActiveIndex(index),
+      onMouseDown: (e: React.MouseEvent) => e.preventDefault(),
+      onClick: () => selectOption(option),
+      className: cn(
+        'w-full flex items-center gap-3 px-3 py-2 rounded-lg text-left cursor-pointer transition-colors',
+        isActive ? 'bg-[#F3EFE8] dark:bg-white/10' : 'hover:bg-[#F3EFE8]/60 dark:hover:bg-white/5'
+      ),
+    };
+
+    switch (option.kind) {
+      case 'recent':
+        return (
+          <li key={`recent-${option.query}`} {...common}>
+            <Clock className="h-4 w-4 shrink-0 text-[#999999]" />
+            <span className="flex-1 truncate text-sm text-[#1A1A1A] dark:text-[#F5F5F5]">{option.query}</span>
+            <button
+              type="button"
+              aria-label={t('navbar.search.removeRecent', { query: option.query })}
+              onClick={(e) => {
+                e.stopPropagation();
+                setRecentSearches(removeRecentSearch(option.query));
+              }}
+              className="p-1 rounded text-[#999999] hover:text-[#1A1A1A] dark:hover:text-[#F5F5F5]"
+            >
+              <X className="h-3.5 w-3.5" />
+            </button>
+          </li>
+        );
+      case 'category':
+        return (
+          <li key={`category-${option.category.id}`} {...common}>
+            <FolderOpen className="h-4 w-4 shrink-0 text-[#D4AF37]" />
+            <span className="flex-1 truncate text-sm text-[#1A1A1A] dark:text-[#F5F5F5]">
+              {option.category.name}
+              {option.category.path.length > 0 && (
+                <span className="ml-2 text-xs text-[#999999]">{option.category.path.join(' / ')}</span>
+              )}
+            </span>
+          </li>
+        );
+      case 'product':
+        return (
+          <li key={`product-${option.product.id}`} {...common}>
+            <div className="relative h-12 w-10 shrink-0 overflow-hidden rounded bg-[#F3EFE8] dark:bg-[#1A1A1A]">
+              {option.product.thumbnail && (
+                <Image
+                  src={option.product.thumbnail}
+                  alt=""
+                  fill
+                  sizes="40px"
+                  className="object-cover"
+                  unoptimized
+                />
+              )}
+            </div>
+            <div className="flex-1 min-w-0">
+              <p className="truncate text-sm text-[#1A1A1A] dark:text-[#F5F5F5]">{option.product.name}</p>
+              {option.product.categoryName && (
+                <p className="truncate text-xs text-[#999999]">{option.product.categoryName}</p>
+              )}
+            </div>
+            <span className="shrink-0 text-sm font-light text-[#1A1A1A] dark:text-[#F5F5F5]">
+              {formatVND(getProductPrice(option.product))}
+            </span>
+          </li>
+        );
+      case 'all':
+        return (
+          <li key="all" {...common}>
+            <Search className="h-4 w-4 shrink-0 text-[#999999]" />
+            <span className="flex-1 truncate text-sm text-[#1A1A1A] dark:text-[#F5F5F5]">
+              {t('navbar.search.seeAll', { query: option.query })}
+            </span>
+            <ArrowRight className="h-4 w-4 text-[#999999]" />
+          </li>
+        );
+    }
+  };
+
+  const categoryCount = trimmedQuery ? suggestions?.categories.length ?? 0 : 0;
+  const productCount = trimmedQuery ? suggestions?.products.length ?? 0 : 0;
+  const showNoResults =
+    !!suggestions && !isSearching && !isError && categoryCount === 0 && productCount === 0;
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      <form onSubmit={handleSubmit} className="flex gap-3" role="search">
+        <div className="relative flex-1">
+          <Input
+            type="text"
+            role="combobox"
+            aria-expanded={options.length > 0}
+            aria-controls={listboxId}
+            aria-autocomplete="list"
+            aria-activedescendant={currentIndex >= 0 ? optionId(currentIndex) : undefined}
+            placeholder={t('demo.nav.searchPlaceholder', { defaultValue: 'Search for products...' })}
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setActiveIndex(-1);
+            }}
+            onKeyDown={handleKeyDown}
+            className="w-full pr-9 bg-white dark:bg-[#1A1A1A] border-[#E8E4DD] dark:border-[#2A2A2A] text-sm"
+            autoComplete="off"
+            autoFocus
+          />
+          {isSearching && (
+            <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 animate-spin text-[#999999]" />
+          )}
+        </div>
+        <Button
+          type="submit"
+          className="text-white dark:text-[#1A1A1A] hover:opacity-90 dark:hover:opacity-90"
+          style={{ backgroundColor: accentColor }}
+        >
+          {t('demo.nav.search', { defaultValue: 'Search' })}
+        </Button>
+      </form>
+
+      {!trimmedQuery && recentSearches.length > 0 && (
+        <div className="mt-4 flex items-center justify-between px-3">
+          <span className="text-[10px] uppercase tracking-widest text-[#999999]">
+            {t('navbar.search.recent')}
+          </span>
+          <button
+            type="button"
+            onClick={() => setRecentSearches(removeRecentSearch())}
+            className="text-[10px] uppercase tracking-widest text-[#999999] hover:text-[#1A1A1A] dark:hover:text-[#F5F5F5]"
+          >
+            {t('navbar.search.clearRecent')}
+          </button>
+        </div>
+      )}
+
+      {options.length > 0 && (
+        <ul id={listboxId} role="listbox" className="mt-2 space-y-0.5">
+          {options.map(renderOption)}
+        </ul>
+      )}
+
+      {showNoResults && (
+        <p className="mt-2 px-3 text-xs text-[#999999]">{t('navbar.search.noSuggestions', { query: trimmedQuery })}</p>
+      )}
+      {trimmedQuery && isError && (
+        <p className="mt-2 px-3 text-xs text-[#999999]">{t('navbar.search.suggestionsUnavailable')}</p>
+      )}
+    </div>
+  );
+}
@@ -6,13 +6,12 @@ import { useAppSelector, useAppDispatch } from '@/lib/store/hooks';
 import { User, Heart, ShoppingBag, Search, Menu, X, LogOut, Settings } from 'lucide-react';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
 import { SettingsButton } from '@/components/ui/SettingsButton';
+import { InstantSearch } from './InstantSearch';
 import { logoutAction } from '@/app/actions/auth';
 import { clearAuth } from '@/lib/store/authSlice';
 import { useCart } from '@/components/providers/CartProvider';
 import { clearCartData } from '@/lib/utils';
-import { useCartStore } from '@/lib/store/cartStore';
 import Link from 'next/link';
 import { useEffect, useState } from 'react';
 import { useTranslation } from 'react-i18next';
@@ -28,7 +27,6 @@ export function StorefrontNavBar() {
   const [mounted, setMounted] = useState(false);
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const [searchOpen, setSearchOpen] = useState(false);
-  const [searchQuery, setSearchQuery] = useState('');
   const lang = useTranslation().i18n.language;
   const { items } = useCart();
   const cartItemCount = items.reduce((sum, item) => sum + item.quantity, 0);
@@ -51,9 +49,6 @@ export function StorefrontNavBar() {
   }, [pathname]);
 
   const handleLogout = async () => {
-    const cartStore = useCartStore.getState();
-    cartStore.clearCart();
-    cartStore.setAuthenticated(false);
     clearCartData();
     dispatch(clearAuth());
     await logoutAction();
@@ -61,13 +56,6 @@ export function StorefrontNavBar() {
     router.refresh();
   };
 
-  const handleSearch = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (searchQuery.trim()) {
-      router.push(`/shop?keyword=${encodeURIComponent(searchQuery.trim())}`);
-    }
-  };
-
   return (
     <nav className="fixed top-0 left-0 right-0 z-50 bg-[#FDFCF8]/98 dark:bg-[#0D0D0D]/98 backdrop-blur-xl border-b border-[#E8E4DD] dark:border-[#2A2A2A]">
       {/* Top Banner */}
@@ -134,7 +122,7 @@ export function StorefrontNavBar() {
               </Button>
 
               {/* Wishlist */}
-              <Link href={`/wishlist`}>
+              <Link href="/account/wishlist">
                 <Button
                   variant="ghost"
                   size="icon"
@@ -211,7 +199,7 @@ export function StorefrontNavBar() {
                         {t('navbar.myOrders', { defaultValue: 'My Orders' })}
                       </button>
                     </Link>
-                    <Link href="/wishlist" className="no-underline">
+                    <Link href="/account/wishlist" className="no-underline">
                       <button className="w-full flex items-center gap-3 px-3 py-2 text-sm text-gray-700 dark:text-zinc-300 hover:bg-gray-100 dark:hover:bg-zinc-800 rounded-lg transition-colors text-left">
                         <Heart className="w-4 h-4" />
                         {t('navbar.wishlist', { defaultValue: 'Wishlist' })}
@@ -253,23 +241,10 @@ export function StorefrontNavBar() {
       {/* Search Overlay */}
       {searchOpen && (
         <div className="absolute top-full left-0 right-0 bg-[#FDFCF8] dark:bg-[#0D0D0D] border-b border-[#E8E4DD] dark:border-[#2A2A2A] p-4 sm:p-6">
-          <form onSubmit={handleSearch} className="max-w-2xl mx-auto flex gap-3">
-            <Input
-              type="text"
-              placeholder={t('demo.nav.searchPlaceholder', { defaultValue: 'Search for products...' })}
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              className="flex-1 bg-white dark:bg-[#1A1A1A] border-[#E8E4DD] dark:border-[#2A2A2A] text-sm"
-              autoFocus
-            />
-            <Button 
-              type="submit" 
-              className="text-white dark:text-[#1A1A1A] hover:opacity-90 dark:hover:opacity-90"
-              style={{ backgroundColor: store.theme?.primaryColor || '#1A1A1A' }}
-            >
-              {t('demo.nav.search', { defaultValue: 'Search' })}
-            </Button>
-          </form>
+          <InstantSearch
+            onNavigate={() => setSearchOpen(false)}
+            accentColor={store.theme?.primaryColor || '#1A1A1A'}
+          />
         </div>
       )}
 
@@ -0,0 +1,196 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import { useTranslation } from "react-i18next";
+import { toast } from "sonner";
+import { Check, Copy, Clock, RefreshCcw, Wallet, Loader2 } from "lucide-react";
+
+import { PaymentInfo } from "@/lib/types/order";
+import { formatVND } from "@/lib/utils/order-formatters";
+import {
+  extractAccountNumber,
+  formatCountdown,
+} from "@/lib/utils/bank-transfer";
+
+interface BankTransferPanelProps {
+  paymentInfo: PaymentInfo;
+  amount: number;
+  secondsLeft: number | null;
+  isExpired: boolean;
+  isRegenerating?: boolean;
+  isSwitching?: boolean;
+  onRegenerate: () => void;
+  onSwitchToCod: () => void;
+}
+
+interface CopyableFieldProps {
+  label: string;
+  value: string;
+  copyValue?: string;
+}
+
+/**
+ * Label/value row with a one-click copy button
+ */
+function CopyableField({ label, value, copyValue }: CopyableFieldProps) {
+  const { t } = useTranslation();
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(copyValue ?? value);
+      setCopied(true);
+      toast.success(t("checkout.bankTransfer.copied", { label }));
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      toast.error(t("checkout.bankTransfer.copyFailed"));
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-between gap-4">
+      <div className="min-w-0">
+        <p className="text-sm text-gray-600 dark:text-zinc-400">{label}</p>
+        <p className="text-base font-medium text-gray-900 dark:text-white break-all">
+          {value}
+        </p>
+      </div>
+      <button
+        type="button"
+        onClick={handleCopy}
+        aria-label={t("checkout.bankTransfer.copy", { label })}
+        className="shrink-0 p-2 rounded-lg border border-gray-200 dark:border-white/10 text-gray-600 dark:text-zinc-400 hover:text-[#d4b483] hover:border-[#d4b483] transition-colors"
+      >
+        {copied ? (
+          <Check className="h-4 w-4 text-emerald-600 dark:text-emerald-400" />
+        ) : (
+          <Copy className="h-4 w-4" />
+        )}
+      </button>
+    </div>
+  );
+}
+
+/**
+ * Bank transfer instructions with expiry countdown
+ * Offers regenerating the QR code or switching to COD once the transfer window expires
+ */
+export function BankTransferPanel({
+  paymentInfo,
+  amount,
+  secondsLeft,
+  isExpired,
+  isRegenerating = false,
+  isSwitching = false,
+  onRegenerate,
+  onSwitchToCod,
+}: BankTransferPanelProps) {
+  const { t } = useTranslation();
+  const accountNumber = extractAccountNumber(paymentInfo.bankAccountInfo);
+
+  if (isExpired) {
+    return (
+      <div className="pt-4 border-t border-gray-200 dark:border-white/10 space-y-4">
+        <div className="flex items-start gap-3 p-4 rounded-lg bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-400">
+          <Clock className="h-5 w-5 shrink-0 mt-0.5" />
+          <div>
+            <p className="font-medium">{t("checkout.bankTransfer.expiredTitle")}</p>
+            <p className="text-sm">{t("checkout.bankTransfer.expiredDescription")}</p>
+          </div>
+        </div>
+        <div className="flex flex-col sm:flex-row gap-3">
+          <button
+            type="button"
+            onClick={onRegenerate}
+            disabled={isRegenerating || isSwitching}
+            className="flex-1 inline-flex items-center justify-center gap-2 px-6 py-3 bg-[#181818] dark:bg-white text-white dark:text-black rounded-lg font-medium transition-opacity disabled:opacity-60"
+          >
+            {isRegenerating ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <RefreshCcw className="h-4 w-4" />
+            )}
+            {t("checkout.bankTransfer.regenerate")}
+          </button>
+          <button
+            type="button"
+            onClick={onSwitchToCod}
+            disabled={isRegenerating || isSwitching}
+            className="flex-1 inline-flex items-center justify-center gap-2 px-6 py-3 bg-white dark:bg-zinc-800 border border-gray-300 dark:border-white/20 text-gray-900 dark:text-white rounded-lg font-medium transition-opacity disabled:opacity-60"
+          >
+            {isSwitching ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Wallet className="h-4 w-4" />
+            )}
+            {t("checkout.bankTransfer.switchToCod")}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="pt-4 border-t border-gray-200 dark:border-white/10 space-y-4">
+      {/* Countdown */}
+      {secondsLeft !== null && (
+        <div className="flex items-center justify-between p-3 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 text-yellow-700 dark:text-yellow-400">
+          <span className="flex items-center gap-2 text-sm">
+            <Clock className="h-4 w-4" />
+            {t("checkout.bankTransfer.expiresIn")}
+          </span>
+          <span className="font-mono text-lg font-bold tabular-nums">
+            {formatCountdown(secondsLeft)}
+          </span>
+        </div>
+      )}
+
+      {/* QR Code */}
+      {paymentInfo.qrCodeUrl && (
+        <div>
+          <p className="text-sm text-gray-600 dark:text-zinc-400 mb-3">
+            {t("checkout.scanQRCode", {
+              defaultValue: "Scan QR code to pay",
+            })}
+          </p>
+          <div className="relative w-64 h-64 mx-auto bg-white p-4 rounded-lg">
+            <Image
+              src={paymentInfo.qrCodeUrl}
+              alt="Payment QR Code"
+              fill
+              className="object-contain"
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Transfer details */}
+      <div className="space-y-3">
+        {paymentInfo.bankAccountInfo && (
+          <CopyableField
+            label={t("checkout.bankTransfer.accountNumber")}
+            value={paymentInfo.bankAccountInfo}
+            copyValue={accountNumber ?? paymentInfo.bankAccountInfo}
+          />
+        )}
+        <CopyableField
+          label={t("checkout.bankTransfer.amount")}
+          value={formatVND(amount)}
+          copyValue={String(Math.round(amount))}
+        />
+        {paymentInfo.transferContent && (
+          <CopyableField
+            label={t("checkout.bankTransfer.transferContent")}
+            value={paymentInfo.transferContent}
+          />
+        )}
+      </div>
+
+      <p className="flex items-center justify-center gap-2 text-sm text-gray-500 dark:text-zinc-500">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        {t("checkout.bankTransfer.waiting")}
+      </p>
+    </div>
+  );
+}
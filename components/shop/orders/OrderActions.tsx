@@ -3,7 +3,14 @@
 import { useState } from "react";
 import Link from "next/link";
 import { useTranslation } from "react-i18next";
-import { RefreshCcw, X, ShoppingBag, AlertTriangle } from "lucide-react";
+import {
+  RefreshCcw,
+  X,
+  ShoppingBag,
+  AlertTriangle,
+  Loader2,
+  CreditCard,
+} from "lucide-react";
 
 import { Button } from "@/components/ui/button";
 import {
@@ -18,13 +25,17 @@ import {
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 
-import { OrderStatus } from "@/lib/api/my-orders";
+import { OrderStatus } from "@/lib/types/order";
 
 interface OrderActionsProps {
   status: OrderStatus;
   isCancelling?: boolean;
+  isReordering?: boolean;
+  canRetryPayment?: boolean;
+  isRetryingPayment?: boolean;
   onCancel: (reason?: string) => void;
   onReorder: () => void;
+  onRetryPayment?: () => void;
 }
 
 /**
@@ -33,8 +44,12 @@ interface OrderActionsProps {
 export function OrderActions({
   status,
   isCancelling = false,
+  isReordering = false,
+  canRetryPayment = false,
+  isRetryingPayment = false,
   onCancel,
   onReorder,
+  onRetryPayment,
 }: OrderActionsProps) {
   const { t } = useTranslation();
   const [cancelDialogOpen, setCancelDialogOpen] = useState(false);
@@ -58,6 +73,26 @@ export function OrderActions({
 
   return (
     <div className="space-y-3 pt-4">
+      {/* Pay Now - Only for unpaid online payments */}
+      {canRetryPayment && onRetryPayment && (
+        <Button
+          onClick={onRetryPayment}
+          disabled={isRetryingPayment}
+          className="w-full text-xs tracking-[0.15em] uppercase bg-foreground text-background hover:bg-foreground/90"
+        >
+          {isRetryingPayment ? (
+            <Loader2 className="w-3.5 h-3.5 mr-2 animate-spin" />
+          ) : (
+            <CreditCard className="w-3.5 h-3.5 mr-2 stroke-[1.5]" />
+          )}
+          {isRetryingPayment
+            ? t("payment.redirecting", {
+                defaultValue: "Redirecting to payment...",
+              })
+            : t("orders.payNow", { defaultValue: "Pay Now" })}
+        </Button>
+      )}
+
       {/* Cancel Order - Only for PENDING status */}
       {normalizedStatus === "PENDING" && (
         <Dialog open={cancelDialogOpen} onOpenChange={handleDialogOpenChange}>
@@ -169,10 +204,17 @@ export function OrderActions({
       {normalizedStatus === "COMPLETED" && (
         <Button
           onClick={onReorder}
+          disabled={isReordering}
           className="w-full text-xs tracking-[0.15em] uppercase bg-foreground text-background hover:bg-foreground/90"
         >
-          <RefreshCcw className="w-3.5 h-3.5 mr-2 stroke-[1.5]" />
-          {t("orders.reorder", { defaultValue: "Order Again" })}
+          {isReordering ? (
+            <Loader2 className="w-3.5 h-3.5 mr-2 animate-spin" />
+          ) : (
+            <RefreshCcw className="w-3.5 h-3.5 mr-2 stroke-[1.5]" />
+          )}
+          {isReordering
+            ? t("orders.reordering", { defaultValue: "Preparing your bag..." })
+            : t("orders.reorder", { defaultValue: "Order Again" })}
         </Button>
       )}
 
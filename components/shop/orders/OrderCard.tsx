@@ -4,7 +4,7 @@ import Image from "next/image";
 import Link from "next/link";
 import { motion } from "framer-motion";
 import { ChevronRight, Package } from "lucide-react";
-import { OrderSummary } from "@/lib/api/my-orders";
+import { OrderSummary } from "@/lib/types/order";
 import { OrderStatusBadge } from "./OrderStatusBadge";
 import { useTranslation } from "react-i18next";
 
@@ -4,9 +4,12 @@ import Image from "next/image";
 import Link from "next/link";
 import { Package } from "lucide-react";
 
-import { OrderItem } from "@/lib/api/my-orders";
+import { OrderItem } from "@/lib/types/order";
 import { slugify } from "@/lib/utils";
-import { formatVND } from "@/lib/utils/order-formatters";
+import {
+  formatVND,
+  formatVariantAttributes,
+} from "@/lib/utils/order-formatters";
 
 interface OrderItemCardProps {
   item: OrderItem;
@@ -32,6 +35,8 @@ export function OrderItemCard({
   showVariant = true,
   showBreakdown = true,
 }: OrderItemCardProps) {
+  const variantLabel = formatVariantAttributes(item.variantAttributes);
+
   return (
     <div className="flex gap-5 py-5 first:pt-0 last:pb-0">
       {/* Product Image */}
@@ -59,20 +64,7 @@ export function OrderItemCard({
           {item.productName}
         </Link>
         <div className="text-xs text-muted-foreground/60 space-y-0.5 tracking-wide">
-          {showVariant &&
-            (item.variantAttributes?.size || item.variantAttributes?.color) && (
-              <p>
-                {item.variantAttributes.size && (
-                  <span>Size: {item.variantAttributes.size}</span>
-                )}
-                {item.variantAttributes.size &&
-                  item.variantAttributes.color &&
-                  " · "}
-                {item.variantAttributes.color && (
-                  <span>Color: {item.variantAttributes.color}</span>
-                )}
-              </p>
-            )}
+          {showVariant && variantLabel && <p>{variantLabel}</p>}
           {showBreakdown && (
             <p>
               {item.quantity} × {formatVND(item.sellingPrice)}
@@ -2,7 +2,7 @@
 
 import { Check } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { OrderStatus } from "@/lib/api/my-orders";
+import { OrderStatus } from "@/lib/types/order";
 import { useTranslation } from "react-i18next";
 
 interface OrderProgressStepperProps {
@@ -3,7 +3,7 @@
 import { useTranslation } from "react-i18next";
 import { MapPin, Phone, User, Mail } from "lucide-react";
 
-import { OrderShippingAddress } from "@/lib/api/my-orders";
+import { OrderShippingAddress } from "@/lib/types/order";
 
 interface OrderShippingInfoProps {
   address: OrderShippingAddress;
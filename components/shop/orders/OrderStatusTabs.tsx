@@ -1,7 +1,7 @@
 "use client";
 
 import { cn } from "@/lib/utils";
-import { OrderStatus } from "@/lib/api/my-orders";
+import { OrderStatus } from "@/lib/types/order";
 import { useTranslation } from "react-i18next";
 
 interface OrderStatusTabsProps {
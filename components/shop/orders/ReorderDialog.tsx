@@ -0,0 +1,134 @@
+"use client";
+
+import { useTranslation } from "react-i18next";
+import { AlertTriangle, Loader2, RefreshCcw } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+import type { ReorderLine, ReorderPlan } from "@/hooks/shop/useReorder";
+import { formatVariantAttributes } from "@/lib/utils/order-formatters";
+
+interface ReorderDialogProps {
+  plan: ReorderPlan | null;
+  isAdding?: boolean;
+  onConfirm: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Explains which items of a past order cannot be re-added in full
+ * and lets the shopper continue with the available ones
+ */
+export function ReorderDialog({
+  plan,
+  isAdding = false,
+  onConfirm,
+  onClose,
+}: ReorderDialogProps) {
+  const { t } = useTranslation();
+  const addableCount = plan?.addable.length ?? 0;
+
+  const describeIssue = (line: ReorderLine) => {
+    switch (line.issue) {
+      case "INACTIVE":
+        return t("orders.reorderDialog.inactive");
+      case "OUT_OF_STOCK":
+        return t("orders.reorderDialog.outOfStock");
+      case "CAPPED":
+        return t("orders.reorderDialog.capped", {
+          available: line.quantity,
+          requested: line.item.quantity,
+        });
+      default:
+        return "";
+    }
+  };
+
+  return (
+    <Dialog open={!!plan} onOpenChange={(open) => !open && !isAdding && onClose()}>
+      <DialogContent className="sm:max-w-md border-black/10 dark:border-white/10">
+        <DialogHeader>
+          <div className="flex items-center gap-3 mb-2">
+            <div className="p-2 rounded-full bg-amber-100 dark:bg-amber-900/30">
+              <AlertTriangle className="w-5 h-5 text-amber-600 dark:text-amber-400 stroke-[1.5]" />
+            </div>
+            <DialogTitle
+              className="font-light tracking-wide text-lg"
+              style={{ fontFamily: "var(--font-serif), Georgia, serif" }}
+            >
+              {addableCount > 0
+                ? t("orders.reorderDialog.title")
+                : t("orders.reorderDialog.nothingTitle")}
+            </DialogTitle>
+          </div>
+          <DialogDescription className="text-muted-foreground/70 text-sm">
+            {addableCount > 0
+              ? t("orders.reorderDialog.description")
+              : t("orders.reorderDialog.nothingDescription")}
+          </DialogDescription>
+        </DialogHeader>
+
+        <ul className="divide-y divide-black/5 dark:divide-white/10 py-2 max-h-72 overflow-y-auto">
+          {plan?.issues.map((line) => (
+            <li key={line.item.id} className="py-3 space-y-1">
+              <p className="text-sm text-foreground tracking-wide line-clamp-1">
+                {line.item.productName}
+              </p>
+              {Object.keys(line.item.variantAttributes).length > 0 && (
+                <p className="text-xs text-muted-foreground/60 tracking-wide">
+                  {formatVariantAttributes(line.item.variantAttributes)}
+                </p>
+              )}
+              <p
+                className={
+                  line.issue === "CAPPED"
+                    ? "text-xs text-amber-600 dark:text-amber-400"
+                    : "text-xs text-destructive/80"
+                }
+              >
+                {describeIssue(line)}
+              </p>
+            </li>
+          ))}
+        </ul>
+
+        <DialogFooter className="flex-col sm:flex-row gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onClose}
+            disabled={isAdding}
+            className="w-full sm:w-auto text-xs tracking-[0.1em] uppercase border-black/10 dark:border-white/10 hover:border-black/30 dark:hover:border-white/30 hover:bg-transparent"
+          >
+            {addableCount > 0
+              ? t("common.cancel", { defaultValue: "Cancel" })
+              : t("common.close", { defaultValue: "Close" })}
+          </Button>
+          {addableCount > 0 && (
+            <Button
+              type="button"
+              onClick={onConfirm}
+              disabled={isAdding}
+              className="w-full sm:w-auto text-xs tracking-[0.1em] uppercase bg-foreground text-background hover:bg-foreground/90 transition-all duration-300"
+            >
+              {isAdding ? (
+                <Loader2 className="w-3.5 h-3.5 mr-2 animate-spin" />
+              ) : (
+                <RefreshCcw className="w-3.5 h-3.5 mr-2 stroke-[1.5]" />
+              )}
+              {t("orders.reorderDialog.confirm", { count: addableCount })}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
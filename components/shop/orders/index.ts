@@ -15,3 +15,5 @@ export { OrderShippingInfo } from "./OrderShippingInfo";
 export { OrderPaymentInfo } from "./OrderPaymentInfo";
 export { OrderSummaryCard } from "./OrderSummaryCard";
 export { OrderActions } from "./OrderActions";
+export { ReorderDialog } from "./ReorderDialog";
+export { BankTransferPanel } from "./BankTransferPanel";
@@ -0,0 +1,292 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { useTranslation } from "react-i18next";
+import {
+  Camera,
+  ChevronLeft,
+  ChevronRight,
+  Loader2,
+  PenLine,
+  Star,
+} from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+import { ReviewCard } from "./ReviewCard";
+import { ReviewFormDialog } from "./ReviewFormDialog";
+import { ReviewSummaryCard } from "./ReviewSummaryCard";
+import {
+  useProductReviews,
+  useReviewEligibility,
+  useReviewSummary,
+  useSubmitReview,
+} from "@/hooks/shop/useProductReviews";
+import {
+  REVIEW_SORTS,
+  type ReviewSearchParams,
+  type ReviewSort,
+} from "@/lib/types/review";
+import { cn } from "@/lib/utils";
+
+const PAGE_SIZE = 5;
+
+const DEFAULT_PARAMS: ReviewSearchParams = {
+  page: 0,
+  size: PAGE_SIZE,
+  sort: "newest",
+};
+
+interface ProductReviewsProps {
+  productId: string;
+}
+
+/**
+ * Reviews section of the product page
+ * Rating summary, sort/filter toolbar, paginated review list and the
+ * "write a review" entry point for shoppers with a completed purchase
+ */
+export function ProductReviews({ productId }: ProductReviewsProps) {
+  const { t } = useTranslation();
+  const pathname = usePathname();
+
+  const [params, setParams] = useState<ReviewSearchParams>(DEFAULT_PARAMS);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [viewer, setViewer] = useState<{ images: string[]; index: number } | null>(null);
+
+  const { data: summary } = useReviewSummary(productId);
+  const { data: result, isLoading, isFetching } = useProductReviews(productId, params);
+  const { isAuthenticated, purchases, canReview } = useReviewEligibility(productId);
+  const { submitReview, isSubmitting } = useSubmitReview(productId);
+
+  const reviews = result?.data || [];
+  const currentPage = params.page || 0;
+  const totalPages = result?.meta?.totalPages || 0;
+  const hasFilters = params.rating !== undefined || !!params.withPhotos;
+
+  const updateParams = (patch: Partial<ReviewSearchParams>) => {
+    setParams((prev) => ({ ...prev, ...patch, page: 0 }));
+  };
+
+  const showPhoto = (offset: number) => {
+    setViewer((prev) =>
+      prev && {
+        ...prev,
+        index: (prev.index + offset + prev.images.length) % prev.images.length,
+      },
+    );
+  };
+
+  const renderWriteAction = () => {
+    if (!isAuthenticated) {
+      return (
+        <Link
+          href={`/auth?redirect=${encodeURIComponent(pathname)}`}
+          className="text-sm text-zinc-500 underline underline-offset-4 hover:text-[#D4AF37]"
+        >
+          {t("reviews.signInToReview")}
+        </Link>
+      );
+    }
+
+    if (!canReview) {
+      return <p className="text-sm text-zinc-500">{t("reviews.purchaseRequired")}</p>;
+    }
+
+    return (
+      <Button onClick={() => setIsFormOpen(true)} className="gap-2">
+        <PenLine className="h-4 w-4" />
+        {t("reviews.write")}
+      </Button>
+    );
+  };
+
+  return (
+    <section id="reviews">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+        <h2 className="text-xl font-light text-zinc-900 dark:text-zinc-100 uppercase tracking-widest">
+          {t("product.reviews")}
+          {summary && summary.totalReviews > 0 && (
+            <span className="ml-2 text-zinc-400">({summary.totalReviews})</span>
+          )}
+        </h2>
+        {renderWriteAction()}
+      </div>
+
+      {!summary || summary.totalReviews === 0 ? (
+        <div className="bg-zinc-50 dark:bg-zinc-900 p-8 rounded-lg text-center">
+          <Star className="h-12 w-12 text-zinc-300 mx-auto mb-4" />
+          <p className="text-zinc-500">{t("product.noReviewsYet")}</p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <ReviewSummaryCard
+            summary={summary}
+            selectedRating={params.rating}
+            onSelectRating={(rating) => updateParams({ rating })}
+          />
+
+          {/* Toolbar */}
+          <div className="flex flex-wrap items-center gap-3">
+            <Select
+              value={params.sort}
+              onValueChange={(sort) => updateParams({ sort: sort as ReviewSort })}
+            >
+              <SelectTrigger className="w-[180px] h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {REVIEW_SORTS.map((sort) => (
+                  <SelectItem key={sort} value={sort}>
+                    {t(`reviews.sort.${sort}`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <button
+              type="button"
+              onClick={() => updateParams({ withPhotos: !params.withPhotos })}
+              aria-pressed={!!params.withPhotos}
+              disabled={summary.withPhotosCount === 0}
+              className={cn(
+                "inline-flex items-center gap-2 h-9 px-3 rounded-md border text-sm transition-colors disabled:opacity-50",
+                params.withPhotos
+                  ? "border-[#D4AF37] bg-[#D4AF37]/10 text-zinc-900 dark:text-zinc-100"
+                  : "border-zinc-200 dark:border-zinc-800 text-zinc-600 dark:text-zinc-400 hover:border-zinc-400",
+              )}
+            >
+              <Camera className="h-4 w-4" />
+              {t("reviews.withPhotos", { count: summary.withPhotosCount })}
+            </button>
+
+            {hasFilters && (
+              <button
+                type="button"
+                onClick={() => updateParams({ rating: undefined, withPhotos: undefined })}
+                className="text-sm text-zinc-500 underline underline-offset-4 hover:text-zinc-900 dark:hover:text-zinc-100"
+              >
+                {t("reviews.clearFilters")}
+              </button>
+            )}
+
+            {isFetching && !isLoading && (
+              <Loader2 className="h-4 w-4 animate-spin text-zinc-400" />
+            )}
+          </div>
+
+          {/* List */}
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-[#D4AF37]" />
+            </div>
+          ) : reviews.length === 0 ? (
+            <p className="py-12 text-center text-sm text-zinc-500">
+              {t("reviews.noMatches")}
+            </p>
+          ) : (
+            <div>
+              {reviews.map((review) => (
+                <ReviewCard
+                  key={review.id}
+                  review={review}
+                  onOpenPhoto={(images, index) => setViewer({ images, index })}
+                />
+              ))}
+            </div>
+          )}
+
+          {/* Pagination */}
+          {totalPages > 1 && (
+            <div className="flex items-center justify-center gap-4">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setParams((prev) => ({ ...prev, page: currentPage - 1 }))}
+                disabled={currentPage <= 0 || isFetching}
+              >
+                <ChevronLeft className="h-4 w-4 mr-1" />
+                {t("common.previous")}
+              </Button>
+              <span className="text-sm text-zinc-500 tabular-nums">
+                {t("common.pagination.page", {
+                  current: currentPage + 1,
+                  total: totalPages,
+                })}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setParams((prev) => ({ ...prev, page: currentPage + 1 }))}
+                disabled={currentPage + 1 >= totalPages || isFetching}
+              >
+                {t("common.next")}
+                <ChevronRight className="h-4 w-4 ml-1" />
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      <ReviewFormDialog
+        open={isFormOpen}
+        onOpenChange={setIsFormOpen}
+        purchases={purchases}
+        isSubmitting={isSubmitting}
+        onSubmit={submitReview}
+      />
+
+      {/* Photo viewer */}
+      <Dialog open={!!viewer} onOpenChange={(open) => !open && setViewer(null)}>
+        <DialogContent className="sm:max-w-3xl p-0 overflow-hidden bg-black border-none">
+          <DialogTitle className="sr-only">{t("reviews.photoViewer")}</DialogTitle>
+          {viewer && (
+            <div className="relative aspect-square w-full">
+              <Image
+                src={viewer.images[viewer.index]}
+                alt=""
+                fill
+                sizes="(max-width: 768px) 100vw, 768px"
+                className="object-contain"
+              />
+              {viewer.images.length > 1 && (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => showPhoto(-1)}
+                    aria-label={t("common.previous")}
+                    className="absolute left-3 top-1/2 -translate-y-1/2 p-2 rounded-full bg-white/10 text-white hover:bg-white/20"
+                  >
+                    <ChevronLeft className="h-5 w-5" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => showPhoto(1)}
+                    aria-label={t("common.next")}
+                    className="absolute right-3 top-1/2 -translate-y-1/2 p-2 rounded-full bg-white/10 text-white hover:bg-white/20"
+                  >
+                    <ChevronRight className="h-5 w-5" />
+                  </button>
+                  <span className="absolute bottom-3 left-1/2 -translate-x-1/2 text-xs text-white/80 tabular-nums">
+                    {viewer.index + 1} / {viewer.images.length}
+                  </span>
+                </>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </section>
+  );
+}
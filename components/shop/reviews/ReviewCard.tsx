@@ -0,0 +1,91 @@
+"use client";
+
+import Image from "next/image";
+import { useTranslation } from "react-i18next";
+import { BadgeCheck } from "lucide-react";
+
+import { StarRating } from "./StarRating";
+import { formatDateShort, formatVariantAttributes } from "@/lib/utils/order-formatters";
+import type { ProductReview } from "@/lib/types/review";
+
+interface ReviewCardProps {
+  review: ProductReview;
+  onOpenPhoto: (images: string[], index: number) => void;
+}
+
+/**
+ * A single approved review with its photos
+ */
+export function ReviewCard({ review, onOpenPhoto }: ReviewCardProps) {
+  const { t } = useTranslation();
+  const variantLabel = formatVariantAttributes(review.variantAttributes);
+
+  return (
+    <article className="py-6 border-b border-zinc-200 dark:border-zinc-800 last:border-b-0">
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex items-center gap-3 min-w-0">
+          <div className="relative h-9 w-9 shrink-0 rounded-full overflow-hidden bg-zinc-200 dark:bg-zinc-800 flex items-center justify-center">
+            {review.authorAvatarUrl ? (
+              <Image
+                src={review.authorAvatarUrl}
+                alt={review.authorName}
+                fill
+                className="object-cover"
+              />
+            ) : (
+              <span className="text-sm font-medium text-zinc-600 dark:text-zinc-300">
+                {review.authorName.charAt(0).toUpperCase()}
+              </span>
+            )}
+          </div>
+          <div className="min-w-0">
+            <p className="text-sm font-medium text-zinc-900 dark:text-zinc-100 truncate">
+              {review.authorName}
+            </p>
+            {review.verifiedPurchase && (
+              <p className="flex items-center gap-1 text-xs text-emerald-600 dark:text-emerald-400">
+                <BadgeCheck className="h-3.5 w-3.5" />
+                {t("reviews.verifiedPurchase")}
+              </p>
+            )}
+          </div>
+        </div>
+        <time className="text-xs text-zinc-400 shrink-0" dateTime={review.createdAt}>
+          {formatDateShort(review.createdAt)}
+        </time>
+      </div>
+
+      <div className="mt-3 flex flex-wrap items-center gap-x-3 gap-y-1">
+        <StarRating value={review.rating} size="sm" />
+        {variantLabel && (
+          <span className="text-xs text-zinc-500">{variantLabel}</span>
+        )}
+      </div>
+
+      {review.title && (
+        <h3 className="mt-3 text-sm font-semibold text-zinc-900 dark:text-zinc-100">
+          {review.title}
+        </h3>
+      )}
+      <p className="mt-2 text-sm text-zinc-600 dark:text-zinc-400 leading-relaxed whitespace-pre-wrap">
+        {review.content}
+      </p>
+
+      {review.images.length > 0 && (
+        <div className="mt-4 flex flex-wrap gap-2">
+          {review.images.map((image, index) => (
+            <button
+              key={image}
+              type="button"
+              onClick={() => onOpenPhoto(review.images, index)}
+              aria-label={t("reviews.viewPhoto", { index: index + 1 })}
+              className="relative h-20 w-20 rounded-md overflow-hidden bg-zinc-100 dark:bg-zinc-800 hover:opacity-80 transition-opacity"
+            >
+              <Image src={image} alt="" fill sizes="80px" className="object-cover" />
+            </button>
+          ))}
+        </div>
+      )}
+    </article>
+  );
+}
@@ -0,0 +1,320 @@
+"use client";
+
+import { useState, useRef } from "react";
+import Image from "next/image";
+import { useTranslation } from "react-i18next";
+import { toast } from "sonner";
+import { ImagePlus, Loader2, X } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+import { StarRating } from "./StarRating";
+import { uploadFile } from "@/lib/api/profile";
+import { MAX_REVIEW_IMAGES } from "@/lib/types/review";
+import { formatVariantAttributes } from "@/lib/utils/order-formatters";
+import type { CreateReviewRequest, ReviewablePurchase } from "@/lib/types/review";
+
+const MIN_CONTENT_LENGTH = 10;
+const MAX_CONTENT_LENGTH = 2000;
+const MAX_TITLE_LENGTH = 120;
+const MAX_IMAGE_SIZE = 5 * 1024 * 1024; // 5MB
+
+interface ReviewFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  purchases: ReviewablePurchase[];
+  isSubmitting: boolean;
+  onSubmit: (request: Omit<CreateReviewRequest, "productId">) => Promise<boolean>;
+}
+
+interface PendingPhoto {
+  file: File;
+  previewUrl: string;
+}
+
+/**
+ * Review form for a purchased variant
+ * Photos are uploaded when the review is submitted
+ */
+export function ReviewFormDialog({
+  open,
+  onOpenChange,
+  purchases,
+  isSubmitting,
+  onSubmit,
+}: ReviewFormDialogProps) {
+  const { t } = useTranslation();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [purchaseKey, setPurchaseKey] = useState("");
+  const [rating, setRating] = useState(0);
+  const [title, setTitle] = useState("");
+  const [content, setContent] = useState("");
+  const [photos, setPhotos] = useState<PendingPhoto[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const toKey = (purchase: ReviewablePurchase) =>
+    `${purchase.orderCode}:${purchase.variantId}`;
+  const selectedPurchase =
+    purchases.find((purchase) => toKey(purchase) === purchaseKey) ?? purchases[0];
+  const isBusy = isSubmitting || isUploading;
+
+  const resetForm = () => {
+    setPurchaseKey("");
+    setRating(0);
+    setTitle("");
+    setContent("");
+    photos.forEach((photo) => URL.revokeObjectURL(photo.previewUrl));
+    setPhotos([]);
+    setErrors({});
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (isBusy) return;
+    if (!nextOpen) resetForm();
+    onOpenChange(nextOpen);
+  };
+
+  const handleAddPhotos = (files: FileList | null) => {
+    if (!files) return;
+
+    const accepted: PendingPhoto[] = [];
+    for (const file of Array.from(files)) {
+      if (photos.length + accepted.length >= MAX_REVIEW_IMAGES) {
+        toast.error(t("reviews.form.tooManyPhotos", { max: MAX_REVIEW_IMAGES }));
+        break;
+      }
+      if (!file.type.startsWith("image/")) {
+        toast.error(t("reviews.form.invalidPhoto", { name: file.name }));
+        continue;
+      }
+      if (file.size > MAX_IMAGE_SIZE) {
+        toast.error(t("reviews.form.photoTooLarge", { name: file.name }));
+        continue;
+      }
+      accepted.push({ file, previewUrl: URL.createObjectURL(file) });
+    }
+
+    setPhotos((prev) => [...prev, ...accepted]);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const handleRemovePhoto = (index: number) => {
+    URL.revokeObjectURL(photos[index].previewUrl);
+    setPhotos((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const validate = () => {
+    const nextErrors: Record<string, string> = {};
+    const trimmedContent = content.trim();
+
+    if (rating < 1) nextErrors.rating = t("reviews.form.ratingRequired");
+    if (trimmedContent.length < MIN_CONTENT_LENGTH) {
+      nextErrors.content = t("reviews.form.contentTooShort", { min: MIN_CONTENT_LENGTH });
+    }
+
+    setErrors(nextErrors);
+    return Object.keys(nextErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedPurchase || !validate()) return;
+
+    // Upload photos first; the review only stores their URLs
+    let images: string[] = [];
+    if (photos.length > 0) {
+      setIsUploading(true);
+      const uploads = await Promise.all(photos.map((photo) => uploadFile(photo.file)));
+      setIsUploading(false);
+
+      if (uploads.some((upload) => upload.error || !upload.data)) {
+        toast.error(t("reviews.form.uploadFailed"));
+        return;
+      }
+      images = uploads.map((upload) => upload.data as string);
+    }
+
+    const submitted = await onSubmit({
+      orderCode: selectedPurchase.orderCode,
+      variantId: selectedPurchase.variantId,
+      rating,
+      title: title.trim() || undefined,
+      content: content.trim(),
+      images,
+    });
+
+    if (submitted) {
+      resetForm();
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-lg border-black/10 dark:border-white/10">
+        <form onSubmit={handleSubmit} className="space-y-5">
+          <DialogHeader>
+            <DialogTitle>{t("reviews.form.title")}</DialogTitle>
+            <DialogDescription>{t("reviews.form.description")}</DialogDescription>
+          </DialogHeader>
+
+          {/* Purchased variant */}
+          {purchases.length > 1 && (
+            <div className="space-y-2">
+              <label className="text-sm font-medium">{t("reviews.form.purchase")}</label>
+              <Select
+                value={selectedPurchase ? toKey(selectedPurchase) : ""}
+                onValueChange={setPurchaseKey}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {purchases.map((purchase) => (
+                    <SelectItem key={toKey(purchase)} value={toKey(purchase)}>
+                      {formatVariantAttributes(purchase.variantAttributes) ||
+                        t("reviews.form.defaultVariant")}{" "}
+                      · {purchase.orderCode}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {/* Rating */}
+          <div className="space-y-2">
+            <label className="text-sm font-medium">{t("reviews.form.rating")}</label>
+            <StarRating
+              value={rating}
+              size="lg"
+              onChange={setRating}
+              getLabel={(value) => t("reviews.stars", { count: value })}
+            />
+            {errors.rating && <p className="text-xs text-red-500">{errors.rating}</p>}
+          </div>
+
+          {/* Title */}
+          <div className="space-y-2">
+            <label htmlFor="review-title" className="text-sm font-medium">
+              {t("reviews.form.headline")}
+            </label>
+            <Input
+              id="review-title"
+              value={title}
+              maxLength={MAX_TITLE_LENGTH}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder={t("reviews.form.headlinePlaceholder")}
+            />
+          </div>
+
+          {/* Content */}
+          <div className="space-y-2">
+            <label htmlFor="review-content" className="text-sm font-medium">
+              {t("reviews.form.content")}
+            </label>
+            <Textarea
+              id="review-content"
+              value={content}
+              rows={5}
+              maxLength={MAX_CONTENT_LENGTH}
+              onChange={(e) => setContent(e.target.value)}
+              placeholder={t("reviews.form.contentPlaceholder")}
+            />
+            <div className="flex justify-between text-xs">
+              <span className="text-red-500">{errors.content}</span>
+              <span className="text-zinc-400 tabular-nums">
+                {content.length}/{MAX_CONTENT_LENGTH}
+              </span>
+            </div>
+          </div>
+
+          {/* Photos */}
+          <div className="space-y-2">
+            <label className="text-sm font-medium">
+              {t("reviews.form.photos", { max: MAX_REVIEW_IMAGES })}
+            </label>
+            <div className="flex flex-wrap gap-2">
+              {photos.map((photo, index) => (
+                <div
+                  key={photo.previewUrl}
+                  className="relative h-20 w-20 rounded-md overflow-hidden bg-zinc-100 dark:bg-zinc-800"
+                >
+                  <Image
+                    src={photo.previewUrl}
+                    alt=""
+                    fill
+                    unoptimized
+                    className="object-cover"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => handleRemovePhoto(index)}
+                    disabled={isBusy}
+                    aria-label={t("reviews.form.removePhoto")}
+                    className="absolute top-1 right-1 p-0.5 rounded-full bg-black/60 text-white"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              ))}
+              {photos.length < MAX_REVIEW_IMAGES && (
+                <button
+                  type="button"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={isBusy}
+                  className="h-20 w-20 rounded-md border-2 border-dashed border-zinc-300 dark:border-zinc-700 flex items-center justify-center text-zinc-400 hover:text-[#D4AF37] hover:border-[#D4AF37] transition-colors"
+                  aria-label={t("reviews.form.addPhoto")}
+                >
+                  <ImagePlus className="h-6 w-6" />
+                </button>
+              )}
+            </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              multiple
+              hidden
+              onChange={(e) => handleAddPhotos(e.target.files)}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => handleOpenChange(false)}
+              disabled={isBusy}
+            >
+              {t("common.cancel")}
+            </Button>
+            <Button type="submit" disabled={isBusy}>
+              {isBusy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {isUploading ? t("reviews.form.uploading") : t("reviews.form.submit")}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
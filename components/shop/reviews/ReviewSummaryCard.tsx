@@ -0,0 +1,87 @@
+"use client";
+
+import { useTranslation } from "react-i18next";
+import { Star } from "lucide-react";
+
+import { StarRating } from "./StarRating";
+import { cn } from "@/lib/utils";
+import {
+  REVIEW_RATINGS,
+  getRatingPercentage,
+  type ReviewSummary,
+} from "@/lib/types/review";
+
+interface ReviewSummaryCardProps {
+  summary: ReviewSummary;
+  /** Currently filtered star rating */
+  selectedRating?: number;
+  onSelectRating: (rating: number | undefined) => void;
+}
+
+/**
+ * Average rating with a clickable star histogram
+ * Clicking a bar filters the review list to that rating (click again to clear)
+ */
+export function ReviewSummaryCard({
+  summary,
+  selectedRating,
+  onSelectRating,
+}: ReviewSummaryCardProps) {
+  const { t } = useTranslation();
+
+  return (
+    <div className="flex flex-col sm:flex-row gap-8 p-6 bg-zinc-50 dark:bg-zinc-900 rounded-lg">
+      {/* Average */}
+      <div className="flex flex-col items-center justify-center sm:w-48 shrink-0">
+        <span className="text-5xl font-light text-zinc-900 dark:text-zinc-100 tabular-nums">
+          {summary.averageRating.toFixed(1)}
+        </span>
+        <StarRating value={summary.averageRating} className="mt-2" />
+        <span className="mt-2 text-sm text-zinc-500">
+          {t("reviews.count", { count: summary.totalReviews })}
+        </span>
+      </div>
+
+      {/* Histogram */}
+      <div className="flex-1 space-y-2">
+        {REVIEW_RATINGS.map((rating) => {
+          const count = summary.ratingCounts[rating] ?? 0;
+          const percentage = getRatingPercentage(summary, rating);
+          const isSelected = selectedRating === rating;
+
+          return (
+            <button
+              key={rating}
+              type="button"
+              disabled={count === 0}
+              onClick={() => onSelectRating(isSelected ? undefined : rating)}
+              aria-pressed={isSelected}
+              aria-label={t("reviews.filterByRating", { count: rating })}
+              className={cn(
+                "w-full flex items-center gap-3 px-2 py-1 rounded-md text-sm transition-colors",
+                "disabled:cursor-default disabled:opacity-50",
+                isSelected
+                  ? "bg-[#D4AF37]/10"
+                  : "enabled:hover:bg-zinc-100 dark:enabled:hover:bg-zinc-800",
+              )}
+            >
+              <span className="flex items-center gap-1 w-8 shrink-0 text-zinc-600 dark:text-zinc-400 tabular-nums">
+                {rating}
+                <Star className="h-3 w-3 fill-[#D4AF37] text-[#D4AF37]" />
+              </span>
+              <span className="flex-1 h-2 rounded-full bg-zinc-200 dark:bg-zinc-700 overflow-hidden">
+                <span
+                  className="block h-full rounded-full bg-[#D4AF37] transition-all"
+                  style={{ width: `${percentage}%` }}
+                />
+              </span>
+              <span className="w-10 shrink-0 text-right text-zinc-500 tabular-nums">
+                {count}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+"use client";
+
+import { useState } from "react";
+import { Star } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface StarRatingProps {
+  /** 0-5, fractional values are rounded to the nearest half star */
+  value: number;
+  size?: "sm" | "md" | "lg";
+  /** Makes the stars clickable */
+  onChange?: (value: number) => void;
+  /** Accessible label for each star button, e.g. "3 stars" */
+  getLabel?: (value: number) => string;
+  className?: string;
+}
+
+const SIZE_CLASSES = {
+  sm: "h-3.5 w-3.5",
+  md: "h-4 w-4",
+  lg: "h-7 w-7",
+};
+
+/**
+ * Five-star rating display, or a star picker when `onChange` is given
+ */
+export function StarRating({
+  value,
+  size = "md",
+  onChange,
+  getLabel,
+  className,
+}: StarRatingProps) {
+  const [hovered, setHovered] = useState<number | null>(null);
+  const displayed = hovered ?? Math.round(value * 2) / 2;
+
+  return (
+    <div
+      className={cn("flex items-center gap-0.5", className)}
+      onMouseLeave={() => setHovered(null)}
+    >
+      {[1, 2, 3, 4, 5].map((star) => {
+        const isFull = star <= displayed;
+        const isHalf = !isFull && star - 0.5 === displayed;
+        const icon = (
+          <span className="relative inline-flex">
+            <Star className={cn(SIZE_CLASSES[size], "text-zinc-300 dark:text-zinc-600")} />
+            {(isFull || isHalf) && (
+              <span
+                className="absolute inset-0 overflow-hidden"
+                style={{ width: isHalf ? "50%" : "100%" }}
+              >
+                <Star className={cn(SIZE_CLASSES[size], "fill-[#D4AF37] text-[#D4AF37]")} />
+              </span>
+            )}
+          </span>
+        );
+
+        if (!onChange) {
+          return <span key={star}>{icon}</span>;
+        }
+
+        return (
+          <button
+            key={star}
+            type="button"
+            onClick={() => onChange(star)}
+            onMouseEnter={() => setHovered(star)}
+            aria-label={getLabel?.(star) ?? String(star)}
+            aria-pressed={value === star}
+            className="p-0.5 transition-transform hover:scale-110"
+          >
+            {icon}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
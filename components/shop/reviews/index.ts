@@ -0,0 +1,5 @@
+export { StarRating } from "./StarRating";
+export { ReviewSummaryCard } from "./ReviewSummaryCard";
+export { ReviewCard } from "./ReviewCard";
+export { ReviewFormDialog } from "./ReviewFormDialog";
+export { ProductReviews } from "./ProductReviews";
@@ -29,7 +29,6 @@ import { useAppSelector, useAppDispatch } from "@/lib/store/hooks";
 import Link from "next/link";
 import { logoutAction } from "@/app/actions/auth";
 import { clearAuth } from "@/lib/store/authSlice";
-import { useCartStore } from "@/lib/store/cartStore";
 import { useRouter } from "next/navigation";
 import { usePermission } from "@/lib/hooks/usePermission";
 
@@ -73,9 +72,6 @@ export function SettingsButton() {
   };
 
   const handleLogout = async () => {
-    const cartStore = useCartStore.getState();
-    cartStore.clearCart();
-    cartStore.setAuthenticated(false);
     clearCartData();
     dispatch(clearAuth());
     await logoutAction();
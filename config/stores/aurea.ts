@@ -1,12 +0,0 @@
-﻿import { StoreConfig } from '@/lib/context/StoreContext';
-
-export const aureaStore: StoreConfig = {
-  slug: 'aurea',
-  name: 'AUREA',
-  description: 'Timeless Elegance & Luxury Fashion',
-  theme: {
-    primaryColor: '#D4AF37', // Gold
-  },
-};
-
-
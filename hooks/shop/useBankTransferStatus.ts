@@ -0,0 +1,86 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { orderApi } from "@/lib/api/order";
+import { PaymentInfo } from "@/lib/types/order";
+import {
+  getSecondsUntilExpiry,
+  isAwaitingBankTransfer,
+} from "@/lib/utils/bank-transfer";
+
+const POLL_INTERVAL_MS = 5000;
+
+/**
+ * Hook that tracks a bank transfer while the shopper is paying
+ * Counts down to expiredAt and polls the order until the payment
+ * is PAID, FAILED or the transfer window expires
+ *
+ * @param orderCode - Order to poll
+ * @param initialPaymentInfo - Payment info from order creation / detail
+ */
+export function useBankTransferStatus(
+  orderCode: string | undefined,
+  initialPaymentInfo: PaymentInfo | null | undefined,
+) {
+  // Updates (polling, regenerate, switch method) apply to the payment info they were based on
+  const [update, setUpdate] = useState<{
+    base: PaymentInfo | null | undefined;
+    paymentInfo: PaymentInfo;
+  } | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  const paymentInfo =
+    update && update.base === initialPaymentInfo
+      ? update.paymentInfo
+      : (initialPaymentInfo ?? null);
+
+  const secondsLeft = getSecondsUntilExpiry(paymentInfo?.expiredAt, now);
+  const isAwaiting = isAwaitingBankTransfer(paymentInfo);
+  const isExpired = isAwaiting && secondsLeft === 0;
+
+  const updatePaymentInfo = useCallback(
+    (next: PaymentInfo) => {
+      setUpdate({ base: initialPaymentInfo, paymentInfo: next });
+    },
+    [initialPaymentInfo],
+  );
+
+  // Countdown
+  useEffect(() => {
+    if (!isAwaiting || !paymentInfo?.expiredAt) return;
+
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isAwaiting, paymentInfo?.expiredAt]);
+
+  // Status polling
+  useEffect(() => {
+    if (!orderCode || !isAwaiting || isExpired) return;
+
+    const poll = async () => {
+      // Don't poll from background tabs
+      if (document.hidden) return;
+
+      try {
+        const result = await orderApi.getMyOrderDetail(orderCode);
+
+        if (result.data?.paymentInfo) {
+          updatePaymentInfo(result.data.paymentInfo);
+        }
+      } catch (error) {
+        console.error("Failed to poll payment status:", error);
+      }
+    };
+
+    const timer = setInterval(poll, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [orderCode, isAwaiting, isExpired, updatePaymentInfo]);
+
+  return {
+    paymentInfo,
+    secondsLeft,
+    isAwaiting,
+    isExpired,
+    updatePaymentInfo,
+  };
+}
@@ -0,0 +1,48 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { useDebounce } from "@/hooks/useDebounce";
+import type { SearchSuggestions } from "@/app/api/bff/search/route";
+import { foldSearchText } from "@/lib/utils/search";
+
+/** Shortest (folded) query that triggers suggestions */
+export const INSTANT_SEARCH_MIN_LENGTH = 2;
+
+const INSTANT_SEARCH_DEBOUNCE_MS = 250;
+
+/**
+ * Typeahead suggestions for the storefront search overlay
+ *
+ * Debounces the query and fetches product + category hits from the BFF
+ * (/api/bff/search). Queries that fold to the same text share a cache entry,
+ * so "áo" and "ao" are fetched once.
+ */
+export function useInstantSearch(query: string) {
+  const debouncedQuery = useDebounce(query.trim(), INSTANT_SEARCH_DEBOUNCE_MS);
+  const foldedQuery = foldSearchText(debouncedQuery);
+  const enabled = foldedQuery.length >= INSTANT_SEARCH_MIN_LENGTH;
+
+  const { data, isFetching, isError } = useQuery<SearchSuggestions>({
+    queryKey: ["shop", "instant-search", foldedQuery],
+    queryFn: async ({ signal }) => {
+      const response = await fetch(
+        `/api/bff/search?q=${encodeURIComponent(debouncedQuery)}`,
+        { signal }
+      );
+      if (!response.ok) {
+        throw new Error("Failed to fetch search suggestions");
+      }
+      return response.json();
+    },
+    enabled,
+    placeholderData: (previousData) => previousData,
+    staleTime: 30 * 1000,
+  });
+
+  return {
+    suggestions: enabled ? data ?? null : null,
+    // True while typing too, so the overlay doesn't flash "no results"
+    isSearching: enabled && (isFetching || debouncedQuery !== query.trim()),
+    isError: enabled && isError,
+  };
+}
@@ -0,0 +1,30 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import type { MegaMenuData } from "@/app/api/bff/menu/route";
+
+/**
+ * Navbar menu built from the category tree (/api/bff/menu)
+ *
+ * The BFF caches it under the "categories" tag; client-side it is kept for as
+ * long as the server copy, so navigating between pages doesn't refetch it.
+ */
+export function useMegaMenu() {
+  const { data, isLoading } = useQuery<MegaMenuData>({
+    queryKey: ["shop", "mega-menu"],
+    queryFn: async ({ signal }) => {
+      const response = await fetch("/api/bff/menu", { signal });
+      if (!response.ok) {
+        throw new Error("Failed to fetch menu");
+      }
+      return response.json();
+    },
+    staleTime: 5 * 60 * 1000,
+    gcTime: 30 * 60 * 1000,
+  });
+
+  return {
+    items: data?.items ?? [],
+    isLoading,
+  };
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { useTranslation } from "react-i18next";
+import { useAppSelector } from "@/lib/store/hooks";
+import { reviewApi } from "@/lib/api/review";
+import type {
+  CreateReviewRequest,
+  ReviewSearchParams,
+} from "@/lib/types/review";
+
+/**
+ * Hook for a product's approved reviews with sort, star/photo filters and pagination
+ */
+export function useProductReviews(productId: string, params: ReviewSearchParams) {
+  return useQuery({
+    queryKey: ["reviews", productId, "list", params],
+    queryFn: async ({ signal }) => {
+      const result = await reviewApi.getProductReviews(productId, params, { signal });
+      if (result.error) {
+        throw new Error(result.error.message || "Failed to load reviews");
+      }
+      return result;
+    },
+    placeholderData: (previousData) => previousData,
+    staleTime: 1000 * 60,
+  });
+}
+
+/**
+ * Hook for a product's average rating and star histogram
+ */
+export function useReviewSummary(productId: string) {
+  return useQuery({
+    queryKey: ["reviews", productId, "summary"],
+    queryFn: async ({ signal }) => {
+      const result = await reviewApi.getReviewSummary(productId, { signal });
+      if (result.error) {
+        throw new Error(result.error.message || "Failed to load review summary");
+      }
+      return result.data ?? null;
+    },
+    staleTime: 1000 * 60,
+  });
+}
+
+/**
+ * Hook for the shopper's purchases of this product in COMPLETED orders
+ * Only these variants can be reviewed; the backend enforces the same rule
+ */
+export function useReviewEligibility(productId: string) {
+  const isAuthenticated = useAppSelector((state) => state.auth.isAuthenticated);
+  const userEmail = useAppSelector((state) => state.auth.user?.email);
+
+  const query = useQuery({
+    // Per account, so switching accounts never shows another shopper's purchases
+    queryKey: ["reviews", productId, "eligibility", userEmail],
+    queryFn: async ({ signal }) => {
+      const result = await reviewApi.getReviewEligibility(productId, { signal });
+      if (result.error) {
+        throw new Error(result.error.message || "Failed to load review eligibility");
+      }
+      return result.data ?? [];
+    },
+    enabled: isAuthenticated,
+    staleTime: 1000 * 60 * 5,
+  });
+
+  const purchases = query.data ?? [];
+
+  return {
+    isAuthenticated,
+    purchases,
+    canReview: purchases.length > 0,
+    isLoading: isAuthenticated && query.isLoading,
+  };
+}
+
+/**
+ * Hook to submit a review; reviews are queued for moderation before they appear
+ */
+export function useSubmitReview(productId: string) {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const submitReview = useCallback(
+    async (request: Omit<CreateReviewRequest, "productId">): Promise<boolean> => {
+      setIsSubmitting(true);
+
+      try {
+        const result = await reviewApi.createReview({ ...request, productId });
+
+        if (result.error) {
+          toast.error(result.error.message || t("reviews.form.submitFailed"));
+          return false;
+        }
+
+        toast.success(t("reviews.form.submitted"));
+        queryClient.invalidateQueries({ queryKey: ["reviews", productId] });
+        return true;
+      } catch (error) {
+        console.error("Error submitting review:", error);
+        toast.error(t("reviews.form.submitFailed"));
+        return false;
+      } finally {
+        setIsSubmitting(false);
+      }
+    },
+    [productId, queryClient, t]
+  );
+
+  return { submitReview, isSubmitting };
+}
@@ -3,12 +3,9 @@
 import { useState, useEffect, useCallback, useMemo } from "react";
 import { useSearchParams, useRouter, usePathname } from "next/navigation";
 import { useQuery } from "@tanstack/react-query";
-import { searchPublicProducts } from "@/lib/api/products";
-import {
-  ProductListingDto,
-  ProductSearchRequest,
-  PaginatedApiResult,
-} from "@/lib/types/product";
+import type { ShopPageData } from "@/app/api/bff/shop/route";
+import { ProductListingDto, ProductSearchRequest } from "@/lib/types/product";
+import { EMPTY_SHOP_FACETS, ShopFacets } from "@/lib/utils/shop-facets";
 
 /**
  * Filter state interface
@@ -18,9 +15,9 @@ export interface ProductFilters {
   categorySlug: string | null;
   priceRange: [number | null, number | null];
   sort: ProductSearchRequest["sort"];
-  size: string | null;
-  color: string | null;
-
+  sizes: string[];
+  colors: string[];
+  brands: string[];
   inStock: boolean | null;
 }
 
@@ -39,6 +36,8 @@ export interface ProductPagination {
  */
 export interface UseProductStorefrontReturn {
   products: ProductListingDto[];
+  /** Facet counts for the current keyword/category scope */
+  facets: ShopFacets;
   isLoading: boolean;
   error: Error | null;
   filters: ProductFilters;
@@ -62,9 +61,9 @@ const DEFAULT_FILTERS: ProductFilters = {
   categorySlug: null,
   priceRange: [null, null],
   sort: "newest",
-  size: null,
-  color: null,
-
+  sizes: [],
+  colors: [],
+  brands: [],
   inStock: null,
 };
 
@@ -95,6 +94,9 @@ function useDebounce<T>(value: T, delay: number): T {
   return debouncedValue;
 }
 
+/** Multi-select facets travel as comma-separated URL params */
+const readList = (value: string | null) => (value ? value.split(",").filter(Boolean) : []);
+
 /**
  * Custom hook for managing product storefront state and data fetching
  */
@@ -113,9 +115,9 @@ export function useProductStorefront(): UseProductStorefrontReturn {
         searchParams.get("maxPrice") ? Number(searchParams.get("maxPrice")) : null,
       ] as [number | null, number | null],
       sort: (searchParams.get("sort") as ProductSearchRequest["sort"]) || DEFAULT_FILTERS.sort,
-      size: searchParams.get("size") || null,
-      color: searchParams.get("color") || null,
-
+      sizes: readList(searchParams.get("sizes")),
+      colors: readList(searchParams.get("colors")),
+      brands: readList(searchParams.get("brands")),
       inStock: searchParams.get("inStock") === "true" ? true : searchParams.get("inStock") === "false" ? false : null,
     };
   });
@@ -132,54 +134,57 @@ export function useProductStorefront(): UseProductStorefrontReturn {
   // Debounce keyword to avoid spamming API
   const debouncedKeyword = useDebounce(filters.keyword, 400);
 
-  // Build API request params
-  const apiParams = useMemo<ProductSearchRequest>(() => {
-    const params: ProductSearchRequest = {
-      page: pagination.page,
-      size: pagination.limit,
-      sort: filters.sort,
-    };
-
-    if (debouncedKeyword.trim()) params.keyword = debouncedKeyword.trim();
-    if (filters.categorySlug) params.categorySlug = filters.categorySlug;
-    if (filters.priceRange[0] !== null) params.minPrice = filters.priceRange[0]!;
-    if (filters.priceRange[1] !== null) params.maxPrice = filters.priceRange[1]!;
-    if (filters.size) params.sizeFilter = filters.size;
-    if (filters.color) params.color = filters.color;
+  // Build BFF query params - facets are resolved and counted server-side
+  const bffParams = useMemo(() => {
+    const params = new URLSearchParams();
+    params.set("page", pagination.page.toString());
+    params.set("size", pagination.limit.toString());
+    params.set("sort", filters.sort || "newest");
 
-    if (filters.inStock !== null) params.inStock = filters.inStock;
+    if (debouncedKeyword.trim()) params.set("keyword", debouncedKeyword.trim());
+    if (filters.categorySlug) params.set("category", filters.categorySlug);
+    if (filters.priceRange[0] !== null) params.set("minPrice", filters.priceRange[0]!.toString());
+    if (filters.priceRange[1] !== null) params.set("maxPrice", filters.priceRange[1]!.toString());
+    if (filters.sizes.length) params.set("sizes", filters.sizes.join(","));
+    if (filters.colors.length) params.set("colors", filters.colors.join(","));
+    if (filters.brands.length) params.set("brands", filters.brands.join(","));
+    if (filters.inStock) params.set("inStock", "true");
 
-    return params;
+    return params.toString();
   }, [debouncedKeyword, filters, pagination.page, pagination.limit]);
 
-  // Fetch products using TanStack Query
+  // Fetch products + facets from the BFF
   const {
     data: queryResult,
     isLoading,
     error: queryError,
-  } = useQuery<PaginatedApiResult<ProductListingDto[]>>({
-    queryKey: ["products", "storefront", apiParams],
-    queryFn: async () => {
-      const result = await searchPublicProducts(apiParams);
-      if (result.error) throw new Error(result.error.message || "API request failed");
-      return result;
+  } = useQuery<ShopPageData>({
+    queryKey: ["products", "storefront", bffParams],
+    queryFn: async ({ signal }) => {
+      const response = await fetch(`/api/bff/shop?${bffParams}`, { signal });
+      if (!response.ok) throw new Error("Failed to fetch shop data");
+      return response.json();
     },
+    // Keep the current facets while the next selection loads
+    placeholderData: (previousData) => previousData,
     staleTime: 30 * 1000,
   });
 
   // Extract products from API response
   const products = useMemo(() => {
-    if (!queryResult?.data) return [];
-    return Array.isArray(queryResult.data) ? queryResult.data : [];
+    if (!queryResult?.products) return [];
+    return Array.isArray(queryResult.products) ? queryResult.products : [];
   }, [queryResult]);
 
+  const facets = queryResult?.facets ?? EMPTY_SHOP_FACETS;
+
   // Update pagination from API response
   useEffect(() => {
     if (queryResult?.meta) {
       setPaginationState((prev) => ({
         ...prev,
-        totalElements: queryResult.meta?.totalElements || 0,
-        totalPages: queryResult.meta?.totalPages || 0,
+        totalElements: queryResult.meta.totalElements || 0,
+        totalPages: queryResult.meta.totalPages || 0,
       }));
     }
   }, [queryResult]);
@@ -193,9 +198,9 @@ export function useProductStorefront(): UseProductStorefrontReturn {
     if (filters.priceRange[0] !== null) params.set("minPrice", filters.priceRange[0]!.toString());
     if (filters.priceRange[1] !== null) params.set("maxPrice", filters.priceRange[1]!.toString());
     if (filters.sort && filters.sort !== DEFAULT_FILTERS.sort) params.set("sort", filters.sort);
-    if (filters.size) params.set("size", filters.size);
-    if (filters.color) params.set("color", filters.color);
-
+    if (filters.sizes.length) params.set("sizes", filters.sizes.join(","));
+    if (filters.colors.length) params.set("colors", filters.colors.join(","));
+    if (filters.brands.length) params.set("brands", filters.brands.join(","));
     if (filters.inStock !== null) params.set("inStock", filters.inStock.toString());
 
     if (pagination.page > 1) params.set("page", pagination.page.toString());
@@ -238,6 +243,7 @@ export function useProductStorefront(): UseProductStorefrontReturn {
 
   return {
     products,
+    facets,
     isLoading,
     error: queryError as Error | null,
     filters,
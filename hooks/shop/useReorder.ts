@@ -0,0 +1,203 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { useTranslation } from "react-i18next";
+import { useCart } from "@/components/providers/CartProvider";
+import { orderApi } from "@/lib/api/order";
+import { OrderItem } from "@/lib/types/order";
+import { productApi } from "@/lib/api/product";
+import type { CartItemResponse } from "@/lib/api/cart";
+import type { ProductResponse } from "@/lib/types/product";
+
+/**
+ * Why an order line cannot be re-added in full
+ */
+export type ReorderIssue = "INACTIVE" | "OUT_OF_STOCK" | "CAPPED";
+
+/**
+ * One order line resolved against current stock
+ */
+export interface ReorderLine {
+  item: OrderItem;
+  /** Quantity that will be added to the cart (0 when the line is skipped) */
+  quantity: number;
+  issue?: ReorderIssue;
+}
+
+export interface ReorderPlan {
+  lines: ReorderLine[];
+  /** Lines with quantity > 0 */
+  addable: ReorderLine[];
+  /** Lines that are skipped or reduced */
+  issues: ReorderLine[];
+}
+
+/**
+ * Resolve every order line against live product data and what is already in the cart
+ * Stock is allocated in order, so repeated variants share the same availability
+ */
+function planReorder(
+  items: OrderItem[],
+  products: Map<string, ProductResponse | null>,
+  cartItems: CartItemResponse[],
+): ReorderPlan {
+  const allocated = new Map<string, number>();
+  cartItems.forEach((cartItem) => {
+    const key = String(cartItem.productVariantId);
+    allocated.set(key, (allocated.get(key) ?? 0) + cartItem.quantity);
+  });
+
+  const lines = items.map<ReorderLine>((item) => {
+    const product = products.get(item.productId);
+    const variant = product?.variants?.find((v) => String(v.id) === item.variantId);
+
+    if (!product || product.isActive === false || !variant || !variant.isActive) {
+      return { item, quantity: 0, issue: "INACTIVE" };
+    }
+
+    const key = String(variant.id);
+    // Stock reserved by other orders can't be added to a cart
+    const stock = variant.availableStock ?? variant.quantity;
+    const available = Math.max(0, stock - (allocated.get(key) ?? 0));
+
+    if (available <= 0) {
+      return { item, quantity: 0, issue: "OUT_OF_STOCK" };
+    }
+
+    const quantity = Math.min(item.quantity, available);
+    allocated.set(key, (allocated.get(key) ?? 0) + quantity);
+
+    return quantity < item.quantity
+      ? { item, quantity, issue: "CAPPED" }
+      : { item, quantity };
+  });
+
+  return {
+    lines,
+    addable: lines.filter((line) => line.quantity > 0),
+    issues: lines.filter((line) => line.issue),
+  };
+}
+
+/**
+ * Hook that rebuilds the cart from a past order
+ *
+ * Fresh order lines are checked against current stock first. When every line can be
+ * re-added in full the items go straight to the cart; otherwise `plan` is exposed so
+ * the page can ask the shopper to confirm a partial re-order.
+ */
+export function useReorder(orderCode: string) {
+  const { t } = useTranslation();
+  const router = useRouter();
+  const { items: cartItems, addItemToCart } = useCart();
+
+  const [plan, setPlan] = useState<ReorderPlan | null>(null);
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [isAdding, setIsAdding] = useState(false);
+
+  const addLines = useCallback(
+    async (lines: ReorderLine[]) => {
+      setIsAdding(true);
+      let added = 0;
+      let failed = 0;
+
+      try {
+        // Sequential so each response reflects the previous line's cart state
+        for (const line of lines) {
+          try {
+            await addItemToCart({
+              productId: line.item.productId,
+              productVariantId: line.item.variantId,
+              quantity: line.quantity,
+            });
+            added += 1;
+          } catch {
+            failed += 1;
+          }
+        }
+      } finally {
+        setIsAdding(false);
+      }
+
+      if (added === 0) {
+        toast.error(t("orders.reorderDialog.addFailed"));
+        return;
+      }
+
+      if (failed > 0) {
+        toast.warning(t("orders.reorderDialog.partiallyAdded", { added, failed }));
+      } else {
+        toast.success(t("orders.reorderDialog.added", { count: added }));
+      }
+
+      setPlan(null);
+      router.push("/cart");
+    },
+    [addItemToCart, router, t]
+  );
+
+  /**
+   * Start a re-order: load the order, resolve stock, then add or ask for confirmation
+   */
+  const startReorder = useCallback(async () => {
+    if (!orderCode) return;
+
+    setIsPreparing(true);
+    try {
+      const result = await orderApi.getMyOrderDetail(orderCode);
+
+      if (result.error || !result.data) {
+        toast.error(
+          result.error?.message || t("orders.errors.fetchDetailFailed")
+        );
+        return;
+      }
+
+      const items = result.data.items || [];
+
+      const productIds = Array.from(new Set(items.map((item) => item.productId)));
+      const responses = await Promise.all(
+        productIds.map((id) => productApi.getProductById(id))
+      );
+      const products = new Map<string, ProductResponse | null>(
+        productIds.map((id, index) => [id, responses[index].data ?? null])
+      );
+
+      const nextPlan = planReorder(items, products, cartItems);
+
+      if (nextPlan.issues.length === 0) {
+        await addLines(nextPlan.addable);
+        return;
+      }
+
+      setPlan(nextPlan);
+    } catch (error) {
+      console.error("Error preparing re-order:", error);
+      toast.error(t("orders.reorderDialog.prepareFailed"));
+    } finally {
+      setIsPreparing(false);
+    }
+  }, [orderCode, cartItems, addLines, t]);
+
+  /**
+   * Add only the lines that are still available
+   */
+  const confirmPartialReorder = useCallback(async () => {
+    if (!plan || plan.addable.length === 0) return;
+    await addLines(plan.addable);
+  }, [plan, addLines]);
+
+  const dismissPlan = useCallback(() => setPlan(null), []);
+
+  return {
+    plan,
+    isPreparing,
+    isAdding,
+    isReordering: isPreparing || isAdding,
+    startReorder,
+    confirmPartialReorder,
+    dismissPlan,
+  };
+}
@@ -0,0 +1,67 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import { toast } from "sonner";
+import { useTranslation } from "react-i18next";
+import { paymentApi } from "@/lib/api/payment";
+import type { PaymentMethod } from "@/lib/types/order";
+import {
+  isMockGatewayEnabled,
+  resolvePaymentUrl,
+} from "@/lib/utils/payment-gateway";
+
+/**
+ * Hook that restarts an online payment for an unpaid order
+ * Requests a fresh gateway URL (the previous one may have expired) and
+ * redirects the shopper to it
+ */
+export function useRetryPayment() {
+  const { t } = useTranslation();
+  const [isRetrying, setIsRetrying] = useState(false);
+
+  const retryPayment = useCallback(
+    async (order: { orderCode: string; amount: number; paymentMethod: PaymentMethod }) => {
+      setIsRetrying(true);
+
+      try {
+        let paymentUrl: string | undefined;
+
+        // The mock gateway needs no backend session
+        if (!isMockGatewayEnabled()) {
+          const result = await paymentApi.retryPayment(order.orderCode);
+
+          if (result.error) {
+            toast.error(result.error.message || t("payment.errors.retryFailed"));
+            setIsRetrying(false);
+            return;
+          }
+
+          paymentUrl = result.data?.paymentUrl;
+        }
+
+        const redirectUrl = resolvePaymentUrl({
+          orderCode: order.orderCode,
+          amount: order.amount,
+          method: order.paymentMethod,
+          paymentUrl,
+        });
+
+        if (!redirectUrl) {
+          toast.error(t("payment.errors.retryFailed"));
+          setIsRetrying(false);
+          return;
+        }
+
+        // Keep the loading state while the browser leaves for the gateway
+        window.location.assign(redirectUrl);
+      } catch (error) {
+        console.error("Error retrying payment:", error);
+        toast.error(t("payment.errors.retryFailed"));
+        setIsRetrying(false);
+      }
+    },
+    [t]
+  );
+
+  return { retryPayment, isRetrying };
+}
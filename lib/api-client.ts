@@ -1,19 +1,108 @@
 /**
- * Client-side API client with Axios
- * Implements silent token refresh using interceptors
- * All requests go through Next.js API proxy routes which handle authentication via HttpOnly cookies
+ * Unified API client using native Fetch API
+ * One client for both the browser and the server:
+ * - Browser requests go through the Next.js proxy (/api/proxy), which attaches
+ *   the HttpOnly auth cookies; token errors trigger a single coordinated refresh
+ * - Server requests (RSC, route handlers) call the backend directly and can use
+ *   Next.js fetch caching via `next: { revalidate, tags }`
+ * - Server actions acting for a signed-in user pass a `session` (see
+ *   getServerSession in lib/server-auth.ts); its tokens are sent and refreshed
+ *   through the same coordinator
+ *
+ * Features:
+ * - Typed endpoint definitions mapping request input and response DTOs
+ * - Single refresh-token coordinator shared by every request
+ * - Request cancellation via AbortSignal
+ * - Consistent `ApiResult<T>` - requests never throw
  */
 
-import axios, {
-  AxiosError,
-  AxiosInstance,
-  AxiosRequestConfig,
-  InternalAxiosRequestConfig,
-} from "axios";
-import I18nUtils from "../i18n";
+import i18next from "i18next";
 import { getOrCreateGuestId } from "./utils/guestId";
 
-const API_BASE_URL = "/api/proxy";
+const isBrowser = typeof window !== "undefined";
+
+const PROXY_BASE_URL = "/api/proxy";
+const BACKEND_BASE_URL = `${
+  process.env.NEXT_PUBLIC_API_URL || "http://localhost:8080"
+}/api/v1`;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+export type QueryParams = Record<
+  string,
+  string | number | boolean | undefined | null
+>;
+
+export interface ApiMeta {
+  serverTime?: number;
+  apiVersion?: string;
+  traceId?: string;
+  message?: string;
+  // Offset pagination
+  page?: number;
+  size?: number;
+  totalElements?: number;
+  totalPages?: number;
+  // Sort & filter echo
+  sort?: string;
+  filter?: Record<string, any>;
+}
+
+export interface ApiError {
+  code?: string;
+  message?: string;
+  traceId?: string;
+  details?: unknown;
+}
+
+/**
+ * Standard result of every API call - matches the backend envelope
+ */
+export interface ApiResult<T = any> {
+  data?: T;
+  meta?: ApiMeta;
+  error?: ApiError;
+}
+
+/**
+ * Auth cookies of the request a server action is handling
+ * The client never reads cookies itself, so this module stays importable
+ * from client components
+ */
+export interface ServerSession {
+  accessToken?: string;
+  refreshToken?: string;
+  /** Persist tokens issued by a refresh */
+  saveTokens: (accessToken: string, refreshToken?: string) => Promise<void>;
+  /** Drop the tokens once a refresh has failed */
+  clearTokens: () => Promise<void>;
+}
+
+export interface RequestConfig extends Omit<RequestInit, "body" | "method"> {
+  params?: QueryParams;
+  body?: unknown;
+  /**
+   * Skip automatic token refresh on error
+   * Useful for auth endpoints like login/logout
+   */
+  skipAuthRefresh?: boolean;
+  /** Server only: send this user's tokens and refresh them on token errors */
+  session?: ServerSession;
+}
+
+/**
+ * Client-side error codes (backend codes pass through unchanged)
+ */
+export const API_CLIENT_ERRORS = {
+  NETWORK_ERROR: "NETWORK_ERROR",
+  REQUEST_ABORTED: "REQUEST_ABORTED",
+  SESSION_EXPIRED: "SESSION_EXPIRED",
+  INVALID_RESPONSE: "INVALID_RESPONSE",
+} as const;
 
 // Error codes that indicate token issues and should trigger refresh
 const TOKEN_ERROR_CODES = ["AUTH_003", "AUTH_004"]; // TOKEN_EXPIRED, TOKEN_INVALID
@@ -26,609 +115,456 @@ const TOKEN_ERROR_MESSAGES = [
   "token đã hết hạn",
 ];
 
-interface ApiResponse<T = any> {
-  data?: T;
-  error?: {
-    message?: string;
-    code?: string;
-  };
+// ============================================================================
+// Endpoint Definitions
+// ============================================================================
+
+/**
+ * Typed description of a backend endpoint
+ *
+ * @typeParam TInput - What callers pass (path params, filters, request DTO)
+ * @typeParam TResponse - What callers receive
+ * @typeParam TDto - Raw response DTO, when it differs from TResponse
+ */
+export interface Endpoint<TInput, TResponse, TDto = TResponse> {
+  method: HttpMethod;
+  path: string | ((input: TInput) => string);
+  /** Build query params from the input */
+  query?: (input: TInput) => QueryParams;
+  /** Build the request body (DTO) from the input */
+  body?: (input: TInput) => unknown;
+  /** Map the response DTO to the client-side shape */
+  map?: (dto: TDto) => TResponse;
+  /** Default fetch options, e.g. cache: "no-store" for admin data */
+  init?: Pick<RequestConfig, "cache" | "next" | "skipAuthRefresh">;
 }
 
-interface RefreshTokenResponse {
-  data?: {
-    accessToken?: string;
-    refreshToken?: string;
-  };
-  error?: {
-    message?: string;
-    code?: string;
-  };
+export function defineEndpoint<TInput = void, TResponse = unknown, TDto = TResponse>(
+  endpoint: Endpoint<TInput, TResponse, TDto>,
+): Endpoint<TInput, TResponse, TDto> {
+  return endpoint;
 }
 
-/**
- * Process queue to handle multiple simultaneous 401 errors
- * Prevents multiple refresh token requests when multiple API calls fail at once
- */
-class RefreshTokenQueue {
-  private isRefreshing = false;
-  private failedQueue: Array<{
-    resolve: (value?: any) => void;
-    reject: (error?: any) => void;
-  }> = [];
+export type CallConfig = Omit<RequestConfig, "params" | "body">;
 
-  /**
-   * Add a failed request to the queue
-   */
-  addToQueue(resolve: (value?: any) => void, reject: (error?: any) => void) {
-    this.failedQueue.push({ resolve, reject });
+// ============================================================================
+// Refresh Token Coordinator
+// Every request that hits a token error awaits the same refresh
+// ============================================================================
+
+class RefreshCoordinator {
+  // Keyed by refresh token on the server, where one process serves many users
+  private pending = new Map<string, Promise<boolean>>();
+
+  refresh(session?: ServerSession): Promise<boolean> {
+    const key = session ? session.refreshToken || "" : "browser";
+    let pending = this.pending.get(key);
+    if (!pending) {
+      pending = (session ? this.refreshSession(session) : this.performRefresh()).finally(() => {
+        this.pending.delete(key);
+      });
+      this.pending.set(key, pending);
+    }
+    return pending;
   }
 
   /**
-   * Process all queued requests after successful token refresh
+   * Server-side refresh: the backend reads the refresh token from its cookie
    */
-  processQueue(error: AxiosError | null = null) {
-    this.failedQueue.forEach(({ resolve, reject }) => {
-      if (error) {
-        reject(error);
-      } else {
-        resolve();
+  private async refreshSession(session: ServerSession): Promise<boolean> {
+    if (!session.refreshToken) return false;
+
+    try {
+      const response = await fetch(`${BACKEND_BASE_URL}/auth/refresh`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Cookie: `refresh_token=${session.refreshToken}`,
+        },
+      });
+      const data = await response.json().catch(() => null);
+      const accessToken: string | undefined = data?.data?.accessToken;
+
+      if (!response.ok || data?.error || !accessToken) {
+        await session.clearTokens();
+        return false;
       }
-    });
-    this.failedQueue = [];
+
+      session.accessToken = accessToken;
+      session.refreshToken = data.data.refreshToken || session.refreshToken;
+      await session.saveTokens(accessToken, data.data.refreshToken);
+      return true;
+    } catch (error) {
+      if (process.env.NODE_ENV === "development") {
+        console.error("[API Client] Server token refresh failed:", error);
+      }
+      return false;
+    }
   }
 
-  /**
-   * Check if a refresh is currently in progress
-   */
-  getIsRefreshing(): boolean {
-    return this.isRefreshing;
+  private async performRefresh(): Promise<boolean> {
+    try {
+      const response = await fetch(`${PROXY_BASE_URL}/auth/refresh`, {
+        method: "POST",
+        credentials: "include",
+        headers: {
+          "Content-Type": "application/json",
+        },
+      });
+
+      if (!response.ok) return false;
+
+      const data = await response.json().catch(() => null);
+      // If the new access token is returned in the response body, store it
+      if (data?.data?.accessToken) {
+        localStorage.setItem("accessToken", data.data.accessToken);
+      }
+      if (process.env.NODE_ENV === "development") {
+        console.log("[API Client] Token refreshed successfully");
+      }
+      return true;
+    } catch (error) {
+      if (process.env.NODE_ENV === "development") {
+        console.error("[API Client] Token refresh failed:", error);
+      }
+      return false;
+    }
   }
+}
 
-  /**
-   * Set the refreshing state
-   */
-  setIsRefreshing(value: boolean) {
-    this.isRefreshing = value;
+const refreshCoordinator = new RefreshCoordinator();
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Check if an error response indicates a token issue
+ */
+function isTokenError(
+  status: number,
+  errorCode?: string,
+  errorMessage?: string,
+): boolean {
+  if (status === 401) return true;
+  if (errorCode && TOKEN_ERROR_CODES.includes(errorCode)) return true;
+  if (errorMessage) {
+    const lowerMessage = errorMessage.toLowerCase();
+    return TOKEN_ERROR_MESSAGES.some((msg) =>
+      lowerMessage.includes(msg.toLowerCase()),
+    );
   }
+  return false;
 }
 
-const refreshTokenQueue = new RefreshTokenQueue();
+function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException
+    ? error.name === "AbortError"
+    : (error as { name?: string })?.name === "AbortError";
+}
 
 /**
- * Create Axios instance with interceptors
+ * Whether a result comes from a cancelled request (callers usually ignore these)
  */
-function createAxiosInstance(): AxiosInstance {
-  const instance = axios.create({
-    baseURL: API_BASE_URL,
-    headers: {
-      "Content-Type": "application/json",
-    },
-    withCredentials: true, // Important: Ensures cookies (including HttpOnly) are sent
-  });
+export function isAbortedResult(result: ApiResult<unknown>): boolean {
+  return result.error?.code === API_CLIENT_ERRORS.REQUEST_ABORTED;
+}
 
-  /**
-   * Request Interceptor
-   * Attach X-Guest-ID, Accept-Language, and Authorization headers
-   */
-  instance.interceptors.request.use(
-    (config: InternalAxiosRequestConfig) => {
-      // Always attach X-Guest-ID header for hybrid cart support
-      const guestId = getOrCreateGuestId();
-      if (guestId) {
-        config.headers["X-Guest-ID"] = guestId;
+/**
+ * Build URL with query parameters
+ */
+function buildUrl(path: string, params?: QueryParams): string {
+  const normalizedPath = path.startsWith("/") ? path.slice(1) : path;
+  const url = isBrowser
+    ? new URL(`${PROXY_BASE_URL}/${normalizedPath}`, window.location.origin)
+    : new URL(`${BACKEND_BASE_URL}/${normalizedPath}`);
+
+  if (params) {
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== null) {
+        url.searchParams.append(key, String(value));
       }
+    });
+  }
 
-      // Always attach Accept-Language header
-      // Read the current language from i18n instance at request time to ensure it's up-to-date
-      // Use resolvedLanguage as fallback in case language hasn't fully updated yet
-      const lang = I18nUtils.resolvedLanguage || I18nUtils.language || "vi"; // Default to 'vi' if not set
-      config.headers["Accept-Language"] = lang;
+  return url.toString();
+}
 
-      // Debug logging (only in development)
-      if (
-        process.env.NODE_ENV === "development" &&
-        config.url?.includes("cart")
-      ) {
-        console.log(
-          "[API Client] Accept-Language header:",
-          lang,
-          "for URL:",
-          config.url,
-        );
-      }
+/**
+ * Prepare request headers
+ * Browser-only headers (auth token, guest ID, language) are skipped on the server,
+ * where a session's tokens are sent instead
+ */
+function prepareHeaders(
+  customHeaders?: HeadersInit,
+  isFormData?: boolean,
+  session?: ServerSession,
+): Headers {
+  const headers = new Headers(customHeaders);
+
+  if (!isBrowser && session) {
+    if (session.accessToken && !headers.has("Authorization")) {
+      headers.set("Authorization", `Bearer ${session.accessToken}`);
+    }
+    if (session.refreshToken && !headers.has("Cookie")) {
+      headers.set("Cookie", `refresh_token=${session.refreshToken}`);
+    }
+  }
 
-      // Attach Authorization header if access token exists in localStorage
-      if (typeof window !== "undefined") {
-        const accessToken = localStorage.getItem("accessToken");
-        if (accessToken) {
-          config.headers["Authorization"] = `Bearer ${accessToken}`;
-        }
-      }
+  if (isBrowser) {
+    // Add Auth Token from localStorage
+    const accessToken = localStorage.getItem("accessToken");
+    if (accessToken && !headers.has("Authorization")) {
+      headers.set("Authorization", `Bearer ${accessToken}`);
+    }
 
-      // If data is FormData, remove Content-Type header to let browser set it with boundary
-      if (config.data instanceof FormData) {
-        delete config.headers["Content-Type"];
-      }
+    // Add Guest ID for hybrid cart support
+    const guestId = getOrCreateGuestId();
+    if (guestId && !headers.has("X-Guest-ID")) {
+      headers.set("X-Guest-ID", guestId);
+    }
+
+    // Add Accept-Language for i18n
+    const lang = i18next.resolvedLanguage || i18next.language || "vi";
+    if (!headers.has("Accept-Language")) {
+      headers.set("Accept-Language", lang);
+    }
+  }
+
+  // Set Content-Type for JSON (skip for FormData - browser sets it with boundary)
+  if (!isFormData && !headers.has("Content-Type")) {
+    headers.set("Content-Type", "application/json");
+  }
+
+  return headers;
+}
+
+/**
+ * Handle redirect to auth page
+ */
+function handleAuthRedirect(): void {
+  if (!isBrowser) return;
+
+  const currentPath = window.location.pathname;
+  const isPublicRoute =
+    currentPath === "/" ||
+    currentPath.startsWith("/shop") ||
+    currentPath.startsWith("/product/") ||
+    currentPath.startsWith("/cart") ||
+    currentPath.startsWith("/auth") ||
+    currentPath.startsWith("/forgot-password") ||
+    currentPath.startsWith("/reset-password");
+
+  if (!isPublicRoute) {
+    localStorage.removeItem("accessToken");
+    window.location.href = `/auth?redirect=${encodeURIComponent(currentPath)}`;
+  }
+}
 
-      return config;
-    },
-    (error) => {
-      return Promise.reject(error);
-    },
-  );
+// ============================================================================
+// Main API Client Class
+// ============================================================================
 
+class ApiClient {
   /**
-   * Response Interceptor
-   * Handles 401 errors and token-related errors with automatic token refresh and retry
+   * Core request method with automatic token refresh
    */
-  instance.interceptors.response.use(
-    (response) => {
-      // Successful response - return as is
-      return response;
-    },
-    async (error: AxiosError<any>) => {
-      const originalRequest = error.config as InternalAxiosRequestConfig & {
-        _retry?: boolean;
-      };
+  async request<T>(
+    path: string,
+    config: RequestConfig & { method?: HttpMethod } = {},
+    isRetry = false,
+  ): Promise<ApiResult<T>> {
+    const {
+      params,
+      body,
+      headers: customHeaders,
+      skipAuthRefresh = false,
+      session,
+      ...fetchConfig
+    } = config;
+
+    const isFormData = typeof FormData !== "undefined" && body instanceof FormData;
+    const url = buildUrl(path, params);
+    const headers = prepareHeaders(customHeaders, isFormData, session);
+
+    // Prepare body
+    let requestBody: BodyInit | undefined;
+    if (body !== undefined) {
+      requestBody =
+        isFormData || typeof body !== "object"
+          ? (body as BodyInit)
+          : JSON.stringify(body);
+    }
+
+    try {
+      const response = await fetch(url, {
+        ...fetchConfig,
+        headers,
+        body: requestBody,
+        credentials: "include", // Include cookies
+      });
+
+      // Try to parse JSON response
+      let data: any = null;
+      const contentType = response.headers.get("content-type");
+      if (contentType && contentType.includes("application/json")) {
+        try {
+          data = await response.json();
+        } catch {
+          // Response is not valid JSON
+        }
+      }
 
-      // Check if error is token-related (by status code, error code, or error message)
-      const errorCode = error.response?.data?.error?.code;
-      const errorMessage =
-        error.response?.data?.error?.message?.toLowerCase() || "";
-
-      const isTokenError =
-        error.response?.status === 401 ||
-        TOKEN_ERROR_CODES.includes(errorCode) ||
-        TOKEN_ERROR_MESSAGES.some((msg) =>
-          errorMessage.includes(msg.toLowerCase()),
-        );
-
-      // IMPORTANT: Only attempt token refresh for authenticated endpoints
-      // Public endpoints (products, shop) should not trigger token refresh
-      const isPublicEndpoint =
-        originalRequest?.url?.includes("/api/v1/products") &&
-        originalRequest?.method?.toUpperCase() === "GET" &&
-        !originalRequest?.url?.includes("/admin");
+      const errorCode = data?.error?.code;
+      const errorMessage = data?.error?.message;
 
+      // Browser tokens live in the proxy's cookies; server requests refresh
+      // only when they act for a session
       if (
-        isTokenError &&
-        originalRequest &&
-        !originalRequest._retry &&
-        !isPublicEndpoint // Don't refresh for public endpoints
+        (isBrowser || session) &&
+        !isRetry &&
+        !skipAuthRefresh &&
+        isTokenError(response.status, errorCode, errorMessage)
       ) {
-        // Mark this request as retried to prevent infinite loops
-        originalRequest._retry = true;
-
-        // Log token error in development
         if (process.env.NODE_ENV === "development") {
           console.log("[API Client] Token error detected:", {
-            status: error.response?.status,
+            status: response.status,
             errorCode,
-            errorMessage: error.response?.data?.error?.message,
+            errorMessage,
           });
         }
 
-        // If refresh is already in progress, queue this request
-        if (refreshTokenQueue.getIsRefreshing()) {
-          return new Promise((resolve, reject) => {
-            refreshTokenQueue.addToQueue(() => {
-              // Retry the original request after token refresh
-              resolve(instance(originalRequest));
-            }, reject);
-          });
+        const refreshed = await refreshCoordinator.refresh(session);
+        if (refreshed) {
+          return this.request<T>(path, config, true);
         }
 
-        // Start the refresh process
-        refreshTokenQueue.setIsRefreshing(true);
-
-        try {
-          // Call refresh endpoint
-          // The refreshToken cookie will be sent automatically via withCredentials
-          const refreshResponse = await axios.post<RefreshTokenResponse>(
-            `${API_BASE_URL}/auth/refresh`,
-            {},
-            {
-              withCredentials: true,
-            },
-          );
-
-          // Check if refresh was successful
-          // The token might be in the response body OR set as HttpOnly cookie
-          // If status is 200/201, consider it successful (cookies are set server-side)
-          const isSuccess =
-            (refreshResponse.status === 200 ||
-              refreshResponse.status === 201) &&
-            !refreshResponse.data?.error;
-
-          if (isSuccess) {
-            // Token refresh successful
-            // Note: Since we're using HttpOnly cookies, the new accessToken
-            // is automatically set by the server in the response cookie.
-            // We don't need to manually update it in the client.
-
-            refreshTokenQueue.processQueue();
-
-            // Retry the original request
-            // The new accessToken cookie will be sent automatically
-            return instance(originalRequest);
-          } else {
-            // Refresh endpoint returned an error
-            const errorMessage =
-              refreshResponse.data?.error?.message || "Token refresh failed";
-            throw new Error(errorMessage);
-          }
-        } catch (refreshError) {
-          // Refresh failed - clear queue
-          refreshTokenQueue.processQueue(refreshError as AxiosError);
-          refreshTokenQueue.setIsRefreshing(false);
-
-          // Check if this is an expected error (no refresh token for new/guest users)
-          const isExpectedError =
-            (refreshError as AxiosError)?.response?.status === 401 ||
-            (refreshError as AxiosError)?.response?.status === 403 ||
-            (refreshError as AxiosError)?.message?.includes("refresh") ||
-            (refreshError as AxiosError)?.response?.status === 400;
-
-          // Only redirect to login for authenticated routes
-          // Public routes (shop, home, products) should not redirect
-          if (typeof window !== "undefined") {
-            const currentPath = window.location.pathname;
-            const isPublicRoute =
-              currentPath === "/" ||
-              currentPath.startsWith("/shop") ||
-              currentPath.startsWith("/product/") ||
-              currentPath.startsWith("/cart") ||
-              currentPath.startsWith("/auth") ||
-              currentPath.startsWith("/forgot-password") ||
-              currentPath.startsWith("/reset-password");
-
-            // Only redirect if:
-            // 1. Not already on auth page
-            // 2. Not on a public route (guest users can browse)
-            // 3. The original request was for an authenticated endpoint (admin, authenticated cart operations)
-            const isAuthenticatedEndpoint =
-              originalRequest.url?.includes("/admin") ||
-              (originalRequest.url?.includes("/cart") &&
-                originalRequest.method?.toUpperCase() !== "GET");
-
-            if (
-              !isPublicRoute &&
-              isAuthenticatedEndpoint &&
-              !currentPath.startsWith("/auth")
-            ) {
-              // Only log for authenticated routes that need redirect
-              if (process.env.NODE_ENV === "development") {
-                console.log(
-                  "[API Client] Token refresh failed, redirecting to auth (authenticated route)",
-                );
-              }
-              window.location.href = "/auth";
-            }
-            // For public routes or expected errors (no refresh token), silently fail
-            // Don't log errors for new users without refresh tokens
-          }
-
-          // Silently reject for expected errors (no refresh token) or public routes
-          // Only log unexpected errors in development
-          if (!isExpectedError && process.env.NODE_ENV === "development") {
-            console.error(
-              "[API Client] Unexpected token refresh error:",
-              refreshError,
-            );
-          }
-
-          return Promise.reject(refreshError);
-        } finally {
-          refreshTokenQueue.setIsRefreshing(false);
-        }
+        handleAuthRedirect();
+        return {
+          error: {
+            code: API_CLIENT_ERRORS.SESSION_EXPIRED,
+            message: "Session expired. Please sign in again.",
+          },
+        };
       }
 
-      // For non-401 errors, already-retried requests, or public endpoints with 401, reject normally
-      // Public endpoints getting 401 should just fail gracefully (guest users browsing)
-      // Don't log errors for expected cases (new users without tokens on public routes)
-      if (error.response?.status === 401) {
-        const isPublicEndpoint =
-          originalRequest?.url?.includes("/api/v1/products") &&
-          originalRequest?.method?.toUpperCase() === "GET" &&
-          !originalRequest?.url?.includes("/admin");
-        // Silently handle 401 on public endpoints - this is expected for guest users
-        // Only log in development for debugging
-        if (isPublicEndpoint && process.env.NODE_ENV === "development") {
-          console.log(
-            "[API Client] 401 on public endpoint - allowing guest access, not redirecting",
-          );
-        }
+      // Handle error response
+      if (!response.ok || data?.error) {
+        return {
+          meta: data?.meta,
+          error: {
+            ...data?.error,
+            message:
+              data?.error?.message || response.statusText || "Request failed",
+            code: data?.error?.code || String(response.status),
+          },
+        };
       }
-      return Promise.reject(error);
-    },
-  );
-
-  return instance;
-}
-
-// Create the Axios instance
-const axiosInstance = createAxiosInstance();
 
-/**
- * Convert Axios response to our ApiResponse format
- */
-function handleResponse<T>(response: any): ApiResponse<T> {
-  if (response.data?.error) {
-    return {
-      error: {
-        message: response.data.error.message || "Request failed",
-        code: response.data.error.code,
-      },
-    };
-  }
+      // Handle nested data structure: { data: { ... }, meta: {...} } or { ... }
+      return {
+        data: data?.data !== undefined ? data.data : data,
+        meta: data?.meta,
+      };
+    } catch (error: any) {
+      if (isAbortError(error)) {
+        return {
+          error: {
+            code: API_CLIENT_ERRORS.REQUEST_ABORTED,
+            message: "Request was cancelled",
+          },
+        };
+      }
 
-  // Return the entire backend response structure (includes data and meta)
-  return { data: response.data };
-}
+      if (process.env.NODE_ENV === "development") {
+        console.error("[API Client] Request error:", error);
+      }
 
-/**
- * Handle errors and convert to ApiResponse format
- */
-function handleError(error: any): ApiResponse {
-  if (error.response?.data?.error) {
-    return {
-      error: {
-        message: error.response.data.error.message || "Request failed",
-        code: error.response.data.error.code,
-      },
-    };
+      return {
+        error: {
+          message: error?.message || "Network error",
+          code: API_CLIENT_ERRORS.NETWORK_ERROR,
+        },
+      };
+    }
   }
 
-  return {
-    error: {
-      message: error.message || "Network error",
-    },
-  };
-}
-
-export class ApiClient {
-  private async request<T>(
-    path: string,
-    config?: AxiosRequestConfig,
-  ): Promise<ApiResponse<T>> {
-    try {
-      const response = await axiosInstance.request({
-        url: path,
-        ...config,
-      });
+  /**
+   * Call a typed endpoint definition
+   *
+   * @example
+   * ```ts
+   * const getInventory = defineEndpoint<{ page: number }, InventoryItem[]>({
+   *   method: "GET",
+   *   path: "inventory",
+   *   query: ({ page }) => ({ page }),
+   * });
+   * const result = await apiClient.call(getInventory, { page: 0 }, { signal });
+   * ```
+   */
+  async call<TInput, TResponse, TDto = TResponse>(
+    endpoint: Endpoint<TInput, TResponse, TDto>,
+    input: TInput,
+    config: CallConfig = {},
+  ): Promise<ApiResult<TResponse>> {
+    const path =
+      typeof endpoint.path === "function" ? endpoint.path(input) : endpoint.path;
+
+    const result = await this.request<TDto>(path, {
+      ...endpoint.init,
+      ...config,
+      method: endpoint.method,
+      params: endpoint.query?.(input),
+      body: endpoint.body?.(input),
+    });
 
-      return handleResponse<T>(response);
-    } catch (error: any) {
-      // If error was a 401 that triggered redirect, return error response
-      if (error.response?.status === 401) {
-        return handleError(error);
-      }
-      return handleError(error);
+    if (!endpoint.map || result.error || result.data === undefined) {
+      return result as ApiResult<unknown> as ApiResult<TResponse>;
     }
+
+    return { ...result, data: endpoint.map(result.data) };
   }
 
-  async get<T>(path: string, config?: AxiosRequestConfig) {
+  // HTTP Methods
+  async get<T>(path: string, config?: RequestConfig): Promise<ApiResult<T>> {
     return this.request<T>(path, { ...config, method: "GET" });
   }
 
-  async post<T>(path: string, body?: any, config?: AxiosRequestConfig) {
-    return this.request<T>(path, {
-      ...config,
-      method: "POST",
-      data: body,
-    });
+  async post<T>(
+    path: string,
+    body?: unknown,
+    config?: RequestConfig,
+  ): Promise<ApiResult<T>> {
+    return this.request<T>(path, { ...config, method: "POST", body });
   }
 
-  async put<T>(path: string, body?: any, config?: AxiosRequestConfig) {
-    return this.request<T>(path, {
-      ...config,
-      method: "PUT",
-      data: body,
-    });
+  async put<T>(
+    path: string,
+    body?: unknown,
+    config?: RequestConfig,
+  ): Promise<ApiResult<T>> {
+    return this.request<T>(path, { ...config, method: "PUT", body });
   }
 
-  async patch<T>(path: string, body?: any, config?: AxiosRequestConfig) {
-    return this.request<T>(path, {
-      ...config,
-      method: "PATCH",
-      data: body,
-    });
+  async patch<T>(
+    path: string,
+    body?: unknown,
+    config?: RequestConfig,
+  ): Promise<ApiResult<T>> {
+    return this.request<T>(path, { ...config, method: "PATCH", body });
   }
 
-  async delete<T>(path: string, config?: AxiosRequestConfig) {
+  async delete<T>(path: string, config?: RequestConfig): Promise<ApiResult<T>> {
     return this.request<T>(path, { ...config, method: "DELETE" });
   }
 }
 
-// Auth API methods (using server actions for login/register, proxy for others)
-export const clientApi = {
-  // Note: Login and Register use Server Actions, not this client
-  // This client is for authenticated API calls after login
-
-  requestOtp: async (email: string) => {
-    const client = new ApiClient();
-    return client.post("auth/otp/request", { email });
-  },
-
-  verifyOtp: async (email: string, code: string) => {
-    const client = new ApiClient();
-    return client.post("auth/otp/verify", { email, code });
-  },
-
-  forgotPassword: async (email: string) => {
-    const client = new ApiClient();
-    return client.post("auth/forgot-password", { email });
-  },
-
-  resetPassword: async (email: string, otp: string, newPassword: string) => {
-    const client = new ApiClient();
-    return client.post("auth/reset-password", { email, otp, newPassword });
-  },
-
-  googleLogin: async (code: string) => {
-    const client = new ApiClient();
-    return client.post("auth/google-login", { code });
-  },
-
-  refreshToken: async () => {
-    const client = new ApiClient();
-    return client.post("auth/refresh");
-  },
-
-  // Product API methods
-  getProducts: async (params?: {
-    keyword?: string;
-    categoryId?: string;
-    minPrice?: number;
-    maxPrice?: number;
-    page?: number;
-    size?: number;
-  }) => {
-    const client = new ApiClient();
-    const queryParams = new URLSearchParams();
-    if (params?.keyword) queryParams.append("keyword", params.keyword);
-    if (params?.categoryId) queryParams.append("categoryId", params.categoryId);
-    if (params?.minPrice)
-      queryParams.append("minPrice", params.minPrice.toString());
-    if (params?.maxPrice)
-      queryParams.append("maxPrice", params.maxPrice.toString());
-    if (params?.page) queryParams.append("page", params.page.toString());
-    if (params?.size) queryParams.append("size", params.size.toString());
-
-    const query = queryParams.toString();
-    return client.get(`products${query ? `?${query}` : ""}`);
-  },
-
-  getProductById: async (id: string) => {
-    const client = new ApiClient();
-    return client.get(`products/${id}`);
-  },
-
-  getProductBySlug: async (slug: string) => {
-    const client = new ApiClient();
-    return client.get(`products/slug/${slug}`);
-  },
-
-  createProduct: async (product: any) => {
-    const client = new ApiClient();
-    return client.post("products", product);
-  },
-
-  createDraftProduct: async (product: any) => {
-    const client = new ApiClient();
-    return client.post("products/draft", product);
-  },
-
-  updateProduct: async (id: string, product: any) => {
-    const client = new ApiClient();
-    return client.put(`products/${id}`, product);
-  },
-
-  updateProductInfo: async (id: string, product: any) => {
-    const client = new ApiClient();
-    return client.patch(`products/${id}`, product);
-  },
-
-  deleteProduct: async (id: string) => {
-    const client = new ApiClient();
-    return client.delete(`products/${id}`);
-  },
-
-  // Category API methods
-  getCategories: async () => {
-    const client = new ApiClient();
-    return client.get("categories");
-  },
-
-  // Variant API methods
-  createVariant: async (productId: string, variant: any) => {
-    const client = new ApiClient();
-    return client.post(`products/${productId}/variants`, variant);
-  },
-
-  updateVariant: async (variantId: string, variant: any) => {
-    const client = new ApiClient();
-    return client.put(`products/variants/${variantId}`, variant);
-  },
-
-  updateVariantInfo: async (variantId: string, variant: any) => {
-    const client = new ApiClient();
-    return client.put(`products/variants/${variantId}/info`, variant);
-  },
-
-  updateVariantStatus: async (variantId: string, variant: any) => {
-    const client = new ApiClient();
-    return client.put(`products/variants/${variantId}/status`, variant);
-  },
-
-  deleteVariant: async (variantId: string) => {
-    const client = new ApiClient();
-    return client.delete(`products/variants/${variantId}`);
-  },
-
-  // Inventory API methods
-  importStock: async (data: {
-    variantId: string;
-    quantity: number;
-    importPrice: number;
-    note?: string;
-  }) => {
-    const client = new ApiClient();
-    return client.post("inventory/import", data);
-  },
-
-  adjustStock: async (data: {
-    variantId: string;
-    quantityDelta: number;
-    reason: string;
-    reference?: string;
-  }) => {
-    const client = new ApiClient();
-    return client.post("inventory/adjust", data);
-  },
-
-  getInventories: async (params?: {
-    keyword?: string;
-    page?: number;
-    size?: number;
-  }) => {
-    const client = new ApiClient();
-    const queryParams = new URLSearchParams();
-    if (params?.keyword) queryParams.append("keyword", params.keyword);
-    if (params?.page !== undefined)
-      queryParams.append("page", params.page.toString());
-    if (params?.size !== undefined)
-      queryParams.append("size", params.size.toString());
-
-    const query = queryParams.toString();
-    return client.get(`inventory${query ? `?${query}` : ""}`);
-  },
-
-  getInventoryByVariant: async (variantId: string) => {
-    const client = new ApiClient();
-    return client.get(`inventory/variant/${variantId}`);
-  },
-
-  getInventoryTransactions: async (
-    variantId: string,
-    page: number = 0,
-    size: number = 20,
-  ) => {
-    const client = new ApiClient();
-    return client.get(
-      `inventory/variant/${variantId}/transactions?page=${page}&size=${size}`,
-    );
-  },
+// ============================================================================
+// Export singleton instance
+// ============================================================================
 
-  getInventoryStatuses: async (variantIds: string[]) => {
-    const client = new ApiClient();
-    // Convert strings to numbers if backend expects Long
-    const ids = variantIds.map((id) => parseInt(id)).filter((id) => !isNaN(id));
-    return client.post("inventory/status", ids);
-  },
-};
+const apiClient = new ApiClient();
 
-// Export the Axios instance for direct use if needed
-export { axiosInstance };
+export default apiClient;
 
-export default new ApiClient();
+export { apiClient, ApiClient };
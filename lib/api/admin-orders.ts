@@ -0,0 +1,196 @@
+/**
+ * Admin Orders API Service
+ * Back-office order listing, detail and fulfilment workflow
+ * Uses the unified API client from lib/api-client.ts
+ */
+
+import apiClient, { ApiResult } from "@/lib/api-client";
+import { z } from "zod";
+import {
+  idSchema,
+  optionalString,
+  orderDetailSchema,
+  orderSummarySchema,
+  parseOrderResponse,
+  paymentMethodSchema,
+  paymentStatusSchema,
+  type OrderStatus,
+  type PaymentStatus,
+} from "@/lib/types/order";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+const adminOrderSummarySchema = orderSummarySchema.extend({
+  paymentMethod: paymentMethodSchema,
+  paymentStatus: paymentStatusSchema,
+  customerName: optionalString,
+  customerEmail: optionalString,
+});
+
+const adminOrderDetailSchema = orderDetailSchema.extend({
+  customerId: idSchema.nullish().transform((value) => value ?? undefined),
+  customerName: optionalString,
+  customerEmail: optionalString,
+  cancelReason: optionalString,
+});
+
+export type AdminOrderSummary = z.infer<typeof adminOrderSummarySchema>;
+export type AdminOrderDetail = z.infer<typeof adminOrderDetailSchema>;
+
+export interface AdminOrderSearchParams {
+  keyword?: string;
+  status?: OrderStatus | "ALL";
+  paymentStatus?: PaymentStatus | "ALL";
+  /** Inclusive start date (YYYY-MM-DD) */
+  fromDate?: string;
+  /** Inclusive end date (YYYY-MM-DD) */
+  toDate?: string;
+  sort?: string;
+  page?: number; // 0-indexed
+  size?: number;
+}
+
+export interface UpdateOrderStatusRequest {
+  status: OrderStatus;
+  note?: string;
+}
+
+export interface CancelOrderRequest {
+  reason?: string;
+}
+
+// ============================================================================
+// Fulfilment Workflow
+// ============================================================================
+
+/**
+ * Forward-only fulfilment flow: PENDING → CONFIRMED → SHIPPING → COMPLETED
+ */
+export const ORDER_FULFILMENT_FLOW: OrderStatus[] = [
+  "PENDING",
+  "CONFIRMED",
+  "SHIPPING",
+  "COMPLETED",
+];
+
+/**
+ * Get the next status in the fulfilment flow, or null if the order
+ * is already completed, cancelled or returned.
+ */
+export function getNextOrderStatus(status: OrderStatus): OrderStatus | null {
+  const index = ORDER_FULFILMENT_FLOW.indexOf(status);
+  if (index === -1 || index === ORDER_FULFILMENT_FLOW.length - 1) return null;
+  return ORDER_FULFILMENT_FLOW[index + 1];
+}
+
+/**
+ * Orders can be cancelled by staff until they leave the warehouse
+ */
+export function canCancelOrder(status: OrderStatus): boolean {
+  return status === "PENDING" || status === "CONFIRMED";
+}
+
+// ============================================================================
+// API Functions
+// ============================================================================
+
+/**
+ * Search orders across all customers
+ * GET /api/v1/admin/orders
+ *
+ * Required Permission: SHOP_ORDER_VIEW
+ */
+export async function searchOrders(
+  params: AdminOrderSearchParams = {},
+): Promise<ApiResult<AdminOrderSummary[]>> {
+  const queryParams: Record<string, string | number | undefined> = {};
+
+  if (params.keyword) queryParams.keyword = params.keyword;
+  if (params.status && params.status !== "ALL")
+    queryParams.status = params.status;
+  if (params.paymentStatus && params.paymentStatus !== "ALL")
+    queryParams.paymentStatus = params.paymentStatus;
+  if (params.fromDate) queryParams.fromDate = params.fromDate;
+  if (params.toDate) queryParams.toDate = params.toDate;
+  if (params.sort) queryParams.sort = params.sort;
+  if (params.page !== undefined) queryParams.page = params.page;
+  if (params.size !== undefined) queryParams.size = params.size;
+
+  const result = await apiClient.get("admin/orders", {
+    params: queryParams,
+    cache: "no-store",
+  });
+  return parseOrderResponse(
+    result,
+    adminOrderSummarySchema.array(),
+    "admin searchOrders",
+  );
+}
+
+/**
+ * Get order detail by order code
+ * GET /api/v1/admin/orders/{orderCode}
+ *
+ * Required Permission: SHOP_ORDER_VIEW
+ */
+export async function getOrderDetail(
+  orderCode: string,
+): Promise<ApiResult<AdminOrderDetail>> {
+  const result = await apiClient.get(`admin/orders/${orderCode}`, {
+    cache: "no-store",
+  });
+  return parseOrderResponse(result, adminOrderDetailSchema, "admin getOrderDetail");
+}
+
+/**
+ * Move an order to the next fulfilment status
+ * PATCH /api/v1/admin/orders/{orderCode}/status
+ *
+ * Required Permission: SHOP_ORDER_PROCESS
+ */
+export async function updateOrderStatus(
+  orderCode: string,
+  data: UpdateOrderStatusRequest,
+): Promise<ApiResult<AdminOrderDetail>> {
+  const result = await apiClient.patch(
+    `admin/orders/${orderCode}/status`,
+    data,
+  );
+  return parseOrderResponse(
+    result,
+    adminOrderDetailSchema,
+    "admin updateOrderStatus",
+  );
+}
+
+/**
+ * Cancel an order on behalf of the store
+ * POST /api/v1/admin/orders/{orderCode}/cancel
+ *
+ * Required Permission: SHOP_ORDER_CANCEL
+ */
+export async function cancelOrder(
+  orderCode: string,
+  data: CancelOrderRequest = {},
+): Promise<ApiResult<AdminOrderDetail>> {
+  const result = await apiClient.post(
+    `admin/orders/${orderCode}/cancel`,
+    data,
+  );
+  return parseOrderResponse(result, adminOrderDetailSchema, "admin cancelOrder");
+}
+
+// ============================================================================
+// Export as default object for cleaner imports
+// ============================================================================
+
+export const adminOrdersApi = {
+  searchOrders,
+  getOrderDetail,
+  updateOrderStatus,
+  cancelOrder,
+};
+
+export default adminOrdersApi;
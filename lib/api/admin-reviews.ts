@@ -0,0 +1,115 @@
+/**
+ * Admin Reviews API Service
+ * Moderation queue for customer reviews
+ * Uses the unified API client from lib/api-client.ts
+ *
+ * Required Permission: SHOP_REVIEW_MODERATE
+ */
+
+import apiClient, { defineEndpoint } from "@/lib/api-client";
+import type { ApiResult } from "@/lib/types/product";
+import type { AdminReview, ReviewStatus } from "@/lib/types/review";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface AdminReviewSearchParams {
+  keyword?: string;
+  status?: ReviewStatus | "ALL";
+  rating?: number;
+  page?: number;
+  size?: number;
+}
+
+export interface RejectReviewRequest {
+  reviewId: string;
+  reason: string;
+}
+
+// ============================================================================
+// Endpoints
+// ============================================================================
+
+const adminReviewEndpoints = {
+  search: defineEndpoint<AdminReviewSearchParams, AdminReview[]>({
+    method: "GET",
+    path: "admin/reviews",
+    query: (params) => ({
+      keyword: params.keyword,
+      status: params.status === "ALL" ? undefined : params.status,
+      rating: params.rating,
+      page: params.page,
+      size: params.size,
+    }),
+    init: { cache: "no-store" },
+  }),
+  approve: defineEndpoint<string, AdminReview>({
+    method: "POST",
+    path: (reviewId) => `admin/reviews/${reviewId}/approve`,
+  }),
+  reject: defineEndpoint<RejectReviewRequest, AdminReview>({
+    method: "POST",
+    path: ({ reviewId }) => `admin/reviews/${reviewId}/reject`,
+    body: ({ reason }) => ({ reason }),
+  }),
+  remove: defineEndpoint<string, void>({
+    method: "DELETE",
+    path: (reviewId) => `admin/reviews/${reviewId}`,
+  }),
+};
+
+// ============================================================================
+// API Functions
+// ============================================================================
+
+/**
+ * Search reviews across all products, newest first
+ * GET /api/v1/admin/reviews
+ */
+export async function searchReviews(
+  params: AdminReviewSearchParams = {},
+): Promise<ApiResult<AdminReview[]>> {
+  return apiClient.call(adminReviewEndpoints.search, params);
+}
+
+/**
+ * Publish a pending or rejected review
+ * POST /api/v1/admin/reviews/{reviewId}/approve
+ */
+export async function approveReview(
+  reviewId: string,
+): Promise<ApiResult<AdminReview>> {
+  return apiClient.call(adminReviewEndpoints.approve, reviewId);
+}
+
+/**
+ * Hide a review from the storefront; the reason is kept for the audit trail
+ * POST /api/v1/admin/reviews/{reviewId}/reject
+ */
+export async function rejectReview(
+  request: RejectReviewRequest,
+): Promise<ApiResult<AdminReview>> {
+  return apiClient.call(adminReviewEndpoints.reject, request);
+}
+
+/**
+ * Permanently delete a review (spam, abuse)
+ * DELETE /api/v1/admin/reviews/{reviewId}
+ */
+export async function deleteReview(reviewId: string): Promise<ApiResult<void>> {
+  return apiClient.call(adminReviewEndpoints.remove, reviewId);
+}
+
+// ============================================================================
+// Export as default object for cleaner imports
+// ============================================================================
+
+export const adminReviewsApi = {
+  searchReviews,
+  approveReview,
+  rejectReview,
+  deleteReview,
+};
+
+export default adminReviewsApi;
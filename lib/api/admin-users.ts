@@ -0,0 +1,195 @@
+/**
+ * Admin Users & Roles API Service
+ * Back-office account administration, role assignment and role definitions
+ * Uses the unified API client from lib/api-client.ts
+ */
+
+import apiClient from "@/lib/api-client";
+import type { ApiResult } from "@/lib/types/product";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type UserAccountStatus = "ACTIVE" | "LOCKED" | "PENDING";
+
+export interface AdminUser {
+  id: string;
+  fullName: string;
+  email: string;
+  phone?: string;
+  avatarUrl?: string;
+  status: UserAccountStatus;
+  /** Role codes assigned to the user, e.g. ["ADMIN", "STAFF"] */
+  roles: string[];
+  createdAt: string;
+  lastLoginAt?: string;
+  lockReason?: string;
+}
+
+export interface AdminUserSearchParams {
+  keyword?: string;
+  status?: UserAccountStatus | "ALL";
+  role?: string | "ALL";
+  sort?: string;
+  page?: number; // 0-indexed
+  size?: number;
+}
+
+export interface Role {
+  id: string;
+  code: string;
+  name: string;
+  description?: string;
+  /** Granted permissions; may contain wildcards such as "shop.*" or "*" */
+  permissions: string[];
+  /** Built-in roles cannot be deleted or renamed */
+  system?: boolean;
+  userCount?: number;
+}
+
+export interface RoleRequest {
+  code: string;
+  name: string;
+  description?: string;
+  permissions: string[];
+}
+
+export interface LockUserRequest {
+  reason?: string;
+}
+
+export interface AssignRolesRequest {
+  roles: string[];
+}
+
+// ============================================================================
+// User API Functions
+// ============================================================================
+
+/**
+ * Search user accounts
+ * GET /api/v1/admin/users
+ *
+ * Required Permission: IAM_USER_VIEW
+ */
+export async function searchUsers(
+  params: AdminUserSearchParams = {},
+): Promise<ApiResult<AdminUser[]>> {
+  const queryParams: Record<string, string | number | undefined> = {};
+
+  if (params.keyword) queryParams.keyword = params.keyword;
+  if (params.status && params.status !== "ALL")
+    queryParams.status = params.status;
+  if (params.role && params.role !== "ALL") queryParams.role = params.role;
+  if (params.sort) queryParams.sort = params.sort;
+  if (params.page !== undefined) queryParams.page = params.page;
+  if (params.size !== undefined) queryParams.size = params.size;
+
+  return apiClient.get<AdminUser[]>("admin/users", {
+    params: queryParams,
+    cache: "no-store",
+  });
+}
+
+/**
+ * Lock a user account, revoking its active sessions
+ * POST /api/v1/admin/users/{userId}/lock
+ *
+ * Required Permission: IAM_USER_UPDATE
+ */
+export async function lockUser(
+  userId: string,
+  data: LockUserRequest = {},
+): Promise<ApiResult<AdminUser>> {
+  return apiClient.post<AdminUser>(`admin/users/${userId}/lock`, data);
+}
+
+/**
+ * Unlock a previously locked user account
+ * POST /api/v1/admin/users/{userId}/unlock
+ *
+ * Required Permission: IAM_USER_UPDATE
+ */
+export async function unlockUser(
+  userId: string,
+): Promise<ApiResult<AdminUser>> {
+  return apiClient.post<AdminUser>(`admin/users/${userId}/unlock`, {});
+}
+
+/**
+ * Replace the roles assigned to a user
+ * PUT /api/v1/admin/users/{userId}/roles
+ *
+ * Required Permission: IAM_ROLE_ASSIGN
+ */
+export async function assignRoles(
+  userId: string,
+  data: AssignRolesRequest,
+): Promise<ApiResult<AdminUser>> {
+  return apiClient.put<AdminUser>(`admin/users/${userId}/roles`, data);
+}
+
+// ============================================================================
+// Role API Functions
+// ============================================================================
+
+/**
+ * List all roles with their permission sets
+ * GET /api/v1/admin/roles
+ *
+ * Required Permission: IAM_ROLE_VIEW
+ */
+export async function getRoles(): Promise<ApiResult<Role[]>> {
+  return apiClient.get<Role[]>("admin/roles", { cache: "no-store" });
+}
+
+/**
+ * Create a role
+ * POST /api/v1/admin/roles
+ *
+ * Required Permission: IAM_ROLE_CREATE
+ */
+export async function createRole(data: RoleRequest): Promise<ApiResult<Role>> {
+  return apiClient.post<Role>("admin/roles", data);
+}
+
+/**
+ * Update a role's name, description and permissions
+ * PUT /api/v1/admin/roles/{roleId}
+ *
+ * Required Permission: IAM_ROLE_UPDATE
+ */
+export async function updateRole(
+  roleId: string,
+  data: RoleRequest,
+): Promise<ApiResult<Role>> {
+  return apiClient.put<Role>(`admin/roles/${roleId}`, data);
+}
+
+/**
+ * Delete a role. The backend rejects deletion of system roles
+ * DELETE /api/v1/admin/roles/{roleId}
+ *
+ * Required Permission: IAM_ROLE_DELETE
+ */
+export async function deleteRole(roleId: string): Promise<ApiResult<void>> {
+  return apiClient.delete<void>(`admin/roles/${roleId}`);
+}
+
+// ============================================================================
+// Export as default object for cleaner imports
+// ============================================================================
+
+export const adminUsersApi = {
+  searchUsers,
+  lockUser,
+  unlockUser,
+  assignRoles,
+  getRoles,
+  createRole,
+  updateRole,
+  deleteRole,
+};
+
+export default adminUsersApi;
@@ -3,7 +3,7 @@
  * All endpoints automatically handle X-Guest-ID and Authorization headers via fetch client
  */
 
-import fetchClient, { ApiResponse } from "@/lib/fetch-client";
+import apiClient, { ApiResult } from "@/lib/api-client";
 
 /**
  * Cart Item Response from backend
@@ -75,8 +75,8 @@ export interface UpdateCartItemRequest {
  * Backend automatically handles merge logic when both userId and guestId are present
  * @returns Cart response with enriched product details
  */
-export async function getMyCart(): Promise<ApiResponse<CartResponse>> {
-  return fetchClient.get<CartResponse>("carts");
+export async function getMyCart(): Promise<ApiResult<CartResponse>> {
+  return apiClient.get<CartResponse>("carts");
 }
 
 /**
@@ -87,8 +87,8 @@ export async function getMyCart(): Promise<ApiResponse<CartResponse>> {
  */
 export async function addToCart(
   data: AddToCartRequest,
-): Promise<ApiResponse<CartResponse>> {
-  return fetchClient.post<CartResponse>("carts/items", data);
+): Promise<ApiResult<CartResponse>> {
+  return apiClient.post<CartResponse>("carts/items", data);
 }
 
 /**
@@ -100,8 +100,8 @@ export async function addToCart(
 export async function updateItem(
   id: number,
   quantity: number,
-): Promise<ApiResponse<CartResponse>> {
-  return fetchClient.put<CartResponse>(`carts/items/${id}`, { quantity });
+): Promise<ApiResult<CartResponse>> {
+  return apiClient.put<CartResponse>(`carts/items/${id}`, { quantity });
 }
 
 /**
@@ -111,8 +111,8 @@ export async function updateItem(
  */
 export async function removeItem(
   id: number,
-): Promise<ApiResponse<CartResponse>> {
-  return fetchClient.delete<CartResponse>(`carts/items/${id}`);
+): Promise<ApiResult<CartResponse>> {
+  return apiClient.delete<CartResponse>(`carts/items/${id}`);
 }
 
 /**
@@ -120,8 +120,8 @@ export async function removeItem(
  * Works for both authenticated users and guests
  * @returns Updated cart response (empty cart)
  */
-export async function removeAllItems(): Promise<ApiResponse<CartResponse>> {
-  return fetchClient.delete<CartResponse>("carts/items");
+export async function removeAllItems(): Promise<ApiResult<CartResponse>> {
+  return apiClient.delete<CartResponse>("carts/items");
 }
 
 /**
@@ -132,6 +132,6 @@ export async function removeAllItems(): Promise<ApiResponse<CartResponse>> {
  */
 export async function applyPromotionCode(
   promotionCode: string,
-): Promise<ApiResponse<CartResponse>> {
-  return fetchClient.put<CartResponse>("carts/promotion", { promotionCode });
+): Promise<ApiResult<CartResponse>> {
+  return apiClient.put<CartResponse>("carts/promotion", { promotionCode });
 }
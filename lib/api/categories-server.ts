@@ -5,11 +5,9 @@
  * Use these functions in Server Components for optimal performance.
  */
 
+import apiClient from "@/lib/api-client";
 import type { CategoryResponse, ApiResult } from "../types/product";
 
-const API_BACKEND_URL =
-  process.env.NEXT_PUBLIC_API_URL || "http://localhost:8080";
-
 /**
  * Server-side: Get all categories with caching
  *
@@ -20,39 +18,30 @@ const API_BACKEND_URL =
 export async function getAllCategoriesServer(): Promise<
   ApiResult<CategoryResponse[]>
 > {
-  try {
-    const response = await fetch(`${API_BACKEND_URL}/api/v1/categories`, {
-      headers: { "Content-Type": "application/json" },
-      next: {
-        revalidate: 300, // 5 minutes
-        tags: ["categories"],
-      },
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      return {
-        error: {
-          code: "FETCH_ERROR",
-          message: errorData?.error?.message || "Failed to fetch categories",
-        },
-      };
-    }
-
-    const data = await response.json();
-
-    // Normalize response structure
-    const categories = data?.data?.data || data?.data || [];
-
-    return { data: categories };
-  } catch (error: any) {
+  const result = await apiClient.get<
+    CategoryResponse[] | { data: CategoryResponse[] }
+  >("categories", {
+    next: {
+      revalidate: 300, // 5 minutes
+      tags: ["categories"],
+    },
+  });
+
+  if (result.error) {
     return {
       error: {
-        code: "NETWORK_ERROR",
-        message: error.message || "Network error",
+        ...result.error,
+        message: result.error.message || "Failed to fetch categories",
       },
     };
   }
+
+  // Normalize response structure
+  const categories = Array.isArray(result.data)
+    ? result.data
+    : result.data?.data || [];
+
+  return { data: categories };
 }
 
 /**
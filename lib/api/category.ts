@@ -1,15 +1,16 @@
 /**
  * Category API Service
  * Based on api-flows-for-frontend.md
- * Uses the native fetch client from lib/fetch-client.ts
+ * Uses the unified API client from lib/api-client.ts
  */
 
-import fetchClient from "../fetch-client";
+import apiClient, { CallConfig } from "@/lib/api-client";
 import type {
   CategoryResponse,
   CreateCategoryRequest,
   UpdateCategoryRequest,
   UpdateCategoryStatusRequest,
+  ReorderCategoryRequest,
   ApiResult,
 } from "../types/product";
 
@@ -32,10 +33,10 @@ import type {
  * }
  * ```
  */
-export async function getAllCategories(): Promise<
-  ApiResult<CategoryResponse[]>
-> {
-  return fetchClient.get<CategoryResponse[]>("categories");
+export async function getAllCategories(
+  config?: CallConfig,
+): Promise<ApiResult<CategoryResponse[]>> {
+  return apiClient.get<CategoryResponse[]>("categories", config);
 }
 
 /**
@@ -50,8 +51,7 @@ export async function getAllCategories(): Promise<
 export async function getCategoryById(
   id: string,
 ): Promise<ApiResult<CategoryResponse>> {
-  // Note: This endpoint is not in clientApi yet, need to add it
-  // For now, we'll fetch all categories and find the one we need
+  // No single-category endpoint - fetch all categories and find the one we need
   const allCategoriesResult = await getAllCategories();
 
   if (!allCategoriesResult.data) {
@@ -108,7 +108,7 @@ export async function getCategoryById(
 export async function getCategoryBySlug(
   slug: string,
 ): Promise<ApiResult<CategoryResponse>> {
-  // Similar to getCategoryById, we need to implement this in clientApi
+  // Similar to getCategoryById, search the full tree
   const allCategoriesResult = await getAllCategories();
 
   if (!allCategoriesResult.data) {
@@ -181,7 +181,7 @@ export async function getCategoryBySlug(
 export async function createCategory(
   data: CreateCategoryRequest,
 ): Promise<ApiResult<CategoryResponse>> {
-  return fetchClient.post<CategoryResponse>("categories", data);
+  return apiClient.post<CategoryResponse>("categories", data);
 }
 
 /**
@@ -207,7 +207,7 @@ export async function updateCategory(
   id: string,
   data: UpdateCategoryRequest,
 ): Promise<ApiResult<CategoryResponse>> {
-  return fetchClient.put<CategoryResponse>(`categories/${id}`, data);
+  return apiClient.put<CategoryResponse>(`categories/${id}`, data);
 }
 
 /**
@@ -228,7 +228,7 @@ export async function updateCategoryStatus(
   id: string,
   data: UpdateCategoryStatusRequest,
 ): Promise<ApiResult<CategoryResponse>> {
-  return fetchClient.patch<CategoryResponse>(`categories/${id}/status`, data);
+  return apiClient.patch<CategoryResponse>(`categories/${id}/status`, data);
 }
 
 /**
@@ -247,7 +247,7 @@ export async function updateCategoryStatus(
  * ```
  */
 export async function deleteCategory(id: string): Promise<ApiResult<void>> {
-  return fetchClient.delete<void>(`categories/${id}`);
+  return apiClient.delete<void>(`categories/${id}`);
 }
 
 // ============================================================================
@@ -452,26 +452,152 @@ export function sortCategoriesByName(
   }));
 }
 
+/**
+ * Where a category sits in the tree: under `parentId` (null = root) at `index`
+ */
+export interface CategoryPlacement {
+  parentId: string | null;
+  index: number;
+}
+
+/**
+ * Find the parent and sibling index of a category
+ */
+export function getCategoryPlacement(
+  categories: CategoryResponse[],
+  id: string,
+  parentId: string | null = null,
+): CategoryPlacement | null {
+  for (let index = 0; index < categories.length; index++) {
+    const category = categories[index];
+    if (category.id === id) {
+      return { parentId, index };
+    }
+
+    if (category.children && category.children.length > 0) {
+      const found = getCategoryPlacement(category.children, id, category.id);
+      if (found) return found;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check if `id` is `ancestorId` itself or one of its descendants
+ */
+export function isInSubtree(
+  categories: CategoryResponse[],
+  ancestorId: string,
+  id: string,
+): boolean {
+  const ancestor = findCategory(categories, (cat) => cat.id === ancestorId);
+  if (!ancestor) return false;
+
+  return findCategory([ancestor], (cat) => cat.id === id) !== null;
+}
+
+/**
+ * Categories that hold products must stay leaves (leaf-only inventory rule)
+ */
+export function canNestCategory(category: CategoryResponse): boolean {
+  return !category.productCount || category.productCount <= 0;
+}
+
+/**
+ * Move a category (with its subtree) to a new placement
+ * `placement.index` is the category's final index among its new siblings
+ * Returns a new tree; the input is left untouched
+ */
+export function moveCategoryInTree(
+  categories: CategoryResponse[],
+  id: string,
+  placement: CategoryPlacement,
+): CategoryResponse[] {
+  let moved: CategoryResponse | null = null;
+
+  const remove = (nodes: CategoryResponse[]): CategoryResponse[] =>
+    nodes
+      .filter((node) => {
+        if (node.id !== id) return true;
+        moved = node;
+        return false;
+      })
+      .map((node) => ({ ...node, children: remove(node.children || []) }));
+
+  const withoutNode = remove(categories);
+  const target = moved as CategoryResponse | null;
+  if (!target) return categories;
+
+  const relocated: CategoryResponse = { ...target, parentId: placement.parentId };
+  const insert = (siblings: CategoryResponse[]) => {
+    const next = [...siblings];
+    const index = Math.max(0, Math.min(placement.index, next.length));
+    next.splice(index, 0, relocated);
+    return next;
+  };
+
+  if (placement.parentId === null) {
+    return insert(withoutNode);
+  }
+
+  const insertUnder = (nodes: CategoryResponse[]): CategoryResponse[] =>
+    nodes.map((node) =>
+      node.id === placement.parentId
+        ? { ...node, children: insert(node.children || []) }
+        : { ...node, children: insertUnder(node.children || []) },
+    );
+
+  return insertUnder(withoutNode);
+}
+
+/**
+ * Build the reorder payload for the sibling lists under the given parents
+ * Positions and parents are read from the (already moved) tree
+ */
+export function buildReorderPayload(
+  categories: CategoryResponse[],
+  parentIds: Array<string | null>,
+): ReorderCategoryRequest[] {
+  const payload: ReorderCategoryRequest[] = [];
+
+  for (const parentId of new Set(parentIds)) {
+    const siblings =
+      parentId === null
+        ? categories
+        : findCategory(categories, (cat) => cat.id === parentId)?.children || [];
+
+    siblings.forEach((category, position) => {
+      payload.push({ id: category.id, parentId, position });
+    });
+  }
+
+  return payload;
+}
+
 /**
  * Reorder categories by updating their positions
  * PATCH /api/v1/categories/reorder
  *
  * Required Permission: CATEGORY_UPDATE
  *
- * @param requests Array of { id, position } objects
+ * The batch is applied atomically, so a move across levels sends both the
+ * old and the new sibling lists in one request
+ *
+ * @param requests Array of { id, position, parentId? } objects
  * @example
  * ```ts
  * const result = await categoryApi.reorderCategories([
  *   { id: '100', position: 0 },
  *   { id: '101', position: 1 },
- *   { id: '102', position: 2 }
+ *   { id: '102', position: 0, parentId: '100' }
  * ]);
  * ```
  */
 export async function reorderCategories(
-  requests: Array<{ id: string; position: number }>
+  requests: ReorderCategoryRequest[]
 ): Promise<ApiResult<void>> {
-  return fetchClient.patch<void>("categories/reorder", requests);
+  return apiClient.patch<void>("categories/reorder", requests);
 }
 
 // Export as default object for cleaner imports
@@ -497,6 +623,11 @@ export const categoryApi = {
   filterCategories,
   getActiveCategories,
   sortCategoriesByName,
+  getCategoryPlacement,
+  isInSubtree,
+  canNestCategory,
+  moveCategoryInTree,
+  buildReorderPayload,
 };
 
 export default categoryApi;
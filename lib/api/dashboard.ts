@@ -0,0 +1,165 @@
+/**
+ * Dashboard API Service
+ * Store-wide metrics, activity feed and stock alerts for the admin overview
+ * Uses the unified API client from lib/api-client.ts
+ */
+
+import apiClient from "@/lib/api-client";
+import type { ApiResult } from "@/lib/types/product";
+import type { InventoryItem } from "@/lib/types/inventory";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Comparison window for period-over-period metrics
+ */
+export type DashboardPeriod = "7d" | "30d" | "90d";
+
+/**
+ * A single metric with its change versus the previous period
+ */
+export interface MetricSummary {
+  total: number;
+  previousTotal?: number;
+  /** Percentage change vs previous period; null when there is no baseline */
+  changePercent: number | null;
+}
+
+/**
+ * GET /api/v1/admin/dashboard/summary
+ * `revenue` is omitted by the backend unless the caller has SHOP_REVENUE_VIEW
+ */
+export interface DashboardSummary {
+  period: DashboardPeriod;
+  products: MetricSummary;
+  users: MetricSummary;
+  orders: MetricSummary;
+  revenue?: MetricSummary;
+  generatedAt?: string;
+}
+
+export type DashboardActivityType =
+  | "ORDER_PLACED"
+  | "ORDER_CONFIRMED"
+  | "ORDER_COMPLETED"
+  | "ORDER_CANCELLED"
+  | "PRODUCT_CREATED"
+  | "PRODUCT_UPDATED"
+  | "INVENTORY_IMPORT"
+  | "INVENTORY_ADJUST";
+
+/**
+ * Activity feed entry aggregated from order, product and inventory events
+ * GET /api/v1/admin/dashboard/activities
+ */
+export interface DashboardActivity {
+  id: string;
+  type: DashboardActivityType;
+  occurredAt: string; // ISO 8601
+  /** Order code, product ID or variant SKU depending on type */
+  referenceId?: string;
+  /** Human-readable subject: order code, product name or SKU */
+  subject?: string;
+  quantityDelta?: number;
+  actor?: string;
+}
+
+export type ActivitySeverity = "success" | "info" | "warning" | "error";
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Map an activity type to the badge style used in the feed
+ */
+export function getActivitySeverity(
+  type: DashboardActivityType,
+): ActivitySeverity {
+  switch (type) {
+    case "ORDER_PLACED":
+    case "ORDER_COMPLETED":
+      return "success";
+    case "ORDER_CANCELLED":
+      return "error";
+    case "INVENTORY_ADJUST":
+      return "warning";
+    default:
+      return "info";
+  }
+}
+
+/**
+ * Link target for an activity entry, if it references a viewable entity
+ */
+export function getActivityHref(activity: DashboardActivity): string | null {
+  if (!activity.referenceId) return null;
+  if (activity.type.startsWith("ORDER_")) {
+    return `/admin/orders/${activity.referenceId}`;
+  }
+  if (activity.type.startsWith("PRODUCT_")) {
+    return `/admin/products/${activity.referenceId}`;
+  }
+  return "/admin/inventory";
+}
+
+// ============================================================================
+// API Functions
+// ============================================================================
+
+/**
+ * Get headline totals with period-over-period change
+ * GET /api/v1/admin/dashboard/summary
+ *
+ * Required Permission: SHOP_DASHBOARD_VIEW (revenue requires SHOP_REVENUE_VIEW)
+ */
+export async function getDashboardSummary(
+  period: DashboardPeriod = "30d",
+): Promise<ApiResult<DashboardSummary>> {
+  return apiClient.get<DashboardSummary>("admin/dashboard/summary", {
+    params: { period },
+    cache: "no-store",
+  });
+}
+
+/**
+ * Get the most recent order, product and inventory events
+ * GET /api/v1/admin/dashboard/activities
+ */
+export async function getRecentActivities(
+  limit: number = 10,
+): Promise<ApiResult<DashboardActivity[]>> {
+  return apiClient.get<DashboardActivity[]>("admin/dashboard/activities", {
+    params: { limit },
+    cache: "no-store",
+  });
+}
+
+/**
+ * Get variants whose available stock is at or below their reorder level
+ * GET /api/v1/inventory/low-stock
+ *
+ * Required Permission: INVENTORY_STOCK_VIEW
+ */
+export async function getLowStockItems(
+  limit: number = 20,
+): Promise<ApiResult<InventoryItem[]>> {
+  return apiClient.get<InventoryItem[]>("inventory/low-stock", {
+    params: { size: limit },
+    cache: "no-store",
+  });
+}
+
+// ============================================================================
+// Export as default object for cleaner imports
+// ============================================================================
+
+export const dashboardApi = {
+  getDashboardSummary,
+  getRecentActivities,
+  getLowStockItems,
+};
+
+export default dashboardApi;
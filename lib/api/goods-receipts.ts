@@ -0,0 +1,189 @@
+/**
+ * Goods Receipts API Service
+ * Multi-line stock deliveries from suppliers, moving draft -> submitted -> approved.
+ * Approval posts one IMPORT inventory transaction per line, referenced by the receipt code.
+ * Uses the unified API client from lib/api-client.ts
+ *
+ * Required Permission: INVENTORY_RECEIPT_VIEW (reads), INVENTORY_RECEIPT_CREATE
+ * (draft, edit, submit), INVENTORY_RECEIPT_APPROVE (approve, reject)
+ */
+
+import apiClient, { defineEndpoint } from "@/lib/api-client";
+import type { ApiResult } from "@/lib/types/product";
+import type {
+  GoodsReceipt,
+  GoodsReceiptRequest,
+  GoodsReceiptStatus,
+} from "@/lib/types/goods-receipt";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface GoodsReceiptSearchParams {
+  keyword?: string;
+  status?: GoodsReceiptStatus | "ALL";
+  supplierId?: string;
+  page?: number;
+  size?: number;
+}
+
+export interface UpdateGoodsReceiptParams {
+  receiptId: string;
+  request: GoodsReceiptRequest;
+}
+
+export interface RejectGoodsReceiptRequest {
+  receiptId: string;
+  reason: string;
+}
+
+// ============================================================================
+// Endpoints
+// ============================================================================
+
+const goodsReceiptEndpoints = {
+  search: defineEndpoint<GoodsReceiptSearchParams, GoodsReceipt[]>({
+    method: "GET",
+    path: "inventory/receipts",
+    query: (params) => ({
+      keyword: params.keyword || undefined,
+      status: params.status === "ALL" ? undefined : params.status,
+      supplierId: params.supplierId || undefined,
+      page: params.page,
+      size: params.size,
+    }),
+    init: { cache: "no-store" },
+  }),
+  detail: defineEndpoint<string, GoodsReceipt>({
+    method: "GET",
+    path: (receiptId) => `inventory/receipts/${receiptId}`,
+    init: { cache: "no-store" },
+  }),
+  create: defineEndpoint<GoodsReceiptRequest, GoodsReceipt>({
+    method: "POST",
+    path: "inventory/receipts",
+    body: (request) => request,
+  }),
+  update: defineEndpoint<UpdateGoodsReceiptParams, GoodsReceipt>({
+    method: "PUT",
+    path: ({ receiptId }) => `inventory/receipts/${receiptId}`,
+    body: ({ request }) => request,
+  }),
+  remove: defineEndpoint<string, void>({
+    method: "DELETE",
+    path: (receiptId) => `inventory/receipts/${receiptId}`,
+  }),
+  submit: defineEndpoint<string, GoodsReceipt>({
+    method: "POST",
+    path: (receiptId) => `inventory/receipts/${receiptId}/submit`,
+  }),
+  approve: defineEndpoint<string, GoodsReceipt>({
+    method: "POST",
+    path: (receiptId) => `inventory/receipts/${receiptId}/approve`,
+  }),
+  reject: defineEndpoint<RejectGoodsReceiptRequest, GoodsReceipt>({
+    method: "POST",
+    path: ({ receiptId }) => `inventory/receipts/${receiptId}/reject`,
+    body: ({ reason }) => ({ reason }),
+  }),
+};
+
+// ============================================================================
+// API Functions
+// ============================================================================
+
+/**
+ * Search receipts, newest first
+ * GET /api/v1/inventory/receipts
+ */
+export async function searchGoodsReceipts(
+  params: GoodsReceiptSearchParams = {},
+): Promise<ApiResult<GoodsReceipt[]>> {
+  return apiClient.call(goodsReceiptEndpoints.search, params);
+}
+
+/**
+ * Receipt with its lines
+ * GET /api/v1/inventory/receipts/{receiptId}
+ */
+export async function getGoodsReceipt(
+  receiptId: string,
+): Promise<ApiResult<GoodsReceipt>> {
+  return apiClient.call(goodsReceiptEndpoints.detail, receiptId);
+}
+
+/**
+ * Save a new receipt as a draft
+ * POST /api/v1/inventory/receipts
+ */
+export async function createGoodsReceipt(
+  request: GoodsReceiptRequest,
+): Promise<ApiResult<GoodsReceipt>> {
+  return apiClient.call(goodsReceiptEndpoints.create, request);
+}
+
+/**
+ * Replace the supplier, note and lines of a draft
+ * PUT /api/v1/inventory/receipts/{receiptId}
+ */
+export async function updateGoodsReceipt(
+  params: UpdateGoodsReceiptParams,
+): Promise<ApiResult<GoodsReceipt>> {
+  return apiClient.call(goodsReceiptEndpoints.update, params);
+}
+
+/**
+ * Discard a draft
+ * DELETE /api/v1/inventory/receipts/{receiptId}
+ */
+export async function deleteGoodsReceipt(receiptId: string): Promise<ApiResult<void>> {
+  return apiClient.call(goodsReceiptEndpoints.remove, receiptId);
+}
+
+/**
+ * Lock a draft and send it for approval
+ * POST /api/v1/inventory/receipts/{receiptId}/submit
+ */
+export async function submitGoodsReceipt(
+  receiptId: string,
+): Promise<ApiResult<GoodsReceipt>> {
+  return apiClient.call(goodsReceiptEndpoints.submit, receiptId);
+}
+
+/**
+ * Receive the stock: posts an IMPORT transaction for every line
+ * POST /api/v1/inventory/receipts/{receiptId}/approve
+ */
+export async function approveGoodsReceipt(
+  receiptId: string,
+): Promise<ApiResult<GoodsReceipt>> {
+  return apiClient.call(goodsReceiptEndpoints.approve, receiptId);
+}
+
+/**
+ * Send a submitted receipt back to draft with the reason
+ * POST /api/v1/inventory/receipts/{receiptId}/reject
+ */
+export async function rejectGoodsReceipt(
+  request: RejectGoodsReceiptRequest,
+): Promise<ApiResult<GoodsReceipt>> {
+  return apiClient.call(goodsReceiptEndpoints.reject, request);
+}
+
+// ============================================================================
+// Export as default object for cleaner imports
+// ============================================================================
+
+export const goodsReceiptsApi = {
+  searchGoodsReceipts,
+  getGoodsReceipt,
+  createGoodsReceipt,
+  updateGoodsReceipt,
+  deleteGoodsReceipt,
+  submitGoodsReceipt,
+  approveGoodsReceipt,
+  rejectGoodsReceipt,
+};
+
+export default goodsReceiptsApi;
@@ -1,11 +1,14 @@
 /**
  * Import API Service
  * Based on import-api-guide.md
- * Uses the native fetch client from lib/fetch-client.ts
+ * Uses the unified API client from lib/api-client.ts
  */
 
-import fetchClient from "../fetch-client";
+import apiClient from "@/lib/api-client";
+import { parseCsv } from "@/lib/utils/csv";
+import { buildImportErrorLog } from "@/lib/utils/import-error-log";
 import type {
+  ImportErrorLog,
   ImportJob,
   ImportJobListParams,
   PagedImportJobs,
@@ -25,6 +28,8 @@ import type {
  * ```ts
  * const file = new File([csvContent], 'products.csv', { type: 'text/csv' });
  * const result = await importApi.uploadProductCSV(file);
+ * // Re-import of rows that failed in job 17
+ * await importApi.uploadProductCSV(fixedFile, { sourceJobId: 17 });
  * if (result.data) {
  *   // Backend returns { code, message, data: jobId }
  *   // API client wraps it, so result.data = { code, message, data: jobId }
@@ -35,14 +40,19 @@ import type {
  */
 export async function uploadProductCSV(
   file: File,
+  options: { sourceJobId?: number } = {},
 ): Promise<{
   data?: ImportApiResponse<number>;
   error?: { message?: string; code?: string };
 }> {
   const formData = new FormData();
   formData.append("file", file);
+  // Links a re-import of failed rows to the job they came from
+  if (options.sourceJobId !== undefined) {
+    formData.append("sourceJobId", String(options.sourceJobId));
+  }
 
-  return fetchClient.post<ImportApiResponse<number>>(
+  return apiClient.post<ImportApiResponse<number>>(
     "admin/imports/internal/products",
     formData,
   );
@@ -67,7 +77,7 @@ export async function getImportJob(
   data?: ImportApiResponse<ImportJob>;
   error?: { message?: string; code?: string };
 }> {
-  return fetchClient.get<ImportApiResponse<ImportJob>>(`admin/imports/${jobId}`);
+  return apiClient.get<ImportApiResponse<ImportJob>>(`admin/imports/${jobId}`);
 }
 
 /**
@@ -80,7 +90,7 @@ export async function getImportJobStatus(
   data?: ImportApiResponse<ImportJob>;
   error?: { message?: string; code?: string };
 }> {
-  return fetchClient.get<ImportApiResponse<ImportJob>>(
+  return apiClient.get<ImportApiResponse<ImportJob>>(
     `admin/imports/${jobId}/status`,
   );
 }
@@ -116,7 +126,7 @@ export async function listImportJobs(
   if (params?.page !== undefined) queryParams.page = params.page;
   if (params?.size) queryParams.size = params.size;
 
-  return fetchClient.get<ImportApiResponse<PagedImportJobs>>("admin/imports", {
+  return apiClient.get<ImportApiResponse<PagedImportJobs>>("admin/imports", {
     params: queryParams,
   });
 }
@@ -139,7 +149,54 @@ export async function cancelImportJob(
   data?: ImportApiResponse<null>;
   error?: { message?: string; code?: string };
 }> {
-  return fetchClient.delete<ImportApiResponse<null>>(`admin/imports/${jobId}`);
+  return apiClient.delete<ImportApiResponse<null>>(`admin/imports/${jobId}`);
+}
+
+/**
+ * Download and parse the error log of a finished job
+ * The uploaded file is fetched too so failed rows carry their original cells;
+ * if it cannot be read, only the cells included in the log are available.
+ *
+ * @example
+ * ```ts
+ * const result = await importApi.getImportErrorLog(job);
+ * if (result.data) {
+ *   console.log(result.data.failedRows.length, 'rows failed');
+ * }
+ * ```
+ */
+export async function getImportErrorLog(
+  job: ImportJob,
+): Promise<{
+  data?: ImportErrorLog;
+  error?: { message?: string; code?: string };
+}> {
+  if (!job.errorLogUrl) {
+    return { error: { code: "IMPORT_NO_ERROR_LOG", message: "No error log for this job" } };
+  }
+
+  const fetchCsv = async (url: string) => {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Download failed with status ${response.status}`);
+    }
+    return parseCsv(await response.text());
+  };
+
+  try {
+    const [logRows, sourceRows] = await Promise.all([
+      fetchCsv(job.errorLogUrl),
+      job.fileUrl ? fetchCsv(job.fileUrl).catch(() => null) : Promise.resolve(null),
+    ]);
+    return { data: buildImportErrorLog(logRows, sourceRows) };
+  } catch (error) {
+    return {
+      error: {
+        code: "IMPORT_ERROR_LOG_UNAVAILABLE",
+        message: error instanceof Error ? error.message : "Failed to load error log",
+      },
+    };
+  }
 }
 
 // ============================================================================
@@ -199,6 +256,7 @@ export const importApi = {
   getImportJobStatus,
   listImportJobs,
   cancelImportJob,
+  getImportErrorLog,
   waitForJobCompletion,
 };
 
@@ -0,0 +1,252 @@
+/**
+ * Inventory API Service
+ * Stock levels, stock movements and manual stock operations for the admin panel
+ * Uses the unified API client from lib/api-client.ts
+ */
+
+import apiClient, { defineEndpoint, CallConfig } from "@/lib/api-client";
+import type { ApiResult } from "@/lib/types/product";
+import { getSalesVelocity, getVelocityWindowStart } from "@/lib/utils/reorder";
+import type {
+  InventoryItem,
+  InventoryTransaction,
+  ImportStockRequest,
+  AdjustStockRequest,
+  BatchAdjustStockRequest,
+} from "@/lib/types/inventory";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface InventorySearchParams {
+  keyword?: string;
+  categoryId?: string;
+  /** Exact SKU matches */
+  skus?: string[];
+  /** Only variants at or below their reorder level */
+  needsReorder?: boolean;
+  page?: number;
+  size?: number;
+}
+
+export interface InventoryTransactionParams {
+  variantId: string;
+  page?: number;
+  size?: number;
+}
+
+export interface UpdateReorderLevelParams {
+  variantId: string;
+  /** Null clears the level and disables alerts for the variant */
+  reorderLevel: number | null;
+}
+
+const ALL_INVENTORIES_PAGE_SIZE = 100;
+const VELOCITY_PAGE_SIZE = 100;
+
+// ============================================================================
+// Endpoints
+// ============================================================================
+
+const inventoryEndpoints = {
+  list: defineEndpoint<InventorySearchParams, InventoryItem[]>({
+    method: "GET",
+    path: "inventory",
+    query: ({ keyword, categoryId, skus, needsReorder, page, size }) => ({
+      keyword: keyword || undefined,
+      categoryId: categoryId || undefined,
+      skus: skus?.length ? skus.join(",") : undefined,
+      belowReorderLevel: needsReorder || undefined,
+      page,
+      size,
+    }),
+    init: { cache: "no-store" },
+  }),
+  byVariant: defineEndpoint<string, InventoryItem>({
+    method: "GET",
+    path: (variantId) => `inventory/variant/${variantId}`,
+    init: { cache: "no-store" },
+  }),
+  transactions: defineEndpoint<InventoryTransactionParams, InventoryTransaction[]>({
+    method: "GET",
+    path: ({ variantId }) => `inventory/variant/${variantId}/transactions`,
+    query: ({ page = 0, size = 20 }) => ({ page, size }),
+    init: { cache: "no-store" },
+  }),
+  importStock: defineEndpoint<ImportStockRequest, InventoryItem>({
+    method: "POST",
+    path: "inventory/import",
+    body: (request) => request,
+  }),
+  adjustStock: defineEndpoint<AdjustStockRequest, InventoryItem>({
+    method: "POST",
+    path: "inventory/adjust",
+    body: (request) => request,
+  }),
+  adjustStockBatch: defineEndpoint<BatchAdjustStockRequest, InventoryItem[]>({
+    method: "POST",
+    path: "inventory/adjust/batch",
+    body: (request) => request,
+  }),
+  updateReorderLevel: defineEndpoint<UpdateReorderLevelParams, InventoryItem>({
+    method: "PATCH",
+    path: ({ variantId }) => `inventory/variant/${variantId}/reorder-level`,
+    body: ({ reorderLevel }) => ({ reorderLevel }),
+  }),
+};
+
+// ============================================================================
+// API Functions
+// ============================================================================
+
+/**
+ * Paginated stock levels, optionally filtered by keyword, category or SKUs
+ * GET /api/v1/inventory
+ */
+export async function getInventories(
+  params: InventorySearchParams = {},
+  config?: CallConfig,
+): Promise<ApiResult<InventoryItem[]>> {
+  return apiClient.call(inventoryEndpoints.list, params, config);
+}
+
+/**
+ * Every stock level matching the filters, fetched page by page
+ * Used to load the scope of a stock take
+ */
+export async function getAllInventories(
+  params: Omit<InventorySearchParams, "page" | "size"> = {},
+): Promise<ApiResult<InventoryItem[]>> {
+  const items: InventoryItem[] = [];
+
+  for (let page = 0; ; page++) {
+    const result = await getInventories({ ...params, page, size: ALL_INVENTORIES_PAGE_SIZE });
+    if (result.error) return { error: result.error };
+
+    const pageItems = result.data || [];
+    items.push(...pageItems);
+
+    const total = result.meta?.totalElements ?? items.length;
+    if (pageItems.length < ALL_INVENTORIES_PAGE_SIZE || items.length >= total) break;
+  }
+
+  return { data: items };
+}
+
+/**
+ * Stock record for a single variant
+ * GET /api/v1/inventory/variant/{variantId}
+ */
+export async function getInventoryByVariant(
+  variantId: string,
+  config?: CallConfig,
+): Promise<ApiResult<InventoryItem>> {
+  return apiClient.call(inventoryEndpoints.byVariant, variantId, config);
+}
+
+/**
+ * Stock movement history for a variant, newest first
+ * GET /api/v1/inventory/variant/{variantId}/transactions
+ */
+export async function getInventoryTransactions(
+  params: InventoryTransactionParams,
+  config?: CallConfig,
+): Promise<ApiResult<InventoryTransaction[]>> {
+  return apiClient.call(inventoryEndpoints.transactions, params, config);
+}
+
+/**
+ * Units sold per day, from CONFIRM transactions in the velocity window
+ * Reads transaction pages (newest first) until one reaches past the window or the
+ * history runs out; all movement types share the pages, so busy variants need several
+ */
+export async function getVariantSalesVelocity(
+  variantId: string,
+  config?: CallConfig,
+): Promise<ApiResult<number>> {
+  const since = getVelocityWindowStart().getTime();
+  const transactions: InventoryTransaction[] = [];
+
+  for (let page = 0; ; page++) {
+    const result = await getInventoryTransactions(
+      { variantId, page, size: VELOCITY_PAGE_SIZE },
+      config,
+    );
+    if (result.error) return { error: result.error };
+
+    const pageItems = result.data || [];
+    transactions.push(...pageItems);
+
+    const total = result.meta?.totalElements ?? transactions.length;
+    const oldest = pageItems[pageItems.length - 1];
+    if (
+      pageItems.length < VELOCITY_PAGE_SIZE ||
+      transactions.length >= total ||
+      !oldest ||
+      new Date(oldest.createdAt).getTime() < since
+    ) {
+      break;
+    }
+  }
+
+  return { data: getSalesVelocity(transactions) };
+}
+
+/**
+ * Receive stock into the warehouse
+ * POST /api/v1/inventory/import
+ */
+export async function importStock(
+  request: ImportStockRequest,
+): Promise<ApiResult<InventoryItem>> {
+  return apiClient.call(inventoryEndpoints.importStock, request);
+}
+
+/**
+ * Manually correct stock (damage, loss, recount)
+ * POST /api/v1/inventory/adjust
+ */
+export async function adjustStock(
+  request: AdjustStockRequest,
+): Promise<ApiResult<InventoryItem>> {
+  return apiClient.call(inventoryEndpoints.adjustStock, request);
+}
+
+/**
+ * Post all adjustments of a stock take in one request
+ * POST /api/v1/inventory/adjust/batch
+ */
+export async function adjustStockBatch(
+  request: BatchAdjustStockRequest,
+): Promise<ApiResult<InventoryItem[]>> {
+  return apiClient.call(inventoryEndpoints.adjustStockBatch, request);
+}
+
+/**
+ * Set the level at which a variant raises a low-stock alert
+ * PATCH /api/v1/inventory/variant/{variantId}/reorder-level
+ */
+export async function updateReorderLevel(
+  params: UpdateReorderLevelParams,
+): Promise<ApiResult<InventoryItem>> {
+  return apiClient.call(inventoryEndpoints.updateReorderLevel, params);
+}
+
+// ============================================================================
+// Export as object for convenience
+// ============================================================================
+
+export const inventoryApi = {
+  getInventories,
+  getAllInventories,
+  getInventoryByVariant,
+  getInventoryTransactions,
+  getVariantSalesVelocity,
+  importStock,
+  adjustStock,
+  adjustStockBatch,
+  updateReorderLevel,
+};
+
+export default inventoryApi;
@@ -3,7 +3,7 @@
  * Handles Province and Ward data fetching for address forms
  */
 
-import fetchClient from "../fetch-client";
+import apiClient from "@/lib/api-client";
 
 // ============================================================================
 // Types
@@ -53,7 +53,7 @@ export interface ApiResult<T> {
 export async function getAllProvinces(): Promise<
   ApiResult<ProvinceResponse[]>
 > {
-  return fetchClient.get<ProvinceResponse[]>("locations/provinces");
+  return apiClient.get<ProvinceResponse[]>("locations/provinces");
 }
 
 /**
@@ -71,7 +71,7 @@ export async function getAllProvinces(): Promise<
 export async function getWardsByProvince(
   provinceCode: string,
 ): Promise<ApiResult<WardResponse[]>> {
-  return fetchClient.get<WardResponse[]>("locations/wards", {
+  return apiClient.get<WardResponse[]>("locations/wards", {
     params: { provinceCode },
   });
 }
@@ -1,36 +1,26 @@
 ﻿/**
  * Order API Service
- * Handles order creation and management
+ * Handles order creation, customer order history and cancellation
+ * Responses are parsed with the order domain schemas in lib/types/order.ts
  */
 
-import fetchClient from "@/lib/fetch-client";
+import apiClient, { ApiResult } from "@/lib/api-client";
+import {
+  orderCreationSchema,
+  orderDetailSchema,
+  orderSummarySchema,
+  parseOrderResponse,
+  type OrderCreation,
+  type OrderDetail,
+  type OrderStatus,
+  type OrderSummary,
+  type SelectablePaymentMethod,
+} from "@/lib/types/order";
 
 // ============================================================================
 // Types
 // ============================================================================
 
-export type PaymentMethod =
-  | "COD"
-  | "BANK_TRANSFER"
-  | "VN_PAY"
-  | "MOMO"
-  | "E_WALLET";
-
-export type OrderStatus =
-  | "PENDING"
-  | "CONFIRMED"
-  | "SHIPPING"
-  | "COMPLETED"
-  | "CANCELLED"
-  | "RETURNED";
-
-export type PaymentStatus =
-  | "UNPAID"
-  | "PENDING"
-  | "PAID"
-  | "FAILED"
-  | "REFUNDED";
-
 export interface AddressRequest {
   recipientName: string;
   phone: string;
@@ -46,99 +36,15 @@ export interface OrderCreateRequest {
   promoCode?: string;
   contactEmail: string;
   address: AddressRequest;
-  paymentMethod: PaymentMethod;
+  paymentMethod: SelectablePaymentMethod;
   note?: string;
 }
 
-export interface PaymentInfoResponse {
-  paymentMethod: PaymentMethod;
-  paymentStatus: PaymentStatus;
-  paymentUrl?: string;
-  transferContent?: string;
-  qrCodeUrl?: string;
-  bankAccountInfo?: string;
-  expiredAt?: string; // ISO 8601 date string
-}
-
-export interface OrderCreationResponse {
-  orderId: string; // Used internally for database queries (TSID format)
-  orderCode: string; // Displayed to customers (e.g., "ORD-123456")
-  status: OrderStatus;
-  totalAmount: number;
-  itemSummary: string;
-  paymentInfo: PaymentInfoResponse;
-}
-
-export interface OrderSummaryResponse {
-  id: number;
-  code: string;
-  status: OrderStatus;
-  finalAmount: number;
-  createdAt: string;
-  totalItems: number;
-  firstProductThumbnail?: string;
-}
-
-export interface OrderItemResponse {
-  id: number;
-  productId: number;
-  variantId: number;
-  sku: string;
-  productName: string;
-  thumbnailUrl?: string;
-  variantAttributes: string;
-  price: number;
-  quantity: number;
-  subtotal: number;
-}
-
-export interface ShippingAddressSnapshot {
-  recipientName: string;
-  phone: string;
-  fullAddress: string;
-  provinceCode: string;
-  provinceName: string;
-  districtName: string;
-  wardCode: string;
-  wardName: string;
-  detailAddress: string;
-}
-
-export interface OrderDetailResponse {
-  id: number;
-  orderCode: string;
-  status: OrderStatus;
-  paymentMethod: PaymentMethod;
-  paymentStatus: PaymentStatus;
-  createdAt: string;
-  subTotal: number;
-  shippingFee: number;
-  discountAmount: number;
-  finalAmount: number;
-  shippingAddress: ShippingAddressSnapshot;
-  items: OrderItemResponse[];
-  paymentInfo: PaymentInfoResponse;
-}
-
-export interface MyOrderSearchRequest {
-  status?: OrderStatus;
-  sort?: string;
+export interface MyOrderSearchParams {
   page?: number;
   size?: number;
-}
-
-export interface ApiResult<T> {
-  data?: T;
-  error?: {
-    message?: string;
-    code?: string;
-  };
-  meta?: {
-    page: number;
-    size: number;
-    totalElements: number;
-    totalPages?: number;
-  };
+  status?: OrderStatus | "ALL";
+  sort?: string;
 }
 
 // ============================================================================
@@ -154,36 +60,53 @@ export interface ApiResult<T> {
  */
 export async function createOrder(
   request: OrderCreateRequest,
-): Promise<ApiResult<OrderCreationResponse>> {
-  return fetchClient.post<OrderCreationResponse>("me/orders", request);
+): Promise<ApiResult<OrderCreation>> {
+  const result = await apiClient.post("me/orders", request);
+  return parseOrderResponse(result, orderCreationSchema, "createOrder");
 }
 
 /**
- * Get current user's orders
+ * Get current user's orders with filtering and pagination
  * GET /api/v1/me/orders
  */
 export async function getMyOrders(
-  params: MyOrderSearchRequest = {},
-): Promise<ApiResult<OrderSummaryResponse[]>> {
+  params: MyOrderSearchParams = {},
+): Promise<ApiResult<OrderSummary[]>> {
   const queryParams: Record<string, string | number | undefined> = {};
-  if (params.status) queryParams.status = params.status;
-  if (params.sort) queryParams.sort = params.sort;
+
   if (params.page !== undefined) queryParams.page = params.page;
   if (params.size !== undefined) queryParams.size = params.size;
-  
-  return fetchClient.get<OrderSummaryResponse[]>("me/orders", {
+  if (params.status && params.status !== "ALL")
+    queryParams.status = params.status;
+  if (params.sort) queryParams.sort = params.sort;
+
+  const result = await apiClient.get("me/orders", {
     params: queryParams,
   });
+  return parseOrderResponse(result, orderSummarySchema.array(), "getMyOrders");
 }
 
 /**
- * Get order detail by code
+ * Get order detail by order code
  * GET /api/v1/me/orders/{orderCode}
  */
-export async function getOrderDetails(
+export async function getMyOrderDetail(
+  orderCode: string,
+): Promise<ApiResult<OrderDetail>> {
+  const result = await apiClient.get(`me/orders/${orderCode}`);
+  return parseOrderResponse(result, orderDetailSchema, "getMyOrderDetail");
+}
+
+/**
+ * Cancel an order
+ * POST /api/v1/me/orders/{orderCode}/cancel
+ */
+export async function cancelOrder(
   orderCode: string,
-): Promise<ApiResult<OrderDetailResponse>> {
-  return fetchClient.get<OrderDetailResponse>(`me/orders/${orderCode}`);
+): Promise<ApiResult<{ success: boolean }>> {
+  return apiClient.post<{ success: boolean }>(
+    `me/orders/${orderCode}/cancel`,
+  );
 }
 
 // ============================================================================
@@ -193,7 +116,8 @@ export async function getOrderDetails(
 export const orderApi = {
   createOrder,
   getMyOrders,
-  getOrderDetails,
+  getMyOrderDetail,
+  cancelOrder,
 };
 
 export default orderApi;
@@ -0,0 +1,161 @@
+/**
+ * Payment API Service
+ * Handles online gateway callbacks, payment retries and payment method changes
+ */
+
+import apiClient, { API_CLIENT_ERRORS, ApiResult } from "@/lib/api-client";
+import {
+  parseOrderResponse,
+  paymentInfoSchema,
+  type PaymentInfo,
+  type PaymentMethod,
+  type PaymentStatus,
+  type SelectablePaymentMethod,
+} from "@/lib/types/order";
+import {
+  detectReturnGateway,
+  type PaymentReturnGateway,
+} from "@/lib/utils/payment-gateway";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type PaymentReturnOutcome = "SUCCESS" | "FAILED" | "PENDING";
+
+/**
+ * Result of verifying a gateway redirect to /payment/return
+ * The backend checks the gateway signature before reporting an outcome
+ */
+export interface PaymentReturnResponse {
+  orderCode: string;
+  paymentMethod: PaymentMethod;
+  paymentStatus: PaymentStatus;
+  outcome: PaymentReturnOutcome;
+  amount?: number;
+  transactionId?: string;
+  message?: string;
+}
+
+const RETURN_ENDPOINTS: Record<Exclude<PaymentReturnGateway, "MOCK">, string> = {
+  VN_PAY: "payments/vnpay/return",
+  MOMO: "payments/momo/return",
+};
+
+// ============================================================================
+// API Functions
+// ============================================================================
+
+/**
+ * Mock callbacks are verified by a local route, outside the backend proxy,
+ * so they are fetched directly and mapped to the same ApiResult contract
+ */
+async function verifyMockReturn(
+  params: Record<string, string>,
+): Promise<ApiResult<PaymentReturnResponse>> {
+  const query = new URLSearchParams(params).toString();
+
+  try {
+    const response = await fetch(`/api/mock-gateway/verify?${query}`);
+    const body: ApiResult<PaymentReturnResponse> = await response
+      .json()
+      .catch(() => ({}));
+
+    if (!response.ok || body.error || !body.data) {
+      return {
+        error: {
+          ...body.error,
+          code: body.error?.code || String(response.status),
+          message:
+            body.error?.message ||
+            response.statusText ||
+            "Failed to verify payment",
+        },
+      };
+    }
+
+    return { data: body.data };
+  } catch (error: unknown) {
+    return {
+      error: {
+        code: API_CLIENT_ERRORS.NETWORK_ERROR,
+        message: (error as Error)?.message || "Network error",
+      },
+    };
+  }
+}
+
+/**
+ * Verify the query string a gateway appended to /payment/return
+ * GET /api/v1/payments/{gateway}/return
+ *
+ * Mock gateway callbacks are verified by the local /api/mock-gateway/verify route
+ */
+export async function verifyPaymentReturn(
+  params: Record<string, string>,
+): Promise<ApiResult<PaymentReturnResponse>> {
+  const gateway = detectReturnGateway(params);
+
+  if (!gateway) {
+    return {
+      error: {
+        code: "PAYMENT_RETURN_INVALID",
+        message: "Unrecognised payment gateway callback",
+      },
+    };
+  }
+
+  if (gateway === "MOCK") {
+    return verifyMockReturn(params);
+  }
+
+  return apiClient.get<PaymentReturnResponse>(RETURN_ENDPOINTS[gateway], {
+    params,
+  });
+}
+
+/**
+ * Start a new payment for an unpaid order
+ * POST /api/v1/me/orders/{orderCode}/payment/retry
+ *
+ * Also regenerates the VietQR code of an expired bank transfer
+ *
+ * @returns Fresh payment info with a new paymentUrl / qrCodeUrl and expiredAt
+ */
+export async function retryPayment(
+  orderCode: string,
+): Promise<ApiResult<PaymentInfo>> {
+  const result = await apiClient.post(
+    `me/orders/${orderCode}/payment/retry`,
+  );
+  return parseOrderResponse(result, paymentInfoSchema, "retryPayment");
+}
+
+/**
+ * Switch an unpaid order to another payment method
+ * PUT /api/v1/me/orders/{orderCode}/payment-method
+ *
+ * @returns Payment info for the new method
+ */
+export async function changePaymentMethod(
+  orderCode: string,
+  paymentMethod: SelectablePaymentMethod,
+): Promise<ApiResult<PaymentInfo>> {
+  const result = await apiClient.put(
+    `me/orders/${orderCode}/payment-method`,
+    { paymentMethod },
+  );
+  return parseOrderResponse(result, paymentInfoSchema, "changePaymentMethod");
+}
+
+// ============================================================================
+// Export as default object for cleaner imports
+// ============================================================================
+
+export const paymentApi = {
+  verifyPaymentReturn,
+  retryPayment,
+  changePaymentMethod,
+};
+
+export default paymentApi;
@@ -0,0 +1,214 @@
+/**
+ * Product Bulk Operations
+ * Runs one admin action over many products and collects per-row failures,
+ * plus the CSV export of the admin product search
+ * Uses the per-product endpoints from lib/api/product.ts
+ *
+ * Required Permission: SHOP_PRODUCT_UPDATE (actions), SHOP_REPORT_EXPORT (export)
+ */
+
+import { productApi } from "@/lib/api/product";
+import { searchAdminProducts } from "@/lib/api/products";
+import { toCsv, type CsvColumn } from "@/lib/utils/csv";
+import type {
+  ProductResponseAdmin,
+  ProductSearchRequest,
+  VariantResponse,
+} from "@/lib/types/product";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ProductStatus = ProductResponseAdmin["status"];
+
+export type ProductBulkAction =
+  | { type: "status"; status: ProductStatus }
+  | { type: "category"; categoryId: string }
+  | { type: "price"; percent: number }
+  | { type: "archive" };
+
+export interface ProductBulkFailure {
+  id: string;
+  name: string;
+  message: string;
+}
+
+export interface ProductBulkResult {
+  succeededIds: string[];
+  failures: ProductBulkFailure[];
+}
+
+export interface ProductBulkProgress {
+  done: number;
+  total: number;
+}
+
+/** Accepted range for percentage price adjustments */
+export const PRICE_ADJUSTMENT_LIMITS = { min: -90, max: 500 };
+
+/** Page size used when walking every page for export */
+const EXPORT_PAGE_SIZE = 100;
+
+// ============================================================================
+// Bulk actions
+// ============================================================================
+
+/**
+ * Apply a percentage to a VND price, rounded to whole dong
+ */
+export function adjustPrice(price: number, percent: number): number {
+  return Math.max(0, Math.round(price * (1 + percent / 100)));
+}
+
+/**
+ * Run the action for a single product
+ * Returns an error message, or null on success
+ */
+async function applyToProduct(
+  product: ProductResponseAdmin,
+  action: ProductBulkAction,
+): Promise<string | null> {
+  switch (action.type) {
+    case "status":
+    case "archive": {
+      const productStatus = action.type === "archive" ? "ARCHIVED" : action.status;
+      const result = await productApi.updateProductStatus(product.id, { productStatus });
+      return result.error ? result.error.message || "Status update rejected" : null;
+    }
+    case "category": {
+      const result = await productApi.updateProductInfo(product.id, {
+        categoryId: action.categoryId,
+      });
+      return result.error ? result.error.message || "Category update rejected" : null;
+    }
+    case "price": {
+      // Variants carry the real selling prices; the product min price follows them
+      const variants = product.variants || [];
+      for (const variant of variants) {
+        const result = await productApi.updateVariantInfo(variant.id, {
+          attributes: variant.attributes,
+          sellingPrice: adjustPrice(variant.sellingPrice, action.percent),
+        });
+        if (result.error) {
+          return `${variant.sku}: ${result.error.message || "Price update rejected"}`;
+        }
+      }
+
+      const result = await productApi.updateProductInfo(product.id, {
+        minPrice: adjustPrice(product.minPrice, action.percent),
+      });
+      return result.error ? result.error.message || "Price update rejected" : null;
+    }
+  }
+}
+
+/**
+ * Run an action over the selected products one at a time
+ * A failing product never stops the batch; its message is collected instead
+ */
+export async function runProductBulkAction(
+  products: ProductResponseAdmin[],
+  action: ProductBulkAction,
+  onProgress?: (progress: ProductBulkProgress) => void,
+): Promise<ProductBulkResult> {
+  const result: ProductBulkResult = { succeededIds: [], failures: [] };
+
+  for (const [index, product] of products.entries()) {
+    let message: string | null;
+    try {
+      message = await applyToProduct(product, action);
+    } catch (error) {
+      message = error instanceof Error ? error.message : "Unexpected error";
+    }
+
+    if (message) {
+      result.failures.push({ id: product.id, name: product.name, message });
+    } else {
+      result.succeededIds.push(product.id);
+    }
+    onProgress?.({ done: index + 1, total: products.length });
+  }
+
+  return result;
+}
+
+// ============================================================================
+// CSV export
+// ============================================================================
+
+interface ProductExportRow {
+  product: ProductResponseAdmin;
+  variant?: VariantResponse;
+}
+
+const formatAttributes = (variant?: VariantResponse) =>
+  Object.entries(variant?.attributes || {})
+    .map(([key, value]) => `${key}: ${value}`)
+    .join("; ");
+
+const EXPORT_COLUMNS: CsvColumn<ProductExportRow>[] = [
+  { header: "product_id", value: ({ product }) => product.id },
+  { header: "name", value: ({ product }) => product.name },
+  { header: "slug", value: ({ product }) => product.slug },
+  { header: "category", value: ({ product }) => product.categoryName },
+  { header: "status", value: ({ product }) => product.status },
+  { header: "min_price", value: ({ product }) => product.minPrice },
+  { header: "sku", value: ({ variant }) => variant?.sku },
+  { header: "attributes", value: ({ variant }) => formatAttributes(variant) },
+  { header: "selling_price", value: ({ variant }) => variant?.sellingPrice },
+  { header: "original_price", value: ({ variant }) => variant?.originalPrice },
+  { header: "cost_price", value: ({ variant }) => variant?.costPrice },
+  { header: "quantity", value: ({ variant }) => variant?.quantity },
+  { header: "variant_active", value: ({ variant }) => variant?.isActive },
+  { header: "created_at", value: ({ product }) => product.createdAt },
+  { header: "updated_at", value: ({ product }) => product.updatedAt },
+];
+
+/**
+ * Build a CSV of every product matching the current admin filters
+ * One row per variant; products without variants get a single row
+ * Throws when a page fails to load (searchAdminProducts throws)
+ */
+export async function exportProductsCsv(
+  params: ProductSearchRequest,
+  onProgress?: (progress: ProductBulkProgress) => void,
+): Promise<{ csv: string; productCount: number }> {
+  const products: ProductResponseAdmin[] = [];
+  let page = 1;
+  let totalPages = 1;
+
+  do {
+    const result = await searchAdminProducts({
+      ...params,
+      page,
+      size: EXPORT_PAGE_SIZE,
+    });
+    products.push(...(result.data || []));
+    totalPages = result.meta?.totalPages || 1;
+    onProgress?.({ done: page, total: totalPages });
+    page++;
+  } while (page <= totalPages);
+
+  const rows = products.flatMap<ProductExportRow>((product) =>
+    product.variants?.length
+      ? product.variants.map((variant) => ({ product, variant }))
+      : [{ product }],
+  );
+
+  // Names and SKUs are free text, and admins open the export in Excel
+  const csv = toCsv(rows, EXPORT_COLUMNS, { guardFormulas: true });
+  return { csv, productCount: products.length };
+}
+
+// ============================================================================
+// Export as default object for cleaner imports
+// ============================================================================
+
+export const productBulkApi = {
+  runProductBulkAction,
+  exportProductsCsv,
+  adjustPrice,
+};
+
+export default productBulkApi;
@@ -1,12 +1,13 @@
 ﻿/**
  * Product API Service
  * Based on api-flows-for-frontend.md
- * Uses the native fetch client from lib/fetch-client.ts
+ * Uses the unified API client from lib/api-client.ts
  */
 
-import fetchClient from "@/lib/fetch-client";
+import apiClient from "@/lib/api-client";
 import type {
   ProductResponse,
+  VariantResponse,
   CreateProductRequest,
   CreateDraftProductRequest,
   UpdateProductRequest,
@@ -51,7 +52,7 @@ export async function getAllProducts(
   if (params?.page) queryParams.page = params.page;
   if (params?.size) queryParams.size = params.size;
 
-  return fetchClient.get<ProductListResponse>("products", {
+  return apiClient.get<ProductListResponse>("products", {
     params: queryParams,
   });
 }
@@ -68,7 +69,7 @@ export async function getAllProducts(
 export async function getProductById(
   id: string,
 ): Promise<ApiResult<ProductResponse>> {
-  return fetchClient.get<ProductResponse>(`products/${id}`);
+  return apiClient.get<ProductResponse>(`products/${id}`);
 }
 
 /**
@@ -83,7 +84,7 @@ export async function getProductById(
 export async function getProductBySlug(
   slug: string,
 ): Promise<ApiResult<ProductResponse>> {
-  return fetchClient.get<ProductResponse>(`products/slug/${slug}`);
+  return apiClient.get<ProductResponse>(`products/slug/${slug}`);
 }
 
 /**
@@ -117,7 +118,7 @@ export async function getProductBySlug(
 export async function createProduct(
   data: CreateProductRequest,
 ): Promise<ApiResult<ProductResponse>> {
-  return fetchClient.post<ProductResponse>("products", data);
+  return apiClient.post<ProductResponse>("products", data);
 }
 
 /**
@@ -140,7 +141,7 @@ export async function createProduct(
 export async function createDraftProduct(
   data: CreateDraftProductRequest,
 ): Promise<ApiResult<ProductResponse>> {
-  return fetchClient.post<ProductResponse>("products/draft", data);
+  return apiClient.post<ProductResponse>("products/draft", data);
 }
 
 /**
@@ -181,7 +182,7 @@ export async function updateProduct(
   id: string,
   data: UpdateProductRequest,
 ): Promise<ApiResult<ProductResponse>> {
-  return fetchClient.put<ProductResponse>(`products/${id}`, data);
+  return apiClient.put<ProductResponse>(`products/${id}`, data);
 }
 
 /**
@@ -203,7 +204,7 @@ export async function updateProductInfo(
   id: string,
   data: UpdateProductInfoRequest,
 ): Promise<ApiResult<ProductResponse>> {
-  return fetchClient.patch<ProductResponse>(`products/${id}`, data);
+  return apiClient.patch<ProductResponse>(`products/${id}`, data);
 }
 
 /**
@@ -223,7 +224,7 @@ export async function updateProductStatus(
   id: string,
   data: { productStatus: string },
 ): Promise<ApiResult<ProductResponse>> {
-  return fetchClient.patch<ProductResponse>(`products/${id}/status`, data);
+  return apiClient.patch<ProductResponse>(`products/${id}/status`, data);
 }
 
 /**
@@ -238,7 +239,7 @@ export async function updateProductStatus(
  * ```
  */
 export async function deleteProduct(id: string): Promise<ApiResult<void>> {
-  return fetchClient.delete<void>(`products/${id}`);
+  return apiClient.delete<void>(`products/${id}`);
 }
 
 // ============================================================================
@@ -270,8 +271,8 @@ export async function deleteProduct(id: string): Promise<ApiResult<void>> {
 export async function addVariant(
   productId: string,
   data: CreateVariantRequest,
-): Promise<ApiResult<ProductResponse>> {
-  return fetchClient.post<ProductResponse>(
+): Promise<ApiResult<VariantResponse>> {
+  return apiClient.post<VariantResponse>(
     `products/${productId}/variants`,
     data,
   );
@@ -299,8 +300,8 @@ export async function addVariant(
 export async function updateVariant(
   variantId: string,
   data: UpdateVariantRequest,
-): Promise<ApiResult<ProductResponse>> {
-  return fetchClient.put<ProductResponse>(
+): Promise<ApiResult<VariantResponse>> {
+  return apiClient.put<VariantResponse>(
     `products/variants/${variantId}`,
     data,
   );
@@ -323,8 +324,8 @@ export async function updateVariant(
 export async function updateVariantInfo(
   variantId: string,
   data: UpdateVariantInfoRequest,
-): Promise<ApiResult<ProductResponse>> {
-  return fetchClient.put<ProductResponse>(
+): Promise<ApiResult<VariantResponse>> {
+  return apiClient.put<VariantResponse>(
     `products/variants/${variantId}/info`,
     data,
   );
@@ -346,8 +347,8 @@ export async function updateVariantInfo(
 export async function updateVariantStatus(
   variantId: string,
   data: UpdateVariantStatusRequest,
-): Promise<ApiResult<ProductResponse>> {
-  return fetchClient.put<ProductResponse>(
+): Promise<ApiResult<VariantResponse>> {
+  return apiClient.put<VariantResponse>(
     `products/variants/${variantId}/status`,
     data,
   );
@@ -367,7 +368,7 @@ export async function updateVariantStatus(
 export async function deleteVariant(
   variantId: string,
 ): Promise<ApiResult<void>> {
-  return fetchClient.delete<void>(`products/variants/${variantId}`);
+  return apiClient.delete<void>(`products/variants/${variantId}`);
 }
 
 // ============================================================================
@@ -6,13 +6,7 @@ import {
   ApiResult,
   ProductResponse,
 } from "@/lib/types/product";
-
-// For client-side calls (use proxy)
-const API_PROXY_URL = "/api/proxy";
-
-// For server-side calls (direct to backend for caching)
-const API_BACKEND_URL =
-  process.env.NEXT_PUBLIC_API_URL || "http://localhost:8080";
+import apiClient, { defineEndpoint, CallConfig } from "@/lib/api-client";
 
 /**
  * Build query string from ProductSearchRequest
@@ -44,6 +38,53 @@ function buildQueryString(params: ProductSearchRequest): string {
   return searchParams.toString();
 }
 
+function withDefaults(params: ProductSearchRequest): ProductSearchRequest {
+  return {
+    page: 1,
+    size: 20,
+    sort: "newest",
+    ...params,
+  };
+}
+
+/**
+ * Return the result or throw - product loaders surface failures to error boundaries
+ */
+function orThrow<T>(result: ApiResult<T>, message: string): PaginatedApiResult<T> {
+  if (result.error || result.data === undefined) {
+    throw new Error(`${message}: ${result.error?.message ?? "No data"}`);
+  }
+  return { data: result.data, meta: result.meta };
+}
+
+// ============================================================================
+// Endpoints
+// ============================================================================
+
+const productEndpoints = {
+  search: defineEndpoint<ProductSearchRequest, ProductListingDto[]>({
+    method: "GET",
+    path: (params) => `products?${buildQueryString(withDefaults(params))}`,
+  }),
+  searchAdmin: defineEndpoint<ProductSearchRequest, ProductResponseAdmin[]>({
+    method: "GET",
+    path: (params) => `products/admin?${buildQueryString(withDefaults(params))}`,
+    init: { cache: "no-store" }, // Admin needs fresh data
+  }),
+  listingById: defineEndpoint<string, ProductListingDto>({
+    method: "GET",
+    path: (id) => `products/${id}`,
+  }),
+  detailById: defineEndpoint<string, ProductResponse>({
+    method: "GET",
+    path: (id) => `products/${id}`,
+  }),
+  bySlug: defineEndpoint<string, ProductResponse>({
+    method: "GET",
+    path: (slug) => `products/slug/${slug}`,
+  }),
+};
+
 /**
  * PUBLIC API - Customer/Storefront product search (Client-side)
  * Uses proxy for authentication handling
@@ -52,28 +93,11 @@ function buildQueryString(params: ProductSearchRequest): string {
  * which uses the BFF endpoint for better performance
  */
 export async function searchPublicProducts(
-  params: ProductSearchRequest = {}
+  params: ProductSearchRequest = {},
+  config?: CallConfig
 ): Promise<PaginatedApiResult<ProductListingDto[]>> {
-  const queryString = buildQueryString({
-    page: 1,
-    size: 20,
-    sort: "newest",
-    ...params,
-  });
-
-  const response = await fetch(`${API_PROXY_URL}/products?${queryString}`, {
-    method: "GET",
-    headers: {
-      "Content-Type": "application/json",
-    },
-    credentials: "include",
-  });
-
-  if (!response.ok) {
-    throw new Error(`Failed to fetch products: ${response.statusText}`);
-  }
-
-  return response.json();
+  const result = await apiClient.call(productEndpoints.search, params, config);
+  return orThrow(result, "Failed to fetch products");
 }
 
 /**
@@ -84,32 +108,13 @@ export async function searchProductsServer(
   params: ProductSearchRequest = {},
   options?: { revalidate?: number; tags?: string[] }
 ): Promise<PaginatedApiResult<ProductListingDto[]>> {
-  const queryString = buildQueryString({
-    page: 1,
-    size: 20,
-    sort: "newest",
-    ...params,
+  const result = await apiClient.call(productEndpoints.search, params, {
+    next: {
+      revalidate: options?.revalidate ?? 60, // Default 60 second cache
+      tags: options?.tags ?? ["products"],
+    },
   });
-
-  const response = await fetch(
-    `${API_BACKEND_URL}/api/v1/products?${queryString}`,
-    {
-      method: "GET",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      next: {
-        revalidate: options?.revalidate ?? 60, // Default 60 second cache
-        tags: options?.tags ?? ["products"],
-      },
-    }
-  );
-
-  if (!response.ok) {
-    throw new Error(`Failed to fetch products: ${response.statusText}`);
-  }
-
-  return response.json();
+  return orThrow(result, "Failed to fetch products");
 }
 
 /**
@@ -117,32 +122,11 @@ export async function searchProductsServer(
  * No caching - admin always needs fresh data
  */
 export async function searchAdminProducts(
-  params: ProductSearchRequest = {}
+  params: ProductSearchRequest = {},
+  config?: CallConfig
 ): Promise<PaginatedApiResult<ProductResponseAdmin[]>> {
-  const queryString = buildQueryString({
-    page: 1,
-    size: 20,
-    sort: "newest",
-    ...params,
-  });
-
-  const response = await fetch(
-    `${API_PROXY_URL}/products/admin?${queryString}`,
-    {
-      method: "GET",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      credentials: "include",
-      cache: "no-store", // Admin needs fresh data
-    }
-  );
-
-  if (!response.ok) {
-    throw new Error(`Failed to fetch admin products: ${response.statusText}`);
-  }
-
-  return response.json();
+  const result = await apiClient.call(productEndpoints.searchAdmin, params, config);
+  return orThrow(result, "Failed to fetch admin products");
 }
 
 /**
@@ -151,18 +135,8 @@ export async function searchAdminProducts(
 export async function getProductById(
   id: string
 ): Promise<ApiResult<ProductListingDto>> {
-  const response = await fetch(`${API_PROXY_URL}/products/${id}`, {
-    method: "GET",
-    headers: {
-      "Content-Type": "application/json",
-    },
-  });
-
-  if (!response.ok) {
-    throw new Error(`Failed to fetch product: ${response.statusText}`);
-  }
-
-  return response.json();
+  const result = await apiClient.call(productEndpoints.listingById, id);
+  return orThrow(result, "Failed to fetch product");
 }
 
 /**
@@ -171,22 +145,13 @@ export async function getProductById(
 export async function getProductByIdServer(
   id: string
 ): Promise<ApiResult<ProductListingDto>> {
-  const response = await fetch(`${API_BACKEND_URL}/api/v1/products/${id}`, {
-    method: "GET",
-    headers: {
-      "Content-Type": "application/json",
-    },
+  const result = await apiClient.call(productEndpoints.listingById, id, {
     next: {
       revalidate: 300, // 5 minute cache for product detail
       tags: ["products", `product-${id}`],
     },
   });
-
-  if (!response.ok) {
-    throw new Error(`Failed to fetch product: ${response.statusText}`);
-  }
-
-  return response.json();
+  return orThrow(result, "Failed to fetch product");
 }
 
 /**
@@ -195,18 +160,8 @@ export async function getProductByIdServer(
 export async function getProductBySlug(
   slug: string
 ): Promise<ApiResult<ProductResponse>> {
-  const response = await fetch(`${API_PROXY_URL}/products/slug/${slug}`, {
-    method: "GET",
-    headers: {
-      "Content-Type": "application/json",
-    },
-  });
-
-  if (!response.ok) {
-    throw new Error(`Failed to fetch product: ${response.statusText}`);
-  }
-
-  return response.json();
+  const result = await apiClient.call(productEndpoints.bySlug, slug);
+  return orThrow(result, "Failed to fetch product");
 }
 
 /**
@@ -215,25 +170,13 @@ export async function getProductBySlug(
 export async function getProductBySlugServer(
   slug: string
 ): Promise<ApiResult<ProductResponse>> {
-  const response = await fetch(
-    `${API_BACKEND_URL}/api/v1/products/slug/${slug}`,
-    {
-      method: "GET",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      next: {
-        revalidate: 300, // 5 minute cache for product detail
-        tags: ["products", `product-${slug}`],
-      },
-    }
-  );
-
-  if (!response.ok) {
-    throw new Error(`Failed to fetch product: ${response.statusText}`);
-  }
-
-  return response.json();
+  const result = await apiClient.call(productEndpoints.bySlug, slug, {
+    next: {
+      revalidate: 300, // 5 minute cache for product detail
+      tags: ["products", `product-${slug}`],
+    },
+  });
+  return orThrow(result, "Failed to fetch product");
 }
 
 /**
@@ -245,26 +188,13 @@ export async function getProductBySlugServer(
 export async function resolveProductSlug(
   slug: string
 ): Promise<{ productId: string } | null> {
-  const response = await fetch(
-    `${API_BACKEND_URL}/api/v1/products/slug/${slug}`,
-    {
-      method: "GET",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      next: {
-        revalidate: 300, // 5 minute cache
-        tags: ["products", `product-slug-${slug}`],
-      },
-    }
-  );
-
-  if (!response.ok) {
-    return null;
-  }
+  const result = await apiClient.call(productEndpoints.bySlug, slug, {
+    next: {
+      revalidate: 300, // 5 minute cache
+      tags: ["products", `product-slug-${slug}`],
+    },
+  });
 
-  const result: ApiResult<ProductResponse> = await response.json();
-  
   if (!result.data?.id) {
     return null;
   }
@@ -279,20 +209,11 @@ export async function resolveProductSlug(
 export async function getProductDetailByIdServer(
   id: string
 ): Promise<ApiResult<ProductResponse>> {
-  const response = await fetch(`${API_BACKEND_URL}/api/v1/products/${id}`, {
-    method: "GET",
-    headers: {
-      "Content-Type": "application/json",
-    },
+  const result = await apiClient.call(productEndpoints.detailById, id, {
     next: {
       revalidate: 300, // 5 minute cache for product detail
       tags: ["products", `product-${id}`],
     },
   });
-
-  if (!response.ok) {
-    throw new Error(`Failed to fetch product: ${response.statusText}`);
-  }
-
-  return response.json();
+  return orThrow(result, "Failed to fetch product");
 }
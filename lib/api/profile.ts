@@ -5,7 +5,7 @@
  * when the Spring Boot backend is ready.
  */
 
-import fetchClient from "@/lib/fetch-client";
+import apiClient from "@/lib/api-client";
 import type {
   UserProfile,
   UpdateProfileRequest,
@@ -41,7 +41,7 @@ export const PROFILE_API_ENDPOINTS = {
  * Get current user profile
  */
 export async function getProfile(): Promise<ProfileApiResponse<UserProfile>> {
-  return fetchClient.get<UserProfile>(PROFILE_API_ENDPOINTS.GET_PROFILE);
+  return apiClient.get<UserProfile>(PROFILE_API_ENDPOINTS.GET_PROFILE);
 }
 
 /**
@@ -50,7 +50,7 @@ export async function getProfile(): Promise<ProfileApiResponse<UserProfile>> {
 export async function updateProfile(
   data: UpdateProfileRequest,
 ): Promise<ProfileApiResponse<UserProfile>> {
-  return fetchClient.put<UserProfile>(
+  return apiClient.put<UserProfile>(
     PROFILE_API_ENDPOINTS.UPDATE_PROFILE,
     data,
   );
@@ -64,7 +64,7 @@ export async function uploadFile(
 ): Promise<ProfileApiResponse<string>> {
   const formData = new FormData();
   formData.append("file", file);
-  return fetchClient.post<string>(PROFILE_API_ENDPOINTS.UPLOAD_FILE, formData);
+  return apiClient.post<string>(PROFILE_API_ENDPOINTS.UPLOAD_FILE, formData);
 }
 
 /**
@@ -75,7 +75,7 @@ export async function uploadAvatar(
 ): Promise<ProfileApiResponse<{ avatarUrl: string }>> {
   const formData = new FormData();
   formData.append("file", file);
-  return fetchClient.post<{ avatarUrl: string }>(
+  return apiClient.post<{ avatarUrl: string }>(
     PROFILE_API_ENDPOINTS.UPLOAD_AVATAR,
     formData,
   );
@@ -87,7 +87,7 @@ export async function uploadAvatar(
 export async function getAddresses(): Promise<
   ProfileApiResponse<UserAddress[]>
 > {
-  return fetchClient.get<UserAddress[]>(PROFILE_API_ENDPOINTS.GET_ADDRESSES);
+  return apiClient.get<UserAddress[]>(PROFILE_API_ENDPOINTS.GET_ADDRESSES);
 }
 
 /**
@@ -96,7 +96,7 @@ export async function getAddresses(): Promise<
 export async function createAddress(
   data: AddressRequest,
 ): Promise<ProfileApiResponse<UserAddress>> {
-  return fetchClient.post<UserAddress>(
+  return apiClient.post<UserAddress>(
     PROFILE_API_ENDPOINTS.CREATE_ADDRESS,
     data,
   );
@@ -109,7 +109,7 @@ export async function updateAddress(
   id: string,
   data: AddressRequest,
 ): Promise<ProfileApiResponse<UserAddress>> {
-  return fetchClient.put<UserAddress>(
+  return apiClient.put<UserAddress>(
     PROFILE_API_ENDPOINTS.UPDATE_ADDRESS(id),
     data,
   );
@@ -121,7 +121,7 @@ export async function updateAddress(
 export async function deleteAddress(
   id: string,
 ): Promise<ProfileApiResponse<void>> {
-  return fetchClient.delete<void>(PROFILE_API_ENDPOINTS.DELETE_ADDRESS(id));
+  return apiClient.delete<void>(PROFILE_API_ENDPOINTS.DELETE_ADDRESS(id));
 }
 
 /**
@@ -130,7 +130,7 @@ export async function deleteAddress(
 export async function getUserVouchers(): Promise<
   ProfileApiResponse<UserVoucher[]>
 > {
-  return fetchClient.get<UserVoucher[]>(PROFILE_API_ENDPOINTS.GET_VOUCHERS);
+  return apiClient.get<UserVoucher[]>(PROFILE_API_ENDPOINTS.GET_VOUCHERS);
 }
 
 // Export all functions as a namespace object
@@ -0,0 +1,113 @@
+/**
+ * Product Review API Service
+ * Public reviews for the product page and review submission for buyers
+ * Uses the unified API client from lib/api-client.ts
+ */
+
+import apiClient, { defineEndpoint, CallConfig } from "@/lib/api-client";
+import type { ApiResult } from "@/lib/types/product";
+import type {
+  CreateReviewRequest,
+  ProductReview,
+  ReviewablePurchase,
+  ReviewSearchParams,
+  ReviewSummary,
+} from "@/lib/types/review";
+
+// ============================================================================
+// Endpoints
+// ============================================================================
+
+const reviewEndpoints = {
+  list: defineEndpoint<
+    { productId: string; params: ReviewSearchParams },
+    ProductReview[]
+  >({
+    method: "GET",
+    path: ({ productId }) => `products/${productId}/reviews`,
+    query: ({ params }) => ({
+      page: params.page,
+      size: params.size,
+      sort: params.sort,
+      rating: params.rating,
+      withPhotos: params.withPhotos || undefined,
+    }),
+  }),
+  summary: defineEndpoint<string, ReviewSummary>({
+    method: "GET",
+    path: (productId) => `products/${productId}/reviews/summary`,
+  }),
+  eligibility: defineEndpoint<string, ReviewablePurchase[]>({
+    method: "GET",
+    path: (productId) => `products/${productId}/reviews/eligibility`,
+  }),
+  create: defineEndpoint<CreateReviewRequest, ProductReview>({
+    method: "POST",
+    path: ({ productId }) => `products/${productId}/reviews`,
+    body: (request) => request,
+  }),
+};
+
+// ============================================================================
+// API Functions
+// ============================================================================
+
+/**
+ * Approved reviews for a product, paginated
+ * GET /api/v1/products/{productId}/reviews
+ */
+export async function getProductReviews(
+  productId: string,
+  params: ReviewSearchParams = {},
+  config?: CallConfig,
+): Promise<ApiResult<ProductReview[]>> {
+  return apiClient.call(reviewEndpoints.list, { productId, params }, config);
+}
+
+/**
+ * Average rating and star histogram for a product
+ * GET /api/v1/products/{productId}/reviews/summary
+ */
+export async function getReviewSummary(
+  productId: string,
+  config?: CallConfig,
+): Promise<ApiResult<ReviewSummary>> {
+  return apiClient.call(reviewEndpoints.summary, productId, config);
+}
+
+/**
+ * The signed-in shopper's purchases of a product that can be reviewed
+ * GET /api/v1/products/{productId}/reviews/eligibility
+ */
+export async function getReviewEligibility(
+  productId: string,
+  config?: CallConfig,
+): Promise<ApiResult<ReviewablePurchase[]>> {
+  return apiClient.call(reviewEndpoints.eligibility, productId, config);
+}
+
+/**
+ * Submit a review for a purchased variant
+ * POST /api/v1/products/{productId}/reviews
+ *
+ * The backend rejects reviews without a COMPLETED order containing the variant
+ * and queues accepted reviews for moderation (status PENDING)
+ */
+export async function createReview(
+  request: CreateReviewRequest,
+): Promise<ApiResult<ProductReview>> {
+  return apiClient.call(reviewEndpoints.create, request);
+}
+
+// ============================================================================
+// Export as object for convenience
+// ============================================================================
+
+export const reviewApi = {
+  getProductReviews,
+  getReviewSummary,
+  getReviewEligibility,
+  createReview,
+};
+
+export default reviewApi;
@@ -0,0 +1,78 @@
+/**
+ * Server-side Store Settings API with caching
+ *
+ * Storefront identity changes rarely, so it is cached like categories.
+ * Use in Server Components (e.g. the storefront layout).
+ */
+
+import apiClient from "@/lib/api-client";
+import type { ApiResult } from "../types/product";
+import type { StorefrontSettings } from "../types/settings";
+import type { StoreConfig } from "../context/StoreContext";
+
+export const STORE_SETTINGS_TAG = "store-settings";
+
+/**
+ * Server-side: Get storefront name and branding with caching
+ *
+ * Uses 5-minute revalidation. Saving general or branding settings in
+ * /admin/settings calls revalidateTag('store-settings') via a server action.
+ */
+export async function getStorefrontSettingsServer(): Promise<
+  ApiResult<StorefrontSettings>
+> {
+  const result = await apiClient.get<
+    StorefrontSettings | { data: StorefrontSettings }
+  >("settings/storefront", {
+    next: {
+      revalidate: 300, // 5 minutes
+      tags: [STORE_SETTINGS_TAG],
+    },
+  });
+
+  if (result.error) {
+    return {
+      error: {
+        ...result.error,
+        message: result.error.message || "Failed to fetch store settings",
+      },
+    };
+  }
+
+  // Normalize response structure
+  const data = result.data;
+  return {
+    data: data && "data" in data ? data.data : (data as StorefrontSettings),
+  };
+}
+
+/**
+ * Fallback identity used only when the settings endpoint is unreachable,
+ * so the storefront still renders during a backend outage.
+ */
+const FALLBACK_STORE_CONFIG: StoreConfig = {
+  slug: "aurea",
+  name: "AUREA",
+};
+
+/**
+ * Server-side: Resolve the StoreConfig fed to StoreProvider
+ */
+export async function getStoreConfigServer(): Promise<StoreConfig> {
+  const result = await getStorefrontSettingsServer();
+  const settings = result.data;
+
+  if (!settings) {
+    return FALLBACK_STORE_CONFIG;
+  }
+
+  return {
+    slug: settings.slug || FALLBACK_STORE_CONFIG.slug,
+    name: settings.storeName || FALLBACK_STORE_CONFIG.name,
+    description: settings.mission,
+    theme: {
+      primaryColor: settings.primaryColor,
+      logoUrl: settings.logoUrl || undefined,
+    },
+  };
+}
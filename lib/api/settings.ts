@@ -0,0 +1,64 @@
+/**
+ * Store Settings API Service
+ * Loads the full store configuration and saves it one section (tab) at a time
+ * Uses the unified API client from lib/api-client.ts
+ */
+
+import apiClient from "@/lib/api-client";
+import type { ApiResult } from "@/lib/types/product";
+import type {
+  SettingsSection,
+  StoreSettings,
+  StorefrontSettings,
+} from "@/lib/types/settings";
+
+// ============================================================================
+// API Functions
+// ============================================================================
+
+/**
+ * Get all store settings
+ * GET /api/v1/admin/settings
+ */
+export async function getStoreSettings(): Promise<ApiResult<StoreSettings>> {
+  return apiClient.get<StoreSettings>("admin/settings", {
+    cache: "no-store",
+  });
+}
+
+/**
+ * Save a single settings section
+ * PUT /api/v1/admin/settings/{section}
+ *
+ * Returns the saved section as persisted by the backend.
+ */
+export async function updateSettingsSection<K extends SettingsSection>(
+  section: K,
+  data: StoreSettings[K],
+): Promise<ApiResult<StoreSettings[K]>> {
+  return apiClient.put<StoreSettings[K]>(`admin/settings/${section}`, data);
+}
+
+/**
+ * Get the public storefront subset (name, mission, branding)
+ * GET /api/v1/settings/storefront
+ *
+ * For Server Components use getStorefrontSettingsServer() instead.
+ */
+export async function getStorefrontSettings(): Promise<
+  ApiResult<StorefrontSettings>
+> {
+  return apiClient.get<StorefrontSettings>("settings/storefront");
+}
+
+// ============================================================================
+// Export as default object for cleaner imports
+// ============================================================================
+
+export const settingsApi = {
+  getStoreSettings,
+  updateSettingsSection,
+  getStorefrontSettings,
+};
+
+export default settingsApi;
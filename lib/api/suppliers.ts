@@ -0,0 +1,116 @@
+/**
+ * Suppliers API Service
+ * Directory of vendors that goods receipts are raised against
+ * Uses the unified API client from lib/api-client.ts
+ *
+ * Required Permission: INVENTORY_SUPPLIER_VIEW (reads), INVENTORY_SUPPLIER_MANAGE (writes)
+ */
+
+import apiClient, { defineEndpoint } from "@/lib/api-client";
+import type { ApiResult } from "@/lib/types/product";
+import type { Supplier, SupplierRequest } from "@/lib/types/goods-receipt";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SupplierSearchParams {
+  keyword?: string;
+  /** Omit to include inactive suppliers */
+  active?: boolean;
+  page?: number;
+  size?: number;
+}
+
+export interface UpdateSupplierParams {
+  supplierId: string;
+  request: SupplierRequest;
+}
+
+// ============================================================================
+// Endpoints
+// ============================================================================
+
+const supplierEndpoints = {
+  search: defineEndpoint<SupplierSearchParams, Supplier[]>({
+    method: "GET",
+    path: "inventory/suppliers",
+    query: ({ keyword, active, page, size }) => ({
+      keyword: keyword || undefined,
+      active,
+      page,
+      size,
+    }),
+    init: { cache: "no-store" },
+  }),
+  create: defineEndpoint<SupplierRequest, Supplier>({
+    method: "POST",
+    path: "inventory/suppliers",
+    body: (request) => request,
+  }),
+  update: defineEndpoint<UpdateSupplierParams, Supplier>({
+    method: "PUT",
+    path: ({ supplierId }) => `inventory/suppliers/${supplierId}`,
+    body: ({ request }) => request,
+  }),
+  remove: defineEndpoint<string, void>({
+    method: "DELETE",
+    path: (supplierId) => `inventory/suppliers/${supplierId}`,
+  }),
+};
+
+// ============================================================================
+// API Functions
+// ============================================================================
+
+/**
+ * Search suppliers by name, contact or tax code
+ * GET /api/v1/inventory/suppliers
+ */
+export async function searchSuppliers(
+  params: SupplierSearchParams = {},
+): Promise<ApiResult<Supplier[]>> {
+  return apiClient.call(supplierEndpoints.search, params);
+}
+
+/**
+ * Add a supplier to the directory
+ * POST /api/v1/inventory/suppliers
+ */
+export async function createSupplier(
+  request: SupplierRequest,
+): Promise<ApiResult<Supplier>> {
+  return apiClient.call(supplierEndpoints.create, request);
+}
+
+/**
+ * Replace a supplier's details
+ * PUT /api/v1/inventory/suppliers/{supplierId}
+ */
+export async function updateSupplier(
+  params: UpdateSupplierParams,
+): Promise<ApiResult<Supplier>> {
+  return apiClient.call(supplierEndpoints.update, params);
+}
+
+/**
+ * Delete a supplier; rejected by the backend once it has receipts
+ * (deactivate it instead)
+ * DELETE /api/v1/inventory/suppliers/{supplierId}
+ */
+export async function deleteSupplier(supplierId: string): Promise<ApiResult<void>> {
+  return apiClient.call(supplierEndpoints.remove, supplierId);
+}
+
+// ============================================================================
+// Export as default object for cleaner imports
+// ============================================================================
+
+export const suppliersApi = {
+  searchSuppliers,
+  createSupplier,
+  updateSupplier,
+  deleteSupplier,
+};
+
+export default suppliersApi;
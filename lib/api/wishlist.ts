@@ -0,0 +1,71 @@
+/**
+ * Wishlist API - Saved products for authenticated shoppers
+ * Guests keep their wishlist in localStorage (see lib/utils/guestWishlist.ts)
+ * and it is merged into the account via mergeWishlist after login
+ */
+
+import apiClient, { ApiResult } from "@/lib/api-client";
+
+/**
+ * Wishlist Item Response from backend
+ * Enriched with the product snapshot needed to render the wishlist page
+ */
+export interface WishlistItemResponse {
+  productId: string;
+  productName: string;
+  slug: string;
+  thumbnail?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  inStock?: boolean;
+  addedAt?: string;
+}
+
+/**
+ * Wishlist Response from backend
+ */
+export interface WishlistResponse {
+  items: WishlistItemResponse[];
+}
+
+/**
+ * Get the current user's wishlist
+ * @returns Wishlist with enriched product details
+ */
+export async function getMyWishlist(): Promise<ApiResult<WishlistResponse>> {
+  return apiClient.get<WishlistResponse>("wishlist");
+}
+
+/**
+ * Add a product to the wishlist (idempotent)
+ * @param productId - Product ID (string to preserve large IDs)
+ * @returns Updated wishlist
+ */
+export async function addToWishlist(
+  productId: string,
+): Promise<ApiResult<WishlistResponse>> {
+  return apiClient.post<WishlistResponse>("wishlist/items", { productId });
+}
+
+/**
+ * Remove a product from the wishlist
+ * @param productId - Product ID
+ * @returns Updated wishlist
+ */
+export async function removeFromWishlist(
+  productId: string,
+): Promise<ApiResult<WishlistResponse>> {
+  return apiClient.delete<WishlistResponse>(`wishlist/items/${productId}`);
+}
+
+/**
+ * Merge a guest wishlist into the authenticated user's wishlist
+ * Products already saved on the account are ignored by the backend
+ * @param productIds - Product IDs collected while browsing as a guest
+ * @returns Merged wishlist
+ */
+export async function mergeWishlist(
+  productIds: string[],
+): Promise<ApiResult<WishlistResponse>> {
+  return apiClient.post<WishlistResponse>("wishlist/merge", { productIds });
+}
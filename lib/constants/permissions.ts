@@ -50,6 +50,9 @@ export const PERMISSIONS = {
   SHOP_ORDER_CANCEL: "shop.order.cancel",
   SHOP_ORDER_CREATE: "shop.order.create",
 
+  // Review
+  SHOP_REVIEW_MODERATE: "shop.review.moderate",
+
   // Report / Dashboard
   SHOP_DASHBOARD_VIEW: "shop.dashboard.view",
   SHOP_REVENUE_VIEW: "shop.revenue.view",
@@ -86,6 +89,7 @@ export const PERMISSION_GROUPS = {
     PERMISSIONS.SHOP_ORDER_VIEW,
     PERMISSIONS.IAM_USER_VIEW,
     PERMISSIONS.INVENTORY_STOCK_VIEW,
+    PERMISSIONS.SHOP_REVIEW_MODERATE,
   ],
 
   // Product management
@@ -119,3 +123,42 @@ export const PERMISSION_GROUPS = {
     PERMISSIONS.INVENTORY_RECEIPT_APPROVE,
   ],
 } as const;
+
+/**
+ * Catalogue entry grouping the permissions of one resource,
+ * e.g. { domain: "shop", resource: "order", permissions: ["shop.order.view", ...] }
+ */
+export interface PermissionResourceGroup {
+  domain: string;
+  resource: string;
+  permissions: Permission[];
+}
+
+/**
+ * All permissions grouped by DOMAIN → RESOURCE, in declaration order.
+ * Used by the role editor; two-segment permissions (e.g. "file.view")
+ * are grouped under their domain as the resource.
+ */
+export const PERMISSION_CATALOGUE: PermissionResourceGroup[] = Object.values(
+  PERMISSIONS,
+).reduce<PermissionResourceGroup[]>((groups, permission) => {
+  const segments = permission.split(".");
+  const domain = segments[0];
+  const resource = segments.length > 2 ? segments[1] : segments[0];
+  const group = groups.find(
+    (g) => g.domain === domain && g.resource === resource,
+  );
+  if (group) {
+    group.permissions.push(permission);
+  } else {
+    groups.push({ domain, resource, permissions: [permission] });
+  }
+  return groups;
+}, []);
+
+/**
+ * Top-level permission domains, e.g. ["iam", "file", "shop", "inventory"]
+ */
+export const PERMISSION_DOMAINS: string[] = Array.from(
+  new Set(PERMISSION_CATALOGUE.map((group) => group.domain)),
+);
@@ -1,6 +1,28 @@
 import { useQuery } from "@tanstack/react-query";
-import { clientApi } from "@/lib/api-client";
-import { CategoryResponse, ApiResult } from "@/lib/types/product";
+import { categoryApi } from "@/lib/api/category";
+import { searchAdminProducts } from "@/lib/api/products";
+import {
+  adminOrdersApi,
+  AdminOrderSearchParams,
+} from "@/lib/api/admin-orders";
+import { dashboardApi, DashboardPeriod } from "@/lib/api/dashboard";
+import {
+  adminUsersApi,
+  AdminUserSearchParams,
+} from "@/lib/api/admin-users";
+import { settingsApi } from "@/lib/api/settings";
+import {
+  adminReviewsApi,
+  AdminReviewSearchParams,
+} from "@/lib/api/admin-reviews";
+import { suppliersApi, SupplierSearchParams } from "@/lib/api/suppliers";
+import {
+  goodsReceiptsApi,
+  GoodsReceiptSearchParams,
+} from "@/lib/api/goods-receipts";
+import { isBelowReorderLevel } from "@/lib/types/inventory";
+import { importApi } from "@/lib/api/import";
+import type { ImportJob } from "@/lib/types/import";
 
 /**
  * Hook to fetch all categories for the admin panel.
@@ -9,13 +31,12 @@ import { CategoryResponse, ApiResult } from "@/lib/types/product";
 export function useCategories() {
   return useQuery({
     queryKey: ["admin", "categories"],
-    queryFn: async () => {
-      const response = await clientApi.getCategories();
-      if (response.error) {
-        throw new Error(response.error.message || "Failed to load categories");
+    queryFn: async ({ signal }) => {
+      const result = await categoryApi.getAllCategories({ signal });
+      if (result.error) {
+        throw new Error(result.error.message || "Failed to load categories");
       }
-      const result = response.data as ApiResult<CategoryResponse[]>;
-      return result?.data || [];
+      return result.data || [];
     },
     staleTime: 1000 * 60 * 10, // 10 minutes cache
   });
@@ -28,13 +49,229 @@ export function useCategories() {
 export function useAdminProducts(params: any) {
   return useQuery({
     queryKey: ["admin", "products", params],
+    queryFn: ({ signal }) => searchAdminProducts(params, { signal }),
+    placeholderData: (previousData) => previousData,
+    staleTime: 1000 * 60, // 1 minute cache
+  });
+}
+
+/**
+ * Hook to fetch orders for the admin panel with status, payment and date filters.
+ * Keeps the previous page visible while the next one loads.
+ */
+export function useAdminOrders(params: AdminOrderSearchParams) {
+  return useQuery({
+    queryKey: ["admin", "orders", params],
     queryFn: async () => {
-      const { searchAdminProducts } = await import("@/lib/api/products");
-      const result = await searchAdminProducts(params);
+      const result = await adminOrdersApi.searchOrders(params);
+      if (result.error) {
+        throw new Error(result.error.message || "Failed to load orders");
+      }
       return result;
     },
     placeholderData: (previousData) => previousData,
+    staleTime: 1000 * 30, // 30 seconds - orders change frequently
+  });
+}
+
+/**
+ * Hook to fetch a single order for the admin order detail view.
+ */
+export function useAdminOrderDetail(orderCode: string) {
+  return useQuery({
+    queryKey: ["admin", "orders", "detail", orderCode],
+    queryFn: async () => {
+      const result = await adminOrdersApi.getOrderDetail(orderCode);
+      if (result.error) {
+        throw new Error(result.error.message || "Failed to load order");
+      }
+      return result.data ?? null;
+    },
+    enabled: !!orderCode,
+  });
+}
+
+/**
+ * Hook to fetch dashboard headline metrics for the selected period.
+ */
+export function useDashboardSummary(period: DashboardPeriod) {
+  return useQuery({
+    queryKey: ["admin", "dashboard", "summary", period],
+    queryFn: async () => {
+      const result = await dashboardApi.getDashboardSummary(period);
+      if (result.error) {
+        throw new Error(result.error.message || "Failed to load metrics");
+      }
+      return result.data ?? null;
+    },
+    placeholderData: (previousData) => previousData,
     staleTime: 1000 * 60, // 1 minute cache
   });
 }
 
+/**
+ * Hook to fetch the dashboard activity feed.
+ * Refreshes every minute while the dashboard is open.
+ */
+export function useDashboardActivities(limit: number = 10) {
+  return useQuery({
+    queryKey: ["admin", "dashboard", "activities", limit],
+    queryFn: async () => {
+      const result = await dashboardApi.getRecentActivities(limit);
+      if (result.error) {
+        throw new Error(result.error.message || "Failed to load activity");
+      }
+      return result.data || [];
+    },
+    refetchInterval: 1000 * 60,
+  });
+}
+
+/**
+ * Hook to fetch variants that have reached their reorder level.
+ */
+export function useLowStockAlerts(enabled: boolean = true) {
+  return useQuery({
+    queryKey: ["admin", "inventory", "low-stock"],
+    queryFn: async () => {
+      const result = await dashboardApi.getLowStockItems();
+      if (result.error) {
+        throw new Error(result.error.message || "Failed to load stock alerts");
+      }
+      return (result.data || []).filter(isBelowReorderLevel);
+    },
+    enabled,
+    staleTime: 1000 * 60 * 5, // 5 minutes cache
+  });
+}
+
+/**
+ * Hook to fetch user accounts for the admin panel with search, status and role filters.
+ * Keeps the previous page visible while the next one loads.
+ */
+export function useAdminUsers(params: AdminUserSearchParams) {
+  return useQuery({
+    queryKey: ["admin", "users", params],
+    queryFn: async () => {
+      const result = await adminUsersApi.searchUsers(params);
+      if (result.error) {
+        throw new Error(result.error.message || "Failed to load users");
+      }
+      return result;
+    },
+    placeholderData: (previousData) => previousData,
+    staleTime: 1000 * 30,
+  });
+}
+
+/**
+ * Hook to fetch the review moderation queue with status/rating filters and pagination.
+ */
+export function useAdminReviews(params: AdminReviewSearchParams) {
+  return useQuery({
+    queryKey: ["admin", "reviews", params],
+    queryFn: async () => {
+      const result = await adminReviewsApi.searchReviews(params);
+      if (result.error) {
+        throw new Error(result.error.message || "Failed to load reviews");
+      }
+      return result;
+    },
+    placeholderData: (previousData) => previousData,
+    staleTime: 1000 * 30,
+  });
+}
+
+/**
+ * Hook to fetch all roles with their permission sets.
+ */
+export function useAdminRoles(enabled: boolean = true) {
+  return useQuery({
+    queryKey: ["admin", "roles"],
+    queryFn: async () => {
+      const result = await adminUsersApi.getRoles();
+      if (result.error) {
+        throw new Error(result.error.message || "Failed to load roles");
+      }
+      return result.data || [];
+    },
+    enabled,
+    staleTime: 1000 * 60 * 5,
+  });
+}
+
+/**
+ * Hook to fetch the supplier directory with search and pagination.
+ */
+export function useSuppliers(
+  params: SupplierSearchParams,
+  enabled: boolean = true,
+) {
+  return useQuery({
+    queryKey: ["admin", "suppliers", params],
+    queryFn: async () => {
+      const result = await suppliersApi.searchSuppliers(params);
+      if (result.error) {
+        throw new Error(result.error.message || "Failed to load suppliers");
+      }
+      return result;
+    },
+    enabled,
+    placeholderData: (previousData) => previousData,
+    staleTime: 1000 * 60,
+  });
+}
+
+/**
+ * Hook to fetch goods receipts with status/supplier filters and pagination.
+ */
+export function useGoodsReceipts(params: GoodsReceiptSearchParams) {
+  return useQuery({
+    queryKey: ["admin", "receipts", params],
+    queryFn: async () => {
+      const result = await goodsReceiptsApi.searchGoodsReceipts(params);
+      if (result.error) {
+        throw new Error(result.error.message || "Failed to load receipts");
+      }
+      return result;
+    },
+    placeholderData: (previousData) => previousData,
+    staleTime: 1000 * 30,
+  });
+}
+
+/**
+ * Hook to fetch all store settings for the admin settings console.
+ */
+export function useStoreSettings() {
+  return useQuery({
+    queryKey: ["admin", "settings"],
+    queryFn: async () => {
+      const result = await settingsApi.getStoreSettings();
+      if (result.error) {
+        throw new Error(result.error.message || "Failed to load settings");
+      }
+      return result.data ?? null;
+    },
+    staleTime: 1000 * 60 * 5,
+  });
+}
+
+/**
+ * Hook to fetch the parsed error log of a finished import job.
+ * Logs never change once written, so the result is cached for the session.
+ */
+export function useImportErrorLog(job: ImportJob | null) {
+  return useQuery({
+    queryKey: ["admin", "imports", job?.id, "error-log"],
+    queryFn: async () => {
+      const result = await importApi.getImportErrorLog(job!);
+      if (result.error) {
+        throw new Error(result.error.message || "Failed to load error log");
+      }
+      return result.data!;
+    },
+    enabled: !!job?.errorLogUrl,
+    staleTime: Infinity,
+  });
+}
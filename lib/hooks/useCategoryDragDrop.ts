@@ -0,0 +1,356 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import type React from "react";
+import { useTranslation } from "react-i18next";
+
+import {
+  canNestCategory,
+  findCategory,
+  getCategoryPlacement,
+  isInSubtree,
+  moveCategoryInTree,
+  type CategoryPlacement,
+} from "@/lib/api/category";
+import type { CategoryResponse } from "@/lib/types/product";
+
+export type CategoryDropPosition = "before" | "after" | "inside";
+
+export interface CategoryDropTarget {
+  id: string;
+  position: CategoryDropPosition;
+}
+
+interface UseCategoryDragDropOptions {
+  categories: CategoryResponse[];
+  /** False while searching or while a previous move is still saving */
+  enabled: boolean;
+  expandedNodes: Set<string>;
+  onExpand: (id: string) => void;
+  onMove: (id: string, placement: CategoryPlacement) => void;
+}
+
+/** Id of the visually hidden keyboard instructions, for aria-describedby */
+export const CATEGORY_DND_INSTRUCTIONS_ID = "category-dnd-instructions";
+
+const isSamePlacement = (a: CategoryPlacement | null, b: CategoryPlacement) =>
+  !!a && a.parentId === b.parentId && a.index === b.index;
+
+const getSiblings = (categories: CategoryResponse[], parentId: string | null) =>
+  parentId === null
+    ? categories
+    : findCategory(categories, (cat) => cat.id === parentId)?.children || [];
+
+/**
+ * Drag-and-drop for the admin category tree
+ *
+ * - Pointer: rows are native drag sources; hovering the top/bottom quarter of a
+ *   row drops before/after it, the middle nests inside it
+ * - Keyboard: Space on a drag handle lifts the category, arrows move it
+ *   through the tree (rendered live via `tree`), Space drops, Escape cancels
+ *
+ * Drops into the dragged category's own subtree, and nesting under categories
+ * that hold products, are rejected before `onMove` is called.
+ */
+export function useCategoryDragDrop({
+  categories,
+  enabled,
+  expandedNodes,
+  onExpand,
+  onMove,
+}: UseCategoryDragDropOptions) {
+  const { t } = useTranslation();
+
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<CategoryDropTarget | null>(null);
+  const [keyboardPlacement, setKeyboardPlacement] =
+    useState<CategoryPlacement | null>(null);
+  const [announcement, setAnnouncement] = useState("");
+
+  const isKeyboardDragging = !!activeId && !!keyboardPlacement;
+
+  // Keyboard drags preview the move in the tree itself
+  const tree = useMemo(
+    () =>
+      activeId && keyboardPlacement
+        ? moveCategoryInTree(categories, activeId, keyboardPlacement)
+        : categories,
+    [categories, activeId, keyboardPlacement],
+  );
+
+  // The lifted row remounts under its new parent, so hand focus back to it
+  useEffect(() => {
+    if (!activeId || !keyboardPlacement) return;
+    const frame = requestAnimationFrame(() => {
+      document
+        .querySelector<HTMLElement>(`[data-category-handle="${activeId}"]`)
+        ?.focus();
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [activeId, keyboardPlacement]);
+
+  const getName = (id: string) =>
+    findCategory(categories, (cat) => cat.id === id)?.name || "";
+
+  const describePlacement = (id: string, placement: CategoryPlacement) => {
+    const siblings = getSiblings(
+      moveCategoryInTree(categories, id, placement),
+      placement.parentId,
+    );
+    return t("admin.categories.dnd.movedTo", {
+      name: getName(id),
+      position: placement.index + 1,
+      total: siblings.length,
+      parent: placement.parentId
+        ? getName(placement.parentId)
+        : t("admin.categories.dnd.rootLevel"),
+    });
+  };
+
+  const reset = () => {
+    setActiveId(null);
+    setDropTarget(null);
+    setKeyboardPlacement(null);
+  };
+
+  const commit = (id: string, placement: CategoryPlacement) => {
+    const origin = getCategoryPlacement(categories, id);
+    reset();
+    if (isSamePlacement(origin, placement)) return;
+    onMove(id, placement);
+  };
+
+  // ---------------------------------------------------------------------------
+  // Pointer
+  // ---------------------------------------------------------------------------
+
+  /** Convert a row-relative drop target into a final placement */
+  const resolveDrop = (
+    draggedId: string,
+    target: CategoryDropTarget,
+  ): CategoryPlacement | null => {
+    const targetPlacement = getCategoryPlacement(categories, target.id);
+    const targetNode = findCategory(categories, (cat) => cat.id === target.id);
+    if (!targetPlacement || !targetNode) return null;
+
+    if (target.position === "inside") {
+      const children = targetNode.children || [];
+      return {
+        parentId: target.id,
+        index: children.filter((child) => child.id !== draggedId).length,
+      };
+    }
+
+    let index =
+      target.position === "before" ? targetPlacement.index : targetPlacement.index + 1;
+
+    // Indices are final positions, so account for the dragged node leaving
+    // the same sibling list ahead of the target
+    const origin = getCategoryPlacement(categories, draggedId);
+    if (origin && origin.parentId === targetPlacement.parentId && origin.index < index) {
+      index -= 1;
+    }
+
+    return { parentId: targetPlacement.parentId, index };
+  };
+
+  const getDropTarget = (
+    event: React.DragEvent<HTMLElement>,
+    category: CategoryResponse,
+  ): CategoryDropTarget | null => {
+    if (!activeId || isInSubtree(categories, activeId, category.id)) return null;
+
+    const rect = event.currentTarget.getBoundingClientRect();
+    const ratio = (event.clientY - rect.top) / rect.height;
+    const canNest = canNestCategory(category);
+
+    if (ratio < 0.25 || (!canNest && ratio < 0.5)) {
+      return { id: category.id, position: "before" };
+    }
+
+    if (ratio > 0.75 || !canNest) {
+      // Below an expanded parent reads as "first child", not "after the subtree"
+      const firstChild = category.children?.[0];
+      if (firstChild && canNest && expandedNodes.has(category.id)) {
+        return firstChild.id === activeId
+          ? null
+          : { id: firstChild.id, position: "before" };
+      }
+      return { id: category.id, position: "after" };
+    }
+
+    return { id: category.id, position: "inside" };
+  };
+
+  const getRowProps = (
+    category: CategoryResponse,
+  ): React.HTMLAttributes<HTMLDivElement> & { draggable: boolean } => ({
+    draggable: enabled && !isKeyboardDragging,
+    onDragStart: (event) => {
+      if (!enabled) return;
+      event.dataTransfer.effectAllowed = "move";
+      event.dataTransfer.setData("text/plain", category.id);
+      setActiveId(category.id);
+    },
+    onDragOver: (event) => {
+      if (!activeId || isKeyboardDragging) return;
+      const target = getDropTarget(event, category);
+      if (!target) {
+        setDropTarget(null);
+        return;
+      }
+
+      event.preventDefault();
+      event.dataTransfer.dropEffect = "move";
+      if (target.id !== dropTarget?.id || target.position !== dropTarget.position) {
+        setDropTarget(target);
+      }
+    },
+    onDrop: (event) => {
+      event.preventDefault();
+      if (!activeId || !dropTarget) {
+        reset();
+        return;
+      }
+      const placement = resolveDrop(activeId, dropTarget);
+      if (placement) {
+        commit(activeId, placement);
+      } else {
+        reset();
+      }
+    },
+    onDragEnd: () => {
+      if (!isKeyboardDragging) reset();
+    },
+  });
+
+  // ---------------------------------------------------------------------------
+  // Keyboard
+  // ---------------------------------------------------------------------------
+
+  const getKeyboardMove = (
+    key: string,
+    id: string,
+    placement: CategoryPlacement,
+  ): CategoryPlacement | null => {
+    const siblings = getSiblings(tree, placement.parentId);
+    const parentPlacement = placement.parentId
+      ? getCategoryPlacement(tree, placement.parentId)
+      : null;
+
+    switch (key) {
+      case "ArrowUp":
+        if (placement.index > 0) return { ...placement, index: placement.index - 1 };
+        return parentPlacement && {
+          parentId: parentPlacement.parentId,
+          index: parentPlacement.index,
+        };
+      case "ArrowDown":
+        if (placement.index < siblings.length - 1) {
+          return { ...placement, index: placement.index + 1 };
+        }
+        return parentPlacement && {
+          parentId: parentPlacement.parentId,
+          index: parentPlacement.index + 1,
+        };
+      case "ArrowRight": {
+        const previous = siblings[placement.index - 1];
+        if (!previous) return null;
+        if (!canNestCategory(previous)) {
+          setAnnouncement(
+            t("admin.categories.dnd.cannotNest", { name: previous.name }),
+          );
+          return null;
+        }
+        onExpand(previous.id);
+        return {
+          parentId: previous.id,
+          index: (previous.children || []).filter((child) => child.id !== id).length,
+        };
+      }
+      case "ArrowLeft":
+        return parentPlacement && {
+          parentId: parentPlacement.parentId,
+          index: parentPlacement.index + 1,
+        };
+      default:
+        return null;
+    }
+  };
+
+  const getHandleProps = (
+    category: CategoryResponse,
+  ): React.ButtonHTMLAttributes<HTMLButtonElement> & {
+    "data-category-handle": string;
+  } => {
+    const isLifted = isKeyboardDragging && activeId === category.id;
+
+    return {
+      type: "button",
+      "data-category-handle": category.id,
+      "aria-label": t("admin.categories.dnd.handle", { name: category.name }),
+      "aria-describedby": CATEGORY_DND_INSTRUCTIONS_ID,
+      "aria-pressed": isLifted,
+      disabled: !enabled || (isKeyboardDragging && !isLifted),
+      onKeyDown: (event) => {
+        const isToggleKey = event.key === " " || event.key === "Enter";
+
+        if (!isLifted) {
+          if (!isToggleKey || !enabled) return;
+          event.preventDefault();
+          const origin = getCategoryPlacement(categories, category.id);
+          if (!origin) return;
+          setActiveId(category.id);
+          setKeyboardPlacement(origin);
+          setAnnouncement(
+            t("admin.categories.dnd.pickedUp", { name: category.name }),
+          );
+          return;
+        }
+
+        if (isToggleKey) {
+          event.preventDefault();
+          setAnnouncement(
+            t("admin.categories.dnd.dropped", { name: category.name }),
+          );
+          commit(category.id, keyboardPlacement!);
+          return;
+        }
+
+        if (event.key === "Escape") {
+          event.preventDefault();
+          reset();
+          setAnnouncement(
+            t("admin.categories.dnd.cancelled", { name: category.name }),
+          );
+          return;
+        }
+
+        if (event.key === "Tab") {
+          reset();
+          return;
+        }
+
+        const next = getKeyboardMove(event.key, category.id, keyboardPlacement!);
+        if (event.key.startsWith("Arrow")) event.preventDefault();
+        if (!next) return;
+
+        setKeyboardPlacement(next);
+        setAnnouncement(describePlacement(category.id, next));
+      },
+    };
+  };
+
+  return {
+    tree,
+    activeId,
+    dropTarget,
+    isKeyboardDragging,
+    announcement,
+    enabled,
+    getRowProps,
+    getHandleProps,
+  };
+}
+
+export type CategoryDragDrop = ReturnType<typeof useCategoryDragDrop>;
@@ -0,0 +1,120 @@
+"use client";
+
+import { useEffect, useRef, useSyncExternalStore } from "react";
+
+import { importApi } from "@/lib/api/import";
+import { isJobFinished, type ImportJob } from "@/lib/types/import";
+
+const STREAM_URL = "/api/imports/stream";
+
+interface JobStreamState {
+  jobs: Map<number, ImportJob>;
+  isConnected: boolean;
+}
+
+// ============================================================================
+// Shared stream
+// One EventSource per tab, opened by the first subscriber and closed with the last
+// ============================================================================
+
+const serverState: JobStreamState = { jobs: new Map(), isConnected: false };
+
+let state: JobStreamState = serverState;
+let source: EventSource | null = null;
+let subscriberCount = 0;
+let hasRetriedAuth = false;
+const listeners = new Set<() => void>();
+const finishListeners = new Set<(job: ImportJob) => void>();
+
+function setState(next: Partial<JobStreamState>) {
+  state = { ...state, ...next };
+  listeners.forEach((listener) => listener());
+}
+
+function disconnect() {
+  source?.close();
+  source = null;
+  setState({ isConnected: false });
+}
+
+function connect() {
+  source = new EventSource(STREAM_URL);
+
+  source.onopen = () => setState({ isConnected: true });
+  // EventSource reconnects on its own after network errors
+  source.onerror = () => setState({ isConnected: false });
+
+  source.addEventListener("job", (event) => {
+    const job: ImportJob = JSON.parse((event as MessageEvent<string>).data);
+    const previous = state.jobs.get(job.id);
+    hasRetriedAuth = false;
+
+    setState({ jobs: new Map(state.jobs).set(job.id, job) });
+    if (isJobFinished(job.status) && (!previous || !isJobFinished(previous.status))) {
+      finishListeners.forEach((listener) => listener(job));
+    }
+  });
+
+  // A request through the API proxy refreshes an expired token; reconnect once
+  source.addEventListener("unauthorized", async () => {
+    disconnect();
+    if (hasRetriedAuth) return;
+    hasRetriedAuth = true;
+
+    const result = await importApi.listImportJobs({ page: 0, size: 1 });
+    if (!result.error && subscriberCount > 0 && !source) connect();
+  });
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  subscriberCount++;
+  if (!source) connect();
+
+  return () => {
+    listeners.delete(listener);
+    subscriberCount--;
+    if (subscriberCount === 0) disconnect();
+  };
+}
+
+/**
+ * Live progress of import jobs
+ *
+ * All callers in a tab share one server-sent events stream, so the imports
+ * page and the header tray show the same state without polling. Jobs appear
+ * once they are running or change status while the stream is open.
+ *
+ * @example
+ * ```tsx
+ * const { activeJobs, getJob } = useJobProgress({
+ *   onJobFinished: () => refetchJobs(),
+ * });
+ * ```
+ */
+export function useJobProgress(options: { onJobFinished?: (job: ImportJob) => void } = {}) {
+  const snapshot = useSyncExternalStore(subscribe, () => state, () => serverState);
+
+  const onJobFinishedRef = useRef(options.onJobFinished);
+  useEffect(() => {
+    onJobFinishedRef.current = options.onJobFinished;
+  });
+
+  useEffect(() => {
+    const listener = (job: ImportJob) => onJobFinishedRef.current?.(job);
+    finishListeners.add(listener);
+    return () => {
+      finishListeners.delete(listener);
+    };
+  }, []);
+
+  const jobs = Array.from(snapshot.jobs.values()).sort((a, b) => b.id - a.id);
+
+  return {
+    /** Jobs seen on the stream, newest first */
+    jobs,
+    activeJobs: jobs.filter((job) => !isJobFinished(job.status)),
+    getJob: (jobId: number) => snapshot.jobs.get(jobId),
+    isConnected: snapshot.isConnected,
+  };
+}
@@ -0,0 +1,104 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+
+import type { ProductImportMapping } from "@/lib/validations/product";
+import type { ImportValidationReport, ParsedImportFile } from "@/lib/types/import";
+import type {
+  ProductImportWorkerRequest,
+  ProductImportWorkerResponse,
+} from "@/lib/workers/product-import.worker";
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: number) => void;
+}
+
+// Distributes over the request union so each variant keeps its own fields
+type WithoutId<T> = T extends unknown ? Omit<T, "id"> : never;
+type WorkerMessage = WithoutId<ProductImportWorkerRequest>;
+
+/**
+ * Promise wrapper around the product import worker
+ *
+ * The worker is created on first use and keeps the parsed file between calls,
+ * so `validate` and `build` only send the column mapping. It is terminated on
+ * unmount; pending calls are rejected.
+ */
+export function useProductImportWorker() {
+  const workerRef = useRef<Worker | null>(null);
+  const pendingRef = useRef(new Map<number, PendingRequest>());
+  const nextIdRef = useRef(1);
+
+  const rejectAll = (message: string) => {
+    pendingRef.current.forEach((pending) => pending.reject(new Error(message)));
+    pendingRef.current.clear();
+  };
+
+  useEffect(() => {
+    const pending = pendingRef.current;
+    return () => {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+      pending.forEach((request) => request.reject(new Error("Import cancelled")));
+      pending.clear();
+    };
+  }, []);
+
+  const getWorker = () => {
+    if (workerRef.current) return workerRef.current;
+
+    const worker = new Worker(
+      new URL("../workers/product-import.worker.ts", import.meta.url),
+      { type: "module" },
+    );
+
+    worker.onmessage = (event: MessageEvent<ProductImportWorkerResponse>) => {
+      const response = event.data;
+      const pending = pendingRef.current.get(response.id);
+      if (!pending) return;
+
+      if (response.type === "progress") {
+        pending.onProgress?.(response.progress);
+        return;
+      }
+
+      pendingRef.current.delete(response.id);
+      if (response.type === "result") {
+        pending.resolve(response.result);
+      } else {
+        pending.reject(new Error(response.message));
+      }
+    };
+
+    // A crashed worker loses the parsed file - start fresh next time
+    worker.onerror = (event) => {
+      event.preventDefault();
+      worker.terminate();
+      workerRef.current = null;
+      rejectAll(event.message || "CSV worker crashed");
+    };
+
+    workerRef.current = worker;
+    return worker;
+  };
+
+  const send = (message: WorkerMessage, onProgress?: (progress: number) => void) =>
+    new Promise<unknown>((resolve, reject) => {
+      const id = nextIdRef.current++;
+      pendingRef.current.set(id, { resolve, reject, onProgress });
+      getWorker().postMessage({ ...message, id } as ProductImportWorkerRequest);
+    });
+
+  return {
+    /** Parse the file; progress is the fraction of bytes read */
+    parseFile: (file: File, onProgress?: (progress: number) => void) =>
+      send({ type: "parse", file }, onProgress) as Promise<ParsedImportFile>,
+    validate: (mapping: ProductImportMapping) =>
+      send({ type: "validate", mapping }) as Promise<ImportValidationReport>,
+    /** Canonical CSV for upload; rejects while rows have errors unless skipped */
+    buildUploadCsv: (mapping: ProductImportMapping, skipInvalidRows: boolean) =>
+      send({ type: "build", mapping, skipInvalidRows }) as Promise<string>,
+  };
+}
@@ -0,0 +1,73 @@
+"use client";
+
+import { useEffect } from "react";
+import { DefaultValues, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { toast } from "sonner";
+import { useTranslation } from "react-i18next";
+import type { z } from "zod";
+
+import { settingsApi } from "@/lib/api/settings";
+import type { SettingsSection, StoreSettings } from "@/lib/types/settings";
+
+export interface SettingsFormState {
+  isDirty: boolean;
+  isSubmitting: boolean;
+}
+
+export interface SettingsSectionOptions<K extends SettingsSection> {
+  onSaved: (section: K, saved: StoreSettings[K]) => void;
+  onStateChange: (state: SettingsFormState) => void;
+}
+
+/**
+ * Wires one settings tab to react-hook-form with its zod schema and
+ * saves it through PUT /admin/settings/{section}.
+ * Dirty/submitting state is reported up so the page can guard navigation.
+ */
+export function useSettingsSection<K extends SettingsSection>(
+  section: K,
+  schema: z.ZodType<StoreSettings[K], StoreSettings[K]>,
+  values: StoreSettings[K],
+  { onSaved, onStateChange }: SettingsSectionOptions<K>,
+) {
+  const { t } = useTranslation();
+
+  const form = useForm<StoreSettings[K]>({
+    resolver: zodResolver(schema),
+    defaultValues: values as DefaultValues<StoreSettings[K]>,
+  });
+
+  const { isDirty, isSubmitting } = form.formState;
+
+  useEffect(() => {
+    onStateChange({ isDirty, isSubmitting });
+  }, [isDirty, isSubmitting, onStateChange]);
+
+  const onSubmit = form.handleSubmit(async (data) => {
+    const result = await settingsApi.updateSettingsSection(section, data);
+    if (result.error) {
+      toast.error(result.error.message || t("admin.settings.saveError"));
+      return;
+    }
+
+    const saved = result.data ?? data;
+    form.reset(saved);
+    onSaved(section, saved);
+    toast.success(t("admin.settings.saveSuccess"));
+  });
+
+  return {
+    form,
+    formId: `settings-${section}`,
+    onSubmit,
+  };
+}
+
+/**
+ * Props shared by every settings tab component
+ */
+export interface SettingsTabProps<K extends SettingsSection>
+  extends SettingsSectionOptions<K> {
+  values: StoreSettings[K];
+}
@@ -0,0 +1,77 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+
+/**
+ * Guards against losing unsaved form changes.
+ *
+ * - Browser reload/close is blocked with the native beforeunload prompt.
+ * - In-app link clicks and actions passed to `guard()` are held back until
+ *   the user confirms via the returned `confirm`/`cancel` handlers.
+ */
+export function useUnsavedChangesGuard(isDirty: boolean) {
+  const router = useRouter();
+  const [pendingAction, setPendingAction] = useState<(() => void) | null>(
+    null,
+  );
+
+  const guard = useCallback(
+    (action: () => void) => {
+      if (isDirty) {
+        setPendingAction(() => action);
+      } else {
+        action();
+      }
+    },
+    [isDirty],
+  );
+
+  useEffect(() => {
+    if (!isDirty) return;
+
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+    };
+
+    const handleClick = (event: MouseEvent) => {
+      if (event.defaultPrevented || event.button !== 0) return;
+      if (event.metaKey || event.ctrlKey || event.shiftKey || event.altKey) {
+        return;
+      }
+
+      const anchor = (event.target as HTMLElement).closest("a");
+      if (!anchor || anchor.target === "_blank") return;
+
+      const url = new URL(anchor.href, window.location.href);
+      if (url.origin !== window.location.origin) return;
+      if (url.pathname === window.location.pathname) return;
+
+      event.preventDefault();
+      event.stopPropagation();
+      setPendingAction(() => () => router.push(url.pathname + url.search));
+    };
+
+    window.addEventListener("beforeunload", handleBeforeUnload);
+    document.addEventListener("click", handleClick, true);
+    return () => {
+      window.removeEventListener("beforeunload", handleBeforeUnload);
+      document.removeEventListener("click", handleClick, true);
+    };
+  }, [isDirty, router]);
+
+  const confirm = useCallback(() => {
+    const action = pendingAction;
+    setPendingAction(null);
+    action?.();
+  }, [pendingAction]);
+
+  const cancel = useCallback(() => setPendingAction(null), []);
+
+  return {
+    guard,
+    isPrompting: pendingAction !== null,
+    confirm,
+    cancel,
+  };
+}
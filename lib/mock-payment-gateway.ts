@@ -0,0 +1,51 @@
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import type { PaymentReturnOutcome } from "@/lib/api/payment";
+
+/**
+ * Server-side helpers for the local mock payment gateway
+ * Signs callback parameters the same way a real gateway would, so
+ * /payment/return can exercise signature verification end to end
+ */
+
+const MOCK_SECRET = process.env.PAYMENT_MOCK_SECRET || "aurea-mock-gateway";
+
+export const MOCK_OUTCOMES: PaymentReturnOutcome[] = ["SUCCESS", "FAILED", "PENDING"];
+
+function canonicalize(params: Record<string, string>): string {
+  return Object.keys(params)
+    .filter((key) => key !== "signature")
+    .sort()
+    .map((key) => `${key}=${params[key]}`)
+    .join("&");
+}
+
+export function signMockParams(params: Record<string, string>): string {
+  return createHmac("sha256", MOCK_SECRET).update(canonicalize(params)).digest("hex");
+}
+
+export function verifyMockSignature(params: Record<string, string>): boolean {
+  const expected = Buffer.from(signMockParams(params), "hex");
+  const actual = Buffer.from(params.signature || "", "hex");
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Build the signed query the mock gateway appends to /payment/return
+ */
+export function buildMockReturnParams(input: {
+  orderCode: string;
+  amount: string;
+  method: string;
+  outcome: PaymentReturnOutcome;
+}): Record<string, string> {
+  const params: Record<string, string> = {
+    gateway: "MOCK",
+    method: input.method,
+    orderCode: input.orderCode,
+    amount: input.amount,
+    outcome: input.outcome,
+    transactionId: `MOCK-${randomUUID().slice(0, 8).toUpperCase()}`,
+  };
+
+  return { ...params, signature: signMockParams(params) };
+}
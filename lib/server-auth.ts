@@ -1,4 +1,5 @@
 import { cookies } from 'next/headers';
+import type { ServerSession } from '@/lib/api-client';
 
 /**
  * Server-side auth helper
@@ -22,3 +23,51 @@ export async function getAccessToken(): Promise<string | null> {
   return cookieStore.get('accessToken')?.value || null;
 }
 
+
+/**
+ * Store the tokens issued by login, registration or a refresh
+ */
+export async function setAuthCookies(accessToken: string, refreshToken?: string) {
+  const cookieStore = await cookies();
+
+  cookieStore.set('accessToken', accessToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: 60 * 60 * 24 * 7, // 7 days
+  });
+
+  if (refreshToken) {
+    cookieStore.set('refresh_token', refreshToken, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: '/',
+      maxAge: 60 * 60 * 24 * 30, // 30 days
+    });
+  }
+}
+
+/**
+ * Session for apiClient calls made on behalf of the signed-in user
+ * Use in Server Actions: `apiClient.get(path, { session: await getServerSession() })`
+ */
+export async function getServerSession(): Promise<ServerSession> {
+  const cookieStore = await cookies();
+
+  return {
+    accessToken: cookieStore.get('accessToken')?.value,
+    refreshToken: cookieStore.get('refresh_token')?.value,
+    saveTokens: setAuthCookies,
+    clearTokens: async () => {
+      try {
+        cookieStore.delete('accessToken');
+        cookieStore.delete('refresh_token');
+      } catch (error) {
+        // Cookies are read-only while a Server Component renders
+        console.error('[Server Auth] Error clearing cookies:', error);
+      }
+    },
+  };
+}
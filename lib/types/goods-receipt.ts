@@ -0,0 +1,114 @@
+/**
+ * TypeScript types for Supplier and Goods Receipt API DTOs
+ * IDs use `string` to avoid TSID precision loss (see lib/types/product.ts)
+ */
+
+import type { InventoryAuditor } from "@/lib/types/inventory";
+
+// ============================================================================
+// Enums
+// ============================================================================
+
+/**
+ * Receipt lifecycle - stock is only received (as IMPORT transactions) on approval.
+ * Rejecting a submitted receipt returns it to DRAFT with a reason.
+ */
+export type GoodsReceiptStatus = "DRAFT" | "SUBMITTED" | "APPROVED";
+
+export const GOODS_RECEIPT_STATUSES: GoodsReceiptStatus[] = ["DRAFT", "SUBMITTED", "APPROVED"];
+
+// ============================================================================
+// Response Types
+// ============================================================================
+
+/**
+ * Vendor stock is bought from
+ * Returned by GET /api/v1/inventory/suppliers
+ */
+export interface Supplier {
+  id: string;
+  name: string;
+  contactName?: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+  taxCode?: string;
+  note?: string;
+  /** Inactive suppliers stay on old receipts but cannot be picked for new ones */
+  active: boolean;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface GoodsReceiptLine {
+  id?: string;
+  variantId: string;
+  sku: string;
+  productName?: string;
+  attributes?: Record<string, string>;
+  quantity: number;
+  unitCost: number;
+}
+
+/**
+ * Multi-line delivery from a supplier
+ * Returned by GET /api/v1/inventory/receipts
+ */
+export interface GoodsReceipt {
+  id: string;
+  /** Human-readable number, also the reference of the IMPORT transactions */
+  code: string;
+  supplierId: string;
+  supplierName: string;
+  status: GoodsReceiptStatus;
+  note?: string;
+  lines: GoodsReceiptLine[];
+  totalQuantity: number;
+  totalCost: number;
+  /** Set when an approver sent the receipt back to draft */
+  rejectionReason?: string;
+  createdBy?: InventoryAuditor | null;
+  submittedAt?: string;
+  approvedAt?: string;
+  approvedBy?: InventoryAuditor | null;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+// ============================================================================
+// Request Types
+// ============================================================================
+
+export interface SupplierRequest {
+  name: string;
+  contactName?: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+  taxCode?: string;
+  note?: string;
+  active: boolean;
+}
+
+export interface GoodsReceiptLineRequest {
+  variantId: string;
+  quantity: number;
+  unitCost: number;
+}
+
+/**
+ * Creates or replaces a draft receipt
+ */
+export interface GoodsReceiptRequest {
+  supplierId: string;
+  note?: string;
+  lines: GoodsReceiptLineRequest[];
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+export function getGoodsReceiptTotal(lines: Pick<GoodsReceiptLine, "quantity" | "unitCost">[]): number {
+  return lines.reduce((sum, line) => sum + line.quantity * line.unitCost, 0);
+}
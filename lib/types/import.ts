@@ -41,6 +41,8 @@ export interface ImportJob {
   createdAt: string; // ISO 8601
   createdBy?: string;
   updatedBy?: string;
+  /** Set when the job re-imports failed rows of an earlier job */
+  sourceJobId?: number | null;
 }
 
 /**
@@ -105,6 +107,74 @@ export interface UploadImportResponse {
   jobId: number;
 }
 
+// ============================================================================
+// Client-side Validation Types
+// ============================================================================
+
+/**
+ * One problem found in the CSV before upload
+ * `row` is the line number in the file (header = 1)
+ */
+export interface ImportRowError {
+  row: number;
+  column?: string;
+  value?: string;
+  message: string;
+}
+
+/**
+ * Result of parsing the selected file in the import worker
+ */
+export interface ParsedImportFile {
+  headers: string[];
+  rowCount: number;
+  /** First rows, for the mapping preview */
+  sampleRows: string[][];
+}
+
+/**
+ * Result of validating the parsed rows against the import schema
+ */
+export interface ImportValidationReport {
+  totalRows: number;
+  validRowCount: number;
+  invalidRowCount: number;
+  errorCount: number;
+  /** Capped at MAX_REPORTED_IMPORT_ERRORS; errorCount has the full total */
+  errors: ImportRowError[];
+}
+
+/**
+ * One entry of a job's error log
+ * `row` is the line number in the uploaded file (header = 1)
+ */
+export interface ImportErrorLogEntry {
+  row: number;
+  field?: string;
+  message: string;
+}
+
+/**
+ * A failed row with its original cells and every error reported for it
+ */
+export interface ImportFailedRow {
+  row: number;
+  values: Record<string, string>;
+  errors: ImportErrorLogEntry[];
+}
+
+/**
+ * Error log of a finished job, joined with the uploaded file when readable
+ */
+export interface ImportErrorLog {
+  /** Data columns, in file order */
+  columns: string[];
+  entries: ImportErrorLogEntry[];
+  failedRows: ImportFailedRow[];
+  /** Every uploaded row (null when the source file could not be read) */
+  sourceRows: Record<string, string>[] | null;
+}
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
@@ -116,6 +186,15 @@ export function isJobFinished(status: ImportStatus): boolean {
   return ["COMPLETED", "FAILED", "PARTIAL_SUCCESS"].includes(status);
 }
 
+/**
+ * Processed share of the job's records, 0-100
+ */
+export function getJobProgress(job: ImportJob): number {
+  if (!job.totalRecords) return 0;
+  const processed = (job.successCount || 0) + (job.errorCount || 0);
+  return Math.min(100, Math.round((processed / job.totalRecords) * 100));
+}
+
 /**
  * Check if job can be cancelled
  */
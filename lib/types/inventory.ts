@@ -0,0 +1,144 @@
+/**
+ * TypeScript types for Inventory API DTOs
+ * IDs use `string` to avoid TSID precision loss (see lib/types/product.ts)
+ */
+
+// ============================================================================
+// Inventory Types
+// ============================================================================
+
+/**
+ * Stock record for a single product variant
+ * Returned by GET /api/v1/inventory
+ */
+export interface InventoryItem {
+  id: string;
+  variantId: string;
+  productId: string;
+  sku: string;
+  quantity: number;
+  reservedQuantity: number;
+  availableStock: number;
+  reorderLevel?: number;
+  productName?: string;
+  categoryName?: string;
+  thumbnailUrl?: string;
+  attributes?: Record<string, string>;
+  price?: number;
+  costPrice?: number;
+}
+
+/**
+ * User who performed an inventory transaction (absent for system actions)
+ */
+export interface InventoryAuditor {
+  id?: number;
+  username?: string;
+  email?: string;
+  avatarUrl?: string;
+}
+
+export type InventoryTransactionType =
+  | "IMPORT"
+  | "ADJUST"
+  | "DAMAGED"
+  | "RETURN"
+  | "RESERVE"
+  | "RELEASE"
+  | "CONFIRM"
+  | "OPENING_BALANCE";
+
+/**
+ * Stock movement for a variant
+ * Returned by GET /api/v1/inventory/variant/{variantId}/transactions
+ */
+export interface InventoryTransaction {
+  id: string;
+  variantId: string;
+  type: InventoryTransactionType;
+  quantityDelta: number;
+  beforeQuantity: number;
+  afterQuantity: number;
+  beforeReserved?: number;
+  afterReserved?: number;
+  reference: string;
+  note: string;
+  performedBy?: InventoryAuditor | null;
+  createdAt: string;
+}
+
+// ============================================================================
+// Request Types
+// ============================================================================
+
+export interface ImportStockRequest {
+  variantId: string;
+  quantity: number;
+  importPrice: number;
+  note?: string;
+}
+
+export interface AdjustStockRequest {
+  variantId: string;
+  /** Positive to add stock, negative to remove */
+  quantityDelta: number;
+  reason: string;
+  reference?: string;
+}
+
+/**
+ * Transaction types a stock take may post
+ * DAMAGED only applies to shortfalls
+ */
+export type StockTakeAdjustmentType = Extract<InventoryTransactionType, "ADJUST" | "DAMAGED">;
+
+export interface BatchAdjustStockItem {
+  variantId: string;
+  /** Counted quantity minus the recorded quantity */
+  quantityDelta: number;
+  type: StockTakeAdjustmentType;
+  reason: string;
+}
+
+/**
+ * All adjustments of one stock take, posted atomically
+ * Every resulting transaction carries the shared reference
+ */
+export interface BatchAdjustStockRequest {
+  reference: string;
+  note?: string;
+  items: BatchAdjustStockItem[];
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Check if a variant has dropped to (or below) its configured reorder level.
+ * Variants without a reorder level never trigger an alert.
+ */
+export function isBelowReorderLevel(item: InventoryItem): boolean {
+  if (item.reorderLevel === undefined || item.reorderLevel === null) {
+    return false;
+  }
+  return item.availableStock <= item.reorderLevel;
+}
+
+/** Prefix of references shared by the transactions of a stock take */
+export const STOCK_TAKE_REFERENCE_PREFIX = "STK-";
+
+/**
+ * Reference for a new stock take, e.g. STK-20260125-1430-7F3A
+ */
+export function createStockTakeReference(date: Date = new Date()): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  const day = `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+  const time = `${pad(date.getHours())}${pad(date.getMinutes())}`;
+  const suffix = Math.random().toString(16).slice(2, 6).toUpperCase().padEnd(4, "0");
+  return `${STOCK_TAKE_REFERENCE_PREFIX}${day}-${time}-${suffix}`;
+}
+
+export function isStockTakeReference(reference?: string | null): boolean {
+  return !!reference?.startsWith(STOCK_TAKE_REFERENCE_PREFIX);
+}
@@ -0,0 +1,280 @@
+/**
+ * Order domain types and response schemas
+ * Single source of truth for storefront and admin order data.
+ * Backend responses are parsed at the API boundary so TSID ids arrive as
+ * strings and variant attributes as a key/value record, whatever the payload.
+ */
+
+import { z } from "zod";
+import { API_CLIENT_ERRORS, type ApiResult } from "@/lib/api-client";
+
+// ============================================================================
+// Enums
+// ============================================================================
+
+export const ORDER_STATUSES = [
+  "PENDING",
+  "CONFIRMED",
+  "SHIPPING",
+  "COMPLETED",
+  "CANCELLED",
+  "RETURNED",
+] as const;
+
+export const PAYMENT_STATUSES = [
+  "UNPAID",
+  "PENDING",
+  "PAID",
+  "FAILED",
+  "REFUNDED",
+] as const;
+
+export const PAYMENT_METHODS = [
+  "COD",
+  "BANK_TRANSFER",
+  "VN_PAY",
+  "MOMO",
+  "E_WALLET",
+] as const;
+
+export const orderStatusSchema = z.enum(ORDER_STATUSES);
+export const paymentStatusSchema = z.enum(PAYMENT_STATUSES);
+export const paymentMethodSchema = z.enum(PAYMENT_METHODS);
+
+export type OrderStatus = z.infer<typeof orderStatusSchema>;
+export type PaymentStatus = z.infer<typeof paymentStatusSchema>;
+export type PaymentMethod = z.infer<typeof paymentMethodSchema>;
+
+/**
+ * Methods a shopper can pick for a new order or switch an unpaid order to
+ * E_WALLET is only read back from older orders: it has no gateway of its own
+ * (MoMo is the supported wallet), so it is never offered
+ */
+export const SELECTABLE_PAYMENT_METHODS = [
+  "COD",
+  "BANK_TRANSFER",
+  "VN_PAY",
+  "MOMO",
+] as const satisfies readonly PaymentMethod[];
+
+export type SelectablePaymentMethod = (typeof SELECTABLE_PAYMENT_METHODS)[number];
+
+// ============================================================================
+// Field Normalisers
+// ============================================================================
+
+/**
+ * TSID ids exceed Number.MAX_SAFE_INTEGER, so they are always handled as strings
+ */
+export const idSchema = z.union([z.string(), z.number()]).transform(String);
+
+/**
+ * Optional text field; the backend sends null for missing values
+ */
+export const optionalString = z
+  .string()
+  .nullish()
+  .transform((value) => value ?? undefined)
+  .optional();
+
+/**
+ * Variant attributes keyed by attribute name, e.g. { Size: "M", Color: "Red" }
+ */
+export type VariantAttributes = Record<string, string>;
+
+/**
+ * Parse variant attributes from any shape the backend sends:
+ * an object, a JSON string, or a "Size: M, Color: Red" snapshot string
+ */
+export function parseVariantAttributes(value: unknown): VariantAttributes {
+  if (value === null || value === undefined || value === "") return {};
+
+  if (typeof value === "string") {
+    try {
+      return parseVariantAttributes(JSON.parse(value));
+    } catch {
+      // Not JSON - fall through to the "Key: Value" snapshot format
+    }
+
+    const attributes: VariantAttributes = {};
+    const bareValues: string[] = [];
+    value
+      .split(/[,;|]/)
+      .map((part) => part.trim())
+      .filter(Boolean)
+      .forEach((part) => {
+        const separator = part.indexOf(":");
+        if (separator > 0) {
+          attributes[part.slice(0, separator).trim()] = part
+            .slice(separator + 1)
+            .trim();
+        } else {
+          bareValues.push(part);
+        }
+      });
+
+    if (bareValues.length > 0) {
+      attributes.Variant = bareValues.join(" / ");
+    }
+    return attributes;
+  }
+
+  if (typeof value === "object" && !Array.isArray(value)) {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>)
+        .filter(([, attribute]) => attribute !== null && attribute !== undefined)
+        .map(([key, attribute]) => [key, String(attribute)]),
+    );
+  }
+
+  return {};
+}
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+export const paymentInfoSchema = z.object({
+  paymentMethod: paymentMethodSchema,
+  paymentStatus: paymentStatusSchema,
+  paymentUrl: optionalString,
+  transferContent: optionalString,
+  qrCodeUrl: optionalString,
+  bankAccountInfo: optionalString,
+  /** ISO 8601 date string */
+  expiredAt: optionalString,
+});
+
+export const orderShippingAddressSchema = z.object({
+  recipientName: z.string(),
+  phone: z.string(),
+  fullAddress: optionalString,
+  provinceCode: optionalString,
+  provinceName: z.string(),
+  districtName: optionalString,
+  wardCode: optionalString,
+  wardName: z.string(),
+  detailAddress: z.string(),
+});
+
+export const orderItemSchema = z
+  .object({
+    id: idSchema,
+    productId: idSchema,
+    variantId: idSchema,
+    sku: optionalString,
+    productName: z.string(),
+    productSlug: optionalString,
+    variantName: optionalString,
+    variantAttributes: z.unknown().transform(parseVariantAttributes),
+    thumbnail: optionalString,
+    thumbnailUrl: optionalString,
+    quantity: z.number(),
+    sellingPrice: z.number().nullish(),
+    price: z.number().nullish(),
+    subtotal: z.number(),
+  })
+  .transform(({ thumbnailUrl, price, sellingPrice, ...item }) => ({
+    ...item,
+    thumbnail: item.thumbnail ?? thumbnailUrl,
+    // Older snapshots only carry `price`
+    sellingPrice:
+      sellingPrice ?? price ?? (item.quantity ? item.subtotal / item.quantity : 0),
+  }));
+
+export const orderSummarySchema = z.object({
+  id: idSchema,
+  code: z.string(),
+  status: orderStatusSchema,
+  finalAmount: z.number(),
+  totalItems: z.number(),
+  createdAt: z.string(),
+  firstProductThumbnail: optionalString,
+  firstProductName: optionalString,
+});
+
+export const orderDetailSchema = z.object({
+  id: idSchema,
+  orderCode: z.string(),
+  status: orderStatusSchema,
+  createdAt: z.string(),
+  updatedAt: optionalString,
+  paymentMethod: paymentMethodSchema,
+  paymentStatus: paymentStatusSchema,
+  shippingAddress: orderShippingAddressSchema,
+  items: z.array(orderItemSchema),
+  subTotal: z.number(),
+  shippingFee: z.number(),
+  discountAmount: z.number().nullish().transform((value) => value ?? 0),
+  finalAmount: z.number(),
+  note: optionalString,
+  contactEmail: optionalString,
+  paymentInfo: paymentInfoSchema.nullish().transform((value) => value ?? undefined),
+});
+
+export const orderCreationSchema = z.object({
+  /** Used internally for database queries (TSID format) */
+  orderId: idSchema,
+  /** Displayed to customers (e.g., "ORD-123456") */
+  orderCode: z.string(),
+  status: orderStatusSchema,
+  totalAmount: z.number(),
+  itemSummary: z.string(),
+  paymentInfo: paymentInfoSchema,
+});
+
+export type PaymentInfo = z.infer<typeof paymentInfoSchema>;
+export type OrderShippingAddress = z.infer<typeof orderShippingAddressSchema>;
+export type OrderItem = z.infer<typeof orderItemSchema>;
+export type OrderSummary = z.infer<typeof orderSummarySchema>;
+export type OrderDetail = z.infer<typeof orderDetailSchema>;
+export type OrderCreation = z.infer<typeof orderCreationSchema>;
+
+// ============================================================================
+// Response Parsing
+// ============================================================================
+
+const hasDataEnvelope = (value: unknown): value is { data: unknown } =>
+  typeof value === "object" && value !== null && "data" in value;
+
+/**
+ * Parse an order API response against its schema
+ *
+ * Unwraps the nested { data: { data } } envelope some endpoints return.
+ * A mismatch throws in development so contract drift is caught early;
+ * in production it becomes an INVALID_RESPONSE error, so callers never
+ * receive un-normalised data.
+ */
+export function parseOrderResponse<S extends z.ZodType>(
+  result: ApiResult<unknown>,
+  schema: S,
+  context: string,
+): ApiResult<z.output<S>> {
+  if (result.error || result.data === undefined || result.data === null) {
+    return result as ApiResult<z.output<S>>;
+  }
+
+  // Handle nested response structure
+  const payload = hasDataEnvelope(result.data)
+    ? (result.data.data ?? result.data)
+    : result.data;
+  const parsed = schema.safeParse(payload);
+
+  if (parsed.success) {
+    return { ...result, data: parsed.data };
+  }
+
+  if (process.env.NODE_ENV === "development") {
+    throw new Error(
+      `[orders] ${context} response does not match schema:\n${z.prettifyError(parsed.error)}`,
+    );
+  }
+
+  return {
+    meta: result.meta,
+    error: {
+      code: API_CLIENT_ERRORS.INVALID_RESPONSE,
+      message: "Unexpected order data from the server",
+    },
+  };
+}
@@ -9,6 +9,8 @@
  * Always use `string` for IDs to prevent precision loss.
  */
 
+import type { ApiResult } from "@/lib/api-client";
+
 // ============================================================================
 // Category Types (Tree Structure)
 // ============================================================================
@@ -61,6 +63,17 @@ export interface UpdateCategoryStatusRequest {
   isActive: boolean;
 }
 
+/**
+ * One entry of a batched category reorder
+ * PATCH /api/v1/categories/reorder
+ * Sending parentId re-parents the category (null = root level)
+ */
+export interface ReorderCategoryRequest {
+  id: string;
+  position: number;
+  parentId?: string | null;
+}
+
 // ============================================================================
 // Variant Types
 // ============================================================================
@@ -81,6 +94,7 @@ export interface VariantResponse {
   originalPrice: number;
   costPrice: number;
   quantity: number; // Read-only for updates - managed by Inventory Module
+  availableStock?: number; // quantity minus stock reserved by open orders
   attributes: VariantAttributes;
   isActive: boolean;
   createdAt?: string;
@@ -200,7 +214,8 @@ export interface CreateProductRequest {
  */
 export interface CreateDraftProductRequest {
   name: string;
-  slug: string;
+  /** Generated from the name when omitted */
+  slug?: string;
   description?: string;
   categoryId: string;
   minPrice: number;
@@ -385,32 +400,9 @@ export interface PageResponse<T> {
 export type ProductListResponse = PageResponse<ProductResponse>;
 
 /**
- * Standard API result wrapper
+ * Standard API result wrapper (shared with the API client)
  */
-
-/**
- * Standard API result wrapper
- */
-export interface ApiResult<T> {
-  data?: T;
-  meta?: {
-    message?: string;
-    serverTime?: number;
-    apiVersion?: string;
-    traceId?: string;
-    // Pagination metadata
-    page?: number;
-    size?: number;
-    totalElements?: number;
-    totalPages?: number;
-  };
-  error?: {
-    code?: string;
-    message?: string;
-    traceId?: string;
-    details?: unknown;
-  };
-}
+export type { ApiResult };
 
 // ============================================================================
 // Helper Types & Type Guards
@@ -596,6 +588,7 @@ export interface ProductListingDto {
   rating?: number;
   reviewCount?: number;
   availableColors?: string[]; // Array of color codes/names
+  availableSizes?: string[]; // Sizes offered across the product's variants
   brand?: string;
   isNew?: boolean;
   onSale?: boolean;
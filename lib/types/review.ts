@@ -0,0 +1,123 @@
+/**
+ * TypeScript types for Product Review API DTOs
+ * IDs use `string` to avoid TSID precision loss (see lib/types/product.ts)
+ */
+
+// ============================================================================
+// Enums
+// ============================================================================
+
+/**
+ * Moderation state - only APPROVED reviews are shown on the storefront
+ */
+export type ReviewStatus = "PENDING" | "APPROVED" | "REJECTED";
+
+export const REVIEW_STATUSES: ReviewStatus[] = ["PENDING", "APPROVED", "REJECTED"];
+
+export type ReviewSort = "newest" | "oldest" | "highest" | "lowest";
+
+export const REVIEW_SORTS: ReviewSort[] = ["newest", "oldest", "highest", "lowest"];
+
+export const REVIEW_RATINGS = [5, 4, 3, 2, 1] as const;
+
+export const MAX_REVIEW_IMAGES = 5;
+
+// ============================================================================
+// Response Types
+// ============================================================================
+
+/**
+ * Public review as shown on the product page
+ * Returned by GET /api/v1/products/{productId}/reviews
+ */
+export interface ProductReview {
+  id: string;
+  productId: string;
+  variantId: string;
+  /** 1-5 stars */
+  rating: number;
+  title?: string;
+  content: string;
+  images: string[];
+  variantAttributes?: Record<string, string>;
+  authorName: string;
+  authorAvatarUrl?: string;
+  /** Always true today - only buyers of a completed order can review */
+  verifiedPurchase: boolean;
+  createdAt: string;
+}
+
+/**
+ * Review with moderation details for the admin queue
+ * Returned by GET /api/v1/admin/reviews
+ */
+export interface AdminReview extends ProductReview {
+  status: ReviewStatus;
+  productName: string;
+  productSlug?: string;
+  orderCode?: string;
+  authorEmail?: string;
+  rejectionReason?: string;
+  moderatedAt?: string;
+  moderatedBy?: string;
+}
+
+/**
+ * Rating breakdown for a product
+ * Returned by GET /api/v1/products/{productId}/reviews/summary
+ */
+export interface ReviewSummary {
+  averageRating: number;
+  totalReviews: number;
+  /** Number of approved reviews per star, keyed "1" - "5" */
+  ratingCounts: Record<string, number>;
+  withPhotosCount: number;
+}
+
+/**
+ * A variant the signed-in shopper bought in a COMPLETED order and may review
+ * Returned by GET /api/v1/products/{productId}/reviews/eligibility
+ */
+export interface ReviewablePurchase {
+  orderCode: string;
+  variantId: string;
+  variantAttributes: Record<string, string>;
+  purchasedAt: string;
+}
+
+// ============================================================================
+// Request Types
+// ============================================================================
+
+export interface ReviewSearchParams {
+  page?: number;
+  size?: number;
+  sort?: ReviewSort;
+  /** Only reviews with this many stars */
+  rating?: number;
+  /** Only reviews that include photos */
+  withPhotos?: boolean;
+}
+
+export interface CreateReviewRequest {
+  productId: string;
+  variantId: string;
+  /** COMPLETED order the variant was bought in */
+  orderCode: string;
+  rating: number;
+  title?: string;
+  content: string;
+  images?: string[];
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Share of reviews with the given star rating, 0-100
+ */
+export function getRatingPercentage(summary: ReviewSummary, rating: number): number {
+  if (!summary.totalReviews) return 0;
+  return Math.round(((summary.ratingCounts[rating] ?? 0) / summary.totalReviews) * 100);
+}
@@ -0,0 +1,94 @@
+/**
+ * TypeScript types for Store Settings API DTOs
+ * Each section maps to one tab in /admin/settings and is saved independently
+ */
+
+// ============================================================================
+// Section Types
+// ============================================================================
+
+export interface GeneralSettings {
+  storeName: string;
+  publicUrl: string;
+  mission: string;
+  inquiryEmail: string;
+  orderAlertEmail: string;
+}
+
+export type TypographyPreset = "serif" | "sans";
+
+export interface BrandingSettings {
+  logoUrl?: string | null;
+  /** Hex accent color, e.g. "#D4AF37" */
+  primaryColor: string;
+  typography: TypographyPreset;
+}
+
+export interface PaymentSettings {
+  codEnabled: boolean;
+  bankTransferEnabled: boolean;
+  bankName: string;
+  bankAccountNumber: string;
+  bankAccountHolder: string;
+}
+
+export interface ShippingSettings {
+  /** Flat shipping fee in VND */
+  flatRate: number;
+  /** Orders at or above this subtotal ship free; 0 disables free shipping */
+  freeShippingThreshold: number;
+  processingDays: number;
+}
+
+export interface NotificationSettings {
+  newOrder: boolean;
+  vipRegistration: boolean;
+  inventoryDepleted: boolean;
+  reviewVerification: boolean;
+}
+
+export interface SecuritySettings {
+  sessionTimeoutMinutes: number;
+  maxLoginAttempts: number;
+  requireStrongPasswords: boolean;
+}
+
+export type PanelTheme = "light" | "dark" | "system";
+
+export interface AppearanceSettings {
+  /** Default admin panel theme applied via next-themes */
+  panelTheme: PanelTheme;
+}
+
+// ============================================================================
+// Aggregate Types
+// ============================================================================
+
+/**
+ * Full store configuration
+ * GET /api/v1/admin/settings
+ */
+export interface StoreSettings {
+  general: GeneralSettings;
+  branding: BrandingSettings;
+  payments: PaymentSettings;
+  shipping: ShippingSettings;
+  notifications: NotificationSettings;
+  security: SecuritySettings;
+  appearance: AppearanceSettings;
+  updatedAt?: string;
+}
+
+export type SettingsSection = Exclude<keyof StoreSettings, "updatedAt">;
+
+/**
+ * Public subset exposed to the storefront without authentication
+ * GET /api/v1/settings/storefront
+ */
+export interface StorefrontSettings {
+  slug: string;
+  storeName: string;
+  mission?: string;
+  logoUrl?: string | null;
+  primaryColor?: string;
+}
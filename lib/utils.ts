@@ -12,14 +12,11 @@ export function cn(...inputs: ClassValue[]) {
 export function clearCartData(): void {
   if (typeof window === 'undefined') return;
   
-  // Clear guest cart from localStorage (used by cartStore)
-  localStorage.removeItem('aurea-guest-cart');
-  
   // Clear guest ID from localStorage
   localStorage.removeItem('x-guest-id');
   
-  // Clear any other cart-related localStorage keys if they exist
-  // This ensures a clean slate for the next user
+  // Clear the offline cart mirror and queue (aurea-cart-*) and any other
+  // cart-related keys, so the next user starts with a clean slate
   const keysToRemove: string[] = [];
   for (let i = 0; i < localStorage.length; i++) {
     const key = localStorage.key(i);
@@ -54,3 +51,34 @@ export function slugify(text: string): string {
     .replace(/^-+/, '')            // Trim - from start of text
     .replace(/-+$/, '');           // Trim - from end of text
 }
+
+/**
+ * Format an ISO date as a short relative time ("5 minutes ago", "5 phút trước")
+ * Falls back to an empty string for invalid input
+ */
+export function formatRelativeTime(
+  dateString: string | undefined | null,
+  locale: string = "vi",
+): string {
+  if (!dateString) return "";
+
+  const date = new Date(dateString);
+  if (isNaN(date.getTime())) return "";
+
+  const diffSeconds = Math.round((date.getTime() - Date.now()) / 1000);
+  const units: Array<[Intl.RelativeTimeFormatUnit, number]> = [
+    ["year", 60 * 60 * 24 * 365],
+    ["month", 60 * 60 * 24 * 30],
+    ["day", 60 * 60 * 24],
+    ["hour", 60 * 60],
+    ["minute", 60],
+  ];
+
+  const formatter = new Intl.RelativeTimeFormat(locale, { numeric: "auto" });
+  for (const [unit, seconds] of units) {
+    if (Math.abs(diffSeconds) >= seconds) {
+      return formatter.format(Math.round(diffSeconds / seconds), unit);
+    }
+  }
+  return formatter.format(diffSeconds, "second");
+}
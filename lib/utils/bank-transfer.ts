@@ -0,0 +1,71 @@
+/**
+ * Bank transfer (VietQR) payment helpers
+ * Used by the order success page to track transfer expiry and status
+ */
+
+import type { PaymentInfo } from "@/lib/types/order";
+
+/**
+ * Payment statuses that can still change while the shopper is transferring
+ */
+const AWAITING_PAYMENT_STATUSES = ["UNPAID", "PENDING"];
+
+/**
+ * Seconds left until the transfer window closes
+ * Returns null when the payment has no expiry
+ */
+export function getSecondsUntilExpiry(
+  expiredAt: string | undefined | null,
+  now: number = Date.now(),
+): number | null {
+  if (!expiredAt) return null;
+
+  const expiry = new Date(expiredAt).getTime();
+  if (isNaN(expiry)) return null;
+
+  return Math.max(0, Math.floor((expiry - now) / 1000));
+}
+
+/**
+ * Format remaining seconds as mm:ss (or h:mm:ss for long windows)
+ */
+export function formatCountdown(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => String(value).padStart(2, "0");
+
+  return hours > 0
+    ? `${hours}:${pad(minutes)}:${pad(seconds)}`
+    : `${pad(minutes)}:${pad(seconds)}`;
+}
+
+/**
+ * Whether a bank transfer is still waiting for the shopper's money
+ */
+export function isAwaitingBankTransfer(
+  paymentInfo: PaymentInfo | null | undefined,
+): boolean {
+  return (
+    paymentInfo?.paymentMethod === "BANK_TRANSFER" &&
+    AWAITING_PAYMENT_STATUSES.includes(paymentInfo.paymentStatus)
+  );
+}
+
+/**
+ * Pull the account number out of the backend's free-text bank info
+ * (e.g. "Vietcombank - 0123456789 - CONG TY AUREA")
+ */
+export function extractAccountNumber(
+  bankAccountInfo: string | undefined | null,
+): string | null {
+  if (!bankAccountInfo) return null;
+
+  const candidates = bankAccountInfo.match(/\d[\d\s]{5,}\d/g);
+  if (!candidates) return null;
+
+  // The account number is the longest digit run
+  return candidates
+    .map((candidate) => candidate.replace(/\s/g, ""))
+    .sort((a, b) => b.length - a.length)[0];
+}
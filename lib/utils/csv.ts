@@ -0,0 +1,183 @@
+/**
+ * CSV helpers
+ * Shared by admin exports and the product import tooling
+ * Parsing runs in the import Web Worker, so nothing here may touch the DOM
+ * except `downloadCsv`
+ */
+
+export interface CsvColumn<T> {
+  header: string;
+  value: (row: T) => string | number | boolean | null | undefined;
+}
+
+/**
+ * Quote a cell when it contains a delimiter, quote or line break (RFC 4180)
+ */
+export function escapeCsvValue(value: string | number | boolean | null | undefined): string {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Prefix text a spreadsheet would run as a formula with an apostrophe
+ * (OWASP CSV injection); numbers and booleans are left alone
+ */
+export function guardCsvFormula<V>(value: V): V | string {
+  return typeof value === "string" && /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+}
+
+/**
+ * Undo guardCsvFormula for a cell read back from one of our own downloads
+ */
+export function unguardCsvFormula(value: string): string {
+  return /^'[=+\-@\t\r]/.test(value) ? value.slice(1) : value;
+}
+
+export interface ToCsvOptions {
+  /**
+   * Guard cells against formula injection. Use for files meant to be opened
+   * in Excel; leave off for CSVs sent back to the backend as data.
+   */
+  guardFormulas?: boolean;
+}
+
+/**
+ * Serialize rows with a header line, CRLF-separated
+ */
+export function toCsv<T>(
+  rows: T[],
+  columns: CsvColumn<T>[],
+  options: ToCsvOptions = {},
+): string {
+  const cell = (value: ReturnType<CsvColumn<T>["value"]>) =>
+    escapeCsvValue(options.guardFormulas ? guardCsvFormula(value) : value);
+
+  const lines = [
+    columns.map((column) => cell(column.header)).join(","),
+    ...rows.map((row) =>
+      columns.map((column) => cell(column.value(row))).join(","),
+    ),
+  ];
+  return lines.join("\r\n");
+}
+
+/**
+ * Trigger a browser download
+ * Prepends a UTF-8 BOM so Excel keeps Vietnamese diacritics intact
+ */
+export function downloadCsv(filename: string, content: string): void {
+  const blob = new Blob(["\uFEFF", content], { type: "text/csv;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+type ParserState = "fieldStart" | "unquoted" | "quoted" | "quoteInQuoted";
+
+export interface CsvStreamParser {
+  /** Feed the next chunk of text; returns the rows it completed */
+  write: (chunk: string) => string[][];
+  /** Close the stream; returns the trailing row, if any */
+  end: () => string[][];
+  /** True when the input ended inside a quoted field */
+  hasUnterminatedQuote: () => boolean;
+}
+
+/**
+ * Incremental RFC 4180 parser
+ * Handles quoted fields (embedded commas, quotes and line breaks), CRLF and a
+ * leading BOM; chunks may split anywhere, including inside a field.
+ * Blank lines are skipped. Unbalanced quotes are read leniently as text.
+ */
+export function createCsvParser(): CsvStreamParser {
+  let state: ParserState = "fieldStart";
+  let field = "";
+  let row: string[] = [];
+  let isFirstChunk = true;
+  let unterminated = false;
+
+  const endField = () => {
+    row.push(field);
+    field = "";
+    state = "fieldStart";
+  };
+
+  const endRow = (rows: string[][]) => {
+    endField();
+    if (row.length > 1 || row[0] !== "") rows.push(row);
+    row = [];
+  };
+
+  const write = (input: string) => {
+    const rows: string[][] = [];
+    let chunk = input;
+    if (isFirstChunk) {
+      chunk = chunk.replace(/^\uFEFF/, "");
+      isFirstChunk = false;
+    }
+
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      switch (state) {
+        case "quoted":
+          if (char === '"') {
+            state = "quoteInQuoted";
+          } else {
+            field += char;
+          }
+          break;
+        case "quoteInQuoted":
+          // "" inside a quoted field is an escaped quote
+          if (char === '"') {
+            field += '"';
+            state = "quoted";
+            break;
+          }
+        // falls through - the quoted field has ended
+        case "fieldStart":
+        case "unquoted":
+          if (char === '"' && state === "fieldStart") {
+            state = "quoted";
+          } else if (char === ",") {
+            endField();
+          } else if (char === "\n") {
+            endRow(rows);
+          } else if (char !== "\r") {
+            field += char;
+            state = "unquoted";
+          }
+          break;
+      }
+    }
+
+    return rows;
+  };
+
+  const end = () => {
+    const rows: string[][] = [];
+    unterminated = state === "quoted";
+    if (state !== "fieldStart" || field !== "" || row.length > 0) endRow(rows);
+    return rows;
+  };
+
+  return { write, end, hasUnterminatedQuote: () => unterminated };
+}
+
+/**
+ * Parse a complete CSV string
+ */
+export function parseCsv(text: string): string[][] {
+  const parser = createCsvParser();
+  return [...parser.write(text), ...parser.end()];
+}
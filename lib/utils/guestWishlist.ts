@@ -0,0 +1,46 @@
+/**
+ * Guest wishlist persistence
+ * Stores wishlist snapshots in localStorage, scoped to the current guest ID so
+ * a new guest session (e.g. after logout) starts with an empty list
+ */
+
+import type { WishlistItemResponse } from '@/lib/api/wishlist';
+import { getOrCreateGuestId } from './guestId';
+
+const GUEST_WISHLIST_PREFIX = 'aurea-guest-wishlist:';
+
+function getStorageKey(): string {
+  return `${GUEST_WISHLIST_PREFIX}${getOrCreateGuestId()}`;
+}
+
+/**
+ * Reads the guest wishlist for the current guest ID
+ * @returns Stored items, or an empty list when nothing is saved or storage is corrupt
+ */
+export function readGuestWishlist(): WishlistItemResponse[] {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const raw = localStorage.getItem(getStorageKey());
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Persists the guest wishlist for the current guest ID
+ */
+export function writeGuestWishlist(items: WishlistItemResponse[]): void {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(getStorageKey(), JSON.stringify(items));
+}
+
+/**
+ * Removes the guest wishlist once it has been merged into an account
+ */
+export function clearGuestWishlist(): void {
+  if (typeof window === 'undefined') return;
+  localStorage.removeItem(getStorageKey());
+}
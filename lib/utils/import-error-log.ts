@@ -0,0 +1,141 @@
+/**
+ * Import error log helpers
+ * Turns a job's error log CSV (and the uploaded file, when readable) into
+ * failed rows that can be reviewed, fixed and re-imported
+ */
+
+import { toCsv } from "@/lib/utils/csv";
+import { normalizeImportHeader } from "@/lib/validations/product";
+import type {
+  ImportErrorLog,
+  ImportErrorLogEntry,
+  ImportFailedRow,
+} from "@/lib/types/import";
+
+/** Error log columns the backend may use, after header normalization */
+const ROW_HEADERS = ["row", "row_number", "row_index", "line", "line_number"];
+const FIELD_HEADERS = ["field", "column", "column_name"];
+const MESSAGE_HEADERS = ["message", "error", "error_message", "errors", "reason"];
+
+/** Columns appended to the annotated CSV */
+export const ANNOTATION_COLUMNS = ["import_status", "import_errors"] as const;
+
+const toRecord = (headers: string[], row: string[]) =>
+  Object.fromEntries(headers.map((header, index) => [header, row[index] ?? ""]));
+
+/**
+ * Join the error log with the uploaded file
+ *
+ * Log rows carry a row number, an optional field and a message; any other
+ * columns are treated as the row's original cells. Cells from the uploaded
+ * file take precedence, matched by line number.
+ */
+export function buildImportErrorLog(
+  logRows: string[][],
+  sourceRows: string[][] | null,
+): ImportErrorLog {
+  const [logHeaders = [], ...logBody] = logRows;
+  const normalized = logHeaders.map(normalizeImportHeader);
+  const findColumn = (candidates: string[]) =>
+    normalized.findIndex((header) => candidates.includes(header));
+
+  const rowIndex = findColumn(ROW_HEADERS);
+  const fieldIndex = findColumn(FIELD_HEADERS);
+  const messageIndex = findColumn(MESSAGE_HEADERS);
+  if (rowIndex === -1 || messageIndex === -1) {
+    throw new Error("Unrecognized error log format (missing row or message column)");
+  }
+
+  const logDataColumns = logHeaders.filter(
+    (_, index) => ![rowIndex, fieldIndex, messageIndex].includes(index),
+  );
+
+  const [sourceHeaders, ...sourceBody] = sourceRows ?? [];
+  const columns = sourceHeaders ?? logDataColumns;
+  const sourceRecords = sourceHeaders
+    ? sourceBody.map((row) => toRecord(sourceHeaders, row))
+    : null;
+
+  const entries: ImportErrorLogEntry[] = [];
+  const failedRows = new Map<number, ImportFailedRow>();
+
+  for (const logRow of logBody) {
+    const row = Number(logRow[rowIndex]);
+    if (!Number.isInteger(row)) continue;
+
+    const entry: ImportErrorLogEntry = {
+      row,
+      field: fieldIndex === -1 ? undefined : logRow[fieldIndex] || undefined,
+      message: logRow[messageIndex] || "Unknown error",
+    };
+    entries.push(entry);
+
+    let failedRow = failedRows.get(row);
+    if (!failedRow) {
+      const fromLog = Object.fromEntries(
+        logDataColumns.map((column) => [column, logRow[logHeaders.indexOf(column)] ?? ""]),
+      );
+      // Line numbers count the header as line 1
+      const fromSource = sourceRecords?.[row - 2];
+      failedRow = { row, values: { ...fromLog, ...fromSource }, errors: [] };
+      failedRows.set(row, failedRow);
+    }
+    failedRow.errors.push(entry);
+  }
+
+  return {
+    columns,
+    entries,
+    failedRows: Array.from(failedRows.values()).sort((a, b) => a.row - b.row),
+    sourceRows: sourceRecords,
+  };
+}
+
+const formatErrors = (errors: ImportErrorLogEntry[]) =>
+  errors
+    .map((error) => (error.field ? `${error.field}: ${error.message}` : error.message))
+    .join(" | ");
+
+/**
+ * Uploaded file with a status and error column per row
+ * Falls back to the failed rows alone when the source file was not readable.
+ * Cells are formula-guarded for Excel; the import worker strips the guard
+ * when the corrected file is uploaded again.
+ */
+export function buildAnnotatedCsv(log: ImportErrorLog): string {
+  const failedByRow = new Map(log.failedRows.map((row) => [row.row, row]));
+  const rows: Pick<ImportFailedRow, "values" | "errors">[] = log.sourceRows
+    ? log.sourceRows.map((values, index) => ({
+        values,
+        errors: failedByRow.get(index + 2)?.errors ?? [],
+      }))
+    : log.failedRows;
+
+  return toCsv(rows, [
+    ...log.columns.map((column) => ({
+      header: column,
+      value: (row: Pick<ImportFailedRow, "values">) => row.values[column],
+    })),
+    {
+      header: ANNOTATION_COLUMNS[0],
+      value: (row) => (row.errors.length > 0 ? "FAILED" : "OK"),
+    },
+    {
+      header: ANNOTATION_COLUMNS[1],
+      value: (row) => formatErrors(row.errors),
+    },
+  ], { guardFormulas: true });
+}
+
+/**
+ * CSV of corrected rows, in the original column order, for re-import
+ */
+export function buildReimportCsv(
+  columns: string[],
+  rows: Record<string, string>[],
+): string {
+  return toCsv(
+    rows,
+    columns.map((column) => ({ header: column, value: (row) => row[column] })),
+  );
+}
@@ -0,0 +1,176 @@
+/**
+ * Offline cart
+ * Keeps a localStorage mirror of the last server cart plus a queue of cart
+ * changes made while the backend was unreachable. Changes are keyed by
+ * productVariantId (not cart item ID) so they can be replayed onto whatever
+ * cart the server returns later, including a guest cart merged on login.
+ */
+
+import type { CartItemResponse, CartResponse } from '@/lib/api/cart';
+
+const CART_MIRROR_KEY = 'aurea-cart-mirror';
+const PENDING_CART_KEY = 'aurea-cart-pending';
+
+export type PendingCartMutation =
+  | { type: 'add'; productId: string; productVariantId: string; quantity: number }
+  | { type: 'update'; productVariantId: string; quantity: number }
+  | { type: 'remove'; productVariantId: string };
+
+/** Display fields for an item added while offline, until the server enriches it */
+export type CartItemPreview = Pick<
+  CartItemResponse,
+  'productName' | 'price' | 'thumbnail' | 'sku' | 'availableStock'
+>;
+
+const sameVariant = (a: string | number, b: string | number) => String(a) === String(b);
+
+/**
+ * Items added offline get negative IDs; they only exist in the mirror
+ */
+export const isLocalCartItem = (item: Pick<CartItemResponse, 'id'>) => item.id < 0;
+
+function readJson<T>(key: string): T | null {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads the last known cart
+ * @returns The mirrored cart, or null when nothing is saved or storage is corrupt
+ */
+export function readCartMirror(): CartResponse | null {
+  const cart = readJson<CartResponse>(CART_MIRROR_KEY);
+  return cart && Array.isArray(cart.items) ? cart : null;
+}
+
+/**
+ * Saves the cart as last known state
+ */
+export function writeCartMirror(cart: CartResponse): void {
+  if (typeof window === 'undefined') return;
+  localStorage.setItem(CART_MIRROR_KEY, JSON.stringify(cart));
+}
+
+/**
+ * Reads the queued changes, oldest first
+ */
+export function readPendingCartMutations(): PendingCartMutation[] {
+  const queue = readJson<PendingCartMutation[]>(PENDING_CART_KEY);
+  return Array.isArray(queue) ? queue : [];
+}
+
+/**
+ * Replaces the queue; an empty queue removes the key
+ */
+export function writePendingCartMutations(queue: PendingCartMutation[]): void {
+  if (typeof window === 'undefined') return;
+  if (queue.length === 0) {
+    localStorage.removeItem(PENDING_CART_KEY);
+  } else {
+    localStorage.setItem(PENDING_CART_KEY, JSON.stringify(queue));
+  }
+}
+
+/**
+ * Adds a change to the queue, folding it into earlier changes for the same
+ * variant so replay sends as few requests as possible
+ * @param addedOffline - The variant only exists because of a queued add
+ * @returns The new queue
+ */
+export function queueCartMutation(
+  queue: PendingCartMutation[],
+  mutation: PendingCartMutation,
+  addedOffline: boolean
+): PendingCartMutation[] {
+  const variantId = mutation.productVariantId;
+  const others = queue.filter((queued) => !sameVariant(queued.productVariantId, variantId));
+  const pendingAdd = queue.find(
+    (queued): queued is Extract<PendingCartMutation, { type: 'add' }> =>
+      queued.type === 'add' && sameVariant(queued.productVariantId, variantId)
+  );
+
+  switch (mutation.type) {
+    case 'add':
+      if (pendingAdd) {
+        return queue.map((queued) =>
+          queued === pendingAdd ? { ...pendingAdd, quantity: pendingAdd.quantity + mutation.quantity } : queued
+        );
+      }
+      return [...queue, mutation];
+    case 'update':
+      // The server has never seen this item: just add the final quantity
+      if (addedOffline && pendingAdd) {
+        return [...others, { ...pendingAdd, quantity: mutation.quantity }];
+      }
+      // Quantities are absolute, so earlier adds/updates for the variant are moot
+      return [...others, mutation];
+    case 'remove':
+      return addedOffline ? others : [...others, mutation];
+  }
+}
+
+/**
+ * Applies a change to a cart locally
+ *
+ * Item subtotals and subTotal are recomputed from known prices; discount and
+ * shipping keep their last server values until the backend recalculates them.
+ */
+export function applyCartMutation(
+  cart: CartResponse,
+  mutation: PendingCartMutation,
+  preview?: CartItemPreview
+): CartResponse {
+  const existing = cart.items.find((item) => sameVariant(item.productVariantId, mutation.productVariantId));
+  let items: CartItemResponse[];
+
+  switch (mutation.type) {
+    case 'add':
+      items = existing
+        ? cart.items.map((item) =>
+            item === existing ? { ...item, quantity: item.quantity + mutation.quantity } : item
+          )
+        : [
+            ...cart.items,
+            {
+              ...preview,
+              id: -Date.now(),
+              productId: mutation.productId,
+              productVariantId: mutation.productVariantId,
+              quantity: mutation.quantity,
+              createdAt: new Date().toISOString(),
+            },
+          ];
+      break;
+    case 'update':
+      items = cart.items.map((item) => (item === existing ? { ...item, quantity: mutation.quantity } : item));
+      break;
+    case 'remove':
+      items = cart.items.filter((item) => item !== existing);
+      break;
+  }
+
+  items = items.map((item) => ({
+    ...item,
+    subtotalPrice: item.price !== undefined ? item.price * item.quantity : item.subtotalPrice,
+  }));
+  const subTotal = items.reduce((sum, item) => sum + (item.subtotalPrice ?? 0), 0);
+  const finalTotalPrice = Math.max(0, subTotal + (cart.shippingFee ?? 0) - (cart.discount ?? 0));
+
+  return { ...cart, items, subTotal, finalTotalPrice, totalAmount: finalTotalPrice };
+}
+
+/**
+ * Finds the server item a queued change targets
+ */
+export function findCartItemByVariant(
+  cart: CartResponse,
+  productVariantId: string
+): CartItemResponse | undefined {
+  return cart.items.find((item) => sameVariant(item.productVariantId, productVariantId));
+}
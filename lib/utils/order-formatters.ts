@@ -55,6 +55,22 @@ export function formatDateShort(dateString: string | undefined | null): string {
   });
 }
 
+/**
+ * Format variant attributes as "Size: M · Color: Red"
+ */
+export function formatVariantAttributes(
+  attributes: Record<string, string> | undefined | null,
+): string {
+  if (!attributes) return "";
+
+  return Object.entries(attributes)
+    .map(([name, value]) => {
+      const label = name.charAt(0).toUpperCase() + name.slice(1);
+      return `${label}: ${value}`;
+    })
+    .join(" · ");
+}
+
 /**
  * Payment method labels
  */
@@ -0,0 +1,106 @@
+/**
+ * Online payment gateway helpers (VNPay, MoMo)
+ * Shared by checkout, the payment return page and retry-payment actions
+ */
+
+import type {
+  PaymentMethod,
+  PaymentStatus,
+  OrderStatus,
+} from "@/lib/types/order";
+
+/**
+ * Payment methods that redirect the shopper to an external gateway
+ */
+export const ONLINE_PAYMENT_METHODS = ["VN_PAY", "MOMO"] as const;
+
+export type OnlinePaymentMethod = (typeof ONLINE_PAYMENT_METHODS)[number];
+
+/**
+ * Gateways that can call back /payment/return
+ * MOCK is the local test gateway (see isMockGatewayEnabled)
+ */
+export type PaymentReturnGateway = OnlinePaymentMethod | "MOCK";
+
+export function isOnlinePaymentMethod(
+  method: string | undefined | null,
+): method is OnlinePaymentMethod {
+  return ONLINE_PAYMENT_METHODS.includes(method as OnlinePaymentMethod);
+}
+
+/**
+ * Whether the shopper can (re)start an online payment for an order
+ * Only pending orders paid by gateway whose payment never completed qualify
+ */
+export function canRetryPayment(order: {
+  status: OrderStatus | string;
+  paymentMethod: PaymentMethod | string;
+  paymentStatus: PaymentStatus | string;
+}): boolean {
+  return (
+    order.status?.toUpperCase() === "PENDING" &&
+    isOnlinePaymentMethod(order.paymentMethod) &&
+    ["UNPAID", "FAILED"].includes(order.paymentStatus?.toUpperCase())
+  );
+}
+
+/**
+ * Identify which gateway redirected to /payment/return from its query params
+ */
+export function detectReturnGateway(
+  params: Record<string, string>,
+): PaymentReturnGateway | null {
+  if (params.gateway === "MOCK") return "MOCK";
+  if (params.vnp_TxnRef || params.vnp_ResponseCode) return "VN_PAY";
+  if (params.partnerCode && params.resultCode !== undefined) return "MOMO";
+  return null;
+}
+
+// ============================================================================
+// Local mock gateway
+// ============================================================================
+
+/**
+ * The mock gateway replaces real gateway URLs so the whole flow
+ * (checkout -> gateway -> /payment/return) can be exercised locally.
+ * Enable with NEXT_PUBLIC_PAYMENT_GATEWAY_MOCK=true
+ */
+export function isMockGatewayEnabled(): boolean {
+  return process.env.NEXT_PUBLIC_PAYMENT_GATEWAY_MOCK === "true";
+}
+
+export function buildMockGatewayUrl(params: {
+  orderCode: string;
+  amount: number;
+  method: OnlinePaymentMethod;
+}): string {
+  const query = new URLSearchParams({
+    orderCode: params.orderCode,
+    amount: String(params.amount),
+    method: params.method,
+  });
+  return `/payment/mock-gateway?${query.toString()}`;
+}
+
+/**
+ * Resolve where to send the shopper for an online payment
+ * Uses the mock gateway when enabled, otherwise the gateway URL from the backend
+ */
+export function resolvePaymentUrl(params: {
+  orderCode: string;
+  amount: number;
+  method: PaymentMethod;
+  paymentUrl?: string;
+}): string | null {
+  if (!isOnlinePaymentMethod(params.method)) return null;
+
+  if (isMockGatewayEnabled()) {
+    return buildMockGatewayUrl({
+      orderCode: params.orderCode,
+      amount: params.amount,
+      method: params.method,
+    });
+  }
+
+  return params.paymentUrl || null;
+}
@@ -16,7 +16,10 @@
  * @param required - The specific permission required
  * @returns true if the user permission grants access to the required permission
  */
-function matchesPermission(userPerm: string, required: string): boolean {
+export function matchesPermission(
+  userPerm: string,
+  required: string,
+): boolean {
   // 1. Super Admin / God Mode
   if (userPerm === "*") {
     return true;
@@ -120,3 +123,48 @@ export function hasAllPermissions(
 
   return required.every((req) => hasPermission(userPermissions, req));
 }
+
+
+/**
+ * Check if a permission string is a wildcard grant ("*" or "domain.*").
+ */
+export function isWildcardPermission(permission: string): boolean {
+  return permission === "*" || permission.endsWith(".*");
+}
+
+/**
+ * Find the grant in a permission set that covers the required permission.
+ * Prefers an exact grant over a wildcard so the UI can tell them apart.
+ *
+ * @example
+ * findGrantingPermission(["shop.*"], "shop.order.view") // "shop.*"
+ * findGrantingPermission(["shop.order.view"], "shop.order.view") // "shop.order.view"
+ */
+export function findGrantingPermission(
+  grants: string[],
+  required: string,
+): string | null {
+  if (grants.includes(required)) {
+    return required;
+  }
+  return grants.find((grant) => matchesPermission(grant, required)) ?? null;
+}
+
+/**
+ * Drop grants that are already covered by a broader wildcard in the same set.
+ *
+ * @example
+ * normalizePermissionSet(["shop.*", "shop.order.view", "file.view"]) // ["shop.*", "file.view"]
+ */
+export function normalizePermissionSet(grants: string[]): string[] {
+  const unique = Array.from(new Set(grants));
+  return unique.filter(
+    (grant) =>
+      !unique.some(
+        (other) =>
+          other !== grant &&
+          isWildcardPermission(other) &&
+          matchesPermission(other, grant),
+      ),
+  );
+}
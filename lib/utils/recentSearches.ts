@@ -0,0 +1,55 @@
+/**
+ * Recent storefront searches
+ * Kept in localStorage on this device, newest first, without duplicates
+ * (compared accent-insensitively)
+ */
+
+import { foldSearchText } from './search';
+
+const RECENT_SEARCHES_KEY = 'aurea-recent-searches';
+const MAX_RECENT_SEARCHES = 5;
+
+/**
+ * Reads the saved searches
+ * @returns Stored queries, or an empty list when nothing is saved or storage is corrupt
+ */
+export function readRecentSearches(): string[] {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const raw = localStorage.getItem(RECENT_SEARCHES_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed.filter((entry) => typeof entry === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Moves a query to the front of the list
+ * @returns The updated list
+ */
+export function addRecentSearch(query: string): string[] {
+  const trimmed = query.trim();
+  if (typeof window === 'undefined' || !trimmed) return readRecentSearches();
+
+  const folded = foldSearchText(trimmed);
+  const searches = [
+    trimmed,
+    ...readRecentSearches().filter((entry) => foldSearchText(entry) !== folded),
+  ].slice(0, MAX_RECENT_SEARCHES);
+  localStorage.setItem(RECENT_SEARCHES_KEY, JSON.stringify(searches));
+  return searches;
+}
+
+/**
+ * Removes one query, or every query when none is given
+ * @returns The updated list
+ */
+export function removeRecentSearch(query?: string): string[] {
+  if (typeof window === 'undefined') return [];
+
+  const searches = query ? readRecentSearches().filter((entry) => entry !== query) : [];
+  localStorage.setItem(RECENT_SEARCHES_KEY, JSON.stringify(searches));
+  return searches;
+}
@@ -0,0 +1,129 @@
+/**
+ * Reorder suggestions
+ * Sales velocity comes from CONFIRM transactions (stock leaving for confirmed
+ * orders); suggestions cover that velocity for a fixed number of days on top
+ * of the variant's reorder level
+ */
+
+import { parseCsv, toCsv, unguardCsvFormula, type CsvColumn } from "@/lib/utils/csv";
+import type { InventoryItem, InventoryTransaction } from "@/lib/types/inventory";
+
+/** Days of CONFIRM transactions used to measure sales velocity */
+export const SALES_VELOCITY_WINDOW_DAYS = 30;
+
+/** Days of sales a reorder should cover beyond the reorder level */
+export const REORDER_COVER_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ReorderSuggestion {
+  item: InventoryItem;
+  /** Units confirmed per day over the velocity window */
+  dailyVelocity: number;
+  /** Days until available stock runs out; null without recent sales */
+  daysOfCover: number | null;
+  suggestedQuantity: number;
+}
+
+/** Start of the velocity window */
+export function getVelocityWindowStart(now: Date = new Date()): Date {
+  return new Date(now.getTime() - SALES_VELOCITY_WINDOW_DAYS * DAY_MS);
+}
+
+/**
+ * Units per day confirmed within the velocity window
+ */
+export function getSalesVelocity(
+  transactions: InventoryTransaction[],
+  now: Date = new Date(),
+): number {
+  const since = getVelocityWindowStart(now).getTime();
+  const units = transactions
+    .filter((tx) => tx.type === "CONFIRM" && new Date(tx.createdAt).getTime() >= since)
+    .reduce((sum, tx) => sum + Math.abs(tx.quantityDelta), 0);
+  return units / SALES_VELOCITY_WINDOW_DAYS;
+}
+
+/**
+ * Quantity that lifts available stock to the reorder level plus
+ * REORDER_COVER_DAYS of sales at the given velocity
+ */
+export function buildReorderSuggestion(
+  item: InventoryItem,
+  dailyVelocity: number,
+): ReorderSuggestion {
+  const target = (item.reorderLevel ?? 0) + Math.ceil(dailyVelocity * REORDER_COVER_DAYS);
+  return {
+    item,
+    dailyVelocity,
+    daysOfCover:
+      dailyVelocity > 0 ? Math.max(0, Math.floor(item.availableStock / dailyVelocity)) : null,
+    suggestedQuantity: Math.max(0, target - item.availableStock),
+  };
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+const SUGGESTION_COLUMNS: CsvColumn<ReorderSuggestion>[] = [
+  { header: "sku", value: (row) => row.item.sku },
+  { header: "variant_id", value: (row) => row.item.variantId },
+  { header: "product_name", value: (row) => row.item.productName },
+  { header: "available", value: (row) => row.item.availableStock },
+  { header: "reorder_level", value: (row) => row.item.reorderLevel },
+  { header: "daily_velocity", value: (row) => row.dailyVelocity.toFixed(2) },
+  { header: "days_of_cover", value: (row) => row.daysOfCover },
+  { header: "suggested_quantity", value: (row) => row.suggestedQuantity },
+  { header: "import_price", value: (row) => row.item.costPrice },
+];
+
+/**
+ * Suggestions file for Excel; product names and SKUs are formula-guarded
+ */
+export function toReorderSuggestionsCsv(suggestions: ReorderSuggestion[]): string {
+  return toCsv(suggestions, SUGGESTION_COLUMNS, { guardFormulas: true });
+}
+
+/** Code of the error thrown for a file that is not a suggestions export */
+export const REORDER_FILE_INVALID = "REORDER_FILE_INVALID";
+
+export interface ReorderPrefill {
+  quantity: number;
+  importPrice?: number;
+}
+
+/**
+ * Read an exported suggestions file back, keyed by SKU
+ * Rows without a positive suggested quantity are skipped
+ * @throws Error with code REORDER_FILE_INVALID when required columns are missing
+ */
+export function parseReorderSuggestionsCsv(text: string): Map<string, ReorderPrefill> {
+  const [headers = [], ...rows] = parseCsv(text);
+  const column = (name: string) => headers.findIndex((header) => header.trim() === name);
+  const skuIndex = column("sku");
+  const quantityIndex = column("suggested_quantity");
+  const priceIndex = column("import_price");
+
+  if (skuIndex === -1 || quantityIndex === -1) {
+    const error = new Error(
+      "Not a reorder suggestions file (missing sku or suggested_quantity)",
+    ) as Error & { code?: string };
+    error.code = REORDER_FILE_INVALID;
+    throw error;
+  }
+
+  const prefills = new Map<string, ReorderPrefill>();
+  for (const row of rows) {
+    const sku = unguardCsvFormula(row[skuIndex] ?? "").trim();
+    const quantity = Number(row[quantityIndex]);
+    if (!sku || !Number.isInteger(quantity) || quantity <= 0) continue;
+
+    const importPrice = priceIndex === -1 ? NaN : Number(row[priceIndex]);
+    prefills.set(sku.toLowerCase(), {
+      quantity,
+      importPrice: importPrice > 0 ? importPrice : undefined,
+    });
+  }
+  return prefills;
+}
@@ -0,0 +1,31 @@
+/**
+ * Storefront search helpers
+ * Matching is accent-insensitive so "ao thun" finds "Áo thun" and vice versa
+ */
+
+/**
+ * Lowercase, strip Vietnamese diacritics (including đ) and collapse whitespace
+ */
+export function foldSearchText(text: string | null | undefined): string {
+  if (!text) return "";
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/đ/gi, "d")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Relevance of a text for a folded query; 0 means no match
+ * Whole-phrase prefix > phrase anywhere > every word present
+ */
+export function scoreSearchMatch(text: string | null | undefined, foldedQuery: string): number {
+  const folded = foldSearchText(text);
+  if (!folded || !foldedQuery) return 0;
+
+  if (folded.startsWith(foldedQuery)) return 3;
+  if (folded.includes(foldedQuery)) return 2;
+  return foldedQuery.split(" ").every((word) => folded.includes(word)) ? 1 : 0;
+}
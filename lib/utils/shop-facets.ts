@@ -0,0 +1,191 @@
+/**
+ * Storefront facets
+ * Counts are disjunctive: each facet is counted over the products matching
+ * every *other* active filter, so picking "Red" still shows how many products
+ * come in "Blue" (values within a facet are OR-ed, facets are AND-ed)
+ */
+
+import type { ProductListingDto } from "@/lib/types/product";
+
+export interface FacetValue {
+  value: string;
+  count: number;
+}
+
+export interface PriceHistogramBucket {
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface PriceHistogram {
+  min: number;
+  max: number;
+  buckets: PriceHistogramBucket[];
+}
+
+export interface ShopFacets {
+  sizes: FacetValue[];
+  colors: FacetValue[];
+  brands: FacetValue[];
+  /** Null when no product in scope has a price */
+  price: PriceHistogram | null;
+  inStockCount: number;
+  /** True when counts come from a sample of a larger result set */
+  sampled: boolean;
+}
+
+export interface FacetSelection {
+  sizes: string[];
+  colors: string[];
+  brands: string[];
+  priceRange: [number | null, number | null];
+  inStock: boolean;
+}
+
+type FacetKey = "sizes" | "colors" | "brands" | "price" | "inStock";
+
+export const PRICE_HISTOGRAM_BUCKETS = 12;
+
+export const EMPTY_SHOP_FACETS: ShopFacets = {
+  sizes: [],
+  colors: [],
+  brands: [],
+  price: null,
+  inStockCount: 0,
+  sampled: false,
+};
+
+export function getListingPrice(product: ProductListingDto): number {
+  return product.minPrice ?? product.price;
+}
+
+const getFacetValues = (product: ProductListingDto, key: "sizes" | "colors" | "brands") => {
+  switch (key) {
+    case "sizes":
+      return product.availableSizes || [];
+    case "colors":
+      return product.availableColors || [];
+    case "brands":
+      return product.brand ? [product.brand] : [];
+  }
+};
+
+const sameValue = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+function matchesSelection(
+  product: ProductListingDto,
+  selection: FacetSelection,
+  ignore: FacetKey
+): boolean {
+  for (const key of ["sizes", "colors", "brands"] as const) {
+    if (key === ignore || selection[key].length === 0) continue;
+    const values = getFacetValues(product, key);
+    if (!selection[key].some((selected) => values.some((value) => sameValue(value, selected)))) {
+      return false;
+    }
+  }
+
+  if (ignore !== "price") {
+    const price = getListingPrice(product);
+    const [min, max] = selection.priceRange;
+    if (min !== null && price < min) return false;
+    if (max !== null && price > max) return false;
+  }
+
+  if (ignore !== "inStock" && selection.inStock && !product.inStock) return false;
+
+  return true;
+}
+
+function countValues(
+  products: ProductListingDto[],
+  key: "sizes" | "colors" | "brands",
+  selected: string[]
+): FacetValue[] {
+  const counts = new Map<string, FacetValue>();
+  for (const product of products) {
+    // A product listing the same value twice still counts once
+    const values = new Set(getFacetValues(product, key).map((value) => value.trim()).filter(Boolean));
+    for (const value of values) {
+      const entry = counts.get(value.toLowerCase()) ?? { value, count: 0 };
+      entry.count += 1;
+      counts.set(value.toLowerCase(), entry);
+    }
+  }
+
+  // Keep selected values visible (with 0) so they can be unticked
+  for (const value of selected) {
+    if (!counts.has(value.toLowerCase())) counts.set(value.toLowerCase(), { value, count: 0 });
+  }
+
+  return Array.from(counts.values()).sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
+
+export function buildPriceHistogram(
+  prices: number[],
+  bucketCount: number = PRICE_HISTOGRAM_BUCKETS
+): PriceHistogram | null {
+  if (prices.length === 0) return null;
+
+  const min = Math.min(...prices);
+  const max = Math.max(...prices);
+  if (min === max) {
+    return { min, max, buckets: [{ from: min, to: max, count: prices.length }] };
+  }
+
+  const width = (max - min) / bucketCount;
+  const buckets = Array.from({ length: bucketCount }, (_, index) => ({
+    from: Math.round(min + index * width),
+    to: Math.round(index === bucketCount - 1 ? max : min + (index + 1) * width),
+    count: 0,
+  }));
+  for (const price of prices) {
+    buckets[Math.min(bucketCount - 1, Math.floor((price - min) / width))].count += 1;
+  }
+  return { min, max, buckets };
+}
+
+/**
+ * Facet counts for the products in scope (the keyword/category result set)
+ */
+export function buildShopFacets(
+  products: ProductListingDto[],
+  selection: FacetSelection,
+  sampled: boolean
+): ShopFacets {
+  const matching = (ignore: FacetKey) =>
+    products.filter((product) => matchesSelection(product, selection, ignore));
+
+  return {
+    sizes: countValues(matching("sizes"), "sizes", selection.sizes),
+    colors: countValues(matching("colors"), "colors", selection.colors),
+    brands: countValues(matching("brands"), "brands", selection.brands),
+    price: buildPriceHistogram(matching("price").map(getListingPrice)),
+    inStockCount: matching("inStock").filter((product) => product.inStock).length,
+    sampled,
+  };
+}
+
+/**
+ * Drops selected values no product in scope has, so they are not sent to the
+ * backend. Only safe when the scope was loaded in full (not sampled).
+ */
+export function pruneFacetSelection(
+  products: ProductListingDto[],
+  selection: FacetSelection
+): FacetSelection {
+  const prune = (key: "sizes" | "colors" | "brands") => {
+    const present = new Set(
+      products.flatMap((product) => getFacetValues(product, key)).map((value) => value.toLowerCase())
+    );
+    return selection[key].filter((value) => present.has(value.toLowerCase()));
+  };
+
+  return {
+    ...selection,
+    sizes: prune("sizes"),
+    colors: prune("colors"),
+    brands: prune("brands"),
+  };
+}
@@ -0,0 +1,278 @@
+/**
+ * Variant matrix helpers
+ * Used by the admin VariantsTab to generate variants from option axes
+ * (Size × Color × Material…) and to send only real changes on product update
+ */
+
+import type {
+  CreateVariantRequest,
+  UpdateVariantWithId,
+  VariantAttributes,
+} from "@/lib/types/product";
+
+/**
+ * Guard against accidental explosions (e.g. 10 sizes × 10 colors × 10 materials)
+ */
+export const MAX_MATRIX_COMBINATIONS = 200;
+
+/**
+ * One option axis - its name becomes the attribute key
+ */
+export interface VariantOptionAxis {
+  name: string;
+  values: string[];
+}
+
+/**
+ * Minimal variant shape shared by the editor rows and ProductResponse variants
+ */
+export interface MatrixVariant {
+  id?: string | null;
+  sku?: string;
+  attributes?: VariantAttributes;
+  sellingPrice?: number;
+  originalPrice?: number;
+  costPrice?: number;
+  quantity?: number;
+  isActive?: boolean;
+}
+
+export interface MatrixPrices {
+  sellingPrice: number;
+  originalPrice: number;
+  costPrice: number;
+}
+
+export interface VariantMatrixResult<T extends MatrixVariant> {
+  /** Matrix rows followed by existing variants outside the matrix */
+  variants: T[];
+  created: number;
+  updated: number;
+  unchanged: number;
+  /** Existing variants that match no combination - kept untouched */
+  outsideMatrix: number;
+}
+
+/**
+ * Attribute key for an axis name ("Material " -> "material")
+ */
+export function toAttributeKey(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+/**
+ * Stable identity of an attribute combination, independent of key order and case
+ */
+export function getCombinationKey(attributes: VariantAttributes = {}): string {
+  return Object.entries(attributes)
+    .map(([key, value]) => [toAttributeKey(key), value.trim().toLowerCase()])
+    .filter(([, value]) => value !== "")
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `${key}=${value}`)
+    .join("|");
+}
+
+/**
+ * Rebuild option axes from existing variants, keeping first-seen order
+ */
+export function deriveOptionAxes(variants: MatrixVariant[]): VariantOptionAxis[] {
+  const axes = new Map<string, VariantOptionAxis>();
+
+  for (const variant of variants) {
+    for (const [key, value] of Object.entries(variant.attributes || {})) {
+      if (!value.trim()) continue;
+      const axis = axes.get(key) ?? { name: key, values: [] };
+      if (!axis.values.some((v) => v.toLowerCase() === value.toLowerCase())) {
+        axis.values.push(value);
+      }
+      axes.set(key, axis);
+    }
+  }
+
+  return Array.from(axes.values());
+}
+
+/**
+ * Axes that contribute to the matrix (named and with at least one value)
+ */
+export function getActiveAxes(axes: VariantOptionAxis[]): VariantOptionAxis[] {
+  return axes.filter((axis) => axis.name.trim() && axis.values.length > 0);
+}
+
+/**
+ * Number of combinations the axes would generate
+ */
+export function countCombinations(axes: VariantOptionAxis[]): number {
+  const active = getActiveAxes(axes);
+  if (active.length === 0) return 0;
+  return active.reduce((total, axis) => total * axis.values.length, 1);
+}
+
+/**
+ * Cartesian product of the axes as attribute maps
+ */
+export function buildCombinations(axes: VariantOptionAxis[]): VariantAttributes[] {
+  return getActiveAxes(axes).reduce<VariantAttributes[]>(
+    (combinations, axis) =>
+      combinations.flatMap((attributes) =>
+        axis.values.map((value) => ({
+          ...attributes,
+          [toAttributeKey(axis.name)]: value,
+        })),
+      ),
+    [{}],
+  );
+}
+
+/**
+ * SKU segment: diacritics stripped, upper-cased, alphanumerics only
+ * ("Xanh lá" -> "XANHLA")
+ */
+function toSkuSegment(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/đ/g, "d")
+    .replace(/Đ/g, "D")
+    .toUpperCase()
+    .replace(/[^A-Z0-9]/g, "");
+}
+
+/**
+ * Auto SKU for a combination: BASE-VALUE-VALUE in axis order
+ */
+export function generateVariantSku(
+  baseSku: string,
+  attributes: VariantAttributes,
+  axes: VariantOptionAxis[],
+): string {
+  const segments = getActiveAxes(axes)
+    .map((axis) => toSkuSegment(attributes[toAttributeKey(axis.name)] || ""))
+    .filter(Boolean);
+
+  return [toSkuSegment(baseSku) || "SKU", ...segments].join("-");
+}
+
+const hasPriceChanges = (variant: MatrixVariant, prices: MatrixPrices) =>
+  variant.sellingPrice !== prices.sellingPrice ||
+  variant.originalPrice !== prices.originalPrice ||
+  variant.costPrice !== prices.costPrice;
+
+/**
+ * Merge generated combinations into the current variants
+ *
+ * - Combinations already present keep their id and SKU; their prices are only
+ *   replaced when `overwriteExistingPrices` is set
+ * - Missing combinations become new rows with an auto SKU
+ * - Variants outside the matrix are kept (deleting stays an explicit action)
+ */
+export function applyVariantMatrix<T extends MatrixVariant>(
+  current: T[],
+  axes: VariantOptionAxis[],
+  options: {
+    baseSku: string;
+    prices: MatrixPrices;
+    overwriteExistingPrices: boolean;
+    createVariant: (variant: MatrixVariant) => T;
+  },
+): VariantMatrixResult<T> {
+  const byKey = new Map(
+    current.map((variant) => [getCombinationKey(variant.attributes), variant]),
+  );
+  const usedKeys = new Set<string>();
+  const takenSkus = new Set(current.map((variant) => variant.sku).filter(Boolean));
+
+  const result: VariantMatrixResult<T> = {
+    variants: [],
+    created: 0,
+    updated: 0,
+    unchanged: 0,
+    outsideMatrix: 0,
+  };
+
+  for (const attributes of buildCombinations(axes)) {
+    const key = getCombinationKey(attributes);
+    if (usedKeys.has(key)) continue;
+    usedKeys.add(key);
+
+    const existing = byKey.get(key);
+    if (existing) {
+      if (options.overwriteExistingPrices && hasPriceChanges(existing, options.prices)) {
+        result.variants.push({ ...existing, ...options.prices });
+        result.updated++;
+      } else {
+        result.variants.push(existing);
+        result.unchanged++;
+      }
+      continue;
+    }
+
+    // Suffix clashing SKUs (e.g. "S/M" and "SM" collapse to the same segment)
+    const baseSku = generateVariantSku(options.baseSku, attributes, axes);
+    let sku = baseSku;
+    for (let suffix = 2; takenSkus.has(sku); suffix++) {
+      sku = `${baseSku}-${suffix}`;
+    }
+    takenSkus.add(sku);
+
+    result.variants.push(
+      options.createVariant({
+        id: null,
+        sku,
+        attributes,
+        ...options.prices,
+        isActive: true,
+      }),
+    );
+    result.created++;
+  }
+
+  for (const variant of current) {
+    if (!usedKeys.has(getCombinationKey(variant.attributes))) {
+      result.variants.push(variant);
+      result.outsideMatrix++;
+    }
+  }
+
+  return result;
+}
+
+const isVariantChanged = (original: MatrixVariant, variant: MatrixVariant) =>
+  getCombinationKey(original.attributes) !== getCombinationKey(variant.attributes) ||
+  (original.sellingPrice || 0) !== (variant.sellingPrice || 0) ||
+  (original.originalPrice || 0) !== (variant.originalPrice || 0) ||
+  (original.costPrice || 0) !== (variant.costPrice || 0) ||
+  (original.isActive !== false) !== (variant.isActive !== false);
+
+/**
+ * Variant list for PUT /api/v1/products/{id}
+ * Sends new variants and changed existing ones; unchanged variants are
+ * omitted because the backend preserves variants missing from the list
+ */
+export function buildVariantUpdatePayload(
+  original: MatrixVariant[],
+  current: MatrixVariant[],
+): (CreateVariantRequest | UpdateVariantWithId)[] {
+  const originalById = new Map(
+    original.filter((variant) => variant.id).map((variant) => [variant.id, variant]),
+  );
+
+  return current.flatMap<CreateVariantRequest | UpdateVariantWithId>((variant) => {
+    const base = {
+      attributes: variant.attributes || {},
+      sellingPrice: variant.sellingPrice || 0,
+      originalPrice: variant.originalPrice || 0,
+      costPrice: variant.costPrice || 0,
+      isActive: variant.isActive !== false,
+    };
+
+    if (!variant.id) {
+      return [{ ...base, sku: variant.sku || undefined, quantity: variant.quantity ?? 0 }];
+    }
+
+    const before = originalById.get(variant.id);
+    if (before && !isVariantChanged(before, variant)) return [];
+
+    return [{ ...base, id: variant.id, sku: variant.sku || "" }];
+  });
+}
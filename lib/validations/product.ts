@@ -4,6 +4,7 @@
  */
 
 import { z } from "zod";
+import type { ImportRowError } from "@/lib/types/import";
 
 // ============================================================================
 // Category Schemas
@@ -381,6 +382,248 @@ export const updateProductInfoSchema = z.object({
 
 export type UpdateProductInfoFormData = z.infer<typeof updateProductInfoSchema>;
 
+// ============================================================================
+// Import Schemas
+// ============================================================================
+
+/**
+ * Columns of the product import CSV
+ * POST /api/v1/admin/imports/internal/products
+ * One row per variant; rows sharing a group_code form one product.
+ * Aliases are matched after normalizing headers (case, accents, separators).
+ */
+export const PRODUCT_IMPORT_COLUMNS = [
+  { key: "group_code", required: true, aliases: ["group", "product_code", "ma_nhom"] },
+  { key: "product_name", required: true, aliases: ["name", "product", "ten_san_pham"] },
+  { key: "category", required: true, aliases: ["category_name", "danh_muc"] },
+  { key: "description", required: false, aliases: ["mo_ta"] },
+  { key: "sku", required: true, aliases: ["variant_sku", "ma_sku"] },
+  { key: "price", required: true, aliases: ["selling_price", "gia", "gia_ban"] },
+  { key: "quantity", required: true, aliases: ["qty", "stock", "so_luong"] },
+  { key: "color", required: false, aliases: ["colour", "mau", "mau_sac"] },
+  { key: "size", required: false, aliases: ["kich_thuoc", "kich_co"] },
+] as const;
+
+export type ProductImportColumnKey = (typeof PRODUCT_IMPORT_COLUMNS)[number]["key"];
+
+/** Header index for each import column, null when unmapped */
+export type ProductImportMapping = Record<ProductImportColumnKey, number | null>;
+
+/** Matches the variants limit of createProductSchema */
+export const MAX_IMPORT_VARIANTS_PER_PRODUCT = 50;
+
+/**
+ * Numeric CSV cell: required, parsed, then checked by the variant schema
+ */
+const csvNumber = (schema: z.ZodNumber, label: string) =>
+  z
+    .string()
+    .trim()
+    .min(1, `${label} is required`)
+    .refine((value) => value === "" || !Number.isNaN(Number(value)), `${label} must be a number`)
+    .transform(Number)
+    .pipe(schema);
+
+/**
+ * Schema for one import row (cells as read from the CSV)
+ * Field rules are shared with the product and variant forms
+ */
+export const productImportRowSchema = z
+  .object({
+    group_code: z
+      .string()
+      .trim()
+      .min(1, "Group code is required")
+      .max(100, "Group code must not exceed 100 characters"),
+    product_name: createProductSchema.shape.name,
+    category: z.string().trim().min(1, "Category is required"),
+    description: createDraftProductSchema.shape.description,
+    sku: createVariantSchema.shape.sku.unwrap(),
+    price: csvNumber(createVariantSchema.shape.sellingPrice, "Price"),
+    quantity: csvNumber(createVariantSchema.shape.quantity, "Quantity"),
+    color: z.string().trim(),
+    size: z.string().trim(),
+  })
+  .refine((row) => row.color !== "" || row.size !== "", {
+    path: ["color"],
+    message: "At least one attribute is required (color or size)",
+  });
+
+/** Raw, trimmed cells of one mapped row */
+export type ProductImportRow = Record<ProductImportColumnKey, string>;
+
+/**
+ * Header normalization for auto-mapping ("Tên sản phẩm" -> "ten_san_pham")
+ */
+export function normalizeImportHeader(header: string): string {
+  return header
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/đ/gi, "d")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_|_$/g, "");
+}
+
+/**
+ * Guess the mapping from the file's header row
+ * Exact column keys win over aliases; each header is used at most once
+ */
+export function autoMapImportColumns(headers: string[]): ProductImportMapping {
+  const normalized = headers.map(normalizeImportHeader);
+  const used = new Set<number>();
+  const mapping = {} as ProductImportMapping;
+
+  const claim = (candidates: readonly string[]) => {
+    const index = normalized.findIndex(
+      (header, i) => !used.has(i) && candidates.includes(header),
+    );
+    if (index === -1) return null;
+    used.add(index);
+    return index;
+  };
+
+  for (const column of PRODUCT_IMPORT_COLUMNS) {
+    mapping[column.key] = claim([column.key]);
+  }
+  for (const column of PRODUCT_IMPORT_COLUMNS) {
+    mapping[column.key] ??= claim(column.aliases);
+  }
+
+  return mapping;
+}
+
+export interface ProductImportMappingIssue {
+  column: ProductImportColumnKey;
+  issue: "missing" | "duplicate";
+}
+
+/**
+ * Mapping problems that block validation (required column unmapped,
+ * one header mapped to several columns)
+ */
+export function getImportMappingIssues(
+  mapping: ProductImportMapping,
+): ProductImportMappingIssue[] {
+  const counts = new Map<number, number>();
+  for (const index of Object.values(mapping)) {
+    if (index !== null) counts.set(index, (counts.get(index) || 0) + 1);
+  }
+
+  return PRODUCT_IMPORT_COLUMNS.flatMap<ProductImportMappingIssue>((column) => {
+    const index = mapping[column.key];
+    if (index === null) {
+      return column.required ? [{ column: column.key, issue: "missing" }] : [];
+    }
+    return (counts.get(index) || 0) > 1 ? [{ column: column.key, issue: "duplicate" }] : [];
+  });
+}
+
+/**
+ * Validate mapped rows: per-row schema checks plus the rules that span rows
+ * (unique SKUs, one name/category per group, unique attributes per group,
+ * variant limit per product). `rowNumbers` are the file line numbers used in
+ * messages.
+ */
+export function validateProductImportRows(
+  rows: ProductImportRow[],
+  rowNumbers: number[],
+): ImportRowError[] {
+  const errors: ImportRowError[] = [];
+  const skuRows = new Map<string, number>();
+  const groups = new Map<
+    string,
+    { row: number; name: string; category: string; variants: Map<string, number> }
+  >();
+
+  rows.forEach((row, i) => {
+    const rowNumber = rowNumbers[i];
+    const result = productImportRowSchema.safeParse(row);
+
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        const column = issue.path[0] as ProductImportColumnKey | undefined;
+        errors.push({
+          row: rowNumber,
+          column,
+          value: column ? row[column] : undefined,
+          message: issue.message,
+        });
+      }
+    }
+
+    const sku = row.sku.trim();
+    if (sku) {
+      const firstRow = skuRows.get(sku);
+      if (firstRow !== undefined) {
+        errors.push({
+          row: rowNumber,
+          column: "sku",
+          value: sku,
+          message: `Duplicate SKU (first used on row ${firstRow})`,
+        });
+      } else {
+        skuRows.set(sku, rowNumber);
+      }
+    }
+
+    const groupCode = row.group_code.trim();
+    if (!groupCode) return;
+
+    const group = groups.get(groupCode);
+    if (!group) {
+      groups.set(groupCode, {
+        row: rowNumber,
+        name: row.product_name.trim(),
+        category: row.category.trim(),
+        variants: new Map([[`${row.color.trim()}|${row.size.trim()}`.toLowerCase(), rowNumber]]),
+      });
+      return;
+    }
+
+    if (row.product_name.trim() !== group.name) {
+      errors.push({
+        row: rowNumber,
+        column: "product_name",
+        value: row.product_name,
+        message: `Product name differs from row ${group.row} of group ${groupCode}`,
+      });
+    }
+    if (row.category.trim() !== group.category) {
+      errors.push({
+        row: rowNumber,
+        column: "category",
+        value: row.category,
+        message: `Category differs from row ${group.row} of group ${groupCode}`,
+      });
+    }
+
+    const attributesKey = `${row.color.trim()}|${row.size.trim()}`.toLowerCase();
+    const sameVariantRow = group.variants.get(attributesKey);
+    if (sameVariantRow !== undefined) {
+      errors.push({
+        row: rowNumber,
+        column: "color",
+        value: [row.color, row.size].filter(Boolean).join(" / "),
+        message: `Same color and size as row ${sameVariantRow} of group ${groupCode}`,
+      });
+    } else {
+      group.variants.set(attributesKey, rowNumber);
+    }
+
+    if (group.variants.size > MAX_IMPORT_VARIANTS_PER_PRODUCT) {
+      errors.push({
+        row: rowNumber,
+        column: "group_code",
+        value: groupCode,
+        message: `Group ${groupCode} exceeds ${MAX_IMPORT_VARIANTS_PER_PRODUCT} variants`,
+      });
+    }
+  });
+
+  return errors;
+}
+
 // ============================================================================
 // Query & Filter Schemas
 // ============================================================================
@@ -0,0 +1,144 @@
+/**
+ * Zod validation schemas for the admin Settings tabs
+ * One schema per section so each tab validates and saves on its own
+ */
+
+import { z } from "zod";
+
+// ============================================================================
+// Section Schemas
+// ============================================================================
+
+/**
+ * PUT /api/v1/admin/settings/general
+ */
+export const generalSettingsSchema = z.object({
+  storeName: z
+    .string()
+    .min(1, "Store name is required")
+    .max(60, "Store name must not exceed 60 characters")
+    .trim(),
+  publicUrl: z.url("Enter a valid URL, including https://"),
+  mission: z
+    .string()
+    .max(500, "Mission statement must not exceed 500 characters"),
+  inquiryEmail: z.email("Enter a valid email address"),
+  orderAlertEmail: z.email("Enter a valid email address"),
+});
+
+export type GeneralSettingsFormData = z.infer<typeof generalSettingsSchema>;
+
+/**
+ * PUT /api/v1/admin/settings/branding
+ */
+export const brandingSettingsSchema = z.object({
+  logoUrl: z.url("Enter a valid image URL").nullable().optional().or(z.literal("")),
+  primaryColor: z
+    .string()
+    .regex(/^#[0-9A-Fa-f]{6}$/, "Use a 6-digit hex color, e.g. #D4AF37"),
+  typography: z.enum(["serif", "sans"]),
+});
+
+export type BrandingSettingsFormData = z.infer<typeof brandingSettingsSchema>;
+
+/**
+ * PUT /api/v1/admin/settings/payments
+ * Bank details are only required while bank transfer is enabled
+ */
+export const paymentSettingsSchema = z
+  .object({
+    codEnabled: z.boolean(),
+    bankTransferEnabled: z.boolean(),
+    bankName: z.string().trim(),
+    bankAccountNumber: z.string().trim(),
+    bankAccountHolder: z.string().trim(),
+  })
+  .superRefine((data, ctx) => {
+    if (!data.codEnabled && !data.bankTransferEnabled) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["codEnabled"],
+        message: "At least one payment method must stay enabled",
+      });
+    }
+    if (data.bankTransferEnabled) {
+      if (!data.bankName) {
+        ctx.addIssue({ code: "custom", path: ["bankName"], message: "Bank name is required" });
+      }
+      if (!/^\d{6,20}$/.test(data.bankAccountNumber)) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["bankAccountNumber"],
+          message: "Account number must be 6-20 digits",
+        });
+      }
+      if (!data.bankAccountHolder) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["bankAccountHolder"],
+          message: "Account holder is required",
+        });
+      }
+    }
+  });
+
+export type PaymentSettingsFormData = z.infer<typeof paymentSettingsSchema>;
+
+/**
+ * PUT /api/v1/admin/settings/shipping
+ */
+export const shippingSettingsSchema = z.object({
+  flatRate: z.number().int().min(0, "Shipping fee cannot be negative"),
+  freeShippingThreshold: z.number().int().min(0, "Threshold cannot be negative"),
+  processingDays: z
+    .number()
+    .int()
+    .min(0, "Processing time cannot be negative")
+    .max(30, "Processing time must not exceed 30 days"),
+});
+
+export type ShippingSettingsFormData = z.infer<typeof shippingSettingsSchema>;
+
+/**
+ * PUT /api/v1/admin/settings/notifications
+ */
+export const notificationSettingsSchema = z.object({
+  newOrder: z.boolean(),
+  vipRegistration: z.boolean(),
+  inventoryDepleted: z.boolean(),
+  reviewVerification: z.boolean(),
+});
+
+export type NotificationSettingsFormData = z.infer<
+  typeof notificationSettingsSchema
+>;
+
+/**
+ * PUT /api/v1/admin/settings/security
+ */
+export const securitySettingsSchema = z.object({
+  sessionTimeoutMinutes: z
+    .number()
+    .int()
+    .min(5, "Session timeout must be at least 5 minutes")
+    .max(1440, "Session timeout must not exceed 24 hours"),
+  maxLoginAttempts: z
+    .number()
+    .int()
+    .min(3, "Allow at least 3 attempts")
+    .max(20, "Must not exceed 20 attempts"),
+  requireStrongPasswords: z.boolean(),
+});
+
+export type SecuritySettingsFormData = z.infer<typeof securitySettingsSchema>;
+
+/**
+ * PUT /api/v1/admin/settings/appearance
+ */
+export const appearanceSettingsSchema = z.object({
+  panelTheme: z.enum(["light", "dark", "system"]),
+});
+
+export type AppearanceSettingsFormData = z.infer<
+  typeof appearanceSettingsSchema
+>;
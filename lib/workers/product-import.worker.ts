@@ -0,0 +1,207 @@
+/**
+ * Product import worker
+ * Parses, validates and re-serializes the import CSV off the main thread so
+ * large files never block the admin UI. The parsed rows stay in the worker;
+ * only headers, samples and reports cross back.
+ *
+ * Started by useProductImportWorker (lib/hooks/useProductImportWorker.ts)
+ */
+
+import { createCsvParser, toCsv, unguardCsvFormula } from "@/lib/utils/csv";
+import {
+  PRODUCT_IMPORT_COLUMNS,
+  validateProductImportRows,
+  type ProductImportMapping,
+  type ProductImportRow,
+} from "@/lib/validations/product";
+import type {
+  ImportRowError,
+  ImportValidationReport,
+  ParsedImportFile,
+} from "@/lib/types/import";
+
+// ============================================================================
+// Protocol
+// ============================================================================
+
+export interface ProductImportWorkerResults {
+  parse: ParsedImportFile;
+  validate: ImportValidationReport;
+  /** CSV with the canonical import headers, ready for upload */
+  build: string;
+}
+
+export type ProductImportWorkerRequest =
+  | { id: number; type: "parse"; file: File }
+  | { id: number; type: "validate"; mapping: ProductImportMapping }
+  | {
+      id: number;
+      type: "build";
+      mapping: ProductImportMapping;
+      skipInvalidRows: boolean;
+    };
+
+export type ProductImportWorkerResponse =
+  | { id: number; type: "progress"; progress: number }
+  | {
+      id: number;
+      type: "result";
+      result: ProductImportWorkerResults[keyof ProductImportWorkerResults];
+    }
+  | { id: number; type: "error"; message: string };
+
+/** Keeps the report small enough to post and render */
+export const MAX_REPORTED_IMPORT_ERRORS = 500;
+
+const SAMPLE_ROW_COUNT = 5;
+
+// ============================================================================
+// State
+// ============================================================================
+
+const ctx = self as unknown as Worker;
+
+let headers: string[] = [];
+let rows: string[][] = [];
+let hasUnterminatedQuote = false;
+
+const post = (message: ProductImportWorkerResponse) => ctx.postMessage(message);
+
+/**
+ * File line number of a data row (header is line 1)
+ * Approximate when earlier cells contain line breaks
+ */
+const toRowNumber = (index: number) => index + 2;
+
+// ============================================================================
+// Handlers
+// ============================================================================
+
+async function parse(id: number, file: File): Promise<ParsedImportFile> {
+  const parser = createCsvParser();
+  const reader = file.stream().getReader();
+  const decoder = new TextDecoder("utf-8");
+  const parsed: string[][] = [];
+  let loaded = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    loaded += value.byteLength;
+    parsed.push(...parser.write(decoder.decode(value, { stream: true })));
+    post({ id, type: "progress", progress: file.size ? loaded / file.size : 1 });
+  }
+  parsed.push(...parser.write(decoder.decode()), ...parser.end());
+
+  if (parsed.length === 0) {
+    throw new Error("The file is empty");
+  }
+
+  headers = parsed[0].map((header) => header.trim());
+  rows = parsed.slice(1);
+  hasUnterminatedQuote = parser.hasUnterminatedQuote();
+
+  return {
+    headers,
+    rowCount: rows.length,
+    sampleRows: rows.slice(0, SAMPLE_ROW_COUNT),
+  };
+}
+
+function toRecord(row: string[], mapping: ProductImportMapping): ProductImportRow {
+  const record = {} as ProductImportRow;
+  for (const column of PRODUCT_IMPORT_COLUMNS) {
+    const index = mapping[column.key];
+    // Annotated error logs come back with formula-guarded cells
+    record[column.key] = index === null ? "" : unguardCsvFormula(row[index] ?? "").trim();
+  }
+  return record;
+}
+
+function collectErrors(mapping: ProductImportMapping) {
+  const records = rows.map((row) => toRecord(row, mapping));
+  const errors: ImportRowError[] = [];
+
+  // Structural problems first - they usually explain the schema errors
+  rows.forEach((row, index) => {
+    if (row.length !== headers.length) {
+      errors.push({
+        row: toRowNumber(index),
+        message: `Expected ${headers.length} cells, found ${row.length}`,
+      });
+    }
+  });
+  if (hasUnterminatedQuote && rows.length > 0) {
+    errors.push({
+      row: toRowNumber(rows.length - 1),
+      message: "Unclosed quote - the rest of the file was read as one cell",
+    });
+  }
+
+  errors.push(
+    ...validateProductImportRows(records, rows.map((_, index) => toRowNumber(index))),
+  );
+  errors.sort((a, b) => a.row - b.row);
+
+  return { records, errors, invalidRows: new Set(errors.map((error) => error.row)) };
+}
+
+function validate(mapping: ProductImportMapping): ImportValidationReport {
+  const { errors, invalidRows } = collectErrors(mapping);
+
+  return {
+    totalRows: rows.length,
+    validRowCount: rows.length - invalidRows.size,
+    invalidRowCount: invalidRows.size,
+    errorCount: errors.length,
+    errors: errors.slice(0, MAX_REPORTED_IMPORT_ERRORS),
+  };
+}
+
+function build(mapping: ProductImportMapping, skipInvalidRows: boolean): string {
+  const { records, invalidRows } = collectErrors(mapping);
+
+  if (invalidRows.size > 0 && !skipInvalidRows) {
+    throw new Error(`${invalidRows.size} row(s) still have errors`);
+  }
+
+  const validRecords = records.filter(
+    (_, index) => !invalidRows.has(toRowNumber(index)),
+  );
+  if (validRecords.length === 0) {
+    throw new Error("No valid rows to import");
+  }
+
+  return toCsv(
+    validRecords,
+    PRODUCT_IMPORT_COLUMNS.map((column) => ({
+      header: column.key,
+      value: (record: ProductImportRow) => record[column.key],
+    })),
+  );
+}
+
+// ============================================================================
+// Entry
+// ============================================================================
+
+ctx.onmessage = async (event: MessageEvent<ProductImportWorkerRequest>) => {
+  const request = event.data;
+
+  try {
+    const result =
+      request.type === "parse"
+        ? await parse(request.id, request.file)
+        : request.type === "validate"
+          ? validate(request.mapping)
+          : build(request.mapping, request.skipInvalidRows);
+
+    post({ id: request.id, type: "result", result });
+  } catch (error) {
+    post({
+      id: request.id,
+      type: "error",
+      message: error instanceof Error ? error.message : "CSV processing failed",
+    });
+  }
+};